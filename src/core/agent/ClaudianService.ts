@@ -14,6 +14,7 @@
 import type {
   CanUseTool,
   McpServerConfig,
+  McpServerStatus,
   Options,
   PermissionMode as SDKPermissionMode,
   PermissionResult,
@@ -40,30 +41,53 @@ import {
   getLastUserMessage,
   isSessionExpiredError,
 } from '../../utils/session';
+import { DryRunStaging } from '../dryrun';
+import type { AuditHookContext } from '../hooks';
 import {
   createBlocklistHook,
+  createDenyRuleAuditHook,
+  createDryRunHook,
+  createExecutionAuditHook,
+  createMcpToolSelectionHook,
+  createPluginComponentHook,
   createVaultRestrictionHook,
+  withDenyAudit,
 } from '../hooks';
 import type { McpServerManager } from '../mcp';
+import { resolveDisabledPluginTools } from '../plugins';
 import { isSessionInitEvent, isStreamChunk, transformSDKMessage } from '../sdk';
 import {
+  AuditLogger,
   buildPermissionUpdates,
   getActionDescription,
 } from '../security';
 import { TOOL_ASK_USER_QUESTION, TOOL_ENTER_PLAN_MODE, TOOL_EXIT_PLAN_MODE, TOOL_SKILL } from '../tools/toolNames';
 import type {
+  AgentDefinition,
   ApprovalDecision,
+  AuditDecisionSource,
   ChatMessage,
   Conversation,
   ExitPlanModeCallback,
   ExitPlanModeDecision,
   ImageAttachment,
+  McpToolSelection,
   PermissionMode,
   SlashCommand,
   StreamChunk,
+  ThinkingBudget,
 } from '../types';
 import { resolveModelWithBetas, THINKING_BUDGETS } from '../types';
 import type { SDKNonResultMessage } from '../types/sdk';
+import {
+  type BudgetScope,
+  describeExceededBudget,
+  evaluateBudget,
+  getBudgetLimits,
+  hasBudgetLimits,
+  ResultCostTracker,
+  toDayKey,
+} from '../usage';
 import { MessageChannel } from './MessageChannel';
 import {
   type ColdStartQueryContext,
@@ -103,15 +127,34 @@ export type AskUserQuestionCallback = (
 
 export interface QueryOptions {
   allowedTools?: string[];
+  /** Tools removed for this cold-start query, on top of the always-disabled ones. */
+  disallowedTools?: string[];
   model?: string;
   /** MCP servers @-mentioned in the prompt. */
   mcpMentions?: Set<string>;
   /** MCP servers enabled via UI selector (in addition to @-mentioned servers). */
   enabledMcpServers?: Set<string>;
+  /** MCP tools left enabled for this conversation, per server narrowed down in the selector. */
+  enabledMcpTools?: McpToolSelection;
   /** Force cold-start query (bypass persistent query). */
   forceColdStart?: boolean;
   /** Session-specific external context paths (directories with full access). */
   externalContextPaths?: string[];
+  /** Conversation the turn belongs to, for per-conversation budget caps. */
+  conversationId?: string | null;
+  /** Permission mode override for cold-start queries (defaults to settings). */
+  permissionMode?: PermissionMode;
+  /** Agent the main thread runs as (cold-start only), e.g. a draft in the agent builder. */
+  agent?: AgentDefinition;
+  /** Thinking budget override for cold-start queries (defaults to settings). */
+  thinkingBudget?: ThinkingBudget;
+  /** Environment variables replacing the active ones for this query, e.g. from an env snippet. */
+  environmentVariables?: string;
+  /**
+   * Session to branch from (cold-start only). The query resumes it with
+   * forkSession, so the source session is left untouched.
+   */
+  forkFromSessionId?: string;
 }
 
 export interface EnsureReadyOptions {
@@ -142,7 +185,22 @@ export class ClaudianService {
   private mcpManager: McpServerManager;
 
   private persistentQuery: Query | null = null;
+  /** PID of the CLI process behind the persistent query, for memory reporting. */
+  private persistentProcessId: number | null = null;
   private messageChannel: MessageChannel | null = null;
+  /** Result costs are cumulative per CLI process; converts them to per-turn costs. */
+  private resultCostTracker = new ResultCostTracker();
+  /** Budget caps the user chose to keep exceeding ("Always allow"). */
+  private budgetOverrides = new Set<string>();
+  private auditLogger: AuditLogger;
+  /** File changes held back for review while in dry-run mode. */
+  private dryRunStaging: DryRunStaging;
+  /** Conversation of the current turn, recorded with audit log entries. */
+  private currentConversationId: string | null = null;
+  /** MCP tool selection of the current turn, enforced by a PreToolUse hook. */
+  private currentMcpToolSelection: McpToolSelection | undefined;
+  /** Permission mode override of the current turn (cold-start only); dry-run staging follows it. */
+  private currentPermissionMode: PermissionMode | undefined;
   private queryAbortController: AbortController | null = null;
   private responseHandlers: ResponseHandler[] = [];
   private responseConsumerRunning = false;
@@ -167,6 +225,31 @@ export class ClaudianService {
   constructor(plugin: ClaudianPlugin, mcpManager: McpServerManager) {
     this.plugin = plugin;
     this.mcpManager = mcpManager;
+    this.auditLogger = new AuditLogger({
+      write: (entry) => this.plugin.storage.audit.append(entry),
+      isEnabled: () => this.plugin.settings.enableAuditLog,
+    });
+    this.dryRunStaging = new DryRunStaging({
+      getCwd: () => this.vaultPath ?? getVaultPath(this.plugin.app) ?? process.cwd(),
+      readFile: async (filePath) => {
+        try {
+          return await fs.promises.readFile(filePath, 'utf-8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+          throw error;
+        }
+      },
+      writeFile: async (filePath, content) => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content, 'utf-8');
+      },
+      removeFile: (filePath) => fs.promises.rm(filePath, { force: true }),
+      createShadowDir: () => fs.promises.mkdtemp(path.join(os.tmpdir(), 'claudian-dry-run-')),
+    });
+  }
+
+  getDryRunStaging(): DryRunStaging {
+    return this.dryRunStaging;
   }
 
   onReadyStateChange(listener: (ready: boolean) => void): () => void {
@@ -212,8 +295,32 @@ export class ClaudianService {
     return conv.sessionId ?? conv.forkSource?.sessionId ?? null;
   }
 
-  async reloadMcpServers(): Promise<void> {
+  /**
+   * Reloads MCP server configs. Given a server name, also restarts that server
+   * in the running session by removing it and adding it back.
+   */
+  async reloadMcpServers(restartServer?: string): Promise<void> {
     await this.mcpManager.loadServers();
+
+    if (!restartServer || !this.persistentQuery || !this.currentConfig?.mcpServersKey) return;
+    const activeServers = JSON.parse(this.currentConfig.mcpServersKey) as Record<string, McpServerConfig>;
+    if (!(restartServer in activeServers)) return;
+
+    const otherServers = Object.fromEntries(
+      Object.entries(activeServers).filter(([name]) => name !== restartServer)
+    );
+    await this.persistentQuery.setMcpServers(otherServers);
+    await this.persistentQuery.setMcpServers(activeServers);
+  }
+
+  /** Connection status of the MCP servers in the running session; empty when none is running. */
+  async getMcpServerStatus(): Promise<McpServerStatus[]> {
+    if (!this.persistentQuery) return [];
+    try {
+      return await this.persistentQuery.mcpServerStatus();
+    } catch {
+      return [];
+    }
   }
 
   /**
@@ -302,6 +409,7 @@ export class ClaudianService {
 
     this.shuttingDown = false;
     this.vaultPath = vaultPath;
+    this.resultCostTracker.reset();
 
     this.messageChannel = new MessageChannel();
 
@@ -405,6 +513,7 @@ export class ClaudianService {
 
     // Clear state
     this.persistentQuery = null;
+    this.persistentProcessId = null;
     this.messageChannel = null;
     this.queryAbortController = null;
     this.responseConsumerRunning = false;
@@ -445,8 +554,12 @@ export class ClaudianService {
   /**
    * Builds the base query options context from current state.
    */
-  private buildQueryOptionsContext(vaultPath: string, cliPath: string): QueryOptionsContext {
-    const customEnv = parseEnvironmentVariables(this.plugin.getActiveEnvironmentVariables());
+  private buildQueryOptionsContext(
+    vaultPath: string,
+    cliPath: string,
+    environmentVariables = this.plugin.getActiveEnvironmentVariables()
+  ): QueryOptionsContext {
+    const customEnv = parseEnvironmentVariables(environmentVariables);
     const enhancedPath = getEnhancedPath(customEnv.PATH, cliPath);
 
     return {
@@ -457,6 +570,7 @@ export class ClaudianService {
       enhancedPath,
       mcpManager: this.mcpManager,
       pluginManager: this.plugin.pluginManager,
+      mcpToolSelection: this.currentMcpToolSelection,
     };
   }
 
@@ -484,7 +598,16 @@ export class ClaudianService {
       externalContextPaths,
     };
 
-    return QueryOptionsBuilder.buildPersistentQueryOptions(ctx);
+    const options = QueryOptionsBuilder.buildPersistentQueryOptions(ctx);
+    const spawnProcess = options.spawnClaudeCodeProcess;
+    if (spawnProcess) {
+      options.spawnClaudeCodeProcess = (spawnOptions) => {
+        const child = spawnProcess(spawnOptions);
+        this.persistentProcessId = (child as { pid?: number }).pid ?? null;
+        return child;
+      };
+    }
+    return options;
   }
 
   /**
@@ -501,24 +624,52 @@ export class ClaudianService {
       enableBlocklist: this.plugin.settings.enableBlocklist,
     }));
 
+    const getHookPathAccessType = (p: string) => {
+      if (!this.vaultPath) return 'vault';
+      // For cold-start queries, use the passed externalContextPaths.
+      // For persistent queries, read this.currentExternalContextPaths at execution time
+      // so dynamic updates are reflected.
+      const paths = externalContextPaths ?? this.currentExternalContextPaths;
+      return getPathAccessType(
+        p,
+        paths,
+        this.plugin.settings.allowedExportPaths,
+        this.vaultPath
+      );
+    };
     const vaultRestrictionHook = createVaultRestrictionHook({
-      getPathAccessType: (p) => {
-        if (!this.vaultPath) return 'vault';
-        // For cold-start queries, use the passed externalContextPaths.
-        // For persistent queries, read this.currentExternalContextPaths at execution time
-        // so dynamic updates are reflected.
-        const paths = externalContextPaths ?? this.currentExternalContextPaths;
-        return getPathAccessType(
-          p,
-          paths,
-          this.plugin.settings.allowedExportPaths,
-          this.vaultPath
-        );
-      },
+      getPathAccessType: getHookPathAccessType,
+    });
+    const dryRunHook = createDryRunHook({
+      isEnabled: () => (this.currentPermissionMode ?? this.plugin.settings.permissionMode) === 'dry-run',
+      staging: this.dryRunStaging,
+      isWritable: (p) => getHookPathAccessType(p) !== 'none',
     });
 
+    const mcpToolSelectionHook = createMcpToolSelectionHook(() => this.currentMcpToolSelection);
+    const pluginComponentHook = createPluginComponentHook(() => resolveDisabledPluginTools(
+      this.plugin.settings.disabledPluginComponents,
+      this.plugin.pluginManager.getPlugins()
+    ));
+
+    const auditContext: AuditHookContext = {
+      logger: this.auditLogger,
+      getConversationId: () => this.currentConversationId,
+      getPermissions: () => this.plugin.storage.getPermissions(),
+    };
+    const executionAuditHook = createExecutionAuditHook(auditContext);
+
     return {
-      PreToolUse: [blocklistHook, vaultRestrictionHook],
+      PreToolUse: [
+        withDenyAudit(blocklistHook, 'blocklist', auditContext),
+        withDenyAudit(vaultRestrictionHook, 'vault-restriction', auditContext),
+        createDenyRuleAuditHook(auditContext),
+        withDenyAudit(dryRunHook, 'dry-run', auditContext),
+        withDenyAudit(mcpToolSelectionHook, 'mcp-tool-selection', auditContext),
+        withDenyAudit(pluginComponentHook, 'plugin-component', auditContext),
+      ],
+      PostToolUse: [executionAuditHook],
+      PostToolUseFailure: [executionAuditHook],
     };
   }
 
@@ -675,6 +826,10 @@ export class ClaudianService {
           // Add sessionId to usage chunks (consistent with cold-start path)
           if (event.type === 'usage') {
             handler.onChunk({ ...event, sessionId: this.sessionManager.getSessionId() });
+          } else if (event.type === 'cost') {
+            const cost = this.resultCostTracker.toTurnCost(event.cost);
+            this.plugin.spendLedger.record(cost.totals.costUsd, this.currentConversationId);
+            handler.onChunk({ type: 'cost', cost });
           } else {
             handler.onChunk(event);
           }
@@ -739,7 +894,9 @@ export class ClaudianService {
       return;
     }
 
-    const customEnv = parseEnvironmentVariables(this.plugin.getActiveEnvironmentVariables());
+    const customEnv = parseEnvironmentVariables(
+      queryOptions?.environmentVariables ?? this.plugin.getActiveEnvironmentVariables()
+    );
     const enhancedPath = getEnhancedPath(customEnv.PATH, resolvedClaudePath);
     const missingNodeError = getMissingNodeError(resolvedClaudePath, enhancedPath);
     if (missingNodeError) {
@@ -747,6 +904,19 @@ export class ClaudianService {
       return;
     }
 
+    this.currentConversationId = queryOptions?.conversationId ?? null;
+    this.currentMcpToolSelection = queryOptions?.enabledMcpTools;
+    this.currentPermissionMode = queryOptions?.permissionMode;
+
+    const budgetError = await this.checkBudget(queryOptions?.conversationId ?? null);
+    if (budgetError) {
+      yield { type: 'error', content: budgetError };
+      return;
+    }
+
+    // Server configs carry OAuth access tokens; refresh expiring ones before they are sent
+    await this.mcpManager.refreshOAuthTokens();
+
     // Rebuild history if needed before choosing persistent vs cold-start
     let promptToSend = prompt;
     let forceColdStart = false;
@@ -891,6 +1061,53 @@ export class ClaudianService {
     };
   }
 
+  /**
+   * Checks budget caps before a turn. Returns an error message when the turn
+   * must not run: the cap blocks sending, or the user declined to continue.
+   */
+  private async checkBudget(conversationId: string | null): Promise<string | null> {
+    const limits = getBudgetLimits(this.plugin.settings);
+    if (!hasBudgetLimits(limits)) return null;
+
+    const now = Date.now();
+    const conversationCost = conversationId
+      ? this.plugin.getConversationList().find(c => c.id === conversationId)?.cost
+      : undefined;
+    const spend = this.plugin.spendLedger.getSpend(conversationCost?.totals.costUsd ?? 0, now);
+    // An unsaved conversation has no id to scope an override to, so "always allow" only covers this turn.
+    const overrideKey = (scope: BudgetScope): string | null => {
+      if (scope === 'conversation') return conversationId ? `conversation:${conversationId}` : null;
+      if (scope === 'day') return `day:${toDayKey(now)}`;
+      return scope;
+    };
+    const exceeded = evaluateBudget(limits, spend).exceeded
+      .filter(scope => {
+        const key = overrideKey(scope);
+        return !key || !this.budgetOverrides.has(key);
+      });
+    if (exceeded.length === 0) return null;
+
+    const description = describeExceededBudget(limits, spend, exceeded);
+    if (this.plugin.settings.budgetExceededAction === 'block' || !this.approvalCallback) {
+      return `${description} Raise the cap in settings to continue.`;
+    }
+
+    const decision = await this.approvalCallback(
+      'Budget',
+      {},
+      `${description} Send this message anyway?`,
+      { decisionReason: 'Budget cap reached' },
+    );
+    if (decision === 'allow-always') {
+      for (const scope of exceeded) {
+        const key = overrideKey(scope);
+        if (key) this.budgetOverrides.add(key);
+      }
+    }
+    if (decision === 'allow' || decision === 'allow-always') return null;
+    return description;
+  }
+
   /**
    * Query via persistent query (Phase 1.5).
    * Uses the message channel to send messages without cold-start latency.
@@ -1266,7 +1483,7 @@ export class ClaudianService {
     this.vaultPath = cwd;
 
     const queryPrompt = this.buildPromptWithImages(prompt, images);
-    const baseContext = this.buildQueryOptionsContext(cwd, cliPath);
+    const baseContext = this.buildQueryOptionsContext(cwd, cliPath, queryOptions?.environmentVariables);
     const externalContextPaths = queryOptions?.externalContextPaths || [];
     const hooks = this.buildHooks(externalContextPaths);
     const hasEditorContext = prompt.includes('<editor_selection');
@@ -1280,20 +1497,26 @@ export class ClaudianService {
     const ctx: ColdStartQueryContext = {
       ...baseContext,
       abortController: this.abortController ?? undefined,
-      sessionId: this.sessionManager.getSessionId() ?? undefined,
+      sessionId: queryOptions?.forkFromSessionId ?? this.sessionManager.getSessionId() ?? undefined,
+      forkSession: !!queryOptions?.forkFromSessionId,
       modelOverride: queryOptions?.model,
+      permissionModeOverride: queryOptions?.permissionMode,
+      thinkingBudgetOverride: queryOptions?.thinkingBudget,
       canUseTool: this.createApprovalCallback(),
       hooks,
       mcpMentions: queryOptions?.mcpMentions,
       enabledMcpServers: queryOptions?.enabledMcpServers,
       allowedTools,
+      disallowedTools: queryOptions?.disallowedTools,
       hasEditorContext,
       externalContextPaths,
+      agent: queryOptions?.agent,
     };
 
     const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
 
     let sawStreamText = false;
+    const costTracker = new ResultCostTracker();
     try {
       const response = agentQuery({ prompt: queryPrompt, options });
       let streamSessionId: string | null = this.sessionManager.getSessionId();
@@ -1317,6 +1540,10 @@ export class ClaudianService {
             }
             if (event.type === 'usage') {
               yield { ...event, sessionId: streamSessionId };
+            } else if (event.type === 'cost') {
+              const cost = costTracker.toTurnCost(event.cost);
+              this.plugin.spendLedger.record(cost.totals.costUsd, this.currentConversationId);
+              yield { type: 'cost', cost };
             } else {
               yield event;
             }
@@ -1389,6 +1616,11 @@ export class ClaudianService {
     return this.isPersistentQueryActive();
   }
 
+  /** PID of the running persistent query's CLI process, or null when none is running. */
+  getProcessId(): number | null {
+    return this.persistentQuery ? this.persistentProcessId : null;
+  }
+
   /**
    * Get supported commands (SDK skills) from the persistent query.
    * Returns an empty array if the query is not ready.
@@ -1597,7 +1829,8 @@ export class ClaudianService {
     return { restore, cleanup };
   }
 
-  async rewind(sdkUserUuid: string, sdkAssistantUuid: string): Promise<RewindFilesResult> {
+  /** Restores files to before sdkUserUuid, then rewinds the conversation (see rewindConversation()). */
+  async rewind(sdkUserUuid: string, sdkAssistantUuid: string | null): Promise<RewindFilesResult> {
     // SDK only returns filesChanged/insertions/deletions on dry runs
     const preview = await this.rewindFiles(sdkUserUuid, true);
     if (!preview.canRewind) return preview;
@@ -1612,8 +1845,7 @@ export class ClaudianService {
         return result;
       }
 
-      this.pendingResumeAt = sdkAssistantUuid;
-      this.closePersistentQuery('rewind');
+      this.rewindConversation(sdkAssistantUuid);
       return {
         ...result,
         filesChanged: preview.filesChanged,
@@ -1637,6 +1869,20 @@ export class ClaudianService {
     }
   }
 
+  /**
+   * Rewinds only the conversation: the next query resumes at sdkAssistantUuid and
+   * files are left as they are. Null rewinds the first turn, so the next query
+   * starts a fresh session.
+   */
+  rewindConversation(sdkAssistantUuid: string | null): void {
+    if (!sdkAssistantUuid) {
+      this.resetSession();
+      return;
+    }
+    this.pendingResumeAt = sdkAssistantUuid;
+    this.closePersistentQuery('rewind');
+  }
+
   setApprovalCallback(callback: ApprovalCallback | null) {
     this.approvalCallback = callback;
   }
@@ -1659,15 +1905,28 @@ export class ClaudianService {
 
   private createApprovalCallback(): CanUseTool {
     return async (toolName, input, options): Promise<PermissionResult> => {
+      const audit = (result: PermissionResult, source: AuditDecisionSource): PermissionResult => {
+        this.auditLogger.record({
+          conversationId: this.currentConversationId ?? undefined,
+          toolUseId: options.toolUseID,
+          toolName,
+          input,
+          decision: result.behavior,
+          source,
+          reason: result.behavior === 'deny' ? result.message : undefined,
+        });
+        return result;
+      };
+
       if (this.currentAllowedTools !== null) {
         if (!this.currentAllowedTools.includes(toolName) && toolName !== TOOL_SKILL) {
           const allowedList = this.currentAllowedTools.length > 0
             ? ` Allowed tools: ${this.currentAllowedTools.join(', ')}.`
             : ' No tools are allowed for this query type.';
-          return {
+          return audit({
             behavior: 'deny',
             message: `Tool "${toolName}" is not allowed for this query.${allowedList}`,
-          };
+          }, 'tool-restriction');
         }
       }
 
@@ -1676,10 +1935,10 @@ export class ClaudianService {
         try {
           const decision: ExitPlanModeDecision | null = await this.exitPlanModeCallback(input, options.signal);
           if (decision === null) {
-            return { behavior: 'deny', message: 'User cancelled.', interrupt: true };
+            return audit({ behavior: 'deny', message: 'User cancelled.', interrupt: true }, 'user');
           }
           if (decision.type === 'feedback') {
-            return { behavior: 'deny', message: decision.text, interrupt: false };
+            return audit({ behavior: 'deny', message: decision.text, interrupt: false }, 'user');
           }
           // Callback already restored plugin.settings.permissionMode
           const sdkMode = this.mapToSDKPermissionMode(this.plugin.settings.permissionMode);
@@ -1687,19 +1946,19 @@ export class ClaudianService {
           if (this.currentConfig) {
             this.currentConfig.permissionMode = this.plugin.settings.permissionMode;
           }
-          return {
+          return audit({
             behavior: 'allow',
             updatedInput: input,
             updatedPermissions: [
               { type: 'setMode', mode: sdkMode, destination: 'session' },
             ],
-          };
+          }, 'user');
         } catch (error) {
-          return {
+          return audit({
             behavior: 'deny',
             message: `Failed to handle plan mode exit: ${error instanceof Error ? error.message : 'Unknown error'}`,
             interrupt: true,
-          };
+          }, 'user');
         }
       }
 
@@ -1708,21 +1967,21 @@ export class ClaudianService {
         try {
           const answers = await this.askUserQuestionCallback(input, options.signal);
           if (answers === null) {
-            return { behavior: 'deny', message: 'User declined to answer.', interrupt: true };
+            return audit({ behavior: 'deny', message: 'User declined to answer.', interrupt: true }, 'user');
           }
-          return { behavior: 'allow', updatedInput: { ...input, answers } };
+          return audit({ behavior: 'allow', updatedInput: { ...input, answers } }, 'user');
         } catch (error) {
-          return {
+          return audit({
             behavior: 'deny',
             message: `Failed to get user answers: ${error instanceof Error ? error.message : 'Unknown error'}`,
             interrupt: true,
-          };
+          }, 'user');
         }
       }
 
       // No pre-check — SDK already checked permanent rules before calling canUseTool
       if (!this.approvalCallback) {
-        return { behavior: 'deny', message: 'No approval handler available.' };
+        return audit({ behavior: 'deny', message: 'No approval handler available.' }, 'unattended');
       }
 
       try {
@@ -1734,25 +1993,25 @@ export class ClaudianService {
         );
 
         if (decision === 'cancel') {
-          return { behavior: 'deny', message: 'User interrupted.', interrupt: true };
+          return audit({ behavior: 'deny', message: 'User interrupted.', interrupt: true }, 'user');
         }
 
         if (decision === 'allow' || decision === 'allow-always') {
           const updatedPermissions = buildPermissionUpdates(
             toolName, input, decision, options.suggestions
           );
-          return { behavior: 'allow', updatedInput: input, updatedPermissions };
+          return audit({ behavior: 'allow', updatedInput: input, updatedPermissions }, 'user');
         }
 
-        return { behavior: 'deny', message: 'User denied this action.', interrupt: false };
+        return audit({ behavior: 'deny', message: 'User denied this action.', interrupt: false }, 'user');
       } catch (error) {
         // Don't interrupt session — the deny message is sufficient for Claude
         // to try an alternative approach or ask the user.
-        return {
+        return audit({
           behavior: 'deny',
           message: `Approval request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
           interrupt: false,
-        };
+        }, 'user');
       }
     };
   }
@@ -1760,6 +2019,8 @@ export class ClaudianService {
   private mapToSDKPermissionMode(mode: PermissionMode): SDKPermissionMode {
     if (mode === 'yolo') return 'bypassPermissions';
     if (mode === 'plan') return 'plan';
+    // Edits are staged by the dry-run hook; everything else asks, including file commands in Bash
+    if (mode === 'dry-run') return 'default';
     return 'acceptEdits';
   }
 }
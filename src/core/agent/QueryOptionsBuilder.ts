@@ -15,10 +15,11 @@ import type {
   Options,
 } from '@anthropic-ai/claude-agent-sdk';
 
+import { toSdkAgentDefinition } from '../agents/AgentBuilder';
 import type { McpServerManager } from '../mcp';
 import type { PluginManager } from '../plugins';
 import { buildSystemPrompt, type SystemPromptSettings } from '../prompts/mainAgent';
-import type { ClaudianSettings, PermissionMode } from '../types';
+import type { AgentDefinition, ClaudianSettings, McpToolSelection, PermissionMode, ThinkingBudget } from '../types';
 import { resolveModelWithBetas, THINKING_BUDGETS } from '../types';
 import { createCustomSpawnFunction } from './customSpawn';
 import {
@@ -47,6 +48,8 @@ export interface QueryOptionsContext {
   mcpManager: McpServerManager;
   /** Plugin manager for Claude Code plugins. */
   pluginManager: PluginManager;
+  /** Per-conversation MCP tool selection; deselected tools are disallowed. */
+  mcpToolSelection?: McpToolSelection;
 }
 
 /**
@@ -79,8 +82,14 @@ export interface ColdStartQueryContext extends QueryOptionsContext {
   abortController?: AbortController;
   /** Session ID for resuming a conversation. */
   sessionId?: string;
+  /** Resume sessionId into a new session instead of continuing it (compare branches). */
+  forkSession?: boolean;
   /** Optional model override for cold-start queries. */
   modelOverride?: string;
+  /** Optional permission mode override (e.g. for scheduled tasks). */
+  permissionModeOverride?: PermissionMode;
+  /** Optional thinking budget override (e.g. for compare branches). */
+  thinkingBudgetOverride?: ThinkingBudget;
   /** Approval callback for normal mode. */
   canUseTool?: CanUseTool;
   /** Pre-built hooks array. */
@@ -91,10 +100,14 @@ export interface ColdStartQueryContext extends QueryOptionsContext {
   enabledMcpServers?: Set<string>;
   /** Allowed tools restriction (undefined = no restriction). */
   allowedTools?: string[];
+  /** Additional tools to disallow (e.g. vault-editing tools for compare branches). */
+  disallowedTools?: string[];
   /** Whether the query has editor context. */
   hasEditorContext: boolean;
   /** External context paths for additionalDirectories SDK option. */
   externalContextPaths?: string[];
+  /** Agent the main thread runs as (agent builder test runs). */
+  agent?: AgentDefinition;
 }
 
 /** Static builder for SDK Options and configuration objects. */
@@ -155,7 +168,7 @@ export class QueryOptionsBuilder {
     const thinkingTokens = budgetConfig?.tokens ?? null;
 
     // Compute disallowedToolsKey from all disabled MCP tools (pre-registered upfront)
-    const allDisallowedTools = ctx.mcpManager.getAllDisallowedMcpTools();
+    const allDisallowedTools = ctx.mcpManager.getAllDisallowedMcpTools(ctx.mcpToolSelection);
     const disallowedToolsKey = allDisallowedTools.join('|');
 
     // Compute pluginsKey from active plugins
@@ -215,7 +228,7 @@ export class QueryOptionsBuilder {
     QueryOptionsBuilder.applyExtraArgs(options, ctx.settings);
 
     options.disallowedTools = [
-      ...ctx.mcpManager.getAllDisallowedMcpTools(),
+      ...ctx.mcpManager.getAllDisallowedMcpTools(ctx.mcpToolSelection),
       ...UNSUPPORTED_SDK_TOOLS,
       ...DISABLED_BUILTIN_SUBAGENTS,
     ];
@@ -247,7 +260,7 @@ export class QueryOptionsBuilder {
 
   /** Builds SDK options for a cold-start query. */
   static buildColdStartQueryOptions(ctx: ColdStartQueryContext): Options {
-    const permissionMode = ctx.settings.permissionMode;
+    const permissionMode = ctx.permissionModeOverride ?? ctx.settings.permissionMode;
 
     const selectedModel = ctx.modelOverride ?? ctx.settings.model;
     const resolved = resolveModelWithBetas(selectedModel, ctx.settings.show1MModel);
@@ -292,16 +305,17 @@ export class QueryOptionsBuilder {
       options.mcpServers = mcpServers;
     }
 
-    const disallowedMcpTools = ctx.mcpManager.getDisallowedMcpTools(combinedMentions);
+    const disallowedMcpTools = ctx.mcpManager.getDisallowedMcpTools(combinedMentions, ctx.mcpToolSelection);
     options.disallowedTools = [
       ...disallowedMcpTools,
       ...UNSUPPORTED_SDK_TOOLS,
       ...DISABLED_BUILTIN_SUBAGENTS,
+      ...(ctx.disallowedTools ?? []),
     ];
 
     QueryOptionsBuilder.applyPermissionMode(options, permissionMode, ctx.canUseTool);
     options.hooks = ctx.hooks;
-    QueryOptionsBuilder.applyThinkingBudget(options, ctx.settings.thinkingBudget);
+    QueryOptionsBuilder.applyThinkingBudget(options, ctx.thinkingBudgetOverride ?? ctx.settings.thinkingBudget);
 
     if (ctx.allowedTools !== undefined && ctx.allowedTools.length > 0) {
       options.tools = ctx.allowedTools;
@@ -309,12 +323,21 @@ export class QueryOptionsBuilder {
 
     if (ctx.sessionId) {
       options.resume = ctx.sessionId;
+      if (ctx.forkSession) {
+        options.forkSession = true;
+      }
     }
 
     if (ctx.externalContextPaths && ctx.externalContextPaths.length > 0) {
       options.additionalDirectories = ctx.externalContextPaths;
     }
 
+    if (ctx.agent) {
+      // Passed inline so unsaved edits run, even when a saved file has the same name
+      options.agents = { [ctx.agent.name]: toSdkAgentDefinition(ctx.agent) };
+      options.agent = ctx.agent.name;
+    }
+
     options.spawnClaudeCodeProcess = createCustomSpawnFunction(ctx.enhancedPath);
 
     return options;
@@ -339,6 +362,8 @@ export class QueryOptionsBuilder {
       options.permissionMode = 'bypassPermissions';
     } else if (permissionMode === 'plan') {
       options.permissionMode = 'plan';
+    } else if (permissionMode === 'dry-run') {
+      options.permissionMode = 'default';
     } else {
       options.permissionMode = 'acceptEdits';
     }
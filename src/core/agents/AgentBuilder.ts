@@ -0,0 +1,127 @@
+/**
+ * AgentBuilder - Tool catalog and validation for the agent builder in settings.
+ *
+ * The CLI silently ignores tool names it does not know, so a typo in an agent's
+ * `tools` list quietly leaves the agent without that tool. The builder checks
+ * entries against the built-in tools and the tools discovered on MCP servers.
+ */
+
+import type { AgentDefinition as SdkAgentDefinition } from '@anthropic-ai/claude-agent-sdk';
+
+import { BUILTIN_TOOLS } from '../tools/toolNames';
+import type { AgentDefinition, PermissionMode } from '../types';
+
+/** Tools an agent can reference. */
+export interface AgentToolCatalog {
+  builtin: readonly string[];
+  /** Tool names per MCP server; null when the server's tools have not been listed. */
+  mcp: Record<string, string[] | null>;
+}
+
+export interface AgentToolIssue {
+  field: 'tools' | 'disallowedTools';
+  tool: string;
+  message: string;
+}
+
+export function createAgentToolCatalog(mcp: Record<string, string[] | null> = {}): AgentToolCatalog {
+  return { builtin: BUILTIN_TOOLS, mcp };
+}
+
+/** All concrete tool names of the catalog, as the tool picker suggests them. */
+export function listCatalogTools(catalog: AgentToolCatalog): string[] {
+  const names = [...catalog.builtin];
+  for (const [server, tools] of Object.entries(catalog.mcp)) {
+    names.push(`mcp__${server}`);
+    for (const tool of tools ?? []) {
+      names.push(`mcp__${server}__${tool}`);
+    }
+  }
+  return names;
+}
+
+/** Server names may contain underscores, so the longest matching server prefix wins. */
+function findMcpServer(toolName: string, catalog: AgentToolCatalog): string | null {
+  let matched: string | null = null;
+  for (const server of Object.keys(catalog.mcp)) {
+    const prefix = `mcp__${server}`;
+    const matches = toolName === prefix || toolName.startsWith(`${prefix}__`);
+    if (matches && (!matched || server.length > matched.length)) {
+      matched = server;
+    }
+  }
+  return matched;
+}
+
+/** Returns why a tool entry is not recognized, or null when it is. */
+export function checkAgentTool(entry: string, catalog: AgentToolCatalog): string | null {
+  // Permission-rule style entries such as `Bash(git status:*)` name the tool before the parenthesis
+  const toolName = entry.replace(/\(.*\)$/, '').trim();
+
+  if (!toolName.startsWith('mcp__')) {
+    return catalog.builtin.includes(toolName) ? null : `Unknown tool "${toolName}"`;
+  }
+
+  const server = findMcpServer(toolName, catalog);
+  if (!server) {
+    return `Unknown MCP server in "${toolName}"`;
+  }
+
+  const tool = toolName.slice(`mcp__${server}__`.length);
+  const serverTools = catalog.mcp[server];
+  if (toolName === `mcp__${server}` || tool === '*' || !serverTools) {
+    return null;
+  }
+  return serverTools.includes(tool) ? null : `MCP server "${server}" has no tool "${tool}"`;
+}
+
+export function validateAgentTools(
+  agent: Pick<AgentDefinition, 'tools' | 'disallowedTools'>,
+  catalog: AgentToolCatalog
+): AgentToolIssue[] {
+  const issues: AgentToolIssue[] = [];
+  for (const field of ['tools', 'disallowedTools'] as const) {
+    for (const tool of agent[field] ?? []) {
+      const message = checkAgentTool(tool, catalog);
+      if (message) issues.push({ field, tool, message });
+    }
+  }
+  return issues;
+}
+
+/** MCP servers the agent's allowed tools refer to, so a test run can enable them. */
+export function getAgentMcpServers(agent: Pick<AgentDefinition, 'tools'>, catalog: AgentToolCatalog): Set<string> {
+  const servers = new Set<string>();
+  for (const tool of agent.tools ?? []) {
+    const server = tool.startsWith('mcp__') ? findMcpServer(tool, catalog) : null;
+    if (server) servers.add(server);
+  }
+  return servers;
+}
+
+export function toSdkAgentDefinition(agent: AgentDefinition): SdkAgentDefinition {
+  return {
+    description: agent.description,
+    prompt: agent.prompt,
+    tools: agent.tools,
+    disallowedTools: agent.disallowedTools,
+    model: agent.model,
+    skills: agent.skills,
+  };
+}
+
+/**
+ * Claudian permission mode for trying out an agent. Agents that bypass permissions
+ * or plan run that way; the rest run in normal mode. File-editing and shell tools
+ * are unavailable in every mode (see AgentTestRunner).
+ */
+export function getAgentTestPermissionMode(agent: Pick<AgentDefinition, 'permissionMode'>): PermissionMode {
+  switch (agent.permissionMode) {
+    case 'bypassPermissions':
+      return 'yolo';
+    case 'plan':
+      return 'plan';
+    default:
+      return 'normal';
+  }
+}
@@ -11,6 +11,7 @@ import * as os from 'os';
 import * as path from 'path';
 
 import type { PluginManager } from '../plugins';
+import { getPluginAgentId } from '../plugins/PluginComponents';
 import type { AgentDefinition } from '../types';
 import { buildAgentFromFrontmatter, parseAgentFile } from './AgentStorage';
 
@@ -38,19 +39,17 @@ function makeBuiltinAgent(name: string): AgentDefinition {
   };
 }
 
-function normalizePluginName(name: string): string {
-  return name.toLowerCase().replace(/\s+/g, '-');
-}
-
 export class AgentManager {
   private agents: AgentDefinition[] = [];
   private builtinAgentNames: string[] = FALLBACK_BUILTIN_AGENT_NAMES;
   private vaultPath: string;
   private pluginManager: PluginManager;
+  private getDisabledAgentIds: () => Set<string>;
 
-  constructor(vaultPath: string, pluginManager: PluginManager) {
+  constructor(vaultPath: string, pluginManager: PluginManager, getDisabledAgentIds: () => Set<string> = () => new Set()) {
     this.vaultPath = vaultPath;
     this.pluginManager = pluginManager;
+    this.getDisabledAgentIds = getDisabledAgentIds;
   }
 
   /** Built-in agents are those from init that are NOT loaded from files. */
@@ -87,10 +86,11 @@ export class AgentManager {
     return this.agents.find(a => a.id === id);
   }
 
-  /** Used for @-mention filtering in the chat input. */
+  /** Used for @-mention filtering in the chat input. Plugin agents disabled in settings are left out. */
   searchAgents(query: string): AgentDefinition[] {
     const q = query.toLowerCase();
-    return this.agents.filter(a =>
+    const disabledIds = this.getDisabledAgentIds();
+    return this.agents.filter(a => !disabledIds.has(a.id)).filter(a =>
       a.name.toLowerCase().includes(q) ||
       a.id.toLowerCase().includes(q) ||
       a.description.toLowerCase().includes(q)
@@ -160,8 +160,7 @@ export class AgentManager {
       if (!parsed) return null;
 
       const { frontmatter, body } = parsed;
-      const normalizedPluginName = normalizePluginName(pluginName);
-      const id = `${normalizedPluginName}:${frontmatter.name}`;
+      const id = getPluginAgentId(pluginName, frontmatter.name);
 
       if (this.agents.find(a => a.id === id)) return null;
 
@@ -0,0 +1,78 @@
+/**
+ * AgentTestRunner - Runs an agent definition against a sample prompt.
+ *
+ * Backs the "try it" pane of the agent builder. Each run is a cold-start query
+ * whose main thread runs as the (possibly unsaved) agent. Nothing is saved to
+ * history. The draft agent has not been reviewed yet, so file-editing and shell
+ * tools are removed from every run, whatever its permission mode.
+ */
+
+import type ClaudianPlugin from '../../main';
+import { ClaudianService } from '../agent';
+import { BASH_TOOLS, EDIT_TOOLS } from '../tools/toolNames';
+import type { AgentDefinition, PermissionMode, StreamChunk } from '../types';
+
+export interface AgentTestRequest {
+  agent: AgentDefinition;
+  prompt: string;
+  permissionMode: PermissionMode;
+  /** MCP servers to enable in addition to those without context-saving. */
+  mcpServers?: Set<string>;
+}
+
+export interface AgentTestResult {
+  error?: string;
+  cancelled: boolean;
+  durationMs: number;
+}
+
+export class AgentTestRunner {
+  private service: ClaudianService | null = null;
+  private cancelled = false;
+
+  constructor(private plugin: ClaudianPlugin) {}
+
+  isRunning(): boolean {
+    return this.service !== null;
+  }
+
+  async run(request: AgentTestRequest, onChunk: (chunk: StreamChunk) => void): Promise<AgentTestResult> {
+    if (this.service) {
+      throw new Error('A test run is already in progress');
+    }
+
+    const service = new ClaudianService(this.plugin, this.plugin.mcpManager);
+    this.service = service;
+    this.cancelled = false;
+    const startedAt = Date.now();
+    let error: string | undefined;
+
+    try {
+      for await (const chunk of service.query(request.prompt, undefined, undefined, {
+        forceColdStart: true,
+        permissionMode: request.permissionMode,
+        disallowedTools: [...EDIT_TOOLS, ...BASH_TOOLS],
+        enabledMcpServers: request.mcpServers,
+        agent: request.agent,
+      })) {
+        if (chunk.type === 'error') {
+          error = chunk.content;
+        }
+        onChunk(chunk);
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      service.cleanup();
+      this.service = null;
+    }
+
+    return { error, cancelled: this.cancelled, durationMs: Date.now() - startedAt };
+  }
+
+  cancel(): void {
+    if (!this.service) return;
+    this.cancelled = true;
+    this.service.cancel();
+  }
+}
@@ -1,2 +1,14 @@
+export {
+  type AgentToolCatalog,
+  type AgentToolIssue,
+  checkAgentTool,
+  createAgentToolCatalog,
+  getAgentMcpServers,
+  getAgentTestPermissionMode,
+  listCatalogTools,
+  toSdkAgentDefinition,
+  validateAgentTools,
+} from './AgentBuilder';
 export { AgentManager } from './AgentManager';
 export { buildAgentFromFrontmatter, parseAgentFile } from './AgentStorage';
+export { type AgentTestRequest, type AgentTestResult, AgentTestRunner } from './AgentTestRunner';
@@ -0,0 +1,172 @@
+/**
+ * BranchTree - Lineage of a conversation, its forks and its rewind points.
+ *
+ * Forks are linked through `forkedFrom`, or for older forks through the session
+ * their `forkSource` resumed from. Rewind points are the inactive branches left
+ * in a conversation's session file, listed by the caller and attached here.
+ */
+
+import type { SDKSessionBranch } from '../../utils/sdkSession';
+import type { ChatMessage, Conversation } from '../types';
+
+export type BranchNodeKind = 'conversation' | 'rewind';
+
+export interface BranchNode {
+  /** Unique within the tree: the conversation ID, or `<conversationId>:<leafUuid>` for rewinds. */
+  id: string;
+  kind: BranchNodeKind;
+  /** Conversation the node is, or for rewinds the conversation it was rewound in. */
+  conversationId: string;
+  title: string;
+  /** 1-based user message the branch diverged at, when known. */
+  divergedAt?: number;
+  /** Session file holding a rewind branch. */
+  sessionId?: string;
+  /** Last entry of a rewind branch. */
+  leafUuid?: string;
+  preview?: string;
+  timestamp: number;
+  children: BranchNode[];
+}
+
+/** Inactive branch of a conversation's session and the session file it is in. */
+export type RewindBranch = SDKSessionBranch & { sessionId: string };
+
+type BranchConversation = Pick<
+  Conversation,
+  'id' | 'title' | 'createdAt' | 'sessionId' | 'sdkSessionId' | 'previousSdkSessionIds' | 'forkSource' | 'forkedFrom'
+>;
+
+/** Every SDK session a conversation has used, oldest first. */
+export function getConversationSessionIds(conversation: BranchConversation): string[] {
+  const ids = [
+    ...(conversation.previousSdkSessionIds ?? []),
+    conversation.sdkSessionId,
+    conversation.sessionId,
+  ].filter((id): id is string => !!id);
+  return [...new Set(ids)];
+}
+
+/** Conversation a fork was created from, if it still exists. */
+export function findParentConversationId(
+  conversation: BranchConversation,
+  conversations: BranchConversation[]
+): string | null {
+  const byId = new Map(conversations.map(c => [c.id, c]));
+  const recorded = conversation.forkedFrom?.conversationId;
+  if (recorded && recorded !== conversation.id && byId.has(recorded)) return recorded;
+
+  // Forks created before forkedFrom existed only know the session they resumed
+  const sourceSessionId = conversation.forkedFrom?.sessionId ?? conversation.forkSource?.sessionId;
+  if (!sourceSessionId) return null;
+  const parent = conversations.find(c => c.id !== conversation.id && getConversationSessionIds(c).includes(sourceSessionId));
+  return parent?.id ?? null;
+}
+
+function findRoot(conversation: BranchConversation, conversations: BranchConversation[]): BranchConversation {
+  const byId = new Map(conversations.map(c => [c.id, c]));
+  const seen = new Set<string>([conversation.id]);
+  let current = conversation;
+  for (;;) {
+    const parentId = findParentConversationId(current, conversations);
+    if (!parentId || seen.has(parentId)) return current;
+    seen.add(parentId);
+    current = byId.get(parentId)!;
+  }
+}
+
+/**
+ * Builds the branch tree containing a conversation, rooted at its oldest
+ * ancestor. Forks are ordered by creation; rewind points by where they diverged.
+ * Returns null if the conversation does not exist.
+ */
+export function buildBranchTree(
+  conversations: BranchConversation[],
+  conversationId: string,
+  rewinds: Record<string, RewindBranch[]> = {}
+): BranchNode | null {
+  const conversation = conversations.find(c => c.id === conversationId);
+  if (!conversation) return null;
+
+  const childrenOf = new Map<string, BranchConversation[]>();
+  for (const c of conversations) {
+    const parentId = findParentConversationId(c, conversations);
+    if (!parentId) continue;
+    const siblings = childrenOf.get(parentId) ?? [];
+    siblings.push(c);
+    childrenOf.set(parentId, siblings);
+  }
+
+  const visited = new Set<string>();
+  const toNode = (c: BranchConversation): BranchNode => {
+    visited.add(c.id);
+    const forks = (childrenOf.get(c.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toNode);
+    const rewindNodes = (rewinds[c.id] ?? []).map((rewind): BranchNode => ({
+      id: `${c.id}:${rewind.leafUuid}`,
+      kind: 'rewind',
+      conversationId: c.id,
+      title: rewind.preview || 'Rewound branch',
+      divergedAt: rewind.sharedPromptCount + 1,
+      sessionId: rewind.sessionId,
+      leafUuid: rewind.leafUuid,
+      preview: rewind.preview,
+      timestamp: rewind.timestamp,
+      children: [],
+    }));
+
+    return {
+      id: c.id,
+      kind: 'conversation',
+      conversationId: c.id,
+      title: c.title,
+      divergedAt: c.forkedFrom?.atUserMessage,
+      timestamp: c.createdAt,
+      children: [...rewindNodes, ...forks]
+        .sort((a, b) => (a.divergedAt ?? Infinity) - (b.divergedAt ?? Infinity) || a.timestamp - b.timestamp),
+    };
+  };
+
+  return toNode(findRoot(conversation, conversations));
+}
+
+/** Flattens a tree in display order. */
+export function flattenBranchTree(root: BranchNode): BranchNode[] {
+  return [root, ...root.children.flatMap(flattenBranchTree)];
+}
+
+export interface BranchComparisonRow {
+  left: ChatMessage | null;
+  right: ChatMessage | null;
+  /** True while both branches still hold the same message. */
+  shared: boolean;
+}
+
+function sameMessage(a: ChatMessage, b: ChatMessage): boolean {
+  return a.role === b.role && a.content === b.content;
+}
+
+/**
+ * Lines two branches up message by message: the common history first, marked
+ * shared, then the diverging messages side by side.
+ */
+export function alignBranchMessages(left: ChatMessage[], right: ChatMessage[]): BranchComparisonRow[] {
+  const a = left.filter(m => !m.isRebuiltContext);
+  const b = right.filter(m => !m.isRebuiltContext);
+
+  let shared = 0;
+  while (shared < a.length && shared < b.length && sameMessage(a[shared], b[shared])) {
+    shared++;
+  }
+
+  const rows: BranchComparisonRow[] = [];
+  for (let i = 0; i < shared; i++) {
+    rows.push({ left: a[i], right: b[i], shared: true });
+  }
+  for (let i = shared; i < Math.max(a.length, b.length); i++) {
+    rows.push({ left: a[i] ?? null, right: b[i] ?? null, shared: false });
+  }
+  return rows;
+}
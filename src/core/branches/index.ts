@@ -0,0 +1,11 @@
+export {
+  alignBranchMessages,
+  type BranchComparisonRow,
+  type BranchNode,
+  type BranchNodeKind,
+  buildBranchTree,
+  findParentConversationId,
+  flattenBranchTree,
+  getConversationSessionIds,
+  type RewindBranch,
+} from './BranchTree';
@@ -0,0 +1,201 @@
+/**
+ * DryRunStaging - Holds file changes made in dry-run mode until the user reviews them.
+ *
+ * Write/Edit/NotebookEdit calls are applied to an in-memory copy of the file
+ * instead of the file itself. Each staged file also gets a shadow copy on disk
+ * so Read calls can be pointed at the staged content.
+ */
+
+import * as path from 'path';
+
+import { TOOL_EDIT, TOOL_NOTEBOOK_EDIT, TOOL_WRITE } from '../tools/toolNames';
+import { applyEdit, applyNotebookEdit, type StagedEditResult } from './stagedEdits';
+
+export interface StagedFileChange {
+  /** Absolute path of the file the change is for. */
+  filePath: string;
+  /** Content on disk when the file was first staged; null for a new file. */
+  originalContent: string | null;
+  stagedContent: string;
+  /** Tool calls folded into this change, in order. */
+  toolNames: string[];
+}
+
+export type StageResult =
+  | { staged: true; change: StagedFileChange }
+  | { staged: false; error: string };
+
+export interface AcceptStagedOptions {
+  /** Write the staged content even if the file changed on disk after it was staged. */
+  overwrite?: boolean;
+}
+
+export interface DryRunStagingDeps {
+  /** Working directory that relative tool paths resolve against. */
+  getCwd: () => string;
+  /** Current file content, or null when the file does not exist. */
+  readFile: (filePath: string) => Promise<string | null>;
+  /** Writes a file, creating parent directories. */
+  writeFile: (filePath: string, content: string) => Promise<void>;
+  removeFile: (filePath: string) => Promise<void>;
+  /** Creates the directory that holds shadow copies (called once, on first stage). */
+  createShadowDir: () => Promise<string>;
+}
+
+export class DryRunStaging {
+  private changes = new Map<string, StagedFileChange>();
+  private shadowPaths = new Map<string, string>();
+  private shadowDir: Promise<string> | null = null;
+  private shadowCount = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(private deps: DryRunStagingDeps) {}
+
+  resolvePath(filePath: string): string {
+    return path.resolve(this.deps.getCwd(), filePath);
+  }
+
+  /** Applies a Write/Edit/NotebookEdit input to the staged (or current) content of its file. */
+  async stage(toolName: string, input: Record<string, unknown>): Promise<StageResult> {
+    const rawPath = (input.file_path as string) || (input.notebook_path as string) || '';
+    if (!rawPath) {
+      return { staged: false, error: 'No file path in tool input.' };
+    }
+    const filePath = this.resolvePath(rawPath);
+
+    const existing = this.changes.get(filePath);
+    const originalContent = existing ? existing.originalContent : await this.deps.readFile(filePath);
+    const currentContent = existing ? existing.stagedContent : originalContent;
+
+    let result: StagedEditResult;
+    if (toolName === TOOL_WRITE) {
+      result = { content: typeof input.content === 'string' ? input.content : '' };
+    } else if (toolName === TOOL_EDIT) {
+      result = applyEdit(currentContent, input);
+    } else if (toolName === TOOL_NOTEBOOK_EDIT) {
+      result = applyNotebookEdit(currentContent, input);
+    } else {
+      return { staged: false, error: `${toolName} cannot be staged.` };
+    }
+    if ('error' in result) {
+      return { staged: false, error: result.error };
+    }
+
+    const change: StagedFileChange = {
+      filePath,
+      originalContent,
+      stagedContent: result.content,
+      toolNames: [...(existing?.toolNames ?? []), toolName],
+    };
+    this.changes.set(filePath, change);
+    await this.writeShadow(filePath, change.stagedContent);
+    this.notify();
+    return { staged: true, change };
+  }
+
+  /** Shadow copy holding the staged content of a file, or null when the file has no staged change. */
+  getShadowPath(filePath: string): string | null {
+    return this.shadowPaths.get(this.resolvePath(filePath)) ?? null;
+  }
+
+  getChanges(): StagedFileChange[] {
+    return [...this.changes.values()];
+  }
+
+  hasChanges(): boolean {
+    return this.changes.size > 0;
+  }
+
+  /**
+   * Writes the staged content to the real file and drops the change. Returns false,
+   * leaving the change staged, when the file changed on disk after it was staged;
+   * pass `overwrite` to write it anyway.
+   */
+  async accept(filePath: string, options: AcceptStagedOptions = {}): Promise<boolean> {
+    const change = this.changes.get(filePath);
+    if (!change) return true;
+    if (!options.overwrite && await this.deps.readFile(filePath) !== change.originalContent) {
+      return false;
+    }
+    await this.deps.writeFile(filePath, change.stagedContent);
+    await this.discard(filePath);
+    return true;
+  }
+
+  /** Drops the change, leaving the real file untouched. */
+  async reject(filePath: string): Promise<void> {
+    await this.discard(filePath);
+  }
+
+  /**
+   * Writes every staged change to its real file. Returns the files that changed
+   * on disk after they were staged; their changes stay staged (see accept()).
+   */
+  async acceptAll(options: AcceptStagedOptions = {}): Promise<string[]> {
+    const conflicts: string[] = [];
+    for (const filePath of [...this.changes.keys()]) {
+      if (!await this.accept(filePath, options)) {
+        conflicts.push(filePath);
+      }
+    }
+    return conflicts;
+  }
+
+  /** Stages changes kept from an earlier session, e.g. when the view was closed before they were reviewed. */
+  async restore(changes: StagedFileChange[]): Promise<void> {
+    for (const change of changes) {
+      this.changes.set(change.filePath, { ...change, toolNames: [...change.toolNames] });
+      await this.writeShadow(change.filePath, change.stagedContent);
+    }
+    if (changes.length > 0) {
+      this.notify();
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const filePath of [...this.changes.keys()]) {
+      await this.discard(filePath);
+    }
+  }
+
+  /** Subscribes to staged changes; returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async writeShadow(filePath: string, content: string): Promise<void> {
+    let shadowPath = this.shadowPaths.get(filePath);
+    if (!shadowPath) {
+      this.shadowDir ??= this.deps.createShadowDir();
+      // Keep the file name so Read handles the extension (.ipynb, images) the same way
+      shadowPath = path.join(await this.shadowDir, String(this.shadowCount++), path.basename(filePath));
+      this.shadowPaths.set(filePath, shadowPath);
+    }
+    await this.deps.writeFile(shadowPath, content);
+  }
+
+  private async discard(filePath: string): Promise<void> {
+    this.changes.delete(filePath);
+    const shadowPath = this.shadowPaths.get(filePath);
+    if (shadowPath) {
+      this.shadowPaths.delete(filePath);
+      try {
+        await this.deps.removeFile(shadowPath);
+      } catch {
+        // Leftover shadow copies live in a temp directory
+      }
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export {
+  type AcceptStagedOptions,
+  DryRunStaging,
+  type DryRunStagingDeps,
+  type StagedFileChange,
+  type StageResult,
+} from './DryRunStaging';
+export { applyEdit, applyNotebookEdit, type StagedEditResult } from './stagedEdits';
@@ -0,0 +1,133 @@
+/**
+ * Staged edits
+ *
+ * Applies Edit and NotebookEdit tool inputs to file content in memory, the way
+ * the tools would apply them on disk, so dry-run changes can build on each other.
+ */
+
+export type StagedEditResult = { content: string } | { error: string };
+
+interface NotebookCell {
+  id?: string;
+  cell_type?: string;
+  source?: string | string[];
+  metadata?: Record<string, unknown>;
+  outputs?: unknown[];
+  execution_count?: number | null;
+}
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+/** Applies an Edit tool input (`old_string`, `new_string`, `replace_all`). */
+export function applyEdit(content: string | null, input: Record<string, unknown>): StagedEditResult {
+  const oldString = typeof input.old_string === 'string' ? input.old_string : '';
+  const newString = typeof input.new_string === 'string' ? input.new_string : '';
+
+  if (content === null) {
+    // An empty old_string creates the file
+    return oldString === '' ? { content: newString } : { error: 'File does not exist.' };
+  }
+  if (oldString === '') {
+    return content === '' ? { content: newString } : { error: 'Cannot create new file - file already exists.' };
+  }
+  if (oldString === newString) {
+    return { error: 'No changes to make: old_string and new_string are exactly the same.' };
+  }
+
+  const matches = countOccurrences(content, oldString);
+  if (matches === 0) {
+    return { error: `String to replace not found in file.\nString: ${oldString}` };
+  }
+  if (matches > 1 && input.replace_all !== true) {
+    return {
+      error: `Found ${matches} matches of the string to replace, but replace_all is false. `
+        + 'To replace all occurrences, set replace_all to true. '
+        + 'To replace only one occurrence, provide more context to uniquely identify the instance.',
+    };
+  }
+
+  return {
+    content: input.replace_all === true
+      ? content.split(oldString).join(newString)
+      : content.replace(oldString, () => newString),
+  };
+}
+
+function findCellIndex(cells: NotebookCell[], cellId: string): number {
+  const byId = cells.findIndex(cell => cell.id === cellId);
+  if (byId !== -1) return byId;
+  // Cells without ids are addressed by position: cell-0, cell-1, ...
+  const match = /^cell-(\d+)$/.exec(cellId);
+  return match && Number(match[1]) < cells.length ? Number(match[1]) : -1;
+}
+
+function toSourceLines(source: string): string[] {
+  return source.split(/(?<=\n)/);
+}
+
+/** Applies a NotebookEdit tool input (`cell_id`, `new_source`, `cell_type`, `edit_mode`) to .ipynb JSON. */
+export function applyNotebookEdit(content: string | null, input: Record<string, unknown>): StagedEditResult {
+  if (content === null) {
+    return { error: 'Notebook file does not exist.' };
+  }
+
+  let notebook: { cells?: NotebookCell[] };
+  try {
+    notebook = JSON.parse(content) as { cells?: NotebookCell[] };
+  } catch {
+    return { error: 'Notebook is not valid JSON.' };
+  }
+  const cells = Array.isArray(notebook.cells) ? notebook.cells : [];
+
+  const editMode = typeof input.edit_mode === 'string' ? input.edit_mode : 'replace';
+  const cellId = typeof input.cell_id === 'string' ? input.cell_id : undefined;
+  const newSource = typeof input.new_source === 'string' ? input.new_source : '';
+  const cellType = input.cell_type === 'markdown' ? 'markdown' : input.cell_type === 'code' ? 'code' : undefined;
+
+  const index = cellId === undefined ? -1 : findCellIndex(cells, cellId);
+  if (cellId !== undefined && index === -1) {
+    return { error: `Cell with ID "${cellId}" not found in notebook.` };
+  }
+
+  if (editMode === 'insert') {
+    if (!cellType) {
+      return { error: 'Cell type is required when using edit_mode=insert.' };
+    }
+    const cell: NotebookCell = { cell_type: cellType, metadata: {}, source: toSourceLines(newSource) };
+    if (cellType === 'code') {
+      cell.execution_count = null;
+      cell.outputs = [];
+    }
+    // Inserted after the given cell, or at the start
+    cells.splice(index + 1, 0, cell);
+  } else if (editMode === 'delete') {
+    if (index === -1) return { error: 'cell_id is required to delete a cell.' };
+    cells.splice(index, 1);
+  } else {
+    if (index === -1) return { error: 'cell_id is required to replace a cell.' };
+    const cell = cells[index];
+    cell.source = toSourceLines(newSource);
+    if (cellType && cellType !== cell.cell_type) {
+      cell.cell_type = cellType;
+      if (cellType === 'code') {
+        cell.execution_count = null;
+        cell.outputs = [];
+      } else {
+        delete cell.execution_count;
+        delete cell.outputs;
+      }
+    } else if (cell.cell_type === 'code') {
+      cell.execution_count = null;
+      cell.outputs = [];
+    }
+  }
+
+  notebook.cells = cells;
+  return { content: `${JSON.stringify(notebook, null, 1)}\n` };
+}
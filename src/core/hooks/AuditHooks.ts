@@ -0,0 +1,133 @@
+/**
+ * Audit Hooks
+ *
+ * Hooks that feed tool calls into the audit log. Denials by the security hooks
+ * and by deny rules are recorded before the tool runs; calls that ran without
+ * an approval prompt are recorded after, as allowed by a rule or the permission mode.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import type { AuditLogger } from '../security/AuditLogger';
+import { evaluatePermissionRules } from '../security/PermissionRules';
+import type { AuditDecisionSource, CCPermissions } from '../types';
+
+export interface AuditHookContext {
+  logger: AuditLogger;
+  getConversationId: () => string | null;
+  /** Vault permission rules, used to tell rule decisions from permission mode ones. */
+  getPermissions: () => Promise<CCPermissions>;
+}
+
+interface ToolHookInput {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id?: string;
+}
+
+function toToolHookInput(hookInput: unknown): ToolHookInput {
+  const input = hookInput as Partial<ToolHookInput>;
+  return {
+    tool_name: input.tool_name ?? '',
+    tool_input: input.tool_input && typeof input.tool_input === 'object' ? input.tool_input : {},
+    tool_use_id: input.tool_use_id,
+  };
+}
+
+async function loadPermissions(context: AuditHookContext): Promise<CCPermissions> {
+  try {
+    return await context.getPermissions();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Wraps a PreToolUse hook so that its denials are recorded with the given source.
+ */
+export function withDenyAudit(
+  matcher: HookCallbackMatcher,
+  source: AuditDecisionSource,
+  context: AuditHookContext
+): HookCallbackMatcher {
+  return {
+    ...matcher,
+    hooks: matcher.hooks.map(hook => async (hookInput, toolUseID, options) => {
+      const result = await hook(hookInput, toolUseID, options);
+      const output = 'hookSpecificOutput' in result ? result.hookSpecificOutput : undefined;
+      if (output?.hookEventName === 'PreToolUse' && output.permissionDecision === 'deny') {
+        const input = toToolHookInput(hookInput);
+        context.logger.record({
+          conversationId: context.getConversationId() ?? undefined,
+          toolUseId: input.tool_use_id ?? toolUseID,
+          toolName: input.tool_name,
+          input: input.tool_input,
+          decision: 'deny',
+          source,
+          reason: output.permissionDecisionReason,
+        });
+      }
+      return result;
+    }),
+  };
+}
+
+/**
+ * Create a PreToolUse hook that records calls blocked by a deny rule.
+ * Deny rules win over every other rule and mode, so the outcome is known up front.
+ */
+export function createDenyRuleAuditHook(context: AuditHookContext): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput, toolUseID) => {
+        if (!context.logger.isEnabled()) return { continue: true };
+
+        const input = toToolHookInput(hookInput);
+        const match = evaluatePermissionRules(await loadPermissions(context), input.tool_name, input.tool_input);
+        if (match.decision === 'deny') {
+          context.logger.record({
+            conversationId: context.getConversationId() ?? undefined,
+            toolUseId: input.tool_use_id ?? toolUseID,
+            toolName: input.tool_name,
+            input: input.tool_input,
+            decision: 'deny',
+            source: 'rule',
+            rule: match.rule,
+          });
+        }
+        return { continue: true };
+      },
+    ],
+  };
+}
+
+/**
+ * Create a PostToolUse/PostToolUseFailure hook that records calls which ran
+ * without a recorded decision: an allow rule or the permission mode let them through.
+ */
+export function createExecutionAuditHook(context: AuditHookContext): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput, toolUseID) => {
+        const input = toToolHookInput(hookInput);
+        const toolUseId = input.tool_use_id ?? toolUseID;
+        if (!context.logger.isEnabled() || context.logger.hasRecorded(toolUseId)) {
+          return { continue: true };
+        }
+
+        const match = evaluatePermissionRules(await loadPermissions(context), input.tool_name, input.tool_input);
+        context.logger.record({
+          conversationId: context.getConversationId() ?? undefined,
+          toolUseId,
+          toolName: input.tool_name,
+          input: input.tool_input,
+          decision: 'allow',
+          ...(match.decision === 'allow'
+            ? { source: 'rule' as const, rule: match.rule }
+            : { source: 'permission-mode' as const }),
+        });
+        return { continue: true };
+      },
+    ],
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Dry-run Hooks
+ *
+ * PreToolUse hook for dry-run mode: file edits are staged instead of written,
+ * and reads of a staged file are redirected to its staged content.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import type { DryRunStaging } from '../dryrun/DryRunStaging';
+import { getPathFromToolInput } from '../tools/toolInput';
+import { isEditTool, TOOL_READ } from '../tools/toolNames';
+
+export interface DryRunContext {
+  isEnabled: () => boolean;
+  staging: DryRunStaging;
+  /** Paths the vault restriction denies are left for it to reject rather than staged. */
+  isWritable: (filePath: string) => boolean;
+}
+
+/**
+ * Create a PreToolUse hook that stages Write/Edit/NotebookEdit calls while dry-run mode is on.
+ * The call itself is denied; the deny reason tells the agent its change was staged.
+ */
+export function createDryRunHook(context: DryRunContext): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as {
+          tool_name: string;
+          tool_input: Record<string, unknown>;
+        };
+        const toolName = input.tool_name;
+        const toolInput = input.tool_input ?? {};
+
+        if (isEditTool(toolName)) {
+          const filePath = getPathFromToolInput(toolName, toolInput);
+          if (!context.isEnabled() || (filePath && !context.isWritable(filePath))) {
+            return { continue: true };
+          }
+
+          const result = await context.staging.stage(toolName, toolInput);
+          const reason = result.staged
+            ? `Dry run: the change to ${result.change.filePath} was staged for the user to review and was not written to disk. `
+              + 'Continue as if it succeeded; reading this file returns the staged content.'
+            : `Dry run: the change could not be staged: ${result.error}`;
+          return {
+            continue: true,
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: 'deny' as const,
+              permissionDecisionReason: reason,
+            },
+          };
+        }
+
+        // Staged files stay readable after dry-run mode is switched off, until they are reviewed
+        if (toolName === TOOL_READ && typeof toolInput.file_path === 'string') {
+          const shadowPath = context.staging.getShadowPath(toolInput.file_path);
+          if (shadowPath) {
+            return {
+              continue: true,
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse' as const,
+                permissionDecision: 'allow' as const,
+                updatedInput: { ...toolInput, file_path: shadowPath },
+              },
+            };
+          }
+        }
+
+        return { continue: true };
+      },
+    ],
+  };
+}
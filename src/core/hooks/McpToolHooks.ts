@@ -0,0 +1,40 @@
+/**
+ * MCP Tool Hooks
+ *
+ * PreToolUse hook enforcing the per-conversation MCP tool selection. Deselected
+ * tools are normally kept from the model through disallowedTools; the hook is a
+ * backstop for tools that had not been listed when the query started.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import { isMcpToolEnabled } from '../../utils/mcp';
+import type { McpToolSelection } from '../types';
+
+/**
+ * Create a PreToolUse hook that denies MCP tools switched off for the current conversation.
+ * The selection is read at execution time so changes apply without restarting the query.
+ */
+export function createMcpToolSelectionHook(getSelection: () => McpToolSelection | undefined): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_name: string };
+        const selection = getSelection();
+        if (!selection || isMcpToolEnabled(input.tool_name, selection)) {
+          return { continue: true };
+        }
+
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            permissionDecision: 'deny' as const,
+            permissionDecisionReason: `${input.tool_name} is disabled for this conversation. `
+              + 'Do not retry it; use another tool or ask the user to enable it.',
+          },
+        };
+      },
+    ],
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Plugin Component Hooks
+ *
+ * PreToolUse hook enforcing per-vault plugin component enablement.
+ */
+
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import type { DisabledPluginTools } from '../plugins/PluginComponents';
+import { TOOL_SKILL, TOOL_TASK } from '../tools/toolNames';
+
+function getDisabledComponent(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  disabled: DisabledPluginTools
+): string | null {
+  if (toolName === TOOL_TASK) {
+    const agent = toolInput.subagent_type;
+    return typeof agent === 'string' && disabled.agents.has(agent) ? `Agent ${agent}` : null;
+  }
+  if (toolName === TOOL_SKILL) {
+    const skill = typeof toolInput.skill === 'string' ? toolInput.skill : toolInput.command;
+    return typeof skill === 'string' && disabled.skills.has(skill.replace(/^\//, '')) ? `Skill ${skill}` : null;
+  }
+  return disabled.mcpToolPrefixes.some((prefix) => toolName.startsWith(prefix)) ? toolName : null;
+}
+
+/**
+ * Create a PreToolUse hook that denies agents, skills and MCP tools of plugins
+ * whose components were disabled in settings. Read at execution time.
+ */
+export function createPluginComponentHook(getDisabled: () => DisabledPluginTools): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        const input = hookInput as { tool_name: string; tool_input?: Record<string, unknown> };
+        const component = getDisabledComponent(input.tool_name, input.tool_input ?? {}, getDisabled());
+        if (!component) {
+          return { continue: true };
+        }
+
+        return {
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse' as const,
+            permissionDecision: 'deny' as const,
+            permissionDecisionReason: `${component} is disabled in this vault's plugin settings. `
+              + 'Do not retry it; continue without it or ask the user to enable it.',
+          },
+        };
+      },
+    ],
+  };
+}
@@ -1,3 +1,12 @@
+export {
+  type AuditHookContext,
+  createDenyRuleAuditHook,
+  createExecutionAuditHook,
+  withDenyAudit,
+} from './AuditHooks';
+export { createDryRunHook, type DryRunContext } from './DryRunHooks';
+export { createMcpToolSelectionHook } from './McpToolHooks';
+export { createPluginComponentHook } from './PluginComponentHooks';
 export {
   type BlocklistContext,
   createBlocklistHook,
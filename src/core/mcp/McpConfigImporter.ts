@@ -0,0 +1,238 @@
+/**
+ * McpConfigImporter - Discover MCP server configs written by other clients.
+ *
+ * Sources:
+ * - ~/.claude.json: user servers and per-project entries (`projects[path].mcpServers`)
+ * - <vault>/.mcp.json: Claude Code project servers
+ * - Claude Desktop, Cursor and Windsurf (`mcpServers`), VS Code (`servers`)
+ *
+ * Configs are normalized to Claudian's stdio/sse/http shape, keeping env and headers.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { ClaudianMcpServer, McpServerConfig, McpStdioServerConfig } from '../types';
+
+export interface McpImportedServer {
+  name: string;
+  config: McpServerConfig;
+}
+
+export interface McpImportSource {
+  /** Human-readable source, e.g. "Claude Code (project: ~/notes)". */
+  label: string;
+  filePath: string;
+  servers: McpImportedServer[];
+  /** Entries that were dropped: invalid name or unsupported config. */
+  skipped: string[];
+}
+
+export type McpImportAction = 'add' | 'overwrite' | 'unchanged';
+
+export interface McpImportPlanEntry {
+  name: string;
+  config: McpServerConfig;
+  action: McpImportAction;
+  /** Current config of the server an overwrite replaces. */
+  existing?: McpServerConfig;
+}
+
+/** Same rule the settings UI applies to server names. */
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/;
+
+interface ConfigFileSpec {
+  label: string;
+  filePath: string;
+  /** Key holding the server record: most clients use `mcpServers`, VS Code uses `servers`. */
+  key: 'mcpServers' | 'servers';
+}
+
+function readJsonFile(filePath: string): Record<string, unknown> | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function toStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === 'string') {
+      record[key] = entry;
+    } else if (typeof entry === 'number' || typeof entry === 'boolean') {
+      record[key] = String(entry);
+    }
+  }
+  return Object.keys(record).length > 0 ? record : undefined;
+}
+
+/**
+ * Converts one server entry from any supported client to a Claudian config.
+ * Returns null when the entry has neither a command nor a URL.
+ */
+export function normalizeImportedServerConfig(raw: unknown): McpServerConfig | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.command === 'string' && entry.command.trim()) {
+    const config: McpStdioServerConfig = { command: entry.command };
+    if (Array.isArray(entry.args)) {
+      const args = entry.args.filter((arg): arg is string => typeof arg === 'string');
+      if (args.length > 0) config.args = args;
+    }
+    const env = toStringRecord(entry.env);
+    if (env) config.env = env;
+    return config;
+  }
+
+  // Windsurf names the remote URL `serverUrl`
+  const url = typeof entry.url === 'string' ? entry.url : entry.serverUrl;
+  if (typeof url === 'string' && url.trim()) {
+    const type = typeof entry.type === 'string' ? entry.type.toLowerCase() : '';
+    const isSse = type === 'sse' || (!type && /\/sse\/?$/.test(url));
+    const headers = toStringRecord(entry.headers);
+    return {
+      type: isSse ? 'sse' : 'http',
+      url,
+      ...(headers ? { headers } : {}),
+    };
+  }
+
+  return null;
+}
+
+/** Parses a `{ name: config }` record into importable servers and skipped names. */
+export function parseImportedServers(record: unknown): Pick<McpImportSource, 'servers' | 'skipped'> {
+  const servers: McpImportedServer[] = [];
+  const skipped: string[] = [];
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { servers, skipped };
+  }
+
+  for (const [name, raw] of Object.entries(record)) {
+    const config = normalizeImportedServerConfig(raw);
+    if (!config || !SERVER_NAME_PATTERN.test(name)) {
+      skipped.push(name);
+      continue;
+    }
+    servers.push({ name, config });
+  }
+  return { servers, skipped };
+}
+
+function getClaudeDesktopConfigPath(homeDir: string): string {
+  if (process.platform === 'darwin') {
+    return path.join(homeDir, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json');
+  }
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
+    return path.join(appData, 'Claude', 'claude_desktop_config.json');
+  }
+  return path.join(homeDir, '.config', 'Claude', 'claude_desktop_config.json');
+}
+
+function formatProjectLabel(projectPath: string, homeDir: string): string {
+  return projectPath.startsWith(homeDir + path.sep)
+    ? '~' + projectPath.slice(homeDir.length)
+    : projectPath;
+}
+
+/** Reads `~/.claude.json`: the vault's project entry first, then user servers, then other projects. */
+function readClaudeCodeUserConfig(homeDir: string, vaultPath: string): McpImportSource[] {
+  const filePath = path.join(homeDir, '.claude.json');
+  const file = readJsonFile(filePath);
+  if (!file) return [];
+
+  const sources: McpImportSource[] = [];
+  const projects = file.projects && typeof file.projects === 'object'
+    ? Object.entries(file.projects as Record<string, { mcpServers?: unknown }>)
+    : [];
+  const resolvedVault = path.resolve(vaultPath);
+
+  for (const [projectPath, project] of projects) {
+    if (path.resolve(projectPath) !== resolvedVault) continue;
+    sources.push({
+      label: 'Claude Code (this vault)',
+      filePath,
+      ...parseImportedServers(project?.mcpServers),
+    });
+  }
+
+  sources.push({ label: 'Claude Code (user)', filePath, ...parseImportedServers(file.mcpServers) });
+
+  for (const [projectPath, project] of projects) {
+    if (path.resolve(projectPath) === resolvedVault) continue;
+    sources.push({
+      label: `Claude Code (project: ${formatProjectLabel(projectPath, homeDir)})`,
+      filePath,
+      ...parseImportedServers(project?.mcpServers),
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Finds MCP servers configured by other clients. Only sources with at least one
+ * server (or skipped entry) are returned; unreadable files are ignored.
+ */
+export function discoverMcpImportSources(vaultPath: string): McpImportSource[] {
+  const homeDir = os.homedir();
+  const specs: ConfigFileSpec[] = [
+    { label: 'Claude Code (.mcp.json)', filePath: path.join(vaultPath, '.mcp.json'), key: 'mcpServers' },
+    { label: 'Claude Desktop', filePath: getClaudeDesktopConfigPath(homeDir), key: 'mcpServers' },
+    { label: 'Cursor (this vault)', filePath: path.join(vaultPath, '.cursor', 'mcp.json'), key: 'mcpServers' },
+    { label: 'Cursor (user)', filePath: path.join(homeDir, '.cursor', 'mcp.json'), key: 'mcpServers' },
+    { label: 'VS Code (this vault)', filePath: path.join(vaultPath, '.vscode', 'mcp.json'), key: 'servers' },
+    { label: 'Windsurf', filePath: path.join(homeDir, '.codeium', 'windsurf', 'mcp_config.json'), key: 'mcpServers' },
+  ];
+
+  const sources = readClaudeCodeUserConfig(homeDir, vaultPath);
+  for (const spec of specs) {
+    const file = readJsonFile(spec.filePath);
+    if (!file) continue;
+    sources.push({ label: spec.label, filePath: spec.filePath, ...parseImportedServers(file[spec.key]) });
+  }
+
+  return sources.filter((source) => source.servers.length > 0 || source.skipped.length > 0);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+/** Pretty-prints a config with sorted keys, for comparing and diffing configs. */
+export function formatMcpConfig(config: McpServerConfig): string {
+  return JSON.stringify(sortKeys(config), null, 2);
+}
+
+/** Compares imported servers against the configured ones. */
+export function planMcpImport(
+  existing: ClaudianMcpServer[],
+  imported: McpImportedServer[]
+): McpImportPlanEntry[] {
+  return imported.map((server) => {
+    const current = existing.find((s) => s.name === server.name);
+    if (!current) {
+      return { ...server, action: 'add' };
+    }
+    const action = formatMcpConfig(current.config) === formatMcpConfig(server.config) ? 'unchanged' : 'overwrite';
+    return { ...server, action, existing: current.config };
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * McpOAuth - OAuth authorization-code flow for remote MCP servers.
+ *
+ * Discovery, dynamic client registration, PKCE and token refresh are handled by
+ * the MCP SDK's `auth()`. The redirect lands on a loopback server started for the
+ * duration of one sign-in. Resulting tokens are sent as an `Authorization` header.
+ */
+
+import { auth, type OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth';
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth';
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport';
+import { randomBytes } from 'crypto';
+import * as http from 'http';
+
+/** Tokens and client registration of a signed-in server. Stored per device, never in the vault. */
+export interface McpOAuthState {
+  /** Server URL the tokens were issued for; they are only sent to this URL. */
+  serverUrl: string;
+  tokens: OAuthTokens;
+  /** When the access token expires (epoch ms), if the server said. */
+  expiresAt?: number;
+  /** Client registered with the authorization server during sign-in. */
+  clientInformation?: OAuthClientInformationMixed;
+}
+
+/** Access tokens expiring within this window are refreshed before use. */
+export const MCP_OAUTH_REFRESH_MARGIN = 60_000;
+
+const SIGN_IN_TIMEOUT = 5 * 60_000;
+const CALLBACK_PATH = '/callback';
+
+export function needsOAuthRefresh(state: McpOAuthState, now = Date.now()): boolean {
+  return state.expiresAt !== undefined && state.expiresAt - now < MCP_OAUTH_REFRESH_MARGIN;
+}
+
+/** Whether the state was issued for the server at `serverUrl`, so its tokens may be sent there. */
+export function isOAuthStateFor(state: McpOAuthState, serverUrl: string): boolean {
+  return state.serverUrl === serverUrl;
+}
+
+export function getOAuthAuthorizationHeader(state: McpOAuthState): string {
+  return `Bearer ${state.tokens.access_token}`;
+}
+
+export interface McpOAuthSignInOptions {
+  /** Opens the authorization URL in the user's browser. */
+  openUrl: (url: URL) => void | Promise<void>;
+  timeoutMs?: number;
+  fetchFn?: FetchLike;
+}
+
+/**
+ * Signs in to a remote MCP server that advertises OAuth: registers a client,
+ * opens the authorization page and exchanges the returned code for tokens.
+ */
+export async function signInToMcpServer(serverUrl: string, options: McpOAuthSignInOptions): Promise<McpOAuthState> {
+  const callback = await startCallbackServer();
+  try {
+    const expectedState = randomBytes(16).toString('hex');
+    // A fresh client is registered per sign-in since the loopback port changes
+    const provider = new StateOAuthProvider({ serverUrl }, callback.redirectUrl, options.openUrl, expectedState);
+
+    const result = await auth(provider, { serverUrl, fetchFn: options.fetchFn });
+    if (result === 'REDIRECT') {
+      const { code, state } = await callback.waitForCode(options.timeoutMs ?? SIGN_IN_TIMEOUT);
+      if (state !== expectedState) {
+        throw new Error('Sign-in response did not match the request');
+      }
+      await auth(provider, { serverUrl, authorizationCode: code, fetchFn: options.fetchFn });
+    }
+    return provider.toState();
+  } finally {
+    callback.close();
+  }
+}
+
+/** Exchanges the refresh token for a new access token. Throws when the user has to sign in again. */
+export async function refreshMcpOAuthState(
+  serverUrl: string,
+  state: McpOAuthState,
+  fetchFn?: FetchLike
+): Promise<McpOAuthState> {
+  if (!state.tokens.refresh_token) {
+    throw new Error('Sign-in expired; sign in again');
+  }
+  // Without a redirect URL the SDK assumes a non-interactive grant instead of refreshing
+  const redirectUrl = `http://127.0.0.1${CALLBACK_PATH}`;
+  const provider = new StateOAuthProvider({ ...state, serverUrl }, redirectUrl, () => {
+    throw new Error('Sign-in expired; sign in again');
+  });
+  await auth(provider, { serverUrl, fetchFn });
+  return provider.toState();
+}
+
+/** OAuth client provider that keeps everything in memory; callers persist the resulting state. */
+class StateOAuthProvider implements OAuthClientProvider {
+  private verifier = '';
+
+  constructor(
+    private current: Partial<McpOAuthState> & Pick<McpOAuthState, 'serverUrl'>,
+    readonly redirectUrl: string | undefined,
+    private onRedirect: (url: URL) => void | Promise<void>,
+    private stateParam?: string
+  ) {}
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'Claudian',
+      redirect_uris: this.redirectUrl ? [this.redirectUrl] : [],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  state(): string {
+    return this.stateParam ?? '';
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    return this.current.clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    this.current.clientInformation = clientInformation;
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this.current.tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.current.tokens = tokens;
+    this.current.expiresAt = tokens.expires_in !== undefined ? Date.now() + tokens.expires_in * 1000 : undefined;
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void | Promise<void> {
+    return this.onRedirect(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.verifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    return this.verifier;
+  }
+
+  toState(): McpOAuthState {
+    if (!this.current.tokens) {
+      throw new Error('The authorization server returned no tokens');
+    }
+    return {
+      serverUrl: this.current.serverUrl,
+      tokens: this.current.tokens,
+      expiresAt: this.current.expiresAt,
+      clientInformation: this.current.clientInformation,
+    };
+  }
+}
+
+interface CallbackServer {
+  redirectUrl: string;
+  waitForCode: (timeoutMs: number) => Promise<{ code: string; state: string | null }>;
+  close: () => void;
+}
+
+/** Listens on a random loopback port for the authorization server's redirect. */
+function startCallbackServer(): Promise<CallbackServer> {
+  let settle: ((result: { code: string; state: string | null } | Error) => void) | null = null;
+  const received = new Promise<{ code: string; state: string | null } | Error>((resolve) => {
+    settle = resolve;
+  });
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const code = url.searchParams.get('code');
+    const error = url.searchParams.get('error');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(code
+      ? '<p>Signed in. You can close this tab and return to Obsidian.</p>'
+      : '<p>Sign-in failed. You can close this tab and return to Obsidian.</p>');
+
+    settle?.(code
+      ? { code, state: url.searchParams.get('state') }
+      : new Error(url.searchParams.get('error_description') ?? error ?? 'No authorization code received'));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      resolve({
+        redirectUrl: `http://127.0.0.1:${port}${CALLBACK_PATH}`,
+        waitForCode: async (timeoutMs) => {
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          const timeout = new Promise<Error>((resolveTimeout) => {
+            timer = setTimeout(() => resolveTimeout(new Error('Timed out waiting for sign-in')), timeoutMs);
+          });
+          const result = await Promise.race([received, timeout]);
+          clearTimeout(timer);
+          if (result instanceof Error) throw result;
+          return result;
+        },
+        close: () => server.close(),
+      });
+    });
+  });
+}
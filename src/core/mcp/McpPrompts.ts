@@ -0,0 +1,96 @@
+/**
+ * McpPrompts - Surface MCP server prompts as slash commands.
+ *
+ * Prompts are invoked as `/mcp__<server>__<prompt> [args]`, the naming Claude Code
+ * uses. Arguments are positional in the prompt's declared order, or `name=value`.
+ */
+
+import { splitCommandString } from '../../utils/mcp';
+import type { SlashCommand } from '../types';
+import type { McpPrompt, McpPromptArgument, McpPromptMessage } from './McpTester';
+
+export const MCP_PROMPT_COMMAND_PREFIX = 'mcp__';
+
+export function getMcpPromptCommandName(serverName: string, promptName: string): string {
+  return `${MCP_PROMPT_COMMAND_PREFIX}${serverName}__${promptName}`;
+}
+
+/** Builds an argument hint such as `<file> [focus]`: required arguments in angle brackets. */
+export function formatMcpPromptArgumentHint(args: McpPromptArgument[]): string | undefined {
+  if (args.length === 0) return undefined;
+  return args.map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`)).join(' ');
+}
+
+export function mcpPromptToSlashCommand(serverName: string, prompt: McpPrompt): SlashCommand {
+  const name = getMcpPromptCommandName(serverName, prompt.name);
+  const description = prompt.description ?? prompt.title;
+  return {
+    id: `mcp:${serverName}:${prompt.name}`,
+    name,
+    description: description ? `${description} (MCP: ${serverName})` : `MCP prompt from ${serverName}`,
+    argumentHint: formatMcpPromptArgumentHint(prompt.arguments),
+    content: '',
+    source: 'mcp',
+  };
+}
+
+/**
+ * Splits `/mcp__server__prompt args` into the command name and argument text.
+ * Returns null for anything that is not an MCP prompt command.
+ */
+export function parseMcpPromptInvocation(input: string): { commandName: string; argsText: string } | null {
+  const match = /^\/(mcp__\S+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  if (!match) return null;
+  return { commandName: match[1], argsText: (match[2] ?? '').trim() };
+}
+
+/**
+ * Maps argument text onto a prompt's declared arguments. `name=value` tokens set
+ * that argument; other tokens fill the remaining arguments in order, and any
+ * surplus is appended to the last one.
+ */
+export function parseMcpPromptArguments(
+  prompt: McpPrompt,
+  argsText: string
+): { values: Record<string, string> } | { error: string } {
+  const declared = new Set(prompt.arguments.map(arg => arg.name));
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const token of splitCommandString(argsText)) {
+    const eq = token.indexOf('=');
+    const key = eq > 0 ? token.slice(0, eq) : '';
+    if (declared.has(key)) {
+      values[key] = token.slice(eq + 1);
+    } else {
+      positional.push(token);
+    }
+  }
+
+  const unset = prompt.arguments.filter(arg => values[arg.name] === undefined);
+  unset.forEach((arg, index) => {
+    if (index >= positional.length) return;
+    values[arg.name] = index === unset.length - 1
+      ? positional.slice(index).join(' ')
+      : positional[index];
+  });
+
+  const missing = prompt.arguments.filter(arg => arg.required && !values[arg.name]).map(arg => arg.name);
+  if (missing.length > 0) {
+    return { error: `Missing required argument${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+  }
+  return { values };
+}
+
+/**
+ * Joins prompt messages into one user turn. Assistant messages are kept as
+ * tagged blocks so the model sees the conversation the prompt scripts.
+ */
+export function formatMcpPromptMessages(messages: McpPromptMessage[]): string {
+  if (messages.every(message => message.role === 'user')) {
+    return messages.map(message => message.text).join('\n\n');
+  }
+  return messages
+    .map(message => `<message role="${message.role}">\n${message.text}\n</message>`)
+    .join('\n\n');
+}
@@ -0,0 +1,60 @@
+/**
+ * McpSecrets - `${secret:NAME}` references in MCP server env and header values.
+ *
+ * `.claude/mcp.json` is synced with the vault, so tokens are stored per device
+ * and only referenced from the config. References are resolved when the server
+ * config is handed to the SDK or to one of our own connections.
+ */
+
+import type { McpServerConfig } from '../types';
+
+const SECRET_REFERENCE = /\$\{secret:([A-Za-z0-9_.-]+)\}/g;
+
+/** Valid secret names, matching what a `${secret:NAME}` reference accepts. */
+export const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export function formatSecretReference(name: string): string {
+  return `\${secret:${name}}`;
+}
+
+/** Names of the secrets a server config references, in order of first use. */
+export function findSecretReferences(config: McpServerConfig): string[] {
+  const names: string[] = [];
+  for (const value of Object.values(getSecretFields(config) ?? {})) {
+    for (const match of value.matchAll(SECRET_REFERENCE)) {
+      if (!names.includes(match[1])) names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Replaces secret references in env (stdio) or header (remote) values.
+ * Secrets with no stored value resolve to an empty string and are reported as missing.
+ */
+export function resolveSecretReferences(
+  config: McpServerConfig,
+  getSecret: (name: string) => string | null
+): { config: McpServerConfig; missing: string[] } {
+  const fields = getSecretFields(config);
+  if (!fields) return { config, missing: [] };
+
+  const missing: string[] = [];
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    resolved[key] = value.replace(SECRET_REFERENCE, (_match, name: string) => {
+      const secret = getSecret(name);
+      if (secret === null && !missing.includes(name)) missing.push(name);
+      return secret ?? '';
+    });
+  }
+
+  return {
+    config: 'command' in config ? { ...config, env: resolved } : { ...config, headers: resolved },
+    missing,
+  };
+}
+
+function getSecretFields(config: McpServerConfig): Record<string, string> | undefined {
+  return 'command' in config ? config.env : config.headers;
+}
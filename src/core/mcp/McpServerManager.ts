@@ -2,26 +2,398 @@
  * McpServerManager - Core MCP server configuration management.
  *
  * Infrastructure layer for loading, filtering, and querying MCP server configurations.
+ * Also monitors the health of enabled servers while a chat view is open, lists
+ * their tools and prompts, and lists and reads their resources. Health comes from
+ * a running session's MCP status where one has the server; others are pinged.
+ *
+ * Configs are resolved before use: `${secret:NAME}` references are filled in from
+ * the per-device secret store and OAuth access tokens are refreshed and attached.
  */
 
+import type { McpServerStatus } from '@anthropic-ai/claude-agent-sdk';
+
 import { extractMcpMentions, transformMcpMentions } from '../../utils/mcp';
-import type { ClaudianMcpServer, McpServerConfig } from '../types';
+import type { ClaudianMcpServer, McpServerConfig, McpServerHealth, McpToolSelection, SlashCommand } from '../types';
+import {
+  getOAuthAuthorizationHeader,
+  isOAuthStateFor,
+  type McpOAuthState,
+  needsOAuthRefresh,
+  refreshMcpOAuthState,
+} from './McpOAuth';
+import { getMcpPromptCommandName, mcpPromptToSlashCommand } from './McpPrompts';
+import { resolveSecretReferences } from './McpSecrets';
+import {
+  getMcpPrompt,
+  listMcpPrompts,
+  listMcpResources,
+  type McpPingResult,
+  type McpPrompt,
+  type McpPromptGetResult,
+  type McpPromptListResult,
+  type McpResource,
+  type McpResourceListResult,
+  type McpResourceReadResult,
+  type McpTestResult,
+  type McpTool,
+  pingMcpServer,
+  readMcpResource,
+  testMcpServer,
+} from './McpTester';
+
+/** How often enabled servers are pinged while the health monitor runs. */
+export const MCP_HEALTH_CHECK_INTERVAL = 120_000;
+
+/** Reports the MCP server status of a running session; empty when none is running. */
+export type McpSessionStatusSource = () => Promise<McpServerStatus[]>;
 
 /** Storage interface for loading MCP servers. */
 export interface McpStorageAdapter {
   load(): Promise<ClaudianMcpServer[]>;
 }
 
+/** Per-device store for referenced secrets and OAuth sign-ins; kept out of the synced vault. */
+export interface McpSecretStore {
+  getSecret(name: string): string | null;
+  getOAuthState(serverName: string): McpOAuthState | null;
+  setOAuthState(serverName: string, state: McpOAuthState | null): void;
+}
+
+const NO_SECRETS: McpSecretStore = {
+  getSecret: () => null,
+  getOAuthState: () => null,
+  setOAuthState: () => {},
+};
+
+/** Operations the manager runs over its own connections to a server. */
+export interface McpClientOperations {
+  ping: (server: ClaudianMcpServer) => Promise<McpPingResult>;
+  listResources: (server: ClaudianMcpServer) => Promise<McpResourceListResult>;
+  readResource: (server: ClaudianMcpServer, uri: string) => Promise<McpResourceReadResult>;
+  listPrompts: (server: ClaudianMcpServer) => Promise<McpPromptListResult>;
+  listTools: (server: ClaudianMcpServer) => Promise<McpTestResult>;
+  getPrompt: (server: ClaudianMcpServer, name: string, args: Record<string, string>) => Promise<McpPromptGetResult>;
+  refreshOAuth: (serverUrl: string, state: McpOAuthState) => Promise<McpOAuthState>;
+}
+
+const DEFAULT_CLIENT_OPERATIONS: McpClientOperations = {
+  ping: (server) => pingMcpServer(server),
+  listResources: (server) => listMcpResources(server),
+  readResource: (server, uri) => readMcpResource(server, uri),
+  listPrompts: (server) => listMcpPrompts(server),
+  listTools: (server) => testMcpServer(server),
+  getPrompt: (server, name, args) => getMcpPrompt(server, name, args),
+  refreshOAuth: (serverUrl, state) => refreshMcpOAuthState(serverUrl, state),
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function healthFromSessionStatus(status: McpServerStatus): McpServerHealth {
+  switch (status.status) {
+    case 'connected':
+      return { status: 'healthy', checkedAt: Date.now() };
+    case 'pending':
+      return { status: 'checking' };
+    case 'needs-auth':
+      return { status: 'unhealthy', lastError: 'Authentication required', checkedAt: Date.now() };
+    default:
+      return { status: 'unhealthy', lastError: status.error ?? 'Connection failed', checkedAt: Date.now() };
+  }
+}
+
 export class McpServerManager {
   private servers: ClaudianMcpServer[] = [];
   private storage: McpStorageAdapter;
+  private operations: McpClientOperations;
+  private secrets: McpSecretStore;
+  private pendingRefreshes = new Map<string, Promise<void>>();
+  private resourceCache = new Map<string, McpResourceListResult>();
+  private pendingResourceLists = new Map<string, Promise<McpResourceListResult>>();
+  private promptCache = new Map<string, McpPromptListResult>();
+  private pendingPromptLists = new Map<string, Promise<McpPromptListResult>>();
+  private toolCache = new Map<string, McpTestResult>();
+  private pendingToolLists = new Map<string, Promise<McpTestResult>>();
+  private health = new Map<string, McpServerHealth>();
+  private pendingChecks = new Map<string, Promise<McpServerHealth | null>>();
+  private healthListeners = new Set<() => void>();
+  private healthInterval: ReturnType<typeof setInterval> | null = null;
+  private healthWatchers = 0;
+  private sessionStatusSources = new Set<McpSessionStatusSource>();
 
-  constructor(storage: McpStorageAdapter) {
+  constructor(
+    storage: McpStorageAdapter,
+    operations: Partial<McpClientOperations> = {},
+    secrets: McpSecretStore = NO_SECRETS
+  ) {
     this.storage = storage;
+    this.operations = { ...DEFAULT_CLIENT_OPERATIONS, ...operations };
+    this.secrets = secrets;
   }
 
   async loadServers(): Promise<void> {
     this.servers = await this.storage.load();
+    // Configs may have changed; tools, resources and prompts are listed again on next use
+    this.resourceCache.clear();
+    this.promptCache.clear();
+    this.toolCache.clear();
+
+    // Forget servers that were removed or disabled; check new ones right away
+    const enabled = new Set(this.servers.filter(s => s.enabled).map(s => s.name));
+    let changed = false;
+    for (const name of this.health.keys()) {
+      if (!enabled.has(name)) {
+        this.health.delete(name);
+        changed = true;
+      }
+    }
+    if (changed) this.notifyHealthChange();
+    if (this.healthInterval) {
+      for (const name of enabled) {
+        if (!this.health.has(name)) void this.checkServerHealth(name);
+      }
+    }
+  }
+
+  /**
+   * Keeps the health monitor running until the returned release function is
+   * called. The monitor stops once every watcher has released it.
+   */
+  watchHealth(): () => void {
+    this.healthWatchers++;
+    if (this.healthWatchers === 1) this.startHealthMonitor();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.healthWatchers--;
+      if (this.healthWatchers === 0) this.stopHealthMonitor();
+    };
+  }
+
+  /** Checks every enabled server now and then every MCP_HEALTH_CHECK_INTERVAL. */
+  startHealthMonitor(): void {
+    this.stopHealthMonitor();
+    this.healthInterval = setInterval(() => void this.checkAllServers(), MCP_HEALTH_CHECK_INTERVAL);
+    void this.checkAllServers();
+  }
+
+  stopHealthMonitor(): void {
+    if (this.healthInterval) {
+      clearInterval(this.healthInterval);
+      this.healthInterval = null;
+    }
+  }
+
+  getServerHealth(name: string): McpServerHealth | undefined {
+    return this.health.get(name);
+  }
+
+  /** Registers a running session whose MCP status health checks prefer. Returns an unsubscribe function. */
+  addSessionStatusSource(source: McpSessionStatusSource): () => void {
+    this.sessionStatusSources.add(source);
+    return () => this.sessionStatusSources.delete(source);
+  }
+
+  /** Registers a listener for health changes. Returns an unsubscribe function. */
+  onHealthChange(listener: () => void): () => void {
+    this.healthListeners.add(listener);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  async checkAllServers(): Promise<void> {
+    await Promise.all(this.servers.filter(s => s.enabled).map(s => this.checkServerHealth(s.name)));
+  }
+
+  /**
+   * Checks one enabled server and records the result. A running session that has
+   * the server reports its status; otherwise the server is pinged. Concurrent
+   * checks of the same server share one check. Resolves to null for unknown or
+   * disabled servers.
+   */
+  checkServerHealth(name: string): Promise<McpServerHealth | null> {
+    const pending = this.pendingChecks.get(name);
+    if (pending) return pending;
+
+    const server = this.servers.find(s => s.name === name && s.enabled);
+    if (!server) return Promise.resolve(null);
+
+    const previous = this.health.get(name);
+    this.health.set(name, { ...previous, status: 'checking' });
+    this.notifyHealthChange();
+
+    const check = this.checkServer(server)
+      .then((health) => {
+        this.pendingChecks.delete(name);
+        // The server may have been removed while the check was running
+        if (!this.servers.some(s => s.name === name && s.enabled)) {
+          this.health.delete(name);
+          this.notifyHealthChange();
+          return null;
+        }
+        this.health.set(name, health);
+        this.notifyHealthChange();
+        return health;
+      });
+    this.pendingChecks.set(name, check);
+    return check;
+  }
+
+  private async checkServer(server: ClaudianMcpServer): Promise<McpServerHealth> {
+    const sessionStatus = this.sessionStatusSources.size > 0 ? await this.findSessionStatus(server.name) : null;
+    if (sessionStatus) return healthFromSessionStatus(sessionStatus);
+
+    const result = await this.withResolvedServer(server, (resolved) => this.operations.ping(resolved))
+      .catch((error: unknown): McpPingResult => ({ success: false, error: errorMessage(error) }));
+    return result.success
+      ? { status: 'healthy', latencyMs: result.latencyMs, checkedAt: Date.now() }
+      : { status: 'unhealthy', lastError: result.error, checkedAt: Date.now() };
+  }
+
+  private async findSessionStatus(name: string): Promise<McpServerStatus | null> {
+    for (const source of this.sessionStatusSources) {
+      const statuses = await source().catch((): McpServerStatus[] => []);
+      const status = statuses.find(s => s.name === name);
+      if (status) return status;
+    }
+    return null;
+  }
+
+  /** Resources from the last successful listing of a server, or null if it has not been listed. */
+  getCachedResources(name: string): McpResource[] | null {
+    return this.resourceCache.get(name)?.resources ?? null;
+  }
+
+  /** Lists an enabled server's resources and templates; see listCached() for caching. */
+  listResources(name: string, refresh = false): Promise<McpResourceListResult> {
+    return this.listCached(
+      name,
+      refresh,
+      this.resourceCache,
+      this.pendingResourceLists,
+      (server) => this.operations.listResources(server),
+      (error) => ({ success: false, resources: [], templates: [], error })
+    );
+  }
+
+  async readResource(name: string, uri: string): Promise<McpResourceReadResult> {
+    const server = this.servers.find(s => s.name === name && s.enabled);
+    if (!server) {
+      return { success: false, contents: [], error: `Unknown MCP server: ${name}` };
+    }
+    try {
+      return await this.withResolvedServer(server, (resolved) => this.operations.readResource(resolved, uri));
+    } catch (error) {
+      return { success: false, contents: [], error: errorMessage(error) };
+    }
+  }
+
+  /** Lists an enabled server's prompts; see listCached() for caching. */
+  listPrompts(name: string, refresh = false): Promise<McpPromptListResult> {
+    return this.listCached(
+      name,
+      refresh,
+      this.promptCache,
+      this.pendingPromptLists,
+      (server) => this.operations.listPrompts(server),
+      (error) => ({ success: false, prompts: [], error })
+    );
+  }
+
+  /** Tools from the last successful listing of a server, or null if it has not been listed. */
+  getCachedTools(name: string): McpTool[] | null {
+    return this.toolCache.get(name)?.tools ?? null;
+  }
+
+  /** Lists an enabled server's tools with their input schemas; see listCached() for caching. */
+  listTools(name: string, refresh = false): Promise<McpTestResult> {
+    return this.listCached(
+      name,
+      refresh,
+      this.toolCache,
+      this.pendingToolLists,
+      (server) => this.operations.listTools(server),
+      (error) => ({ success: false, tools: [], error })
+    );
+  }
+
+  /** Prompts of all enabled servers as `/mcp__server__prompt` slash commands. Failing servers are skipped. */
+  async getPromptCommands(): Promise<SlashCommand[]> {
+    const enabled = this.servers.filter(s => s.enabled);
+    const results = await Promise.all(enabled.map(s => this.listPrompts(s.name)));
+    return enabled.flatMap((server, index) =>
+      results[index].prompts.map(prompt => mcpPromptToSlashCommand(server.name, prompt))
+    );
+  }
+
+  /** Finds the server and prompt behind a `mcp__server__prompt` command name. */
+  async findPromptCommand(commandName: string): Promise<{ serverName: string; prompt: McpPrompt } | null> {
+    // Server names may contain underscores, so match against each candidate server
+    const candidates = this.servers.filter(s => s.enabled && commandName.startsWith(getMcpPromptCommandName(s.name, '')));
+    for (const server of candidates) {
+      const { prompts } = await this.listPrompts(server.name);
+      const prompt = prompts.find(p => getMcpPromptCommandName(server.name, p.name) === commandName);
+      if (prompt) return { serverName: server.name, prompt };
+    }
+    return null;
+  }
+
+  async getPrompt(name: string, promptName: string, args: Record<string, string>): Promise<McpPromptGetResult> {
+    const server = this.servers.find(s => s.name === name && s.enabled);
+    if (!server) {
+      return { success: false, messages: [], error: `Unknown MCP server: ${name}` };
+    }
+    try {
+      return await this.withResolvedServer(server, (resolved) => this.operations.getPrompt(resolved, promptName, args));
+    } catch (error) {
+      return { success: false, messages: [], error: errorMessage(error) };
+    }
+  }
+
+  /**
+   * Runs a per-server listing at most once at a time. Successful results are
+   * cached until the next loadServers() unless `refresh` is set.
+   */
+  private listCached<T extends { success: boolean }>(
+    name: string,
+    refresh: boolean,
+    cache: Map<string, T>,
+    pending: Map<string, Promise<T>>,
+    list: (server: ClaudianMcpServer) => Promise<T>,
+    failure: (error: string) => T
+  ): Promise<T> {
+    const cached = cache.get(name);
+    if (cached && !refresh) return Promise.resolve(cached);
+
+    const inFlight = pending.get(name);
+    if (inFlight) return inFlight;
+
+    const server = this.servers.find(s => s.name === name && s.enabled);
+    if (!server) {
+      return Promise.resolve(failure(`Unknown MCP server: ${name}`));
+    }
+
+    const listing = this.withResolvedServer(server, list)
+      .catch((error: unknown) => failure(errorMessage(error)))
+      .then((result) => {
+        pending.delete(name);
+        if (result.success) cache.set(name, result);
+        return result;
+      });
+    pending.set(name, listing);
+    return listing;
+  }
+
+  private notifyHealthChange(): void {
+    for (const listener of this.healthListeners) {
+      try {
+        listener();
+      } catch {
+        // Ignore listener errors
+      }
+    }
   }
 
   getServers(): ClaudianMcpServer[] {
@@ -52,21 +424,89 @@ export class McpServerManager {
         continue;
       }
 
-      result[server.name] = server.config;
+      result[server.name] = this.resolveServer(server).config;
     }
 
     return result;
   }
 
+  /**
+   * Returns the server with secret references filled in and, when signed in with
+   * OAuth, the access token as `Authorization` header unless the config sets one.
+   */
+  resolveServer(server: ClaudianMcpServer): ClaudianMcpServer {
+    const { config } = resolveSecretReferences(server.config, (name) => this.secrets.getSecret(name));
+    if ('command' in config) return { ...server, config };
+
+    const oauth = this.getOAuthState(server);
+    const headers = config.headers ?? {};
+    if (!oauth || Object.keys(headers).some((key) => key.toLowerCase() === 'authorization')) {
+      return { ...server, config };
+    }
+    return {
+      ...server,
+      config: { ...config, headers: { ...headers, Authorization: getOAuthAuthorizationHeader(oauth) } },
+    };
+  }
+
+  /**
+   * Returns the server's OAuth sign-in, or null when it is not signed in or its
+   * URL changed since, so tokens are never sent to a server they were not issued for.
+   */
+  getOAuthState(server: ClaudianMcpServer): McpOAuthState | null {
+    if ('command' in server.config) return null;
+    const state = this.secrets.getOAuthState(server.name);
+    return state && isOAuthStateFor(state, server.config.url) ? state : null;
+  }
+
+  /** Names of the secrets a server references that have no stored value on this device. */
+  getMissingSecrets(server: ClaudianMcpServer): string[] {
+    return resolveSecretReferences(server.config, (name) => this.secrets.getSecret(name)).missing;
+  }
+
+  /** Refreshes OAuth access tokens of enabled servers that are about to expire. Call before building a query. */
+  async refreshOAuthTokens(): Promise<void> {
+    await Promise.all(this.servers.filter(s => s.enabled).map(s => this.refreshOAuthToken(s)));
+  }
+
+  /** Returns null when the server has no OAuth token that needs refreshing. */
+  private refreshOAuthToken(server: ClaudianMcpServer): Promise<void> | null {
+    if ('command' in server.config) return null;
+    const state = this.getOAuthState(server);
+    if (!state || !needsOAuthRefresh(state)) return null;
+
+    const pending = this.pendingRefreshes.get(server.name);
+    if (pending) return pending;
+
+    const refresh = this.operations.refreshOAuth(server.config.url, state)
+      .then((next) => this.secrets.setOAuthState(server.name, next))
+      .catch(() => {
+        // Keep the stale token; the server rejects it and the health check shows why
+      })
+      .finally(() => this.pendingRefreshes.delete(server.name));
+    this.pendingRefreshes.set(server.name, refresh);
+    return refresh;
+  }
+
+  /** Runs `run` with the resolved server, after refreshing its OAuth token if needed. */
+  private withResolvedServer<T>(server: ClaudianMcpServer, run: (resolved: ClaudianMcpServer) => Promise<T>): Promise<T> {
+    const refresh = this.refreshOAuthToken(server);
+    return refresh
+      ? refresh.then(() => run(this.resolveServer(server)))
+      : run(this.resolveServer(server));
+  }
+
   /**
    * Get disabled MCP tools formatted for SDK disallowedTools option.
    *
    * Only returns disabled tools from servers that would be active (same filter as getActiveServers).
    *
    * @param mentionedNames Set of server names that were @-mentioned in the prompt
+   * @param toolSelection Per-conversation tool selection; listed tools it leaves out are disallowed too
    */
-  getDisallowedMcpTools(mentionedNames: Set<string>): string[] {
+  getDisallowedMcpTools(mentionedNames: Set<string>, toolSelection?: McpToolSelection): string[] {
     return this.collectDisallowedTools(
+      toolSelection,
       (s) => !s.contextSaving || mentionedNames.has(s.name)
     );
   }
@@ -77,23 +517,38 @@ export class McpServerManager {
    * Used for persistent queries to pre-register all disabled tools upfront,
    * so @-mentioning servers doesn't require cold start.
    */
-  getAllDisallowedMcpTools(): string[] {
-    return this.collectDisallowedTools().sort();
+  getAllDisallowedMcpTools(toolSelection?: McpToolSelection): string[] {
+    return this.collectDisallowedTools(toolSelection).sort();
   }
 
-  private collectDisallowedTools(filter?: (server: ClaudianMcpServer) => boolean): string[] {
+  /**
+   * Tools disabled in server settings, plus tools a conversation's selection leaves
+   * out. Selection entries only cover tools that have been listed; the PreToolUse
+   * hook still denies the rest.
+   */
+  private collectDisallowedTools(
+    toolSelection?: McpToolSelection,
+    filter?: (server: ClaudianMcpServer) => boolean
+  ): string[] {
     const disallowed = new Set<string>();
 
     for (const server of this.servers) {
       if (!server.enabled) continue;
       if (filter && !filter(server)) continue;
-      if (!server.disabledTools || server.disabledTools.length === 0) continue;
 
-      for (const tool of server.disabledTools) {
+      for (const tool of server.disabledTools ?? []) {
         const normalized = tool.trim();
         if (!normalized) continue;
         disallowed.add(`mcp__${server.name}__${normalized}`);
       }
+
+      const selected = toolSelection?.[server.name];
+      if (!selected) continue;
+      for (const tool of this.getCachedTools(server.name) ?? []) {
+        if (!selected.includes(tool.name)) {
+          disallowed.add(`mcp__${server.name}__${tool.name}`);
+        }
+      }
     }
 
     return Array.from(disallowed);
@@ -14,6 +14,31 @@ export interface McpTool {
   inputSchema?: Record<string, unknown>;
 }
 
+/** A top-level input of an MCP tool, read from its `inputSchema`. */
+export interface McpToolParameter {
+  name: string;
+  type?: string;
+  description?: string;
+  required: boolean;
+}
+
+export function getMcpToolParameters(tool: McpTool): McpToolParameter[] {
+  const properties = tool.inputSchema?.properties;
+  if (!properties || typeof properties !== 'object') return [];
+  const required = Array.isArray(tool.inputSchema?.required) ? tool.inputSchema.required : [];
+
+  return Object.entries(properties as Record<string, unknown>).map(([name, raw]) => {
+    const schema = (raw && typeof raw === 'object' ? raw : {}) as { type?: unknown; description?: unknown };
+    const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+    return {
+      name,
+      type: typeof type === 'string' ? type : undefined,
+      description: typeof schema.description === 'string' ? schema.description : undefined,
+      required: required.includes(name),
+    };
+  });
+}
+
 export interface McpTestResult {
   success: boolean;
   serverName?: string;
@@ -27,38 +52,121 @@ interface UrlServerConfig {
   headers?: Record<string, string>;
 }
 
-export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  /** RFC 6570 URI template, e.g. `file:///{path}`. */
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64-encoded binary content. */
+  blob?: string;
+}
+
+export interface McpResourceListResult {
+  success: boolean;
+  resources: McpResource[];
+  templates: McpResourceTemplate[];
+  error?: string;
+}
+
+export interface McpResourceReadResult {
+  success: boolean;
+  contents: McpResourceContent[];
+  error?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  /** Message content flattened to text; non-text content is described in brackets. */
+  text: string;
+}
+
+export interface McpPromptListResult {
+  success: boolean;
+  prompts: McpPrompt[];
+  error?: string;
+}
+
+export interface McpPromptGetResult {
+  success: boolean;
+  description?: string;
+  messages: McpPromptMessage[];
+  error?: string;
+}
+
+export interface McpPingResult {
+  success: boolean;
+  /** Round trip of the ping request, once connected. */
+  latencyMs?: number;
+  error?: string;
+}
+
+type McpTransport = StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport;
+
+function createTransport(server: ClaudianMcpServer): { transport: McpTransport } | { error: string } {
   const type = getMcpServerType(server.config);
 
-  let transport;
   try {
     if (type === 'stdio') {
       const config = server.config as { command: string; args?: string[]; env?: Record<string, string> };
       const { cmd, args } = parseCommand(config.command, config.args);
       if (!cmd) {
-        return { success: false, tools: [], error: 'Missing command' };
+        return { error: 'Missing command' };
       }
-      transport = new StdioClientTransport({
-        command: cmd,
-        args,
-        env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
-        stderr: 'ignore',
-      });
-    } else {
-      const config = server.config as UrlServerConfig;
-      const url = new URL(config.url);
-      const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
-      transport = type === 'sse'
-        ? new SSEClientTransport(url, options)
-        : new StreamableHTTPClientTransport(url, options);
+      return {
+        transport: new StdioClientTransport({
+          command: cmd,
+          args,
+          env: { ...process.env, ...config.env, PATH: getEnhancedPath(config.env?.PATH) } as Record<string, string>,
+          stderr: 'ignore',
+        }),
+      };
     }
-  } catch (error) {
+    const config = server.config as UrlServerConfig;
+    const url = new URL(config.url);
+    const options = config.headers ? { requestInit: { headers: config.headers } } : undefined;
     return {
-      success: false,
-      tools: [],
-      error: error instanceof Error ? error.message : 'Invalid server configuration',
+      transport: type === 'sse'
+        ? new SSEClientTransport(url, options)
+        : new StreamableHTTPClientTransport(url, options),
     };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid server configuration' };
   }
+}
+
+export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestResult> {
+  const created = createTransport(server);
+  if ('error' in created) {
+    return { success: false, tools: [], error: created.error };
+  }
+  const { transport } = created;
 
   const client = new Client({ name: 'claudian-tester', version: '1.0.0' });
   const controller = new AbortController();
@@ -104,3 +212,186 @@ export async function testMcpServer(server: ClaudianMcpServer): Promise<McpTestR
     }
   }
 }
+
+/** Connects to a server, runs `fn` and closes the connection. Gives up after `timeoutMs`. */
+async function withMcpClient<T>(
+  server: ClaudianMcpServer,
+  clientName: string,
+  timeoutMs: number,
+  fn: (client: Client, signal: AbortSignal) => Promise<T>
+): Promise<{ value: T } | { error: string }> {
+  const created = createTransport(server);
+  if ('error' in created) {
+    return { error: created.error };
+  }
+
+  const client = new Client({ name: clientName, version: '1.0.0' });
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    await client.connect(created.transport, { signal: controller.signal });
+    return { value: await fn(client, controller.signal) };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { error: `Connection timeout (${Math.round(timeoutMs / 1000)}s)` };
+    }
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  } finally {
+    clearTimeout(timeout);
+    try {
+      await client.close();
+    } catch {
+      // Ignore close errors
+    }
+  }
+}
+
+/**
+ * Connects to a server and sends a ping. Servers that do not implement ping
+ * are timed with a tools/list request instead.
+ */
+export async function pingMcpServer(server: ClaudianMcpServer, timeoutMs = 10000): Promise<McpPingResult> {
+  const result = await withMcpClient(server, 'claudian-health', timeoutMs, async (client, signal) => {
+    const start = Date.now();
+    try {
+      await client.ping({ signal });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      await client.listTools(undefined, { signal });
+    }
+    return Date.now() - start;
+  });
+
+  return 'error' in result
+    ? { success: false, error: result.error }
+    : { success: true, latencyMs: result.value };
+}
+
+/** Upper bound on pages fetched from a paginated list request. */
+const MAX_LIST_PAGES = 20;
+
+/** Lists a server's resources and resource templates. Servers without resources return empty lists. */
+export async function listMcpResources(server: ClaudianMcpServer, timeoutMs = 10000): Promise<McpResourceListResult> {
+  const result = await withMcpClient(server, 'claudian-resources', timeoutMs, async (client, signal) => {
+    const resources: McpResource[] = [];
+    const templates: McpResourceTemplate[] = [];
+    if (!client.getServerCapabilities()?.resources) {
+      return { resources, templates };
+    }
+
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const response = await client.listResources(cursor ? { cursor } : undefined, { signal });
+      for (const r of response.resources) {
+        resources.push({ uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType });
+      }
+      cursor = response.nextCursor;
+      if (!cursor) break;
+    }
+
+    try {
+      const response = await client.listResourceTemplates(undefined, { signal });
+      for (const t of response.resourceTemplates) {
+        templates.push({ uriTemplate: t.uriTemplate, name: t.name, description: t.description, mimeType: t.mimeType });
+      }
+    } catch (error) {
+      // Templates are optional; a server may list resources without supporting them
+      if (signal.aborted) throw error;
+    }
+
+    return { resources, templates };
+  });
+
+  return 'error' in result
+    ? { success: false, resources: [], templates: [], error: result.error }
+    : { success: true, ...result.value };
+}
+
+/** Reads one resource by URI. */
+export async function readMcpResource(
+  server: ClaudianMcpServer,
+  uri: string,
+  timeoutMs = 30000
+): Promise<McpResourceReadResult> {
+  const result = await withMcpClient(server, 'claudian-resources', timeoutMs, async (client, signal) => {
+    const response = await client.readResource({ uri }, { signal });
+    return response.contents.map((c): McpResourceContent => ({
+      uri: c.uri,
+      mimeType: c.mimeType,
+      ...('text' in c && typeof c.text === 'string' ? { text: c.text } : {}),
+      ...('blob' in c && typeof c.blob === 'string' ? { blob: c.blob } : {}),
+    }));
+  });
+
+  return 'error' in result
+    ? { success: false, contents: [], error: result.error }
+    : { success: true, contents: result.value };
+}
+
+/** Lists a server's prompts with their arguments. Servers without prompts return an empty list. */
+export async function listMcpPrompts(server: ClaudianMcpServer, timeoutMs = 10000): Promise<McpPromptListResult> {
+  const result = await withMcpClient(server, 'claudian-prompts', timeoutMs, async (client, signal) => {
+    const prompts: McpPrompt[] = [];
+    if (!client.getServerCapabilities()?.prompts) {
+      return prompts;
+    }
+
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const response = await client.listPrompts(cursor ? { cursor } : undefined, { signal });
+      for (const p of response.prompts) {
+        prompts.push({
+          name: p.name,
+          title: p.title,
+          description: p.description,
+          arguments: (p.arguments ?? []).map(a => ({ name: a.name, description: a.description, required: a.required })),
+        });
+      }
+      cursor = response.nextCursor;
+      if (!cursor) break;
+    }
+    return prompts;
+  });
+
+  return 'error' in result
+    ? { success: false, prompts: [], error: result.error }
+    : { success: true, prompts: result.value };
+}
+
+type PromptContent = Awaited<ReturnType<Client['getPrompt']>>['messages'][number]['content'];
+
+function promptContentToText(content: PromptContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return 'text' in content.resource && typeof content.resource.text === 'string'
+        ? content.resource.text
+        : `[binary resource: ${content.resource.uri}]`;
+    case 'resource_link':
+      return `[resource: ${content.uri}]`;
+    default:
+      return `[${content.type}: ${content.mimeType}]`;
+  }
+}
+
+/** Gets a prompt with the given arguments, flattening each message to text. */
+export async function getMcpPrompt(
+  server: ClaudianMcpServer,
+  name: string,
+  args: Record<string, string>,
+  timeoutMs = 30000
+): Promise<McpPromptGetResult> {
+  const result = await withMcpClient(server, 'claudian-prompts', timeoutMs, async (client, signal) => {
+    const response = await client.getPrompt({ name, arguments: args }, { signal });
+    return {
+      description: response.description,
+      messages: response.messages.map((m): McpPromptMessage => ({ role: m.role, text: promptContentToText(m.content) })),
+    };
+  });
+
+  return 'error' in result
+    ? { success: false, messages: [], error: result.error }
+    : { success: true, ...result.value };
+}
@@ -1,2 +1,67 @@
-export { McpServerManager, type McpStorageAdapter } from './McpServerManager';
-export { type McpTestResult, type McpTool, testMcpServer } from './McpTester';
+export {
+  discoverMcpImportSources,
+  formatMcpConfig,
+  type McpImportAction,
+  type McpImportedServer,
+  type McpImportPlanEntry,
+  type McpImportSource,
+  normalizeImportedServerConfig,
+  parseImportedServers,
+  planMcpImport,
+} from './McpConfigImporter';
+export {
+  getOAuthAuthorizationHeader,
+  isOAuthStateFor,
+  MCP_OAUTH_REFRESH_MARGIN,
+  type McpOAuthSignInOptions,
+  type McpOAuthState,
+  needsOAuthRefresh,
+  refreshMcpOAuthState,
+  signInToMcpServer,
+} from './McpOAuth';
+export {
+  formatMcpPromptArgumentHint,
+  formatMcpPromptMessages,
+  getMcpPromptCommandName,
+  MCP_PROMPT_COMMAND_PREFIX,
+  mcpPromptToSlashCommand,
+  parseMcpPromptArguments,
+  parseMcpPromptInvocation,
+} from './McpPrompts';
+export {
+  findSecretReferences,
+  formatSecretReference,
+  resolveSecretReferences,
+  SECRET_NAME_PATTERN,
+} from './McpSecrets';
+export {
+  MCP_HEALTH_CHECK_INTERVAL,
+  type McpClientOperations,
+  type McpSecretStore,
+  McpServerManager,
+  type McpSessionStatusSource,
+  type McpStorageAdapter,
+} from './McpServerManager';
+export {
+  getMcpPrompt,
+  getMcpToolParameters,
+  listMcpPrompts,
+  listMcpResources,
+  type McpPingResult,
+  type McpPrompt,
+  type McpPromptArgument,
+  type McpPromptGetResult,
+  type McpPromptListResult,
+  type McpPromptMessage,
+  type McpResource,
+  type McpResourceContent,
+  type McpResourceListResult,
+  type McpResourceReadResult,
+  type McpResourceTemplate,
+  type McpTestResult,
+  type McpTool,
+  type McpToolParameter,
+  pingMcpServer,
+  readMcpResource,
+  testMcpServer,
+} from './McpTester';
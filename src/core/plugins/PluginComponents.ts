@@ -0,0 +1,110 @@
+/**
+ * PluginComponents - Per-vault enablement of individual plugin components.
+ *
+ * The CLI loads every component of an enabled plugin, so the choices are applied
+ * on Claudian's side: disabled commands and skills are hidden from the slash
+ * command dropdown, disabled agents from @-mentions, and a PreToolUse hook denies
+ * disabled agents, skills and MCP server tools when the model calls them anyway.
+ */
+
+import type { ClaudianPlugin, DisabledPluginComponents, PluginComponentType } from '../types';
+
+/** Disabled components of enabled plugins, in the form tool calls refer to them. */
+export interface DisabledPluginTools {
+  /** Subagent types, e.g. "my-plugin:reviewer". */
+  agents: Set<string>;
+  /** Skill names, e.g. "my-plugin:linting". */
+  skills: Set<string>;
+  /** Tool name prefixes of disabled plugin MCP servers. */
+  mcpToolPrefixes: string[];
+}
+
+/** Agent ids as AgentManager namespaces them: "plugin-name:agent-name". */
+export function getPluginAgentId(pluginName: string, agentName: string): string {
+  return `${pluginName.toLowerCase().replace(/\s+/g, '-')}:${agentName}`;
+}
+
+/** Plugin commands and skills appear in the SDK's command list as "plugin-name:name". */
+export function getPluginCommandName(pluginName: string, name: string): string {
+  return `${pluginName}:${name}`;
+}
+
+/** The CLI registers plugin servers as `plugin_<plugin>_<server>`, so their tools are `mcp__plugin_<plugin>_<server>__*`. */
+export function getPluginMcpToolPrefix(pluginName: string, serverName: string): string {
+  const normalize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `mcp__plugin_${normalize(pluginName)}_${normalize(serverName)}__`;
+}
+
+export function isPluginComponentDisabled(
+  disabled: Record<string, DisabledPluginComponents> | undefined,
+  pluginId: string,
+  type: PluginComponentType,
+  name: string
+): boolean {
+  return disabled?.[pluginId]?.[type]?.includes(name) ?? false;
+}
+
+/** Returns an updated copy, dropping lists and plugins left without disabled components. */
+export function setPluginComponentDisabled(
+  disabled: Record<string, DisabledPluginComponents> | undefined,
+  pluginId: string,
+  type: PluginComponentType,
+  name: string,
+  isDisabled: boolean
+): Record<string, DisabledPluginComponents> {
+  const result = { ...disabled };
+  const components = { ...result[pluginId] };
+  const names = (components[type] ?? []).filter((n) => n !== name);
+  if (isDisabled) names.push(name);
+
+  if (names.length > 0) {
+    components[type] = names.sort();
+  } else {
+    delete components[type];
+  }
+
+  if (Object.keys(components).length > 0) {
+    result[pluginId] = components;
+  } else {
+    delete result[pluginId];
+  }
+  return result;
+}
+
+/** Slash command names of disabled plugin commands and skills, lowercased like the dropdown's hidden list. */
+export function getDisabledPluginCommandNames(
+  disabled: Record<string, DisabledPluginComponents> | undefined,
+  plugins: ClaudianPlugin[]
+): string[] {
+  const names: string[] = [];
+  for (const plugin of plugins) {
+    const components = disabled?.[plugin.id];
+    if (!components) continue;
+    for (const name of [...(components.commands ?? []), ...(components.skills ?? [])]) {
+      names.push(getPluginCommandName(plugin.name, name).toLowerCase());
+    }
+  }
+  return names;
+}
+
+export function resolveDisabledPluginTools(
+  disabled: Record<string, DisabledPluginComponents> | undefined,
+  plugins: ClaudianPlugin[]
+): DisabledPluginTools {
+  const result: DisabledPluginTools = { agents: new Set(), skills: new Set(), mcpToolPrefixes: [] };
+  for (const plugin of plugins) {
+    const components = disabled?.[plugin.id];
+    if (!plugin.enabled || !components) continue;
+
+    for (const name of components.agents ?? []) {
+      result.agents.add(getPluginAgentId(plugin.name, name));
+    }
+    for (const name of components.skills ?? []) {
+      result.skills.add(getPluginCommandName(plugin.name, name));
+    }
+    for (const name of components.mcpServers ?? []) {
+      result.mcpToolPrefixes.push(getPluginMcpToolPrefix(plugin.name, name));
+    }
+  }
+  return result;
+}
@@ -32,7 +32,7 @@ function readJsonFile<T>(filePath: string): T | null {
   }
 }
 
-function normalizePathForComparison(p: string): string {
+export function normalizePathForComparison(p: string): string {
   try {
     const resolved = fs.realpathSync(p);
     if (typeof resolved === 'string' && resolved.length > 0) {
@@ -0,0 +1,563 @@
+/**
+ * PluginMarketplace - Install, update and uninstall plugins from marketplaces.
+ *
+ * Reads and writes the same files as the CLI's `/plugin` command, so plugins
+ * installed here show up in the CLI and vice versa:
+ * - known_marketplaces.json: marketplace sources and where they are checked out
+ * - installed_plugins.json: install path per plugin and scope (read by PluginManager)
+ * - cache/<marketplace>/<plugin>/<version>: copy of the installed plugin
+ *
+ * A marketplace is a local directory or git repository containing
+ * `.claude-plugin/marketplace.json`.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { getEnhancedPath } from '../../utils/env';
+import { expandHomePath } from '../../utils/path';
+import type { InstalledPluginEntry, InstalledPluginsFile, PluginScope } from '../types';
+import { normalizePathForComparison } from './PluginManager';
+
+const PLUGINS_DIR = path.join(os.homedir(), '.claude', 'plugins');
+const INSTALLED_PLUGINS_PATH = path.join(PLUGINS_DIR, 'installed_plugins.json');
+const KNOWN_MARKETPLACES_PATH = path.join(PLUGINS_DIR, 'known_marketplaces.json');
+const MARKETPLACES_DIR = path.join(PLUGINS_DIR, 'marketplaces');
+const CACHE_DIR = path.join(PLUGINS_DIR, 'cache');
+
+const MARKETPLACE_MANIFEST = path.join('.claude-plugin', 'marketplace.json');
+const PLUGIN_MANIFEST = path.join('.claude-plugin', 'plugin.json');
+const INSTALLED_PLUGINS_VERSION = 2;
+const GIT_TIMEOUT = 120_000;
+
+/**
+ * Marketplace names, plugin names and versions become directory names, so they are restricted.
+ * The leading alphanumeric rules out `.` and `..`.
+ */
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+
+/** Remote URLs git may clone; anything else could be read as an option or a local transport. */
+const GIT_URL_PATTERN = /^(https:\/\/|ssh:\/\/|git@)/;
+
+/** GitHub `owner/repo`; the repo may start with a dot (`.github`) but may not be `.` or `..`. */
+const GITHUB_REPO_PATTERN = /^[\w-]+\/(?!\.\.?$)[\w.-]+$/;
+
+export type MarketplaceSource =
+  | { source: 'directory'; path: string }
+  | { source: 'git'; url: string }
+  | { source: 'github'; repo: string };
+
+export interface KnownMarketplaceEntry {
+  source: MarketplaceSource;
+  installLocation: string;
+  lastUpdated: string;
+}
+
+export type KnownMarketplacesFile = Record<string, KnownMarketplaceEntry>;
+
+/** Components a plugin provides, by name. */
+export interface PluginContents {
+  agents: string[];
+  commands: string[];
+  skills: string[];
+  /** Hook events, e.g. "PreToolUse". */
+  hooks: string[];
+  mcpServers: string[];
+}
+
+export interface MarketplacePlugin {
+  /** `name@marketplace`, the id used by installed_plugins.json and `enabledPlugins`. */
+  id: string;
+  name: string;
+  marketplace: string;
+  description?: string;
+  version?: string;
+  author?: string;
+  /** Plugin directory inside the marketplace checkout. */
+  sourcePath?: string;
+  /** Git URL of a plugin hosted outside the marketplace. */
+  gitUrl?: string;
+  /** Null for plugins hosted elsewhere, which are only fetched (and previewed) on install. */
+  contents: PluginContents | null;
+}
+
+export interface Marketplace extends KnownMarketplaceEntry {
+  name: string;
+  description?: string;
+  plugins: MarketplacePlugin[];
+  /** Set when the manifest could not be read; `plugins` is empty then. */
+  error?: string;
+}
+
+/**
+ * Asked with the contents of a plugin fetched from outside its marketplace before it is installed.
+ * Resolving false cancels the install.
+ */
+export type ConfirmPluginContents = (plugin: MarketplacePlugin, contents: PluginContents) => Promise<boolean>;
+
+/** Runs git with the given arguments and resolves with its trimmed stdout. */
+export type GitRunner = (args: string[], cwd?: string) => Promise<string>;
+
+const runGit: GitRunner = (args, cwd) => new Promise((resolve, reject) => {
+  execFile('git', args, {
+    cwd,
+    env: { ...process.env, PATH: getEnhancedPath() },
+    timeout: GIT_TIMEOUT,
+    windowsHide: true,
+  }, (error, stdout, stderr) => {
+    if (error) {
+      reject(new Error(String(stderr).trim() || error.message));
+      return;
+    }
+    resolve(String(stdout).trim());
+  });
+});
+
+function readJsonFile<T>(filePath: string): T | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+function isInside(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Joins path segments under a managed directory, throwing when the result
+ * would not be a directory strictly inside it.
+ */
+function managedPath(root: string, ...segments: string[]): string {
+  const target = path.join(root, ...segments);
+  if (!isInside(root, target) || path.relative(root, target) !== segments.join(path.sep)) {
+    throw new Error(`Refusing to write outside ${root}: ${target}`);
+  }
+  return target;
+}
+
+/** Removes a directory Claudian created under ~/.claude/plugins; anything else is left alone. */
+function removeManagedDir(dir: string): void {
+  if (isInside(MARKETPLACES_DIR, dir) || isInside(CACHE_DIR, dir)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Parses what the user typed when adding a marketplace:
+ * an absolute or `~` path, an https, ssh or `git@` URL, or a GitHub `owner/repo`.
+ */
+export function parseMarketplaceSource(input: string): MarketplaceSource {
+  const value = input.trim();
+  if (GIT_URL_PATTERN.test(value)) {
+    return { source: 'git', url: value };
+  }
+
+  const expanded = expandHomePath(value);
+  if (path.isAbsolute(expanded)) {
+    return { source: 'directory', path: expanded };
+  }
+
+  if (GITHUB_REPO_PATTERN.test(value)) {
+    return { source: 'github', repo: value };
+  }
+
+  throw new Error('Enter an absolute directory path, an https or ssh git URL, or a GitHub owner/repo');
+}
+
+export function formatMarketplaceSource(source: MarketplaceSource): string {
+  switch (source.source) {
+    case 'directory': return source.path;
+    case 'git': return source.url;
+    case 'github': return source.repo;
+  }
+}
+
+function getGitUrl(source: Exclude<MarketplaceSource, { source: 'directory' }>): string {
+  return source.source === 'git' ? source.url : `https://github.com/${source.repo}.git`;
+}
+
+function listMarkdownNames(dir: string, nested: boolean, prefix = ''): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const names: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory() && nested) {
+      // Commands in subdirectories are namespaced as `dir:name`
+      names.push(...listMarkdownNames(path.join(dir, entry.name), nested, `${prefix}${entry.name}:`));
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      names.push(prefix + entry.name.slice(0, -'.md'.length));
+    }
+  }
+  return names.sort();
+}
+
+function listHookEvents(pluginDir: string): string[] {
+  const hooksFile = readJsonFile<{ hooks?: Record<string, unknown> }>(path.join(pluginDir, 'hooks', 'hooks.json'));
+  const manifest = readJsonFile<{ hooks?: unknown }>(path.join(pluginDir, PLUGIN_MANIFEST));
+  const inlineHooks = manifest?.hooks && typeof manifest.hooks === 'object'
+    ? (manifest.hooks as { hooks?: Record<string, unknown> }).hooks
+    : undefined;
+
+  const events = new Set([...Object.keys(hooksFile?.hooks ?? {}), ...Object.keys(inlineHooks ?? {})]);
+  return [...events].sort();
+}
+
+/** Servers from the plugin's `.mcp.json`, or from `mcpServers` in plugin.json (inline or a file path). */
+function listMcpServers(pluginDir: string): string[] {
+  const manifest = readJsonFile<{ mcpServers?: unknown }>(path.join(pluginDir, PLUGIN_MANIFEST));
+  let servers: unknown = readJsonFile<{ mcpServers?: unknown }>(path.join(pluginDir, '.mcp.json'))?.mcpServers;
+  if (typeof manifest?.mcpServers === 'string') {
+    const configPath = path.resolve(pluginDir, manifest.mcpServers);
+    const config = isInside(pluginDir, configPath) ? readJsonFile<Record<string, unknown>>(configPath) : null;
+    servers = config?.mcpServers ?? config;
+  } else if (manifest?.mcpServers && typeof manifest.mcpServers === 'object') {
+    servers = manifest.mcpServers;
+  }
+
+  return servers && typeof servers === 'object' && !Array.isArray(servers) ? Object.keys(servers).sort() : [];
+}
+
+/** Lists the agents, slash commands, skills, hook events and MCP servers in a plugin directory. */
+export function scanPluginContents(pluginDir: string): PluginContents {
+  const skillsDir = path.join(pluginDir, 'skills');
+  const skills = fs.existsSync(skillsDir)
+    ? fs.readdirSync(skillsDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(skillsDir, entry.name, 'SKILL.md')))
+      .map((entry) => entry.name)
+      .sort()
+    : [];
+
+  return {
+    agents: listMarkdownNames(path.join(pluginDir, 'agents'), false),
+    commands: listMarkdownNames(path.join(pluginDir, 'commands'), true),
+    skills,
+    hooks: listHookEvents(pluginDir),
+    mcpServers: listMcpServers(pluginDir),
+  };
+}
+
+interface MarketplaceManifest {
+  name?: unknown;
+  description?: unknown;
+  metadata?: { description?: unknown; pluginRoot?: unknown };
+  plugins?: unknown;
+}
+
+interface MarketplacePluginEntry {
+  name?: unknown;
+  source?: unknown;
+  description?: unknown;
+  version?: unknown;
+  author?: unknown;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function parsePluginEntry(
+  entry: MarketplacePluginEntry,
+  marketplace: string,
+  root: string,
+  pluginRoot: string | undefined
+): MarketplacePlugin | null {
+  const name = optionalString(entry.name);
+  if (!name || !NAME_PATTERN.test(name)) return null;
+
+  const author = typeof entry.author === 'object' && entry.author
+    ? optionalString((entry.author as { name?: unknown }).name)
+    : optionalString(entry.author);
+  const plugin: MarketplacePlugin = {
+    id: `${name}@${marketplace}`,
+    name,
+    marketplace,
+    description: optionalString(entry.description),
+    version: optionalString(entry.version),
+    author,
+    contents: null,
+  };
+
+  if (typeof entry.source === 'string') {
+    // Bare names are relative to metadata.pluginRoot; `./` paths to the marketplace root
+    const base = pluginRoot && !entry.source.startsWith('.') ? path.resolve(root, pluginRoot) : root;
+    const sourcePath = path.resolve(base, entry.source);
+    if (sourcePath !== root && !isInside(root, sourcePath)) return null;
+    if (!fs.existsSync(sourcePath)) return null;
+    plugin.sourcePath = sourcePath;
+    plugin.contents = scanPluginContents(sourcePath);
+    const manifest = readJsonFile<{ version?: unknown; description?: unknown }>(path.join(sourcePath, PLUGIN_MANIFEST));
+    plugin.version ??= optionalString(manifest?.version);
+    plugin.description ??= optionalString(manifest?.description);
+    return plugin;
+  }
+
+  if (typeof entry.source === 'object' && entry.source) {
+    const source = entry.source as { source?: unknown; repo?: unknown; url?: unknown };
+    if (source.source === 'github' && typeof source.repo === 'string' && GITHUB_REPO_PATTERN.test(source.repo)) {
+      plugin.gitUrl = `https://github.com/${source.repo}.git`;
+      return plugin;
+    }
+    if ((source.source === 'url' || source.source === 'git') && typeof source.url === 'string' && GIT_URL_PATTERN.test(source.url)) {
+      plugin.gitUrl = source.url;
+      return plugin;
+    }
+  }
+
+  return null;
+}
+
+/** Reads `.claude-plugin/marketplace.json` in a marketplace checkout. Throws when it is missing or invalid. */
+export function readMarketplaceManifest(root: string): { name: string; description?: string; plugins: MarketplacePlugin[] } {
+  const manifest = readJsonFile<MarketplaceManifest>(path.join(root, MARKETPLACE_MANIFEST));
+  if (!manifest || typeof manifest !== 'object') {
+    throw new Error(`No ${MARKETPLACE_MANIFEST} found in ${root}`);
+  }
+
+  const name = optionalString(manifest.name);
+  if (!name || !NAME_PATTERN.test(name)) {
+    throw new Error('Marketplace manifest has no valid name');
+  }
+
+  const pluginRoot = optionalString(manifest.metadata?.pluginRoot);
+  const entries = Array.isArray(manifest.plugins) ? manifest.plugins as MarketplacePluginEntry[] : [];
+  const plugins = entries
+    .map((entry) => entry && typeof entry === 'object' ? parsePluginEntry(entry, name, root, pluginRoot) : null)
+    .filter((plugin): plugin is MarketplacePlugin => plugin !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    name,
+    description: optionalString(manifest.description) ?? optionalString(manifest.metadata?.description),
+    plugins,
+  };
+}
+
+export class PluginMarketplace {
+  constructor(private vaultPath: string, private git: GitRunner = runGit) {}
+
+  getMarketplaces(): Marketplace[] {
+    const known = readJsonFile<KnownMarketplacesFile>(KNOWN_MARKETPLACES_PATH) ?? {};
+    return Object.entries(known)
+      .map(([name, entry]) => this.loadMarketplace(name, entry))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getMarketplace(name: string): Marketplace | null {
+    const entry = readJsonFile<KnownMarketplacesFile>(KNOWN_MARKETPLACES_PATH)?.[name];
+    return entry ? this.loadMarketplace(name, entry) : null;
+  }
+
+  /** Registers a marketplace, cloning it first when it is a git source. */
+  async addMarketplace(input: string): Promise<Marketplace> {
+    const source = parseMarketplaceSource(input);
+    const known = readJsonFile<KnownMarketplacesFile>(KNOWN_MARKETPLACES_PATH) ?? {};
+
+    let installLocation: string;
+    let name: string;
+    if (source.source === 'directory') {
+      installLocation = source.path;
+      name = readMarketplaceManifest(installLocation).name;
+      if (known[name]) {
+        throw new Error(`Marketplace "${name}" is already added`);
+      }
+    } else {
+      // The name comes from the manifest, so clone to a temporary directory first
+      fs.mkdirSync(MARKETPLACES_DIR, { recursive: true });
+      const checkout = fs.mkdtempSync(path.join(MARKETPLACES_DIR, '.clone-'));
+      try {
+        await this.git(['clone', '--depth', '1', '--', getGitUrl(source), checkout]);
+        name = readMarketplaceManifest(checkout).name;
+        if (known[name]) {
+          throw new Error(`Marketplace "${name}" is already added`);
+        }
+        installLocation = managedPath(MARKETPLACES_DIR, name);
+        fs.rmSync(installLocation, { recursive: true, force: true });
+        fs.renameSync(checkout, installLocation);
+      } catch (error) {
+        removeManagedDir(checkout);
+        throw error;
+      }
+    }
+
+    const entry: KnownMarketplaceEntry = { source, installLocation, lastUpdated: new Date().toISOString() };
+    writeJsonFile(KNOWN_MARKETPLACES_PATH, { ...known, [name]: entry });
+    return this.loadMarketplace(name, entry);
+  }
+
+  /** Pulls the latest manifest for git marketplaces; local directories are always current. */
+  async updateMarketplace(name: string): Promise<Marketplace> {
+    const known = readJsonFile<KnownMarketplacesFile>(KNOWN_MARKETPLACES_PATH) ?? {};
+    const entry = known[name];
+    if (!entry) {
+      throw new Error(`Unknown marketplace "${name}"`);
+    }
+
+    if (entry.source.source !== 'directory') {
+      await this.git(['pull', '--ff-only'], entry.installLocation);
+    }
+
+    const updated = { ...entry, lastUpdated: new Date().toISOString() };
+    writeJsonFile(KNOWN_MARKETPLACES_PATH, { ...known, [name]: updated });
+    return this.loadMarketplace(name, updated);
+  }
+
+  /** Forgets a marketplace and deletes its checkout. Installed plugins stay installed. */
+  removeMarketplace(name: string): void {
+    const known = readJsonFile<KnownMarketplacesFile>(KNOWN_MARKETPLACES_PATH) ?? {};
+    const entry = known[name];
+    if (!entry) return;
+
+    delete known[name];
+    writeJsonFile(KNOWN_MARKETPLACES_PATH, known);
+    removeManagedDir(entry.installLocation);
+  }
+
+  /** The install of a plugin that applies to this vault in the given scope. */
+  getInstalledEntry(pluginId: string, scope: PluginScope): InstalledPluginEntry | null {
+    const entries = this.readInstalledPlugins().plugins[pluginId] ?? [];
+    return entries.find((entry) => this.matchesScope(entry, scope)) ?? null;
+  }
+
+  /**
+   * Copies a plugin into the plugin cache and records it in installed_plugins.json. Reinstalling updates it.
+   * Plugins hosted outside the marketplace are cloned first and passed to `confirmContents`;
+   * resolves null when that declines.
+   */
+  async installPlugin(
+    plugin: MarketplacePlugin,
+    scope: PluginScope,
+    confirmContents?: ConfirmPluginContents
+  ): Promise<InstalledPluginEntry | null> {
+    let sourceDir = plugin.sourcePath;
+    let tempDir: string | null = null;
+
+    try {
+      if (!sourceDir) {
+        if (!plugin.gitUrl) {
+          throw new Error(`Plugin "${plugin.name}" has no source to install from`);
+        }
+        if (!GIT_URL_PATTERN.test(plugin.gitUrl)) {
+          throw new Error(`Plugin "${plugin.name}" has an unsupported git URL`);
+        }
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-plugin-'));
+        await this.git(['clone', '--depth', '1', '--', plugin.gitUrl, tempDir]);
+        sourceDir = tempDir;
+        if (confirmContents && !await confirmContents(plugin, scanPluginContents(sourceDir))) {
+          return null;
+        }
+      }
+
+      const gitCommitSha = await this.git(['rev-parse', 'HEAD'], sourceDir).catch(() => undefined);
+      const manifest = readJsonFile<{ version?: unknown }>(path.join(sourceDir, PLUGIN_MANIFEST));
+      const version = optionalString(manifest?.version) ?? plugin.version ?? gitCommitSha?.slice(0, 12) ?? 'unknown';
+      if (!NAME_PATTERN.test(version)) {
+        throw new Error(`Plugin "${plugin.name}" has an invalid version "${version}"`);
+      }
+
+      const installPath = managedPath(CACHE_DIR, plugin.marketplace, plugin.name, version);
+      fs.rmSync(installPath, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(installPath), { recursive: true });
+      fs.cpSync(sourceDir, installPath, { recursive: true, filter: (src) => path.basename(src) !== '.git' });
+
+      const file = this.readInstalledPlugins();
+      const entries = file.plugins[plugin.id] ?? [];
+      const previous = entries.find((entry) => this.matchesScope(entry, scope));
+      const now = new Date().toISOString();
+      const entry: InstalledPluginEntry = {
+        scope,
+        installPath,
+        version,
+        installedAt: previous?.installedAt ?? now,
+        lastUpdated: now,
+        ...(gitCommitSha ? { gitCommitSha } : {}),
+        ...(scope === 'project' ? { projectPath: this.vaultPath } : {}),
+      };
+      file.plugins[plugin.id] = [...entries.filter((e) => e !== previous), entry];
+      writeJsonFile(INSTALLED_PLUGINS_PATH, file);
+
+      if (previous && previous.installPath !== installPath) {
+        this.removeUnusedInstall(file, previous.installPath);
+      }
+      return entry;
+    } finally {
+      if (tempDir) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /** Refreshes the plugin's marketplace and reinstalls the plugin from it. */
+  async updatePlugin(
+    pluginId: string,
+    scope: PluginScope,
+    confirmContents?: ConfirmPluginContents
+  ): Promise<InstalledPluginEntry | null> {
+    const marketplaceName = pluginId.slice(pluginId.indexOf('@') + 1);
+    const marketplace = await this.updateMarketplace(marketplaceName);
+    const plugin = marketplace.plugins.find((p) => p.id === pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin "${pluginId}" is no longer listed in marketplace "${marketplaceName}"`);
+    }
+    return this.installPlugin(plugin, scope, confirmContents);
+  }
+
+  /** Removes the install for this scope and deletes its cached copy once nothing else uses it. */
+  uninstallPlugin(pluginId: string, scope: PluginScope): void {
+    const file = this.readInstalledPlugins();
+    const entries = file.plugins[pluginId] ?? [];
+    const removed = entries.find((entry) => this.matchesScope(entry, scope));
+    if (!removed) return;
+
+    const remaining = entries.filter((entry) => entry !== removed);
+    if (remaining.length > 0) {
+      file.plugins[pluginId] = remaining;
+    } else {
+      delete file.plugins[pluginId];
+    }
+    writeJsonFile(INSTALLED_PLUGINS_PATH, file);
+    this.removeUnusedInstall(file, removed.installPath);
+  }
+
+  private loadMarketplace(name: string, entry: KnownMarketplaceEntry): Marketplace {
+    try {
+      const manifest = readMarketplaceManifest(entry.installLocation);
+      return { ...entry, name, description: manifest.description, plugins: manifest.plugins };
+    } catch (error) {
+      return { ...entry, name, plugins: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private readInstalledPlugins(): InstalledPluginsFile {
+    const file = readJsonFile<InstalledPluginsFile>(INSTALLED_PLUGINS_PATH);
+    return {
+      version: file?.version ?? INSTALLED_PLUGINS_VERSION,
+      plugins: file?.plugins && typeof file.plugins === 'object' ? file.plugins : {},
+    };
+  }
+
+  private matchesScope(entry: InstalledPluginEntry, scope: PluginScope): boolean {
+    if (entry.scope !== scope) return false;
+    if (scope === 'user') return true;
+    return !!entry.projectPath
+      && normalizePathForComparison(entry.projectPath) === normalizePathForComparison(this.vaultPath);
+  }
+
+  private removeUnusedInstall(file: InstalledPluginsFile, installPath: string): void {
+    const stillUsed = Object.values(file.plugins).some((entries) => entries.some((e) => e.installPath === installPath));
+    if (!stillUsed) {
+      removeManagedDir(installPath);
+    }
+  }
+}
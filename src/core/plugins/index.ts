@@ -1 +1,26 @@
+export {
+  type DisabledPluginTools,
+  getDisabledPluginCommandNames,
+  getPluginAgentId,
+  getPluginCommandName,
+  getPluginMcpToolPrefix,
+  isPluginComponentDisabled,
+  resolveDisabledPluginTools,
+  setPluginComponentDisabled,
+} from './PluginComponents';
 export { PluginManager } from './PluginManager';
+export {
+  type ConfirmPluginContents,
+  formatMarketplaceSource,
+  type GitRunner,
+  type KnownMarketplaceEntry,
+  type KnownMarketplacesFile,
+  type Marketplace,
+  type MarketplacePlugin,
+  type MarketplaceSource,
+  parseMarketplaceSource,
+  type PluginContents,
+  PluginMarketplace,
+  readMarketplaceManifest,
+  scanPluginContents,
+} from './PluginMarketplace';
@@ -0,0 +1,89 @@
+/**
+ * BackgroundQueryRunner - Executes a prompt as an unattended cold-start query.
+ *
+ * Used by scheduled tasks and vault triggers. Each run gets its own conversation
+ * so the transcript shows up in history. Messages live in the SDK session; only
+ * metadata is saved here. There is no approval handler, so tools that need
+ * approval are denied unless the run uses YOLO mode.
+ */
+
+import type ClaudianPlugin from '../../main';
+import { ClaudianService } from '../agent';
+import type { Conversation, ConversationCost, PermissionMode, UsageInfo } from '../types';
+import { applyTurnCost } from '../usage';
+
+export interface BackgroundQueryRequest {
+  prompt: string;
+  permissionMode: PermissionMode;
+  model?: string;
+  /** Title of the run conversation. */
+  title: string;
+  /** Extra conversation fields, e.g. the task or trigger that started the run. */
+  conversation?: Partial<Conversation>;
+}
+
+/** Outcome of a scheduled task or vault trigger run, recorded in its run log. */
+export interface BackgroundQueryResult {
+  /** Conversation holding the run transcript; unset when the run could not start. */
+  conversationId?: string;
+  error?: string;
+}
+
+export class BackgroundQueryRunner {
+  private activeServices = new Set<ClaudianService>();
+
+  constructor(private plugin: ClaudianPlugin) {}
+
+  async run(request: BackgroundQueryRequest): Promise<BackgroundQueryResult> {
+    const conversation = await this.plugin.createConversation();
+    const service = new ClaudianService(this.plugin, this.plugin.mcpManager);
+    this.activeServices.add(service);
+
+    let usage: UsageInfo | undefined;
+    let cost: ConversationCost | undefined;
+    let error: string | undefined;
+
+    try {
+      for await (const chunk of service.query(request.prompt, undefined, undefined, {
+        forceColdStart: true,
+        permissionMode: request.permissionMode,
+        model: request.model,
+        conversationId: conversation.id,
+      })) {
+        if (chunk.type === 'usage') {
+          usage = chunk.usage;
+        } else if (chunk.type === 'cost') {
+          cost = applyTurnCost(cost, chunk.cost, Date.now());
+        } else if (chunk.type === 'error') {
+          error = chunk.content;
+        }
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const sessionId = service.getSessionId();
+    service.cleanup();
+    this.activeServices.delete(service);
+
+    await this.plugin.updateConversation(conversation.id, {
+      ...request.conversation,
+      title: request.title,
+      sessionId,
+      sdkSessionId: sessionId ?? undefined,
+      usage,
+      cost,
+      lastResponseAt: Date.now(),
+    });
+
+    return { conversationId: conversation.id, error };
+  }
+
+  /** Cancels in-flight runs (plugin unload). */
+  cancelAll(): void {
+    for (const service of this.activeServices) {
+      service.cleanup();
+    }
+    this.activeServices.clear();
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * TaskScheduler - Decides when scheduled tasks are due and records their runs.
+ *
+ * Runs execute one at a time in the order they became due. A run missed while
+ * Obsidian was closed fires once on the next tick; older misses are not replayed.
+ */
+
+import { MAX_TASK_RUNS } from '../storage/ScheduledTaskStorage';
+import type { ScheduledTask, ScheduledTaskRun } from '../types';
+import type { BackgroundQueryResult } from './BackgroundQueryRunner';
+import { getNextRunTime, parseCron } from './cron';
+
+/** How often the scheduler checks for due tasks. */
+export const SCHEDULER_TICK_INTERVAL = 60_000;
+
+export interface TaskSchedulerDeps {
+  load: () => Promise<ScheduledTask[]>;
+  save: (tasks: ScheduledTask[]) => Promise<void>;
+  runTask: (task: ScheduledTask, trigger: ScheduledTaskRun['trigger']) => Promise<BackgroundQueryResult>;
+  now?: () => number;
+}
+
+/** Returns the next time the task is due, or null for an invalid or exhausted schedule. */
+export function getNextRunAt(task: ScheduledTask): number | null {
+  try {
+    return getNextRunTime(parseCron(task.schedule), task.lastScheduledAt ?? task.createdAt);
+  } catch {
+    return null;
+  }
+}
+
+export class TaskScheduler {
+  private tasks: ScheduledTask[] = [];
+  private running = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private deps: TaskSchedulerDeps) {}
+
+  async load(): Promise<void> {
+    this.tasks = await this.deps.load();
+  }
+
+  /** Starts checking for due tasks every minute. Missed runs fire on the first check. */
+  start(): void {
+    this.stop();
+    this.tickInterval = setInterval(() => void this.tick(), SCHEDULER_TICK_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  getTasks(): ScheduledTask[] {
+    return this.tasks;
+  }
+
+  getTask(id: string): ScheduledTask | undefined {
+    return this.tasks.find(t => t.id === id);
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /** Registers a listener for task and run changes. Returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Adds or updates a task. The run log is kept on update, and the schedule restarts
+   * from now when it changes or the task is re-enabled so no stale run fires at once.
+   */
+  async saveTask(task: ScheduledTask): Promise<void> {
+    const existing = this.getTask(task.id);
+    if (!existing) {
+      this.tasks.push({ ...task, runs: task.runs ?? [] });
+    } else {
+      const restart = existing.schedule !== task.schedule || (!existing.enabled && task.enabled);
+      Object.assign(existing, task, {
+        runs: existing.runs,
+        lastScheduledAt: restart ? this.now() : existing.lastScheduledAt,
+      });
+    }
+    await this.persist();
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    this.tasks = this.tasks.filter(t => t.id !== id);
+    await this.persist();
+  }
+
+  /** Queues a manual run. Resolves when the run finishes. */
+  runNow(id: string): Promise<void> {
+    const task = this.getTask(id);
+    if (!task || this.running.has(id)) return Promise.resolve();
+    return this.enqueue(task, 'manual');
+  }
+
+  /** Queues every enabled task that is due. Resolves when the queued runs finish. */
+  async tick(now = this.now()): Promise<void> {
+    const due: ScheduledTask[] = [];
+    for (const task of this.tasks) {
+      if (!task.enabled || this.running.has(task.id)) continue;
+      const nextRunAt = getNextRunAt(task);
+      if (nextRunAt !== null && nextRunAt <= now) {
+        // Anchor at now so runs missed while closed collapse into this one
+        task.lastScheduledAt = now;
+        due.push(task);
+      }
+    }
+
+    if (due.length === 0) return;
+    await this.persist();
+    await Promise.all(due.map(task => this.enqueue(task, 'schedule')));
+  }
+
+  private enqueue(task: ScheduledTask, trigger: ScheduledTaskRun['trigger']): Promise<void> {
+    this.running.add(task.id);
+    this.notify();
+    const run = this.queue.then(() => this.execute(task, trigger));
+    this.queue = run;
+    return run;
+  }
+
+  private async execute(task: ScheduledTask, trigger: ScheduledTaskRun['trigger']): Promise<void> {
+    const run: ScheduledTaskRun = { startedAt: this.now(), status: 'running', trigger };
+    task.runs = [run, ...task.runs].slice(0, MAX_TASK_RUNS);
+    await this.persist();
+
+    try {
+      const result = await this.deps.runTask(task, trigger);
+      run.conversationId = result.conversationId;
+      run.status = result.error ? 'error' : 'success';
+      run.error = result.error;
+    } catch (error) {
+      run.status = 'error';
+      run.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      run.finishedAt = this.now();
+      this.running.delete(task.id);
+    }
+
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.deps.save(this.tasks);
+    } catch {
+      // Non-critical: the in-memory state stays authoritative until the next save
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try { listener(); } catch { /* non-critical */ }
+    }
+  }
+
+  private now(): number {
+    return this.deps.now?.() ?? Date.now();
+  }
+}
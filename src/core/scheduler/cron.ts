@@ -0,0 +1,168 @@
+/**
+ * Cron - Minimal five-field cron parser (minute hour day-of-month month day-of-week).
+ *
+ * Supports `*`, numbers, ranges (`1-5`), lists (`1,15`), steps (`*\/15`, `0-30/10`),
+ * and the shorthands @hourly, @daily, @weekly, @monthly. Times are local.
+ * Day-of-week accepts 0-7 (0 and 7 are Sunday). As in standard cron, when both
+ * day-of-month and day-of-week are restricted, a day matching either runs.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when day-of-month is not `*`. */
+  restrictsDayOfMonth: boolean;
+  /** True when day-of-week is not `*`. */
+  restrictsDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+/** How far ahead getNextRunTime searches before giving up (e.g. "0 0 31 2 *"). */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseNumber(value: string, field: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${FIELD_NAMES[field]} value "${value}"`);
+  }
+  const n = parseInt(value, 10);
+  const [min, max] = FIELD_RANGES[field];
+  if (n < min || n > max) {
+    throw new Error(`${FIELD_NAMES[field]} value ${n} is out of range ${min}-${max}`);
+  }
+  return n;
+}
+
+function parseField(expression: string, field: number): Set<number> {
+  const [min, max] = FIELD_RANGES[field];
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (stepPart !== undefined && (!/^\d+$/.test(stepPart) || step < 1)) {
+      throw new Error(`Invalid ${FIELD_NAMES[field]} step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${FIELD_NAMES[field]} range "${rangePart}"`);
+      }
+    } else {
+      start = parseNumber(rangePart, field);
+      end = stepPart === undefined ? start : max;
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+}
+
+/** Parses a cron expression. Throws with a readable message when invalid. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = SHORTHANDS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Expected 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const daysOfWeek = parseField(fields[4], 4);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(fields[0], 0),
+    hours: parseField(fields[1], 1),
+    daysOfMonth: parseField(fields[2], 2),
+    months: parseField(fields[3], 3),
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+/** Returns an error message for an invalid expression, or null when valid. */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Returns the first matching time strictly after `after` (ms), or null if none
+ * occurs within the search window.
+ */
+export function getNextRunTime(schedule: CronSchedule, after: number): number | null {
+  const start = new Date(after);
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (matchesDay(schedule, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          // DST gaps can shift the hour; skip times that do not exist as written
+          if (candidate.getHours() !== hour) continue;
+          if (candidate.getTime() >= start.getTime()) {
+            return candidate.getTime();
+          }
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return null;
+}
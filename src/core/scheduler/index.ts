@@ -0,0 +1,12 @@
+export {
+  type BackgroundQueryRequest,
+  type BackgroundQueryResult,
+  BackgroundQueryRunner,
+} from './BackgroundQueryRunner';
+export { type CronSchedule, getNextRunTime, parseCron, validateCron } from './cron';
+export {
+  getNextRunAt,
+  SCHEDULER_TICK_INTERVAL,
+  TaskScheduler,
+  type TaskSchedulerDeps,
+} from './TaskScheduler';
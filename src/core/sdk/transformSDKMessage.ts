@@ -13,7 +13,7 @@
  * - 'error' - error messages
  */
 
-import type { SDKMessage, SDKToolUseResult, UsageInfo } from '../types';
+import type { SDKMessage, SDKToolUseResult, TokenTotals, TurnCost, UsageInfo } from '../types';
 import { getContextWindowSize } from '../types';
 import type { TransformEvent } from './types';
 
@@ -174,10 +174,46 @@ export function* transformSDKMessage(
       break;
     }
 
-    case 'result':
-      // Usage is now extracted from assistant messages for accuracy (excludes subagent tokens)
-      // Result message usage is aggregated across main + subagents, causing inaccurate spikes
+    case 'result': {
+      // Context usage is extracted from assistant messages for accuracy (excludes subagent tokens).
+      // Result totals include subagents, which is what we want for cost accounting.
+      // Values are cumulative for the CLI process; callers convert them to per-turn deltas.
+      const modelUsage = message.modelUsage ?? {};
+      if (message.total_cost_usd === undefined && Object.keys(modelUsage).length === 0) {
+        break;
+      }
+
+      const byModel: Record<string, TokenTotals> = {};
+      const totals: TokenTotals = {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 0,
+      };
+      for (const [model, usage] of Object.entries(modelUsage)) {
+        const modelTotals: TokenTotals = {
+          inputTokens: usage.inputTokens ?? 0,
+          outputTokens: usage.outputTokens ?? 0,
+          cacheCreationInputTokens: usage.cacheCreationInputTokens ?? 0,
+          cacheReadInputTokens: usage.cacheReadInputTokens ?? 0,
+          costUsd: usage.costUSD ?? 0,
+        };
+        byModel[model] = modelTotals;
+        totals.inputTokens += modelTotals.inputTokens;
+        totals.outputTokens += modelTotals.outputTokens;
+        totals.cacheCreationInputTokens += modelTotals.cacheCreationInputTokens;
+        totals.cacheReadInputTokens += modelTotals.cacheReadInputTokens;
+        totals.costUsd += modelTotals.costUsd;
+      }
+      if (message.total_cost_usd !== undefined) {
+        totals.costUsd = message.total_cost_usd;
+      }
+
+      const cost: TurnCost = { totals, byModel };
+      yield { type: 'cost', cost };
       break;
+    }
 
     case 'error':
       if (message.error) {
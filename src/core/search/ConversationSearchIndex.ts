@@ -0,0 +1,344 @@
+/**
+ * ConversationSearchIndex - Full-text search across conversation history.
+ *
+ * Indexes conversation titles, message text, and tool inputs for both legacy
+ * JSONL sessions and SDK-native sessions. The index is built incrementally:
+ * each conversation carries a signature (derived from its timestamps), and
+ * only conversations whose signature changed are re-read on refresh.
+ */
+
+import type { ChatMessage } from '../types';
+
+/** Which part of a conversation a search document was extracted from. */
+export type SearchFieldKind = 'title' | 'message' | 'tool';
+
+/** Minimal conversation info needed to decide whether to (re)index. */
+export interface SearchableConversation {
+  id: string;
+  title: string;
+  /** Changes whenever the conversation content or title changes. */
+  signature: string;
+}
+
+/** Provides conversations and their messages to the index. */
+export interface ConversationSearchSource {
+  /** Lists conversations, most recent first. Order is used as a ranking tie-breaker. */
+  listConversations(): SearchableConversation[];
+  loadMessages(conversationId: string): Promise<ChatMessage[]>;
+}
+
+/** A single searchable unit of text. */
+export interface SearchDocument {
+  field: SearchFieldKind;
+  text: string;
+  messageId?: string;
+  role?: ChatMessage['role'];
+  toolName?: string;
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchMatch {
+  field: SearchFieldKind;
+  snippet: SearchSnippet;
+  messageId?: string;
+  role?: ChatMessage['role'];
+  toolName?: string;
+}
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  title: string;
+  matches: SearchMatch[];
+  score: number;
+}
+
+export interface SearchOptions {
+  /** Maximum conversations returned (default: 50). */
+  limit?: number;
+  /** Maximum matches kept per conversation (default: 3). */
+  maxMatchesPerConversation?: number;
+}
+
+interface IndexedDocument extends SearchDocument {
+  lowerText: string;
+}
+
+interface IndexEntry {
+  signature: string;
+  title: string;
+  documents: IndexedDocument[];
+}
+
+const DEFAULT_RESULT_LIMIT = 50;
+const DEFAULT_MAX_MATCHES = 3;
+const SNIPPET_RADIUS = 40;
+
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = {
+  title: 5,
+  message: 2,
+  tool: 1,
+};
+
+/**
+ * Splits a query into lowercase terms.
+ * Double-quoted segments are kept together as a single phrase term.
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+}
+
+/** Flattens tool input values into a single searchable string. */
+function flattenToolInput(input: Record<string, unknown>): string {
+  const parts: string[] = [];
+  for (const value of Object.values(input)) {
+    if (typeof value === 'string') {
+      parts.push(value);
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      parts.push(String(value));
+    } else if (value !== null && value !== undefined) {
+      try {
+        parts.push(JSON.stringify(value));
+      } catch {
+        // Skip unserializable values
+      }
+    }
+  }
+  return parts.join(' ');
+}
+
+/** Extracts searchable documents from a conversation's title and messages. */
+export function extractSearchDocuments(title: string, messages: ChatMessage[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  if (title.trim()) {
+    documents.push({ field: 'title', text: title });
+  }
+
+  for (const message of messages) {
+    if (message.isRebuiltContext) continue;
+
+    const text = message.role === 'user'
+      ? (message.displayContent ?? message.content)
+      : message.content;
+
+    if (text && text.trim()) {
+      documents.push({
+        field: 'message',
+        text,
+        messageId: message.id,
+        role: message.role,
+      });
+    }
+
+    for (const toolCall of message.toolCalls ?? []) {
+      const inputText = flattenToolInput(toolCall.input ?? {});
+      if (!inputText.trim()) continue;
+      documents.push({
+        field: 'tool',
+        text: `${toolCall.name}: ${inputText}`,
+        messageId: message.id,
+        role: message.role,
+        toolName: toolCall.name,
+      });
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Builds a snippet around the first occurrence of any term, with highlight
+ * ranges relative to the snippet text. Whitespace runs are collapsed.
+ */
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): SearchSnippet {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const lower = normalized.toLowerCase();
+
+  let firstHit = -1;
+  for (const term of terms) {
+    const idx = lower.indexOf(term);
+    if (idx !== -1 && (firstHit === -1 || idx < firstHit)) {
+      firstHit = idx;
+    }
+  }
+
+  const anchor = Math.max(firstHit, 0);
+  const start = Math.max(0, anchor - radius);
+  const end = Math.min(normalized.length, anchor + radius * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < normalized.length ? '…' : '';
+  const body = normalized.slice(start, end);
+  const snippetText = `${prefix}${body}${suffix}`;
+
+  const ranges: SearchHighlight[] = [];
+  const lowerBody = body.toLowerCase();
+  for (const term of terms) {
+    let idx = lowerBody.indexOf(term);
+    while (idx !== -1) {
+      ranges.push({ start: idx + prefix.length, end: idx + prefix.length + term.length });
+      idx = lowerBody.indexOf(term, idx + term.length);
+    }
+  }
+
+  return { text: snippetText, highlights: mergeHighlights(ranges) };
+}
+
+/** Sorts and merges overlapping highlight ranges. */
+function mergeHighlights(ranges: SearchHighlight[]): SearchHighlight[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+export class ConversationSearchIndex {
+  private source: ConversationSearchSource;
+  private entries = new Map<string, IndexEntry>();
+  private order: string[] = [];
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor(source: ConversationSearchSource) {
+    this.source = source;
+  }
+
+  /**
+   * Brings the index up to date with the source.
+   * Only conversations with a changed signature are re-read; removed
+   * conversations are dropped. Concurrent calls share a single refresh.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /** Forces a conversation to be re-read on the next refresh. */
+  invalidate(conversationId: string): void {
+    this.entries.delete(conversationId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.order = [];
+  }
+
+  /** Number of indexed conversations. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Searches indexed conversations. A document matches when it contains every
+   * query term. Results are ranked by weighted match count, then recency.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<ConversationSearchResult[]> {
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) return [];
+
+    await this.refresh();
+
+    const limit = options.limit ?? DEFAULT_RESULT_LIMIT;
+    const maxMatches = options.maxMatchesPerConversation ?? DEFAULT_MAX_MATCHES;
+    const results: Array<ConversationSearchResult & { rank: number }> = [];
+
+    this.order.forEach((conversationId, rank) => {
+      const entry = this.entries.get(conversationId);
+      if (!entry) return;
+
+      let score = 0;
+      const matches: SearchMatch[] = [];
+
+      for (const doc of entry.documents) {
+        if (!terms.every(term => doc.lowerText.includes(term))) continue;
+
+        score += FIELD_WEIGHTS[doc.field];
+        if (matches.length < maxMatches) {
+          matches.push({
+            field: doc.field,
+            snippet: buildSnippet(doc.text, terms),
+            messageId: doc.messageId,
+            role: doc.role,
+            toolName: doc.toolName,
+          });
+        }
+      }
+
+      if (score > 0) {
+        results.push({ conversationId, title: entry.title, matches, score, rank });
+      }
+    });
+
+    results.sort((a, b) => b.score - a.score || a.rank - b.rank);
+
+    return results.slice(0, limit).map(({ rank: _rank, ...result }) => result);
+  }
+
+  private async doRefresh(): Promise<void> {
+    const conversations = this.source.listConversations();
+    const liveIds = new Set(conversations.map(c => c.id));
+
+    for (const id of [...this.entries.keys()]) {
+      if (!liveIds.has(id)) {
+        this.entries.delete(id);
+      }
+    }
+
+    for (const conversation of conversations) {
+      const existing = this.entries.get(conversation.id);
+      if (existing && existing.signature === conversation.signature) continue;
+
+      let messages: ChatMessage[];
+      try {
+        messages = await this.source.loadMessages(conversation.id);
+      } catch {
+        // Leave the conversation out so it is retried on the next refresh
+        continue;
+      }
+
+      const documents = extractSearchDocuments(conversation.title, messages).map(doc => ({
+        ...doc,
+        lowerText: doc.text.toLowerCase(),
+      }));
+
+      this.entries.set(conversation.id, {
+        signature: conversation.signature,
+        title: conversation.title,
+        documents,
+      });
+    }
+
+    this.order = conversations.map(c => c.id);
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  buildSnippet,
+  ConversationSearchIndex,
+  type ConversationSearchResult,
+  type ConversationSearchSource,
+  extractSearchDocuments,
+  type SearchableConversation,
+  type SearchDocument,
+  type SearchFieldKind,
+  type SearchHighlight,
+  type SearchMatch,
+  type SearchOptions,
+  type SearchSnippet,
+  tokenizeQuery,
+} from './ConversationSearchIndex';
@@ -9,9 +9,12 @@ import {
   TOOL_GREP,
   TOOL_NOTEBOOK_EDIT,
   TOOL_READ,
+  TOOL_WEB_FETCH,
   TOOL_WRITE,
 } from '../tools/toolNames';
 
+const DOMAIN_RULE_PREFIX = 'domain:';
+
 export function getActionPattern(toolName: string, input: Record<string, unknown>): string | null {
   switch (toolName) {
     case TOOL_BASH:
@@ -29,6 +32,8 @@ export function getActionPattern(toolName: string, input: Record<string, unknown
       return typeof input.pattern === 'string' && input.pattern ? input.pattern : null;
     case TOOL_GREP:
       return typeof input.pattern === 'string' && input.pattern ? input.pattern : null;
+    case TOOL_WEB_FETCH:
+      return typeof input.url === 'string' && input.url ? input.url : null;
     default:
       return JSON.stringify(input);
   }
@@ -49,6 +54,8 @@ export function getActionDescription(toolName: string, input: Record<string, unk
       return `Search files matching: ${pattern}`;
     case TOOL_GREP:
       return `Search content matching: ${pattern}`;
+    case TOOL_WEB_FETCH:
+      return `Fetch URL: ${pattern}`;
     default:
       return `${toolName}: ${pattern}`;
   }
@@ -57,6 +64,7 @@ export function getActionDescription(toolName: string, input: Record<string, unk
 /**
  * Bash: exact or explicit wildcard ("git *", "npm:*").
  * File tools: path-prefix matching with segment boundaries.
+ * WebFetch: "domain:example.com" matches the URL's hostname; other patterns are URL prefixes.
  * Other tools: simple prefix matching.
  */
 export function matchesRulePattern(
@@ -109,6 +117,11 @@ export function matchesRulePattern(
     return isPathPrefixMatch(normalizedAction, normalizedRule);
   }
 
+  if (toolName === TOOL_WEB_FETCH && normalizedRule.startsWith(DOMAIN_RULE_PREFIX)) {
+    const hostname = getUrlHostname(actionPattern);
+    return hostname !== null && hostname === normalizedRule.slice(DOMAIN_RULE_PREFIX.length).toLowerCase();
+  }
+
   // Other tools: allow simple prefix matching
   if (normalizedAction.startsWith(normalizedRule)) return true;
 
@@ -131,6 +144,14 @@ function isPathPrefixMatch(actionPath: string, approvedPath: string): boolean {
   return actionPath.charAt(approvedPath.length) === '/';
 }
 
+function getUrlHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
 function matchesBashPrefix(action: string, prefix: string): boolean {
   if (action === prefix) {
     return true;
@@ -181,7 +202,11 @@ export function buildPermissionUpdates(
   if (!hasRuleUpdate) {
     const pattern = getActionPattern(toolName, input);
     const ruleValue: { toolName: string; ruleContent?: string } = { toolName };
-    if (pattern && !pattern.startsWith('{')) {
+    if (toolName === TOOL_WEB_FETCH) {
+      // CC only understands domain rules for WebFetch, not full URLs
+      const hostname = pattern ? getUrlHostname(pattern) : null;
+      if (hostname) ruleValue.ruleContent = `${DOMAIN_RULE_PREFIX}${hostname}`;
+    } else if (pattern && !pattern.startsWith('{')) {
       ruleValue.ruleContent = pattern;
     }
 
@@ -0,0 +1,89 @@
+/**
+ * Audit Logger
+ *
+ * Records one decision per tool call. Several places see the same call (the
+ * PreToolUse hooks, canUseTool, PostToolUse), so the first decision recorded
+ * for a tool use ID wins and later ones are dropped.
+ */
+
+import type { AuditEntry } from '../types';
+
+/** Longer string values in tool input (e.g. file contents) are cut to this length. */
+export const MAX_AUDIT_VALUE_LENGTH = 10_000;
+
+/** Tool use IDs remembered for de-duplication. */
+const MAX_TRACKED_TOOL_USES = 1000;
+
+function truncateInput(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_AUDIT_VALUE_LENGTH
+      ? `${value.slice(0, MAX_AUDIT_VALUE_LENGTH)}… [${value.length - MAX_AUDIT_VALUE_LENGTH} more characters]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(truncateInput);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, truncateInput(v)]));
+  }
+  return value;
+}
+
+export interface AuditLoggerDeps {
+  write: (entry: AuditEntry) => Promise<void>;
+  isEnabled: () => boolean;
+  now?: () => number;
+}
+
+export class AuditLogger {
+  private recorded = new Set<string>();
+
+  constructor(private deps: AuditLoggerDeps) {}
+
+  isEnabled(): boolean {
+    return this.deps.isEnabled();
+  }
+
+  /** Whether a decision was already recorded for this tool call. */
+  hasRecorded(toolUseId: string | undefined): boolean {
+    return toolUseId !== undefined && this.recorded.has(toolUseId);
+  }
+
+  record(entry: Omit<AuditEntry, 'timestamp'>): void {
+    if (!this.isEnabled()) return;
+
+    if (entry.toolUseId !== undefined) {
+      if (this.recorded.has(entry.toolUseId)) return;
+      this.recorded.add(entry.toolUseId);
+      if (this.recorded.size > MAX_TRACKED_TOOL_USES) {
+        const oldest = this.recorded.values().next().value;
+        if (oldest !== undefined) this.recorded.delete(oldest);
+      }
+    }
+
+    const full: AuditEntry = {
+      timestamp: this.deps.now?.() ?? Date.now(),
+      ...entry,
+      input: truncateInput(entry.input) as Record<string, unknown>,
+    };
+    Promise.resolve().then(() => this.deps.write(full)).catch(() => {
+      // Non-critical: a failed write must not block the tool call
+    });
+  }
+}
+
+export interface AuditEntryFilter {
+  /** Exact tool name; empty matches every tool. */
+  toolName?: string;
+  decision?: AuditEntry['decision'];
+  /** Only entries at or after this timestamp. */
+  since?: number;
+}
+
+/** Entries matching the filter, newest first. */
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditEntryFilter): AuditEntry[] {
+  return entries
+    .filter(entry =>
+      (!filter.toolName || entry.toolName === filter.toolName)
+      && (!filter.decision || entry.decision === filter.decision)
+      && (filter.since === undefined || entry.timestamp >= filter.since))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
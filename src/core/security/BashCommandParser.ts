@@ -0,0 +1,395 @@
+/**
+ * Bash Command Parser
+ *
+ * Splits a shell command into the simple commands it would run, as argv arrays.
+ * Handles quoting and escapes, pipelines and `&&`/`||`/`;` chains, subshells and
+ * brace groups, `$(...)`/backtick/process substitutions, redirections, and
+ * commands run through wrappers (`sudo`, `env`, `xargs`, `find -exec`) or
+ * shells (`bash -c`, `sh -c`, `eval`, and scripts fed to a shell through a
+ * here-string or an `echo`/`printf` pipe). Not a full bash grammar: expansions
+ * are left as written and heredoc bodies are parsed as commands.
+ */
+
+import * as path from 'path';
+
+export type BashToken =
+  | { type: 'word'; value: string }
+  | { type: 'control'; value: string }
+  | { type: 'redirect'; value: string };
+
+/** Nesting limit for substitutions and `bash -c` strings. */
+const MAX_PARSE_DEPTH = 8;
+
+const CONTROL_OPERATORS = ['&&', '||', '|&', ';;', '|', ';', '&', '(', ')'];
+const REDIRECT_OPERATORS = ['&>>', '<<<', '<<-', '&>', '>>', '<<', '>&', '<&', '>|', '<>', '>', '<'];
+
+/** Reserved words that can precede a command without being one. */
+const RESERVED_WORDS = new Set([
+  '{', '}', '!', 'if', 'then', 'else', 'elif', 'fi', 'while', 'until', 'do', 'done', 'case', 'esac',
+]);
+
+const SHELLS = new Set(['bash', 'sh', 'zsh', 'dash', 'ksh', 'fish']);
+
+/** Wrapper commands that run their arguments, with the options that take a value. */
+const WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-C', '-D', '-p', '-r', '-t', '-U', '-h']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '--unset', '--chdir']),
+  command: new Set(),
+  builtin: new Set(),
+  exec: new Set(['-a']),
+  nohup: new Set(),
+  nice: new Set(['-n', '--adjustment']),
+  time: new Set(['-f', '-o', '--format', '--output']),
+  timeout: new Set(['-s', '-k', '--signal', '--kill-after']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+};
+
+/** Wrappers whose first operand is not the command (e.g. the timeout duration). */
+const WRAPPER_LEADING_OPERANDS: Record<string, number> = { timeout: 1 };
+
+const XARGS_OPTIONS_WITH_VALUE = new Set(['-I', '-n', '-P', '-L', '-s', '-d', '-E', '-a', '-i', '-l', '-e']);
+
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+const ASSIGNMENT_REGEX = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/;
+
+/**
+ * Returns the index of the parenthesis closing the one at `openIndex`,
+ * skipping quoted text. Unbalanced input closes at the end of the string.
+ */
+function findClosingParen(source: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < source.length; i++) {
+    const c = source[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === "'") {
+      const end = source.indexOf("'", i + 1);
+      i = end === -1 ? source.length : end;
+    } else if (c === '"') {
+      i = findClosingQuote(source, i);
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return source.length;
+}
+
+function findClosingQuote(source: string, openIndex: number): number {
+  for (let i = openIndex + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '"') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+function findClosingBacktick(source: string, openIndex: number): number {
+  for (let i = openIndex + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '`') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+function matchOperator(source: string, index: number, operators: string[]): string | null {
+  return operators.find(op => source.startsWith(op, index)) ?? null;
+}
+
+/**
+ * Tokenizes a command into words and operators. Quotes and escapes are removed
+ * from words; the sources of command and process substitutions are collected
+ * in `nested` so they can be parsed as commands of their own. Descriptor
+ * numbers are dropped from redirections (`2>` becomes `>`), and descriptor
+ * duplications such as `2>&1` are left out.
+ */
+export function tokenizeShellCommand(source: string, nested: string[] = []): BashToken[] {
+  const tokens: BashToken[] = [];
+  let word: string | null = null;
+
+  const pushWord = () => {
+    if (word !== null) tokens.push({ type: 'word', value: word });
+    word = null;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      pushWord();
+      i++;
+      continue;
+    }
+
+    if (c === '\n') {
+      pushWord();
+      tokens.push({ type: 'control', value: ';' });
+      i++;
+      continue;
+    }
+
+    if (c === '#' && word === null) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (c === '\\') {
+      if (source[i + 1] !== '\n') word = (word ?? '') + (source[i + 1] ?? '');
+      i += 2;
+      continue;
+    }
+
+    if (c === "'") {
+      const end = source.indexOf("'", i + 1);
+      const close = end === -1 ? source.length : end;
+      word = (word ?? '') + source.slice(i + 1, close);
+      i = close + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      const close = findClosingQuote(source, i);
+      let text = '';
+      for (let k = i + 1; k < close; k++) {
+        const d = source[k];
+        if (d === '\\' && k + 1 < close && '$`"\\\n'.includes(source[k + 1])) {
+          if (source[k + 1] !== '\n') text += source[k + 1];
+          k++;
+        } else if (d === '$' && source[k + 1] === '(') {
+          const end = findClosingParen(source, k + 1);
+          if (source[k + 2] !== '(') nested.push(source.slice(k + 2, end));
+          text += source.slice(k, end + 1);
+          k = end;
+        } else if (d === '`') {
+          const end = findClosingBacktick(source, k);
+          nested.push(source.slice(k + 1, end));
+          text += source.slice(k, end + 1);
+          k = end;
+        } else {
+          text += d;
+        }
+      }
+      word = (word ?? '') + text;
+      i = close + 1;
+      continue;
+    }
+
+    if (c === '$' && source[i + 1] === '(') {
+      const end = findClosingParen(source, i + 1);
+      // $(( ... )) is arithmetic, not a command
+      if (source[i + 2] !== '(') nested.push(source.slice(i + 2, end));
+      word = (word ?? '') + source.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (c === '`') {
+      const end = findClosingBacktick(source, i);
+      nested.push(source.slice(i + 1, end));
+      word = (word ?? '') + source.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if ((c === '<' || c === '>') && source[i + 1] === '(') {
+      const end = findClosingParen(source, i + 1);
+      nested.push(source.slice(i + 2, end));
+      word = (word ?? '') + source.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const redirect = matchOperator(source, i, REDIRECT_OPERATORS);
+    if (redirect) {
+      // A file descriptor number directly before the operator belongs to it (2>, 1>>)
+      if (word !== null && /^\d+$/.test(word)) {
+        word = null;
+      } else {
+        pushWord();
+      }
+      tokens.push({ type: 'redirect', value: redirect });
+      i += redirect.length;
+      // >&2 and 2>&1 duplicate descriptors and take no file
+      if ((redirect === '>&' || redirect === '<&') && /[\d-]/.test(source[i] ?? '')) {
+        while (i < source.length && /[\d-]/.test(source[i])) i++;
+        tokens.pop();
+      }
+      continue;
+    }
+
+    const control = matchOperator(source, i, CONTROL_OPERATORS);
+    if (control) {
+      pushWord();
+      tokens.push({ type: 'control', value: control });
+      i += control.length;
+      continue;
+    }
+
+    word = (word ?? '') + c;
+    i++;
+  }
+
+  pushWord();
+  return tokens;
+}
+
+/** Skips a wrapper's own options and returns the index of the wrapped command. */
+function skipWrapperOptions(argv: string[], wrapper: string, optionsWithValue: Set<string>): number {
+  let index = 1;
+  let leadingOperands = WRAPPER_LEADING_OPERANDS[wrapper] ?? 0;
+  while (index < argv.length) {
+    const arg = argv[index];
+    if (arg === '--') return index + 1;
+    if (arg.startsWith('-') && arg.length > 1) {
+      index += optionsWithValue.has(arg) ? 2 : 1;
+      continue;
+    }
+    if (wrapper === 'env' && ASSIGNMENT_REGEX.test(arg)) {
+      index++;
+      continue;
+    }
+    if (leadingOperands > 0) {
+      leadingOperands--;
+      index++;
+      continue;
+    }
+    break;
+  }
+  return index;
+}
+
+/** Command name without directory, case, or `.exe`: `/bin/RM.exe` → `rm`. */
+export function getCommandName(arg: string): string {
+  return path.basename(arg.replace(/\\/g, '/')).toLowerCase().replace(/\.exe$/, '');
+}
+
+/**
+ * Text a pipeline stage prints for the next stage to read, when it is known
+ * from the command itself (`echo` and `printf` of literal text).
+ */
+function getPrintedText(argv: string[] | null): string | undefined {
+  if (!argv || argv.length === 0) return undefined;
+  const name = getCommandName(argv[0]);
+  let args: string[];
+  if (name === 'echo') {
+    let start = 1;
+    while (start < argv.length && /^-[neE]+$/.test(argv[start])) start++;
+    args = argv.slice(start);
+  } else if (name === 'printf') {
+    args = argv.slice(argv[1] === '--' ? 2 : 1);
+  } else {
+    return undefined;
+  }
+  return args.join(' ').replace(/\\n/g, '\n');
+}
+
+/**
+ * Adds a simple command and the commands nested in it.
+ * @param stdin Script text the command reads on standard input, when known.
+ * @returns The command's argv with wrappers stripped, or null when it is empty.
+ */
+function addCommand(argv: string[], depth: number, commands: string[][], stdin?: string): string[] | null {
+  let start = 0;
+  while (start < argv.length && (RESERVED_WORDS.has(argv[start]) || ASSIGNMENT_REGEX.test(argv[start]))) {
+    start++;
+  }
+  let rest = argv.slice(start);
+
+  // Unwrap sudo, env, nohup, ... so the wrapped command is matched by name
+  while (rest.length > 0) {
+    const name = getCommandName(rest[0]);
+    const options = WRAPPERS[name];
+    if (!options) break;
+    if (rest.length === 1) break;
+    rest = rest.slice(skipWrapperOptions(rest, name, options));
+  }
+  if (rest.length === 0) return null;
+
+  commands.push(rest);
+
+  const name = getCommandName(rest[0]);
+  if (SHELLS.has(name)) {
+    const flagIndex = rest.findIndex((arg, i) => i > 0 && /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg));
+    if (flagIndex !== -1 && rest[flagIndex + 1] !== undefined) {
+      parseInto(rest[flagIndex + 1], depth + 1, commands);
+    } else if (stdin !== undefined) {
+      // `bash <<< "..."` and `echo "..." | bash` run their input as a script
+      parseInto(stdin, depth + 1, commands);
+    }
+  } else if (name === 'eval') {
+    parseInto(rest.slice(1).join(' '), depth + 1, commands);
+  } else if (name === 'xargs') {
+    const index = skipWrapperOptions(rest, name, XARGS_OPTIONS_WITH_VALUE);
+    if (index < rest.length) addCommand(rest.slice(index), depth + 1, commands);
+  } else if (name === 'find') {
+    for (let i = 1; i < rest.length; i++) {
+      if (!FIND_EXEC_ACTIONS.has(rest[i])) continue;
+      let end = i + 1;
+      while (end < rest.length && rest[end] !== ';' && rest[end] !== '+') end++;
+      addCommand(rest.slice(i + 1, end), depth + 1, commands);
+      i = end;
+    }
+  }
+  return rest;
+}
+
+function parseInto(source: string, depth: number, commands: string[][]): void {
+  if (depth > MAX_PARSE_DEPTH || !source.trim()) return;
+
+  const nested: string[] = [];
+  const tokens = tokenizeShellCommand(source, nested);
+
+  let current: string[] = [];
+  let redirect: string | null = null;
+  let hereString: string | undefined;
+  // Output of the previous pipeline stage, when it is known
+  let pipedText: string | undefined;
+  for (const token of tokens) {
+    if (token.type === 'redirect') {
+      redirect = token.value;
+      continue;
+    }
+    if (token.type === 'control') {
+      const argv = addCommand(current, depth, commands, hereString ?? pipedText);
+      pipedText = token.value === '|' || token.value === '|&' ? getPrintedText(argv) : undefined;
+      current = [];
+      redirect = null;
+      hereString = undefined;
+      continue;
+    }
+    if (redirect) {
+      if (redirect === '<<<') hereString = token.value;
+      redirect = null;
+      continue;
+    }
+    current.push(token.value);
+  }
+  addCommand(current, depth, commands, hereString ?? pipedText);
+
+  for (const inner of nested) {
+    parseInto(inner, depth + 1, commands);
+  }
+}
+
+/**
+ * Parses a shell command into the simple commands it runs, as argv arrays with
+ * quotes removed, redirections dropped, and wrappers (`sudo`, `env`, ...) stripped.
+ * Commands nested in substitutions, `bash -c`, `eval`, `xargs`, and
+ * `find -exec` are included after the command containing them.
+ */
+export function parseBashCommand(command: string): string[][] {
+  const commands: string[][] = [];
+  parseInto(command, 0, commands);
+  return commands;
+}
@@ -8,6 +8,7 @@
 import * as path from 'path';
 
 import type { PathAccessType } from '../../utils/path';
+import { tokenizeShellCommand } from './BashCommandParser';
 
 export type PathViolation =
   | { type: 'outside_vault'; path: string }
@@ -19,32 +20,20 @@ export interface PathCheckContext {
 }
 
 /**
- * Split a bash command into tokens.
- * This is a best-effort tokenizer (quotes/backticks are handled; full bash parsing is out of scope).
+ * Split a bash command into word, operator and redirection tokens, using the
+ * tokenizer shared with the blocklist parser. Sources of command substitutions
+ * are collected in `nested`.
  */
-export function tokenizeBashCommand(command: string): string[] {
-  const tokens: string[] = [];
-  // Only handle single and double quotes as string delimiters.
-  // Backticks are command substitution, not quoting -- handled by subshell extraction.
-  const tokenRegex = /(['"])(.*?)\1|[^\s]+/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = tokenRegex.exec(command)) !== null) {
-    const token = match[2] ?? match[0];
-    const cleaned = token.trim();
-    if (!cleaned) continue;
-    tokens.push(cleaned);
-  }
-
-  return tokens;
+export function tokenizeBashCommand(command: string, nested: string[] = []): string[] {
+  return tokenizeShellCommand(command, nested).map(token => token.value);
 }
 
 /**
- * Split tokens into segments by common bash operators.
+ * Split tokens into segments by bash control operators.
  * Each segment is treated as an independent command for output-target heuristics.
  */
 export function splitBashTokensIntoSegments(tokens: string[]): string[][] {
-  const separators = new Set(['&&', '||', ';', '|']);
+  const separators = new Set(['&&', '||', '|&', ';;', '|', ';', '&', '(', ')']);
   const segments: string[][] = [];
   let current: string[] = [];
 
@@ -87,8 +76,13 @@ export function getBashSegmentCommandName(segment: string[]): { cmdName: string;
   return { cmdName, cmdIndex };
 }
 
-const OUTPUT_REDIRECT_OPS = new Set(['>', '>>', '1>', '1>>', '2>', '2>>', '&>', '&>>', '>|']);
-const INPUT_REDIRECT_OPS = new Set(['<', '<<', '0<', '0<<']);
+const OUTPUT_REDIRECT_OPS = new Set(['>', '>>', '1>', '1>>', '2>', '2>>', '&>', '&>>', '>|', '>&', '<>']);
+const INPUT_REDIRECT_OPS = new Set(['<', '<<', '<<-', '0<', '0<<']);
+/** Here-strings take text, not a file. */
+const HERE_STRING_OP = '<<<';
+
+/** Words that are a whole command or process substitution; their commands are checked on their own. */
+const SUBSTITUTION_WORD_REGEX = /^(?:\$\([\s\S]*\)|`[\s\S]*`|[<>]\([\s\S]*\))$/;
 const OUTPUT_OPTION_FLAGS = new Set(['-o', '--output', '--out', '--outfile', '--output-file']);
 
 export function isBashOutputRedirectOperator(token: string): boolean {
@@ -260,6 +254,17 @@ export function findBashPathViolationInSegment(
   for (let i = 0; i < segment.length; i += 1) {
     const token = segment[i];
 
+    if (token === HERE_STRING_OP) {
+      i += 1;
+      expectWriteNext = false;
+      continue;
+    }
+
+    if (SUBSTITUTION_WORD_REGEX.test(token)) {
+      expectWriteNext = false;
+      continue;
+    }
+
     // Standalone redirection operators.
     if (isBashOutputRedirectOperator(token)) {
       expectWriteNext = true;
@@ -335,42 +340,6 @@ export function findBashPathViolationInSegment(
   return null;
 }
 
-/** Extract inner commands from command substitution patterns ($(...) and backticks) */
-function extractSubshellCommands(command: string): string[] {
-  const results: string[] = [];
-
-  // Extract $(...) content, handling nested parens
-  let i = 0;
-  while (i < command.length) {
-    if (command[i] === '$' && command[i + 1] === '(') {
-      let depth = 1;
-      const start = i + 2;
-      let j = start;
-      while (j < command.length && depth > 0) {
-        if (command[j] === '(') depth++;
-        else if (command[j] === ')') depth--;
-        j++;
-      }
-      if (depth === 0) {
-        results.push(command.slice(start, j - 1));
-      }
-      i = j;
-    } else {
-      i++;
-    }
-  }
-
-  // Extract backtick content (already handled by tokenizer, but we also check
-  // raw command for cases where backticks span the whole token)
-  const backtickRegex = /`([^`]+)`/g;
-  let match: RegExpExecArray | null;
-  while ((match = backtickRegex.exec(command)) !== null) {
-    results.push(match[1]);
-  }
-
-  return results;
-}
-
 /**
  * Find the first path violation in a bash command.
  * Main entry point for bash command validation.
@@ -385,14 +354,15 @@ export function findBashCommandPathViolation(
 ): PathViolation | null {
   if (!command) return null;
 
+  const nested: string[] = [];
+  const tokens = tokenizeBashCommand(command, nested);
+
   // Recursively check subshell commands first
-  const subshellCommands = extractSubshellCommands(command);
-  for (const subCmd of subshellCommands) {
+  for (const subCmd of nested) {
     const violation = findBashCommandPathViolation(subCmd, context);
     if (violation) return violation;
   }
 
-  const tokens = tokenizeBashCommand(command);
   const segments = splitBashTokensIntoSegments(tokens);
 
   for (const segment of segments) {
@@ -2,11 +2,112 @@
  * Blocklist Checker
  *
  * Checks bash commands against user-defined blocklist patterns.
- * Patterns are treated as case-insensitive regex with fallback to substring match.
+ * Patterns are treated as case-insensitive regex with fallback to substring match,
+ * applied to the raw command and to each simple command it runs. Patterns that
+ * read as a command (`rm -rf`, `chmod -R 777`) are also matched structurally:
+ * same command name, with the pattern's flags and arguments present in any
+ * order and spelling (`rm -r -f`, `rm --recursive --force`, `bash -c "rm -rf /"`).
  */
 
+import { getCommandName, parseBashCommand } from './BashCommandParser';
+
 const MAX_PATTERN_LENGTH = 500;
 
+/** Long options and alternate spellings that mean the same as a short flag, per command. */
+const FLAG_ALIASES: Record<string, Record<string, string>> = {
+  rm: { '-R': '-r', '--recursive': '-r', '--force': '-f' },
+  cp: { '-R': '-r', '--recursive': '-r', '--force': '-f' },
+  chmod: { '--recursive': '-R' },
+  chown: { '--recursive': '-R' },
+  chgrp: { '--recursive': '-R' },
+  git: { '--force': '-f' },
+};
+
+interface NormalizedArgs {
+  flags: Set<string>;
+  /** PowerShell-style parameters (-Recurse), lowercased. */
+  parameters: string[];
+  operands: string[];
+}
+
+/** PowerShell cmdlets are Verb-Noun and take whole-word parameters that may be abbreviated. */
+function isCmdlet(commandName: string): boolean {
+  return /^[a-z]+-[a-z]+$/.test(commandName);
+}
+
+function normalizeArgs(commandName: string, args: string[]): NormalizedArgs {
+  const aliases = FLAG_ALIASES[commandName] ?? {};
+  const cmdlet = isCmdlet(commandName);
+  const result: NormalizedArgs = { flags: new Set(), parameters: [], operands: [] };
+  let endOfOptions = false;
+
+  for (const arg of args) {
+    if (!endOfOptions && arg === '--') {
+      endOfOptions = true;
+      continue;
+    }
+    if (endOfOptions || !arg.startsWith('-') || arg === '-') {
+      result.operands.push(arg.toLowerCase());
+      continue;
+    }
+
+    if (cmdlet) {
+      result.parameters.push(arg.toLowerCase().replace(/:.*$/, ''));
+    } else if (arg.startsWith('--')) {
+      const name = arg.replace(/=.*$/, '');
+      result.flags.add(aliases[name] ?? name);
+      if (name !== arg) result.operands.push(arg.toLowerCase());
+    } else if (/^-[a-zA-Z]+$/.test(arg)) {
+      for (const letter of arg.slice(1)) {
+        const flag = `-${letter}`;
+        result.flags.add(aliases[flag] ?? flag);
+      }
+    } else {
+      result.operands.push(arg.toLowerCase());
+    }
+  }
+
+  return result;
+}
+
+function matchesOperand(wanted: string, operands: string[]): boolean {
+  // "dd if=" matches "if=/dev/zero"
+  return operands.some(op => op === wanted || (wanted.endsWith('=') && op.startsWith(wanted)));
+}
+
+/** Whether a command (argv) contains a pattern's command name, flags, and arguments. */
+function matchesCommandPattern(argv: string[], patternArgv: string[]): boolean {
+  const name = getCommandName(argv[0]);
+  if (name !== getCommandName(patternArgv[0])) return false;
+
+  const args = normalizeArgs(name, argv.slice(1));
+  const wanted = normalizeArgs(name, patternArgv.slice(1));
+
+  for (const flag of wanted.flags) {
+    if (!args.flags.has(flag)) return false;
+  }
+  // Either side may use an abbreviation: -r matches -Recurse and the other way round
+  for (const parameter of wanted.parameters) {
+    if (!args.parameters.some(p => p.startsWith(parameter) || parameter.startsWith(p))) return false;
+  }
+  for (const operand of wanted.operands) {
+    if (!matchesOperand(operand, args.operands)) return false;
+  }
+  return true;
+}
+
+function matchesText(text: string, pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    // Invalid regex - fall back to substring match
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
 export function isCommandBlocked(
   command: string,
   patterns: string[],
@@ -16,15 +117,16 @@ export function isCommandBlocked(
     return false;
   }
 
+  const commands = parseBashCommand(command);
+  const commandTexts = commands.map(argv => argv.join(' '));
+
   return patterns.some((pattern) => {
-    if (pattern.length > MAX_PATTERN_LENGTH) {
-      return command.toLowerCase().includes(pattern.toLowerCase());
-    }
-    try {
-      return new RegExp(pattern, 'i').test(command);
-    } catch {
-      // Invalid regex - fall back to substring match
-      return command.toLowerCase().includes(pattern.toLowerCase());
-    }
+    if (matchesText(command, pattern)) return true;
+    if (commandTexts.some(text => matchesText(text, pattern))) return true;
+
+    // Only patterns that parse to a single plain command are matched structurally
+    const patternCommands = pattern.length > MAX_PATTERN_LENGTH ? [] : parseBashCommand(pattern);
+    if (patternCommands.length !== 1) return false;
+    return commands.some(argv => matchesCommandPattern(argv, patternCommands[0]));
   });
 }
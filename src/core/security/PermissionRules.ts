@@ -0,0 +1,107 @@
+/**
+ * Permission rule validation and evaluation for the approval rules editor.
+ *
+ * Mirrors how Claude Code resolves CC permission rules: deny rules win over
+ * ask rules, which win over allow rules. Within a list the first match wins.
+ */
+
+import {
+  TOOL_BASH,
+  TOOL_EDIT,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_NOTEBOOK_EDIT,
+  TOOL_READ,
+  TOOL_WRITE,
+} from '../tools/toolNames';
+import type { CCPermissions, PermissionRule } from '../types';
+import { parseCCPermissionRule } from '../types';
+import { getActionPattern, matchesRulePattern } from './ApprovalManager';
+
+export type PermissionRuleBehavior = 'allow' | 'deny' | 'ask';
+
+/** Evaluation order: the first list with a matching rule decides. */
+export const PERMISSION_RULE_PRECEDENCE: PermissionRuleBehavior[] = ['deny', 'ask', 'allow'];
+
+export interface PermissionRuleMatch {
+  /** 'default' when no rule matches and the permission mode decides. */
+  decision: PermissionRuleBehavior | 'default';
+  behavior?: PermissionRuleBehavior;
+  rule?: PermissionRule;
+  /** Position of the rule within its list. */
+  index?: number;
+}
+
+/** Returns an error message for a malformed rule, or null when valid. */
+export function validatePermissionRule(rule: string): string | null {
+  const trimmed = rule.trim();
+  if (!trimmed) return 'Rule is empty';
+
+  const { tool, pattern } = parseCCPermissionRule(trimmed as PermissionRule);
+  if (!/^\w+$/.test(tool)) {
+    if (/\(\s*\)$/.test(trimmed)) {
+      return 'Pattern in parentheses is empty; use the tool name alone to match every call';
+    }
+    return 'Expected "Tool" or "Tool(pattern)", e.g. Bash(git *) or Read(notes/)';
+  }
+
+  if (tool === TOOL_BASH && pattern) {
+    const wildcard = pattern.indexOf('*');
+    if (wildcard !== -1 && wildcard !== pattern.length - 1) {
+      return 'Bash rules only support a trailing wildcard, e.g. Bash(git *) or Bash(npm:*)';
+    }
+  }
+
+  return null;
+}
+
+/** Finds the rule that decides a tool call. */
+export function evaluatePermissionRules(
+  permissions: CCPermissions,
+  toolName: string,
+  input: Record<string, unknown>
+): PermissionRuleMatch {
+  const actionPattern = getActionPattern(toolName, input);
+
+  for (const behavior of PERMISSION_RULE_PRECEDENCE) {
+    const rules = permissions[behavior] ?? [];
+    for (let index = 0; index < rules.length; index++) {
+      const { tool, pattern } = parseCCPermissionRule(rules[index]);
+      if (tool !== toolName) continue;
+      if (matchesRulePattern(toolName, actionPattern, pattern)) {
+        return { decision: behavior, behavior, rule: rules[index], index };
+      }
+    }
+  }
+
+  return { decision: 'default' };
+}
+
+/**
+ * Builds a tool input from a single sample value: the command for Bash, the
+ * path for file tools, the pattern for search tools, JSON for anything else.
+ * Throws when a JSON input does not parse to an object.
+ */
+export function buildSampleToolInput(toolName: string, value: string): Record<string, unknown> {
+  switch (toolName) {
+    case TOOL_BASH:
+      return { command: value };
+    case TOOL_READ:
+    case TOOL_WRITE:
+    case TOOL_EDIT:
+      return { file_path: value };
+    case TOOL_NOTEBOOK_EDIT:
+      return { notebook_path: value };
+    case TOOL_GLOB:
+    case TOOL_GREP:
+      return { pattern: value };
+    default: {
+      if (!value.trim()) return {};
+      const parsed: unknown = JSON.parse(value);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Tool input must be a JSON object');
+      }
+      return parsed as Record<string, unknown>;
+    }
+  }
+}
@@ -4,6 +4,19 @@ export {
   getActionPattern,
   matchesRulePattern,
 } from './ApprovalManager';
+export {
+  type AuditEntryFilter,
+  AuditLogger,
+  type AuditLoggerDeps,
+  filterAuditEntries,
+  MAX_AUDIT_VALUE_LENGTH,
+} from './AuditLogger';
+export {
+  type BashToken,
+  getCommandName,
+  parseBashCommand,
+  tokenizeShellCommand,
+} from './BashCommandParser';
 export {
   checkBashPathAccess,
   cleanPathToken,
@@ -22,3 +35,11 @@ export {
 export {
   isCommandBlocked,
 } from './BlocklistChecker';
+export {
+  buildSampleToolInput,
+  evaluatePermissionRules,
+  PERMISSION_RULE_PRECEDENCE,
+  type PermissionRuleBehavior,
+  type PermissionRuleMatch,
+  validatePermissionRule,
+} from './PermissionRules';
@@ -0,0 +1,95 @@
+/**
+ * AuditLogStorage - Handles .claude/audit/*.jsonl writes and reads
+ *
+ * One append-only JSONL file per local calendar day, one tool decision per line:
+ * ```
+ * {"timestamp":1703500000,"toolName":"Bash","input":{"command":"git status"},"decision":"allow","source":"rule","rule":"Bash(git *)"}
+ * ```
+ */
+
+import type { AuditDecision, AuditDecisionSource, AuditEntry } from '../types';
+import { toDayKey } from '../usage';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to the audit log folder relative to vault root. */
+export const AUDIT_PATH = '.claude/audit';
+
+const DECISIONS: AuditDecision[] = ['allow', 'deny'];
+const SOURCES: AuditDecisionSource[] = [
+  'rule',
+  'permission-mode',
+  'user',
+  'blocklist',
+  'vault-restriction',
+  'unattended',
+  'tool-restriction',
+  'dry-run',
+  'mcp-tool-selection',
+  'plugin-component',
+];
+
+function parseEntry(line: string): AuditEntry | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const entry = value as Partial<AuditEntry>;
+  if (typeof entry.timestamp !== 'number' || typeof entry.toolName !== 'string') return null;
+  if (!DECISIONS.includes(entry.decision as AuditDecision)) return null;
+  if (!SOURCES.includes(entry.source as AuditDecisionSource)) return null;
+
+  return {
+    timestamp: entry.timestamp,
+    conversationId: typeof entry.conversationId === 'string' ? entry.conversationId : undefined,
+    toolUseId: typeof entry.toolUseId === 'string' ? entry.toolUseId : undefined,
+    toolName: entry.toolName,
+    input: entry.input && typeof entry.input === 'object' ? entry.input : {},
+    decision: entry.decision as AuditDecision,
+    source: entry.source as AuditDecisionSource,
+    rule: typeof entry.rule === 'string' ? entry.rule : undefined,
+    reason: typeof entry.reason === 'string' ? entry.reason : undefined,
+  };
+}
+
+export class AuditLogStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.adapter.append(this.getFilePath(toDayKey(entry.timestamp)), `${JSON.stringify(entry)}\n`);
+  }
+
+  /** Days with a log file (YYYY-MM-DD), newest first. */
+  async listDays(): Promise<string[]> {
+    const files = await this.adapter.listFiles(AUDIT_PATH);
+    return files
+      .map(file => file.split('/').pop() ?? '')
+      .filter(name => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+      .map(name => name.slice(0, -'.jsonl'.length))
+      .sort()
+      .reverse();
+  }
+
+  /** Entries of one day in the order they were written. Malformed lines are skipped. */
+  async loadDay(day: string): Promise<AuditEntry[]> {
+    const filePath = this.getFilePath(day);
+    try {
+      if (!(await this.adapter.exists(filePath))) return [];
+      const content = await this.adapter.read(filePath);
+      return content
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(parseEntry)
+        .filter((entry): entry is AuditEntry => entry !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  private getFilePath(day: string): string {
+    return `${AUDIT_PATH}/${day}.jsonl`;
+  }
+}
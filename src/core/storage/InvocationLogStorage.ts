@@ -0,0 +1,95 @@
+/**
+ * InvocationLogStorage - Handles .claude/invocations/*.jsonl writes and reads
+ *
+ * One append-only JSONL file per local calendar day, one finished agent or skill
+ * invocation per line:
+ * ```
+ * {"timestamp":1703500000,"kind":"agent","name":"code-reviewer","durationMs":42000,"toolCount":7,"status":"completed"}
+ * ```
+ */
+
+import type { InvocationKind, InvocationRecord } from '../types';
+import { toDayKey } from '../usage';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to the invocation log folder relative to vault root. */
+export const INVOCATIONS_PATH = '.claude/invocations';
+
+const KINDS: InvocationKind[] = ['agent', 'skill'];
+const STATUSES: InvocationRecord['status'][] = ['completed', 'error', 'cancelled'];
+
+function parseRecord(line: string): InvocationRecord | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const record = value as Partial<InvocationRecord>;
+  if (typeof record.timestamp !== 'number' || typeof record.name !== 'string') return null;
+  if (!KINDS.includes(record.kind as InvocationKind)) return null;
+  if (!STATUSES.includes(record.status as InvocationRecord['status'])) return null;
+
+  return {
+    timestamp: record.timestamp,
+    kind: record.kind as InvocationKind,
+    name: record.name,
+    conversationId: typeof record.conversationId === 'string' ? record.conversationId : undefined,
+    toolUseId: typeof record.toolUseId === 'string' ? record.toolUseId : undefined,
+    durationMs: typeof record.durationMs === 'number' ? record.durationMs : 0,
+    toolCount: typeof record.toolCount === 'number' ? record.toolCount : 0,
+    status: record.status as InvocationRecord['status'],
+    error: typeof record.error === 'string' ? record.error : undefined,
+  };
+}
+
+export class InvocationLogStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async append(record: InvocationRecord): Promise<void> {
+    await this.adapter.append(this.getFilePath(toDayKey(record.timestamp)), `${JSON.stringify(record)}\n`);
+  }
+
+  /** Days with a log file (YYYY-MM-DD), newest first. */
+  async listDays(): Promise<string[]> {
+    const files = await this.adapter.listFiles(INVOCATIONS_PATH);
+    return files
+      .map(file => file.split('/').pop() ?? '')
+      .filter(name => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+      .map(name => name.slice(0, -'.jsonl'.length))
+      .sort()
+      .reverse();
+  }
+
+  /** Records of one day in the order they were written. Malformed lines are skipped. */
+  async loadDay(day: string): Promise<InvocationRecord[]> {
+    const filePath = this.getFilePath(day);
+    try {
+      if (!(await this.adapter.exists(filePath))) return [];
+      const content = await this.adapter.read(filePath);
+      return content
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(parseRecord)
+        .filter((record): record is InvocationRecord => record !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  /** Records of all days on or after `sinceDay` (YYYY-MM-DD). */
+  async loadSince(sinceDay: string): Promise<InvocationRecord[]> {
+    const days = (await this.listDays()).filter(day => day >= sinceDay).reverse();
+    const records: InvocationRecord[] = [];
+    for (const day of days) {
+      records.push(...await this.loadDay(day));
+    }
+    return records;
+  }
+
+  private getFilePath(day: string): string {
+    return `${INVOCATIONS_PATH}/${day}.jsonl`;
+  }
+}
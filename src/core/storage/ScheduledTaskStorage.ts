@@ -0,0 +1,96 @@
+/**
+ * ScheduledTaskStorage - Handles .claude/claudian-schedules.json read/write
+ *
+ * File format:
+ * {
+ *   "tasks": [
+ *     { "id": "task-1", "name": "Daily summary", "prompt": "/summarize-today", "schedule": "0 21 * * *", ... }
+ *   ]
+ * }
+ */
+
+import type { PermissionMode, ScheduledTask, ScheduledTaskRun } from '../types';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to scheduled tasks file relative to vault root. */
+export const SCHEDULES_PATH = '.claude/claudian-schedules.json';
+
+/** Runs kept per task in the run log. */
+export const MAX_TASK_RUNS = 20;
+
+const PERMISSION_MODES: PermissionMode[] = ['yolo', 'plan', 'normal'];
+
+function normalizeRun(value: unknown): ScheduledTaskRun | null {
+  if (!value || typeof value !== 'object') return null;
+  const run = value as Partial<ScheduledTaskRun>;
+  if (typeof run.startedAt !== 'number') return null;
+  if (run.status !== 'running' && run.status !== 'success' && run.status !== 'error') return null;
+
+  return {
+    startedAt: run.startedAt,
+    finishedAt: typeof run.finishedAt === 'number' ? run.finishedAt : undefined,
+    // A run still marked running was cut off by a reload or crash
+    status: run.status === 'running' ? 'error' : run.status,
+    trigger: run.trigger === 'manual' ? 'manual' : 'schedule',
+    conversationId: typeof run.conversationId === 'string' ? run.conversationId : undefined,
+    error: run.status === 'running'
+      ? 'Interrupted before completion'
+      : (typeof run.error === 'string' ? run.error : undefined),
+  };
+}
+
+function normalizeTask(value: unknown): ScheduledTask | null {
+  if (!value || typeof value !== 'object') return null;
+  const task = value as Partial<ScheduledTask>;
+  if (typeof task.id !== 'string' || typeof task.prompt !== 'string' || typeof task.schedule !== 'string') {
+    return null;
+  }
+
+  const runs = Array.isArray(task.runs)
+    ? task.runs.map(normalizeRun).filter((run): run is ScheduledTaskRun => run !== null).slice(0, MAX_TASK_RUNS)
+    : [];
+
+  return {
+    id: task.id,
+    name: typeof task.name === 'string' && task.name.trim() ? task.name : task.prompt.slice(0, 40),
+    prompt: task.prompt,
+    schedule: task.schedule,
+    enabled: task.enabled !== false,
+    permissionMode: PERMISSION_MODES.includes(task.permissionMode as PermissionMode)
+      ? task.permissionMode as PermissionMode
+      : 'normal',
+    model: typeof task.model === 'string' && task.model ? task.model : undefined,
+    createdAt: typeof task.createdAt === 'number' ? task.createdAt : Date.now(),
+    lastScheduledAt: typeof task.lastScheduledAt === 'number' ? task.lastScheduledAt : undefined,
+    runs,
+  };
+}
+
+export class ScheduledTaskStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async load(): Promise<ScheduledTask[]> {
+    try {
+      if (!(await this.adapter.exists(SCHEDULES_PATH))) {
+        return [];
+      }
+
+      const content = await this.adapter.read(SCHEDULES_PATH);
+      const file = JSON.parse(content) as { tasks?: unknown };
+      if (!Array.isArray(file.tasks)) {
+        return [];
+      }
+
+      return file.tasks
+        .map(normalizeTask)
+        .filter((task): task is ScheduledTask => task !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  async save(tasks: ScheduledTask[]): Promise<void> {
+    const content = JSON.stringify({ tasks }, null, 2);
+    await this.adapter.write(SCHEDULES_PATH, content);
+  }
+}
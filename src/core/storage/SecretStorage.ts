@@ -0,0 +1,56 @@
+/**
+ * SecretStorage - Per-device secrets referenced from MCP configs, and OAuth sign-ins.
+ *
+ * Kept in Obsidian's local storage for this vault rather than under `.claude/`,
+ * so tokens are not synced along with the vault.
+ */
+
+import type { App } from 'obsidian';
+
+import type { McpOAuthState, McpSecretStore } from '../mcp';
+
+const SECRETS_KEY = 'claudian-secrets';
+const OAUTH_KEY = 'claudian-mcp-oauth';
+
+export class SecretStorage implements McpSecretStore {
+  constructor(private app: App) {}
+
+  listSecretNames(): string[] {
+    return Object.keys(this.loadRecord<string>(SECRETS_KEY)).sort();
+  }
+
+  getSecret(name: string): string | null {
+    return this.loadRecord<string>(SECRETS_KEY)[name] ?? null;
+  }
+
+  setSecret(name: string, value: string): void {
+    this.saveEntry(SECRETS_KEY, name, value);
+  }
+
+  deleteSecret(name: string): void {
+    this.saveEntry(SECRETS_KEY, name, null);
+  }
+
+  getOAuthState(serverName: string): McpOAuthState | null {
+    return this.loadRecord<McpOAuthState>(OAUTH_KEY)[serverName] ?? null;
+  }
+
+  setOAuthState(serverName: string, state: McpOAuthState | null): void {
+    this.saveEntry(OAUTH_KEY, serverName, state);
+  }
+
+  private loadRecord<T>(key: string): Record<string, T> {
+    const value: unknown = this.app.loadLocalStorage(key);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, T> : {};
+  }
+
+  private saveEntry<T>(key: string, name: string, value: T | null): void {
+    const record = { ...this.loadRecord<T>(key) };
+    if (value === null) {
+      delete record[name];
+    } else {
+      record[name] = value;
+    }
+    this.app.saveLocalStorage(key, Object.keys(record).length > 0 ? record : null);
+  }
+}
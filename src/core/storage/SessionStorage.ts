@@ -16,6 +16,7 @@ import { TOOL_TASK } from '../tools/toolNames';
 import type {
   ChatMessage,
   Conversation,
+  ConversationCost,
   ConversationMeta,
   SessionMetadata,
   SubagentInfo,
@@ -37,6 +38,7 @@ interface SessionMetaRecord {
   sessionId: string | null;
   currentNote?: string;
   usage?: UsageInfo;
+  cost?: ConversationCost;
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
 }
 
@@ -226,6 +228,7 @@ export class SessionStorage {
       messages,
       currentNote: meta.currentNote,
       usage: meta.usage,
+      cost: meta.cost,
       titleGenerationStatus: meta.titleGenerationStatus,
     };
   }
@@ -244,6 +247,7 @@ export class SessionStorage {
       sessionId: conversation.sessionId,
       currentNote: conversation.currentNote,
       usage: conversation.usage,
+      cost: conversation.cost,
       titleGenerationStatus: conversation.titleGenerationStatus,
     };
     lines.push(JSON.stringify(meta));
@@ -396,11 +400,18 @@ export class SessionStorage {
       currentNote: conversation.currentNote,
       externalContextPaths: conversation.externalContextPaths,
       enabledMcpServers: conversation.enabledMcpServers,
+      enabledMcpTools: conversation.enabledMcpTools,
       usage: conversation.usage,
+      cost: conversation.cost,
       legacyCutoffAt: conversation.legacyCutoffAt,
       subagentData: Object.keys(subagentData).length > 0 ? subagentData : undefined,
       resumeSessionAt: conversation.resumeSessionAt,
+      stagedChanges: conversation.stagedChanges,
       forkSource: conversation.forkSource,
+      forkedFrom: conversation.forkedFrom,
+      pins: conversation.pins?.length ? conversation.pins : undefined,
+      scheduledTaskId: conversation.scheduledTaskId,
+      vaultTriggerId: conversation.vaultTriggerId,
     };
   }
 
@@ -0,0 +1,74 @@
+/**
+ * SpendLedgerStorage - Handles .claude/spend/*.jsonl writes and reads
+ *
+ * One append-only JSONL file per local calendar day, one finished turn per line:
+ * ```
+ * {"timestamp":1703500000,"costUsd":0.042,"conversationId":"conv-123"}
+ * ```
+ */
+
+import type { SpendRecord } from '../types';
+import { toDayKey } from '../usage';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to the spend ledger folder relative to vault root. */
+export const SPEND_PATH = '.claude/spend';
+
+function parseRecord(line: string): SpendRecord | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const record = value as Partial<SpendRecord>;
+  if (typeof record.timestamp !== 'number' || typeof record.costUsd !== 'number') return null;
+
+  return {
+    timestamp: record.timestamp,
+    costUsd: record.costUsd,
+    conversationId: typeof record.conversationId === 'string' ? record.conversationId : undefined,
+  };
+}
+
+export class SpendLedgerStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async append(record: SpendRecord): Promise<void> {
+    await this.adapter.append(this.getFilePath(toDayKey(record.timestamp)), `${JSON.stringify(record)}\n`);
+  }
+
+  /** Days with a ledger file (YYYY-MM-DD), oldest first. */
+  async listDays(): Promise<string[]> {
+    const files = await this.adapter.listFiles(SPEND_PATH);
+    return files
+      .map(file => file.split('/').pop() ?? '')
+      .filter(name => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+      .map(name => name.slice(0, -'.jsonl'.length))
+      .sort();
+  }
+
+  /** Records of every day in the order they were written. Malformed lines are skipped. */
+  async loadAll(): Promise<SpendRecord[]> {
+    const records: SpendRecord[] = [];
+    for (const day of await this.listDays()) {
+      try {
+        const content = await this.adapter.read(this.getFilePath(day));
+        records.push(...content
+          .split(/\r?\n/)
+          .filter(line => line.trim())
+          .map(parseRecord)
+          .filter((record): record is SpendRecord => record !== null));
+      } catch {
+        // An unreadable day is skipped rather than failing the whole ledger
+      }
+    }
+    return records;
+  }
+
+  private getFilePath(day: string): string {
+    return `${SPEND_PATH}/${day}.jsonl`;
+  }
+}
@@ -7,6 +7,12 @@
  * - Slash commands in .claude/commands/*.md
  * - Chat sessions in .claude/sessions/*.jsonl
  * - MCP configs in .claude/mcp.json
+ * - Scheduled tasks in .claude/claudian-schedules.json
+ * - Vault triggers in .claude/claudian-triggers.json
+ * - Audit log in .claude/audit/*.jsonl
+ * - Agent and skill invocation log in .claude/invocations/*.jsonl
+ * - Spend ledger for budget caps in .claude/spend/*.jsonl
+ * - Secrets and MCP OAuth sign-ins in Obsidian local storage (not synced)
  *
  * Handles migration from legacy formats:
  * - Old settings.json with Claudian fields → split into CC + Claudian files
@@ -32,22 +38,28 @@ import {
   legacyPermissionsToCCPermissions,
 } from '../types';
 import { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+import { AuditLogStorage } from './AuditLogStorage';
 import { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 import {
   ClaudianSettingsStorage,
   normalizeBlockedCommands,
   type StoredClaudianSettings,
 } from './ClaudianSettingsStorage';
+import { InvocationLogStorage } from './InvocationLogStorage';
 import { McpStorage } from './McpStorage';
 import {
   CLAUDIAN_ONLY_FIELDS,
   convertEnvObjectToString,
   mergeEnvironmentVariables,
 } from './migrationConstants';
+import { ScheduledTaskStorage } from './ScheduledTaskStorage';
+import { SecretStorage } from './SecretStorage';
 import { SESSIONS_PATH, SessionStorage } from './SessionStorage';
 import { SKILLS_PATH, SkillStorage } from './SkillStorage';
 import { COMMANDS_PATH, SlashCommandStorage } from './SlashCommandStorage';
+import { SpendLedgerStorage } from './SpendLedgerStorage';
 import { VaultFileAdapter } from './VaultFileAdapter';
+import { VaultTriggerStorage } from './VaultTriggerStorage';
 
 /** Base path for all Claudian storage. */
 export const CLAUDE_PATH = '.claude';
@@ -118,6 +130,12 @@ export class StorageService {
   readonly sessions: SessionStorage;
   readonly mcp: McpStorage;
   readonly agents: AgentVaultStorage;
+  readonly schedules: ScheduledTaskStorage;
+  readonly triggers: VaultTriggerStorage;
+  readonly audit: AuditLogStorage;
+  readonly invocations: InvocationLogStorage;
+  readonly spend: SpendLedgerStorage;
+  readonly secrets: SecretStorage;
 
   private adapter: VaultFileAdapter;
   private plugin: Plugin;
@@ -134,6 +152,12 @@ export class StorageService {
     this.sessions = new SessionStorage(this.adapter);
     this.mcp = new McpStorage(this.adapter);
     this.agents = new AgentVaultStorage(this.adapter);
+    this.schedules = new ScheduledTaskStorage(this.adapter);
+    this.triggers = new VaultTriggerStorage(this.adapter);
+    this.audit = new AuditLogStorage(this.adapter);
+    this.invocations = new InvocationLogStorage(this.adapter);
+    this.spend = new SpendLedgerStorage(this.adapter);
+    this.secrets = new SecretStorage(this.app);
   }
 
   async initialize(): Promise<CombinedSettings> {
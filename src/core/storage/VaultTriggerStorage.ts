@@ -0,0 +1,110 @@
+/**
+ * VaultTriggerStorage - Handles .claude/claudian-triggers.json read/write
+ *
+ * File format:
+ * {
+ *   "triggers": [
+ *     { "id": "trigger-1", "name": "Triage inbox", "event": "create", "folder": "Inbox", "command": "triage", ... }
+ *   ]
+ * }
+ */
+
+import type { PermissionMode, VaultTrigger, VaultTriggerEvent, VaultTriggerRun } from '../types';
+import type { VaultFileAdapter } from './VaultFileAdapter';
+
+/** Path to vault triggers file relative to vault root. */
+export const TRIGGERS_PATH = '.claude/claudian-triggers.json';
+
+/** Runs kept per trigger in the execution history. */
+export const MAX_TRIGGER_RUNS = 20;
+
+/** Default quiet period before a trigger runs. */
+export const DEFAULT_TRIGGER_DEBOUNCE_SECONDS = 5;
+
+const TRIGGER_EVENTS: VaultTriggerEvent[] = ['create', 'modify', 'rename', 'frontmatter'];
+const PERMISSION_MODES: PermissionMode[] = ['yolo', 'plan', 'normal'];
+
+function normalizeRun(value: unknown): VaultTriggerRun | null {
+  if (!value || typeof value !== 'object') return null;
+  const run = value as Partial<VaultTriggerRun>;
+  if (typeof run.startedAt !== 'number' || typeof run.filePath !== 'string') return null;
+  if (run.status !== 'running' && run.status !== 'success' && run.status !== 'error') return null;
+
+  return {
+    startedAt: run.startedAt,
+    finishedAt: typeof run.finishedAt === 'number' ? run.finishedAt : undefined,
+    // A run still marked running was cut off by a reload or crash
+    status: run.status === 'running' ? 'error' : run.status,
+    event: TRIGGER_EVENTS.includes(run.event as VaultTriggerEvent) ? run.event as VaultTriggerEvent : 'modify',
+    filePath: run.filePath,
+    conversationId: typeof run.conversationId === 'string' ? run.conversationId : undefined,
+    error: run.status === 'running'
+      ? 'Interrupted before completion'
+      : (typeof run.error === 'string' ? run.error : undefined),
+  };
+}
+
+function normalizeTrigger(value: unknown): VaultTrigger | null {
+  if (!value || typeof value !== 'object') return null;
+  const trigger = value as Partial<VaultTrigger>;
+  if (typeof trigger.id !== 'string' || typeof trigger.command !== 'string' || !trigger.command.trim()) {
+    return null;
+  }
+  if (!TRIGGER_EVENTS.includes(trigger.event as VaultTriggerEvent)) return null;
+
+  const command = trigger.command.trim().replace(/^\//, '');
+  const runs = Array.isArray(trigger.runs)
+    ? trigger.runs.map(normalizeRun).filter((run): run is VaultTriggerRun => run !== null).slice(0, MAX_TRIGGER_RUNS)
+    : [];
+
+  return {
+    id: trigger.id,
+    name: typeof trigger.name === 'string' && trigger.name.trim() ? trigger.name : `/${command}`,
+    event: trigger.event as VaultTriggerEvent,
+    folder: typeof trigger.folder === 'string' ? trigger.folder.replace(/^\/+|\/+$/g, '') : '',
+    tag: typeof trigger.tag === 'string' && trigger.tag.trim()
+      ? trigger.tag.trim().replace(/^#/, '')
+      : undefined,
+    command,
+    arguments: typeof trigger.arguments === 'string' && trigger.arguments.trim() ? trigger.arguments : undefined,
+    enabled: trigger.enabled !== false,
+    permissionMode: PERMISSION_MODES.includes(trigger.permissionMode as PermissionMode)
+      ? trigger.permissionMode as PermissionMode
+      : 'normal',
+    model: typeof trigger.model === 'string' && trigger.model ? trigger.model : undefined,
+    debounceSeconds: typeof trigger.debounceSeconds === 'number' && trigger.debounceSeconds >= 0
+      ? trigger.debounceSeconds
+      : DEFAULT_TRIGGER_DEBOUNCE_SECONDS,
+    createdAt: typeof trigger.createdAt === 'number' ? trigger.createdAt : Date.now(),
+    runs,
+  };
+}
+
+export class VaultTriggerStorage {
+  constructor(private adapter: VaultFileAdapter) {}
+
+  async load(): Promise<VaultTrigger[]> {
+    try {
+      if (!(await this.adapter.exists(TRIGGERS_PATH))) {
+        return [];
+      }
+
+      const content = await this.adapter.read(TRIGGERS_PATH);
+      const file = JSON.parse(content) as { triggers?: unknown };
+      if (!Array.isArray(file.triggers)) {
+        return [];
+      }
+
+      return file.triggers
+        .map(normalizeTrigger)
+        .filter((trigger): trigger is VaultTrigger => trigger !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  async save(triggers: VaultTrigger[]): Promise<void> {
+    const content = JSON.stringify({ triggers }, null, 2);
+    await this.adapter.write(TRIGGERS_PATH, content);
+  }
+}
@@ -1,14 +1,19 @@
 export { AGENTS_PATH, AgentVaultStorage } from './AgentVaultStorage';
+export { AUDIT_PATH, AuditLogStorage } from './AuditLogStorage';
 export { CC_SETTINGS_PATH, CCSettingsStorage, isLegacyPermissionsFormat } from './CCSettingsStorage';
 export {
   CLAUDIAN_SETTINGS_PATH,
   ClaudianSettingsStorage,
   type StoredClaudianSettings,
 } from './ClaudianSettingsStorage';
+export { InvocationLogStorage, INVOCATIONS_PATH } from './InvocationLogStorage';
 export { MCP_CONFIG_PATH, McpStorage } from './McpStorage';
+export { MAX_TASK_RUNS, ScheduledTaskStorage, SCHEDULES_PATH } from './ScheduledTaskStorage';
+export { SecretStorage } from './SecretStorage';
 export { SESSIONS_PATH, SessionStorage } from './SessionStorage';
 export { SKILLS_PATH, SkillStorage } from './SkillStorage';
 export { COMMANDS_PATH, SlashCommandStorage } from './SlashCommandStorage';
+export { SPEND_PATH, SpendLedgerStorage } from './SpendLedgerStorage';
 export {
   CLAUDE_PATH,
   type CombinedSettings,
@@ -16,3 +21,9 @@ export {
   StorageService,
 } from './StorageService';
 export { VaultFileAdapter } from './VaultFileAdapter';
+export {
+  DEFAULT_TRIGGER_DEBOUNCE_SECONDS,
+  MAX_TRIGGER_RUNS,
+  TRIGGERS_PATH,
+  VaultTriggerStorage,
+} from './VaultTriggerStorage';
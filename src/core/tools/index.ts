@@ -12,6 +12,7 @@ export {
 export {
   BASH_TOOLS,
   type BashToolName,
+  BUILTIN_TOOLS,
   EDIT_TOOLS,
   type EditToolName,
   FILE_TOOLS,
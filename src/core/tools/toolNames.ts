@@ -22,6 +22,32 @@ export const TOOL_WRITE = 'Write' as const;
 export const TOOL_ENTER_PLAN_MODE = 'EnterPlanMode' as const;
 export const TOOL_EXIT_PLAN_MODE = 'ExitPlanMode' as const;
 
+/** Built-in tools an agent definition can allow or disallow. */
+export const BUILTIN_TOOLS = [
+  TOOL_AGENT_OUTPUT,
+  TOOL_ASK_USER_QUESTION,
+  TOOL_BASH,
+  TOOL_BASH_OUTPUT,
+  TOOL_EDIT,
+  TOOL_ENTER_PLAN_MODE,
+  TOOL_EXIT_PLAN_MODE,
+  TOOL_GLOB,
+  TOOL_GREP,
+  TOOL_KILL_SHELL,
+  TOOL_LS,
+  TOOL_LIST_MCP_RESOURCES,
+  TOOL_MCP,
+  TOOL_NOTEBOOK_EDIT,
+  TOOL_READ,
+  TOOL_READ_MCP_RESOURCE,
+  TOOL_SKILL,
+  TOOL_TASK,
+  TOOL_TODO_WRITE,
+  TOOL_WEB_FETCH,
+  TOOL_WEB_SEARCH,
+  TOOL_WRITE,
+] as const;
+
 // These tools resolve via dedicated callbacks (not content-based), so their
 // tool_result should never be marked "blocked" based on result text.
 export const TOOLS_SKIP_BLOCKED_DETECTION = [
@@ -0,0 +1,233 @@
+/**
+ * VaultTriggerEngine - Matches vault events against triggers and runs their commands.
+ *
+ * Matching events are debounced per trigger and file, then run one at a time.
+ * Events on a file are ignored while a trigger runs on it and for a short
+ * cooldown afterwards, so a command's own edits don't fire it again.
+ */
+
+import { appendCurrentNote } from '../../utils/context';
+import type { BackgroundQueryResult } from '../scheduler';
+import { MAX_TRIGGER_RUNS } from '../storage/VaultTriggerStorage';
+import type { VaultTrigger, VaultTriggerEvent, VaultTriggerRun } from '../types';
+
+/** How long events on a file are ignored after a trigger ran on it. */
+export const SELF_CHANGE_COOLDOWN_MS = 10_000;
+
+export interface VaultFileEvent {
+  type: VaultTriggerEvent;
+  path: string;
+  /** Tags on the file after the event, without '#'. */
+  tags: string[];
+  /** Tags before the change ('frontmatter' events only). */
+  previousTags?: string[];
+}
+
+export interface VaultTriggerEngineDeps {
+  load: () => Promise<VaultTrigger[]>;
+  save: (triggers: VaultTrigger[]) => Promise<void>;
+  runTrigger: (trigger: VaultTrigger, filePath: string) => Promise<BackgroundQueryResult>;
+  /** Current tags of a file, or null when it no longer exists. Re-checked when the debounce expires. */
+  getFileTags?: (path: string) => string[] | null;
+  now?: () => number;
+}
+
+export function isInFolder(path: string, folder: string): boolean {
+  const normalized = folder.replace(/^\/+|\/+$/g, '');
+  return !normalized || path.startsWith(`${normalized}/`);
+}
+
+function hasTag(tags: string[] | undefined, tag: string): boolean {
+  const wanted = tag.toLowerCase();
+  // Nested tags count as their parent: #project/alpha matches "project"
+  return tags?.some(t => {
+    const lower = t.toLowerCase();
+    return lower === wanted || lower.startsWith(`${wanted}/`);
+  }) ?? false;
+}
+
+/** Whether an event should fire the trigger. 'frontmatter' triggers with a tag need the tag to be new. */
+export function matchesTrigger(trigger: VaultTrigger, event: VaultFileEvent, checkTag = true): boolean {
+  if (!trigger.enabled || trigger.event !== event.type) return false;
+  if (!isInFolder(event.path, trigger.folder)) return false;
+  if (trigger.tag && checkTag) {
+    if (!hasTag(event.tags, trigger.tag)) return false;
+    if (event.type === 'frontmatter' && hasTag(event.previousTags, trigger.tag)) return false;
+  }
+  return true;
+}
+
+/** Builds the prompt for a run: the slash command with the file as `<current_note>` context. */
+export function buildTriggerPrompt(trigger: VaultTrigger, filePath: string): string {
+  const command = `/${trigger.command}${trigger.arguments ? ` ${trigger.arguments}` : ''}`;
+  return appendCurrentNote(command, filePath);
+}
+
+export class VaultTriggerEngine {
+  private triggers: VaultTrigger[] = [];
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, number>();
+  private activePaths = new Map<string, number>();
+  private cooldownUntil = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
+
+  constructor(private deps: VaultTriggerEngineDeps) {}
+
+  async load(): Promise<void> {
+    this.triggers = await this.deps.load();
+  }
+
+  getTriggers(): VaultTrigger[] {
+    return this.triggers;
+  }
+
+  getTrigger(id: string): VaultTrigger | undefined {
+    return this.triggers.find(t => t.id === id);
+  }
+
+  isRunning(id: string): boolean {
+    return (this.running.get(id) ?? 0) > 0;
+  }
+
+  /** Registers a listener for trigger and run changes. Returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Adds or updates a trigger. The execution history is kept on update. */
+  async saveTrigger(trigger: VaultTrigger): Promise<void> {
+    const existing = this.getTrigger(trigger.id);
+    if (!existing) {
+      this.triggers.push({ ...trigger, runs: trigger.runs ?? [] });
+    } else {
+      Object.assign(existing, trigger, { runs: existing.runs });
+    }
+    await this.persist();
+  }
+
+  async deleteTrigger(id: string): Promise<void> {
+    this.cancelPending(id);
+    this.triggers = this.triggers.filter(t => t.id !== id);
+    await this.persist();
+  }
+
+  /** Debounces a run for every trigger the event matches. */
+  handleEvent(event: VaultFileEvent): void {
+    if (this.isSuppressed(event.path)) return;
+
+    // Tags may not be indexed yet on create, so other events check them when the debounce expires
+    const deferTagCheck = event.type !== 'frontmatter' && this.deps.getFileTags !== undefined;
+    for (const trigger of this.triggers) {
+      if (matchesTrigger(trigger, event, !deferTagCheck)) {
+        this.debounce(trigger, event);
+      }
+    }
+  }
+
+  /** Cancels pending runs (plugin unload). */
+  dispose(): void {
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  private debounce(trigger: VaultTrigger, event: VaultFileEvent): void {
+    const key = `${trigger.id}\n${event.path}`;
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing);
+
+    this.pending.set(key, setTimeout(() => {
+      this.pending.delete(key);
+      void this.fire(trigger.id, event);
+    }, trigger.debounceSeconds * 1000));
+  }
+
+  private cancelPending(triggerId: string): void {
+    for (const [key, timer] of this.pending) {
+      if (key.startsWith(`${triggerId}\n`)) {
+        clearTimeout(timer);
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private fire(triggerId: string, event: VaultFileEvent): Promise<void> {
+    const trigger = this.getTrigger(triggerId);
+    if (!trigger) return Promise.resolve();
+
+    let current = event;
+    if (event.type !== 'frontmatter' && this.deps.getFileTags) {
+      const tags = this.deps.getFileTags(event.path);
+      if (tags === null) return Promise.resolve();
+      current = { ...event, tags };
+    }
+    if (!matchesTrigger(trigger, current)) return Promise.resolve();
+
+    this.running.set(trigger.id, (this.running.get(trigger.id) ?? 0) + 1);
+    this.activePaths.set(event.path, (this.activePaths.get(event.path) ?? 0) + 1);
+    this.notify();
+    const run = this.queue.then(() => this.execute(trigger, event));
+    this.queue = run;
+    return run;
+  }
+
+  private async execute(trigger: VaultTrigger, event: VaultFileEvent): Promise<void> {
+    const run: VaultTriggerRun = {
+      startedAt: this.now(),
+      status: 'running',
+      event: event.type,
+      filePath: event.path,
+    };
+    trigger.runs = [run, ...trigger.runs].slice(0, MAX_TRIGGER_RUNS);
+    await this.persist();
+
+    try {
+      const result = await this.deps.runTrigger(trigger, event.path);
+      run.conversationId = result.conversationId;
+      run.status = result.error ? 'error' : 'success';
+      run.error = result.error;
+    } catch (error) {
+      run.status = 'error';
+      run.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      run.finishedAt = this.now();
+      this.running.set(trigger.id, (this.running.get(trigger.id) ?? 1) - 1);
+      this.activePaths.set(event.path, (this.activePaths.get(event.path) ?? 1) - 1);
+      if (!this.activePaths.get(event.path)) this.activePaths.delete(event.path);
+      this.cooldownUntil.set(event.path, this.now() + SELF_CHANGE_COOLDOWN_MS);
+    }
+
+    await this.persist();
+  }
+
+  private isSuppressed(path: string): boolean {
+    if (this.activePaths.has(path)) return true;
+    const until = this.cooldownUntil.get(path);
+    if (until === undefined) return false;
+    if (until > this.now()) return true;
+    this.cooldownUntil.delete(path);
+    return false;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.deps.save(this.triggers);
+    } catch {
+      // Non-critical: the in-memory state stays authoritative until the next save
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try { listener(); } catch { /* non-critical */ }
+    }
+  }
+
+  private now(): number {
+    return this.deps.now?.() ?? Date.now();
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * VaultTriggerWatcher - Forwards Obsidian vault and metadata events to the trigger engine.
+ *
+ * Keeps a snapshot of each note's frontmatter and tags so 'frontmatter' events
+ * can tell what changed. Register after layout ready; before that, Obsidian
+ * emits 'create' for every file while indexing the vault.
+ */
+
+import type { App, CachedMetadata, EventRef, TAbstractFile } from 'obsidian';
+import { TFile } from 'obsidian';
+
+import type { VaultTriggerEvent } from '../types';
+import type { VaultFileEvent } from './VaultTriggerEngine';
+
+interface MetadataSnapshot {
+  frontmatter: string;
+  tags: string[];
+}
+
+/** Tags from a note's frontmatter and body, without '#'. */
+export function getTagsFromCache(cache: CachedMetadata | null | undefined): string[] {
+  if (!cache) return [];
+
+  const tags = new Set<string>();
+  const fmTags = cache.frontmatter?.tags ?? cache.frontmatter?.tag;
+  const fmList: unknown[] = Array.isArray(fmTags)
+    ? fmTags
+    : typeof fmTags === 'string' ? fmTags.split(/[,\s]+/) : [];
+  for (const tag of fmList) {
+    if (typeof tag === 'string' && tag.trim()) {
+      tags.add(tag.trim().replace(/^#/, ''));
+    }
+  }
+  for (const { tag } of cache.tags ?? []) {
+    tags.add(tag.replace(/^#/, ''));
+  }
+
+  return [...tags];
+}
+
+export class VaultTriggerWatcher {
+  private snapshots = new Map<string, MetadataSnapshot>();
+
+  constructor(private app: App, private onEvent: (event: VaultFileEvent) => void) {}
+
+  /** Current tags of a file, or null when it no longer exists. */
+  getFileTags(path: string): string[] | null {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return null;
+    return getTagsFromCache(this.app.metadataCache.getFileCache(file));
+  }
+
+  register(registerEvent: (ref: EventRef) => void): void {
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.snapshots.set(file.path, this.snapshot(this.app.metadataCache.getFileCache(file)));
+    }
+
+    registerEvent(this.app.vault.on('create', (file) => this.emit('create', file)));
+    registerEvent(this.app.vault.on('modify', (file) => this.emit('modify', file)));
+    registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      const snapshot = this.snapshots.get(oldPath);
+      this.snapshots.delete(oldPath);
+      if (snapshot) this.snapshots.set(file.path, snapshot);
+      this.emit('rename', file);
+    }));
+    registerEvent(this.app.vault.on('delete', (file) => {
+      this.snapshots.delete(file.path);
+    }));
+    registerEvent(this.app.metadataCache.on('changed', (file, _data, cache) => {
+      this.handleMetadataChange(file, cache);
+    }));
+  }
+
+  private emit(type: VaultTriggerEvent, file: TAbstractFile): void {
+    if (!(file instanceof TFile)) return;
+    this.onEvent({
+      type,
+      path: file.path,
+      tags: getTagsFromCache(this.app.metadataCache.getFileCache(file)),
+    });
+  }
+
+  private handleMetadataChange(file: TFile, cache: CachedMetadata): void {
+    // New notes have no snapshot yet; treat them as starting empty
+    const previous = this.snapshots.get(file.path) ?? { frontmatter: '{}', tags: [] };
+    const current = this.snapshot(cache);
+    this.snapshots.set(file.path, current);
+
+    const tagsChanged = previous.tags.join('\n') !== current.tags.join('\n');
+    if (previous.frontmatter === current.frontmatter && !tagsChanged) return;
+
+    this.onEvent({
+      type: 'frontmatter',
+      path: file.path,
+      tags: current.tags,
+      previousTags: previous.tags,
+    });
+  }
+
+  private snapshot(cache: CachedMetadata | null): MetadataSnapshot {
+    return {
+      frontmatter: JSON.stringify(cache?.frontmatter ?? {}),
+      tags: getTagsFromCache(cache).sort(),
+    };
+  }
+}
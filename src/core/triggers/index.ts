@@ -0,0 +1,10 @@
+export {
+  buildTriggerPrompt,
+  isInFolder,
+  matchesTrigger,
+  SELF_CHANGE_COOLDOWN_MS,
+  type VaultFileEvent,
+  VaultTriggerEngine,
+  type VaultTriggerEngineDeps,
+} from './VaultTriggerEngine';
+export { getTagsFromCache, VaultTriggerWatcher } from './VaultTriggerWatcher';
@@ -0,0 +1,45 @@
+/**
+ * Audit log type definitions.
+ */
+
+/** Whether a tool call was allowed to run. */
+export type AuditDecision = 'allow' | 'deny';
+
+/**
+ * What made the decision:
+ * - rule: a permission rule in .claude/settings.json
+ * - permission-mode: no rule matched and the permission mode allowed the call
+ * - user: the user answered an approval prompt
+ * - blocklist: the command blocklist
+ * - vault-restriction: the path is outside the vault
+ * - unattended: nobody was there to approve (background runs)
+ * - tool-restriction: the tool is not allowed for this query type
+ * - dry-run: the edit was staged for review instead of written
+ * - mcp-tool-selection: the MCP tool is switched off for the conversation
+ */
+export type AuditDecisionSource =
+  | 'rule'
+  | 'permission-mode'
+  | 'user'
+  | 'blocklist'
+  | 'vault-restriction'
+  | 'unattended'
+  | 'tool-restriction'
+  | 'dry-run'
+  | 'mcp-tool-selection'
+  | 'plugin-component';
+
+/** One line in the audit log. */
+export interface AuditEntry {
+  timestamp: number;
+  conversationId?: string;
+  toolUseId?: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  decision: AuditDecision;
+  source: AuditDecisionSource;
+  /** Permission rule that decided the call (source 'rule'). */
+  rule?: string;
+  /** Deny message or hook reason. */
+  reason?: string;
+}
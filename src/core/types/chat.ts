@@ -2,7 +2,9 @@
  * Chat and conversation type definitions.
  */
 
+import type { StagedFileChange } from '../dryrun';
 import type { SDKToolUseResult } from './diff';
+import type { McpToolSelection } from './mcp';
 import type { SubagentInfo, SubagentMode, ToolCallInfo } from './tools';
 
 /** Fork origin reference: identifies the source session and resume point. */
@@ -11,6 +13,23 @@ export interface ForkSource {
   resumeAt: string;
 }
 
+/** Where a fork branched off. Unlike ForkSource it is kept, so branch trees can be rebuilt. */
+export interface ForkOrigin {
+  conversationId: string;
+  sessionId: string;
+  resumeAt: string;
+  /** 1-based user message the fork starts at. */
+  atUserMessage?: number;
+}
+
+/** A pinned message; giving it a name turns it into a bookmark. */
+export interface MessagePin {
+  /** SDK uuid of the message when known, so pins survive reloads; otherwise its message ID. */
+  messageKey: string;
+  name?: string;
+  createdAt: number;
+}
+
 /** View type identifier for Obsidian. */
 export const VIEW_TYPE_CLAUDIAN = 'claudian-view';
 
@@ -91,10 +110,14 @@ export interface Conversation {
   externalContextPaths?: string[];
   /** Context window usage information. */
   usage?: UsageInfo;
+  /** Cumulative token and cost totals. */
+  cost?: ConversationCost;
   /** Status of AI title generation. */
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
   /** UI-enabled MCP servers for this session (context-saving servers activated via selector). */
   enabledMcpServers?: string[];
+  /** MCP tools enabled for this session, for servers narrowed down in the selector. */
+  enabledMcpTools?: McpToolSelection;
   /** True if this conversation uses SDK-native storage (messages in ~/.claude/projects/). */
   isNative?: boolean;
   /** Timestamp of the last legacy JSONL message (used to merge SDK history). */
@@ -108,8 +131,18 @@ export interface Conversation {
   subagentData?: Record<string, SubagentInfo>;
   /** Assistant UUID for resumeSessionAt after rewind. */
   resumeSessionAt?: string;
+  /** Dry-run changes still awaiting review, staged again when the conversation is reopened. */
+  stagedChanges?: StagedFileChange[];
   /** Fork origin: source session to resume + fork from. Cleared after first SDK session init. */
   forkSource?: ForkSource;
+  /** Conversation and point this conversation was forked from. */
+  forkedFrom?: ForkOrigin;
+  /** Pinned messages and named bookmarks, in the order they were added. */
+  pins?: MessagePin[];
+  /** Set when the conversation was created by a scheduled task run. */
+  scheduledTaskId?: string;
+  /** Set when the conversation was created by a vault trigger run. */
+  vaultTriggerId?: string;
 }
 
 /** Lightweight conversation metadata for the history dropdown. */
@@ -126,6 +159,12 @@ export interface ConversationMeta {
   titleGenerationStatus?: 'pending' | 'success' | 'failed';
   /** True if this conversation uses SDK-native storage. */
   isNative?: boolean;
+  /** Cumulative token and cost totals. */
+  cost?: ConversationCost;
+  /** Set when the conversation was created by a scheduled task run. */
+  scheduledTaskId?: string;
+  /** Set when the conversation was created by a vault trigger run. */
+  vaultTriggerId?: string;
 }
 
 /**
@@ -156,7 +195,9 @@ export interface SessionMetadata {
   currentNote?: string;
   externalContextPaths?: string[];
   enabledMcpServers?: string[];
+  enabledMcpTools?: McpToolSelection;
   usage?: UsageInfo;
+  cost?: ConversationCost;
   /** Timestamp of the last legacy JSONL message (used to merge SDK history). */
   legacyCutoffAt?: number;
   /**
@@ -167,8 +208,13 @@ export interface SessionMetadata {
   subagentData?: Record<string, SubagentInfo>;
   /** Assistant UUID for resumeSessionAt after rewind. */
   resumeSessionAt?: string;
+  stagedChanges?: StagedFileChange[];
   /** Fork origin: source session to resume + fork from. Cleared after first SDK session init. */
   forkSource?: ForkSource;
+  forkedFrom?: ForkOrigin;
+  pins?: MessagePin[];
+  scheduledTaskId?: string;
+  vaultTriggerId?: string;
 }
 
 /** Normalized stream chunk from the Claude Agent SDK. */
@@ -181,6 +227,7 @@ export type StreamChunk =
   | { type: 'blocked'; content: string }
   | { type: 'done' }
   | { type: 'usage'; usage: UsageInfo; sessionId?: string | null }
+  | { type: 'cost'; cost: TurnCost }
   | { type: 'compact_boundary' }
   | { type: 'sdk_user_uuid'; uuid: string }
   | { type: 'sdk_user_sent'; uuid: string }
@@ -196,3 +243,26 @@ export interface UsageInfo {
   contextTokens: number;
   percentage: number;
 }
+
+/** Token counts and USD cost for a span of usage. */
+export interface TokenTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+/** Token and cost totals reported by an SDK result message, split by model. */
+export interface TurnCost {
+  totals: TokenTotals;
+  byModel: Record<string, TokenTotals>;
+}
+
+/** Cumulative token and cost accounting for a conversation. */
+export interface ConversationCost {
+  totals: TokenTotals;
+  byModel: Record<string, TokenTotals>;
+  /** Keyed by local date (YYYY-MM-DD). */
+  byDay: Record<string, TokenTotals>;
+}
@@ -3,12 +3,17 @@ export {
   type ChatMessage,
   type ContentBlock,
   type Conversation,
+  type ConversationCost,
   type ConversationMeta,
+  type ForkOrigin,
   type ForkSource,
   type ImageAttachment,
   type ImageMediaType,
+  type MessagePin,
   type SessionMetadata,
   type StreamChunk,
+  type TokenTotals,
+  type TurnCost,
   type UsageInfo,
   VIEW_TYPE_CLAUDIAN,
 } from './chat';
@@ -41,6 +46,7 @@ export {
 // Settings types
 export {
   type ApprovalDecision,
+  type BudgetExceededAction,
   type CCPermissions,
   type CCSettings,
   type ClaudianSettings,
@@ -104,21 +110,56 @@ export {
   isValidMcpServerConfig,
   type McpConfigFile,
   type McpHttpServerConfig,
+  type McpResourceAttachment,
   type McpServerConfig,
+  type McpServerHealth,
   type McpServerType,
   type McpSSEServerConfig,
   type McpStdioServerConfig,
+  type McpToolSelection,
   type ParsedMcpConfig,
 } from './mcp';
 
 // Plugin types
 export {
   type ClaudianPlugin,
+  type DisabledPluginComponents,
   type InstalledPluginEntry,
   type InstalledPluginsFile,
+  type PluginComponentType,
   type PluginScope,
 } from './plugins';
 
+// Scheduler types
+export {
+  type ScheduledTask,
+  type ScheduledTaskRun,
+  type ScheduledTaskRunStatus,
+} from './scheduler';
+
+// Vault trigger types
+export {
+  type VaultTrigger,
+  type VaultTriggerEvent,
+  type VaultTriggerRun,
+} from './triggers';
+
+// Audit log types
+export {
+  type AuditDecision,
+  type AuditDecisionSource,
+  type AuditEntry,
+} from './audit';
+
+// Invocation log types
+export {
+  type InvocationKind,
+  type InvocationRecord,
+} from './invocations';
+
+// Spend ledger types
+export { type SpendRecord } from './spend';
+
 // Agent types
 export {
   AGENT_PERMISSION_MODES,
@@ -0,0 +1,24 @@
+/**
+ * Agent and skill invocation log type definitions.
+ */
+
+/** What was invoked: a subagent via the Task tool, or a skill via the Skill tool. */
+export type InvocationKind = 'agent' | 'skill';
+
+/** One line in the invocation log, written when the invocation finishes. */
+export interface InvocationRecord {
+  /** When the invocation started. */
+  timestamp: number;
+  kind: InvocationKind;
+  /** Subagent type (e.g. "code-reviewer", "my-plugin:reviewer") or skill name. */
+  name: string;
+  conversationId?: string;
+  toolUseId?: string;
+  durationMs: number;
+  /** Tool calls the subagent made; always 0 for skills. */
+  toolCount: number;
+  /** 'cancelled' when the stream was interrupted or failed before the invocation finished. */
+  status: 'completed' | 'error' | 'cancelled';
+  /** Error result, truncated. */
+  error?: string;
+}
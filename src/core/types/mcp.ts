@@ -69,6 +69,31 @@ export interface ClaudianMcpConfigFile extends McpConfigFile {
   };
 }
 
+/** Latest background health check of an MCP server. */
+export interface McpServerHealth {
+  status: 'checking' | 'healthy' | 'unhealthy';
+  /** Ping round trip of the last successful check. */
+  latencyMs?: number;
+  /** Error of the last failed check. */
+  lastError?: string;
+  /** When the last check finished. */
+  checkedAt?: number;
+}
+
+/** MCP resource attached to the next message; its contents are read when the message is sent. */
+export interface McpResourceAttachment {
+  server: string;
+  uri: string;
+  /** Display name shown on the context chip. */
+  name: string;
+}
+
+/**
+ * Per-conversation MCP tool selection: server name to the tools left enabled.
+ * Servers without an entry have all of their tools enabled.
+ */
+export type McpToolSelection = Record<string, string[]>;
+
 /** Result of parsing clipboard config. */
 export interface ParsedMcpConfig {
   servers: Array<{ name: string; config: McpServerConfig }>;
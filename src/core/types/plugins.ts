@@ -23,3 +23,9 @@ export interface InstalledPluginsFile {
   version: number;
   plugins: Record<string, InstalledPluginEntry[]>;
 }
+
+/** Plugin components Claudian can turn off individually. Hooks run inside the CLI and cannot be. */
+export type PluginComponentType = 'agents' | 'commands' | 'skills' | 'mcpServers';
+
+/** Names of a plugin's disabled components, by type. */
+export type DisabledPluginComponents = Partial<Record<PluginComponentType, string[]>>;
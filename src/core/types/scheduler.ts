@@ -0,0 +1,40 @@
+/**
+ * Scheduled task type definitions.
+ */
+
+import type { PermissionMode } from './settings';
+
+/** Outcome of a scheduled task run. */
+export type ScheduledTaskRunStatus = 'running' | 'success' | 'error';
+
+/** One entry in a task's run log. */
+export interface ScheduledTaskRun {
+  startedAt: number;
+  finishedAt?: number;
+  status: ScheduledTaskRunStatus;
+  /** What started the run. */
+  trigger: 'schedule' | 'manual';
+  /** Conversation holding the run transcript. */
+  conversationId?: string;
+  error?: string;
+}
+
+/** A saved prompt or slash command that runs unattended on a cron schedule. */
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  /** Prompt text or slash command (e.g. "/weekly-review"), sent as if typed. */
+  prompt: string;
+  /** Five-field cron expression in local time (minute hour day-of-month month day-of-week). */
+  schedule: string;
+  enabled: boolean;
+  /** Permission mode for the run. Tools that need approval are denied in 'normal' and 'plan'. */
+  permissionMode: PermissionMode;
+  /** Model override (empty = current default model). */
+  model?: string;
+  createdAt: number;
+  /** Scheduled time the task last ran for; the next run is computed from here. */
+  lastScheduledAt?: number;
+  /** Run log, newest first. */
+  runs: ScheduledTaskRun[];
+}
@@ -35,8 +35,10 @@ export interface SDKStreamEvent {
 /** Model usage information from SDK. */
 export interface ModelUsageInfo {
   inputTokens?: number;
+  outputTokens?: number;
   cacheCreationInputTokens?: number;
   cacheReadInputTokens?: number;
+  costUSD?: number;
 }
 
 /** SDK message structure from the Claude Agent SDK (non-result messages). */
@@ -77,7 +79,9 @@ export interface SDKResultMessage {
   subtype?: string;
   uuid?: string;
   session_id?: string;
-  /** Usage info by model name. */
+  /** Total USD cost reported by the CLI process so far (cumulative across turns). */
+  total_cost_usd?: number;
+  /** Usage info by model name (cumulative across turns). */
   modelUsage?: Record<string, ModelUsageInfo>;
   /** Model name for the message. */
   model?: string;
@@ -4,6 +4,7 @@
 
 import type { Locale } from '../../i18n/types';
 import type { ClaudeModel, ThinkingBudget } from './models';
+import type { DisabledPluginComponents } from './plugins';
 
 const UNIX_BLOCKED_COMMANDS = [
   'rm -rf',
@@ -118,7 +119,7 @@ export function getCliPlatformKey(): CliPlatformKey {
 export type HostnameCliPaths = Record<string, string>;
 
 /** Permission mode for tool execution. */
-export type PermissionMode = 'yolo' | 'plan' | 'normal';
+export type PermissionMode = 'yolo' | 'plan' | 'normal' | 'dry-run';
 
 /** User decision from the approval modal. */
 export type ApprovalDecision = 'allow' | 'allow-always' | 'deny' | 'cancel';
@@ -199,7 +200,7 @@ export interface EnvSnippet {
 }
 
 /** Source of a slash command. */
-export type SlashCommandSource = 'builtin' | 'user' | 'plugin' | 'sdk';
+export type SlashCommandSource = 'builtin' | 'user' | 'plugin' | 'sdk' | 'mcp';
 
 /** Slash command configuration with Claude Code compatibility. */
 export interface SlashCommand {
@@ -210,7 +211,7 @@ export interface SlashCommand {
   allowedTools?: string[];     // Restrict tools when command is used
   model?: ClaudeModel;         // Override model for this command
   content: string;             // Prompt template with placeholders
-  source?: SlashCommandSource; // Origin of the command (builtin, user, plugin, sdk)
+  source?: SlashCommandSource; // Origin of the command (builtin, user, plugin, sdk, mcp)
   // Skill fields (from .claude/skills/ definitions)
   disableModelInvocation?: boolean;  // Disable model invocation for this skill
   userInvocable?: boolean;           // Whether user can invoke this skill directly
@@ -229,6 +230,9 @@ export interface KeyboardNavigationSettings {
 /** Tab bar position setting. */
 export type TabBarPosition = 'input' | 'header';
 
+/** What happens when a budget cap is reached: refuse the turn or ask first. */
+export type BudgetExceededAction = 'block' | 'confirm';
+
 /**
  * Claudian-specific settings stored in .claude/claudian-settings.json.
  * These settings are NOT shared with Claude Code CLI.
@@ -241,6 +245,7 @@ export interface ClaudianSettings {
   enableBlocklist: boolean;
   blockedCommands: PlatformBlockedCommands;
   permissionMode: PermissionMode;
+  enableAuditLog: boolean;  // Record tool calls and approval decisions in .claude/audit/
 
   // Model & thinking (Claudian uses enum, CC uses full model ID string)
   model: ClaudeModel;
@@ -258,6 +263,17 @@ export interface ClaudianSettings {
   allowedExportPaths: string[];
   persistentExternalContextPaths: string[];  // Paths that persist across all sessions
 
+  // Conversation export
+  exportFolder: string;  // Vault folder for exported conversation notes (empty = vault root)
+  exportCollapseToolCalls: boolean;  // Render tool calls as folded callouts
+  exportIncludeThinking: boolean;  // Include thinking blocks in exported notes
+
+  // Budget caps (USD, 0 = no cap)
+  budgetConversationUsd: number;
+  budgetDailyUsd: number;  // Per local calendar day, across all conversations
+  budgetVaultUsd: number;  // All recorded spend in this vault
+  budgetExceededAction: BudgetExceededAction;
+
   // Environment (string format, CC uses object format in settings.json)
   environmentVariables: string;
   envSnippets: EnvSnippet[];
@@ -289,13 +305,17 @@ export interface ClaudianSettings {
   slashCommands: SlashCommand[];
 
   // UI preferences
-  maxTabs: number;  // Maximum number of chat tabs (3-10, default 3)
+  maxTabs: number;  // Maximum number of chat tabs (3-50, default 3)
+  tabHibernationMinutes: number;  // Idle minutes before a background tab's process is closed (0 = never)
   tabBarPosition: TabBarPosition;  // Where to show tab bar ('input' or 'header')
   enableAutoScroll: boolean;  // Enable auto-scroll during streaming (default: true)
   openInMainTab: boolean;  // Open chat panel in main editor area instead of sidebar
 
   // Slash commands
   hiddenSlashCommands: string[];  // Command names to hide from dropdown (user preference)
+
+  // Plugins
+  disabledPluginComponents: Record<string, DisabledPluginComponents>;  // Keyed by plugin id
 }
 
 /** Default Claudian-specific settings. */
@@ -307,6 +327,7 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   enableBlocklist: true,
   blockedCommands: getDefaultBlockedCommands(),
   permissionMode: 'yolo',
+  enableAuditLog: true,
 
   // Model & thinking
   model: 'haiku',
@@ -324,6 +345,17 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
   allowedExportPaths: ['~/Desktop', '~/Downloads'],
   persistentExternalContextPaths: [],
 
+  // Conversation export
+  exportFolder: 'Claudian',
+  exportCollapseToolCalls: true,
+  exportIncludeThinking: false,
+
+  // Budget caps
+  budgetConversationUsd: 0,
+  budgetDailyUsd: 0,
+  budgetVaultUsd: 0,
+  budgetExceededAction: 'confirm',
+
   // Environment
   environmentVariables: '',
   envSnippets: [],
@@ -353,12 +385,16 @@ export const DEFAULT_SETTINGS: ClaudianSettings = {
 
   // UI preferences
   maxTabs: 3,  // Default to 3 tabs (safe resource usage)
+  tabHibernationMinutes: 15,  // Close idle background tab processes after 15 minutes
   tabBarPosition: 'input',  // Default to input mode (current behavior)
   enableAutoScroll: true,  // Default to auto-scroll enabled
   openInMainTab: false,  // Default to sidebar (current behavior)
 
   // Slash commands
   hiddenSlashCommands: [],  // No commands hidden by default
+
+  // Plugins
+  disabledPluginComponents: {},  // All components of enabled plugins are available
 };
 
 /** Default CC-compatible settings. */
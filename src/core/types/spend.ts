@@ -0,0 +1,11 @@
+/**
+ * Spend ledger type definitions.
+ */
+
+/** One line in the spend ledger: what one finished turn cost. */
+export interface SpendRecord {
+  timestamp: number;
+  costUsd: number;
+  /** Conversation the turn ran in; agent test runs and unsaved conversations have none. */
+  conversationId?: string;
+}
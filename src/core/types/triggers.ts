@@ -0,0 +1,50 @@
+/**
+ * Vault trigger type definitions.
+ */
+
+import type { ScheduledTaskRunStatus } from './scheduler';
+import type { PermissionMode } from './settings';
+
+/**
+ * Vault event a trigger listens for. 'frontmatter' fires when a note's
+ * frontmatter or tags change.
+ */
+export type VaultTriggerEvent = 'create' | 'modify' | 'rename' | 'frontmatter';
+
+/** One entry in a trigger's execution history. */
+export interface VaultTriggerRun {
+  startedAt: number;
+  finishedAt?: number;
+  status: ScheduledTaskRunStatus;
+  event: VaultTriggerEvent;
+  /** File the trigger ran on. */
+  filePath: string;
+  /** Conversation holding the run transcript. */
+  conversationId?: string;
+  error?: string;
+}
+
+/** Runs a slash command on a file when a vault event matches. */
+export interface VaultTrigger {
+  id: string;
+  name: string;
+  event: VaultTriggerEvent;
+  /** Folder the file must be in, recursively ('' = whole vault). */
+  folder: string;
+  /** Tag the file must have, without '#'. For 'frontmatter' triggers the tag must be newly added. */
+  tag?: string;
+  /** Slash command name without the leading '/'. */
+  command: string;
+  /** Arguments appended after the command. */
+  arguments?: string;
+  enabled: boolean;
+  /** Permission mode for the run. Tools that need approval are denied in 'normal' and 'plan'. */
+  permissionMode: PermissionMode;
+  /** Model override (empty = current default model). */
+  model?: string;
+  /** Quiet period after the last matching event before the command runs. */
+  debounceSeconds: number;
+  createdAt: number;
+  /** Execution history, newest first. */
+  runs: VaultTriggerRun[];
+}
@@ -0,0 +1,106 @@
+/**
+ * Budget caps - Compares recorded spend against per-conversation, per-day,
+ * and per-vault USD limits from settings.
+ *
+ * Daily and vault spend come from the spend ledger, which every turn is
+ * appended to (including compare branches, background runs and agent test
+ * runs) and which deleting conversations does not change.
+ */
+
+import type { ClaudianSettings, SpendRecord } from '../types';
+import { formatUsd, toDayKey } from './costAccounting';
+
+export type BudgetScope = 'conversation' | 'day' | 'vault';
+
+/** Caps in USD. 0 disables a cap. */
+export type BudgetLimits = Record<BudgetScope, number>;
+
+/** Spend in USD counted against each cap. */
+export type BudgetSpend = Record<BudgetScope, number>;
+
+export interface BudgetStatus {
+  /** Scopes whose cap has been reached. */
+  exceeded: BudgetScope[];
+  /** Scope with the least budget left, or null when no cap is set. */
+  tightest: BudgetScope | null;
+  /** Budget left under the tightest cap (never negative), or null when no cap is set. */
+  remaining: number | null;
+  /** The tightest cap's limit, or null when no cap is set. */
+  limit: number | null;
+}
+
+const BUDGET_SCOPES: BudgetScope[] = ['conversation', 'day', 'vault'];
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  conversation: 'conversation',
+  day: 'daily',
+  vault: 'vault',
+};
+
+export function getBudgetLimits(
+  settings: Pick<ClaudianSettings, 'budgetConversationUsd' | 'budgetDailyUsd' | 'budgetVaultUsd'>
+): BudgetLimits {
+  return {
+    conversation: settings.budgetConversationUsd,
+    day: settings.budgetDailyUsd,
+    vault: settings.budgetVaultUsd,
+  };
+}
+
+export function hasBudgetLimits(limits: BudgetLimits): boolean {
+  return BUDGET_SCOPES.some(scope => limits[scope] > 0);
+}
+
+/**
+ * Sums today's (local time) and the whole vault's spend from the ledger.
+ * `conversationCostUsd` is what the current conversation has cost so far.
+ */
+export function computeBudgetSpend(
+  ledger: SpendRecord[],
+  conversationCostUsd: number,
+  now: number
+): BudgetSpend {
+  const today = toDayKey(now);
+  const spend: BudgetSpend = { conversation: conversationCostUsd, day: 0, vault: 0 };
+
+  for (const record of ledger) {
+    spend.vault += record.costUsd;
+    if (toDayKey(record.timestamp) === today) {
+      spend.day += record.costUsd;
+    }
+  }
+
+  return spend;
+}
+
+export function evaluateBudget(limits: BudgetLimits, spend: BudgetSpend): BudgetStatus {
+  const status: BudgetStatus = { exceeded: [], tightest: null, remaining: null, limit: null };
+
+  for (const scope of BUDGET_SCOPES) {
+    const limit = limits[scope];
+    if (!(limit > 0)) continue;
+
+    const remaining = Math.max(0, limit - spend[scope]);
+    if (remaining <= 0) {
+      status.exceeded.push(scope);
+    }
+    if (status.remaining === null || remaining < status.remaining) {
+      status.tightest = scope;
+      status.remaining = remaining;
+      status.limit = limit;
+    }
+  }
+
+  return status;
+}
+
+/** Describes which caps were reached, e.g. "Daily budget of $5.00 reached ($5.12 spent)." */
+export function describeExceededBudget(limits: BudgetLimits, spend: BudgetSpend, scopes: BudgetScope[]): string {
+  return scopes
+    .map(scope => {
+      const label = SCOPE_LABELS[scope];
+      const name = label.charAt(0).toUpperCase() + label.slice(1);
+      return `${name} budget of ${formatUsd(limits[scope])} reached (${formatUsd(spend[scope])} spent).`;
+    })
+    .join(' ');
+}
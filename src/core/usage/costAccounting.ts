@@ -0,0 +1,191 @@
+/**
+ * Cost accounting - Token and USD totals per conversation and per vault.
+ *
+ * SDK result messages report totals that are cumulative for the CLI process.
+ * ResultCostTracker turns them into per-turn deltas, which are then folded
+ * into a conversation's ConversationCost (overall, per model, per local day).
+ */
+
+import type { ConversationCost, TokenTotals, TurnCost } from '../types';
+
+export function emptyTokenTotals(): TokenTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+export function addTokenTotals(a: TokenTotals, b: TokenTotals): TokenTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+function subtractTokenTotals(a: TokenTotals, b: TokenTotals): TokenTotals {
+  return {
+    inputTokens: a.inputTokens - b.inputTokens,
+    outputTokens: a.outputTokens - b.outputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens - b.cacheCreationInputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens - b.cacheReadInputTokens,
+    costUsd: a.costUsd - b.costUsd,
+  };
+}
+
+function isNegative(totals: TokenTotals): boolean {
+  return totals.inputTokens < 0
+    || totals.outputTokens < 0
+    || totals.cacheCreationInputTokens < 0
+    || totals.cacheReadInputTokens < 0
+    || totals.costUsd < 0;
+}
+
+/** Sum of all tokens (input, output, and cache). */
+export function totalTokens(totals: TokenTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.cacheCreationInputTokens + totals.cacheReadInputTokens;
+}
+
+/** Local calendar date (YYYY-MM-DD) used to bucket spend per day. */
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Converts cumulative per-process result totals into per-turn deltas.
+ * One tracker per CLI process; reset when a new process starts.
+ */
+export class ResultCostTracker {
+  private baseline: TurnCost | null = null;
+
+  /** Returns the cost of the turn that produced `cumulative`. */
+  toTurnCost(cumulative: TurnCost): TurnCost {
+    const baseline = this.baseline;
+    this.baseline = cumulative;
+
+    if (!baseline) return cumulative;
+
+    const totals = subtractTokenTotals(cumulative.totals, baseline.totals);
+    // Totals went backwards: the CLI process was replaced, so this is a fresh count
+    if (isNegative(totals)) return cumulative;
+
+    const byModel: Record<string, TokenTotals> = {};
+    for (const [model, modelTotals] of Object.entries(cumulative.byModel)) {
+      const previous = baseline.byModel[model];
+      const delta = previous ? subtractTokenTotals(modelTotals, previous) : modelTotals;
+      if (totalTokens(delta) > 0 || delta.costUsd > 0) {
+        byModel[model] = delta;
+      }
+    }
+
+    return { totals, byModel };
+  }
+
+  reset(): void {
+    this.baseline = null;
+  }
+}
+
+/** Folds a turn's cost into a conversation's running totals. Returns a new object. */
+export function applyTurnCost(
+  cost: ConversationCost | null | undefined,
+  turn: TurnCost,
+  timestamp: number
+): ConversationCost {
+  const byModel = { ...(cost?.byModel ?? {}) };
+  for (const [model, totals] of Object.entries(turn.byModel)) {
+    byModel[model] = addTokenTotals(byModel[model] ?? emptyTokenTotals(), totals);
+  }
+
+  const dayKey = toDayKey(timestamp);
+  const byDay = { ...(cost?.byDay ?? {}) };
+  byDay[dayKey] = addTokenTotals(byDay[dayKey] ?? emptyTokenTotals(), turn.totals);
+
+  return {
+    totals: addTokenTotals(cost?.totals ?? emptyTokenTotals(), turn.totals),
+    byModel,
+    byDay,
+  };
+}
+
+export interface UsageSummaryRow {
+  key: string;
+  label: string;
+  totals: TokenTotals;
+}
+
+/** Vault-wide spend aggregated from conversation costs. */
+export interface UsageSummary {
+  totals: TokenTotals;
+  /** Newest day first. */
+  byDay: UsageSummaryRow[];
+  /** Highest cost first. */
+  byModel: UsageSummaryRow[];
+  /** Highest cost first. */
+  byConversation: UsageSummaryRow[];
+}
+
+function sortByCost(rows: UsageSummaryRow[]): UsageSummaryRow[] {
+  return rows.sort((a, b) => b.totals.costUsd - a.totals.costUsd || totalTokens(b.totals) - totalTokens(a.totals));
+}
+
+/** Aggregates per-conversation costs into vault totals by day, model, and conversation. */
+export function summarizeUsage(
+  conversations: Array<{ id: string; title: string; cost?: ConversationCost }>
+): UsageSummary {
+  let totals = emptyTokenTotals();
+  const byDay = new Map<string, TokenTotals>();
+  const byModel = new Map<string, TokenTotals>();
+  const byConversation: UsageSummaryRow[] = [];
+
+  for (const conversation of conversations) {
+    const cost = conversation.cost;
+    if (!cost) continue;
+
+    totals = addTokenTotals(totals, cost.totals);
+    byConversation.push({ key: conversation.id, label: conversation.title, totals: cost.totals });
+
+    for (const [day, dayTotals] of Object.entries(cost.byDay)) {
+      byDay.set(day, addTokenTotals(byDay.get(day) ?? emptyTokenTotals(), dayTotals));
+    }
+    for (const [model, modelTotals] of Object.entries(cost.byModel)) {
+      byModel.set(model, addTokenTotals(byModel.get(model) ?? emptyTokenTotals(), modelTotals));
+    }
+  }
+
+  return {
+    totals,
+    byDay: [...byDay.entries()]
+      .map(([day, dayTotals]) => ({ key: day, label: day, totals: dayTotals }))
+      .sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: sortByCost([...byModel.entries()].map(([model, modelTotals]) => ({
+      key: model,
+      label: model,
+      totals: modelTotals,
+    }))),
+    byConversation: sortByCost(byConversation),
+  };
+}
+
+/** Formats a USD amount with more precision for small values. */
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) {
+    return `$${amount.toFixed(4)}`;
+  }
+  return `$${amount.toFixed(2)}`;
+}
+
+/** Formats a token count compactly (e.g., 1.2k, 3.4M). */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
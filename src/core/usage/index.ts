@@ -0,0 +1,33 @@
+export {
+  type BudgetLimits,
+  type BudgetScope,
+  type BudgetSpend,
+  type BudgetStatus,
+  computeBudgetSpend,
+  describeExceededBudget,
+  evaluateBudget,
+  getBudgetLimits,
+  hasBudgetLimits,
+} from './budget';
+export {
+  addTokenTotals,
+  applyTurnCost,
+  emptyTokenTotals,
+  formatTokenCount,
+  formatUsd,
+  ResultCostTracker,
+  summarizeUsage,
+  toDayKey,
+  totalTokens,
+  type UsageSummary,
+  type UsageSummaryRow,
+} from './costAccounting';
+export {
+  DEFAULT_SUBAGENT_TYPE,
+  type InvocationStats,
+  type InvocationSummary,
+  InvocationTracker,
+  type InvocationTrackerDeps,
+  summarizeInvocations,
+} from './invocations';
+export { SpendLedger, type SpendLedgerDeps, spendRecordsFromConversations } from './spendLedger';
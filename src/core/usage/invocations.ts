@@ -0,0 +1,206 @@
+/**
+ * Invocations - Agent and skill usage analytics.
+ *
+ * InvocationTracker follows Task and Skill tool calls of a stream and produces an
+ * InvocationRecord when each finishes; summarizeInvocations folds the recorded
+ * invocations into per-agent and per-skill statistics.
+ */
+
+import { TOOL_SKILL, TOOL_TASK } from '../tools/toolNames';
+import type { InvocationKind, InvocationRecord, SubagentInfo } from '../types';
+
+/** Subagent type the SDK uses when a Task call names none. */
+export const DEFAULT_SUBAGENT_TYPE = 'general-purpose';
+
+const MAX_ERROR_LENGTH = 300;
+
+interface PendingInvocation {
+  kind: InvocationKind;
+  name: string;
+  startedAt: number;
+  /** Captured at the start; the tab may have moved on by the time the invocation finishes. */
+  conversationId: string | null;
+}
+
+function truncateError(error: string | undefined): string | undefined {
+  if (!error) return undefined;
+  return error.length > MAX_ERROR_LENGTH ? `${error.slice(0, MAX_ERROR_LENGTH)}…` : error;
+}
+
+export interface InvocationTrackerDeps {
+  record: (record: InvocationRecord) => void;
+  getConversationId: () => string | null;
+  now?: () => number;
+}
+
+export class InvocationTracker {
+  private pending = new Map<string, PendingInvocation>();
+
+  constructor(private deps: InvocationTrackerDeps) {}
+
+  /** Call for every top-level tool_use; Task input may arrive in several chunks. */
+  trackToolUse(toolUseId: string, toolName: string, input: Record<string, unknown>): void {
+    if (toolName === TOOL_TASK) {
+      const subagentType = typeof input.subagent_type === 'string' && input.subagent_type
+        ? input.subagent_type
+        : null;
+      const existing = this.pending.get(toolUseId);
+      if (existing) {
+        if (subagentType) existing.name = subagentType;
+        return;
+      }
+      this.pending.set(toolUseId, this.start('agent', subagentType ?? DEFAULT_SUBAGENT_TYPE));
+      return;
+    }
+
+    if (toolName === TOOL_SKILL && !this.pending.has(toolUseId)) {
+      const skill = typeof input.skill === 'string' ? input.skill : input.command;
+      if (typeof skill === 'string' && skill) {
+        this.pending.set(toolUseId, this.start('skill', skill.replace(/^\//, '')));
+      }
+    }
+  }
+
+  /** Finishes a skill invocation when its tool_result arrives. Other tool results are ignored. */
+  completeSkill(toolUseId: string, isError: boolean, result: string): void {
+    const pending = this.pending.get(toolUseId);
+    if (pending?.kind !== 'skill') return;
+    this.finish(toolUseId, pending, {
+      toolCount: 0,
+      status: isError ? 'error' : 'completed',
+      error: isError ? result : undefined,
+    });
+  }
+
+  /** Finishes a subagent invocation once SubagentManager reports it completed or failed. */
+  completeSubagent(info: SubagentInfo): void {
+    const pending = this.pending.get(info.id);
+    if (pending?.kind !== 'agent' || info.status === 'running') return;
+    this.finish(info.id, pending, {
+      startedAt: info.startedAt,
+      completedAt: info.completedAt,
+      toolCount: info.toolCalls?.length ?? 0,
+      status: info.status,
+      error: info.status === 'error' ? info.result : undefined,
+    });
+  }
+
+  /**
+   * Logs every unfinished invocation as cancelled, for streams that were
+   * interrupted or failed. `keep` spares invocations that outlive the stream,
+   * such as background subagents.
+   */
+  cancelPending(keep: (toolUseId: string) => boolean = () => false): void {
+    for (const [toolUseId, pending] of [...this.pending]) {
+      if (keep(toolUseId)) continue;
+      this.finish(toolUseId, pending, {
+        toolCount: 0,
+        status: 'cancelled',
+      });
+    }
+  }
+
+  private finish(
+    toolUseId: string,
+    pending: PendingInvocation,
+    result: {
+      startedAt?: number;
+      completedAt?: number;
+      toolCount: number;
+      status: InvocationRecord['status'];
+      error?: string;
+    }
+  ): void {
+    this.pending.delete(toolUseId);
+    // Async subagents report when they actually started running
+    const startedAt = result.startedAt ?? pending.startedAt;
+    const completedAt = result.completedAt ?? this.now();
+
+    this.deps.record({
+      timestamp: startedAt,
+      kind: pending.kind,
+      name: pending.name,
+      conversationId: pending.conversationId ?? undefined,
+      toolUseId,
+      durationMs: Math.max(0, completedAt - startedAt),
+      toolCount: result.toolCount,
+      status: result.status,
+      error: truncateError(result.error),
+    });
+  }
+
+  private start(kind: InvocationKind, name: string): PendingInvocation {
+    return { kind, name, startedAt: this.now(), conversationId: this.deps.getConversationId() };
+  }
+
+  private now(): number {
+    return this.deps.now?.() ?? Date.now();
+  }
+}
+
+export interface InvocationStats {
+  kind: InvocationKind;
+  name: string;
+  count: number;
+  errors: number;
+  /** Average over all invocations; 0 when never invoked. */
+  avgDurationMs: number;
+  avgToolCount: number;
+  lastUsedAt: number | null;
+  lastError?: string;
+}
+
+export interface InvocationSummary {
+  agents: InvocationStats[];
+  skills: InvocationStats[];
+}
+
+/**
+ * Statistics per agent and per skill, most used first. Known names that were
+ * never invoked are included with a count of 0 so unused ones stand out.
+ */
+export function summarizeInvocations(
+  records: InvocationRecord[],
+  known: { agents?: string[]; skills?: string[] } = {}
+): InvocationSummary {
+  const stats = new Map<string, InvocationStats & { totalDurationMs: number; totalToolCount: number }>();
+  const getStats = (kind: InvocationKind, name: string) => {
+    const key = `${kind}:${name}`;
+    let entry = stats.get(key);
+    if (!entry) {
+      entry = {
+        kind, name, count: 0, errors: 0, avgDurationMs: 0, avgToolCount: 0, lastUsedAt: null,
+        totalDurationMs: 0, totalToolCount: 0,
+      };
+      stats.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const name of known.agents ?? []) getStats('agent', name);
+  for (const name of known.skills ?? []) getStats('skill', name);
+
+  for (const record of [...records].sort((a, b) => a.timestamp - b.timestamp)) {
+    const entry = getStats(record.kind, record.name);
+    entry.count++;
+    entry.totalDurationMs += record.durationMs;
+    entry.totalToolCount += record.toolCount;
+    entry.lastUsedAt = record.timestamp;
+    if (record.status === 'error') {
+      entry.errors++;
+      entry.lastError = record.error;
+    }
+  }
+
+  const rows = [...stats.values()].map(({ totalDurationMs, totalToolCount, ...row }) => ({
+    ...row,
+    avgDurationMs: row.count > 0 ? totalDurationMs / row.count : 0,
+    avgToolCount: row.count > 0 ? totalToolCount / row.count : 0,
+  }));
+  rows.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  return {
+    agents: rows.filter(row => row.kind === 'agent'),
+    skills: rows.filter(row => row.kind === 'skill'),
+  };
+}
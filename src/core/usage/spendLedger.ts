@@ -0,0 +1,71 @@
+/**
+ * SpendLedger - What every turn cost, kept apart from conversation history.
+ *
+ * Budget caps are checked against this ledger, so deleting conversations does
+ * not reset them, and turns that never become part of a saved conversation
+ * (compare branches, agent test runs) still count. Records are held in memory
+ * and appended to storage as they come in.
+ */
+
+import type { ConversationCost, SpendRecord } from '../types';
+import { type BudgetSpend, computeBudgetSpend } from './budget';
+
+export interface SpendLedgerDeps {
+  load: () => Promise<SpendRecord[]>;
+  append: (record: SpendRecord) => Promise<void>;
+}
+
+/**
+ * Turns the per-day costs stored on conversations into ledger records, dated
+ * at noon of each day. Seeds the ledger the first time it is used.
+ */
+export function spendRecordsFromConversations(
+  conversations: Array<{ id: string; cost?: ConversationCost }>
+): SpendRecord[] {
+  const records: SpendRecord[] = [];
+  for (const conversation of conversations) {
+    for (const [day, totals] of Object.entries(conversation.cost?.byDay ?? {})) {
+      const [year, month, date] = day.split('-').map(Number);
+      if (!year || !month || !date || !(totals.costUsd > 0)) continue;
+      records.push({
+        timestamp: new Date(year, month - 1, date, 12).getTime(),
+        costUsd: totals.costUsd,
+        conversationId: conversation.id,
+      });
+    }
+  }
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export class SpendLedger {
+  private records: SpendRecord[] = [];
+
+  constructor(private deps: SpendLedgerDeps) {}
+
+  /** Loads the stored ledger. An empty ledger is seeded with `seed` and saved. */
+  async load(seed: () => SpendRecord[] = () => []): Promise<void> {
+    let stored = await this.deps.load();
+    if (stored.length === 0) {
+      stored = seed();
+      for (const record of stored) {
+        await this.deps.append(record);
+      }
+    }
+    // Turns recorded while loading are kept
+    this.records = [...stored, ...this.records];
+  }
+
+  /** Adds a finished turn. Saving is best-effort; the turn still counts for this session. */
+  record(costUsd: number, conversationId: string | null, now = Date.now()): void {
+    if (!(costUsd > 0)) return;
+    const record: SpendRecord = { timestamp: now, costUsd, ...(conversationId ? { conversationId } : {}) };
+    this.records.push(record);
+    this.deps.append(record).catch(() => {
+      // Non-critical: the record stays in memory
+    });
+  }
+
+  getSpend(conversationCostUsd: number, now = Date.now()): BudgetSpend {
+    return computeBudgetSpend(this.records, conversationCostUsd, now);
+  }
+}
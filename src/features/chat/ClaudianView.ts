@@ -4,7 +4,7 @@ import { ItemView, Notice, setIcon } from 'obsidian';
 import { VIEW_TYPE_CLAUDIAN } from '../../core/types';
 import type ClaudianPlugin from '../../main';
 import { LOGO_SVG } from './constants';
-import { TabBar, TabManager, updatePlanModeUI } from './tabs';
+import { openMcpResourceBrowser, TabBar, TabManager, updateBudgetIndicator, updatePlanModeUI } from './tabs';
 import type { TabData, TabId } from './tabs/types';
 
 export class ClaudianView extends ItemView {
@@ -38,6 +38,9 @@ export class ClaudianView extends ItemView {
   // Debouncing for tab state persistence
   private pendingPersist: ReturnType<typeof setTimeout> | null = null;
 
+  // MCP health is only monitored while a chat view is open
+  private releaseMcpHealth: (() => void) | null = null;
+
   constructor(leaf: WorkspaceLeaf, plugin: ClaudianPlugin) {
     super(leaf);
     this.plugin = plugin;
@@ -84,16 +87,40 @@ export class ClaudianView extends ItemView {
     activeTab?.ui.modelSelector?.renderOptions();
   }
 
-  /** Updates hidden slash commands on all tabs (used after settings change). */
+  /** Updates hidden slash commands on all tabs (used after settings or plugin component changes). */
   updateHiddenSlashCommands(): void {
-    const hiddenCommands = new Set(
-      (this.plugin.settings.hiddenSlashCommands || []).map(c => c.toLowerCase())
-    );
+    const hiddenCommands = this.plugin.getHiddenSlashCommands();
     for (const tab of this.tabManager?.getAllTabs() ?? []) {
       tab.ui.slashCommandDropdown?.setHiddenCommands(hiddenCommands);
     }
   }
 
+  /** Refreshes remaining-budget displays after budget settings change. */
+  updateBudgetIndicators(): void {
+    for (const tab of this.tabManager?.getAllTabs() ?? []) {
+      updateBudgetIndicator(tab, this.plugin);
+    }
+  }
+
+  /** Turns dry-run mode on, or back to normal mode when it is already on. */
+  toggleDryRun(): void {
+    const activeTab = this.tabManager?.getActiveTab();
+    if (!activeTab) return;
+
+    const next = this.plugin.settings.permissionMode === 'dry-run' ? 'normal' : 'dry-run';
+    activeTab.state.prePlanPermissionMode = null;
+    updatePlanModeUI(activeTab, this.plugin, next);
+    new Notice(next === 'dry-run'
+      ? 'Dry run on: file edits are staged for review'
+      : 'Dry run off');
+  }
+
+  openMcpResourceBrowser(): void {
+    const activeTab = this.tabManager?.getActiveTab();
+    if (!activeTab) return;
+    openMcpResourceBrowser(activeTab, this.plugin);
+  }
+
   async onOpen() {
     // Guard: Hover Editor and similar plugins may call onOpen before DOM is ready.
     // containerEl must exist before we can access contentEl or create elements.
@@ -154,8 +181,12 @@ export class ClaudianView extends ItemView {
         onTabConversationChanged: () => {
           this.persistTabState();
         },
+        onTabResourcesChanged: () => this.updateTabBar(),
       }
     );
+    this.tabManager.startResourceMonitor();
+    this.releaseMcpHealth?.();
+    this.releaseMcpHealth = this.plugin.mcpManager.watchHealth();
 
     // Wire up view-level event handlers
     this.wireEventHandlers();
@@ -180,6 +211,9 @@ export class ClaudianView extends ItemView {
     }
     this.eventRefs = [];
 
+    this.releaseMcpHealth?.();
+    this.releaseMcpHealth = null;
+
     // Persist tab state before cleanup (immediate, not debounced)
     await this.persistTabStateImmediate();
 
@@ -428,13 +462,14 @@ export class ClaudianView extends ItemView {
 
     if (conversationController) {
       conversationController.renderHistoryDropdown(this.historyDropdown, {
-        onSelectConversation: async (conversationId) => {
+        onSelectConversation: async (conversationId, messageId) => {
           // Check if conversation is already open in this view's tabs
           const existingTab = this.findTabWithConversation(conversationId);
           if (existingTab) {
             // Switch to existing tab instead of opening in current tab
             await this.tabManager?.switchToTab(existingTab.id);
             this.historyDropdown?.removeClass('visible');
+            this.revealSearchHit(existingTab, messageId);
             return;
           }
 
@@ -443,19 +478,28 @@ export class ClaudianView extends ItemView {
           if (crossViewResult && crossViewResult.view !== this) {
             // Focus the other view's leaf and switch to the tab
             this.plugin.app.workspace.revealLeaf(crossViewResult.view.leaf);
-            await crossViewResult.view.getTabManager()?.switchToTab(crossViewResult.tabId);
+            const otherTabManager = crossViewResult.view.getTabManager();
+            await otherTabManager?.switchToTab(crossViewResult.tabId);
             this.historyDropdown?.removeClass('visible');
+            this.revealSearchHit(otherTabManager?.getActiveTab(), messageId);
             return;
           }
 
           // Open in current tab
           await this.tabManager?.openConversation(conversationId);
           this.historyDropdown?.removeClass('visible');
+          this.revealSearchHit(this.tabManager?.getActiveTab(), messageId);
         },
       });
     }
   }
 
+  /** Scrolls to the message a history search hit points at, if any. */
+  private revealSearchHit(tab: TabData | null | undefined, messageId?: string): void {
+    if (!messageId) return;
+    tab?.controllers.conversationController?.revealMessage(messageId);
+  }
+
   private findTabWithConversation(conversationId: string): TabData | null {
     const tabs = this.tabManager?.getAllTabs() ?? [];
     return tabs.find(tab => tab.conversationId === conversationId) ?? null;
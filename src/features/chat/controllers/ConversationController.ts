@@ -1,13 +1,17 @@
 import { Notice, setIcon } from 'obsidian';
 
 import type { ClaudianService } from '../../../core/agent';
-import type { Conversation } from '../../../core/types';
+import type { ConversationSearchResult, SearchSnippet } from '../../../core/search';
+import type { ChatMessage, Conversation } from '../../../core/types';
+import { applyTurnCost } from '../../../core/usage';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { confirm } from '../../../shared/modals/ConfirmModal';
+import { chooseStagedChangesAction } from '../../../shared/modals/StagedChangesModal';
 import { cleanupThinkingBlock } from '../rendering';
 import type { MessageRenderer } from '../rendering/MessageRenderer';
 import { findRewindContext } from '../rewind';
+import type { CompareBranchResult } from '../services/CompareService';
 import type { SubagentManager } from '../services/SubagentManager';
 import type { TitleGenerationService } from '../services/TitleGenerationService';
 import type { ChatState } from '../state/ChatState';
@@ -34,6 +38,8 @@ export interface ConversationControllerDeps {
   getMcpServerSelector: () => McpServerSelector | null;
   getExternalContextSelector: () => ExternalContextSelector | null;
   clearQueuedMessage: () => void;
+  showDryRunReview: () => void;
+  clearDryRunReview: () => void;
   getTitleGenerationService: () => TitleGenerationService | null;
   getStatusPanel: () => StatusPanel | null;
   getAgentService?: () => ClaudianService | null;
@@ -43,9 +49,40 @@ type SaveOptions = {
   resumeSessionAt?: string;
 };
 
+type HistoryRenderOptions = {
+  /** messageId is set when a search hit was clicked, to jump to that message. */
+  onSelectConversation: (id: string, messageId?: string) => Promise<void>;
+  onRerender: () => void;
+};
+
+/** Delay before running a history search after the last keystroke. */
+const HISTORY_SEARCH_DEBOUNCE_MS = 150;
+
+/** How long a message jumped to from search stays highlighted. */
+const SEARCH_HIT_FLASH_MS = 2000;
+
+/** Renders snippet text with highlighted ranges as <mark> elements. */
+function renderHighlightedSnippet(el: HTMLElement, snippet: SearchSnippet): void {
+  let cursor = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start > cursor) {
+      el.createSpan({ text: snippet.text.slice(cursor, start) });
+    }
+    el.createEl('mark', { cls: 'claudian-history-search-highlight', text: snippet.text.slice(start, end) });
+    cursor = end;
+  }
+  if (cursor < snippet.text.length) {
+    el.createSpan({ text: snippet.text.slice(cursor) });
+  }
+}
+
 export class ConversationController {
   private deps: ConversationControllerDeps;
   private callbacks: ConversationCallbacks;
+  private historySearchQuery = '';
+  private historySearchTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Incremented per search so stale results from slower searches are dropped. */
+  private historySearchGeneration = 0;
 
   constructor(deps: ConversationControllerDeps, callbacks: ConversationCallbacks = {}) {
     this.deps = deps;
@@ -56,6 +93,59 @@ export class ConversationController {
     return this.deps.getAgentService?.() ?? null;
   }
 
+  /**
+   * Dry-run staging belongs to the tab's service, so changes staged in this
+   * conversation must be applied or discarded before the tab leaves it or closes.
+   * Files changed on disk since they were staged are only overwritten after
+   * asking. Returns false when the user chose to stay. Forced leaves cannot stay
+   * and discard what the user does not apply.
+   */
+  async settleStagedChanges(force: boolean): Promise<boolean> {
+    const staging = this.getAgentService()?.getDryRunStaging();
+    if (staging?.hasChanges()) {
+      const action = await chooseStagedChangesAction(this.deps.plugin.app, staging.getChanges().length);
+      if (!action && !force) return false;
+
+      if (action === 'apply') {
+        try {
+          const conflicts = await staging.acceptAll();
+          if (conflicts.length > 0) {
+            const overwrite = await confirm(
+              this.deps.plugin.app,
+              t('chat.dryRunLeave.conflict', { files: conflicts.join(', ') }),
+              t('chat.dryRunLeave.overwrite')
+            );
+            if (overwrite) {
+              await staging.acceptAll({ overwrite: true });
+            } else if (!force) {
+              return false;
+            }
+          }
+        } catch (error) {
+          new Notice(t('chat.dryRunLeave.failed', { error: error instanceof Error ? error.message : String(error) }));
+          if (!force) return false;
+        }
+      }
+      await staging.clear();
+    }
+
+    this.deps.clearDryRunReview();
+    return true;
+  }
+
+  /**
+   * Stages the changes a conversation was saved with (see save()) and shows them
+   * for review. Changes are only kept this way when the view closed before they
+   * could be settled.
+   */
+  async restoreStagedChanges(conversation: Conversation): Promise<void> {
+    const staging = this.getAgentService()?.getDryRunStaging();
+    if (!staging || !conversation.stagedChanges?.length) return;
+
+    await staging.restore(conversation.stagedChanges);
+    this.deps.showDryRunReview();
+  }
+
   // ============================================
   // Conversation Lifecycle
   // ============================================
@@ -65,18 +155,21 @@ export class ConversationController {
    *
    * Entry point is a blank UI state - no conversation is created until the
    * first message is sent. This prevents empty conversations cluttering history.
+   * Resolves false when the tab was left as is.
    */
-  async createNew(options: { force?: boolean } = {}): Promise<void> {
+  async createNew(options: { force?: boolean } = {}): Promise<boolean> {
     const { plugin, state, subagentManager } = this.deps;
     const force = !!options.force;
-    if (state.isStreaming && !force) return;
-    if (state.isCreatingConversation) return;
-    if (state.isSwitchingConversation) return;
+    if (state.isStreaming && !force) return false;
+    if (state.isCreatingConversation) return false;
+    if (state.isSwitchingConversation) return false;
 
     // Set flag to block message sending during reset
     state.isCreatingConversation = true;
 
     try {
+      if (!await this.settleStagedChanges(force)) return false;
+
       if (force && state.isStreaming) {
         state.cancelRequested = true;
         state.bumpStreamGeneration();
@@ -105,6 +198,7 @@ export class ConversationController {
       state.currentConversationId = null;
       state.clearMessages();
       state.usage = null;
+      state.cost = null;
       state.currentTodos = null;
       state.pendingNewSessionPlan = null;
       state.planFilePath = null;
@@ -145,6 +239,7 @@ export class ConversationController {
       this.deps.clearQueuedMessage();
 
       this.callbacks.onNewConversation?.();
+      return true;
     } finally {
       state.isCreatingConversation = false;
     }
@@ -167,6 +262,7 @@ export class ConversationController {
       state.currentConversationId = null;
       state.clearMessages();
       state.usage = null;
+      state.cost = null;
       state.currentTodos = null;
       state.pendingNewSessionPlan = null;
       state.planFilePath = null;
@@ -205,6 +301,7 @@ export class ConversationController {
     state.currentConversationId = conversation.id;
     state.messages = [...conversation.messages];
     state.usage = conversation.usage ?? null;
+    state.cost = conversation.cost ?? null;
     state.autoScrollEnabled = plugin.settings.enableAutoScroll ?? true;
 
     // Clear status panels (auto-hide: panels reappear when agent creates new todos/subagents)
@@ -242,6 +339,7 @@ export class ConversationController {
     } else {
       mcpServerSelector?.clearEnabled();
     }
+    mcpServerSelector?.setToolSelection(conversation.enabledMcpTools ?? {});
 
     const welcomeEl = renderer.renderMessages(
       state.messages,
@@ -265,6 +363,8 @@ export class ConversationController {
     state.isSwitchingConversation = true;
 
     try {
+      if (!await this.settleStagedChanges(false)) return;
+
       await this.save();
 
       subagentManager.orphanAllActive();
@@ -278,6 +378,7 @@ export class ConversationController {
       state.currentConversationId = conversation.id;
       state.messages = [...conversation.messages];
       state.usage = conversation.usage ?? null;
+      state.cost = conversation.cost ?? null;
       state.autoScrollEnabled = plugin.settings.enableAutoScroll ?? true;
 
       // Clear status panels (auto-hide: panels reappear when agent creates new todos/subagents)
@@ -322,6 +423,7 @@ export class ConversationController {
       } else {
         mcpServerSelector?.clearEnabled();
       }
+      mcpServerSelector?.setToolSelection(conversation.enabledMcpTools ?? {});
 
       const welcomeEl = renderer.renderMessages(
         state.messages,
@@ -331,6 +433,7 @@ export class ConversationController {
 
       this.deps.getHistoryDropdown()?.removeClass('visible');
       this.updateWelcomeVisibility();
+      await this.restoreStagedChanges(conversation);
 
       this.callbacks.onConversationSwitched?.();
     } finally {
@@ -338,81 +441,138 @@ export class ConversationController {
     }
   }
 
-  async rewind(userMessageId: string): Promise<void> {
-    const { plugin, state, renderer } = this.deps;
+  /**
+   * Finds the user message to rewind to and the assistant message the session
+   * resumes at. With allowFirstTurn, the first user message resolves with no
+   * assistant message: it is resent in a fresh session. Shows a notice and
+   * returns null when the message can't be rewound.
+   */
+  private resolveRewindTarget(
+    userMessageId: string,
+    allowFirstTurn = false
+  ): { userMsg: ChatMessage; sdkUserUuid: string; prevAssistantUuid: string | null } | null {
+    const { state } = this.deps;
 
     if (state.isStreaming) {
       new Notice(t('chat.rewind.unavailableStreaming'));
-      return;
+      return null;
     }
 
     const msgs = state.messages;
     const userIdx = msgs.findIndex(m => m.id === userMessageId);
     if (userIdx === -1) {
       new Notice(t('chat.rewind.failed', { error: 'Message not found' }));
-      return;
+      return null;
     }
     const userMsg = msgs[userIdx];
     if (!userMsg.sdkUserUuid) {
       new Notice(t('chat.rewind.unavailableNoUuid'));
-      return;
+      return null;
     }
 
     const rewindCtx = findRewindContext(msgs, userIdx);
-    if (!rewindCtx.hasResponse || !rewindCtx.prevAssistantUuid) {
+    const canResume = !!rewindCtx.prevAssistantUuid || (allowFirstTurn && rewindCtx.isFirstTurn);
+    if (!rewindCtx.hasResponse || !canResume) {
       new Notice(t('chat.rewind.unavailableNoUuid'));
-      return;
+      return null;
     }
-    const prevAssistantUuid = rewindCtx.prevAssistantUuid;
 
-    const confirmed = await confirm(
-      plugin.app,
-      t('chat.rewind.confirmMessage'),
-      t('chat.rewind.confirmButton')
-    );
-    if (!confirmed) return;
-
-    if (state.isStreaming) {
-      new Notice(t('chat.rewind.unavailableStreaming'));
-      return;
-    }
+    return { userMsg, sdkUserUuid: userMsg.sdkUserUuid, prevAssistantUuid: rewindCtx.prevAssistantUuid ?? null };
+  }
 
+  /**
+   * Rewinds the session, and the files when restoreFiles is set. A null
+   * prevAssistantUuid clears the session. Returns the changed files, or null on failure.
+   */
+  private async rewindSession(
+    sdkUserUuid: string,
+    prevAssistantUuid: string | null,
+    restoreFiles: boolean
+  ): Promise<string[] | null> {
     const agentService = this.getAgentService();
     if (!agentService) {
       new Notice(t('chat.rewind.failed', { error: 'Agent service not available' }));
-      return;
+      return null;
+    }
+
+    if (!restoreFiles) {
+      agentService.rewindConversation(prevAssistantUuid);
+      return [];
     }
 
     let result;
     try {
-      result = await agentService.rewind(userMsg.sdkUserUuid, prevAssistantUuid);
+      result = await agentService.rewind(sdkUserUuid, prevAssistantUuid);
     } catch (e) {
       new Notice(t('chat.rewind.failed', { error: e instanceof Error ? e.message : 'Unknown error' }));
-      return;
+      return null;
     }
     if (!result.canRewind) {
       new Notice(t('chat.rewind.cannot', { error: result.error ?? 'Unknown error' }));
-      return;
+      return null;
     }
+    return result.filesChanged ?? [];
+  }
 
-    state.truncateAt(userMessageId);
+  /**
+   * Drops the messages from userMessageId on and persists the resume point, or
+   * detaches the conversation from its sessions when the first turn was dropped.
+   * Returns the save error, if any.
+   */
+  private async truncateForRewind(userMessageId: string, prevAssistantUuid: string | null): Promise<string | null> {
+    const { plugin, state, renderer } = this.deps;
 
-    const inputEl = this.deps.getInputEl();
-    inputEl.value = userMsg.content;
-    inputEl.focus();
+    state.truncateAt(userMessageId);
 
     const welcomeEl = renderer.renderMessages(state.messages, () => this.getGreeting());
     this.deps.setWelcomeEl(welcomeEl);
     this.updateWelcomeVisibility();
 
-    const filesChanged = result.filesChanged?.length ?? 0;
-    let saveError: string | null = null;
     try {
-      await this.save(false, { resumeSessionAt: prevAssistantUuid });
+      await this.save(false, { resumeSessionAt: prevAssistantUuid ?? undefined });
+      if (!prevAssistantUuid && state.currentConversationId) {
+        // The old session files would bring the dropped turn back on reload
+        await plugin.updateConversation(state.currentConversationId, {
+          sessionId: null,
+          sdkSessionId: undefined,
+          previousSdkSessionIds: undefined,
+        });
+      }
+      return null;
     } catch (e) {
-      saveError = e instanceof Error ? e.message : 'Failed to save';
+      return e instanceof Error ? e.message : 'Failed to save';
+    }
+  }
+
+  async rewind(userMessageId: string): Promise<void> {
+    const { plugin, state } = this.deps;
+
+    const target = this.resolveRewindTarget(userMessageId);
+    if (!target) return;
+    const { userMsg, sdkUserUuid, prevAssistantUuid } = target;
+
+    const confirmed = await confirm(
+      plugin.app,
+      t('chat.rewind.confirmMessage'),
+      t('chat.rewind.confirmButton')
+    );
+    if (!confirmed) return;
+
+    if (state.isStreaming) {
+      new Notice(t('chat.rewind.unavailableStreaming'));
+      return;
     }
 
+    const changedFiles = await this.rewindSession(sdkUserUuid, prevAssistantUuid, true);
+    if (!changedFiles) return;
+
+    const inputEl = this.deps.getInputEl();
+    inputEl.value = userMsg.content;
+    inputEl.focus();
+
+    const filesChanged = changedFiles.length;
+    const saveError = await this.truncateForRewind(userMessageId, prevAssistantUuid);
+
     if (saveError) {
       new Notice(t('chat.rewind.noticeSaveFailed', { count: String(filesChanged), error: saveError }));
       return;
@@ -421,6 +581,62 @@ export class ConversationController {
     new Notice(t('chat.rewind.notice', { count: String(filesChanged) }));
   }
 
+  /**
+   * Rewinds to just before a user message so it can be sent again, edited or
+   * as is; the first message is resent in a fresh session. Files are restored
+   * only when restoreFiles is set. Asks for no
+   * confirmation; callers confirm through their own dialog.
+   * @returns The removed user message, or null if the rewind failed.
+   */
+  async rewindForResend(userMessageId: string, restoreFiles: boolean): Promise<ChatMessage | null> {
+    const target = this.resolveRewindTarget(userMessageId, true);
+    if (!target) return null;
+    const { userMsg, sdkUserUuid, prevAssistantUuid } = target;
+
+    const changedFiles = await this.rewindSession(sdkUserUuid, prevAssistantUuid, restoreFiles);
+    if (!changedFiles) return null;
+
+    const saveError = await this.truncateForRewind(userMessageId, prevAssistantUuid);
+    if (saveError) {
+      new Notice(t('chat.rewind.noticeSaveFailed', { count: String(changedFiles.length), error: saveError }));
+    }
+    return userMsg;
+  }
+
+  /**
+   * Continues from a compare branch: appends the branch's turn and resumes the
+   * forked session that holds it.
+   */
+  async adoptBranch(messages: ChatMessage[], branch: CompareBranchResult): Promise<void> {
+    const { plugin, state, renderer } = this.deps;
+
+    if (state.isStreaming || !branch.sessionId) return;
+
+    // The fork already contains the earlier history, so it replaces the current
+    // session rather than being recorded as a rebuild by save()
+    if (state.currentConversationId) {
+      await plugin.updateConversation(state.currentConversationId, {
+        sessionId: branch.sessionId,
+        sdkSessionId: branch.sessionId,
+      });
+    }
+
+    const externalContextPaths = this.deps.getExternalContextSelector()?.getExternalContexts() ?? [];
+    this.getAgentService()?.setSessionId(branch.sessionId, externalContextPaths);
+
+    for (const message of messages) {
+      state.addMessage(message);
+    }
+    if (branch.usage) state.usage = branch.usage;
+    if (branch.cost) state.cost = applyTurnCost(state.cost, branch.cost, Date.now());
+
+    const welcomeEl = renderer.renderMessages(state.messages, () => this.getGreeting());
+    this.deps.setWelcomeEl(welcomeEl);
+    this.updateWelcomeVisibility();
+
+    await this.save(true);
+  }
+
   /**
    * Saves the current conversation.
    *
@@ -440,6 +656,7 @@ export class ConversationController {
 
     const agentService = this.getAgentService();
     const sessionId = agentService?.getSessionId() ?? null;
+    const staging = agentService?.getDryRunStaging();
     const sessionInvalidated = agentService?.consumeSessionInvalidation?.() ?? false;
 
     // Entry point with messages - create conversation lazily
@@ -455,6 +672,7 @@ export class ConversationController {
     const externalContextPaths = externalContextSelector?.getExternalContexts() ?? [];
     const mcpServerSelector = this.deps.getMcpServerSelector();
     const enabledMcpServers = mcpServerSelector ? Array.from(mcpServerSelector.getEnabledServers()) : [];
+    const enabledMcpTools = mcpServerSelector?.getToolSelection() ?? {};
 
     // Check if this is a native session and promote legacy sessions after first SDK session capture
     const conversation = await plugin.getConversationById(state.currentConversationId!);
@@ -502,13 +720,20 @@ export class ConversationController {
       currentNote: currentNote,
       externalContextPaths: externalContextPaths.length > 0 ? externalContextPaths : undefined,
       usage: state.usage ?? undefined,
+      cost: state.cost ?? undefined,
       enabledMcpServers: enabledMcpServers.length > 0 ? enabledMcpServers : undefined,
+      enabledMcpTools: Object.keys(enabledMcpTools).length > 0 ? enabledMcpTools : undefined,
     };
 
     if (updateLastResponse) {
       updates.lastResponseAt = Date.now();
     }
 
+    // Unsettled changes outlive the view; a tab whose service never started keeps the saved ones
+    if (staging) {
+      updates.stagedChanges = staging.hasChanges() ? staging.getChanges() : undefined;
+    }
+
     if (options) {
       updates.resumeSessionAt = options.resumeSessionAt;
     }
@@ -573,7 +798,12 @@ export class ConversationController {
     if (!dropdown) return;
 
     this.renderHistoryItems(dropdown, {
-      onSelectConversation: (id) => this.switchTo(id),
+      onSelectConversation: async (id, messageId) => {
+        await this.switchTo(id);
+        if (messageId) {
+          this.revealMessage(messageId);
+        }
+      },
       onRerender: () => this.updateHistoryDropdown(),
     });
   }
@@ -582,21 +812,150 @@ export class ConversationController {
    * Renders history dropdown items to a container.
    * Shared implementation for updateHistoryDropdown() and renderHistoryDropdown().
    */
-  private renderHistoryItems(
-    container: HTMLElement,
-    options: {
-      onSelectConversation: (id: string) => Promise<void>;
-      onRerender: () => void;
-    }
-  ): void {
-    const { plugin, state } = this.deps;
-
+  private renderHistoryItems(container: HTMLElement, options: HistoryRenderOptions): void {
     container.empty();
 
     const dropdownHeader = container.createDiv({ cls: 'claudian-history-header' });
     dropdownHeader.createSpan({ text: 'Conversations' });
 
+    const searchInput = dropdownHeader.createEl('input', {
+      cls: 'claudian-history-search-input',
+      attr: { type: 'search', placeholder: 'Search conversations...' },
+    });
+    searchInput.value = this.historySearchQuery;
+
     const list = container.createDiv({ cls: 'claudian-history-list' });
+
+    // Keep clicks inside the dropdown from closing it
+    searchInput.addEventListener('click', (e) => e.stopPropagation());
+    searchInput.addEventListener('input', () => {
+      this.historySearchQuery = searchInput.value;
+      this.scheduleHistorySearch(list, options);
+    });
+    searchInput.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.isComposing && searchInput.value) {
+        e.preventDefault();
+        e.stopPropagation();
+        searchInput.value = '';
+        this.historySearchQuery = '';
+        this.scheduleHistorySearch(list, options);
+      }
+    });
+
+    if (this.historySearchQuery.trim()) {
+      void this.renderSearchResults(list, this.historySearchQuery, options);
+    } else {
+      this.renderConversationList(list, options);
+    }
+  }
+
+  private scheduleHistorySearch(list: HTMLElement, options: HistoryRenderOptions): void {
+    if (this.historySearchTimer !== null) {
+      clearTimeout(this.historySearchTimer);
+    }
+
+    this.historySearchTimer = setTimeout(() => {
+      this.historySearchTimer = null;
+      const query = this.historySearchQuery;
+      if (query.trim()) {
+        void this.renderSearchResults(list, query, options);
+      } else {
+        this.renderConversationList(list, options);
+      }
+    }, HISTORY_SEARCH_DEBOUNCE_MS);
+  }
+
+  /** Renders full-text search hits with highlighted snippets that jump to the matching message. */
+  private async renderSearchResults(
+    list: HTMLElement,
+    query: string,
+    options: HistoryRenderOptions
+  ): Promise<void> {
+    const { plugin, state } = this.deps;
+    const generation = ++this.historySearchGeneration;
+
+    list.empty();
+    list.createDiv({ cls: 'claudian-history-empty', text: 'Searching...' });
+
+    let results: ConversationSearchResult[];
+    try {
+      results = await plugin.searchIndex.search(query);
+    } catch {
+      if (generation !== this.historySearchGeneration) return;
+      list.empty();
+      list.createDiv({ cls: 'claudian-history-empty', text: 'Search failed' });
+      return;
+    }
+
+    // A newer search (or a cleared query) superseded this one
+    if (generation !== this.historySearchGeneration) return;
+
+    list.empty();
+
+    if (results.length === 0) {
+      list.createDiv({ cls: 'claudian-history-empty', text: 'No matching conversations' });
+      return;
+    }
+
+    const select = async (conversationId: string, messageId?: string): Promise<void> => {
+      try {
+        await options.onSelectConversation(conversationId, messageId);
+      } catch {
+        new Notice('Failed to load conversation');
+      }
+    };
+
+    for (const result of results) {
+      const isCurrent = result.conversationId === state.currentConversationId;
+      const item = list.createDiv({
+        cls: `claudian-history-item claudian-history-search-result${isCurrent ? ' active' : ''}`,
+      });
+
+      const iconEl = item.createDiv({ cls: 'claudian-history-item-icon' });
+      setIcon(iconEl, isCurrent ? 'message-square-dot' : 'message-square');
+
+      const content = item.createDiv({ cls: 'claudian-history-item-content' });
+      const titleEl = content.createDiv({ cls: 'claudian-history-item-title' });
+      titleEl.setAttribute('title', result.title);
+
+      const titleMatch = result.matches.find(match => match.field === 'title');
+      if (titleMatch) {
+        renderHighlightedSnippet(titleEl, titleMatch.snippet);
+      } else {
+        titleEl.setText(result.title);
+      }
+
+      if (!isCurrent) {
+        titleEl.addEventListener('click', async (e) => {
+          e.stopPropagation();
+          await select(result.conversationId);
+        });
+      }
+
+      for (const match of result.matches) {
+        if (match.field === 'title') continue;
+
+        const snippetEl = content.createDiv({ cls: 'claudian-history-search-snippet' });
+        if (match.toolName) {
+          snippetEl.createSpan({ cls: 'claudian-history-search-snippet-label', text: match.toolName });
+        }
+        renderHighlightedSnippet(snippetEl.createSpan(), match.snippet);
+
+        snippetEl.addEventListener('click', async (e) => {
+          e.stopPropagation();
+          await select(result.conversationId, match.messageId);
+        });
+      }
+    }
+  }
+
+  private renderConversationList(list: HTMLElement, options: HistoryRenderOptions): void {
+    const { plugin, state } = this.deps;
+
+    // Supersede any search still in flight
+    this.historySearchGeneration++;
+    list.empty();
+
     const allConversations = plugin.getConversationList();
 
     if (allConversations.length === 0) {
@@ -616,7 +975,8 @@ export class ConversationController {
       });
 
       const iconEl = item.createDiv({ cls: 'claudian-history-item-icon' });
-      setIcon(iconEl, isCurrent ? 'message-square-dot' : 'message-square');
+      const icon = conv.scheduledTaskId ? 'calendar-clock' : conv.vaultTriggerId ? 'zap' : 'message-square';
+      setIcon(iconEl, isCurrent ? 'message-square-dot' : icon);
 
       const content = item.createDiv({ cls: 'claudian-history-item-content' });
       const titleEl = content.createDiv({ cls: 'claudian-history-item-title', text: conv.title });
@@ -666,6 +1026,14 @@ export class ConversationController {
         this.showRenameInput(item, conv.id, conv.title);
       });
 
+      const exportBtn = actions.createEl('button', { cls: 'claudian-action-btn' });
+      setIcon(exportBtn, 'file-down');
+      exportBtn.setAttribute('aria-label', t('chat.export.ariaLabel'));
+      exportBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        await plugin.exportConversation(conv.id);
+      });
+
       const deleteBtn = actions.createEl('button', { cls: 'claudian-action-btn claudian-delete-btn' });
       setIcon(deleteBtn, 'trash-2');
       deleteBtn.setAttribute('aria-label', 'Delete');
@@ -819,6 +1187,22 @@ export class ConversationController {
   // Utilities
   // ============================================
 
+  /**
+   * Scrolls a rendered message into view and briefly highlights it.
+   * Returns false if the message isn't rendered in this tab.
+   */
+  revealMessage(messageId: string): boolean {
+    const messagesEl = this.deps.getMessagesEl();
+    const messageEls = Array.from(messagesEl.querySelectorAll('.claudian-message')) as HTMLElement[];
+    const target = messageEls.find(el => el.getAttribute('data-message-id') === messageId);
+    if (!target) return false;
+
+    target.scrollIntoView({ block: 'center' });
+    target.addClass('claudian-message-search-hit');
+    setTimeout(() => target.removeClass('claudian-message-search-hit'), SEARCH_HIT_FLASH_MS);
+    return true;
+  }
+
   /** Generates a fallback title from the first message (used when AI fails). */
   generateFallbackTitle(firstMessage: string): string {
     const firstSentence = firstMessage.split(/[.!?\n]/)[0].trim();
@@ -899,7 +1283,7 @@ export class ConversationController {
    */
   renderHistoryDropdown(
     container: HTMLElement,
-    options: { onSelectConversation: (id: string) => Promise<void> }
+    options: { onSelectConversation: (id: string, messageId?: string) => Promise<void> }
   ): void {
     this.renderHistoryItems(container, {
       onSelectConversation: options.onSelectConversation,
@@ -2,21 +2,30 @@ import { Notice } from 'obsidian';
 
 import type { ApprovalCallbackOptions, ClaudianService } from '../../../core/agent';
 import { detectBuiltInCommand } from '../../../core/commands';
+import { formatMcpPromptMessages, parseMcpPromptArguments, parseMcpPromptInvocation } from '../../../core/mcp';
 import { TOOL_EXIT_PLAN_MODE } from '../../../core/tools/toolNames';
-import type { ApprovalDecision, ChatMessage, ExitPlanModeDecision } from '../../../core/types';
+import type {
+  ApprovalDecision,
+  ChatMessage,
+  ExitPlanModeDecision,
+  ImageAttachment,
+  McpResourceAttachment,
+} from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
 import { ResumeSessionDropdown } from '../../../shared/components/ResumeSessionDropdown';
 import { InstructionModal } from '../../../shared/modals/InstructionConfirmModal';
 import { appendCanvasContext, type CanvasSelectionContext } from '../../../utils/canvas';
-import { appendCurrentNote } from '../../../utils/context';
+import { appendCurrentNote, appendMcpResources, type McpResourceContext } from '../../../utils/context';
 import { formatDurationMmSs } from '../../../utils/date';
 import { appendEditorContext, type EditorSelectionContext } from '../../../utils/editor';
 import { appendMarkdownSnippet } from '../../../utils/markdown';
 import { COMPLETION_FLAVOR_WORDS } from '../constants';
+import { DryRunReview } from '../rendering/DryRunReview';
 import { type InlineAskQuestionConfig, InlineAskUserQuestion } from '../rendering/InlineAskUserQuestion';
 import { InlineExitPlanMode } from '../rendering/InlineExitPlanMode';
 import type { MessageRenderer } from '../rendering/MessageRenderer';
 import { setToolIcon, updateToolCallResult } from '../rendering/ToolCallRenderer';
+import { buildResendPrompt, type ResendRequest } from '../rewind';
 import type { InstructionRefineService } from '../services/InstructionRefineService';
 import type { SubagentManager } from '../services/SubagentManager';
 import type { TitleGenerationService } from '../services/TitleGenerationService';
@@ -67,12 +76,23 @@ export interface InputControllerDeps {
   onForkAll?: () => Promise<void>;
 }
 
+/** A prompt built ahead of time, sent without reading the input or adding context. */
+export interface PreparedPrompt {
+  prompt: string;
+  displayContent: string;
+  images?: ImageAttachment[];
+  currentNote?: string;
+}
+
 export class InputController {
   private deps: InputControllerDeps;
   private pendingApprovalInline: InlineAskUserQuestion | null = null;
   private pendingAskInline: InlineAskUserQuestion | null = null;
   private pendingExitPlanModeInline: InlineExitPlanMode | null = null;
+  private dryRunReview: DryRunReview | null = null;
   private activeResumeDropdown: ResumeSessionDropdown | null = null;
+  /** Set while an MCP prompt is fetched, before the turn is marked as streaming. */
+  private isExpandingPrompt = false;
 
   constructor(deps: InputControllerDeps) {
     this.deps = deps;
@@ -100,11 +120,14 @@ export class InputController {
     editorContextOverride?: EditorSelectionContext | null;
     canvasContextOverride?: CanvasSelectionContext | null;
     content?: string;
+    prepared?: PreparedPrompt;
+    /** Model for this turn only. */
+    model?: string;
   }): Promise<void> {
     const { plugin, state, renderer, streamController, selectionController, canvasSelectionController, conversationController } = this.deps;
 
     // During conversation creation/switching, don't send - input is preserved so user can retry
-    if (state.isCreatingConversation || state.isSwitchingConversation) return;
+    if (state.isCreatingConversation || state.isSwitchingConversation || this.isExpandingPrompt) return;
 
     const inputEl = this.deps.getInputEl();
     const imageContextManager = this.deps.getImageContextManager();
@@ -112,17 +135,18 @@ export class InputController {
     const mcpServerSelector = this.deps.getMcpServerSelector();
     const externalContextSelector = this.deps.getExternalContextSelector();
 
-    const contentOverride = options?.content;
+    const prepared = options?.prepared;
+    const contentOverride = options?.content ?? prepared?.displayContent;
     const shouldUseInput = contentOverride === undefined;
     const content = (contentOverride ?? inputEl.value).trim();
-    const hasImages = imageContextManager?.hasImages() ?? false;
+    const hasImages = prepared ? (prepared.images?.length ?? 0) > 0 : imageContextManager?.hasImages() ?? false;
     if (!content && !hasImages) return;
 
     // Clear completed/error/orphaned subagents from previous responses
     this.deps.getStatusPanel()?.clearTerminalSubagents();
 
     // Check for built-in commands first (e.g., /clear, /new, /add-dir)
-    const builtInCmd = detectBuiltInCommand(content);
+    const builtInCmd = prepared ? null : detectBuiltInCommand(content);
     if (builtInCmd) {
       if (shouldUseInput) {
         inputEl.value = '';
@@ -163,6 +187,30 @@ export class InputController {
       return;
     }
 
+    // MCP prompts (/mcp__server__prompt) are fetched via prompts/get and sent expanded
+    let promptContent = content;
+    const mcpPromptInvocation = prepared ? null : parseMcpPromptInvocation(content);
+    if (mcpPromptInvocation) {
+      const conversationId = state.currentConversationId;
+      if (shouldUseInput) {
+        inputEl.value = '';
+        this.deps.resetInputHeight();
+      }
+      this.isExpandingPrompt = true;
+      let expanded: string | null | undefined;
+      try {
+        expanded = await this.expandMcpPrompt(mcpPromptInvocation.commandName, mcpPromptInvocation.argsText);
+      } finally {
+        this.isExpandingPrompt = false;
+      }
+      // Give the command back when it fails or the user left the conversation meanwhile
+      if (expanded === null || state.currentConversationId !== conversationId) {
+        if (shouldUseInput && !inputEl.value) inputEl.value = content;
+        return;
+      }
+      promptContent = expanded ?? content;
+    }
+
     if (shouldUseInput) {
       inputEl.value = '';
       this.deps.resetInputHeight();
@@ -187,7 +235,7 @@ export class InputController {
     const displayContent = content;
     let queryOptions: QueryOptions | undefined;
 
-    const images = imageContextManager?.getAttachedImages() || [];
+    const images = prepared ? prepared.images ?? [] : imageContextManager?.getAttachedImages() || [];
     const imagesForMessage = images.length > 0 ? [...images] : undefined;
 
     // Only clear images if we consumed user input (not for programmatic content override)
@@ -207,11 +255,15 @@ export class InputController {
     const isCompact = /^\/compact(\s|$)/i.test(content);
 
     // User content first, context XML appended after (enables slash command detection)
-    let promptToSend = content;
+    let promptToSend = promptContent;
     let currentNoteForMessage: string | undefined;
 
+    // Prepared prompts already carry their context.
     // SDK built-in commands (e.g., /compact) must be sent bare — context XML breaks detection
-    if (!isCompact) {
+    if (prepared) {
+      promptToSend = prepared.prompt;
+      currentNoteForMessage = prepared.currentNote;
+    } else if (!isCompact) {
       // Append current note context if available
       if (shouldSendCurrentNote && currentNotePath) {
         promptToSend = appendCurrentNote(promptToSend, currentNotePath);
@@ -232,6 +284,13 @@ export class InputController {
         promptToSend = appendCanvasContext(promptToSend, canvasContext);
       }
 
+      // Append MCP resources attached as context chips
+      const mcpResources = fileContextManager?.getMcpResources() ?? [];
+      if (mcpResources.length > 0) {
+        promptToSend = appendMcpResources(promptToSend, await this.readMcpResources(mcpResources));
+        fileContextManager?.clearMcpResources();
+      }
+
       // Transform context file mentions (e.g., @folder/file.ts) to absolute paths
       if (fileContextManager) {
         promptToSend = fileContextManager.transformContextMentions(promptToSend);
@@ -292,6 +351,13 @@ export class InputController {
         enabledMcpServers,
       };
     }
+    const enabledMcpTools = mcpServerSelector?.getToolSelection();
+    if (enabledMcpTools && Object.keys(enabledMcpTools).length > 0) {
+      queryOptions = {
+        ...queryOptions,
+        enabledMcpTools,
+      };
+    }
 
     // Add external context paths to query
     if (externalContextPaths && externalContextPaths.length > 0) {
@@ -303,6 +369,7 @@ export class InputController {
 
     let wasInterrupted = false;
     let wasInvalidated = false;
+    let didFail = false;
     let didEnqueueToSdk = false;
 
     // Lazy initialization: ensure service is ready before first query
@@ -339,6 +406,12 @@ export class InputController {
       }
     }
 
+    // Scope per-conversation budget caps to this conversation
+    queryOptions = { ...queryOptions, conversationId: conversationIdForSend };
+    if (options?.model) {
+      queryOptions.model = options.model;
+    }
+
     try {
       // Pass history WITHOUT current turn (userMsg + assistantMsg we just added)
       // This prevents duplication when rebuilding context for new sessions
@@ -363,15 +436,23 @@ export class InputController {
           break;
         }
 
+        if (chunk.type === 'error') {
+          didFail = true;
+        }
         await streamController.handleStreamChunk(chunk, assistantMsg);
       }
     } catch (error) {
+      didFail = true;
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       await streamController.appendText(`\n\n**Error:** ${errorMsg}`);
     } finally {
       // ALWAYS clear the timer interval, even on stream invalidation (prevents memory leaks)
       state.clearFlavorTimerInterval();
 
+      if (wasInvalidated || wasInterrupted || didFail || state.cancelRequested) {
+        streamController.cancelPendingInvocations();
+      }
+
       // Skip remaining cleanup if stream was invalidated (tab closed or conversation switched)
       if (!wasInvalidated && state.streamGeneration === streamGeneration) {
         const didCancelThisTurn = wasInterrupted || state.cancelRequested;
@@ -439,6 +520,8 @@ export class InputController {
         const saveExtras = didEnqueueToSdk ? { resumeSessionAt: undefined } : undefined;
         await conversationController.save(true, saveExtras);
 
+        this.showDryRunReview(agentService);
+
         const userMsgIndex = state.messages.indexOf(userMsg);
         renderer.refreshActionButtons(userMsg, state.messages, userMsgIndex >= 0 ? userMsgIndex : undefined);
 
@@ -448,12 +531,14 @@ export class InputController {
         const planContent = state.pendingNewSessionPlan;
         if (planContent) {
           state.pendingNewSessionPlan = null;
-          await conversationController.createNew();
-          this.deps.getInputEl().value = planContent;
-          this.sendMessage().catch(() => {
-            // sendMessage() handles its own errors internally; this prevents
-            // unhandled rejection if an unexpected error slips through.
-          });
+          // Left as is when the user chose to stay and review staged dry-run changes
+          if (await conversationController.createNew()) {
+            this.deps.getInputEl().value = planContent;
+            this.sendMessage().catch(() => {
+              // sendMessage() handles its own errors internally; this prevents
+              // unhandled rejection if an unexpected error slips through.
+            });
+          }
         } else {
           this.processQueuedMessage();
         }
@@ -461,6 +546,23 @@ export class InputController {
     }
   }
 
+  /**
+   * Sends a user message again: rewinds to just before it, then sends the
+   * edited text and attachments, or for regenerate the message as it was.
+   */
+  async resend(userMessageId: string, request: ResendRequest): Promise<void> {
+    const { conversationController } = this.deps;
+
+    const original = await conversationController.rewindForResend(userMessageId, request.restoreFiles);
+    if (!original) return;
+
+    const { prompt, displayContent } = buildResendPrompt(original, request.text.trim());
+    await this.sendMessage({
+      prepared: { prompt, displayContent, images: request.images, currentNote: original.currentNote },
+      model: request.model,
+    });
+  }
+
   // ============================================
   // Queue Management
   // ============================================
@@ -494,6 +596,47 @@ export class InputController {
     this.updateQueueIndicator();
   }
 
+  /** Reads attached MCP resources; resources that fail to read are reported and left out. */
+  private async readMcpResources(resources: McpResourceAttachment[]): Promise<McpResourceContext[]> {
+    const results = await Promise.all(resources.map(async (resource) => {
+      const result = await this.deps.plugin.mcpManager.readResource(resource.server, resource.uri);
+      if (!result.success) {
+        new Notice(`Failed to read MCP resource ${resource.server}:${resource.name}: ${result.error ?? 'Unknown error'}`);
+        return null;
+      }
+      return { server: resource.server, uri: resource.uri, contents: result.contents };
+    }));
+    return results.filter((result): result is McpResourceContext => result !== null);
+  }
+
+  /**
+   * Expands an MCP prompt command into its messages. Returns undefined when no
+   * enabled server provides the command (it is sent as typed), and null after
+   * showing a Notice when arguments are missing or prompts/get fails.
+   */
+  private async expandMcpPrompt(commandName: string, argsText: string): Promise<string | null | undefined> {
+    const { mcpManager } = this.deps.plugin;
+    const found = await mcpManager.findPromptCommand(commandName);
+    if (!found) return undefined;
+
+    const parsed = parseMcpPromptArguments(found.prompt, argsText);
+    if ('error' in parsed) {
+      new Notice(`/${commandName}: ${parsed.error}`);
+      return null;
+    }
+
+    const result = await mcpManager.getPrompt(found.serverName, found.prompt.name, parsed.values);
+    if (!result.success) {
+      new Notice(`Failed to get MCP prompt ${found.serverName}:${found.prompt.name}: ${result.error ?? 'Unknown error'}`);
+      return null;
+    }
+    if (result.messages.length === 0) {
+      new Notice(`MCP prompt ${found.serverName}:${found.prompt.name} returned no messages`);
+      return null;
+    }
+    return formatMcpPromptMessages(result.messages);
+  }
+
   private restoreQueuedMessageToInput(): void {
     const { state } = this.deps;
     if (!state.queuedMessage) return;
@@ -890,6 +1033,24 @@ export class InputController {
     });
   }
 
+  /** Shows the changes staged in dry-run mode below the conversation, replacing an earlier panel. */
+  showDryRunReview(agentService: ClaudianService): void {
+    this.clearDryRunReview();
+
+    const staging = agentService.getDryRunStaging();
+    if (!staging.hasChanges()) return;
+
+    this.dryRunReview = new DryRunReview(this.deps.plugin.app, this.deps.getMessagesEl(), staging);
+    this.dryRunReview.render();
+    this.syncScrollToBottomAfterRenderUpdates();
+  }
+
+  /** Removes the dry-run review panel, e.g. when the tab leaves the conversation. */
+  clearDryRunReview(): void {
+    this.dryRunReview?.destroy();
+    this.dryRunReview = null;
+  }
+
   dismissPendingApproval(): void {
     if (this.pendingApprovalInline) {
       this.pendingApprovalInline.destroy();
@@ -0,0 +1,76 @@
+import { Notice } from 'obsidian';
+
+import type { ChatMessage, MessagePin } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { findPin, getPinKey, renamePin, resolvePins, togglePin } from '../pins';
+import type { MessageRenderer } from '../rendering/MessageRenderer';
+import type { ChatState } from '../state/ChatState';
+import type { NavigationSidebar, PinnedStrip } from '../ui';
+
+export interface PinControllerDeps {
+  plugin: ClaudianPlugin;
+  state: ChatState;
+  renderer: MessageRenderer;
+  getPinnedStrip: () => PinnedStrip | null;
+  getNavigationSidebar: () => NavigationSidebar | null;
+  revealMessage: (messageId: string) => boolean;
+}
+
+/**
+ * Pinned messages and bookmarks of the tab's conversation.
+ * Pins are stored on the conversation and shown in the pinned strip,
+ * on the messages themselves and as navigation sidebar entries.
+ */
+export class PinController {
+  constructor(private deps: PinControllerDeps) {}
+
+  getPins(): MessagePin[] {
+    const conversationId = this.deps.state.currentConversationId;
+    if (!conversationId) return [];
+    return this.deps.plugin.getConversationSync(conversationId)?.pins ?? [];
+  }
+
+  isPinned(message: ChatMessage): boolean {
+    return !!findPin(this.getPins(), message);
+  }
+
+  async togglePin(messageId: string): Promise<void> {
+    const message = this.deps.state.messages.find(m => m.id === messageId);
+    if (!message || !this.deps.state.currentConversationId) return;
+
+    await this.savePins(togglePin(this.getPins(), message));
+    this.deps.renderer.setMessagePinned(message.id, this.isPinned(message));
+    this.refresh();
+  }
+
+  async renamePin(messageKey: string, name: string): Promise<void> {
+    await this.savePins(renamePin(this.getPins(), messageKey, name));
+    this.refresh();
+  }
+
+  async unpin(messageKey: string): Promise<void> {
+    await this.savePins(this.getPins().filter(pin => pin.messageKey !== messageKey));
+    const message = this.deps.state.messages.find(m => getPinKey(m) === messageKey);
+    if (message) this.deps.renderer.setMessagePinned(message.id, false);
+    this.refresh();
+  }
+
+  jumpTo(messageId: string): void {
+    if (!this.deps.revealMessage(messageId)) {
+      new Notice('Pinned message is not shown in this conversation');
+    }
+  }
+
+  /** Re-renders the pinned strip and sidebar entries for the current conversation. */
+  refresh(): void {
+    const pins = resolvePins(this.getPins(), this.deps.state.messages);
+    this.deps.getPinnedStrip()?.render(pins);
+    this.deps.getNavigationSidebar()?.setHasPins(pins.length > 0);
+  }
+
+  private async savePins(pins: MessagePin[]): Promise<void> {
+    const conversationId = this.deps.state.currentConversationId;
+    if (!conversationId) return;
+    await this.deps.plugin.updateConversation(conversationId, { pins });
+  }
+}
@@ -3,6 +3,7 @@ import { extractResolvedAnswers, extractResolvedAnswersFromResultText, parseTodo
 import { isWriteEditTool, skipsBlockedDetection, TOOL_AGENT_OUTPUT, TOOL_ASK_USER_QUESTION, TOOL_TASK, TOOL_TODO_WRITE, TOOL_WRITE } from '../../../core/tools/toolNames';
 import type { ChatMessage, StreamChunk, SubagentInfo, ToolCallInfo } from '../../../core/types';
 import type { SDKToolUseResult } from '../../../core/types/diff';
+import { applyTurnCost, InvocationTracker } from '../../../core/usage';
 import type ClaudianPlugin from '../../../main';
 import { formatDurationMmSs } from '../../../utils/date';
 import { extractDiffData } from '../../../utils/diff';
@@ -43,9 +44,19 @@ export class StreamController {
   private static readonly ASYNC_SUBAGENT_RESULT_RETRY_DELAYS_MS = [200, 600, 1500] as const;
 
   private deps: StreamControllerDeps;
+  /** Records finished Task and Skill calls for agent and skill usage statistics. */
+  private invocations: InvocationTracker;
 
   constructor(deps: StreamControllerDeps) {
     this.deps = deps;
+    this.invocations = new InvocationTracker({
+      record: (record) => {
+        this.deps.plugin.storage.invocations.append(record).catch(() => {
+          // Non-critical: usage statistics must not disturb the chat
+        });
+      },
+      getConversationId: () => this.deps.state.currentConversationId,
+    });
   }
 
   // ============================================
@@ -87,6 +98,7 @@ export class StreamController {
           this.finalizeCurrentThinkingBlock(msg);
         }
         this.finalizeCurrentTextBlock(msg);
+        this.invocations.trackToolUse(chunk.id, chunk.name, chunk.input);
 
         if (chunk.name === TOOL_TASK) {
           // Flush pending tools before Task
@@ -166,6 +178,11 @@ export class StreamController {
         break;
       }
 
+      case 'cost':
+        // Not filtered by session: every turn's spend counts toward the conversation
+        state.cost = applyTurnCost(state.cost, chunk.cost, Date.now());
+        break;
+
     }
 
     this.scrollToBottom();
@@ -313,6 +330,7 @@ export class StreamController {
     msg: ChatMessage
   ): Promise<void> {
     const { state, subagentManager } = this.deps;
+    this.invocations.completeSkill(chunk.id, chunk.isError ?? false, chunk.content);
 
     // Resolve pending Task before processing result.
     if (subagentManager.hasPendingTask(chunk.id)) {
@@ -613,6 +631,7 @@ export class StreamController {
 
     if (finalized) {
       this.applySubagentToTaskToolCall(taskToolCall, finalized);
+      this.invocations.completeSubagent(finalized);
     }
 
     this.showThinkingIndicator();
@@ -668,6 +687,9 @@ export class StreamController {
     );
 
     await this.hydrateAsyncSubagentToolCalls(handled);
+    if (handled) {
+      this.invocations.completeSubagent(handled);
+    }
 
     return isLinked || handled !== undefined;
   }
@@ -784,6 +806,10 @@ export class StreamController {
 
   /** Callback from SubagentManager when async state changes. Updates messages only (DOM handled by manager). */
   onAsyncSubagentStateChange(subagent: SubagentInfo): void {
+    // Completions are recorded after tool calls are hydrated; failures have nothing to hydrate
+    if (subagent.status === 'error') {
+      this.invocations.completeSubagent(subagent);
+    }
     this.updateSubagentInMessages(subagent);
     this.scrollToBottom();
   }
@@ -970,6 +996,14 @@ export class StreamController {
     messagesEl.scrollTop = messagesEl.scrollHeight;
   }
 
+  /**
+   * Logs skill and subagent invocations the stream left unfinished as cancelled.
+   * Background subagents keep running after the stream and are logged when they finish.
+   */
+  cancelPendingInvocations(): void {
+    this.invocations.cancelPending((toolUseId) => this.deps.subagentManager.getByTaskId(toolUseId) !== undefined);
+  }
+
   resetStreamingState(): void {
     const { state } = this.deps;
     this.hideThinkingIndicator();
@@ -2,5 +2,6 @@ export { CanvasSelectionController } from './CanvasSelectionController';
 export { type ConversationCallbacks, ConversationController, type ConversationControllerDeps } from './ConversationController';
 export { InputController, type InputControllerDeps } from './InputController';
 export { NavigationController, type NavigationControllerDeps } from './NavigationController';
+export { PinController, type PinControllerDeps } from './PinController';
 export { SelectionController } from './SelectionController';
 export { StreamController, type StreamControllerDeps } from './StreamController';
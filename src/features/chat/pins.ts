@@ -0,0 +1,68 @@
+import type { ChatMessage, MessagePin } from '../../core/types';
+
+const PREVIEW_LENGTH = 60;
+
+export interface ResolvedPin {
+  pin: MessagePin;
+  message: ChatMessage;
+  /** Position of the message in the conversation, used for ordering. */
+  index: number;
+}
+
+/**
+ * Key a pin is stored under. SDK uuids are preferred because messages reloaded
+ * from an SDK session get new IDs, while their uuids stay the same (also in forks).
+ */
+export function getPinKey(message: ChatMessage): string {
+  return message.sdkUserUuid ?? message.sdkAssistantUuid ?? message.id;
+}
+
+export function findPin(pins: MessagePin[] | undefined, message: ChatMessage): MessagePin | undefined {
+  const key = getPinKey(message);
+  return pins?.find(pin => pin.messageKey === key);
+}
+
+/** Pins the message, or unpins it when it is already pinned. */
+export function togglePin(pins: MessagePin[] | undefined, message: ChatMessage, now = Date.now()): MessagePin[] {
+  const key = getPinKey(message);
+  const current = pins ?? [];
+  if (current.some(pin => pin.messageKey === key)) {
+    return current.filter(pin => pin.messageKey !== key);
+  }
+  return [...current, { messageKey: key, createdAt: now }];
+}
+
+/** Names a pin, making it a bookmark. An empty name turns it back into a plain pin. */
+export function renamePin(pins: MessagePin[] | undefined, messageKey: string, name: string): MessagePin[] {
+  const trimmed = name.trim();
+  return (pins ?? []).map(pin => {
+    if (pin.messageKey !== messageKey) return pin;
+    const { name: _previous, ...rest } = pin;
+    return trimmed ? { ...rest, name: trimmed } : rest;
+  });
+}
+
+/** Matches pins to the loaded messages, in conversation order. Pins whose message is gone are left out. */
+export function resolvePins(pins: MessagePin[] | undefined, messages: ChatMessage[]): ResolvedPin[] {
+  if (!pins?.length) return [];
+
+  const resolved: ResolvedPin[] = [];
+  messages.forEach((message, index) => {
+    const pin = findPin(pins, message);
+    if (pin) resolved.push({ pin, message, index });
+  });
+  return resolved;
+}
+
+/** Pins of the source conversation that point at messages copied into a fork. */
+export function getForkPins(pins: MessagePin[] | undefined, forkMessages: ChatMessage[]): MessagePin[] {
+  return resolvePins(pins, forkMessages).map(({ pin }) => ({ ...pin }));
+}
+
+/** Label shown for a pin: its bookmark name or the start of the message. */
+export function getPinLabel(resolved: ResolvedPin): string {
+  if (resolved.pin.name) return resolved.pin.name;
+  const text = (resolved.message.displayContent ?? resolved.message.content).replace(/\s+/g, ' ').trim();
+  if (!text) return resolved.message.role === 'user' ? 'Message' : 'Response';
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
@@ -0,0 +1,142 @@
+import { type App, Notice, setIcon } from 'obsidian';
+
+import type { DryRunStaging, StagedFileChange } from '../../../core/dryrun';
+import type { ToolCallInfo } from '../../../core/types';
+import { confirm } from '../../../shared/modals/ConfirmModal';
+import { computeLineDiff, countLineChanges } from '../../../utils/diff';
+import {
+  createWriteEditBlock,
+  finalizeWriteEditBlock,
+  updateWriteEditWithDiff,
+} from './WriteEditRenderer';
+
+/**
+ * Review panel for changes staged in dry-run mode.
+ * Each file is shown as a Write/Edit diff block with accept and reject buttons.
+ * Accepting a file that changed on disk after it was staged asks before overwriting.
+ */
+export class DryRunReview {
+  private app: App;
+  private containerEl: HTMLElement;
+  private staging: DryRunStaging;
+  private rootEl: HTMLElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private busy = false;
+
+  constructor(app: App, containerEl: HTMLElement, staging: DryRunStaging) {
+    this.app = app;
+    this.containerEl = containerEl;
+    this.staging = staging;
+  }
+
+  render(): void {
+    this.rootEl = this.containerEl.createDiv({ cls: 'claudian-dry-run-review' });
+    this.unsubscribe = this.staging.onChange(() => this.update());
+    this.update();
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.rootEl?.remove();
+    this.rootEl = null;
+  }
+
+  private update(): void {
+    if (!this.rootEl) return;
+
+    const changes = this.staging.getChanges();
+    if (changes.length === 0) {
+      this.destroy();
+      return;
+    }
+
+    this.rootEl.empty();
+
+    const headerEl = this.rootEl.createDiv({ cls: 'claudian-dry-run-header' });
+    const iconEl = headerEl.createSpan({ cls: 'claudian-dry-run-icon' });
+    setIcon(iconEl, 'flask-conical');
+    headerEl.createSpan({
+      text: `Dry run: ${changes.length} staged ${changes.length === 1 ? 'change' : 'changes'}`,
+      cls: 'claudian-dry-run-title',
+    });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-dry-run-actions' });
+    this.createButton(actionsEl, 'Accept all', 'check-check', () => this.resolveAll(true));
+    this.createButton(actionsEl, 'Reject all', 'x', () => this.resolveAll(false));
+
+    const listEl = this.rootEl.createDiv({ cls: 'claudian-dry-run-list' });
+    for (const change of changes) {
+      this.renderChange(listEl, change);
+    }
+  }
+
+  private renderChange(listEl: HTMLElement, change: StagedFileChange): void {
+    const toolName = change.originalContent === null || change.toolNames.every(name => name === 'Write')
+      ? 'Write'
+      : 'Edit';
+    const toolCall: ToolCallInfo = {
+      id: `dry-run:${change.filePath}`,
+      name: toolName,
+      input: { file_path: change.filePath },
+      status: 'completed',
+    };
+
+    const diffLines = computeLineDiff(change.originalContent, change.stagedContent);
+    const state = createWriteEditBlock(listEl, toolCall);
+    updateWriteEditWithDiff(state, {
+      filePath: change.filePath,
+      diffLines,
+      stats: countLineChanges(diffLines),
+    });
+    finalizeWriteEditBlock(state, false);
+    state.wrapperEl.addClass('claudian-dry-run-file');
+    state.wrapperEl.setAttribute('title', change.filePath);
+
+    const fileActionsEl = state.wrapperEl.createDiv({ cls: 'claudian-dry-run-file-actions' });
+    if (change.originalContent === null) {
+      fileActionsEl.createSpan({ text: 'New file', cls: 'claudian-dry-run-file-note' });
+    }
+    this.createButton(fileActionsEl, 'Accept', 'check', () => this.resolve(change, true));
+    this.createButton(fileActionsEl, 'Reject', 'x', () => this.resolve(change, false));
+  }
+
+  private createButton(parentEl: HTMLElement, label: string, icon: string, onClick: () => Promise<void>): void {
+    const button = parentEl.createEl('button', { cls: 'claudian-dry-run-btn', attr: { 'aria-label': label } });
+    setIcon(button.createSpan({ cls: 'claudian-dry-run-btn-icon' }), icon);
+    button.createSpan({ text: label });
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      void onClick();
+    });
+  }
+
+  private async resolve(change: StagedFileChange, accept: boolean): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      if (accept) {
+        const applied = await this.staging.accept(change.filePath);
+        if (!applied && await confirm(
+          this.app,
+          `${change.filePath} changed on disk after this change was staged. Overwrite it with the staged content?`,
+          'Overwrite'
+        )) {
+          await this.staging.accept(change.filePath, { overwrite: true });
+        }
+      } else {
+        await this.staging.reject(change.filePath);
+      }
+    } catch (error) {
+      new Notice(`Failed to apply ${change.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async resolveAll(accept: boolean): Promise<void> {
+    for (const change of this.staging.getChanges()) {
+      await this.resolve(change, accept);
+    }
+  }
+}
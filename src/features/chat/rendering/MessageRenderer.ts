@@ -8,7 +8,7 @@ import type ClaudianPlugin from '../../../main';
 import { formatDurationMmSs } from '../../../utils/date';
 import { processFileLinks, registerFileLinkHandler } from '../../../utils/fileLink';
 import { replaceImageEmbedsWithHtml } from '../../../utils/imageEmbed';
-import { findRewindContext } from '../rewind';
+import { findRegenerateTarget, findRewindContext } from '../rewind';
 import {
   renderStoredAsyncSubagent,
   renderStoredSubagent,
@@ -19,6 +19,12 @@ import { renderStoredWriteEdit } from './WriteEditRenderer';
 
 export type RenderContentFn = (el: HTMLElement, markdown: string) => Promise<void>;
 
+/** Pin state and toggling for the pin button on each message. */
+export interface MessagePinHandler {
+  isPinned: (msg: ChatMessage) => boolean;
+  togglePin: (messageId: string) => Promise<void>;
+}
+
 export class MessageRenderer {
   private app: App;
   private plugin: ClaudianPlugin;
@@ -26,10 +32,20 @@ export class MessageRenderer {
   private messagesEl: HTMLElement;
   private rewindCallback?: (messageId: string) => Promise<void>;
   private forkCallback?: (messageId: string) => Promise<void>;
+  private editCallback?: (messageId: string) => Promise<void>;
+  /** Called with the ID of the user message whose response is regenerated. */
+  private regenerateCallback?: (userMessageId: string) => Promise<void>;
   private liveMessageEls = new Map<string, HTMLElement>();
+  private pinHandler: MessagePinHandler | null = null;
 
   private static readonly REWIND_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></svg>`;
 
+  private static readonly EDIT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.174 6.812a1 1 0 0 0-3.986-3.987L3.842 16.174a2 2 0 0 0-.5.83l-1.321 4.352a.5.5 0 0 0 .623.622l4.353-1.32a2 2 0 0 0 .83-.497z"/><path d="m15 5 4 4"/></svg>`;
+
+  private static readonly REGENERATE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/><path d="M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16"/><path d="M8 16H3v5"/></svg>`;
+
+  private static readonly PIN_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 17v5"/><path d="M9 10.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24V16a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V7a1 1 0 0 1 1-1 2 2 0 0 0 0-4H8a2 2 0 0 0 0 4 1 1 0 0 1 1 1z"/></svg>`;
+
   private static readonly FORK_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="18" r="3"/><circle cx="6" cy="6" r="3"/><circle cx="18" cy="6" r="3"/><path d="M18 9v2c0 .6-.4 1-1 1H7c-.6 0-1-.4-1-1V9"/><path d="M12 12v3"/></svg>`;
 
   constructor(
@@ -38,6 +54,8 @@ export class MessageRenderer {
     messagesEl: HTMLElement,
     rewindCallback?: (messageId: string) => Promise<void>,
     forkCallback?: (messageId: string) => Promise<void>,
+    editCallback?: (messageId: string) => Promise<void>,
+    regenerateCallback?: (userMessageId: string) => Promise<void>,
   ) {
     this.app = plugin.app;
     this.plugin = plugin;
@@ -45,6 +63,8 @@ export class MessageRenderer {
     this.messagesEl = messagesEl;
     this.rewindCallback = rewindCallback;
     this.forkCallback = forkCallback;
+    this.editCallback = editCallback;
+    this.regenerateCallback = regenerateCallback;
 
     // Register delegated click handler for file links
     registerFileLinkHandler(this.app, this.messagesEl, this.component);
@@ -55,6 +75,22 @@ export class MessageRenderer {
     this.messagesEl = el;
   }
 
+  /** Enables the pin button on messages rendered from now on. */
+  setPinHandler(handler: MessagePinHandler | null): void {
+    this.pinHandler = handler;
+  }
+
+  /** Updates the pinned styling of a rendered message. */
+  setMessagePinned(messageId: string, pinned: boolean): void {
+    const msgEl = Array.from(this.messagesEl.querySelectorAll('.claudian-message'))
+      .find(el => el.getAttribute('data-message-id') === messageId) as HTMLElement | undefined;
+    if (!msgEl) return;
+    msgEl.toggleClass('claudian-message-pinned', pinned);
+    const btn = msgEl.querySelector('.claudian-message-pin-btn') as HTMLElement | null;
+    btn?.toggleClass('is-active', pinned);
+    btn?.setAttribute('aria-label', pinned ? 'Unpin message' : 'Pin message');
+  }
+
   // ============================================
   // Streaming Message Rendering
   // ============================================
@@ -96,10 +132,13 @@ export class MessageRenderer {
         void this.renderContent(textEl, textToShow);
         this.addUserCopyButton(msgEl, textToShow);
       }
-      if (this.rewindCallback || this.forkCallback) {
+      if (this.rewindCallback || this.forkCallback || this.editCallback) {
         this.liveMessageEls.set(msg.id, msgEl);
       }
+    } else if (this.regenerateCallback) {
+      this.liveMessageEls.set(msg.id, msgEl);
     }
+    this.addPinButton(msgEl, msg);
 
     this.scrollToBottom();
     return msgEl;
@@ -185,9 +224,25 @@ export class MessageRenderer {
           this.addForkButton(msgEl, msg.id);
         }
       }
+      if (msg.sdkUserUuid && this.editCallback && this.isResendEligible(allMessages, index)) {
+        this.addEditButton(msgEl, msg.id);
+      }
     } else if (msg.role === 'assistant') {
       this.renderAssistantContent(msg, contentEl);
+      const userMessageId = this.getRegenerateTarget(allMessages, index);
+      if (userMessageId) {
+        this.addRegenerateButton(msgEl, userMessageId);
+      }
     }
+    this.addPinButton(msgEl, msg);
+  }
+
+  /** ID of the user message an assistant message can be regenerated from, if any. */
+  private getRegenerateTarget(allMessages?: ChatMessage[], index?: number): string | null {
+    if (!this.regenerateCallback || !allMessages || index === undefined) return null;
+    const userIdx = findRegenerateTarget(allMessages, index);
+    if (userIdx === -1 || !allMessages[userIdx].sdkUserUuid) return null;
+    return this.isResendEligible(allMessages, userIdx) ? allMessages[userIdx].id : null;
   }
 
   private isRewindEligible(allMessages?: ChatMessage[], index?: number): boolean {
@@ -196,6 +251,13 @@ export class MessageRenderer {
     return !!ctx.prevAssistantUuid && ctx.hasResponse;
   }
 
+  /** Edit and regenerate also cover the first turn, which is resent in a fresh session. */
+  private isResendEligible(allMessages?: ChatMessage[], index?: number): boolean {
+    if (!allMessages || index === undefined) return false;
+    const ctx = findRewindContext(allMessages, index);
+    return ctx.hasResponse && (!!ctx.prevAssistantUuid || ctx.isFirstTurn);
+  }
+
   /**
    * Renders an interrupt indicator (stored interrupts from SDK history).
    * Uses the same styling as streaming interrupts.
@@ -577,24 +639,53 @@ export class MessageRenderer {
   }
 
   refreshActionButtons(msg: ChatMessage, allMessages?: ChatMessage[], index?: number): void {
+    this.refreshRegenerateButton(msg, allMessages, index);
+
     if (!msg.sdkUserUuid) return;
-    if (!this.isRewindEligible(allMessages, index)) return;
     const msgEl = this.liveMessageEls.get(msg.id);
     if (!msgEl) return;
 
-    if (this.rewindCallback && !msgEl.querySelector('.claudian-message-rewind-btn')) {
-      this.addRewindButton(msgEl, msg.id);
+    if (this.isRewindEligible(allMessages, index)) {
+      if (this.rewindCallback && !msgEl.querySelector('.claudian-message-rewind-btn')) {
+        this.addRewindButton(msgEl, msg.id);
+      }
+      if (this.forkCallback && !msgEl.querySelector('.claudian-message-fork-btn')) {
+        this.addForkButton(msgEl, msg.id);
+      }
     }
-    if (this.forkCallback && !msgEl.querySelector('.claudian-message-fork-btn')) {
-      this.addForkButton(msgEl, msg.id);
+    if (
+      this.editCallback &&
+      !msgEl.querySelector('.claudian-message-edit-btn') &&
+      this.isResendEligible(allMessages, index)
+    ) {
+      this.addEditButton(msgEl, msg.id);
     }
     this.cleanupLiveMessageEl(msg.id, msgEl);
   }
 
+  /** Adds the regenerate button to the response of a finished streamed turn. */
+  private refreshRegenerateButton(userMsg: ChatMessage, allMessages?: ChatMessage[], index?: number): void {
+    if (!allMessages || index === undefined) return;
+
+    let lastIdx = index;
+    while (allMessages[lastIdx + 1]?.role === 'assistant') lastIdx++;
+    if (lastIdx === index) return;
+
+    const assistantId = allMessages[lastIdx].id;
+    const assistantEl = this.liveMessageEls.get(assistantId);
+    if (!assistantEl) return;
+    this.liveMessageEls.delete(assistantId);
+
+    if (this.getRegenerateTarget(allMessages, lastIdx) === userMsg.id) {
+      this.addRegenerateButton(assistantEl, userMsg.id);
+    }
+  }
+
   private cleanupLiveMessageEl(msgId: string, msgEl: HTMLElement): void {
     const needsRewind = this.rewindCallback && !msgEl.querySelector('.claudian-message-rewind-btn');
     const needsFork = this.forkCallback && !msgEl.querySelector('.claudian-message-fork-btn');
-    if (!needsRewind && !needsFork) {
+    const needsEdit = this.editCallback && !msgEl.querySelector('.claudian-message-edit-btn');
+    if (!needsRewind && !needsFork && !needsEdit) {
       this.liveMessageEls.delete(msgId);
     }
   }
@@ -664,6 +755,66 @@ export class MessageRenderer {
     });
   }
 
+  private addEditButton(msgEl: HTMLElement, messageId: string): void {
+    const toolbar = this.getOrCreateActionsToolbar(msgEl);
+    const btn = toolbar.createSpan({ cls: 'claudian-message-edit-btn' });
+    if (toolbar.firstChild !== btn) toolbar.insertBefore(btn, toolbar.firstChild);
+    btn.innerHTML = MessageRenderer.EDIT_ICON;
+    btn.setAttribute('aria-label', 'Edit and resend');
+    btn.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        await this.editCallback?.(messageId);
+      } catch (err) {
+        new Notice(`Resend failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+  }
+
+  private getOrCreateAssistantActions(msgEl: HTMLElement): HTMLElement {
+    const existing = msgEl.querySelector('.claudian-assistant-msg-actions') as HTMLElement | null;
+    if (existing) return existing;
+    return msgEl.createDiv({ cls: 'claudian-assistant-msg-actions' });
+  }
+
+  private addRegenerateButton(msgEl: HTMLElement, userMessageId: string): void {
+    if (msgEl.querySelector('.claudian-message-regenerate-btn')) return;
+    const actionsEl = this.getOrCreateAssistantActions(msgEl);
+    const btn = actionsEl.createSpan({ cls: 'claudian-message-regenerate-btn' });
+    if (actionsEl.firstChild !== btn) actionsEl.insertBefore(btn, actionsEl.firstChild);
+    btn.innerHTML = MessageRenderer.REGENERATE_ICON;
+    btn.setAttribute('aria-label', 'Regenerate response');
+    btn.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        await this.regenerateCallback?.(userMessageId);
+      } catch (err) {
+        new Notice(`Regenerate failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+  }
+
+  private addPinButton(msgEl: HTMLElement, msg: ChatMessage): void {
+    if (!this.pinHandler) return;
+    const actionsEl = msg.role === 'user'
+      ? this.getOrCreateActionsToolbar(msgEl)
+      : this.getOrCreateAssistantActions(msgEl);
+    const btn = actionsEl.createSpan({ cls: 'claudian-message-pin-btn' });
+    btn.innerHTML = MessageRenderer.PIN_ICON;
+    const pinned = this.pinHandler.isPinned(msg);
+    msgEl.toggleClass('claudian-message-pinned', pinned);
+    btn.toggleClass('is-active', pinned);
+    btn.setAttribute('aria-label', pinned ? 'Unpin message' : 'Pin message');
+    btn.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        await this.pinHandler?.togglePin(msg.id);
+      } catch (err) {
+        new Notice(`Pin failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+  }
+
   // ============================================
   // Utilities
   // ============================================
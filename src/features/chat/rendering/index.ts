@@ -1,3 +1,4 @@
+export { DryRunReview } from './DryRunReview';
 export { MessageRenderer } from './MessageRenderer';
 export {
   addSubagentToolCall,
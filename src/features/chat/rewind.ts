@@ -1,8 +1,10 @@
-import type { ChatMessage } from '../../core/types';
+import type { ChatMessage, ImageAttachment } from '../../core/types';
 
 export interface RewindContext {
   prevAssistantUuid: string | undefined;
   hasResponse: boolean;
+  /** No assistant message precedes the user message, so it can be resent in a fresh session. */
+  isFirstTurn: boolean;
 }
 
 /**
@@ -11,8 +13,11 @@ export interface RewindContext {
  */
 export function findRewindContext(messages: ChatMessage[], userIndex: number): RewindContext {
   let prevAssistantUuid: string | undefined;
+  let isFirstTurn = true;
   for (let i = userIndex - 1; i >= 0; i--) {
-    if (messages[i].role === 'assistant' && messages[i].sdkAssistantUuid) {
+    if (messages[i].role !== 'assistant') continue;
+    isFirstTurn = false;
+    if (messages[i].sdkAssistantUuid) {
       prevAssistantUuid = messages[i].sdkAssistantUuid;
       break;
     }
@@ -27,5 +32,52 @@ export function findRewindContext(messages: ChatMessage[], userIndex: number): R
     }
   }
 
-  return { prevAssistantUuid, hasResponse };
+  return { prevAssistantUuid, hasResponse, isFirstTurn };
+}
+
+/**
+ * Finds the user message an assistant message answers, for regenerating it.
+ * Returns -1 unless the message is the last assistant message of its turn.
+ */
+export function findRegenerateTarget(messages: ChatMessage[], assistantIndex: number): number {
+  if (messages[assistantIndex + 1]?.role === 'assistant') return -1;
+
+  for (let i = assistantIndex - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role === 'user' && !msg.isInterrupt && !msg.isRebuiltContext) return i;
+  }
+  return -1;
+}
+
+/** What a user message is resent with after an edit or for regenerate. */
+export interface ResendRequest {
+  /** Text of the message, as shown in the chat. */
+  text: string;
+  images?: ImageAttachment[];
+  /** Also restore files changed since the message. */
+  restoreFiles: boolean;
+  /** Model for the resent turn; the selected model when unset. */
+  model?: string;
+}
+
+export interface ResendPrompt {
+  prompt: string;
+  displayContent: string;
+}
+
+/**
+ * Builds the prompt that resends a user message. Context appended to the
+ * original prompt (current note, editor selection) is kept; if the prompt was
+ * rewritten on send, e.g. an expanded MCP prompt, edited text is sent without it.
+ */
+export function buildResendPrompt(original: ChatMessage, text: string): ResendPrompt {
+  const originalText = original.displayContent ?? original.content;
+  if (text === originalText) {
+    return { prompt: original.content, displayContent: originalText };
+  }
+
+  const context = original.content.startsWith(originalText)
+    ? original.content.slice(originalText.length)
+    : '';
+  return { prompt: text + context, displayContent: text };
 }
@@ -0,0 +1,207 @@
+/**
+ * CompareService - Runs one prompt against two model configurations.
+ *
+ * Each branch is a cold-start query on its own ClaudianService that forks the
+ * tab's session, so both branches see the same history and neither changes it.
+ * Branches run without an approval handler and without the file-editing and shell
+ * tools, so neither branch edits the vault. A finished branch is promoted by appending
+ * its turn to the conversation and continuing from its forked session.
+ */
+
+import { ClaudianService } from '../../../core/agent';
+import { BASH_TOOLS, EDIT_TOOLS } from '../../../core/tools/toolNames';
+import type {
+  ChatMessage,
+  ContentBlock,
+  EnvSnippet,
+  StreamChunk,
+  ThinkingBudget,
+  ToolCallInfo,
+  TurnCost,
+  UsageInfo,
+} from '../../../core/types';
+import { DEFAULT_CLAUDE_MODELS } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { getModelsFromEnvironment, parseEnvironmentVariables } from '../../../utils/env';
+
+export interface CompareBranchConfig {
+  model: string;
+  thinkingBudget: ThinkingBudget;
+  /** Env snippet whose variables replace the active environment, or null to keep it. */
+  envSnippet: EnvSnippet | null;
+}
+
+export interface CompareRequest {
+  prompt: string;
+  /** Session both branches fork from; null starts each branch in a fresh session. */
+  sessionId: string | null;
+  conversationId: string | null;
+  externalContextPaths?: string[];
+  enabledMcpServers?: Set<string>;
+}
+
+export interface CompareBranchResult {
+  text: string;
+  toolCalls: ToolCallInfo[];
+  contentBlocks: ContentBlock[];
+  usage: UsageInfo | null;
+  cost: TurnCost | null;
+  /** Forked session holding the branch's turn, once the SDK reported one. */
+  sessionId: string | null;
+  durationMs: number;
+  error?: string;
+  cancelled: boolean;
+}
+
+/** Models offered for a branch: the env snippet's custom models, or the defaults. */
+export function getCompareModelOptions(environmentVariables: string): { value: string; label: string }[] {
+  const customModels = getModelsFromEnvironment(parseEnvironmentVariables(environmentVariables));
+  return customModels.length > 0 ? customModels : [...DEFAULT_CLAUDE_MODELS];
+}
+
+/** Folds the top-level chunks of a branch into its final text, tool calls and usage. */
+export class BranchTranscript {
+  text = '';
+  toolCalls: ToolCallInfo[] = [];
+  contentBlocks: ContentBlock[] = [];
+  usage: UsageInfo | null = null;
+  cost: TurnCost | null = null;
+  error: string | undefined;
+
+  add(chunk: StreamChunk): void {
+    // Subagent activity is shown live but is not part of the branch's own turn
+    if ('parentToolUseId' in chunk && chunk.parentToolUseId) return;
+
+    switch (chunk.type) {
+      case 'text': {
+        this.text += chunk.content;
+        const last = this.contentBlocks[this.contentBlocks.length - 1];
+        if (last?.type === 'text') {
+          last.content += chunk.content;
+        } else {
+          this.contentBlocks.push({ type: 'text', content: chunk.content });
+        }
+        break;
+      }
+      case 'tool_use': {
+        const existing = this.toolCalls.find(call => call.id === chunk.id);
+        if (existing) {
+          existing.input = { ...existing.input, ...chunk.input };
+          break;
+        }
+        this.toolCalls.push({ id: chunk.id, name: chunk.name, input: chunk.input, status: 'running' });
+        this.contentBlocks.push({ type: 'tool_use', toolId: chunk.id });
+        break;
+      }
+      case 'tool_result': {
+        const toolCall = this.toolCalls.find(call => call.id === chunk.id);
+        if (toolCall) {
+          toolCall.status = chunk.isError ? 'error' : 'completed';
+          toolCall.result = chunk.content;
+        }
+        break;
+      }
+      case 'usage':
+        this.usage = chunk.usage;
+        break;
+      case 'cost':
+        this.cost = chunk.cost;
+        break;
+      case 'error':
+        this.error = chunk.content;
+        break;
+    }
+  }
+}
+
+/** The user and assistant messages a promoted branch adds to the conversation. */
+export function buildBranchMessages(
+  prompt: string,
+  result: CompareBranchResult,
+  generateId: () => string,
+  now = Date.now()
+): ChatMessage[] {
+  return [
+    { id: generateId(), role: 'user', content: prompt, timestamp: now - result.durationMs },
+    {
+      id: generateId(),
+      role: 'assistant',
+      content: result.text,
+      timestamp: now,
+      toolCalls: result.toolCalls,
+      contentBlocks: result.contentBlocks,
+      durationSeconds: Math.round(result.durationMs / 1000),
+    },
+  ];
+}
+
+export class CompareBranchRunner {
+  private service: ClaudianService | null = null;
+  private cancelled = false;
+
+  constructor(private plugin: ClaudianPlugin) {}
+
+  isRunning(): boolean {
+    return this.service !== null;
+  }
+
+  async run(
+    request: CompareRequest,
+    config: CompareBranchConfig,
+    onChunk: (chunk: StreamChunk) => void
+  ): Promise<CompareBranchResult> {
+    if (this.service) {
+      throw new Error('This branch is already running');
+    }
+
+    const service = new ClaudianService(this.plugin, this.plugin.mcpManager);
+    this.service = service;
+    this.cancelled = false;
+    const transcript = new BranchTranscript();
+    const startedAt = Date.now();
+    let sessionId: string | null = null;
+
+    try {
+      for await (const chunk of service.query(request.prompt, undefined, undefined, {
+        forceColdStart: true,
+        model: config.model,
+        thinkingBudget: config.thinkingBudget,
+        environmentVariables: config.envSnippet?.envVars,
+        forkFromSessionId: request.sessionId ?? undefined,
+        permissionMode: 'normal',
+        disallowedTools: [...EDIT_TOOLS, ...BASH_TOOLS],
+        conversationId: request.conversationId,
+        externalContextPaths: request.externalContextPaths,
+        enabledMcpServers: request.enabledMcpServers,
+      })) {
+        transcript.add(chunk);
+        onChunk(chunk);
+      }
+      sessionId = service.getSessionId();
+    } catch (e) {
+      transcript.error = e instanceof Error ? e.message : String(e);
+    } finally {
+      service.cleanup();
+      this.service = null;
+    }
+
+    return {
+      text: transcript.text,
+      toolCalls: transcript.toolCalls,
+      contentBlocks: transcript.contentBlocks,
+      usage: transcript.usage,
+      cost: transcript.cost,
+      // Without a new session there is nothing to continue from
+      sessionId: sessionId !== request.sessionId ? sessionId : null,
+      durationMs: Date.now() - startedAt,
+      error: transcript.error,
+      cancelled: this.cancelled,
+    };
+  }
+
+  cancel(): void {
+    if (!this.service) return;
+    this.cancelled = true;
+    this.service.cancel();
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * ConversationExportService - Exports conversations to Markdown notes in the vault.
+ *
+ * Renders messages in stream order (text, thinking, tool calls, subagents) with
+ * YAML frontmatter, and writes the result to the configured export folder.
+ */
+
+import { TOOL_AGENT_OUTPUT, TOOL_BASH, TOOL_TASK } from '../../../core/tools/toolNames';
+import type { ChatMessage, Conversation, SubagentInfo, ToolCallInfo, ToolDiffData } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { formatDurationMmSs } from '../../../utils/date';
+import { getToolLabel } from '../rendering/ToolCallRenderer';
+
+export interface ConversationExportOptions {
+  /** Render tool calls and subagents as folded Obsidian callouts. */
+  collapseToolCalls: boolean;
+  /** Include thinking blocks. */
+  includeThinking: boolean;
+}
+
+/** Tool results longer than this are truncated in the export. */
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
+/** Characters not allowed in vault file names (plus link-breaking ones). */
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/** Wraps content in a code fence long enough to contain any backtick runs inside it. */
+function fence(content: string, lang = ''): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${lang}\n${content}\n${marker}`;
+}
+
+/** Prefixes every line with "> " so the block renders inside a callout. */
+function callout(type: string, title: string, body: string, folded: boolean): string {
+  const header = `> [!${type}]${folded ? '-' : ''} ${title}`;
+  if (!body.trim()) return header;
+  const quoted = body.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+  return `${header}\n${quoted}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}\n... (${text.length - maxLength} more characters)`;
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function renderDiff(diffData: ToolDiffData): string {
+  const lines = diffData.diffLines.map(line => {
+    const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+    return `${prefix}${line.text}`;
+  });
+  const header = `\`${diffData.filePath}\` (+${diffData.stats.added} -${diffData.stats.removed})`;
+  return `${header}\n\n${fence(lines.join('\n'), 'diff')}`;
+}
+
+function renderToolInput(toolCall: ToolCallInfo): string {
+  const input = toolCall.input ?? {};
+  if (toolCall.name === TOOL_BASH && typeof input.command === 'string') {
+    return fence(input.command, 'bash');
+  }
+  if (Object.keys(input).length === 0) return '';
+  return fence(JSON.stringify(input, null, 2), 'json');
+}
+
+function renderSubagent(
+  toolCall: ToolCallInfo,
+  subagent: SubagentInfo,
+  options: ConversationExportOptions
+): string {
+  const parts: string[] = [];
+
+  if (subagent.prompt) {
+    parts.push(`**Prompt**\n\n${subagent.prompt.trim()}`);
+  }
+
+  for (const nested of subagent.toolCalls ?? []) {
+    const rendered = renderToolCall(nested, options);
+    if (rendered) parts.push(rendered);
+  }
+
+  if (subagent.result) {
+    parts.push(`**Result**\n\n${subagent.result.trim()}`);
+  }
+
+  const title = `Subagent: ${subagent.description || getToolLabel(toolCall.name, toolCall.input ?? {})}`;
+  const body = parts.join('\n\n');
+  if (options.collapseToolCalls) {
+    return callout(subagent.status === 'error' ? 'failure' : 'quote', title, body, true);
+  }
+  return body ? `#### ${title}\n\n${body}` : `#### ${title}`;
+}
+
+function renderToolCall(toolCall: ToolCallInfo, options: ConversationExportOptions): string {
+  // TaskOutput is internal plumbing for async subagents and is never shown in chat
+  if (toolCall.name === TOOL_AGENT_OUTPUT) return '';
+
+  if (toolCall.name === TOOL_TASK && toolCall.subagent) {
+    return renderSubagent(toolCall, toolCall.subagent, options);
+  }
+
+  const parts: string[] = [];
+  const input = renderToolInput(toolCall);
+  if (input) parts.push(input);
+
+  if (toolCall.diffData) {
+    parts.push(renderDiff(toolCall.diffData));
+  } else if (toolCall.result?.trim()) {
+    parts.push(`**Result**\n\n${fence(truncate(toolCall.result.trim(), MAX_TOOL_RESULT_LENGTH))}`);
+  }
+
+  const title = getToolLabel(toolCall.name, toolCall.input ?? {});
+  const body = parts.join('\n\n');
+  if (options.collapseToolCalls) {
+    const failed = toolCall.status === 'error' || toolCall.status === 'blocked';
+    return callout(failed ? 'failure' : 'example', title, body, true);
+  }
+  return body ? `#### ${title}\n\n${body}` : `#### ${title}`;
+}
+
+function renderThinking(content: string, durationSeconds?: number): string {
+  const title = durationSeconds ? `Thinking (${formatDurationMmSs(durationSeconds)})` : 'Thinking';
+  return callout('note', title, content.trim(), true);
+}
+
+function renderAssistantMessage(message: ChatMessage, options: ConversationExportOptions): string[] {
+  const parts: string[] = [];
+  const toolCalls = message.toolCalls ?? [];
+
+  if (!message.contentBlocks || message.contentBlocks.length === 0) {
+    if (message.content.trim()) parts.push(message.content.trim());
+    for (const toolCall of toolCalls) {
+      const rendered = renderToolCall(toolCall, options);
+      if (rendered) parts.push(rendered);
+    }
+    return parts;
+  }
+
+  const renderedToolIds = new Set<string>();
+  for (const block of message.contentBlocks) {
+    if (block.type === 'text') {
+      if (block.content.trim()) parts.push(block.content.trim());
+    } else if (block.type === 'thinking') {
+      if (options.includeThinking && block.content.trim()) {
+        parts.push(renderThinking(block.content, block.durationSeconds));
+      }
+    } else if (block.type === 'tool_use' || block.type === 'subagent') {
+      const toolId = block.type === 'tool_use' ? block.toolId : block.subagentId;
+      const toolCall = toolCalls.find(tc => tc.id === toolId);
+      if (!toolCall || renderedToolIds.has(toolCall.id)) continue;
+      renderedToolIds.add(toolCall.id);
+      const rendered = renderToolCall(toolCall, options);
+      if (rendered) parts.push(rendered);
+    } else if (block.type === 'compact_boundary') {
+      parts.push('*Conversation compacted*');
+    }
+  }
+
+  // Tool calls missing from contentBlocks are still part of the record
+  for (const toolCall of toolCalls) {
+    if (renderedToolIds.has(toolCall.id)) continue;
+    const rendered = renderToolCall(toolCall, options);
+    if (rendered) parts.push(rendered);
+  }
+
+  return parts;
+}
+
+function renderFrontmatter(conversation: Conversation): string {
+  const lines = [
+    '---',
+    `title: ${yamlString(conversation.title)}`,
+    `createdAt: ${new Date(conversation.createdAt).toISOString()}`,
+    `updatedAt: ${new Date(conversation.updatedAt).toISOString()}`,
+  ];
+
+  const usage = conversation.usage;
+  if (usage?.model) {
+    lines.push(`model: ${yamlString(usage.model)}`);
+  }
+  if (usage) {
+    lines.push(
+      'usage:',
+      `  inputTokens: ${usage.inputTokens}`,
+      `  cacheCreationInputTokens: ${usage.cacheCreationInputTokens}`,
+      `  cacheReadInputTokens: ${usage.cacheReadInputTokens}`,
+      `  contextTokens: ${usage.contextTokens}`,
+      `  contextWindow: ${usage.contextWindow}`,
+    );
+  }
+  const cost = conversation.cost;
+  if (cost) {
+    lines.push(
+      'cost:',
+      `  usd: ${Number(cost.totals.costUsd.toFixed(6))}`,
+      `  inputTokens: ${cost.totals.inputTokens}`,
+      `  outputTokens: ${cost.totals.outputTokens}`,
+      `  cacheCreationInputTokens: ${cost.totals.cacheCreationInputTokens}`,
+      `  cacheReadInputTokens: ${cost.totals.cacheReadInputTokens}`,
+    );
+  }
+
+  lines.push(`conversationId: ${yamlString(conversation.id)}`, '---');
+  return lines.join('\n');
+}
+
+/** Renders a conversation as a Markdown note with frontmatter. */
+export function renderConversationMarkdown(
+  conversation: Conversation,
+  options: ConversationExportOptions
+): string {
+  const sections: string[] = [renderFrontmatter(conversation), `# ${conversation.title}`];
+
+  for (const message of conversation.messages) {
+    if (message.isRebuiltContext) continue;
+
+    if (message.isInterrupt) {
+      sections.push('*Interrupted*');
+      continue;
+    }
+
+    if (message.role === 'user') {
+      const text = (message.displayContent ?? message.content).trim();
+      const imageCount = message.images?.length ?? 0;
+      if (!text && imageCount === 0) continue;
+
+      const parts = ['## User'];
+      if (text) parts.push(text);
+      if (imageCount > 0) {
+        parts.push(`*${imageCount} image${imageCount === 1 ? '' : 's'} attached*`);
+      }
+      sections.push(parts.join('\n\n'));
+      continue;
+    }
+
+    const parts = renderAssistantMessage(message, options);
+    if (parts.length === 0) continue;
+    sections.push(['## Assistant', ...parts].join('\n\n'));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+/** Turns a conversation title into a safe note file name (without extension). */
+export function toExportFileName(title: string): string {
+  const sanitized = title
+    .replace(INVALID_FILENAME_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '');
+  return sanitized.slice(0, 100).trim() || 'Conversation';
+}
+
+export class ConversationExportService {
+  private plugin: ClaudianPlugin;
+
+  constructor(plugin: ClaudianPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Exports a conversation to a new note in the export folder.
+   * Returns the vault path of the created note.
+   */
+  async exportConversation(conversationId: string): Promise<string> {
+    const conversation = await this.plugin.getConversationById(conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const { exportFolder, exportCollapseToolCalls, exportIncludeThinking } = this.plugin.settings;
+    const markdown = renderConversationMarkdown(conversation, {
+      collapseToolCalls: exportCollapseToolCalls,
+      includeThinking: exportIncludeThinking,
+    });
+
+    const folder = exportFolder.trim().replace(/^\/+|\/+$/g, '');
+    if (folder) {
+      await this.ensureFolder(folder);
+    }
+
+    const path = this.getAvailablePath(folder, toExportFileName(conversation.title));
+    await this.plugin.app.vault.create(path, markdown);
+    return path;
+  }
+
+  private async ensureFolder(folder: string): Promise<void> {
+    const { vault } = this.plugin.app;
+    let current = '';
+    for (const segment of folder.split('/').filter(Boolean)) {
+      current = current ? `${current}/${segment}` : segment;
+      if (!vault.getAbstractFileByPath(current)) {
+        await vault.createFolder(current);
+      }
+    }
+  }
+
+  /** Appends " 1", " 2", ... until the path is unused. */
+  private getAvailablePath(folder: string, baseName: string): string {
+    const { vault } = this.plugin.app;
+    const prefix = folder ? `${folder}/` : '';
+    let path = `${prefix}${baseName}.md`;
+    for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+      path = `${prefix}${baseName} ${i}.md`;
+    }
+    return path;
+  }
+}
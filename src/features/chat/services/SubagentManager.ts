@@ -383,6 +383,15 @@ export class SubagentManager {
     return this.pendingAsyncSubagents.has(taskToolId);
   }
 
+  /** True while a background subagent is still starting or running in the CLI process. */
+  public hasActiveAsyncSubagents(): boolean {
+    if (this.pendingAsyncSubagents.size > 0) return true;
+    for (const subagent of this.activeAsyncSubagents.values()) {
+      if (subagent.asyncStatus === 'running') return true;
+    }
+    return false;
+  }
+
   public isLinkedAgentOutputTool(toolId: string): boolean {
     return this.outputToolIdToAgentId.has(toolId);
   }
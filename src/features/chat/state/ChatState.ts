@@ -1,4 +1,4 @@
-import type { UsageInfo } from '../../../core/types';
+import type { ConversationCost, UsageInfo } from '../../../core/types';
 import type {
   ChatMessage,
   ChatStateCallbacks,
@@ -32,6 +32,7 @@ function createInitialState(): ChatStateData {
     writeEditStates: new Map(),
     pendingTools: new Map(),
     usage: null,
+    cost: null,
     ignoreUsageUpdates: false,
     currentTodos: null,
     needsAttention: false,
@@ -253,6 +254,15 @@ export class ChatState {
     this._callbacks.onUsageChanged?.(value);
   }
 
+  get cost(): ConversationCost | null {
+    return this.state.cost;
+  }
+
+  set cost(value: ConversationCost | null) {
+    this.state.cost = value;
+    this._callbacks.onCostChanged?.(value);
+  }
+
   get ignoreUsageUpdates(): boolean {
     return this.state.ignoreUsageUpdates;
   }
@@ -389,6 +399,7 @@ export class ChatState {
     this.clearMaps();
     this.state.queuedMessage = null;
     this.usage = null;
+    this.cost = null;
     this.currentTodos = null;
     this.autoScrollEnabled = true;
   }
@@ -3,7 +3,9 @@ import type { EditorView } from '@codemirror/view';
 import type { TodoItem } from '../../../core/tools';
 import type {
   ChatMessage,
+  ConversationCost,
   ImageAttachment,
+  McpToolSelection,
   PermissionMode,
   SubagentInfo,
   ToolCallInfo,
@@ -79,6 +81,8 @@ export interface ChatStateData {
 
   // Context window usage
   usage: UsageInfo | null;
+  // Cumulative token and cost totals for the conversation
+  cost: ConversationCost | null;
   // Flag to ignore usage updates (during session reset)
   ignoreUsageUpdates: boolean;
 
@@ -111,6 +115,7 @@ export interface ChatStateCallbacks {
   onStreamingStateChanged?: (isStreaming: boolean) => void;
   onConversationChanged?: (id: string | null) => void;
   onUsageChanged?: (usage: UsageInfo | null) => void;
+  onCostChanged?: (cost: ConversationCost | null) => void;
   onTodosChanged?: (todos: TodoItem[] | null) => void;
   onAttentionChanged?: (needsAttention: boolean) => void;
   onAutoScrollChanged?: (enabled: boolean) => void;
@@ -122,8 +127,10 @@ export interface QueryOptions {
   model?: string;
   mcpMentions?: Set<string>;
   enabledMcpServers?: Set<string>;
+  enabledMcpTools?: McpToolSelection;
   forceColdStart?: boolean;
   externalContextPaths?: string[];
+  conversationId?: string | null;
 }
 
 // Re-export types that are used across the chat feature
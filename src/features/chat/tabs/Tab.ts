@@ -5,9 +5,11 @@ import { ClaudianService } from '../../../core/agent';
 import type { McpServerManager } from '../../../core/mcp';
 import type { ChatMessage, ClaudeModel, Conversation, PermissionMode, SlashCommand, ThinkingBudget } from '../../../core/types';
 import { DEFAULT_CLAUDE_MODELS, DEFAULT_THINKING_BUDGET, getContextWindowSize } from '../../../core/types';
+import { evaluateBudget, getBudgetLimits, hasBudgetLimits } from '../../../core/usage';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { SlashCommandDropdown } from '../../../shared/components/SlashCommandDropdown';
+import { McpResourceBrowserModal } from '../../../shared/modals/McpResourceBrowserModal';
 import { getEnhancedPath } from '../../../utils/env';
 import { getVaultPath } from '../../../utils/path';
 import {
@@ -15,6 +17,7 @@ import {
   ConversationController,
   InputController,
   NavigationController,
+  PinController,
   SelectionController,
   StreamController,
 } from '../controllers';
@@ -32,6 +35,9 @@ import {
   ImageContextManager,
   InstructionModeManager as InstructionModeManagerClass,
   NavigationSidebar,
+  PinnedStrip,
+  requestResend,
+  type ResendMode,
   StatusPanel,
 } from '../ui';
 import type { TabData, TabDOMElements, TabId } from './types';
@@ -97,6 +103,8 @@ export function createTab(options: TabCreateOptions): TabData {
     conversationId: conversation?.id ?? null,
     service: null,
     serviceInitialized: false,
+    lastActiveAt: Date.now(),
+    hibernated: false,
     state,
     controllers: {
       selectionController: null,
@@ -105,6 +113,7 @@ export function createTab(options: TabCreateOptions): TabData {
       streamController: null,
       inputController: null,
       navigationController: null,
+      pinController: null,
     },
     services: {
       subagentManager,
@@ -123,8 +132,10 @@ export function createTab(options: TabCreateOptions): TabData {
       instructionModeManager: null,
       bangBashModeManager: null,
       contextUsageMeter: null,
+      budgetIndicator: null,
       statusPanel: null,
       navigationSidebar: null,
+      pinnedStrip: null,
     },
     dom,
     renderer: null,
@@ -170,6 +181,9 @@ function autoResizeTextarea(textarea: HTMLTextAreaElement): void {
  * Builds the DOM structure for a tab.
  */
 function buildTabDOM(contentEl: HTMLElement): TabDOMElements {
+  // Pinned messages strip (top of the chat, hidden while empty)
+  const pinnedStripEl = contentEl.createDiv({ cls: 'claudian-pinned-strip' });
+
   // Messages wrapper (for scroll-to-bottom button positioning)
   const messagesWrapperEl = contentEl.createDiv({ cls: 'claudian-messages-wrapper' });
 
@@ -205,6 +219,7 @@ function buildTabDOM(contentEl: HTMLElement): TabDOMElements {
 
   return {
     contentEl,
+    pinnedStripEl,
     messagesEl,
     welcomeEl,
     statusPanelContainerEl,
@@ -243,6 +258,7 @@ export async function initializeTabService(
 
   let service: ClaudianService | null = null;
   let unsubscribeReadyState: (() => void) | null = null;
+  let conversation: Conversation | null = null;
 
   try {
     // Create per-tab ClaudianService
@@ -257,7 +273,7 @@ export async function initializeTabService(
     let sessionId: string | undefined;
     let externalContextPaths = plugin.settings.persistentExternalContextPaths || [];
     if (tab.conversationId) {
-      const conversation = await plugin.getConversationById(tab.conversationId);
+      conversation = await plugin.getConversationById(tab.conversationId);
 
       if (conversation) {
         sessionId = service.applyForkState(conversation) ?? undefined;
@@ -292,6 +308,15 @@ export async function initializeTabService(
     // Re-throw to let caller handle (e.g., show error to user)
     throw error;
   }
+
+  // Changes left staged when the view closed come back with the service that holds them
+  if (conversation) {
+    try {
+      await tab.controllers.conversationController?.restoreStagedChanges(conversation);
+    } catch {
+      // Best-effort; the saved changes stay on the conversation
+    }
+  }
 }
 
 /**
@@ -341,11 +366,13 @@ function initializeContextManagers(tab: TabData, plugin: ClaudianPlugin): void {
  * Initializes slash command dropdown for a tab.
  * @param getSdkCommands Callback to get SDK commands from any ready service (shared across tabs).
  * @param getHiddenCommands Callback to get current hidden commands from settings.
+ * @param getMcpPromptCommands Callback to get prompts of enabled MCP servers as commands.
  */
 function initializeSlashCommands(
   tab: TabData,
   getSdkCommands?: () => Promise<SlashCommand[]>,
-  getHiddenCommands?: () => Set<string>
+  getHiddenCommands?: () => Set<string>,
+  getMcpPromptCommands?: () => Promise<SlashCommand[]>
 ): void {
   const { dom } = tab;
 
@@ -356,6 +383,7 @@ function initializeSlashCommands(
       onSelect: () => {},
       onHide: () => {},
       getSdkCommands,
+      getMcpPromptCommands,
     },
     {
       hiddenCommands: getHiddenCommands?.() ?? new Set(),
@@ -463,17 +491,32 @@ function initializeInputToolbar(tab: TabData, plugin: ClaudianPlugin): void {
       plugin.settings.permissionMode = mode;
       await plugin.saveSettings();
       dom.inputWrapper.toggleClass('claudian-input-plan-mode', mode === 'plan');
+      dom.inputWrapper.toggleClass('claudian-input-dry-run-mode', mode === 'dry-run');
     },
   });
 
   tab.ui.modelSelector = toolbarComponents.modelSelector;
   tab.ui.thinkingBudgetSelector = toolbarComponents.thinkingBudgetSelector;
   tab.ui.contextUsageMeter = toolbarComponents.contextUsageMeter;
+  tab.ui.budgetIndicator = toolbarComponents.budgetIndicator;
   tab.ui.externalContextSelector = toolbarComponents.externalContextSelector;
   tab.ui.mcpServerSelector = toolbarComponents.mcpServerSelector;
   tab.ui.permissionToggle = toolbarComponents.permissionToggle;
 
   tab.ui.mcpServerSelector.setMcpManager(plugin.mcpManager);
+  tab.ui.mcpServerSelector.setOnRestart(async (name) => {
+    await tab.service?.reloadMcpServers(name);
+    await plugin.mcpManager.checkServerHealth(name);
+  });
+  tab.ui.mcpServerSelector.setOnBrowseResources(() => openMcpResourceBrowser(tab, plugin));
+  const unsubscribeHealth = plugin.mcpManager.onHealthChange(() => {
+    tab.ui.mcpServerSelector?.refreshHealth();
+  });
+  tab.dom.eventCleanups.push(unsubscribeHealth);
+  const removeStatusSource = plugin.mcpManager.addSessionStatusSource(
+    () => tab.service?.getMcpServerStatus() ?? Promise.resolve([])
+  );
+  tab.dom.eventCleanups.push(removeStatusSource);
 
   // Sync @-mentions to UI selector
   tab.ui.fileContextManager?.setOnMcpMentionChange((servers) => {
@@ -497,6 +540,7 @@ function initializeInputToolbar(tab: TabData, plugin: ClaudianPlugin): void {
   });
 
   dom.inputWrapper.toggleClass('claudian-input-plan-mode', plugin.settings.permissionMode === 'plan');
+  dom.inputWrapper.toggleClass('claudian-input-dry-run-mode', plugin.settings.permissionMode === 'dry-run');
 }
 
 export interface InitializeTabUIOptions {
@@ -529,7 +573,8 @@ export function initializeTabUI(
   initializeSlashCommands(
     tab,
     options.getSdkCommands,
-    () => new Set((plugin.settings.hiddenSlashCommands || []).map(c => c.toLowerCase()))
+    () => plugin.getHiddenSlashCommands(),
+    () => plugin.mcpManager.getPromptCommands()
   );
 
   // Initialize navigation sidebar
@@ -540,18 +585,36 @@ export function initializeTabUI(
     );
   }
 
+  // Initialize pinned strip (pins are managed by the pin controller)
+  tab.ui.pinnedStrip = new PinnedStrip(dom.pinnedStripEl, {
+    onJump: (messageId) => tab.controllers.pinController?.jumpTo(messageId),
+    onRename: async (messageKey, name) => { await tab.controllers.pinController?.renamePin(messageKey, name); },
+    onUnpin: async (messageKey) => { await tab.controllers.pinController?.unpin(messageKey); },
+  });
+
   // Initialize instruction mode and todo panel
   initializeInstructionAndTodo(tab, plugin);
 
   // Initialize input toolbar
   initializeInputToolbar(tab, plugin);
+  updateBudgetIndicator(tab, plugin);
 
   // Update ChatState callbacks for UI updates
+  const { onConversationChanged } = state.callbacks;
   state.callbacks = {
     ...state.callbacks,
     onUsageChanged: (usage) => tab.ui.contextUsageMeter?.update(usage),
+    onCostChanged: (cost) => {
+      tab.ui.contextUsageMeter?.setCost(cost);
+      updateBudgetIndicator(tab, plugin);
+    },
     onTodosChanged: (todos) => tab.ui.statusPanel?.updateTodos(todos),
     onAutoScrollChanged: () => tab.ui.navigationSidebar?.updateVisibility(),
+    onMessagesChanged: () => tab.controllers.pinController?.refresh(),
+    onConversationChanged: (conversationId) => {
+      onConversationChanged?.(conversationId);
+      tab.controllers.pinController?.refresh();
+    },
   };
 
   // ResizeObserver to detect overflow changes (e.g., content growth)
@@ -566,6 +629,8 @@ export interface ForkContext {
   messages: ChatMessage[];
   sourceSessionId: string;
   resumeAt: string;
+  /** Conversation forked from, recorded so the fork shows up in its branch tree. */
+  sourceConversationId?: string;
   sourceTitle?: string;
   /** 1-based index used for fork title suffix (counts only non-interrupt user messages). */
   forkAtUserMessage?: number;
@@ -587,6 +652,7 @@ function countUserMessagesForForkTitle(messages: ChatMessage[]): number {
 
 interface ForkSource {
   sourceSessionId: string;
+  sourceConversationId?: string;
   sourceTitle?: string;
   currentNote?: string;
 }
@@ -615,6 +681,7 @@ function resolveForkSource(tab: TabData, plugin: ClaudianPlugin): ForkSource | n
 
   return {
     sourceSessionId,
+    sourceConversationId: tab.conversationId ?? undefined,
     sourceTitle: sourceConversation?.title,
     currentNote: sourceConversation?.currentNote,
   };
@@ -658,6 +725,7 @@ async function handleForkRequest(
     messages: deepCloneMessages(msgs.slice(0, userIdx)),
     sourceSessionId: source.sourceSessionId,
     resumeAt: rewindCtx.prevAssistantUuid,
+    sourceConversationId: source.sourceConversationId,
     sourceTitle: source.sourceTitle,
     forkAtUserMessage: countUserMessagesForForkTitle(msgs.slice(0, userIdx + 1)),
     currentNote: source.currentNote,
@@ -702,12 +770,37 @@ async function handleForkAll(
     messages: deepCloneMessages(msgs),
     sourceSessionId: source.sourceSessionId,
     resumeAt: lastAssistantUuid,
+    sourceConversationId: source.sourceConversationId,
     sourceTitle: source.sourceTitle,
     forkAtUserMessage: countUserMessagesForForkTitle(msgs) + 1,
     currentNote: source.currentNote,
   });
 }
 
+/** Asks how to resend a user message, then rewinds to it and sends it again. */
+async function handleResendRequest(
+  tab: TabData,
+  plugin: ClaudianPlugin,
+  userMessageId: string,
+  mode: ResendMode,
+): Promise<void> {
+  if (tab.state.isStreaming) {
+    new Notice(t('chat.rewind.unavailableStreaming'));
+    return;
+  }
+
+  const message = tab.state.messages.find(m => m.id === userMessageId);
+  if (!message) {
+    new Notice(t('chat.rewind.failed', { error: 'Message not found' }));
+    return;
+  }
+
+  const request = await requestResend(plugin.app, plugin, mode, message);
+  if (!request) return;
+
+  await tab.controllers.inputController?.resend(userMessageId, request);
+}
+
 export function initializeTabControllers(
   tab: TabData,
   plugin: ClaudianPlugin,
@@ -727,6 +820,8 @@ export function initializeTabControllers(
     forkRequestCallback
       ? (id) => handleForkRequest(tab, plugin, id, forkRequestCallback)
       : undefined,
+    (id) => handleResendRequest(tab, plugin, id, 'edit'),
+    (id) => handleResendRequest(tab, plugin, id, 'regenerate'),
   );
 
   // Selection controller
@@ -808,6 +903,10 @@ export function initializeTabControllers(
       getMcpServerSelector: () => ui.mcpServerSelector,
       getExternalContextSelector: () => ui.externalContextSelector,
       clearQueuedMessage: () => tab.controllers.inputController?.clearQueuedMessage(),
+      showDryRunReview: () => {
+        if (tab.service) tab.controllers.inputController?.showDryRunReview(tab.service);
+      },
+      clearDryRunReview: () => tab.controllers.inputController?.clearDryRunReview(),
       getTitleGenerationService: () => services.titleGenerationService,
       getStatusPanel: () => ui.statusPanel,
       getAgentService: () => tab.service, // Use tab's service instead of plugin's
@@ -815,9 +914,22 @@ export function initializeTabControllers(
     {}
   );
 
-  // Input controller - needs the tab's service
-  const generateId = () => `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  // Pin controller - pinned messages and bookmarks of the conversation
+  const pinController = new PinController({
+    plugin,
+    state,
+    renderer: tab.renderer,
+    getPinnedStrip: () => ui.pinnedStrip,
+    getNavigationSidebar: () => ui.navigationSidebar,
+    revealMessage: (messageId) => tab.controllers.conversationController?.revealMessage(messageId) ?? false,
+  });
+  tab.controllers.pinController = pinController;
+  tab.renderer.setPinHandler({
+    isPinned: (msg) => pinController.isPinned(msg),
+    togglePin: (messageId) => pinController.togglePin(messageId),
+  });
 
+  // Input controller - needs the tab's service
   tab.controllers.inputController = new InputController({
     plugin,
     state,
@@ -838,7 +950,7 @@ export function initializeTabControllers(
     getInstructionRefineService: () => services.instructionRefineService,
     getTitleGenerationService: () => services.titleGenerationService,
     getStatusPanel: () => ui.statusPanel,
-    generateId,
+    generateId: generateMessageId,
     resetInputHeight: () => {
       // Per-tab input height is managed by CSS, no dynamic adjustment needed
     },
@@ -1113,6 +1225,29 @@ export function getTabTitle(tab: TabData, plugin: ClaudianPlugin): string {
   return 'New Chat';
 }
 
+export function generateMessageId(): string {
+  return `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/** Opens the MCP resource browser; picked resources become context chips for the next message. */
+export function openMcpResourceBrowser(tab: TabData, plugin: ClaudianPlugin): void {
+  new McpResourceBrowserModal(plugin.app, plugin.mcpManager, (resource) => {
+    tab.ui.fileContextManager?.attachMcpResource(resource);
+  }).open();
+}
+
+/** Refreshes the toolbar's remaining budget from the spend ledger and the tab's live cost. */
+export function updateBudgetIndicator(tab: TabData, plugin: ClaudianPlugin): void {
+  const limits = getBudgetLimits(plugin.settings);
+  if (!hasBudgetLimits(limits)) {
+    tab.ui.budgetIndicator?.update(null);
+    return;
+  }
+
+  const spend = plugin.spendLedger.getSpend(tab.state.cost?.totals.costUsd ?? 0);
+  tab.ui.budgetIndicator?.update(evaluateBudget(limits, spend));
+}
+
 /** Shared between Tab.ts and TabManager.ts to avoid duplication. */
 export function setupServiceCallbacks(tab: TabData, plugin: ClaudianPlugin): void {
   if (tab.service && tab.controllers.inputController) {
@@ -1152,6 +1287,8 @@ export function setupServiceCallbacks(tab: TabData, plugin: ClaudianPlugin): voi
       let mode: PermissionMode;
       if (sdkMode === 'bypassPermissions') mode = 'yolo';
       else if (sdkMode === 'plan') mode = 'plan';
+      // Dry run runs on the SDK's default mode
+      else if (plugin.settings.permissionMode === 'dry-run') mode = 'dry-run';
       else mode = 'normal';
 
       if (plugin.settings.permissionMode !== mode) {
@@ -1170,4 +1307,5 @@ export function updatePlanModeUI(tab: TabData, plugin: ClaudianPlugin, mode: Per
   void plugin.saveSettings();
   tab.ui.permissionToggle?.updateDisplay();
   tab.dom.inputWrapper.toggleClass('claudian-input-plan-mode', mode === 'plan');
+  tab.dom.inputWrapper.toggleClass('claudian-input-dry-run-mode', mode === 'dry-run');
 }
@@ -1,3 +1,5 @@
+import { t } from '../../../i18n';
+import { formatMemory } from '../../../utils/processMemory';
 import type { TabBarItem, TabId } from './types';
 
 /** Callbacks for TabBar interactions. */
@@ -42,11 +44,13 @@ export class TabBar {
     for (const item of items) {
       this.renderBadge(item);
     }
+
+    this.renderMemoryUsage(items);
   }
 
   /** Renders a single tab badge. */
   private renderBadge(item: TabBarItem): void {
-    // Determine state class (priority: active > attention > streaming > idle)
+    // Determine state class (priority: active > attention > streaming > hibernated > idle)
     let stateClass = 'claudian-tab-badge-idle';
     if (item.isActive) {
       stateClass = 'claudian-tab-badge-active';
@@ -54,6 +58,8 @@ export class TabBar {
       stateClass = 'claudian-tab-badge-attention';
     } else if (item.isStreaming) {
       stateClass = 'claudian-tab-badge-streaming';
+    } else if (item.isHibernated) {
+      stateClass = 'claudian-tab-badge-hibernated';
     }
 
     const badgeEl = this.containerEl.createDiv({
@@ -61,9 +67,15 @@ export class TabBar {
       text: String(item.index),
     });
 
-    // Tooltip with full title
-    badgeEl.setAttribute('aria-label', item.title);
-    badgeEl.setAttribute('title', item.title);
+    // Tooltip with full title and process state
+    let tooltip = item.title;
+    if (item.isHibernated) {
+      tooltip += ` · ${t('chat.tabBar.hibernated')}`;
+    } else if (item.memoryBytes !== undefined) {
+      tooltip += ` · ${formatMemory(item.memoryBytes)}`;
+    }
+    badgeEl.setAttribute('aria-label', tooltip);
+    badgeEl.setAttribute('title', tooltip);
 
     // Click handler to switch tab
     badgeEl.addEventListener('click', () => {
@@ -79,6 +91,20 @@ export class TabBar {
     }
   }
 
+  /** Renders the total memory of the tabs' CLI processes, when known. */
+  private renderMemoryUsage(items: TabBarItem[]): void {
+    const known = items.filter(item => item.memoryBytes !== undefined);
+    if (known.length === 0) return;
+
+    const total = known.reduce((sum, item) => sum + (item.memoryBytes ?? 0), 0);
+    const hibernatedCount = items.filter(item => item.isHibernated).length;
+    const labelEl = this.containerEl.createSpan({ cls: 'claudian-tab-memory', text: formatMemory(total) });
+    const title = hibernatedCount > 0
+      ? t('chat.tabBar.memoryUsageHibernated', { count: known.length, hibernated: hibernatedCount })
+      : t('chat.tabBar.memoryUsage', { count: known.length });
+    labelEl.setAttribute('title', title);
+  }
+
   /** Destroys the tab bar. */
   destroy(): void {
     this.containerEl.empty();
@@ -6,12 +6,17 @@ import type { SlashCommand } from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { chooseForkTarget } from '../../../shared/modals/ForkTargetModal';
+import { getProcessMemory } from '../../../utils/processMemory';
+import { getForkPins } from '../pins';
+import { buildBranchMessages } from '../services/CompareService';
+import { BranchTreeModal, CompareModal } from '../ui';
 import {
   activateTab,
   createTab,
   deactivateTab,
   destroyTab,
   type ForkContext,
+  generateMessageId,
   getTabTitle,
   initializeTabControllers,
   initializeTabService,
@@ -33,6 +38,9 @@ import {
   type TabManagerViewHost,
 } from './types';
 
+/** How often idle tabs are checked for hibernation and memory usage is refreshed. */
+const RESOURCE_CHECK_INTERVAL = 60 * 1000;
+
 /**
  * TabManager coordinates multiple chat tabs.
  */
@@ -49,6 +57,12 @@ export class TabManager implements TabManagerInterface {
   /** Guard to prevent concurrent tab switches. */
   private isSwitchingTab = false;
 
+  /** Timer for idle tab hibernation and memory refresh. */
+  private resourceInterval: ReturnType<typeof setInterval> | null = null;
+
+  /** Resident memory of each tab's CLI process, from the last refresh. */
+  private memoryUsage: Map<TabId, number> = new Map();
+
   /**
    * Gets the current max tabs limit from settings.
    * Clamps to MIN_TABS and MAX_TABS bounds.
@@ -99,6 +113,9 @@ export class TabManager implements TabManagerInterface {
       conversation: conversation ?? undefined,
       tabId,
       onStreamingChanged: (isStreaming) => {
+        tab.lastActiveAt = Date.now();
+        // Sending restarts a hibernated query with its stored session
+        if (isStreaming) tab.hibernated = false;
         this.callbacks.onTabStreamingChanged?.(tab.id, isStreaming);
       },
       onTitleChanged: (title) => {
@@ -164,14 +181,21 @@ export class TabManager implements TabManagerInterface {
       if (previousTabId && previousTabId !== tabId) {
         const currentTab = this.tabs.get(previousTabId);
         if (currentTab) {
+          currentTab.lastActiveAt = Date.now();
           deactivateTab(currentTab);
         }
       }
 
       // Activate new tab
       this.activeTabId = tabId;
+      tab.lastActiveAt = Date.now();
       activateTab(tab);
 
+      // Resume before the session sync below so the query is not started twice
+      if (tab.hibernated) {
+        await this.wakeTab(tab);
+      }
+
       // Service initialization is now truly lazy - happens on first query via
       // ensureServiceInitialized() in InputController.sendMessage()
 
@@ -226,6 +250,12 @@ export class TabManager implements TabManagerInterface {
       return false;
     }
 
+    // Staged dry-run changes die with the tab's service, so ask about them first
+    const settled = await tab.controllers.conversationController?.settleStagedChanges(force) ?? true;
+    if (!settled) {
+      return false;
+    }
+
     // Save conversation before closing
     await tab.controllers.conversationController?.save();
 
@@ -236,6 +266,7 @@ export class TabManager implements TabManagerInterface {
     // Destroy tab resources (async for proper cleanup)
     await destroyTab(tab);
     this.tabs.delete(tabId);
+    this.memoryUsage.delete(tabId);
     this.callbacks.onTabClosed?.(tabId);
 
     // If we closed the active tab, switch to another
@@ -320,6 +351,8 @@ export class TabManager implements TabManagerInterface {
         isStreaming: tab.state.isStreaming,
         needsAttention: tab.state.needsAttention,
         canClose: this.tabs.size > 1 || !tab.state.isStreaming,
+        isHibernated: tab.hibernated,
+        memoryBytes: tab.hibernated ? undefined : this.memoryUsage.get(tab.id),
       });
     }
 
@@ -382,6 +415,81 @@ export class TabManager implements TabManagerInterface {
     }
   }
 
+  // ============================================
+  // Compare
+  // ============================================
+
+  /**
+   * Opens compare mode for the active tab. The prompt runs against two models,
+   * each in a fork of the tab's session; the answer picked continues the
+   * tab's conversation.
+   * @returns false if there is no idle active tab.
+   */
+  openCompare(): boolean {
+    const tab = this.getActiveTab();
+    const conversationController = tab?.controllers.conversationController;
+    if (!tab || !conversationController || tab.state.isStreaming) return false;
+
+    new CompareModal(this.plugin.app, this.plugin, {
+      prompt: tab.dom.inputEl.value.trim(),
+      getRequest: async (prompt) => {
+        const conversationId = tab.state.currentConversationId;
+        const conversation = conversationId ? this.plugin.getConversationSync(conversationId) : null;
+        return {
+          prompt,
+          sessionId: tab.service?.getSessionId() ?? conversation?.sessionId ?? null,
+          conversationId,
+          externalContextPaths: tab.ui.externalContextSelector?.getExternalContexts(),
+          enabledMcpServers: tab.ui.mcpServerSelector?.getEnabledServers(),
+        };
+      },
+      onPromote: async (prompt, result) => {
+        if (tab.state.isStreaming) {
+          throw new Error('The tab is busy with another response');
+        }
+        await conversationController.adoptBranch(buildBranchMessages(prompt, result, generateMessageId), result);
+        if (tab.dom.inputEl.value.trim() === prompt) {
+          tab.dom.inputEl.value = '';
+        }
+      },
+    }).open();
+    return true;
+  }
+
+  // ============================================
+  // Branches
+  // ============================================
+
+  /**
+   * Opens the branch tree of the active tab's conversation. Rewound branches
+   * open as forks of the conversation they were rewound in.
+   * @returns false if the active tab has no conversation.
+   */
+  openBranchTree(): boolean {
+    const conversationId = this.getActiveTab()?.state.currentConversationId;
+    if (!conversationId) return false;
+
+    new BranchTreeModal(this.plugin.app, this.plugin, {
+      conversationId,
+      onOpenConversation: (id) => this.openConversation(id),
+      onOpenRewind: async (node, messages) => {
+        const resumeAt = [...messages].reverse().find(m => m.sdkAssistantUuid)?.sdkAssistantUuid;
+        if (!node.sessionId || !resumeAt) {
+          throw new Error(t('chat.fork.errorNoSession'));
+        }
+        await this.handleForkRequest({
+          messages,
+          sourceSessionId: node.sessionId,
+          resumeAt,
+          sourceConversationId: node.conversationId,
+          sourceTitle: this.plugin.getConversationSync(node.conversationId)?.title,
+          forkAtUserMessage: node.divergedAt,
+        });
+      },
+    }).open();
+    return true;
+  }
+
   // ============================================
   // Fork
   // ============================================
@@ -443,15 +551,28 @@ export class TabManager implements TabManagerInterface {
     const title = context.sourceTitle
       ? this.buildForkTitle(context.sourceTitle, context.forkAtUserMessage)
       : undefined;
+    // Carry over the pins of the copied messages so the branch keeps its markers
+    const pins = context.sourceConversationId
+      ? getForkPins(this.plugin.getConversationSync(context.sourceConversationId)?.pins, context.messages)
+      : [];
 
     await this.plugin.updateConversation(conversation.id, {
       messages: context.messages,
       forkSource: { sessionId: context.sourceSessionId, resumeAt: context.resumeAt },
+      ...(context.sourceConversationId && {
+        forkedFrom: {
+          conversationId: context.sourceConversationId,
+          sessionId: context.sourceSessionId,
+          resumeAt: context.resumeAt,
+          atUserMessage: context.forkAtUserMessage,
+        },
+      }),
       // Prevent immediate SDK message load from merging duplicates with the copied messages.
       // This is in-memory only (not persisted in metadata).
       sdkMessagesLoaded: true,
       ...(title && { title }),
       ...(context.currentNote && { currentNote: context.currentNote }),
+      ...(pins.length > 0 && { pins }),
     });
 
     return conversation.id;
@@ -579,7 +700,8 @@ export class TabManager implements TabManagerInterface {
     const promises: Promise<void>[] = [];
 
     for (const tab of this.tabs.values()) {
-      if (tab.service && tab.serviceInitialized) {
+      // Hibernated tabs pick up configuration changes when they resume
+      if (tab.service && tab.serviceInitialized && !tab.hibernated) {
         promises.push(
           fn(tab.service).catch(() => {
             // Silently ignore broadcast errors
@@ -591,16 +713,110 @@ export class TabManager implements TabManagerInterface {
     await Promise.all(promises);
   }
 
+  // ============================================
+  // Hibernation
+  // ============================================
+
+  /** Starts periodically hibernating idle tabs and refreshing memory usage. */
+  startResourceMonitor(): void {
+    this.stopResourceMonitor();
+    this.resourceInterval = setInterval(() => {
+      this.hibernateIdleTabs();
+      void this.refreshMemoryUsage();
+    }, RESOURCE_CHECK_INTERVAL);
+    void this.refreshMemoryUsage();
+  }
+
+  stopResourceMonitor(): void {
+    if (this.resourceInterval) {
+      clearInterval(this.resourceInterval);
+      this.resourceInterval = null;
+    }
+  }
+
+  /**
+   * Closes the persistent query of background tabs idle for longer than the
+   * hibernation setting. Messages and UI state stay; the query resumes with
+   * the stored session when the tab is focused or sent to. Tabs with background
+   * subagents still running are skipped, since closing the query would kill them.
+   * @returns IDs of the tabs that were hibernated.
+   */
+  hibernateIdleTabs(now = Date.now()): TabId[] {
+    const minutes = this.plugin.settings.tabHibernationMinutes ?? 0;
+    if (minutes <= 0) return [];
+
+    const hibernated: TabId[] = [];
+    for (const tab of this.tabs.values()) {
+      if (
+        tab.id === this.activeTabId ||
+        tab.hibernated ||
+        tab.state.isStreaming ||
+        tab.state.needsAttention ||
+        tab.services.subagentManager.hasActiveAsyncSubagents() ||
+        !tab.service?.isReady() ||
+        now - tab.lastActiveAt < minutes * 60 * 1000
+      ) {
+        continue;
+      }
+
+      tab.service.closePersistentQuery('hibernated');
+      tab.hibernated = true;
+      this.memoryUsage.delete(tab.id);
+      hibernated.push(tab.id);
+    }
+
+    if (hibernated.length > 0) {
+      this.callbacks.onTabResourcesChanged?.();
+    }
+    return hibernated;
+  }
+
+  /** Re-reads the memory used by each tab's CLI process. */
+  async refreshMemoryUsage(): Promise<void> {
+    const pids = new Map<TabId, number>();
+    for (const tab of this.tabs.values()) {
+      const pid = tab.service?.getProcessId();
+      if (pid) pids.set(tab.id, pid);
+    }
+
+    const memory = await getProcessMemory([...pids.values()]);
+    this.memoryUsage = new Map();
+    for (const [tabId, pid] of pids) {
+      const bytes = memory.get(pid);
+      if (bytes !== undefined) this.memoryUsage.set(tabId, bytes);
+    }
+    this.callbacks.onTabResourcesChanged?.();
+  }
+
+  private async wakeTab(tab: TabData): Promise<void> {
+    tab.hibernated = false;
+    this.callbacks.onTabResourcesChanged?.();
+    if (!tab.service) return;
+
+    try {
+      await tab.service.ensureReady({ sessionId: tab.service.getSessionId() ?? undefined });
+    } catch {
+      // Non-fatal - the query restarts on the next message
+    }
+  }
+
   // ============================================
   // Cleanup
   // ============================================
 
-  /** Destroys all tabs and cleans up resources. */
-  async destroy(): Promise<void> {
-    // Save all conversations
+  /** Saves every tab's conversation, including dry-run changes still awaiting review. */
+  async saveAll(): Promise<void> {
     for (const tab of this.tabs.values()) {
       await tab.controllers.conversationController?.save();
     }
+  }
+
+  /** Destroys all tabs and cleans up resources. */
+  async destroy(): Promise<void> {
+    this.stopResourceMonitor();
+
+    // Save all conversations
+    await this.saveAll();
 
     // Destroy all tabs (async for proper cleanup)
     for (const tab of this.tabs.values()) {
@@ -608,6 +824,7 @@ export class TabManager implements TabManagerInterface {
     }
 
     this.tabs.clear();
+    this.memoryUsage.clear();
     this.activeTabId = null;
   }
 }
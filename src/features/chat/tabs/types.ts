@@ -7,6 +7,7 @@ import type {
   ConversationController,
   InputController,
   NavigationController,
+  PinController,
   SelectionController,
   StreamController,
 } from '../controllers';
@@ -17,6 +18,7 @@ import type { TitleGenerationService } from '../services/TitleGenerationService'
 import type { ChatState } from '../state';
 import type {
   BangBashModeManager,
+  BudgetIndicator,
   ContextUsageMeter,
   ExternalContextSelector,
   FileContextManager,
@@ -25,6 +27,7 @@ import type {
   McpServerSelector,
   ModelSelector,
   PermissionToggle,
+  PinnedStrip,
   StatusPanel,
   ThinkingBudgetSelector,
 } from '../ui';
@@ -49,7 +52,7 @@ export const MIN_TABS = 3;
  * Maximum number of tabs allowed (settings ceiling).
  * Users can configure up to this many tabs via settings.
  */
-export const MAX_TABS = 10;
+export const MAX_TABS = 50;
 
 /**
  * Minimum max-height for textarea in pixels.
@@ -107,6 +110,7 @@ export interface TabControllers {
   streamController: StreamController | null;
   inputController: InputController | null;
   navigationController: NavigationController | null;
+  pinController: PinController | null;
 }
 
 /**
@@ -133,8 +137,10 @@ export interface TabUIComponents {
   instructionModeManager: InstructionModeManager | null;
   bangBashModeManager: BangBashModeManager | null;
   contextUsageMeter: ContextUsageMeter | null;
+  budgetIndicator: BudgetIndicator | null;
   statusPanel: StatusPanel | null;
   navigationSidebar: NavigationSidebar | null;
+  pinnedStrip: PinnedStrip | null;
 }
 
 /**
@@ -142,6 +148,8 @@ export interface TabUIComponents {
  */
 export interface TabDOMElements {
   contentEl: HTMLElement;
+  /** Strip of pinned messages and bookmarks (above messages). */
+  pinnedStripEl: HTMLElement;
   messagesEl: HTMLElement;
   welcomeEl: HTMLElement | null;
 
@@ -182,6 +190,12 @@ export interface TabData {
   /** Whether the service has been initialized (lazy start). */
   serviceInitialized: boolean;
 
+  /** When the tab was last focused or streaming, used to find idle tabs. */
+  lastActiveAt: number;
+
+  /** Whether the persistent query was closed while idle; resumed on focus or send. */
+  hibernated: boolean;
+
   /** Per-tab chat state. */
   state: ChatState;
 
@@ -241,6 +255,9 @@ export interface TabManagerCallbacks {
 
   /** Called when a tab's conversation changes (loaded different conversation in same tab). */
   onTabConversationChanged?: (tabId: TabId, conversationId: string | null) => void;
+
+  /** Called when tabs are hibernated or woken, or their memory usage is refreshed. */
+  onTabResourcesChanged?: () => void;
 }
 
 /**
@@ -255,4 +272,8 @@ export interface TabBarItem {
   isStreaming: boolean;
   needsAttention: boolean;
   canClose: boolean;
+  /** Whether the tab's persistent query is closed while idle. */
+  isHibernated: boolean;
+  /** Resident memory of the tab's CLI process in bytes, when known. */
+  memoryBytes?: number;
 }
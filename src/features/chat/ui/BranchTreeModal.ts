@@ -0,0 +1,231 @@
+import { type App, Modal, Notice, setIcon } from 'obsidian';
+
+import {
+  alignBranchMessages,
+  type BranchNode,
+  buildBranchTree,
+  flattenBranchTree,
+  type RewindBranch,
+} from '../../../core/branches';
+import type { ChatMessage, Conversation } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import { getVaultPath } from '../../../utils/path';
+import { listSDKSessionBranches, loadSDKSessionMessages } from '../../../utils/sdkSession';
+
+const MAX_PREVIEW_LENGTH = 400;
+
+export interface BranchTreeModalOptions {
+  /** Conversation the view was opened from; the tree is rooted at its oldest ancestor. */
+  conversationId: string;
+  onOpenConversation: (conversationId: string) => Promise<void>;
+  /** Opens a rewound branch, given its messages, as a fork of its conversation. */
+  onOpenRewind: (node: BranchNode, messages: ChatMessage[]) => Promise<void>;
+}
+
+/**
+ * Branch tree of a conversation: its forks, their forks and the rewind points
+ * left in their sessions. Clicking a node opens that branch; checking two
+ * nodes compares them message by message.
+ */
+export class BranchTreeModal extends Modal {
+  private root: BranchNode | null = null;
+  private selected: BranchNode[] = [];
+  private treeEl: HTMLElement | null = null;
+  private compareEl: HTMLElement | null = null;
+  private compareBtn: HTMLButtonElement | null = null;
+
+  constructor(app: App, private plugin: ClaudianPlugin, private options: BranchTreeModalOptions) {
+    super(app);
+  }
+
+  onOpen() {
+    this.setTitle('Conversation branches');
+    this.modalEl.addClass('claudian-branch-tree-modal');
+
+    const controlsEl = this.contentEl.createDiv({ cls: 'claudian-branch-tree-controls' });
+    controlsEl.createSpan({
+      cls: 'setting-item-description',
+      text: 'Click a branch to open it. Check two branches to compare them.',
+    });
+    this.compareBtn = controlsEl.createEl('button', { text: 'Compare' });
+    this.compareBtn.disabled = true;
+    this.compareBtn.addEventListener('click', () => void this.compareSelected());
+
+    this.treeEl = this.contentEl.createDiv({ cls: 'claudian-branch-tree' });
+    this.treeEl.setText('Loading branches…');
+    this.compareEl = this.contentEl.createDiv({ cls: 'claudian-branch-compare' });
+
+    void this.loadTree();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private getConversations(): Conversation[] {
+    return this.plugin.getConversationList()
+      .map(meta => this.plugin.getConversationSync(meta.id))
+      .filter((conversation): conversation is Conversation => !!conversation);
+  }
+
+  private async loadTree(): Promise<void> {
+    const conversations = this.getConversations();
+    const tree = buildBranchTree(conversations, this.options.conversationId);
+    if (!tree) {
+      this.treeEl?.setText('Conversation not found.');
+      return;
+    }
+
+    const rewinds: Record<string, RewindBranch[]> = {};
+    const vaultPath = getVaultPath(this.app);
+    if (vaultPath) {
+      for (const node of flattenBranchTree(tree)) {
+        const conversation = conversations.find(c => c.id === node.conversationId);
+        // A fork that has not been sent to yet has no session of its own
+        const sessionId = conversation?.sdkSessionId ?? conversation?.sessionId;
+        if (!conversation || !sessionId) continue;
+        const branches = await listSDKSessionBranches(vaultPath, sessionId, conversation.resumeSessionAt);
+        rewinds[conversation.id] = branches.map(branch => ({ ...branch, sessionId }));
+      }
+    }
+
+    this.root = buildBranchTree(conversations, this.options.conversationId, rewinds);
+    this.renderTree();
+  }
+
+  private renderTree(): void {
+    if (!this.treeEl || !this.root) return;
+    this.treeEl.empty();
+    if (this.root.children.length === 0) {
+      this.treeEl.createDiv({
+        cls: 'claudian-branch-tree-empty',
+        text: 'This conversation has no forks or rewind points yet.',
+      });
+    }
+    this.renderNode(this.treeEl, this.root, 0);
+  }
+
+  private renderNode(containerEl: HTMLElement, node: BranchNode, depth: number): void {
+    const rowEl = containerEl.createDiv({ cls: 'claudian-branch-node' });
+    rowEl.style.setProperty('--claudian-branch-depth', String(depth));
+    if (node.id === this.options.conversationId) rowEl.addClass('is-current');
+
+    const checkbox = rowEl.createEl('input', { attr: { type: 'checkbox', 'aria-label': 'Select to compare' } });
+    checkbox.checked = this.selected.some(selected => selected.id === node.id);
+    checkbox.addEventListener('change', () => this.toggleSelected(node, checkbox.checked));
+
+    const icon = node.kind === 'rewind' ? 'undo-2' : depth === 0 ? 'message-square' : 'git-branch';
+    setIcon(rowEl.createSpan({ cls: 'claudian-branch-node-icon' }), icon);
+
+    const titleEl = rowEl.createEl('a', { cls: 'claudian-branch-node-title', text: node.title });
+    titleEl.setAttr('title', node.kind === 'rewind' ? 'Open as a fork' : 'Open conversation');
+    titleEl.addEventListener('click', () => void this.openNode(node));
+
+    const meta: string[] = [];
+    if (node.divergedAt) meta.push(`from message #${node.divergedAt}`);
+    if (node.kind === 'rewind') meta.push('rewound');
+    if (node.timestamp) meta.push(new Date(node.timestamp).toLocaleString());
+    rowEl.createSpan({ cls: 'claudian-branch-node-meta', text: meta.join(' · ') });
+
+    if (node.id === this.options.conversationId) {
+      rowEl.createSpan({ cls: 'claudian-branch-node-badge', text: 'current' });
+    }
+
+    for (const child of node.children) {
+      this.renderNode(containerEl, child, depth + 1);
+    }
+  }
+
+  private toggleSelected(node: BranchNode, checked: boolean): void {
+    this.selected = this.selected.filter(selected => selected.id !== node.id);
+    if (checked) {
+      this.selected.push(node);
+      // Keep the two most recent picks
+      if (this.selected.length > 2) {
+        this.selected.shift();
+        this.renderTree();
+      }
+    }
+    if (this.compareBtn) this.compareBtn.disabled = this.selected.length !== 2;
+  }
+
+  private async loadMessages(node: BranchNode): Promise<ChatMessage[]> {
+    if (node.kind === 'conversation') {
+      const conversation = await this.plugin.getConversationById(node.conversationId);
+      return conversation?.messages ?? [];
+    }
+
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath || !node.sessionId) return [];
+    const result = await loadSDKSessionMessages(vaultPath, node.sessionId, undefined, node.leafUuid);
+    if (result.error) throw new Error(result.error);
+    return result.messages;
+  }
+
+  private async openNode(node: BranchNode): Promise<void> {
+    try {
+      if (node.kind === 'conversation') {
+        await this.options.onOpenConversation(node.conversationId);
+      } else {
+        await this.options.onOpenRewind(node, await this.loadMessages(node));
+      }
+      this.close();
+    } catch (error) {
+      new Notice(`Could not open branch: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async compareSelected(): Promise<void> {
+    if (!this.compareEl || this.selected.length !== 2) return;
+    const [left, right] = this.selected;
+
+    let rows;
+    try {
+      const [leftMessages, rightMessages] = await Promise.all([this.loadMessages(left), this.loadMessages(right)]);
+      rows = alignBranchMessages(leftMessages, rightMessages);
+    } catch (error) {
+      new Notice(`Could not load branches: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    this.compareEl.empty();
+    const headerEl = this.compareEl.createDiv({ cls: 'claudian-branch-compare-row claudian-branch-compare-header' });
+    headerEl.createDiv({ text: left.title });
+    headerEl.createDiv({ text: right.title });
+
+    const sharedCount = rows.filter(row => row.shared).length;
+    if (sharedCount > 0) {
+      const sharedEl = this.compareEl.createEl('details', { cls: 'claudian-branch-compare-shared' });
+      sharedEl.createEl('summary', { text: `${sharedCount} shared message${sharedCount === 1 ? '' : 's'}` });
+      for (const row of rows.filter(r => r.shared)) {
+        this.renderMessage(sharedEl.createDiv({ cls: 'claudian-branch-compare-row is-shared' }), row.left);
+      }
+    }
+
+    const divergent = rows.filter(row => !row.shared);
+    if (divergent.length === 0) {
+      this.compareEl.createDiv({ cls: 'claudian-branch-tree-empty', text: 'The branches hold the same messages.' });
+      return;
+    }
+    for (const row of divergent) {
+      const rowEl = this.compareEl.createDiv({ cls: 'claudian-branch-compare-row' });
+      this.renderMessage(rowEl, row.left);
+      this.renderMessage(rowEl, row.right);
+    }
+  }
+
+  private renderMessage(rowEl: HTMLElement, message: ChatMessage | null): void {
+    const cellEl = rowEl.createDiv({ cls: 'claudian-branch-compare-cell' });
+    if (!message) {
+      cellEl.addClass('is-empty');
+      return;
+    }
+    cellEl.addClass(`is-${message.role}`);
+    cellEl.createDiv({ cls: 'claudian-branch-compare-role', text: message.role === 'user' ? 'You' : 'Claude' });
+    const text = message.displayContent ?? message.content;
+    cellEl.createDiv({
+      cls: 'claudian-branch-compare-text',
+      text: text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text,
+    });
+  }
+}
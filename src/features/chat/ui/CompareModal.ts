@@ -0,0 +1,291 @@
+import { type App, Modal, Notice, setIcon } from 'obsidian';
+
+import type { EnvSnippet, StreamChunk, ThinkingBudget } from '../../../core/types';
+import { THINKING_BUDGETS } from '../../../core/types';
+import { formatTokenCount, formatUsd, totalTokens } from '../../../core/usage';
+import type ClaudianPlugin from '../../../main';
+import { computeLineDiff } from '../../../utils/diff';
+import { renderDiffContent } from '../rendering/DiffRenderer';
+import {
+  type CompareBranchConfig,
+  type CompareBranchResult,
+  CompareBranchRunner,
+  type CompareRequest,
+  getCompareModelOptions,
+} from '../services/CompareService';
+
+const MAX_RESULT_LENGTH = 300;
+
+export interface CompareModalOptions {
+  /** Prompt to start with, usually the tab's unsent input. */
+  prompt: string;
+  /** Builds the request at run time so the latest session of the tab is forked. */
+  getRequest: (prompt: string) => Promise<CompareRequest>;
+  onPromote: (prompt: string, result: CompareBranchResult) => Promise<void>;
+}
+
+/** One side of the comparison: its settings, live transcript and result. */
+class ComparePane {
+  readonly runner: CompareBranchRunner;
+  result: CompareBranchResult | null = null;
+
+  private envSelect: HTMLSelectElement;
+  private modelSelect: HTMLSelectElement;
+  private thinkingSelect: HTMLSelectElement;
+  private statusEl: HTMLElement;
+  private transcriptEl: HTMLElement;
+  private promoteBtn: HTMLButtonElement;
+  private textEl: HTMLElement | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    label: string,
+    private plugin: ClaudianPlugin,
+    defaults: { model: string; thinkingBudget: ThinkingBudget },
+    onPromote: () => void
+  ) {
+    this.runner = new CompareBranchRunner(plugin);
+    const paneEl = containerEl.createDiv({ cls: 'claudian-compare-pane' });
+
+    const headerEl = paneEl.createDiv({ cls: 'claudian-compare-pane-header' });
+    headerEl.createSpan({ cls: 'claudian-compare-pane-label', text: label });
+
+    this.envSelect = headerEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Environment' } });
+    this.envSelect.createEl('option', { text: 'Active environment', attr: { value: '' } });
+    for (const snippet of plugin.settings.envSnippets) {
+      this.envSelect.createEl('option', { text: snippet.name, attr: { value: snippet.id } });
+    }
+    this.envSelect.addEventListener('change', () => this.renderModelOptions(this.modelSelect.value));
+
+    this.modelSelect = headerEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Model' } });
+    this.renderModelOptions(defaults.model);
+
+    this.thinkingSelect = headerEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Thinking' } });
+    for (const budget of THINKING_BUDGETS) {
+      this.thinkingSelect.createEl('option', { text: `Thinking: ${budget.label}`, attr: { value: budget.value } });
+    }
+    this.thinkingSelect.value = defaults.thinkingBudget;
+
+    this.statusEl = paneEl.createDiv({ cls: 'claudian-compare-status' });
+    this.transcriptEl = paneEl.createDiv({ cls: 'claudian-compare-transcript' });
+
+    this.promoteBtn = paneEl.createEl('button', { text: 'Continue with this answer' });
+    this.promoteBtn.disabled = true;
+    this.promoteBtn.addEventListener('click', onPromote);
+  }
+
+  getConfig(): CompareBranchConfig {
+    return {
+      model: this.modelSelect.value,
+      thinkingBudget: this.thinkingSelect.value as ThinkingBudget,
+      envSnippet: this.getEnvSnippet(),
+    };
+  }
+
+  async run(request: CompareRequest): Promise<void> {
+    this.result = null;
+    this.textEl = null;
+    this.transcriptEl.empty();
+    this.setRunning(true);
+
+    this.result = await this.runner.run(request, this.getConfig(), (chunk) => this.renderChunk(chunk));
+
+    this.setRunning(false);
+    this.renderStatus(this.result);
+    this.promoteBtn.disabled = !this.canPromote();
+  }
+
+  canPromote(): boolean {
+    return !!this.result?.sessionId && !this.result.error && !this.result.cancelled;
+  }
+
+  setPromoting(promoting: boolean): void {
+    this.promoteBtn.disabled = promoting || !this.canPromote();
+  }
+
+  private getEnvSnippet(): EnvSnippet | null {
+    return this.plugin.settings.envSnippets.find(snippet => snippet.id === this.envSelect.value) ?? null;
+  }
+
+  private renderModelOptions(preferred: string): void {
+    const envVars = this.getEnvSnippet()?.envVars ?? this.plugin.getActiveEnvironmentVariables();
+    const models = getCompareModelOptions(envVars);
+
+    this.modelSelect.empty();
+    for (const model of models) {
+      this.modelSelect.createEl('option', { text: model.label, attr: { value: model.value } });
+    }
+    this.modelSelect.value = models.some(model => model.value === preferred) ? preferred : models[0].value;
+  }
+
+  private setRunning(running: boolean): void {
+    this.envSelect.disabled = running;
+    this.modelSelect.disabled = running;
+    this.thinkingSelect.disabled = running;
+    this.promoteBtn.disabled = true;
+    if (running) this.statusEl.setText('Running…');
+  }
+
+  private renderStatus(result: CompareBranchResult): void {
+    const parts = [`${(result.durationMs / 1000).toFixed(1)}s`];
+    if (result.cost) {
+      parts.push(`${formatTokenCount(totalTokens(result.cost.totals))} tokens`, formatUsd(result.cost.totals.costUsd));
+    }
+    if (result.toolCalls.length > 0) {
+      parts.push(`${result.toolCalls.length} tool call${result.toolCalls.length === 1 ? '' : 's'}`);
+    }
+    const outcome = result.cancelled ? 'Stopped' : result.error ? 'Failed' : 'Finished';
+    this.statusEl.setText(`${outcome} · ${parts.join(' · ')}`);
+    this.statusEl.toggleClass('is-error', !!result.error && !result.cancelled);
+  }
+
+  private renderChunk(chunk: StreamChunk): void {
+    const nested = 'parentToolUseId' in chunk && !!chunk.parentToolUseId;
+
+    switch (chunk.type) {
+      case 'text':
+        if (!this.textEl || this.textEl.hasClass('is-nested') !== nested) {
+          this.textEl = this.createEntry('claudian-compare-text', nested);
+        }
+        this.textEl.appendText(chunk.content);
+        break;
+      case 'tool_use': {
+        this.textEl = null;
+        const entryEl = this.createEntry('claudian-compare-tool', nested);
+        setIcon(entryEl.createSpan({ cls: 'claudian-compare-tool-icon' }), 'wrench');
+        entryEl.createSpan({ text: chunk.name });
+        break;
+      }
+      case 'tool_result':
+        if (!chunk.isError) return;
+        this.textEl = null;
+        this.createEntry('claudian-compare-error', nested).setText(chunk.content.length > MAX_RESULT_LENGTH
+          ? `${chunk.content.slice(0, MAX_RESULT_LENGTH)}…`
+          : chunk.content);
+        break;
+      case 'error':
+      case 'blocked':
+        this.textEl = null;
+        this.createEntry('claudian-compare-error', false).setText(chunk.content);
+        break;
+      default:
+        return;
+    }
+    this.transcriptEl.scrollTop = this.transcriptEl.scrollHeight;
+  }
+
+  private createEntry(cls: string, nested: boolean): HTMLElement {
+    const entryEl = this.transcriptEl.createDiv({ cls: `claudian-compare-entry ${cls}` });
+    if (nested) entryEl.addClass('is-nested');
+    return entryEl;
+  }
+}
+
+/**
+ * Compare mode: sends one prompt to two models side by side, shows a diff of
+ * their final answers and lets either answer continue the conversation.
+ */
+export class CompareModal extends Modal {
+  private panes: ComparePane[] = [];
+  private promptInput: HTMLTextAreaElement | null = null;
+  private runBtn: HTMLButtonElement | null = null;
+  private diffEl: HTMLElement | null = null;
+  private running = false;
+  /** Prompt of the last run; the input may have been edited since. */
+  private runPrompt = '';
+
+  constructor(app: App, private plugin: ClaudianPlugin, private options: CompareModalOptions) {
+    super(app);
+  }
+
+  onOpen() {
+    this.setTitle('Compare models');
+    this.modalEl.addClass('claudian-compare-modal');
+
+    this.promptInput = this.contentEl.createEl('textarea', {
+      cls: 'claudian-compare-prompt',
+      attr: { rows: '3', placeholder: 'Prompt to send to both models' },
+    });
+    this.promptInput.value = this.options.prompt;
+
+    const controlsEl = this.contentEl.createDiv({ cls: 'claudian-compare-controls' });
+    controlsEl.createSpan({
+      cls: 'setting-item-description',
+      text: 'Both answers branch from this conversation. Tools that need approval are denied.',
+    });
+    this.runBtn = controlsEl.createEl('button', { cls: 'mod-cta', text: 'Run' });
+    this.runBtn.addEventListener('click', () => {
+      if (this.running) {
+        this.panes.forEach(pane => pane.runner.cancel());
+      } else {
+        void this.run();
+      }
+    });
+
+    const panesEl = this.contentEl.createDiv({ cls: 'claudian-compare-panes' });
+    const { model, thinkingBudget } = this.plugin.settings;
+    const otherModel = getCompareModelOptions(this.plugin.getActiveEnvironmentVariables())
+      .find(option => option.value !== model)?.value ?? model;
+    this.panes = [
+      new ComparePane(panesEl, 'A', this.plugin, { model, thinkingBudget }, () => void this.promote(0)),
+      new ComparePane(panesEl, 'B', this.plugin, { model: otherModel, thinkingBudget }, () => void this.promote(1)),
+    ];
+
+    const diffDetails = this.contentEl.createEl('details', { cls: 'claudian-compare-diff' });
+    diffDetails.createEl('summary', { text: 'Differences between the final answers (− A, + B)' });
+    this.diffEl = diffDetails.createDiv({ cls: 'claudian-compare-diff-content' });
+    this.diffEl.setText('Run both models to compare their answers.');
+  }
+
+  onClose() {
+    this.panes.forEach(pane => pane.runner.cancel());
+    this.contentEl.empty();
+  }
+
+  private async run(): Promise<void> {
+    const prompt = this.promptInput?.value.trim() ?? '';
+    if (!prompt) {
+      new Notice('Enter a prompt to compare');
+      return;
+    }
+
+    this.runPrompt = prompt;
+    this.setRunning(true);
+    try {
+      const request = await this.options.getRequest(prompt);
+      await Promise.all(this.panes.map(pane => pane.run(request)));
+      this.renderDiff();
+    } finally {
+      this.setRunning(false);
+    }
+  }
+
+  private setRunning(running: boolean): void {
+    this.running = running;
+    if (this.promptInput) this.promptInput.disabled = running;
+    if (!this.runBtn) return;
+    this.runBtn.setText(running ? 'Stop' : 'Run');
+    this.runBtn.toggleClass('mod-cta', !running);
+    this.runBtn.toggleClass('mod-warning', running);
+  }
+
+  private renderDiff(): void {
+    if (!this.diffEl) return;
+    const [a, b] = this.panes.map(pane => pane.result?.text ?? '');
+    renderDiffContent(this.diffEl, computeLineDiff(a, b), Number.MAX_SAFE_INTEGER);
+  }
+
+  private async promote(index: number): Promise<void> {
+    const pane = this.panes[index];
+    if (!pane.result || !pane.canPromote() || this.running) return;
+
+    this.panes.forEach(p => p.setPromoting(true));
+    try {
+      await this.options.onPromote(this.runPrompt, pane.result);
+      this.close();
+    } catch (error) {
+      new Notice(`Could not continue with this answer: ${error instanceof Error ? error.message : String(error)}`);
+      this.panes.forEach(p => p.setPromoting(false));
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { Notice, TFile } from 'obsidian';
 
 import type { AgentManager } from '../../../core/agents';
 import type { McpServerManager } from '../../../core/mcp';
+import type { McpResourceAttachment } from '../../../core/types';
 import { MentionDropdownController } from '../../../shared/mention/MentionDropdownController';
 import { getVaultPath, normalizePathForVault as normalizePathForVaultUtil } from '../../../utils/path';
 import { FileContextState } from './file-context/state/FileContextState';
@@ -77,6 +78,7 @@ export class FileContextManager {
           new Notice(`Failed to open file: ${error instanceof Error ? error.message : String(error)}`);
         }
       },
+      onRemoveMcpResource: (resource) => this.detachMcpResource(resource.server, resource.uri),
     });
 
     this.mentionDropdown = new MentionDropdownController(
@@ -88,6 +90,7 @@ export class FileContextManager {
           this.state.attachContextFile(displayName, absolutePath),
         onMcpMentionChange: (servers) => this.onMcpMentionChange?.(servers),
         onAgentMentionSelect: (agentId) => this.callbacks.onAgentMentionSelect?.(agentId),
+        onAttachMcpResource: (resource) => this.attachMcpResource(resource),
         getMentionedMcpServers: () => this.state.getMentionedMcpServers(),
         setMentionedMcpServers: (mentions) => this.state.setMentionedMcpServers(mentions),
         addMentionedMcpServer: (name) => this.state.addMentionedMcpServer(name),
@@ -141,6 +144,7 @@ export class FileContextManager {
     this.currentNotePath = null;
     this.state.resetForNewConversation();
     this.refreshCurrentNoteChip();
+    this.refreshMcpResourceChips();
   }
 
   /** Resets state for loading an existing conversation. */
@@ -148,6 +152,7 @@ export class FileContextManager {
     this.currentNotePath = null;
     this.state.resetForLoadedConversation(hasMessages);
     this.refreshCurrentNoteChip();
+    this.refreshMcpResourceChips();
   }
 
   /** Sets current note (for restoring persisted state). */
@@ -237,6 +242,11 @@ export class FileContextManager {
     return normalizePathForVaultUtil(rawPath, vaultPath);
   }
 
+  private refreshMcpResourceChips(): void {
+    this.chipsView.renderMcpResources(this.state.getMcpResources());
+    this.callbacks.onChipsChanged?.();
+  }
+
   private refreshCurrentNoteChip(): void {
     this.chipsView.renderCurrentNote(this.currentNotePath);
     this.callbacks.onChipsChanged?.();
@@ -321,6 +331,29 @@ export class FileContextManager {
     return this.state.getMentionedMcpServers();
   }
 
+  /** MCP resources attached to the next message. */
+  getMcpResources(): McpResourceAttachment[] {
+    return this.state.getMcpResources();
+  }
+
+  attachMcpResource(resource: McpResourceAttachment): void {
+    if (this.state.attachMcpResource(resource)) {
+      this.refreshMcpResourceChips();
+    }
+  }
+
+  detachMcpResource(server: string, uri: string): void {
+    this.state.detachMcpResource(server, uri);
+    this.refreshMcpResourceChips();
+  }
+
+  /** Clears attached MCP resources (call after sending a message). */
+  clearMcpResources(): void {
+    if (this.state.getMcpResources().length === 0) return;
+    this.state.clearMcpResources();
+    this.refreshMcpResourceChips();
+  }
+
   clearMcpMentions(): void {
     this.state.clearMcpMentions();
   }
@@ -1,10 +1,13 @@
 import { Notice, setIcon } from 'obsidian';
 import * as path from 'path';
 
-import type { McpServerManager } from '../../../core/mcp';
+import { getMcpToolParameters, type McpServerManager, type McpTool } from '../../../core/mcp';
 import type {
   ClaudeModel,
   ClaudianMcpServer,
+  ConversationCost,
+  McpServerHealth,
+  McpToolSelection,
   PermissionMode,
   ThinkingBudget,
   UsageInfo
@@ -13,6 +16,7 @@ import {
   DEFAULT_CLAUDE_MODELS,
   THINKING_BUDGETS
 } from '../../../core/types';
+import { type BudgetScope, type BudgetStatus, formatTokenCount, formatUsd } from '../../../core/usage';
 import { CHECK_ICON_SVG, MCP_ICON_SVG } from '../../../shared/icons';
 import { getModelsFromEnvironment, parseEnvironmentVariables } from '../../../utils/env';
 import { filterValidPaths, findConflictingPath, isDuplicatePath, isValidDirectoryPath, validateDirectoryPath } from '../../../utils/externalContext';
@@ -208,6 +212,9 @@ export class PermissionToggle {
     this.updateDisplay();
 
     this.toggleEl.addEventListener('click', () => this.toggle());
+    this.labelEl.addEventListener('click', () => {
+      if (this.callbacks.getSettings().permissionMode === 'dry-run') void this.exitDryRun();
+    });
   }
 
   updateDisplay() {
@@ -219,9 +226,14 @@ export class PermissionToggle {
       this.toggleEl.style.display = 'none';
       this.labelEl.setText('PLAN');
       this.labelEl.addClass('plan-active');
+    } else if (mode === 'dry-run') {
+      this.toggleEl.style.display = 'none';
+      this.labelEl.setText('DRY RUN');
+      this.labelEl.addClass('dry-run-active');
     } else {
       this.toggleEl.style.display = '';
       this.labelEl.removeClass('plan-active');
+      this.labelEl.removeClass('dry-run-active');
       if (mode === 'yolo') {
         this.toggleEl.addClass('active');
         this.labelEl.setText('YOLO');
@@ -238,6 +250,11 @@ export class PermissionToggle {
     await this.callbacks.onPermissionModeChange(newMode);
     this.updateDisplay();
   }
+
+  private async exitDryRun() {
+    await this.callbacks.onPermissionModeChange('normal');
+    this.updateDisplay();
+  }
 }
 
 export type AddExternalContextResult =
@@ -597,6 +614,14 @@ export class McpServerSelector {
   private mcpManager: McpServerManager | null = null;
   private enabledServers: Set<string> = new Set();
   private onChangeCallback: ((enabled: Set<string>) => void) | null = null;
+  private onRestartCallback: ((name: string) => Promise<void>) | null = null;
+  private onBrowseResourcesCallback: (() => void) | null = null;
+  private restartingServers: Set<string> = new Set();
+  /** Tools left enabled per server; servers without an entry have all tools enabled. */
+  private toolSelection = new Map<string, Set<string>>();
+  private expandedServers: Set<string> = new Set();
+  private loadingTools: Set<string> = new Set();
+  private toolListErrors = new Map<string, string>();
 
   constructor(parentEl: HTMLElement) {
     this.container = parentEl.createDiv({ cls: 'claudian-mcp-selector' });
@@ -614,6 +639,21 @@ export class McpServerSelector {
     this.onChangeCallback = callback;
   }
 
+  setOnRestart(callback: (name: string) => Promise<void>): void {
+    this.onRestartCallback = callback;
+  }
+
+  setOnBrowseResources(callback: () => void): void {
+    this.onBrowseResourcesCallback = callback;
+    this.renderDropdown();
+  }
+
+  /** Re-renders health dots after the manager reports a health change. */
+  refreshHealth(): void {
+    this.updateDisplay();
+    this.renderDropdown();
+  }
+
   getEnabledServers(): Set<string> {
     return new Set(this.enabledServers);
   }
@@ -632,8 +672,10 @@ export class McpServerSelector {
     }
   }
 
+  /** Resets enabled servers and the tool selection for a new conversation. */
   clearEnabled(): void {
     this.enabledServers.clear();
+    this.toolSelection.clear();
     this.updateDisplay();
     this.renderDropdown();
   }
@@ -645,6 +687,15 @@ export class McpServerSelector {
     this.renderDropdown();
   }
 
+  getToolSelection(): McpToolSelection {
+    return Object.fromEntries(Array.from(this.toolSelection, ([name, tools]) => [name, Array.from(tools)]));
+  }
+
+  setToolSelection(selection: McpToolSelection): void {
+    this.toolSelection = new Map(Object.entries(selection).map(([name, tools]) => [name, new Set(tools)]));
+    this.renderDropdown();
+  }
+
   private pruneEnabledServers(): void {
     if (!this.mcpManager) return;
     const activeNames = new Set(this.mcpManager.getServers().filter((s) => s.enabled).map((s) => s.name));
@@ -684,6 +735,8 @@ export class McpServerSelector {
   private renderDropdown() {
     if (!this.dropdownEl) return;
     this.pruneEnabledServers();
+    // Keep the scroll position when a tool toggle re-renders the list
+    const scrollTop = (this.dropdownEl.querySelector('.claudian-mcp-selector-list') as HTMLElement | null)?.scrollTop ?? 0;
     this.dropdownEl.empty();
 
     // Header
@@ -704,6 +757,22 @@ export class McpServerSelector {
 
     for (const server of servers) {
       this.renderServerItem(listEl, server);
+      if (this.expandedServers.has(server.name)) {
+        this.renderToolPanel(listEl, server);
+      }
+    }
+    listEl.scrollTop = scrollTop;
+    this.dropdownEl.toggleClass('tools-open', servers.some((s) => this.expandedServers.has(s.name)));
+
+    if (this.onBrowseResourcesCallback) {
+      const browseEl = this.dropdownEl.createDiv({ cls: 'claudian-mcp-selector-browse' });
+      setIcon(browseEl.createSpan({ cls: 'claudian-mcp-selector-browse-icon' }), 'library');
+      browseEl.createSpan({ text: 'Browse resources' });
+      browseEl.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.onBrowseResourcesCallback?.();
+      });
     }
   }
 
@@ -725,6 +794,13 @@ export class McpServerSelector {
     // Info
     const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-selector-item-info' });
 
+    const health = this.mcpManager?.getServerHealth(server.name);
+    const statusEl = infoEl.createSpan({ cls: 'claudian-mcp-selector-status' });
+    if (health) {
+      statusEl.addClass(`status-${health.status}`);
+    }
+    statusEl.setAttribute('title', this.describeHealth(health));
+
     const nameEl = infoEl.createSpan({ cls: 'claudian-mcp-selector-item-name' });
     nameEl.setText(server.name);
 
@@ -735,6 +811,37 @@ export class McpServerSelector {
       csEl.setAttribute('title', 'Context-saving: can also enable via @' + server.name);
     }
 
+    const selectedTools = this.toolSelection.get(server.name);
+    const toolsEl = itemEl.createDiv({ cls: 'claudian-mcp-selector-tools-toggle' });
+    setIcon(toolsEl, 'wrench');
+    if (selectedTools) {
+      toolsEl.addClass('narrowed');
+      toolsEl.createSpan({ text: String(selectedTools.size) });
+    }
+    toolsEl.toggleClass('expanded', this.expandedServers.has(server.name));
+    toolsEl.setAttribute('title', selectedTools
+      ? `${selectedTools.size} tool${selectedTools.size === 1 ? '' : 's'} enabled for this conversation`
+      : 'Choose tools for this conversation');
+    toolsEl.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.toggleToolPanel(server.name);
+    });
+
+    if (this.onRestartCallback) {
+      const restartEl = itemEl.createDiv({ cls: 'claudian-mcp-selector-restart' });
+      setIcon(restartEl, 'refresh-cw');
+      restartEl.setAttribute('title', 'Restart server');
+      if (this.restartingServers.has(server.name)) {
+        restartEl.addClass('restarting');
+      }
+      restartEl.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        void this.restartServer(server.name);
+      });
+    }
+
     // Click to toggle (use mousedown for more reliable capture)
     itemEl.addEventListener('mousedown', (e) => {
       e.preventDefault();
@@ -743,6 +850,149 @@ export class McpServerSelector {
     });
   }
 
+  private toggleToolPanel(name: string): void {
+    if (this.expandedServers.has(name)) {
+      this.expandedServers.delete(name);
+    } else {
+      this.expandedServers.add(name);
+      this.toolListErrors.delete(name);
+    }
+    this.renderDropdown();
+  }
+
+  private renderToolPanel(listEl: HTMLElement, server: ClaudianMcpServer): void {
+    const panelEl = listEl.createDiv({ cls: 'claudian-mcp-selector-tools' });
+    const tools = this.mcpManager?.getCachedTools(server.name);
+    if (!tools) {
+      const error = this.toolListErrors.get(server.name);
+      if (!error) void this.loadTools(server.name);
+      panelEl.createDiv({
+        cls: `claudian-mcp-selector-tools-note${error ? ' is-error' : ''}`,
+        text: error ?? 'Loading tools...',
+      });
+      return;
+    }
+
+    // Tools disabled in the server settings never reach the model
+    const available = tools.filter((tool) => !server.disabledTools?.includes(tool.name));
+    if (available.length === 0) {
+      panelEl.createDiv({ cls: 'claudian-mcp-selector-tools-note', text: 'No tools' });
+      return;
+    }
+
+    const allNames = available.map((tool) => tool.name);
+    const selected = this.toolSelection.get(server.name);
+    const actionsEl = panelEl.createDiv({ cls: 'claudian-mcp-selector-tools-actions' });
+    actionsEl.createSpan({ text: `${selected ? selected.size : allNames.length}/${allNames.length} enabled` });
+    for (const [label, names] of [['All', allNames], ['None', []]] as const) {
+      const actionEl = actionsEl.createSpan({ cls: 'claudian-mcp-selector-tools-action', text: label });
+      actionEl.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.updateToolSelection(server.name, new Set(names), allNames);
+      });
+    }
+
+    for (const tool of available) {
+      this.renderToolItem(panelEl, server.name, tool, !selected || selected.has(tool.name), allNames);
+    }
+  }
+
+  private renderToolItem(
+    panelEl: HTMLElement,
+    serverName: string,
+    tool: McpTool,
+    isEnabled: boolean,
+    allNames: string[]
+  ): void {
+    const toolEl = panelEl.createDiv({ cls: 'claudian-mcp-selector-tool' });
+    toolEl.toggleClass('enabled', isEnabled);
+    const checkEl = toolEl.createDiv({ cls: 'claudian-mcp-selector-check' });
+    if (isEnabled) {
+      checkEl.innerHTML = CHECK_ICON_SVG;
+    }
+
+    const infoEl = toolEl.createDiv({ cls: 'claudian-mcp-selector-tool-info' });
+    infoEl.createDiv({ cls: 'claudian-mcp-selector-tool-name', text: tool.name });
+    if (tool.description) {
+      infoEl.createDiv({ cls: 'claudian-mcp-selector-tool-desc', text: tool.description });
+    }
+
+    const params = getMcpToolParameters(tool);
+    if (params.length > 0) {
+      const paramsEl = infoEl.createDiv({ cls: 'claudian-mcp-selector-tool-params' });
+      for (const param of params) {
+        const paramEl = paramsEl.createSpan({ cls: 'claudian-mcp-selector-tool-param' });
+        paramEl.createSpan({ cls: 'claudian-mcp-selector-tool-param-name', text: param.required ? `${param.name}*` : param.name });
+        if (param.type) {
+          paramEl.createSpan({ cls: 'claudian-mcp-selector-tool-param-type', text: param.type });
+        }
+        if (param.description) {
+          paramEl.setAttribute('title', param.description);
+        }
+      }
+    }
+
+    toolEl.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const selected = new Set(this.toolSelection.get(serverName) ?? allNames);
+      if (selected.has(tool.name)) {
+        selected.delete(tool.name);
+      } else {
+        selected.add(tool.name);
+      }
+      this.updateToolSelection(serverName, selected, allNames);
+    });
+  }
+
+  private updateToolSelection(serverName: string, selected: Set<string>, allNames: string[]): void {
+    // Selecting every tool drops the entry, so tools the server adds later are enabled too
+    if (allNames.every((name) => selected.has(name))) {
+      this.toolSelection.delete(serverName);
+    } else {
+      this.toolSelection.set(serverName, selected);
+    }
+    this.renderDropdown();
+  }
+
+  private async loadTools(name: string): Promise<void> {
+    if (!this.mcpManager || this.loadingTools.has(name)) return;
+    this.loadingTools.add(name);
+    const result = await this.mcpManager.listTools(name);
+    this.loadingTools.delete(name);
+    if (!result.success) {
+      this.toolListErrors.set(name, result.error ?? 'Failed to list tools');
+    }
+    this.renderDropdown();
+  }
+
+  private describeHealth(health: McpServerHealth | undefined): string {
+    if (!health) return 'Not checked yet';
+    switch (health.status) {
+      case 'checking':
+        return 'Checking...';
+      case 'healthy':
+        return health.latencyMs !== undefined ? `Healthy (${health.latencyMs} ms)` : 'Healthy';
+      case 'unhealthy':
+        return `Unreachable: ${health.lastError ?? 'Unknown error'}`;
+    }
+  }
+
+  private async restartServer(name: string): Promise<void> {
+    if (!this.onRestartCallback || this.restartingServers.has(name)) return;
+    this.restartingServers.add(name);
+    this.renderDropdown();
+    try {
+      await this.onRestartCallback(name);
+    } catch (error) {
+      new Notice(`Failed to restart ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.restartingServers.delete(name);
+      this.renderDropdown();
+    }
+  }
+
   private toggleServer(name: string, itemEl: HTMLElement) {
     if (this.enabledServers.has(name)) {
       this.enabledServers.delete(name);
@@ -780,6 +1030,10 @@ export class McpServerSelector {
     }
     this.container.style.display = '';
 
+    const unhealthy = this.mcpManager?.getServers()
+      .filter((s) => s.enabled && this.mcpManager?.getServerHealth(s.name)?.status === 'unhealthy') ?? [];
+    this.iconEl.toggleClass('unhealthy', unhealthy.length > 0);
+
     if (count > 0) {
       this.iconEl.addClass('active');
       this.iconEl.setAttribute('title', `${count} MCP server${count > 1 ? 's' : ''} enabled (click to manage)`);
@@ -804,6 +1058,8 @@ export class ContextUsageMeter {
   private fillPath: SVGPathElement | null = null;
   private percentEl: HTMLElement | null = null;
   private circumference: number = 0;
+  private usage: UsageInfo | null = null;
+  private cost: ConversationCost | null = null;
 
   constructor(parentEl: HTMLElement) {
     this.container = parentEl.createDiv({ cls: 'claudian-context-meter' });
@@ -851,6 +1107,7 @@ export class ContextUsageMeter {
   }
 
   update(usage: UsageInfo | null): void {
+    this.usage = usage;
     if (!usage || usage.contextTokens <= 0) {
       this.container.style.display = 'none';
       return;
@@ -872,11 +1129,32 @@ export class ContextUsageMeter {
       this.container.removeClass('warning');
     }
 
-    // Set tooltip with detailed usage
+    this.updateTooltip();
+  }
+
+  /** Sets cumulative conversation spend shown in the tooltip. */
+  setCost(cost: ConversationCost | null): void {
+    this.cost = cost;
+    this.updateTooltip();
+  }
+
+  private updateTooltip(): void {
+    const usage = this.usage;
+    if (!usage || usage.contextTokens <= 0) return;
+
     let tooltip = `${this.formatTokens(usage.contextTokens)} / ${this.formatTokens(usage.contextWindow)}`;
     if (usage.percentage > 80) {
       tooltip += ' (Approaching limit, run `/compact` to continue)';
     }
+
+    const totals = this.cost?.totals;
+    if (totals) {
+      const cacheTokens = totals.cacheCreationInputTokens + totals.cacheReadInputTokens;
+      tooltip += `\nSession: ${formatUsd(totals.costUsd)}`
+        + ` · ${formatTokenCount(totals.inputTokens)} in`
+        + ` · ${formatTokenCount(totals.outputTokens)} out`
+        + ` · ${formatTokenCount(cacheTokens)} cache`;
+    }
     this.container.setAttribute('data-tooltip', tooltip);
   }
 
@@ -888,6 +1166,38 @@ export class ContextUsageMeter {
   }
 }
 
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  conversation: 'conversation',
+  day: 'daily',
+  vault: 'vault',
+};
+
+/** Budget left under the tightest cap. Hidden when no cap is set. */
+export class BudgetIndicator {
+  private container: HTMLElement;
+
+  constructor(parentEl: HTMLElement) {
+    this.container = parentEl.createDiv({ cls: 'claudian-budget-indicator' });
+    this.container.style.display = 'none';
+  }
+
+  update(status: BudgetStatus | null): void {
+    if (!status || status.remaining === null || status.limit === null || !status.tightest) {
+      this.container.style.display = 'none';
+      return;
+    }
+
+    this.container.style.display = 'flex';
+    this.container.setText(`${formatUsd(status.remaining)} left`);
+    this.container.toggleClass('warning', status.remaining < status.limit * 0.2);
+    this.container.toggleClass('exceeded', status.exceeded.length > 0);
+    this.container.setAttribute(
+      'data-tooltip',
+      `${formatUsd(status.remaining)} of ${formatUsd(status.limit)} ${BUDGET_SCOPE_LABELS[status.tightest]} budget left`
+    );
+  }
+}
+
 export function createInputToolbar(
   parentEl: HTMLElement,
   callbacks: ToolbarCallbacks
@@ -895,6 +1205,7 @@ export function createInputToolbar(
   modelSelector: ModelSelector;
   thinkingBudgetSelector: ThinkingBudgetSelector;
   contextUsageMeter: ContextUsageMeter | null;
+  budgetIndicator: BudgetIndicator;
   externalContextSelector: ExternalContextSelector;
   mcpServerSelector: McpServerSelector;
   permissionToggle: PermissionToggle;
@@ -902,9 +1213,18 @@ export function createInputToolbar(
   const modelSelector = new ModelSelector(parentEl, callbacks);
   const thinkingBudgetSelector = new ThinkingBudgetSelector(parentEl, callbacks);
   const contextUsageMeter = new ContextUsageMeter(parentEl);
+  const budgetIndicator = new BudgetIndicator(parentEl);
   const externalContextSelector = new ExternalContextSelector(parentEl, callbacks);
   const mcpServerSelector = new McpServerSelector(parentEl);
   const permissionToggle = new PermissionToggle(parentEl, callbacks);
 
-  return { modelSelector, thinkingBudgetSelector, contextUsageMeter, externalContextSelector, mcpServerSelector, permissionToggle };
+  return {
+    modelSelector,
+    thinkingBudgetSelector,
+    contextUsageMeter,
+    budgetIndicator,
+    externalContextSelector,
+    mcpServerSelector,
+    permissionToggle,
+  };
 }
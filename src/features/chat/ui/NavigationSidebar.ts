@@ -2,7 +2,8 @@ import { setIcon } from 'obsidian';
 
 /**
  * Floating sidebar for navigating chat history.
- * Provides quick access to top/bottom and previous/next user messages.
+ * Provides quick access to top/bottom, previous/next user messages and
+ * previous/next pinned messages (shown only while the conversation has pins).
  */
 export class NavigationSidebar {
   private container: HTMLElement;
@@ -10,6 +11,8 @@ export class NavigationSidebar {
   private prevBtn: HTMLElement;
   private nextBtn: HTMLElement;
   private bottomBtn: HTMLElement;
+  private prevPinBtn: HTMLElement;
+  private nextPinBtn: HTMLElement;
   private scrollHandler: () => void;
 
   constructor(
@@ -23,6 +26,8 @@ export class NavigationSidebar {
     this.prevBtn = this.createButton('claudian-nav-btn-prev', 'chevron-up', 'Previous message');
     this.nextBtn = this.createButton('claudian-nav-btn-next', 'chevron-down', 'Next message');
     this.bottomBtn = this.createButton('claudian-nav-btn-bottom', 'chevrons-down', 'Scroll to bottom');
+    this.prevPinBtn = this.createButton('claudian-nav-btn-pin claudian-nav-btn-pin-prev', 'circle-arrow-up', 'Previous pinned message');
+    this.nextPinBtn = this.createButton('claudian-nav-btn-pin claudian-nav-btn-pin-next', 'circle-arrow-down', 'Next pinned message');
 
     this.setupEventListeners();
     this.updateVisibility();
@@ -51,6 +56,13 @@ export class NavigationSidebar {
 
     this.prevBtn.addEventListener('click', () => this.scrollToMessage('prev'));
     this.nextBtn.addEventListener('click', () => this.scrollToMessage('next'));
+    this.prevPinBtn.addEventListener('click', () => this.scrollToPinnedMessage('prev'));
+    this.nextPinBtn.addEventListener('click', () => this.scrollToPinnedMessage('next'));
+  }
+
+  /** Shows or hides the pinned message buttons. */
+  setHasPins(hasPins: boolean): void {
+    this.container.classList.toggle('has-pins', hasPins);
   }
 
   /**
@@ -97,6 +109,22 @@ export class NavigationSidebar {
     }
   }
 
+  /**
+   * Scrolls to the previous or next pinned message, wrapping around at either end.
+   */
+  private scrollToPinnedMessage(direction: 'prev' | 'next'): void {
+    const pinned = Array.from(this.messagesEl.querySelectorAll('.claudian-message-pinned')) as HTMLElement[];
+    if (pinned.length === 0) return;
+
+    const scrollTop = this.messagesEl.scrollTop;
+    const threshold = 30;
+    const target = direction === 'prev'
+      ? [...pinned].reverse().find(el => el.offsetTop < scrollTop - threshold) ?? pinned[pinned.length - 1]
+      : pinned.find(el => el.offsetTop > scrollTop + threshold) ?? pinned[0];
+
+    this.messagesEl.scrollTo({ top: target.offsetTop - 10, behavior: 'smooth' });
+  }
+
   destroy(): void {
     this.messagesEl.removeEventListener('scroll', this.scrollHandler);
     this.container.remove();
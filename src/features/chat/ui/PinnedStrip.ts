@@ -0,0 +1,87 @@
+import { setIcon } from 'obsidian';
+
+import { getPinLabel, type ResolvedPin } from '../pins';
+
+export interface PinnedStripCallbacks {
+  onJump: (messageId: string) => void;
+  /** An empty name turns a bookmark back into a plain pin. */
+  onRename: (messageKey: string, name: string) => Promise<void>;
+  onUnpin: (messageKey: string) => Promise<void>;
+}
+
+/**
+ * Strip of pinned messages and bookmarks at the top of the chat.
+ * Clicking an item jumps to its message; items can be named or unpinned in place.
+ */
+export class PinnedStrip {
+  constructor(private containerEl: HTMLElement, private callbacks: PinnedStripCallbacks) {
+    this.containerEl.addClass('claudian-pinned-strip');
+    this.containerEl.style.display = 'none';
+  }
+
+  render(pins: ResolvedPin[]): void {
+    this.containerEl.empty();
+    this.containerEl.style.display = pins.length > 0 ? '' : 'none';
+
+    for (const resolved of pins) {
+      this.renderItem(resolved);
+    }
+  }
+
+  private renderItem(resolved: ResolvedPin): void {
+    const { pin, message } = resolved;
+    const itemEl = this.containerEl.createDiv({ cls: 'claudian-pinned-item' });
+    if (pin.name) itemEl.addClass('is-bookmark');
+
+    setIcon(itemEl.createSpan({ cls: 'claudian-pinned-item-icon' }), pin.name ? 'bookmark' : 'pin');
+
+    const label = getPinLabel(resolved);
+    const labelEl = itemEl.createSpan({ cls: 'claudian-pinned-item-label', text: label });
+    labelEl.setAttribute('title', label);
+    labelEl.addEventListener('click', () => this.callbacks.onJump(message.id));
+
+    const renameBtn = itemEl.createSpan({ cls: 'claudian-pinned-item-action' });
+    setIcon(renameBtn, 'pencil');
+    renameBtn.setAttribute('aria-label', pin.name ? 'Rename bookmark' : 'Name as bookmark');
+    renameBtn.addEventListener('click', () => this.startRename(itemEl, labelEl, pin.messageKey, pin.name ?? ''));
+
+    const unpinBtn = itemEl.createSpan({ cls: 'claudian-pinned-item-action' });
+    setIcon(unpinBtn, 'x');
+    unpinBtn.setAttribute('aria-label', 'Unpin');
+    unpinBtn.addEventListener('click', () => void this.callbacks.onUnpin(pin.messageKey));
+  }
+
+  private startRename(itemEl: HTMLElement, labelEl: HTMLElement, messageKey: string, name: string): void {
+    const input = createEl('input', {
+      cls: 'claudian-pinned-item-input',
+      attr: { type: 'text', placeholder: 'Bookmark name' },
+    });
+    input.value = name;
+    itemEl.replaceChild(input, labelEl);
+    input.focus();
+    input.select();
+
+    let done = false;
+    const finish = (save: boolean) => {
+      if (done) return;
+      done = true;
+      if (save && input.value.trim() !== name) {
+        void this.callbacks.onRename(messageKey, input.value);
+      } else {
+        itemEl.replaceChild(labelEl, input);
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        finish(false);
+      }
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+}
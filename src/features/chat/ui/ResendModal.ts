@@ -0,0 +1,136 @@
+import { type App, Modal, Notice, Setting } from 'obsidian';
+
+import type { ChatMessage, ImageAttachment } from '../../../core/types';
+import type ClaudianPlugin from '../../../main';
+import type { ResendRequest } from '../rewind';
+import { getCompareModelOptions } from '../services/CompareService';
+
+export type ResendMode = 'edit' | 'regenerate';
+
+/**
+ * Asks how to resend a user message: with edited text and attachments, or for
+ * regenerate with an optional other model. Resolves null when cancelled.
+ */
+export function requestResend(
+  app: App,
+  plugin: ClaudianPlugin,
+  mode: ResendMode,
+  message: ChatMessage
+): Promise<ResendRequest | null> {
+  return new Promise(resolve => {
+    new ResendModal(app, plugin, mode, message, resolve).open();
+  });
+}
+
+class ResendModal extends Modal {
+  private text: string;
+  private images: ImageAttachment[];
+  private restoreFiles = true;
+  private model: string;
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private plugin: ClaudianPlugin,
+    private mode: ResendMode,
+    message: ChatMessage,
+    private resolve: (request: ResendRequest | null) => void
+  ) {
+    super(app);
+    this.text = message.displayContent ?? message.content;
+    this.images = [...(message.images ?? [])];
+    this.model = plugin.settings.model;
+  }
+
+  onOpen() {
+    const isEdit = this.mode === 'edit';
+    this.setTitle(isEdit ? 'Edit message' : 'Regenerate response');
+    this.modalEl.addClass('claudian-resend-modal');
+
+    const textArea = this.contentEl.createEl('textarea', {
+      cls: 'claudian-resend-text',
+      attr: { rows: isEdit ? '6' : '3' },
+    });
+    textArea.value = this.text;
+    textArea.readOnly = !isEdit;
+    textArea.addEventListener('input', () => { this.text = textArea.value; });
+
+    if (this.images.length > 0) {
+      const imagesEl = this.contentEl.createDiv({ cls: 'claudian-resend-images' });
+      this.renderImages(imagesEl, isEdit);
+    }
+
+    if (!isEdit) {
+      const models = getCompareModelOptions(this.plugin.getActiveEnvironmentVariables());
+      new Setting(this.contentEl)
+        .setName('Model')
+        .setDesc('Model for the regenerated response. Later messages use the selected model again.')
+        .addDropdown(dropdown => {
+          for (const model of models) dropdown.addOption(model.value, model.label);
+          if (!models.some(model => model.value === this.model)) {
+            dropdown.addOption(this.model, this.model);
+          }
+          dropdown.setValue(this.model).onChange(value => { this.model = value; });
+        });
+    }
+
+    new Setting(this.contentEl)
+      .setName('Restore files')
+      .setDesc('Revert file changes made since this message before resending.')
+      .addToggle(toggle => toggle.setValue(this.restoreFiles).onChange(value => { this.restoreFiles = value; }));
+
+    this.contentEl.createDiv({
+      cls: 'setting-item-description',
+      text: 'Messages from this one on are replaced by the new response.',
+    });
+
+    new Setting(this.contentEl)
+      .addButton(btn => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton(btn =>
+        btn
+          .setButtonText(isEdit ? 'Resend' : 'Regenerate')
+          .setCta()
+          .onClick(() => this.submit())
+      );
+
+    if (isEdit) textArea.focus();
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+
+  private renderImages(containerEl: HTMLElement, removable: boolean): void {
+    containerEl.empty();
+    for (const image of this.images) {
+      const chipEl = containerEl.createDiv({ cls: 'claudian-resend-image' });
+      chipEl.createEl('img', { attr: { src: `data:${image.mediaType};base64,${image.data}`, alt: image.name } });
+      if (!removable) continue;
+      const removeEl = chipEl.createSpan({ cls: 'claudian-resend-image-remove', text: '×' });
+      removeEl.setAttribute('aria-label', `Remove ${image.name}`);
+      removeEl.addEventListener('click', () => {
+        this.images = this.images.filter(other => other.id !== image.id);
+        this.renderImages(containerEl, removable);
+      });
+    }
+  }
+
+  private submit(): void {
+    if (!this.text.trim() && this.images.length === 0) {
+      new Notice('Enter a message to send');
+      return;
+    }
+
+    this.resolved = true;
+    this.resolve({
+      text: this.text,
+      images: this.images.length > 0 ? this.images : undefined,
+      restoreFiles: this.restoreFiles,
+      model: this.mode === 'regenerate' && this.model !== this.plugin.settings.model ? this.model : undefined,
+    });
+    this.close();
+  }
+}
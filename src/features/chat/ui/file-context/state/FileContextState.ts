@@ -1,3 +1,5 @@
+import type { McpResourceAttachment } from '../../../../../core/types';
+
 function escapeRegExp(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -9,6 +11,8 @@ export class FileContextState {
   private currentNoteSent = false;
   /** Maps display name to absolute path for external context files only. */
   private contextFileMap: Map<string, string> = new Map();
+  /** MCP resources for the next message, keyed by `server:uri`. */
+  private mcpResources: Map<string, McpResourceAttachment> = new Map();
 
   getAttachedFiles(): Set<string> {
     return new Set(this.attachedFiles);
@@ -35,6 +39,7 @@ export class FileContextState {
     this.currentNoteSent = false;
     this.attachedFiles.clear();
     this.contextFileMap.clear();
+    this.mcpResources.clear();
     this.clearMcpMentions();
   }
 
@@ -43,6 +48,7 @@ export class FileContextState {
     this.attachedFiles.clear();
     this.contextFileMap.clear();
     this.sessionStarted = hasMessages;
+    this.mcpResources.clear();
     this.clearMcpMentions();
   }
 
@@ -82,6 +88,26 @@ export class FileContextState {
     return result;
   }
 
+  getMcpResources(): McpResourceAttachment[] {
+    return [...this.mcpResources.values()];
+  }
+
+  /** Returns false if the resource was already attached. */
+  attachMcpResource(resource: McpResourceAttachment): boolean {
+    const key = `${resource.server}:${resource.uri}`;
+    if (this.mcpResources.has(key)) return false;
+    this.mcpResources.set(key, resource);
+    return true;
+  }
+
+  detachMcpResource(server: string, uri: string): void {
+    this.mcpResources.delete(`${server}:${uri}`);
+  }
+
+  clearMcpResources(): void {
+    this.mcpResources.clear();
+  }
+
   getMentionedMcpServers(): Set<string> {
     return new Set(this.mentionedMcpServers);
   }
@@ -1,14 +1,19 @@
 import { setIcon } from 'obsidian';
 
+import type { McpResourceAttachment } from '../../../../../core/types';
+import { MCP_ICON_SVG } from '../../../../../shared/icons';
+
 export interface FileChipsViewCallbacks {
   onRemoveAttachment: (path: string) => void;
   onOpenFile: (path: string) => void;
+  onRemoveMcpResource?: (resource: McpResourceAttachment) => void;
 }
 
 export class FileChipsView {
   private containerEl: HTMLElement;
   private callbacks: FileChipsViewCallbacks;
   private fileIndicatorEl: HTMLElement;
+  private mcpResourceIndicatorEl: HTMLElement;
 
   constructor(containerEl: HTMLElement, callbacks: FileChipsViewCallbacks) {
     this.containerEl = containerEl;
@@ -19,10 +24,45 @@ export class FileChipsView {
     if (firstChild) {
       this.containerEl.insertBefore(this.fileIndicatorEl, firstChild);
     }
+
+    this.mcpResourceIndicatorEl = this.containerEl.createDiv({ cls: 'claudian-mcp-resource-indicator' });
+    this.mcpResourceIndicatorEl.style.display = 'none';
+    if (firstChild) {
+      this.containerEl.insertBefore(this.mcpResourceIndicatorEl, firstChild);
+    }
   }
 
   destroy(): void {
     this.fileIndicatorEl.remove();
+    this.mcpResourceIndicatorEl.remove();
+  }
+
+  renderMcpResources(resources: McpResourceAttachment[]): void {
+    this.mcpResourceIndicatorEl.empty();
+
+    if (resources.length === 0) {
+      this.mcpResourceIndicatorEl.style.display = 'none';
+      return;
+    }
+
+    this.mcpResourceIndicatorEl.style.display = 'flex';
+    for (const resource of resources) {
+      const chipEl = this.mcpResourceIndicatorEl.createDiv({ cls: 'claudian-file-chip claudian-mcp-resource-chip' });
+
+      const iconEl = chipEl.createSpan({ cls: 'claudian-file-chip-icon' });
+      iconEl.innerHTML = MCP_ICON_SVG;
+
+      const nameEl = chipEl.createSpan({ cls: 'claudian-file-chip-name' });
+      nameEl.setText(`${resource.server}:${resource.name}`);
+      nameEl.setAttribute('title', resource.uri);
+
+      const removeEl = chipEl.createSpan({ cls: 'claudian-file-chip-remove' });
+      removeEl.setText('\u00D7');
+      removeEl.setAttribute('aria-label', 'Remove');
+      removeEl.addEventListener('click', () => {
+        this.callbacks.onRemoveMcpResource?.(resource);
+      });
+    }
   }
 
   renderCurrentNote(filePath: string | null): void {
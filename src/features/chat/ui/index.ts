@@ -1,8 +1,11 @@
 export { type BangBashModeCallbacks, BangBashModeManager, type BangBashModeState } from './BangBashModeManager';
+export { BranchTreeModal, type BranchTreeModalOptions } from './BranchTreeModal';
+export { CompareModal, type CompareModalOptions } from './CompareModal';
 export { type FileContextCallbacks,FileContextManager } from './FileContext';
 export { type ImageContextCallbacks,ImageContextManager } from './ImageContext';
 export {
   type AddExternalContextResult,
+  BudgetIndicator,
   ContextUsageMeter,
   createInputToolbar,
   ExternalContextSelector,
@@ -13,4 +16,6 @@ export {
 } from './InputToolbar';
 export { type InstructionModeCallbacks, InstructionModeManager, type InstructionModeState } from './InstructionModeManager';
 export { NavigationSidebar } from './NavigationSidebar';
+export { PinnedStrip,type PinnedStripCallbacks } from './PinnedStrip';
+export { requestResend, type ResendMode } from './ResendModal';
 export { type PanelBashOutput, type PanelSubagentInfo, StatusPanel } from './StatusPanel';
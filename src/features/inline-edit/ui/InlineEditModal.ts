@@ -412,7 +412,7 @@ class InlineEditController {
       },
       {
         fixed: true,
-        hiddenCommands: new Set((this.plugin.settings.hiddenSlashCommands || []).map(c => c.toLowerCase())),
+        hiddenCommands: this.plugin.getHiddenSlashCommands(),
       }
     );
 
@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import type { App } from 'obsidian';
 import { Notice, PluginSettingTab, Setting } from 'obsidian';
 
-import { getCurrentPlatformKey, getHostnameKey } from '../../core/types';
+import { type BudgetExceededAction, getCurrentPlatformKey, getHostnameKey } from '../../core/types';
 import { DEFAULT_CLAUDE_MODELS } from '../../core/types/models';
 import { getAvailableLocales, getLocaleDisplayName, setLocale, t } from '../../i18n';
 import type { Locale, TranslationKey } from '../../i18n/types';
@@ -12,10 +12,16 @@ import { expandHomePath } from '../../utils/path';
 import { ClaudianView } from '../chat/ClaudianView';
 import { buildNavMappingText, parseNavMappings } from './keyboardNavigation';
 import { AgentSettings } from './ui/AgentSettings';
+import { AuditLogViewer } from './ui/AuditLogViewer';
 import { EnvSnippetManager } from './ui/EnvSnippetManager';
+import { InvocationStatsView } from './ui/InvocationStatsView';
 import { McpSettingsManager } from './ui/McpSettingsManager';
+import { PermissionRulesSettings } from './ui/PermissionRulesSettings';
 import { PluginSettingsManager } from './ui/PluginSettingsManager';
+import { ScheduledTaskSettings } from './ui/ScheduledTaskSettings';
 import { SlashCommandSettings } from './ui/SlashCommandSettings';
+import { UsageDashboard } from './ui/UsageDashboard';
+import { VaultTriggerSettings } from './ui/VaultTriggerSettings';
 
 function formatHotkey(hotkey: { modifiers: string[]; key: string }): string {
   const isMac = navigator.platform.includes('Mac');
@@ -318,6 +324,96 @@ export class ClaudianSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl).setName(t('settings.conversationExport')).setHeading();
+
+    new Setting(containerEl)
+      .setName(t('settings.exportFolder.name'))
+      .setDesc(t('settings.exportFolder.desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder('Claudian')
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.exportCollapseToolCalls.name'))
+      .setDesc(t('settings.exportCollapseToolCalls.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.exportCollapseToolCalls)
+          .onChange(async (value) => {
+            this.plugin.settings.exportCollapseToolCalls = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.exportIncludeThinking.name'))
+      .setDesc(t('settings.exportIncludeThinking.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.exportIncludeThinking)
+          .onChange(async (value) => {
+            this.plugin.settings.exportIncludeThinking = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName(t('settings.usage.name')).setHeading();
+
+    const usageDesc = containerEl.createDiv({ cls: 'claudian-usage-settings-desc' });
+    usageDesc.createEl('p', {
+      text: t('settings.usage.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const usageContainer = containerEl.createDiv({ cls: 'claudian-usage-container' });
+    new UsageDashboard(usageContainer, this.plugin);
+
+    const budgetSettings = [
+      { key: 'budgetConversationUsd', prefix: 'settings.budgetConversation' },
+      { key: 'budgetDailyUsd', prefix: 'settings.budgetDaily' },
+      { key: 'budgetVaultUsd', prefix: 'settings.budgetVault' },
+    ] as const;
+
+    for (const { key, prefix } of budgetSettings) {
+      new Setting(containerEl)
+        .setName(t(`${prefix}.name` as TranslationKey))
+        .setDesc(t(`${prefix}.desc` as TranslationKey))
+        .addText((text) => {
+          text
+            .setPlaceholder('0')
+            .setValue(this.plugin.settings[key] > 0 ? String(this.plugin.settings[key]) : '')
+            .onChange(async (value) => {
+              const parsed = parseFloat(value.trim());
+              this.plugin.settings[key] = Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+              await this.plugin.saveSettings();
+              this.plugin.getView()?.updateBudgetIndicators();
+            });
+          text.inputEl.type = 'number';
+          text.inputEl.min = '0';
+          text.inputEl.step = '0.01';
+        });
+    }
+
+    new Setting(containerEl)
+      .setName(t('settings.budgetExceededAction.name'))
+      .setDesc(t('settings.budgetExceededAction.desc'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('confirm', t('settings.budgetExceededAction.confirm'))
+          .addOption('block', t('settings.budgetExceededAction.block'))
+          .setValue(this.plugin.settings.budgetExceededAction)
+          .onChange(async (value: BudgetExceededAction) => {
+            this.plugin.settings.budgetExceededAction = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
     new Setting(containerEl).setName(t('settings.hotkeys')).setHeading();
 
     const hotkeyGrid = containerEl.createDiv({ cls: 'claudian-hotkey-grid' });
@@ -359,6 +455,28 @@ export class ClaudianSettingTab extends PluginSettingTab {
         text.inputEl.cols = 30;
       });
 
+    new Setting(containerEl).setName(t('settings.scheduledTasks.name')).setHeading();
+
+    const scheduledTasksDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    scheduledTasksDesc.createEl('p', {
+      text: t('settings.scheduledTasks.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const scheduledTasksContainer = containerEl.createDiv({ cls: 'claudian-scheduled-tasks-container' });
+    new ScheduledTaskSettings(scheduledTasksContainer, this.plugin);
+
+    new Setting(containerEl).setName(t('settings.vaultTriggers.name')).setHeading();
+
+    const vaultTriggersDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    vaultTriggersDesc.createEl('p', {
+      text: t('settings.vaultTriggers.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const vaultTriggersContainer = containerEl.createDiv({ cls: 'claudian-vault-triggers-container' });
+    new VaultTriggerSettings(vaultTriggersContainer, this.plugin);
+
     new Setting(containerEl).setName(t('settings.subagents.name')).setHeading();
 
     const agentsDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
@@ -370,6 +488,9 @@ export class ClaudianSettingTab extends PluginSettingTab {
     const agentsContainer = containerEl.createDiv({ cls: 'claudian-agents-container' });
     new AgentSettings(agentsContainer, this.plugin);
 
+    const invocationStatsContainer = containerEl.createDiv({ cls: 'claudian-invocation-stats-container' });
+    new InvocationStatsView(invocationStatsContainer, this.plugin);
+
     new Setting(containerEl).setName(t('settings.mcpServers.name')).setHeading();
 
     const mcpDesc = containerEl.createDiv({ cls: 'claudian-mcp-settings-desc' });
@@ -464,6 +585,15 @@ export class ClaudianSettingTab extends PluginSettingTab {
         });
     }
 
+    const permissionRulesDesc = containerEl.createDiv({ cls: 'claudian-sp-settings-desc' });
+    permissionRulesDesc.createEl('p', {
+      text: t('settings.permissionRules.desc'),
+      cls: 'setting-item-description',
+    });
+
+    const permissionRulesContainer = containerEl.createDiv({ cls: 'claudian-permission-rules-container' });
+    new PermissionRulesSettings(permissionRulesContainer, this.plugin);
+
     new Setting(containerEl)
       .setName(t('settings.exportPaths.name'))
       .setDesc(t('settings.exportPaths.desc'))
@@ -486,6 +616,21 @@ export class ClaudianSettingTab extends PluginSettingTab {
         text.inputEl.addEventListener('blur', () => this.restartServiceForPromptChange());
       });
 
+    new Setting(containerEl)
+      .setName(t('settings.auditLog.name'))
+      .setDesc(t('settings.auditLog.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableAuditLog)
+          .onChange(async (value) => {
+            this.plugin.settings.enableAuditLog = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const auditLogContainer = containerEl.createDiv({ cls: 'claudian-audit-log-container' });
+    new AuditLogViewer(auditLogContainer, this.plugin);
+
     new Setting(containerEl).setName(t('settings.environment')).setHeading();
 
     new Setting(containerEl)
@@ -583,13 +728,15 @@ export class ClaudianSettingTab extends PluginSettingTab {
     maxTabsWarningEl.style.display = 'none';
     maxTabsWarningEl.setText(t('settings.maxTabs.warning'));
 
+    // Hibernation keeps the number of running processes down, so many tabs are fine then
     const updateMaxTabsWarning = (value: number): void => {
-      maxTabsWarningEl.style.display = value > 5 ? 'block' : 'none';
+      const hibernating = (this.plugin.settings.tabHibernationMinutes ?? 0) > 0;
+      maxTabsWarningEl.style.display = value > 5 && !hibernating ? 'block' : 'none';
     };
 
     maxTabsSetting.addSlider((slider) => {
       slider
-        .setLimits(3, 10, 1)
+        .setLimits(3, 50, 1)
         .setValue(this.plugin.settings.maxTabs ?? 3)
         .setDynamicTooltip()
         .onChange(async (value) => {
@@ -600,6 +747,21 @@ export class ClaudianSettingTab extends PluginSettingTab {
       updateMaxTabsWarning(this.plugin.settings.maxTabs ?? 3);
     });
 
+    new Setting(containerEl)
+      .setName(t('settings.tabHibernation.name'))
+      .setDesc(t('settings.tabHibernation.desc'))
+      .addSlider((slider) => {
+        slider
+          .setLimits(0, 60, 5)
+          .setValue(this.plugin.settings.tabHibernationMinutes ?? 15)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.tabHibernationMinutes = value;
+            await this.plugin.saveSettings();
+            updateMaxTabsWarning(this.plugin.settings.maxTabs ?? 3);
+          });
+      });
+
     const hostnameKey = getHostnameKey();
 
     const platformDesc = process.platform === 'win32'
@@ -1,11 +1,20 @@
 import type { App } from 'obsidian';
 import { Modal, Notice, setIcon, Setting } from 'obsidian';
 
-import type { AgentDefinition } from '../../../core/types';
+import {
+  type AgentToolCatalog,
+  checkAgentTool,
+  createAgentToolCatalog,
+  getAgentMcpServers,
+  getAgentTestPermissionMode,
+  listCatalogTools,
+} from '../../../core/agents';
+import { AGENT_PERMISSION_MODES, type AgentDefinition, type AgentPermissionMode } from '../../../core/types';
 import { t } from '../../../i18n';
 import type ClaudianPlugin from '../../../main';
 import { confirmDelete } from '../../../shared/modals/ConfirmModal';
 import { validateAgentName } from '../../../utils/agent';
+import { AgentTestPane } from './AgentTestPane';
 
 const MODEL_OPTIONS = [
   { value: 'inherit', label: 'Inherit' },
@@ -14,10 +23,93 @@ const MODEL_OPTIONS = [
   { value: 'haiku', label: 'Haiku' },
 ] as const;
 
+let pickerCount = 0;
+
+/** Chips for a list of names, with an input that suggests known names and accepts comma-separated entries. */
+class ListPicker {
+  private values: string[];
+  private chipsEl: HTMLElement;
+  private inputEl: HTMLInputElement;
+  private datalistEl: HTMLDataListElement;
+  private check: (value: string) => string | null = () => null;
+
+  constructor(containerEl: HTMLElement, values: string[] | undefined, private onChange: () => void) {
+    this.values = [...(values ?? [])];
+    const listId = `claudian-agent-picker-${++pickerCount}`;
+
+    const pickerEl = containerEl.createDiv({ cls: 'claudian-agent-picker' });
+    this.chipsEl = pickerEl.createDiv({ cls: 'claudian-agent-picker-chips' });
+    this.inputEl = pickerEl.createEl('input', { type: 'text', attr: { list: listId, placeholder: t('settings.subagents.modal.addPlaceholder') } });
+    this.datalistEl = pickerEl.createEl('datalist', { attr: { id: listId } });
+
+    this.inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.commitInput();
+      }
+    });
+    this.inputEl.addEventListener('change', () => this.commitInput());
+    this.renderChips();
+  }
+
+  getValues(): string[] | undefined {
+    return this.values.length > 0 ? [...this.values] : undefined;
+  }
+
+  setSuggestions(names: string[]): void {
+    this.datalistEl.empty();
+    for (const name of names) {
+      this.datalistEl.createEl('option', { attr: { value: name } });
+    }
+  }
+
+  /** Marks chips for which `check` returns a problem. */
+  setCheck(check: (value: string) => string | null): void {
+    this.check = check;
+    this.renderChips();
+  }
+
+  private commitInput(): void {
+    const entries = this.inputEl.value.split(',').map(s => s.trim()).filter(Boolean);
+    this.inputEl.value = '';
+    const added = entries.filter(entry => !this.values.includes(entry));
+    if (added.length === 0) return;
+    this.values.push(...added);
+    this.renderChips();
+    this.onChange();
+  }
+
+  private renderChips(): void {
+    this.chipsEl.empty();
+    for (const value of this.values) {
+      const chipEl = this.chipsEl.createDiv({ cls: 'claudian-agent-picker-chip' });
+      const problem = this.check(value);
+      if (problem) {
+        chipEl.addClass('is-invalid');
+        chipEl.setAttr('title', problem);
+      }
+      chipEl.createSpan({ text: value });
+
+      const removeEl = chipEl.createSpan({
+        cls: 'claudian-agent-picker-remove',
+        attr: { 'aria-label': t('settings.subagents.modal.remove', { name: value }), role: 'button' },
+      });
+      setIcon(removeEl, 'x');
+      removeEl.addEventListener('click', () => {
+        this.values = this.values.filter(v => v !== value);
+        this.renderChips();
+        this.onChange();
+      });
+    }
+  }
+}
+
 class AgentModal extends Modal {
   private plugin: ClaudianPlugin;
   private existingAgent: AgentDefinition | null;
   private onSave: (agent: AgentDefinition) => Promise<void>;
+  private catalog: AgentToolCatalog = createAgentToolCatalog();
+  private testPane: AgentTestPane | null = null;
 
   constructor(
     app: App,
@@ -44,9 +136,7 @@ class AgentModal extends Modal {
     let nameInput: HTMLInputElement;
     let descInput: HTMLInputElement;
     let modelValue: string = this.existingAgent?.model ?? 'inherit';
-    let toolsInput: HTMLInputElement;
-    let disallowedToolsInput: HTMLInputElement;
-    let skillsInput: HTMLInputElement;
+    let permissionModeValue: AgentPermissionMode | undefined = this.existingAgent?.permissionMode;
 
     new Setting(contentEl)
       .setName(t('settings.subagents.modal.name'))
@@ -72,6 +162,7 @@ class AgentModal extends Modal {
       cls: 'claudian-sp-advanced-summary',
     });
     if ((this.existingAgent?.model && this.existingAgent.model !== 'inherit') ||
+        this.existingAgent?.permissionMode ||
         this.existingAgent?.tools?.length ||
         this.existingAgent?.disallowedTools?.length ||
         this.existingAgent?.skills?.length) {
@@ -91,28 +182,68 @@ class AgentModal extends Modal {
       });
 
     new Setting(details)
-      .setName(t('settings.subagents.modal.tools'))
-      .setDesc(t('settings.subagents.modal.toolsDesc'))
-      .addText(text => {
-        toolsInput = text.inputEl;
-        text.setValue(this.existingAgent?.tools?.join(', ') || '');
+      .setName(t('settings.subagents.modal.permissionMode'))
+      .setDesc(t('settings.subagents.modal.permissionModeDesc'))
+      .addDropdown(dropdown => {
+        dropdown.addOption('', t('settings.subagents.modal.permissionModeDefault'));
+        for (const mode of AGENT_PERMISSION_MODES) {
+          dropdown.addOption(mode, mode);
+        }
+        dropdown
+          .setValue(permissionModeValue ?? '')
+          .onChange(value => {
+            permissionModeValue = (value || undefined) as AgentPermissionMode | undefined;
+            this.testPane?.setPermissionMode(getAgentTestPermissionMode({ permissionMode: permissionModeValue }));
+          });
       });
 
+    const mcpSetting = new Setting(details).setName(t('settings.subagents.modal.mcpTools'));
+
+    new Setting(details)
+      .setName(t('settings.subagents.modal.tools'))
+      .setDesc(t('settings.subagents.modal.toolsDesc'));
+    const toolsPicker = new ListPicker(details, this.existingAgent?.tools, () => updateIssues());
+
     new Setting(details)
       .setName(t('settings.subagents.modal.disallowedTools'))
-      .setDesc(t('settings.subagents.modal.disallowedToolsDesc'))
-      .addText(text => {
-        disallowedToolsInput = text.inputEl;
-        text.setValue(this.existingAgent?.disallowedTools?.join(', ') || '');
-      });
+      .setDesc(t('settings.subagents.modal.disallowedToolsDesc'));
+    const disallowedToolsPicker = new ListPicker(details, this.existingAgent?.disallowedTools, () => updateIssues());
+
+    const issuesEl = details.createDiv({ cls: 'claudian-agent-tool-issues' });
 
     new Setting(details)
       .setName(t('settings.subagents.modal.skills'))
-      .setDesc(t('settings.subagents.modal.skillsDesc'))
-      .addText(text => {
-        skillsInput = text.inputEl;
-        text.setValue(this.existingAgent?.skills?.join(', ') || '');
-      });
+      .setDesc(t('settings.subagents.modal.skillsDesc'));
+    const skillsPicker = new ListPicker(details, this.existingAgent?.skills, () => {});
+
+    const updateIssues = () => {
+      const check = (tool: string) => checkAgentTool(tool, this.catalog);
+      toolsPicker.setCheck(check);
+      disallowedToolsPicker.setCheck(check);
+
+      const problems = [...(toolsPicker.getValues() ?? []), ...(disallowedToolsPicker.getValues() ?? [])]
+        .map(check)
+        .filter((problem): problem is string => problem !== null);
+      issuesEl.empty();
+      for (const problem of new Set(problems)) {
+        issuesEl.createDiv({ text: problem });
+      }
+      if (problems.length > 0) details.open = true;
+    };
+
+    const updateCatalog = () => {
+      this.catalog = this.buildToolCatalog();
+      const suggestions = listCatalogTools(this.catalog);
+      toolsPicker.setSuggestions(suggestions);
+      disallowedToolsPicker.setSuggestions(suggestions);
+      this.renderMcpStatus(mcpSetting, updateCatalog);
+      updateIssues();
+    };
+    updateCatalog();
+
+    void this.plugin.storage.skills.loadAll().then(skills => {
+      skillsPicker.setSuggestions(skills.map(skill => skill.name));
+    });
 
     new Setting(contentEl)
       .setName(t('settings.subagents.modal.prompt'))
@@ -127,69 +258,83 @@ class AgentModal extends Modal {
     });
     contentArea.value = this.existingAgent?.prompt || '';
 
-    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
-
-    const cancelBtn = buttonContainer.createEl('button', {
-      text: t('common.cancel'),
-      cls: 'claudian-cancel-btn',
-    });
-    cancelBtn.addEventListener('click', () => this.close());
-
-    const saveBtn = buttonContainer.createEl('button', {
-      text: t('common.save'),
-      cls: 'claudian-save-btn',
-    });
-    saveBtn.addEventListener('click', async () => {
+    const readAgent = (): AgentDefinition | null => {
       const name = nameInput.value.trim();
       const nameError = validateAgentName(name);
       if (nameError) {
         new Notice(nameError);
-        return;
+        return null;
       }
 
       const description = descInput.value.trim();
       if (!description) {
         new Notice(t('settings.subagents.descriptionRequired'));
-        return;
+        return null;
       }
 
       const prompt = contentArea.value;
       if (!prompt.trim()) {
         new Notice(t('settings.subagents.promptRequired'));
-        return;
-      }
-
-      const allAgents = this.plugin.agentManager.getAvailableAgents();
-      const duplicate = allAgents.find(
-        a => a.id.toLowerCase() === name.toLowerCase() &&
-             a.id !== this.existingAgent?.id
-      );
-      if (duplicate) {
-        new Notice(t('settings.subagents.duplicateName', { name }));
-        return;
+        return null;
       }
 
-      const parseList = (input: HTMLInputElement): string[] | undefined => {
-        const val = input.value.trim();
-        if (!val) return undefined;
-        return val.split(',').map(s => s.trim()).filter(Boolean);
-      };
-
-      const agent: AgentDefinition = {
+      return {
         id: name,
         name,
         description,
         prompt,
-        tools: parseList(toolsInput),
-        disallowedTools: parseList(disallowedToolsInput),
+        tools: toolsPicker.getValues(),
+        disallowedTools: disallowedToolsPicker.getValues(),
         model: (modelValue as AgentDefinition['model']) || 'inherit',
         source: 'vault',
         filePath: this.existingAgent?.filePath,
-        skills: parseList(skillsInput),
-        permissionMode: this.existingAgent?.permissionMode,
+        skills: skillsPicker.getValues(),
+        permissionMode: permissionModeValue,
         hooks: this.existingAgent?.hooks,
         extraFrontmatter: this.existingAgent?.extraFrontmatter,
       };
+    };
+
+    const testDetails = contentEl.createEl('details', { cls: 'claudian-sp-advanced-section' });
+    testDetails.createEl('summary', { text: t('settings.subagents.test.title'), cls: 'claudian-sp-advanced-summary' });
+    this.testPane = new AgentTestPane(
+      testDetails,
+      this.plugin,
+      () => {
+        const agent = readAgent();
+        return agent && {
+          agent,
+          mcpServers: getAgentMcpServers(agent, this.catalog),
+        };
+      },
+      getAgentTestPermissionMode({ permissionMode: permissionModeValue })
+    );
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: t('common.cancel'),
+      cls: 'claudian-cancel-btn',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', {
+      text: t('common.save'),
+      cls: 'claudian-save-btn',
+    });
+    saveBtn.addEventListener('click', async () => {
+      const agent = readAgent();
+      if (!agent) return;
+
+      const allAgents = this.plugin.agentManager.getAvailableAgents();
+      const duplicate = allAgents.find(
+        a => a.id.toLowerCase() === agent.name.toLowerCase() &&
+             a.id !== this.existingAgent?.id
+      );
+      if (duplicate) {
+        new Notice(t('settings.subagents.duplicateName', { name: agent.name }));
+        return;
+      }
 
       try {
         await this.onSave(agent);
@@ -203,8 +348,43 @@ class AgentModal extends Modal {
   }
 
   onClose() {
+    this.testPane?.cancel();
+    this.testPane = null;
     this.contentEl.empty();
   }
+
+  /** Built-in tools plus the tools of enabled MCP servers that have been listed. */
+  private buildToolCatalog(): AgentToolCatalog {
+    const mcp: Record<string, string[] | null> = {};
+    for (const server of this.plugin.mcpManager.getServers()) {
+      if (!server.enabled) continue;
+      mcp[server.name] = this.plugin.mcpManager.getCachedTools(server.name)?.map(tool => tool.name) ?? null;
+    }
+    return createAgentToolCatalog(mcp);
+  }
+
+  private renderMcpStatus(setting: Setting, onListed: () => void): void {
+    const servers = Object.keys(this.catalog.mcp);
+    const unlisted = servers.filter(name => this.catalog.mcp[name] === null);
+    setting.settingEl.toggle(servers.length > 0);
+    setting.setDesc(unlisted.length === 0
+      ? t('settings.subagents.modal.mcpToolsAllListed', { count: servers.length })
+      : t('settings.subagents.modal.mcpToolsUnlisted', { unlisted: unlisted.length, count: servers.length }));
+    setting.controlEl.empty();
+    if (unlisted.length === 0) return;
+
+    setting.addButton(button => button
+      .setButtonText(t('settings.subagents.modal.listTools'))
+      .onClick(async () => {
+        button.setDisabled(true).setButtonText(t('settings.subagents.modal.listingTools'));
+        const results = await Promise.all(unlisted.map(name => this.plugin.mcpManager.listTools(name)));
+        const failed = unlisted.filter((_, i) => !results[i].success);
+        if (failed.length > 0) {
+          new Notice(t('settings.subagents.modal.listToolsFailed', { servers: failed.join(', ') }));
+        }
+        onListed();
+      }));
+  }
 }
 
 export class AgentSettings {
@@ -0,0 +1,187 @@
+import { Notice, setIcon } from 'obsidian';
+
+import { AgentTestRunner } from '../../../core/agents';
+import type { AgentDefinition, PermissionMode, StreamChunk } from '../../../core/types';
+import { t, type TranslationKey } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+
+const PERMISSION_OPTIONS: Array<[PermissionMode, TranslationKey]> = [
+  ['normal', 'settings.subagents.test.permissionNormal'],
+  ['plan', 'settings.subagents.test.permissionPlan'],
+  ['yolo', 'settings.subagents.test.permissionYolo'],
+];
+
+const MAX_RESULT_LENGTH = 600;
+
+export interface AgentTestDraft {
+  agent: AgentDefinition;
+  mcpServers: Set<string>;
+}
+
+/**
+ * "Try it" pane of the agent builder: runs the current draft against a sample
+ * prompt in a cold-start query and streams the transcript.
+ */
+export class AgentTestPane {
+  private runner: AgentTestRunner;
+  private promptInput: HTMLTextAreaElement;
+  private permissionSelect: HTMLSelectElement;
+  private runBtn: HTMLButtonElement;
+  private statusEl: HTMLElement;
+  private transcriptEl: HTMLElement;
+  private textEl: HTMLElement | null = null;
+
+  /** @param getDraft Returns the draft to run, or null (after showing a Notice) when it is incomplete. */
+  constructor(
+    containerEl: HTMLElement,
+    plugin: ClaudianPlugin,
+    private getDraft: () => AgentTestDraft | null,
+    defaultPermissionMode: PermissionMode
+  ) {
+    this.runner = new AgentTestRunner(plugin);
+
+    const paneEl = containerEl.createDiv({ cls: 'claudian-agent-test' });
+    paneEl.createDiv({
+      cls: 'setting-item-description',
+      text: t('settings.subagents.test.desc'),
+    });
+
+    this.promptInput = paneEl.createEl('textarea', {
+      cls: 'claudian-sp-content-area',
+      attr: { rows: '3', placeholder: t('settings.subagents.test.promptPlaceholder') },
+    });
+
+    const controlsEl = paneEl.createDiv({ cls: 'claudian-agent-test-controls' });
+    this.permissionSelect = controlsEl.createEl('select', {
+      cls: 'dropdown',
+      attr: { 'aria-label': t('settings.subagents.modal.permissionMode') },
+    });
+    for (const [mode, labelKey] of PERMISSION_OPTIONS) {
+      const option = this.permissionSelect.createEl('option', { text: t(labelKey), attr: { value: mode } });
+      option.selected = mode === defaultPermissionMode;
+    }
+
+    this.statusEl = controlsEl.createSpan({ cls: 'claudian-agent-test-status' });
+
+    this.runBtn = controlsEl.createEl('button', { cls: 'mod-cta', text: t('settings.subagents.test.run') });
+    this.runBtn.addEventListener('click', () => {
+      if (this.runner.isRunning()) {
+        this.runner.cancel();
+      } else {
+        void this.run();
+      }
+    });
+
+    this.transcriptEl = paneEl.createDiv({ cls: 'claudian-agent-test-transcript' });
+    this.transcriptEl.hide();
+  }
+
+  setPermissionMode(mode: PermissionMode): void {
+    if (!this.runner.isRunning()) {
+      this.permissionSelect.value = mode;
+    }
+  }
+
+  /** Stops a run in progress (modal closed). */
+  cancel(): void {
+    this.runner.cancel();
+  }
+
+  private async run(): Promise<void> {
+    const prompt = this.promptInput.value.trim();
+    if (!prompt) {
+      new Notice(t('settings.subagents.test.promptRequired'));
+      return;
+    }
+    const draft = this.getDraft();
+    if (!draft) return;
+
+    this.transcriptEl.empty();
+    this.transcriptEl.show();
+    this.textEl = null;
+    this.setRunning(true);
+
+    const result = await this.runner.run(
+      {
+        agent: draft.agent,
+        prompt,
+        permissionMode: this.permissionSelect.value as PermissionMode,
+        mcpServers: draft.mcpServers,
+      },
+      (chunk) => this.renderChunk(chunk)
+    );
+
+    this.setRunning(false);
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    if (result.cancelled) {
+      this.statusEl.setText(t('settings.subagents.test.stopped', { seconds }));
+    } else if (result.error) {
+      this.statusEl.setText(t('settings.subagents.test.failed', { seconds }));
+    } else {
+      this.statusEl.setText(t('settings.subagents.test.finished', { seconds }));
+    }
+  }
+
+  private setRunning(running: boolean): void {
+    this.runBtn.setText(t(running ? 'settings.subagents.test.stop' : 'settings.subagents.test.run'));
+    this.runBtn.toggleClass('mod-cta', !running);
+    this.runBtn.toggleClass('mod-warning', running);
+    this.permissionSelect.disabled = running;
+    if (running) this.statusEl.setText(t('settings.subagents.test.running'));
+  }
+
+  private renderChunk(chunk: StreamChunk): void {
+    // Subagents the agent delegates to are shown indented under its own turns
+    const nested = 'parentToolUseId' in chunk && !!chunk.parentToolUseId;
+
+    switch (chunk.type) {
+      case 'text':
+        if (!this.textEl || this.textEl.hasClass('is-nested') !== nested) {
+          this.textEl = this.createEntry('claudian-agent-test-text', nested);
+        }
+        this.textEl.appendText(chunk.content);
+        break;
+      case 'tool_use':
+        this.textEl = null;
+        this.renderToolUse(chunk.name, chunk.input, nested);
+        break;
+      case 'tool_result': {
+        this.textEl = null;
+        const entryEl = this.createEntry('claudian-agent-test-result', nested);
+        entryEl.toggleClass('is-error', !!chunk.isError);
+        entryEl.setText(chunk.content.length > MAX_RESULT_LENGTH
+          ? `${chunk.content.slice(0, MAX_RESULT_LENGTH)}…`
+          : chunk.content);
+        break;
+      }
+      case 'error':
+      case 'blocked':
+        this.textEl = null;
+        this.createEntry('claudian-agent-test-result is-error', false).setText(chunk.content);
+        break;
+      default:
+        return;
+    }
+    this.transcriptEl.scrollTop = this.transcriptEl.scrollHeight;
+  }
+
+  private renderToolUse(name: string, input: Record<string, unknown>, nested: boolean): void {
+    const entryEl = this.createEntry('claudian-agent-test-tool', nested);
+    const iconEl = entryEl.createSpan({ cls: 'claudian-agent-test-tool-icon' });
+    setIcon(iconEl, 'wrench');
+    entryEl.createSpan({ cls: 'claudian-agent-test-tool-name', text: name });
+    const summary = JSON.stringify(input);
+    if (summary && summary !== '{}') {
+      entryEl.createSpan({
+        cls: 'claudian-agent-test-tool-input',
+        text: summary.length > 160 ? `${summary.slice(0, 160)}…` : summary,
+      });
+    }
+  }
+
+  private createEntry(cls: string, nested: boolean): HTMLElement {
+    const entryEl = this.transcriptEl.createDiv({ cls: `claudian-agent-test-entry ${cls}` });
+    if (nested) entryEl.addClass('is-nested');
+    return entryEl;
+  }
+}
@@ -0,0 +1,180 @@
+import { setIcon } from 'obsidian';
+
+import { filterAuditEntries, getActionDescription } from '../../../core/security';
+import type { AuditDecision, AuditDecisionSource, AuditEntry } from '../../../core/types';
+import { t } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+
+/** Entries rendered at once; narrow the filters to see older ones. */
+const MAX_VISIBLE_ENTRIES = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+const SOURCE_LABELS: Record<AuditDecisionSource, string> = {
+  'rule': 'Rule',
+  'permission-mode': 'Permission mode',
+  'user': 'User',
+  'blocklist': 'Blocklist',
+  'vault-restriction': 'Vault restriction',
+  'unattended': 'Unattended run',
+  'tool-restriction': 'Tool not allowed',
+  'dry-run': 'Staged (dry run)',
+  'mcp-tool-selection': 'MCP tool off',
+  'plugin-component': 'Plugin component off',
+};
+
+function startOfDay(timestamp: number, daysBack: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime() - (daysBack - 1) * DAY_MS;
+}
+
+export class AuditLogViewer {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private entries: AuditEntry[] = [];
+  private rangeDays = 7;
+  private toolFilter = '';
+  private decisionFilter: AuditDecision | '' = '';
+  private expanded = new Set<AuditEntry>();
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    void this.loadAndRender();
+  }
+
+  private async loadAndRender(): Promise<void> {
+    const since = startOfDay(Date.now(), this.rangeDays);
+    const days = (await this.plugin.storage.audit.listDays())
+      .filter(day => new Date(`${day}T00:00:00`).getTime() >= since);
+
+    const entries: AuditEntry[] = [];
+    for (const day of days) {
+      entries.push(...await this.plugin.storage.audit.loadDay(day));
+    }
+    this.entries = entries;
+    this.expanded.clear();
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: t('settings.auditLog.viewer'), cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const refreshBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Refresh' },
+    });
+    setIcon(refreshBtn, 'refresh-cw');
+    refreshBtn.addEventListener('click', () => void this.loadAndRender());
+
+    this.renderFilters();
+
+    const filtered = filterAuditEntries(this.entries, {
+      toolName: this.toolFilter,
+      decision: this.decisionFilter || undefined,
+      since: startOfDay(Date.now(), this.rangeDays),
+    });
+
+    if (filtered.length === 0) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-sp-empty-state' });
+      emptyEl.setText(this.entries.length === 0
+        ? 'No tool calls recorded in this period.'
+        : 'No tool calls match the filters.');
+      return;
+    }
+
+    if (filtered.length > MAX_VISIBLE_ENTRIES) {
+      this.containerEl.createDiv({
+        text: `Showing the latest ${MAX_VISIBLE_ENTRIES} of ${filtered.length} entries`,
+        cls: 'claudian-sp-item-desc',
+      });
+    }
+
+    const titles = new Map(this.plugin.getConversationList().map(c => [c.id, c.title]));
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-audit-list' });
+    for (const entry of filtered.slice(0, MAX_VISIBLE_ENTRIES)) {
+      this.renderEntry(listEl, entry, titles);
+    }
+  }
+
+  private renderFilters(): void {
+    const filtersEl = this.containerEl.createDiv({ cls: 'claudian-audit-filters' });
+
+    const rangeSelect = filtersEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Period' } });
+    for (const option of RANGE_OPTIONS) {
+      rangeSelect.createEl('option', { text: option.label, value: String(option.days) });
+    }
+    rangeSelect.value = String(this.rangeDays);
+    rangeSelect.addEventListener('change', () => {
+      this.rangeDays = Number(rangeSelect.value);
+      void this.loadAndRender();
+    });
+
+    const toolSelect = filtersEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Tool' } });
+    toolSelect.createEl('option', { text: 'All tools', value: '' });
+    const tools = [...new Set(this.entries.map(e => e.toolName))].sort();
+    if (this.toolFilter && !tools.includes(this.toolFilter)) tools.push(this.toolFilter);
+    for (const tool of tools) {
+      toolSelect.createEl('option', { text: tool, value: tool });
+    }
+    toolSelect.value = this.toolFilter;
+    toolSelect.addEventListener('change', () => {
+      this.toolFilter = toolSelect.value;
+      this.render();
+    });
+
+    const decisionSelect = filtersEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Decision' } });
+    decisionSelect.createEl('option', { text: 'All decisions', value: '' });
+    decisionSelect.createEl('option', { text: 'Allowed', value: 'allow' });
+    decisionSelect.createEl('option', { text: 'Denied', value: 'deny' });
+    decisionSelect.value = this.decisionFilter;
+    decisionSelect.addEventListener('change', () => {
+      this.decisionFilter = decisionSelect.value as AuditDecision | '';
+      this.render();
+    });
+  }
+
+  private renderEntry(listEl: HTMLElement, entry: AuditEntry, titles: Map<string, string>): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-audit-item' });
+
+    const rowEl = itemEl.createDiv({ cls: 'claudian-audit-row' });
+    rowEl.createSpan({ text: new Date(entry.timestamp).toLocaleString(), cls: 'claudian-audit-time' });
+    rowEl.createSpan({
+      text: entry.decision === 'allow' ? 'Allowed' : 'Denied',
+      cls: `claudian-audit-badge claudian-audit-badge-${entry.decision}`,
+    });
+    rowEl.createSpan({ text: entry.toolName, cls: 'claudian-audit-tool' });
+    rowEl.createSpan({ text: getActionDescription(entry.toolName, entry.input), cls: 'claudian-audit-action' });
+
+    const details = [SOURCE_LABELS[entry.source]];
+    if (entry.rule) details.push(entry.rule);
+    if (entry.conversationId) details.push(titles.get(entry.conversationId) ?? entry.conversationId);
+    itemEl.createDiv({ text: details.join(' · '), cls: 'claudian-sp-item-desc' });
+    if (entry.reason) {
+      itemEl.createDiv({ text: entry.reason, cls: 'claudian-sp-item-desc claudian-audit-reason' });
+    }
+
+    if (this.expanded.has(entry)) {
+      itemEl.createEl('pre', { text: JSON.stringify(entry.input, null, 2), cls: 'claudian-audit-input' });
+    }
+    rowEl.addEventListener('click', () => {
+      if (this.expanded.has(entry)) {
+        this.expanded.delete(entry);
+      } else {
+        this.expanded.add(entry);
+      }
+      this.render();
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { setIcon } from 'obsidian';
+
+import { type InvocationStats, summarizeInvocations, toDayKey } from '../../../core/usage';
+import { t, type TranslationKey } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+import { formatDurationMmSs } from '../../../utils/date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_OPTIONS: { days: number; labelKey: TranslationKey }[] = [
+  { days: 7, labelKey: 'settings.invocations.last7Days' },
+  { days: 30, labelKey: 'settings.invocations.last30Days' },
+  { days: 90, labelKey: 'settings.invocations.last90Days' },
+];
+
+const COLUMN_KEYS: TranslationKey[] = [
+  'settings.invocations.calls',
+  'settings.invocations.errors',
+  'settings.invocations.avgTime',
+  'settings.invocations.avgTools',
+  'settings.invocations.lastUsed',
+];
+
+/** Per-agent and per-skill invocation statistics from the invocation log. */
+export class InvocationStatsView {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private rangeDays = 30;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    void this.loadAndRender();
+  }
+
+  private async loadAndRender(): Promise<void> {
+    const sinceDay = toDayKey(Date.now() - (this.rangeDays - 1) * DAY_MS);
+    const [records, skills] = await Promise.all([
+      this.plugin.storage.invocations.loadSince(sinceDay),
+      this.plugin.storage.skills.loadAll(),
+    ]);
+    const agents = this.plugin.agentManager.getAvailableAgents()
+      .filter(agent => agent.source !== 'builtin')
+      .map(agent => agent.id);
+
+    const summary = summarizeInvocations(records, { agents, skills: skills.map(skill => skill.name) });
+    this.render(summary.agents, summary.skills);
+  }
+
+  private render(agents: InvocationStats[], skills: InvocationStats[]): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: t('settings.invocations.name'), cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const rangeSelect = actionsEl.createEl('select', {
+      cls: 'dropdown',
+      attr: { 'aria-label': t('settings.invocations.period') },
+    });
+    for (const option of RANGE_OPTIONS) {
+      rangeSelect.createEl('option', { text: t(option.labelKey), value: String(option.days) });
+    }
+    rangeSelect.value = String(this.rangeDays);
+    rangeSelect.addEventListener('change', () => {
+      this.rangeDays = Number(rangeSelect.value);
+      void this.loadAndRender();
+    });
+
+    const refreshBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': t('common.refresh') },
+    });
+    setIcon(refreshBtn, 'refresh-cw');
+    refreshBtn.addEventListener('click', () => void this.loadAndRender());
+
+    if (agents.length === 0 && skills.length === 0) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-sp-empty-state' });
+      emptyEl.setText(t('settings.invocations.empty'));
+      return;
+    }
+
+    this.renderTable(t('settings.invocations.agents'), agents);
+    this.renderTable(t('settings.invocations.skills'), skills);
+  }
+
+  private renderTable(title: string, rows: InvocationStats[]): void {
+    if (rows.length === 0) return;
+
+    const sectionEl = this.containerEl.createDiv({ cls: 'claudian-usage-section' });
+    sectionEl.createDiv({ text: title, cls: 'claudian-usage-section-header' });
+
+    const tableEl = sectionEl.createEl('table', { cls: 'claudian-usage-table claudian-invocation-table' });
+    const headRow = tableEl.createEl('thead').createEl('tr');
+    for (const label of ['', ...COLUMN_KEYS.map(key => t(key))]) {
+      headRow.createEl('th', { text: label });
+    }
+
+    const bodyEl = tableEl.createEl('tbody');
+    for (const row of rows) {
+      const rowEl = bodyEl.createEl('tr');
+      if (row.count === 0) rowEl.addClass('is-unused');
+
+      rowEl.createEl('td', { text: row.name, cls: 'claudian-usage-label', attr: { title: row.name } });
+      rowEl.createEl('td', { text: String(row.count) });
+
+      const errorsEl = rowEl.createEl('td', {
+        text: row.errors > 0 ? `${row.errors} (${Math.round((row.errors / row.count) * 100)}%)` : '–',
+      });
+      if (row.errors > 0) {
+        errorsEl.addClass('claudian-invocation-errors');
+        if (row.lastError) errorsEl.setAttr('title', t('settings.invocations.lastError', { error: row.lastError }));
+      }
+
+      rowEl.createEl('td', { text: row.count > 0 ? formatDurationMmSs(Math.round(row.avgDurationMs / 1000)) : '–' });
+      rowEl.createEl('td', {
+        text: row.kind === 'agent' && row.count > 0 ? row.avgToolCount.toFixed(1) : '–',
+      });
+      rowEl.createEl('td', {
+        text: row.lastUsedAt !== null ? new Date(row.lastUsedAt).toLocaleDateString() : t('settings.invocations.never'),
+      });
+    }
+  }
+}
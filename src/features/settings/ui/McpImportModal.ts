@@ -0,0 +1,156 @@
+import type { App } from 'obsidian';
+import { Modal, Notice } from 'obsidian';
+
+import {
+  formatMcpConfig,
+  type McpImportPlanEntry,
+  type McpImportSource,
+  planMcpImport,
+} from '../../../core/mcp';
+import type { ClaudianMcpServer } from '../../../core/types';
+import { computeLineDiff } from '../../../utils/diff';
+import { renderDiffContent } from '../../chat/rendering/DiffRenderer';
+
+const ACTION_LABELS: Record<McpImportPlanEntry['action'], string> = {
+  add: 'New',
+  overwrite: 'Overwrite',
+  unchanged: 'Unchanged',
+};
+
+/** Previews servers found in another client's config as a diff against the current ones. */
+export class McpImportModal extends Modal {
+  private sources: McpImportSource[];
+  private existing: ClaudianMcpServer[];
+  private onImport: (entries: McpImportPlanEntry[]) => Promise<void>;
+  private sourceIndex = 0;
+  private plan: McpImportPlanEntry[] = [];
+  private selected = new Set<string>();
+  private importBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    sources: McpImportSource[],
+    existing: ClaudianMcpServer[],
+    onImport: (entries: McpImportPlanEntry[]) => Promise<void>
+  ) {
+    super(app);
+    this.sources = sources;
+    this.existing = existing;
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    this.setTitle('Import MCP servers');
+    this.modalEl.addClass('claudian-mcp-import-modal');
+
+    if (this.sources.length === 0) {
+      this.contentEl.createDiv({
+        cls: 'claudian-mcp-import-empty',
+        text: 'No MCP servers found in ~/.claude.json, .mcp.json, Claude Desktop, Cursor, VS Code or Windsurf configs.',
+      });
+      return;
+    }
+
+    this.selectSource(0);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private selectSource(index: number) {
+    this.sourceIndex = index;
+    this.plan = planMcpImport(this.existing, this.sources[index].servers);
+    // New servers are selected by default; overwrites are opt-in
+    this.selected = new Set(this.plan.filter((entry) => entry.action === 'add').map((entry) => entry.name));
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    const source = this.sources[this.sourceIndex];
+
+    const sourceRow = contentEl.createDiv({ cls: 'claudian-mcp-import-source' });
+    const select = sourceRow.createEl('select', { cls: 'dropdown' });
+    this.sources.forEach((s, index) => {
+      const option = select.createEl('option', {
+        text: `${s.label} (${s.servers.length})`,
+        attr: { value: String(index) },
+      });
+      if (index === this.sourceIndex) option.selected = true;
+    });
+    select.addEventListener('change', () => this.selectSource(Number(select.value)));
+    sourceRow.createDiv({ cls: 'claudian-mcp-import-path', text: source.filePath });
+
+    if (source.skipped.length > 0) {
+      contentEl.createDiv({
+        cls: 'claudian-mcp-import-skipped',
+        text: `Skipped (invalid name or config): ${source.skipped.join(', ')}`,
+      });
+    }
+
+    const listEl = contentEl.createDiv({ cls: 'claudian-mcp-import-list' });
+    for (const entry of this.plan) {
+      this.renderEntry(listEl, entry);
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-mcp-buttons' });
+    const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+    this.importBtn = buttonContainer.createEl('button', { cls: 'mod-cta' });
+    this.importBtn.addEventListener('click', () => this.handleImport());
+    this.updateImportButton();
+  }
+
+  private renderEntry(listEl: HTMLElement, entry: McpImportPlanEntry) {
+    const itemEl = listEl.createDiv({ cls: `claudian-mcp-import-item is-${entry.action}` });
+    const headerEl = itemEl.createDiv({ cls: 'claudian-mcp-import-item-header' });
+
+    const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.selected.has(entry.name);
+    checkbox.disabled = entry.action === 'unchanged';
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selected.add(entry.name);
+      } else {
+        this.selected.delete(entry.name);
+      }
+      this.updateImportButton();
+    });
+
+    headerEl.createSpan({ cls: 'claudian-mcp-import-name', text: entry.name });
+    headerEl.createSpan({
+      cls: `claudian-mcp-import-badge is-${entry.action}`,
+      text: ACTION_LABELS[entry.action],
+    });
+
+    if (entry.action === 'unchanged') return;
+
+    const diffLines = computeLineDiff(
+      entry.existing ? formatMcpConfig(entry.existing) : null,
+      formatMcpConfig(entry.config)
+    );
+    const diffEl = itemEl.createDiv({ cls: 'claudian-mcp-import-diff' });
+    renderDiffContent(diffEl, diffLines, Number.MAX_SAFE_INTEGER);
+  }
+
+  private updateImportButton() {
+    if (!this.importBtn) return;
+    const count = this.selected.size;
+    this.importBtn.setText(count > 0 ? `Import ${count} server${count > 1 ? 's' : ''}` : 'Import');
+    this.importBtn.disabled = count === 0;
+  }
+
+  private async handleImport() {
+    const entries = this.plan.filter((entry) => this.selected.has(entry.name) && entry.action !== 'unchanged');
+    if (entries.length === 0) return;
+
+    try {
+      await this.onImport(entries);
+      this.close();
+    } catch (error) {
+      new Notice(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon } from 'obsidian';
+
+import { formatSecretReference, SECRET_NAME_PATTERN } from '../../../core/mcp';
+import type { SecretStorage } from '../../../core/storage';
+
+/** Manages the per-device secrets that MCP env and header values reference as `${secret:NAME}`. */
+export class McpSecretsModal extends Modal {
+  private secrets: SecretStorage;
+  private onChange: () => void;
+  private listEl: HTMLElement | null = null;
+
+  constructor(app: App, secrets: SecretStorage, onChange: () => void) {
+    super(app);
+    this.secrets = secrets;
+    this.onChange = onChange;
+  }
+
+  onOpen() {
+    this.setTitle('MCP secrets');
+    this.modalEl.addClass('claudian-mcp-secrets-modal');
+
+    this.contentEl.createDiv({
+      cls: 'claudian-mcp-secrets-hint',
+      text: 'Secrets are stored on this device only and are not synced with the vault. '
+        + 'Reference them in server env or header values as ${secret:NAME}.',
+    });
+
+    this.listEl = this.contentEl.createDiv({ cls: 'claudian-mcp-secrets-list' });
+    this.renderList();
+
+    const formEl = this.contentEl.createDiv({ cls: 'claudian-mcp-secrets-form' });
+    const nameInput = formEl.createEl('input', { type: 'text', attr: { placeholder: 'NAME' } });
+    const valueInput = formEl.createEl('input', { type: 'password', attr: { placeholder: 'Value' } });
+    const saveBtn = formEl.createEl('button', { cls: 'mod-cta', text: 'Save' });
+    saveBtn.addEventListener('click', () => {
+      const name = nameInput.value.trim();
+      if (!SECRET_NAME_PATTERN.test(name)) {
+        new Notice('Secret names may only contain letters, numbers, dots, dashes and underscores');
+        return;
+      }
+      if (!valueInput.value) {
+        new Notice('Enter a value for the secret');
+        return;
+      }
+      this.secrets.setSecret(name, valueInput.value);
+      nameInput.value = '';
+      valueInput.value = '';
+      this.renderList();
+      this.onChange();
+    });
+  }
+
+  onClose() {
+    this.listEl = null;
+    this.contentEl.empty();
+  }
+
+  private renderList() {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const names = this.secrets.listSecretNames();
+    if (names.length === 0) {
+      this.listEl.createDiv({ cls: 'claudian-mcp-secrets-empty', text: 'No secrets stored on this device.' });
+      return;
+    }
+
+    for (const name of names) {
+      const itemEl = this.listEl.createDiv({ cls: 'claudian-mcp-secrets-item' });
+      itemEl.createSpan({ cls: 'claudian-mcp-secrets-name', text: formatSecretReference(name) });
+
+      const copyBtn = itemEl.createEl('button', {
+        cls: 'claudian-mcp-action-btn',
+        attr: { 'aria-label': 'Copy reference' },
+      });
+      setIcon(copyBtn, 'copy');
+      copyBtn.addEventListener('click', () => {
+        void navigator.clipboard.writeText(formatSecretReference(name));
+        new Notice('Reference copied');
+      });
+
+      const deleteBtn = itemEl.createEl('button', {
+        cls: 'claudian-mcp-action-btn claudian-mcp-delete-btn',
+        attr: { 'aria-label': 'Delete' },
+      });
+      setIcon(deleteBtn, 'trash-2');
+      deleteBtn.addEventListener('click', () => {
+        this.secrets.deleteSecret(name);
+        this.renderList();
+        this.onChange();
+      });
+    }
+  }
+}
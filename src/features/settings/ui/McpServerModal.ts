@@ -176,14 +176,14 @@ export class McpServerModal extends Modal {
 
     const envSetting = new Setting(this.typeFieldsEl)
       .setName('Environment variables')
-      .setDesc('KEY=VALUE per line (optional)');
+      .setDesc('KEY=VALUE per line (optional). Use ${secret:NAME} for values stored on this device.');
     envSetting.settingEl.addClass('claudian-mcp-env-setting');
 
     const envTextarea = envSetting.controlEl.createEl('textarea', {
       cls: 'claudian-mcp-env-textarea',
     });
     envTextarea.value = this.env;
-    envTextarea.placeholder = 'API_KEY=your-key';
+    envTextarea.placeholder = 'API_KEY=${secret:API_KEY}';
     envTextarea.rows = 2;
     envTextarea.addEventListener('input', () => {
       this.env = envTextarea.value;
@@ -207,14 +207,14 @@ export class McpServerModal extends Modal {
 
     const headersSetting = new Setting(this.typeFieldsEl)
       .setName('Headers')
-      .setDesc('HTTP headers (KEY=VALUE per line)');
+      .setDesc('HTTP headers (KEY=VALUE per line). Use ${secret:NAME} for values stored on this device.');
     headersSetting.settingEl.addClass('claudian-mcp-env-setting');
 
     const headersTextarea = headersSetting.controlEl.createEl('textarea', {
       cls: 'claudian-mcp-env-textarea',
     });
     headersTextarea.value = this.headers;
-    headersTextarea.placeholder = 'Authorization=Bearer token\nContent-Type=application/json';
+    headersTextarea.placeholder = 'Authorization=Bearer ${secret:API_TOKEN}\nContent-Type=application/json';
     headersTextarea.rows = 3;
     headersTextarea.addEventListener('input', () => {
       this.headers = headersTextarea.value;
@@ -1,10 +1,14 @@
 import { Notice, setIcon } from 'obsidian';
 
+import { discoverMcpImportSources, type McpImportPlanEntry, signInToMcpServer } from '../../../core/mcp';
 import { testMcpServer } from '../../../core/mcp/McpTester';
 import { McpStorage } from '../../../core/storage';
 import type { ClaudianMcpServer, McpServerConfig, McpServerType } from '../../../core/types';
 import { DEFAULT_MCP_SERVER, getMcpServerType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
+import { getVaultPath } from '../../../utils/path';
+import { McpImportModal } from './McpImportModal';
+import { McpSecretsModal } from './McpSecretsModal';
 import { McpServerModal } from './McpServerModal';
 import { McpTestModal } from './McpTestModal';
 
@@ -43,6 +47,15 @@ export class McpSettingsManager {
     const headerEl = this.containerEl.createDiv({ cls: 'claudian-mcp-header' });
     headerEl.createSpan({ text: 'MCP Servers', cls: 'claudian-mcp-label' });
 
+    const secretsBtn = headerEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-mcp-secrets-btn',
+      attr: { 'aria-label': 'Secrets' },
+    });
+    setIcon(secretsBtn, 'key-round');
+    secretsBtn.addEventListener('click', () => {
+      new McpSecretsModal(this.plugin.app, this.plugin.storage.secrets, () => this.render()).open();
+    });
+
     const addContainer = headerEl.createDiv({ cls: 'claudian-mcp-add-container' });
     const addBtn = addContainer.createEl('button', {
       cls: 'claudian-settings-action-btn',
@@ -76,6 +89,14 @@ export class McpSettingsManager {
       this.importFromClipboard();
     });
 
+    const clientsOption = dropdown.createDiv({ cls: 'claudian-mcp-add-option' });
+    setIcon(clientsOption.createSpan({ cls: 'claudian-mcp-add-option-icon' }), 'download');
+    clientsOption.createSpan({ text: 'Import from other clients' });
+    clientsOption.addEventListener('click', () => {
+      dropdown.removeClass('is-visible');
+      this.importFromClients();
+    });
+
     addBtn.addEventListener('click', (e) => {
       e.stopPropagation();
       dropdown.toggleClass('is-visible', !dropdown.hasClass('is-visible'));
@@ -125,6 +146,18 @@ export class McpSettingsManager {
       csEl.setAttribute('title', 'Context-saving: mention with @' + server.name + ' to enable');
     }
 
+    const missingSecrets = this.plugin.mcpManager.getMissingSecrets(server);
+    if (missingSecrets.length > 0) {
+      const missingEl = nameRow.createSpan({ cls: 'claudian-mcp-missing-secret-badge' });
+      missingEl.setText('missing secret');
+      missingEl.setAttribute('title', `Not stored on this device: ${missingSecrets.join(', ')}`);
+    }
+
+    const signedIn = this.plugin.mcpManager.getOAuthState(server) !== null;
+    if (signedIn) {
+      nameRow.createSpan({ cls: 'claudian-mcp-oauth-badge', text: 'signed in' });
+    }
+
     const previewEl = infoEl.createDiv({ cls: 'claudian-mcp-preview' });
     if (server.description) {
       previewEl.setText(server.description);
@@ -141,6 +174,17 @@ export class McpSettingsManager {
     setIcon(testBtn, 'zap');
     testBtn.addEventListener('click', () => this.testServer(server));
 
+    if (serverType !== 'stdio') {
+      const authBtn = actionsEl.createEl('button', {
+        cls: 'claudian-mcp-action-btn',
+        attr: { 'aria-label': signedIn ? 'Sign out' : 'Sign in (OAuth)' },
+      });
+      setIcon(authBtn, signedIn ? 'log-out' : 'log-in');
+      authBtn.addEventListener('click', () => {
+        void (signedIn ? this.signOut(server) : this.signIn(server, authBtn));
+      });
+    }
+
     const toggleBtn = actionsEl.createEl('button', {
       cls: 'claudian-mcp-action-btn',
       attr: { 'aria-label': server.enabled ? 'Disable' : 'Enable' },
@@ -178,13 +222,41 @@ export class McpSettingsManager {
     modal.open();
 
     try {
-      const result = await testMcpServer(server);
+      const result = await testMcpServer(this.plugin.mcpManager.resolveServer(server));
       modal.setResult(result);
     } catch (error) {
       modal.setError(error instanceof Error ? error.message : 'Verification failed');
     }
   }
 
+  /** Runs the OAuth authorization-code flow in the browser and stores the tokens on this device. */
+  private async signIn(server: ClaudianMcpServer, buttonEl: HTMLButtonElement) {
+    const config = server.config as { url: string };
+    buttonEl.disabled = true;
+    new Notice(`Opening the sign-in page for "${server.name}"...`);
+    try {
+      const state = await signInToMcpServer(config.url, {
+        openUrl: (url) => {
+          window.open(url.toString());
+        },
+      });
+      this.plugin.storage.secrets.setOAuthState(server.name, state);
+      await this.broadcastMcpReloadToAllViews();
+      new Notice(`Signed in to "${server.name}"`);
+    } catch (error) {
+      new Notice(`Sign-in to "${server.name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.render();
+    }
+  }
+
+  private async signOut(server: ClaudianMcpServer) {
+    this.plugin.storage.secrets.setOAuthState(server.name, null);
+    await this.broadcastMcpReloadToAllViews();
+    this.render();
+    new Notice(`Signed out of "${server.name}"`);
+  }
+
   /** Rolls back on save failure; warns on reload failure (since save succeeded). */
   private async updateServerDisabledTools(
     server: ClaudianMcpServer,
@@ -296,6 +368,50 @@ export class McpSettingsManager {
     }
   }
 
+  private importFromClients() {
+    const vaultPath = getVaultPath(this.plugin.app);
+    if (!vaultPath) {
+      new Notice('Could not determine vault path');
+      return;
+    }
+
+    const sources = discoverMcpImportSources(vaultPath);
+    new McpImportModal(this.plugin.app, sources, this.servers, async (entries) => {
+      await this.applyImport(entries);
+    }).open();
+  }
+
+  /** Adds new servers and replaces the config of overwritten ones, keeping their Claudian settings. */
+  private async applyImport(entries: McpImportPlanEntry[]) {
+    let added = 0;
+    let overwritten = 0;
+
+    for (const entry of entries) {
+      const current = this.servers.find((s) => s.name === entry.name);
+      if (current) {
+        current.config = entry.config;
+        overwritten++;
+      } else {
+        this.servers.push({
+          name: entry.name,
+          config: entry.config,
+          enabled: DEFAULT_MCP_SERVER.enabled,
+          contextSaving: DEFAULT_MCP_SERVER.contextSaving,
+        });
+        added++;
+      }
+    }
+
+    await this.plugin.storage.mcp.save(this.servers);
+    await this.broadcastMcpReloadToAllViews();
+    this.render();
+
+    const parts: string[] = [];
+    if (added > 0) parts.push(`${added} added`);
+    if (overwritten > 0) parts.push(`${overwritten} overwritten`);
+    new Notice(`Imported MCP servers: ${parts.join(', ')}`);
+  }
+
   private async saveServer(server: ClaudianMcpServer, existing: ClaudianMcpServer | null) {
     if (existing) {
       const index = this.servers.findIndex((s) => s.name === existing.name);
@@ -0,0 +1,365 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import type { PermissionRuleBehavior, PermissionRuleMatch } from '../../../core/security';
+import {
+  buildSampleToolInput,
+  evaluatePermissionRules,
+  PERMISSION_RULE_PRECEDENCE,
+  validatePermissionRule,
+} from '../../../core/security';
+import { TOOL_BASH, TOOL_EDIT, TOOL_GLOB, TOOL_GREP, TOOL_READ, TOOL_WEB_FETCH, TOOL_WRITE } from '../../../core/tools/toolNames';
+import type { CCPermissions, PermissionRule } from '../../../core/types';
+import { createPermissionRule } from '../../../core/types';
+import { t } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+
+const BEHAVIOR_LABELS: Record<PermissionRuleBehavior, string> = {
+  deny: 'Deny',
+  ask: 'Ask',
+  allow: 'Allow',
+};
+
+const BEHAVIOR_DESCRIPTIONS: Record<PermissionRuleBehavior, string> = {
+  deny: 'Always blocked. Checked first.',
+  ask: 'Always asks for approval.',
+  allow: 'Runs without asking.',
+};
+
+/** Tools offered in the rule tester; any other tool name can be typed with JSON input. */
+const TESTER_TOOLS = [TOOL_BASH, TOOL_READ, TOOL_WRITE, TOOL_EDIT, TOOL_GLOB, TOOL_GREP, TOOL_WEB_FETCH];
+
+const SAMPLE_PLACEHOLDERS: Record<string, string> = {
+  [TOOL_BASH]: 'git push origin main',
+  [TOOL_READ]: 'notes/daily.md',
+  [TOOL_WRITE]: 'notes/daily.md',
+  [TOOL_EDIT]: 'notes/daily.md',
+  [TOOL_GLOB]: '**/*.md',
+  [TOOL_GREP]: 'TODO',
+};
+
+function describeMatch(match: PermissionRuleMatch): string {
+  if (match.decision === 'default' || !match.rule) {
+    return 'No rule matches, so the current permission mode decides.';
+  }
+  return `${BEHAVIOR_LABELS[match.decision]} — matched by ${match.rule}`;
+}
+
+export class PermissionRuleModal extends Modal {
+  private existingRule: PermissionRule | null;
+  private behavior: PermissionRuleBehavior;
+  private onSave: (behavior: PermissionRuleBehavior, rule: PermissionRule) => Promise<void>;
+
+  constructor(
+    app: App,
+    existingRule: PermissionRule | null,
+    behavior: PermissionRuleBehavior,
+    onSave: (behavior: PermissionRuleBehavior, rule: PermissionRule) => Promise<void>
+  ) {
+    super(app);
+    this.existingRule = existingRule;
+    this.behavior = behavior;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existingRule ? 'Edit approval rule' : 'Add approval rule');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+    let ruleInput: HTMLInputElement;
+    let behavior = this.behavior;
+
+    new Setting(contentEl)
+      .setName('Behavior')
+      .setDesc('Deny rules are checked first, then ask, then allow')
+      .addDropdown(dropdown => {
+        for (const value of PERMISSION_RULE_PRECEDENCE) {
+          dropdown.addOption(value, BEHAVIOR_LABELS[value]);
+        }
+        dropdown
+          .setValue(behavior)
+          .onChange(value => { behavior = value as PermissionRuleBehavior; });
+      });
+
+    let errorEl: HTMLElement | null = null;
+
+    new Setting(contentEl)
+      .setName('Rule')
+      .setDesc('Tool name, optionally with a pattern: Bash(git *), Read(notes/), WebFetch(domain:example.com)')
+      .addText(text => {
+        ruleInput = text.inputEl;
+        text.setValue(this.existingRule ?? '')
+          .setPlaceholder('Bash(git *)')
+          .onChange(value => {
+            errorEl?.setText(value.trim() ? validatePermissionRule(value) ?? '' : '');
+          });
+        text.inputEl.addClass('claudian-permission-rule-input');
+      });
+
+    errorEl = contentEl.createDiv({ cls: 'claudian-permission-rule-error' });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'claudian-cancel-btn',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', {
+      text: 'Save',
+      cls: 'claudian-save-btn',
+    });
+    saveBtn.addEventListener('click', async () => {
+      const value = ruleInput.value.trim();
+      const error = validatePermissionRule(value);
+      if (error) {
+        errorEl?.setText(error);
+        return;
+      }
+
+      try {
+        await this.onSave(behavior, createPermissionRule(value));
+      } catch {
+        new Notice('Failed to save approval rule');
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class PermissionRulesSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private permissions: CCPermissions = {};
+  private testTool: string = TOOL_BASH;
+  private testValue = '';
+  private testMatch: PermissionRuleMatch | null = null;
+  private testError: string | null = null;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.loadAndRender();
+  }
+
+  private async loadAndRender(): Promise<void> {
+    try {
+      this.permissions = await this.plugin.storage.getPermissions();
+    } catch {
+      this.permissions = {};
+    }
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: t('settings.permissionRules.name'), cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openRuleModal(null, 'allow'));
+
+    const hasRules = PERMISSION_RULE_PRECEDENCE.some(b => (this.permissions[b]?.length ?? 0) > 0);
+    if (!hasRules) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-sp-empty-state' });
+      emptyEl.setText('No approval rules. Click + to add one, or choose "Always allow" when approving a tool.');
+    } else {
+      for (const behavior of PERMISSION_RULE_PRECEDENCE) {
+        this.renderGroup(behavior);
+      }
+    }
+
+    this.renderTester();
+  }
+
+  private renderGroup(behavior: PermissionRuleBehavior): void {
+    const rules = this.permissions[behavior] ?? [];
+    if (rules.length === 0) return;
+
+    const groupEl = this.containerEl.createDiv({ cls: 'claudian-permission-rule-group' });
+    const titleEl = groupEl.createDiv({ cls: 'claudian-permission-rule-group-title' });
+    titleEl.createSpan({ text: BEHAVIOR_LABELS[behavior], cls: `claudian-permission-badge claudian-permission-badge-${behavior}` });
+    titleEl.createSpan({ text: BEHAVIOR_DESCRIPTIONS[behavior], cls: 'claudian-sp-item-desc' });
+
+    const listEl = groupEl.createDiv({ cls: 'claudian-sp-list' });
+    rules.forEach((rule, index) => {
+      const isMatch = this.testMatch?.behavior === behavior && this.testMatch.index === index;
+      const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-permission-rule-item' });
+      if (isMatch) itemEl.addClass('is-matched');
+
+      const infoEl = itemEl.createDiv({ cls: 'claudian-sp-info' });
+      infoEl.createSpan({ text: rule, cls: 'claudian-permission-rule-text' });
+      const error = validatePermissionRule(rule);
+      if (error) {
+        infoEl.createDiv({ text: error, cls: 'claudian-permission-rule-error' });
+      }
+
+      const actionsEl = itemEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+      const upBtn = actionsEl.createEl('button', {
+        cls: 'claudian-settings-action-btn',
+        attr: { 'aria-label': 'Move up' },
+      });
+      setIcon(upBtn, 'chevron-up');
+      upBtn.disabled = index === 0;
+      upBtn.addEventListener('click', () => this.moveRule(behavior, index, -1));
+
+      const downBtn = actionsEl.createEl('button', {
+        cls: 'claudian-settings-action-btn',
+        attr: { 'aria-label': 'Move down' },
+      });
+      setIcon(downBtn, 'chevron-down');
+      downBtn.disabled = index === rules.length - 1;
+      downBtn.addEventListener('click', () => this.moveRule(behavior, index, 1));
+
+      const editBtn = actionsEl.createEl('button', {
+        cls: 'claudian-settings-action-btn',
+        attr: { 'aria-label': 'Edit' },
+      });
+      setIcon(editBtn, 'pencil');
+      editBtn.addEventListener('click', () => this.openRuleModal(rule, behavior, index));
+
+      const deleteBtn = actionsEl.createEl('button', {
+        cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+        attr: { 'aria-label': 'Delete' },
+      });
+      setIcon(deleteBtn, 'trash-2');
+      deleteBtn.addEventListener('click', async () => {
+        const next = { ...this.permissions, [behavior]: rules.filter((_, i) => i !== index) };
+        await this.save(next);
+      });
+    });
+  }
+
+  private renderTester(): void {
+    const testerEl = this.containerEl.createDiv({ cls: 'claudian-permission-tester' });
+    testerEl.createDiv({ text: 'Test a tool call', cls: 'claudian-sp-label' });
+
+    const rowEl = testerEl.createDiv({ cls: 'claudian-permission-tester-row' });
+
+    const toolInput = rowEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-permission-tester-tool',
+      attr: { list: 'claudian-permission-tester-tools', 'aria-label': 'Tool name' },
+    });
+    toolInput.value = this.testTool;
+    const toolList = rowEl.createEl('datalist', { attr: { id: 'claudian-permission-tester-tools' } });
+    for (const tool of TESTER_TOOLS) {
+      toolList.createEl('option', { attr: { value: tool } });
+    }
+
+    const valueInput = rowEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-permission-tester-value',
+      attr: { 'aria-label': 'Sample input' },
+    });
+    valueInput.value = this.testValue;
+    valueInput.placeholder = SAMPLE_PLACEHOLDERS[this.testTool] ?? '{"url": "https://example.com"}';
+
+    const testBtn = rowEl.createEl('button', { text: 'Test' });
+
+    const resultEl = testerEl.createDiv({ cls: 'claudian-permission-tester-result' });
+    if (this.testError) {
+      resultEl.addClass('claudian-permission-rule-error');
+      resultEl.setText(this.testError);
+    } else if (this.testMatch) {
+      resultEl.createSpan({
+        text: this.testMatch.decision === 'default' ? 'Default' : BEHAVIOR_LABELS[this.testMatch.decision],
+        cls: `claudian-permission-badge claudian-permission-badge-${this.testMatch.decision}`,
+      });
+      resultEl.createSpan({ text: describeMatch(this.testMatch) });
+    } else {
+      resultEl.addClass('claudian-sp-item-desc');
+      resultEl.setText('Enter a tool and a sample command, path, or JSON input to see which rule applies.');
+    }
+
+    const runTest = () => {
+      this.testTool = toolInput.value.trim();
+      this.testValue = valueInput.value;
+      this.runTest();
+      this.render();
+    };
+    testBtn.addEventListener('click', runTest);
+    valueInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') runTest();
+    });
+    toolInput.addEventListener('change', () => {
+      valueInput.placeholder = SAMPLE_PLACEHOLDERS[toolInput.value.trim()] ?? '{"url": "https://example.com"}';
+    });
+  }
+
+  private runTest(): void {
+    this.testMatch = null;
+    this.testError = null;
+    if (!this.testTool) {
+      this.testError = 'Enter a tool name';
+      return;
+    }
+
+    try {
+      const input = buildSampleToolInput(this.testTool, this.testValue);
+      this.testMatch = evaluatePermissionRules(this.permissions, this.testTool, input);
+    } catch (error) {
+      this.testError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private openRuleModal(rule: PermissionRule | null, behavior: PermissionRuleBehavior, index?: number): void {
+    new PermissionRuleModal(this.plugin.app, rule, behavior, async (newBehavior, newRule) => {
+      const lists = {} as Record<PermissionRuleBehavior, PermissionRule[]>;
+      for (const b of PERMISSION_RULE_PRECEDENCE) {
+        lists[b] = [...(this.permissions[b] ?? [])];
+      }
+
+      if (rule !== null && index !== undefined && newBehavior === behavior) {
+        lists[behavior][index] = newRule;
+      } else {
+        if (rule !== null && index !== undefined) lists[behavior].splice(index, 1);
+        lists[newBehavior].push(newRule);
+      }
+
+      await this.save({ ...this.permissions, ...lists });
+    }).open();
+  }
+
+  private async moveRule(behavior: PermissionRuleBehavior, index: number, offset: number): Promise<void> {
+    const rules = [...(this.permissions[behavior] ?? [])];
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    await this.save({ ...this.permissions, [behavior]: rules });
+  }
+
+  private async save(permissions: CCPermissions): Promise<void> {
+    // A rule only belongs in one list once
+    for (const behavior of PERMISSION_RULE_PRECEDENCE) {
+      if (permissions[behavior]) {
+        permissions[behavior] = [...new Set(permissions[behavior])];
+      }
+    }
+
+    try {
+      await this.plugin.storage.updatePermissions(permissions);
+    } catch {
+      new Notice('Failed to save approval rules');
+      return;
+    }
+
+    this.permissions = permissions;
+    if (this.testMatch || this.testError) this.runTest();
+    this.render();
+  }
+}
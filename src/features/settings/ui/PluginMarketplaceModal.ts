@@ -0,0 +1,299 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import {
+  type ConfirmPluginContents,
+  formatMarketplaceSource,
+  type Marketplace,
+  type MarketplacePlugin,
+  type PluginContents,
+  type PluginMarketplace,
+} from '../../../core/plugins';
+import type { PluginScope } from '../../../core/types';
+
+const CONTENT_LABELS: Array<[keyof PluginContents, string, string]> = [
+  ['agents', 'agent', 'agents'],
+  ['commands', 'command', 'commands'],
+  ['skills', 'skill', 'skills'],
+  ['hooks', 'hook', 'hooks'],
+  ['mcpServers', 'MCP server', 'MCP servers'],
+];
+
+const SCOPE_LABELS: Record<PluginScope, string> = {
+  project: 'This vault',
+  user: 'All vaults',
+};
+
+function renderContents(containerEl: HTMLElement, contents: PluginContents, open = false) {
+  const present = CONTENT_LABELS.filter(([key]) => contents[key].length > 0);
+  if (present.length === 0) {
+    containerEl.createDiv({ cls: 'claudian-plugin-marketplace-contents', text: 'No agents, commands, skills, hooks or MCP servers.' });
+    return;
+  }
+
+  const detailsEl = containerEl.createEl('details', { cls: 'claudian-plugin-marketplace-contents' });
+  detailsEl.open = open;
+  detailsEl.createEl('summary', {
+    text: present
+      .map(([key, singular, plural]) => `${contents[key].length} ${contents[key].length === 1 ? singular : plural}`)
+      .join(' · '),
+  });
+  for (const [key, , plural] of present) {
+    const rowEl = detailsEl.createDiv({ cls: 'claudian-plugin-marketplace-contents-row' });
+    rowEl.createSpan({ cls: 'claudian-plugin-marketplace-contents-label', text: plural });
+    rowEl.createSpan({ text: contents[key].join(', ') });
+  }
+}
+
+/** Shows what a plugin fetched from outside its marketplace provides and asks before installing it. */
+class PluginContentsPreviewModal extends Modal {
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private plugin: MarketplacePlugin,
+    private contents: PluginContents,
+    private resolve: (confirmed: boolean) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.setTitle(`Install ${this.plugin.name}?`);
+    this.modalEl.addClass('claudian-plugin-marketplace-preview-modal');
+
+    this.contentEl.createEl('p', {
+      text: `Fetched from ${this.plugin.gitUrl ?? 'outside the marketplace'}. Review what it adds before installing.`,
+    });
+    renderContents(this.contentEl, this.contents, true);
+
+    new Setting(this.contentEl)
+      .addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()))
+      .addButton((btn) => btn
+        .setButtonText('Install')
+        .setCta()
+        .onClick(() => {
+          this.resolved = true;
+          this.resolve(true);
+          this.close();
+        }));
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(false);
+    }
+    this.contentEl.empty();
+  }
+}
+
+/** Adds marketplaces and installs, updates or uninstalls their plugins. */
+export class PluginMarketplaceModal extends Modal {
+  private marketplace: PluginMarketplace;
+  private onChange: () => Promise<void>;
+  private marketplaces: Marketplace[] = [];
+  private selectedName: string | null = null;
+  private installScope: PluginScope = 'project';
+  private busy = false;
+
+  private confirmContents: ConfirmPluginContents = (plugin, contents) => new Promise((resolve) => {
+    new PluginContentsPreviewModal(this.app, plugin, contents, resolve).open();
+  });
+
+  constructor(app: App, marketplace: PluginMarketplace, onChange: () => Promise<void>) {
+    super(app);
+    this.marketplace = marketplace;
+    this.onChange = onChange;
+  }
+
+  onOpen() {
+    this.setTitle('Plugin marketplaces');
+    this.modalEl.addClass('claudian-plugin-marketplace-modal');
+    this.reload();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private reload() {
+    this.marketplaces = this.marketplace.getMarketplaces();
+    if (!this.marketplaces.some((m) => m.name === this.selectedName)) {
+      this.selectedName = this.marketplaces[0]?.name ?? null;
+    }
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const addRow = contentEl.createDiv({ cls: 'claudian-plugin-marketplace-add' });
+    const sourceInput = addRow.createEl('input', {
+      type: 'text',
+      attr: { placeholder: 'Directory path, git URL or GitHub owner/repo' },
+    });
+    const addBtn = addRow.createEl('button', { cls: 'mod-cta', text: 'Add marketplace' });
+    addBtn.addEventListener('click', () => {
+      const input = sourceInput.value.trim();
+      if (!input) return;
+      void this.run('Adding marketplace…', async () => {
+        const added = await this.marketplace.addMarketplace(input);
+        this.selectedName = added.name;
+        new Notice(`Marketplace "${added.name}" added`);
+      });
+    });
+
+    if (this.marketplaces.length === 0) {
+      contentEl.createDiv({
+        cls: 'claudian-plugin-marketplace-empty',
+        text: 'No marketplaces yet. A marketplace is a folder or git repository with .claude-plugin/marketplace.json.',
+      });
+      return;
+    }
+
+    const selected = this.marketplaces.find((m) => m.name === this.selectedName) ?? this.marketplaces[0];
+    this.renderMarketplaceBar(contentEl, selected);
+
+    if (selected.error) {
+      contentEl.createDiv({ cls: 'claudian-plugin-marketplace-error', text: selected.error });
+      return;
+    }
+    if (selected.plugins.length === 0) {
+      contentEl.createDiv({ cls: 'claudian-plugin-marketplace-empty', text: 'This marketplace lists no plugins.' });
+      return;
+    }
+
+    const listEl = contentEl.createDiv({ cls: 'claudian-plugin-marketplace-list' });
+    for (const plugin of selected.plugins) {
+      this.renderPlugin(listEl, plugin);
+    }
+  }
+
+  private renderMarketplaceBar(containerEl: HTMLElement, selected: Marketplace) {
+    const barEl = containerEl.createDiv({ cls: 'claudian-plugin-marketplace-bar' });
+
+    const select = barEl.createEl('select', { cls: 'dropdown' });
+    for (const marketplace of this.marketplaces) {
+      const option = select.createEl('option', { text: marketplace.name, attr: { value: marketplace.name } });
+      option.selected = marketplace.name === selected.name;
+    }
+    select.addEventListener('change', () => {
+      this.selectedName = select.value;
+      this.render();
+    });
+
+    barEl.createSpan({
+      cls: 'claudian-plugin-marketplace-source',
+      text: formatMarketplaceSource(selected.source),
+    });
+
+    const scopeSelect = barEl.createEl('select', { cls: 'dropdown', attr: { 'aria-label': 'Install for' } });
+    for (const scope of ['project', 'user'] as PluginScope[]) {
+      const option = scopeSelect.createEl('option', { text: SCOPE_LABELS[scope], attr: { value: scope } });
+      option.selected = scope === this.installScope;
+    }
+    scopeSelect.addEventListener('change', () => {
+      this.installScope = scopeSelect.value as PluginScope;
+      this.render();
+    });
+
+    const updateBtn = barEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Update marketplace' },
+    });
+    setIcon(updateBtn, 'refresh-cw');
+    updateBtn.addEventListener('click', () => {
+      void this.run('Updating marketplace…', async () => {
+        await this.marketplace.updateMarketplace(selected.name);
+      });
+    });
+
+    const removeBtn = barEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Remove marketplace' },
+    });
+    setIcon(removeBtn, 'trash-2');
+    removeBtn.addEventListener('click', () => {
+      void this.run(null, async () => {
+        this.marketplace.removeMarketplace(selected.name);
+        new Notice(`Marketplace "${selected.name}" removed; installed plugins were kept`);
+      });
+    });
+  }
+
+  private renderPlugin(listEl: HTMLElement, plugin: MarketplacePlugin) {
+    const installed = this.marketplace.getInstalledEntry(plugin.id, this.installScope);
+    const itemEl = listEl.createDiv({ cls: 'claudian-plugin-marketplace-item' });
+
+    const infoEl = itemEl.createDiv({ cls: 'claudian-plugin-marketplace-info' });
+    const nameRow = infoEl.createDiv({ cls: 'claudian-plugin-name-row' });
+    nameRow.createSpan({ cls: 'claudian-plugin-name', text: plugin.name });
+    if (plugin.version) {
+      nameRow.createSpan({ cls: 'claudian-plugin-marketplace-version', text: `v${plugin.version}` });
+    }
+    if (installed) {
+      nameRow.createSpan({
+        cls: 'claudian-plugin-marketplace-installed',
+        text: installed.version === plugin.version ? 'Installed' : `Installed v${installed.version}`,
+      });
+    }
+    if (plugin.description) {
+      infoEl.createDiv({ cls: 'claudian-plugin-marketplace-desc', text: plugin.description });
+    }
+    if (plugin.contents) {
+      renderContents(infoEl, plugin.contents);
+    } else {
+      infoEl.createDiv({
+        cls: 'claudian-plugin-marketplace-contents',
+        text: 'Hosted outside the marketplace; contents are shown for review before installing.',
+      });
+    }
+
+    const actionsEl = itemEl.createDiv({ cls: 'claudian-plugin-marketplace-actions' });
+    if (installed) {
+      const updateBtn = actionsEl.createEl('button', { text: 'Update' });
+      updateBtn.addEventListener('click', () => {
+        void this.run(`Updating ${plugin.name}…`, async () => {
+          if (!await this.marketplace.updatePlugin(plugin.id, this.installScope, this.confirmContents)) return;
+          await this.onChange();
+          new Notice(`Plugin "${plugin.name}" updated`);
+        });
+      });
+
+      const uninstallBtn = actionsEl.createEl('button', { cls: 'mod-warning', text: 'Uninstall' });
+      uninstallBtn.addEventListener('click', () => {
+        void this.run(null, async () => {
+          this.marketplace.uninstallPlugin(plugin.id, this.installScope);
+          await this.onChange();
+          new Notice(`Plugin "${plugin.name}" uninstalled`);
+        });
+      });
+    } else {
+      const installBtn = actionsEl.createEl('button', { cls: 'mod-cta', text: 'Install' });
+      installBtn.addEventListener('click', () => {
+        void this.run(`Installing ${plugin.name}…`, async () => {
+          if (!await this.marketplace.installPlugin(plugin, this.installScope, this.confirmContents)) return;
+          await this.onChange();
+          new Notice(`Plugin "${plugin.name}" installed`);
+        });
+      });
+    }
+  }
+
+  private async run(progress: string | null, action: () => Promise<void>) {
+    if (this.busy) return;
+    this.busy = true;
+    const notice = progress ? new Notice(progress, 0) : null;
+    try {
+      await action();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      new Notice(`Plugin marketplace: ${message}`);
+    } finally {
+      notice?.hide();
+      this.busy = false;
+      this.reload();
+    }
+  }
+}
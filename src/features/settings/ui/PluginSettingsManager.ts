@@ -1,11 +1,25 @@
 import { Notice, setIcon } from 'obsidian';
 
-import type { ClaudianPlugin as ClaudianPluginType } from '../../../core/types';
+import {
+  isPluginComponentDisabled,
+  scanPluginContents,
+  setPluginComponentDisabled,
+} from '../../../core/plugins';
+import type { ClaudianPlugin as ClaudianPluginType, PluginComponentType } from '../../../core/types';
 import type ClaudianPlugin from '../../../main';
+import { PluginMarketplaceModal } from './PluginMarketplaceModal';
+
+const COMPONENT_SECTIONS: Array<[PluginComponentType, string]> = [
+  ['agents', 'Agents'],
+  ['commands', 'Slash commands'],
+  ['skills', 'Skills'],
+  ['mcpServers', 'MCP servers'],
+];
 
 export class PluginSettingsManager {
   private containerEl: HTMLElement;
   private plugin: ClaudianPlugin;
+  private expandedPlugins = new Set<string>();
 
   constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
     this.containerEl = containerEl;
@@ -19,7 +33,18 @@ export class PluginSettingsManager {
     const headerEl = this.containerEl.createDiv({ cls: 'claudian-plugin-header' });
     headerEl.createSpan({ text: 'Claude Code Plugins', cls: 'claudian-plugin-label' });
 
-    const refreshBtn = headerEl.createEl('button', {
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-plugin-header-actions' });
+
+    const marketplaceBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Browse marketplaces' },
+    });
+    setIcon(marketplaceBtn, 'store');
+    marketplaceBtn.addEventListener('click', () => {
+      new PluginMarketplaceModal(this.plugin.app, this.plugin.pluginMarketplace, () => this.reloadAfterInstall()).open();
+    });
+
+    const refreshBtn = actionsEl.createEl('button', {
       cls: 'claudian-settings-action-btn',
       attr: { 'aria-label': 'Refresh' },
     });
@@ -30,7 +55,7 @@ export class PluginSettingsManager {
 
     if (plugins.length === 0) {
       const emptyEl = this.containerEl.createDiv({ cls: 'claudian-plugin-empty' });
-      emptyEl.setText('No Claude Code plugins found. Enable plugins via the Claude CLI.');
+      emptyEl.setText('No Claude Code plugins found. Install plugins from a marketplace or via the Claude CLI.');
       return;
     }
 
@@ -78,14 +103,102 @@ export class PluginSettingsManager {
     const nameEl = nameRow.createSpan({ cls: 'claudian-plugin-name' });
     nameEl.setText(plugin.name);
 
+    const disabledCount = Object.values(this.plugin.settings.disabledPluginComponents?.[plugin.id] ?? {})
+      .reduce((sum, names) => sum + names.length, 0);
+    if (disabledCount > 0) {
+      nameRow.createSpan({ cls: 'claudian-plugin-components-badge', text: `${disabledCount} off` });
+    }
+
     const actionsEl = itemEl.createDiv({ cls: 'claudian-plugin-actions' });
 
+    const expanded = this.expandedPlugins.has(plugin.id);
+    const expandBtn = actionsEl.createEl('button', {
+      cls: 'claudian-plugin-action-btn',
+      attr: { 'aria-label': expanded ? 'Hide contents' : 'Show contents', 'aria-expanded': String(expanded) },
+    });
+    setIcon(expandBtn, expanded ? 'chevron-up' : 'chevron-down');
+    expandBtn.addEventListener('click', () => {
+      if (expanded) {
+        this.expandedPlugins.delete(plugin.id);
+      } else {
+        this.expandedPlugins.add(plugin.id);
+      }
+      this.render();
+    });
+
     const toggleBtn = actionsEl.createEl('button', {
       cls: 'claudian-plugin-action-btn',
       attr: { 'aria-label': plugin.enabled ? 'Disable' : 'Enable' },
     });
     setIcon(toggleBtn, plugin.enabled ? 'toggle-right' : 'toggle-left');
     toggleBtn.addEventListener('click', () => this.togglePlugin(plugin.id));
+
+    if (expanded) {
+      this.renderComponents(listEl, plugin);
+    }
+  }
+
+  private renderComponents(listEl: HTMLElement, plugin: ClaudianPluginType) {
+    const contentsEl = listEl.createDiv({ cls: 'claudian-plugin-components' });
+    const contents = scanPluginContents(plugin.installPath);
+    // Agent names come from their frontmatter, which AgentManager only parses for enabled plugins
+    const agents = plugin.enabled
+      ? this.plugin.agentManager.getAvailableAgents()
+        .filter(a => a.source === 'plugin' && a.pluginName === plugin.name)
+        .map(a => a.name)
+      : contents.agents;
+    const names: Record<PluginComponentType, string[]> = {
+      agents,
+      commands: contents.commands,
+      skills: contents.skills,
+      mcpServers: contents.mcpServers,
+    };
+
+    if (Object.values(names).every(list => list.length === 0) && contents.hooks.length === 0) {
+      contentsEl.createDiv({ cls: 'claudian-plugin-components-empty', text: 'This plugin has no components.' });
+      return;
+    }
+
+    for (const [type, label] of COMPONENT_SECTIONS) {
+      if (names[type].length === 0) continue;
+      const sectionEl = contentsEl.createDiv({ cls: 'claudian-plugin-components-section' });
+      sectionEl.createDiv({ cls: 'claudian-plugin-components-label', text: `${label} (${names[type].length})` });
+
+      for (const name of names[type]) {
+        const enabled = !isPluginComponentDisabled(this.plugin.settings.disabledPluginComponents, plugin.id, type, name);
+        const rowEl = sectionEl.createEl('label', { cls: 'claudian-plugin-component' });
+        const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = enabled;
+        checkbox.addEventListener('change', () => {
+          void this.setComponentEnabled(plugin.id, type, name, checkbox.checked);
+        });
+        rowEl.createSpan({ cls: 'claudian-plugin-component-name', text: name });
+      }
+    }
+
+    if (contents.hooks.length > 0) {
+      const sectionEl = contentsEl.createDiv({ cls: 'claudian-plugin-components-section' });
+      sectionEl.createDiv({ cls: 'claudian-plugin-components-label', text: `Hooks (${contents.hooks.length})` });
+      sectionEl.createDiv({ cls: 'claudian-plugin-component-name', text: contents.hooks.join(', ') });
+      sectionEl.createDiv({
+        cls: 'claudian-plugin-components-hint',
+        text: 'Hooks run inside Claude Code and can only be turned off with the whole plugin.',
+      });
+    }
+  }
+
+  private async setComponentEnabled(pluginId: string, type: PluginComponentType, name: string, enabled: boolean) {
+    this.plugin.settings.disabledPluginComponents = setPluginComponentDisabled(
+      this.plugin.settings.disabledPluginComponents,
+      pluginId,
+      type,
+      name,
+      !enabled
+    );
+    await this.plugin.saveSettings();
+    // Agents and tool calls read the setting live; the slash command dropdown keeps its own copy
+    this.plugin.getView()?.updateHiddenSlashCommands();
+    this.render();
   }
 
   private async togglePlugin(pluginId: string) {
@@ -95,18 +208,7 @@ export class PluginSettingsManager {
     try {
       await this.plugin.pluginManager.togglePlugin(pluginId);
       await this.plugin.agentManager.loadAgents();
-
-      const view = this.plugin.getView();
-      const tabManager = view?.getTabManager();
-      if (tabManager) {
-        try {
-          await tabManager.broadcastToAllTabs(
-            async (service) => { await service.ensureReady({ force: true }); }
-          );
-        } catch {
-          new Notice('Plugin toggled, but some tabs failed to restart.');
-        }
-      }
+      await this.restartTabs('Plugin toggled, but some tabs failed to restart.');
 
       new Notice(`Plugin "${pluginId}" ${wasEnabled ? 'disabled' : 'enabled'}`);
     } catch (err) {
@@ -118,6 +220,28 @@ export class PluginSettingsManager {
     }
   }
 
+  private async restartTabs(failureMessage: string) {
+    const view = this.plugin.getView();
+    const tabManager = view?.getTabManager();
+    if (tabManager) {
+      try {
+        await tabManager.broadcastToAllTabs(
+          async (service) => { await service.ensureReady({ force: true }); }
+        );
+      } catch {
+        new Notice(failureMessage);
+      }
+    }
+  }
+
+  /** Picks up plugins installed, updated or uninstalled from the marketplace modal. */
+  private async reloadAfterInstall() {
+    await this.plugin.pluginManager.loadPlugins();
+    await this.plugin.agentManager.loadAgents();
+    await this.restartTabs('Plugins changed, but some tabs failed to restart.');
+    this.render();
+  }
+
   private async refreshPlugins() {
     try {
       await this.plugin.pluginManager.loadPlugins();
@@ -0,0 +1,366 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import { getNextRunAt, validateCron } from '../../../core/scheduler';
+import type { PermissionMode, ScheduledTask, ScheduledTaskRun } from '../../../core/types';
+import { t } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+
+/** Runs shown in the expanded run log. */
+const VISIBLE_RUNS = 5;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function formatRunStatus(run: ScheduledTaskRun): string {
+  if (run.status === 'running') return 'Running';
+  return run.status === 'success' ? 'Succeeded' : 'Failed';
+}
+
+export class ScheduledTaskModal extends Modal {
+  private existingTask: ScheduledTask | null;
+  private onSave: (task: ScheduledTask) => Promise<void>;
+
+  constructor(
+    app: App,
+    existingTask: ScheduledTask | null,
+    onSave: (task: ScheduledTask) => Promise<void>
+  ) {
+    super(app);
+    this.existingTask = existingTask;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existingTask ? 'Edit scheduled task' : 'Add scheduled task');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+
+    let nameInput: HTMLInputElement;
+    let scheduleInput: HTMLInputElement;
+    let modelInput: HTMLInputElement;
+    let permissionMode: PermissionMode = this.existingTask?.permissionMode ?? 'normal';
+
+    new Setting(contentEl)
+      .setName('Name')
+      .setDesc('Shown in the task list and in run conversation titles')
+      .addText(text => {
+        nameInput = text.inputEl;
+        text.setValue(this.existingTask?.name || '')
+          .setPlaceholder('Daily summary');
+      });
+
+    const scheduleSetting = new Setting(contentEl)
+      .setName('Schedule')
+      .setDesc('Cron expression in local time: minute hour day-of-month month day-of-week')
+      .addText(text => {
+        scheduleInput = text.inputEl;
+        text.setValue(this.existingTask?.schedule || '')
+          .setPlaceholder('0 21 * * *')
+          .onChange(value => updateSchedulePreview(value));
+      });
+    const schedulePreview = scheduleSetting.descEl.createDiv({ cls: 'claudian-schedule-preview' });
+
+    const updateSchedulePreview = (value: string) => {
+      const error = value.trim() ? validateCron(value) : null;
+      schedulePreview.toggleClass('claudian-schedule-preview-error', error !== null);
+      if (error) {
+        schedulePreview.setText(error);
+        return;
+      }
+      const nextRunAt = value.trim()
+        ? getNextRunAt({ ...this.placeholderTask(), schedule: value, lastScheduledAt: Date.now() })
+        : null;
+      schedulePreview.setText(nextRunAt ? `Next run: ${formatTime(nextRunAt)}` : '');
+    };
+    updateSchedulePreview(this.existingTask?.schedule || '');
+
+    new Setting(contentEl)
+      .setName('Permission mode')
+      .setDesc('Runs are unattended: in Normal and Plan mode, tools that need approval are denied')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('normal', 'Normal')
+          .addOption('plan', 'Plan (read-only)')
+          .addOption('yolo', 'YOLO (no approvals)')
+          .setValue(permissionMode)
+          .onChange(value => { permissionMode = value as PermissionMode; });
+      });
+
+    new Setting(contentEl)
+      .setName('Model override')
+      .setDesc('Optional model to use for this task')
+      .addText(text => {
+        modelInput = text.inputEl;
+        text.setValue(this.existingTask?.model || '')
+          .setPlaceholder('claude-sonnet-4-5');
+      });
+
+    new Setting(contentEl)
+      .setName('Prompt')
+      .setDesc('Sent as if typed in chat. Slash commands such as /weekly-review work too.');
+
+    const promptArea = contentEl.createEl('textarea', {
+      cls: 'claudian-sp-content-area',
+      attr: {
+        rows: '8',
+        placeholder: 'Summarize the notes I changed today',
+      },
+    });
+    promptArea.value = this.existingTask?.prompt || '';
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'claudian-cancel-btn',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', {
+      text: 'Save',
+      cls: 'claudian-save-btn',
+    });
+    saveBtn.addEventListener('click', async () => {
+      const prompt = promptArea.value.trim();
+      if (!prompt) {
+        new Notice('Prompt is required');
+        return;
+      }
+
+      const schedule = scheduleInput.value.trim();
+      const scheduleError = validateCron(schedule);
+      if (scheduleError) {
+        new Notice(`Invalid schedule: ${scheduleError}`);
+        return;
+      }
+
+      const task: ScheduledTask = {
+        ...this.placeholderTask(),
+        name: nameInput.value.trim() || prompt.slice(0, 40),
+        prompt,
+        schedule,
+        permissionMode,
+        model: modelInput.value.trim() || undefined,
+      };
+
+      try {
+        await this.onSave(task);
+      } catch {
+        new Notice('Failed to save scheduled task');
+        return;
+      }
+      this.close();
+    });
+  }
+
+  private placeholderTask(): ScheduledTask {
+    return this.existingTask ?? {
+      id: `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name: '',
+      prompt: '',
+      schedule: '',
+      enabled: true,
+      permissionMode: 'normal',
+      createdAt: Date.now(),
+      runs: [],
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class ScheduledTaskSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private expandedTaskIds = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.unsubscribe = plugin.scheduler.onChange(() => {
+      // Stop listening once the settings tab has been closed and re-rendered
+      if (!this.containerEl.isConnected) {
+        this.unsubscribe?.();
+        return;
+      }
+      this.render();
+    });
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: t('settings.scheduledTasks.name'), cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openTaskModal(null));
+
+    const tasks = this.plugin.scheduler.getTasks();
+
+    if (tasks.length === 0) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-sp-empty-state' });
+      emptyEl.setText('No scheduled tasks. Click + to create one.');
+      return;
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+
+    for (const task of tasks) {
+      this.renderTaskItem(listEl, task);
+    }
+  }
+
+  private renderTaskItem(listEl: HTMLElement, task: ScheduledTask): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-schedule-item' });
+    const rowEl = itemEl.createDiv({ cls: 'claudian-schedule-row' });
+
+    const infoEl = rowEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ text: task.name, cls: 'claudian-sp-item-name' });
+    headerRow.createSpan({ text: task.schedule, cls: 'claudian-schedule-cron' });
+    if (task.permissionMode !== 'normal') {
+      headerRow.createSpan({ text: task.permissionMode, cls: 'claudian-slash-item-badge' });
+    }
+
+    const isRunning = this.plugin.scheduler.isRunning(task.id);
+    const lastRun = task.runs[0];
+    const statusEl = infoEl.createDiv({ cls: 'claudian-sp-item-desc claudian-schedule-status' });
+    if (isRunning) {
+      statusEl.createSpan({ text: 'Running', cls: 'claudian-schedule-badge claudian-schedule-badge-running' });
+    } else if (lastRun) {
+      statusEl.createSpan({
+        text: formatRunStatus(lastRun),
+        cls: `claudian-schedule-badge claudian-schedule-badge-${lastRun.status}`,
+      });
+    }
+
+    const nextRunAt = task.enabled ? getNextRunAt(task) : null;
+    const details: string[] = [];
+    if (lastRun) details.push(`Last run ${formatTime(lastRun.startedAt)}`);
+    details.push(task.enabled
+      ? (nextRunAt ? `Next run ${formatTime(nextRunAt)}` : 'No upcoming run')
+      : 'Paused');
+    statusEl.createSpan({ text: details.join(' · ') });
+
+    const actionsEl = rowEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const toggleBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': task.enabled ? 'Pause' : 'Resume' },
+    });
+    setIcon(toggleBtn, task.enabled ? 'pause' : 'play');
+    toggleBtn.addEventListener('click', async () => {
+      try {
+        await this.plugin.scheduler.saveTask({ ...task, enabled: !task.enabled });
+      } catch {
+        new Notice('Failed to update scheduled task');
+      }
+    });
+
+    const runBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Run now' },
+    });
+    setIcon(runBtn, 'zap');
+    runBtn.disabled = isRunning;
+    runBtn.addEventListener('click', () => {
+      new Notice(`Running "${task.name}"`);
+      void this.plugin.scheduler.runNow(task.id);
+    });
+
+    const logBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Run log' },
+    });
+    setIcon(logBtn, 'history');
+    logBtn.addEventListener('click', () => {
+      if (this.expandedTaskIds.has(task.id)) {
+        this.expandedTaskIds.delete(task.id);
+      } else {
+        this.expandedTaskIds.add(task.id);
+      }
+      this.render();
+    });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openTaskModal(task));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      try {
+        await this.plugin.scheduler.deleteTask(task.id);
+        new Notice(`Scheduled task "${task.name}" deleted`);
+      } catch {
+        new Notice('Failed to delete scheduled task');
+      }
+    });
+
+    if (this.expandedTaskIds.has(task.id)) {
+      this.renderRunLog(itemEl, task);
+    }
+  }
+
+  private renderRunLog(itemEl: HTMLElement, task: ScheduledTask): void {
+    const logEl = itemEl.createDiv({ cls: 'claudian-schedule-runs' });
+    if (task.runs.length === 0) {
+      logEl.createDiv({ text: 'No runs yet', cls: 'claudian-schedule-run' });
+      return;
+    }
+
+    for (const run of task.runs.slice(0, VISIBLE_RUNS)) {
+      const runEl = logEl.createDiv({ cls: 'claudian-schedule-run' });
+      runEl.createSpan({
+        text: formatRunStatus(run),
+        cls: `claudian-schedule-badge claudian-schedule-badge-${run.status}`,
+      });
+      runEl.createSpan({
+        text: `${formatTime(run.startedAt)}${run.trigger === 'manual' ? ' (manual)' : ''}`,
+      });
+
+      const conversationId = run.conversationId;
+      if (conversationId) {
+        const openLink = runEl.createEl('a', { text: 'Open conversation', cls: 'claudian-schedule-run-link' });
+        openLink.addEventListener('click', () => void this.openConversation(conversationId));
+      }
+
+      if (run.error) {
+        logEl.createDiv({ text: run.error, cls: 'claudian-schedule-run-error' });
+      }
+    }
+  }
+
+  private async openConversation(conversationId: string): Promise<void> {
+    await this.plugin.activateView();
+    await this.plugin.getView()?.getTabManager()?.openConversation(conversationId);
+  }
+
+  private openTaskModal(existingTask: ScheduledTask | null): void {
+    const modal = new ScheduledTaskModal(this.plugin.app, existingTask, async (task) => {
+      await this.plugin.scheduler.saveTask(task);
+      new Notice(`Scheduled task "${task.name}" ${existingTask ? 'updated' : 'created'}`);
+    });
+    modal.open();
+  }
+}
@@ -0,0 +1,74 @@
+import type { TokenTotals } from '../../../core/types';
+import type { UsageSummaryRow } from '../../../core/usage';
+import { formatTokenCount, formatUsd, summarizeUsage } from '../../../core/usage';
+import { t } from '../../../i18n';
+import type { TranslationKey } from '../../../i18n/types';
+import type ClaudianPlugin from '../../../main';
+
+/** Rows shown per table; the rest are folded into the total. */
+const MAX_DAY_ROWS = 14;
+const MAX_CONVERSATION_ROWS = 10;
+
+export class UsageDashboard {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const summary = summarizeUsage(this.plugin.getConversationList());
+    if (summary.byConversation.length === 0) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-usage-empty' });
+      emptyEl.setText(t('settings.usage.empty'));
+      return;
+    }
+
+    const totalEl = this.containerEl.createDiv({ cls: 'claudian-usage-total' });
+    totalEl.createSpan({ text: t('settings.usage.total'), cls: 'claudian-usage-total-label' });
+    totalEl.createSpan({ text: formatUsd(summary.totals.costUsd), cls: 'claudian-usage-total-cost' });
+    totalEl.createSpan({ text: this.formatTokens(summary.totals), cls: 'claudian-usage-total-tokens' });
+
+    this.renderTable('settings.usage.byDay', summary.byDay.slice(0, MAX_DAY_ROWS));
+    this.renderTable('settings.usage.byModel', summary.byModel);
+    this.renderTable('settings.usage.byConversation', summary.byConversation.slice(0, MAX_CONVERSATION_ROWS));
+  }
+
+  private renderTable(titleKey: TranslationKey, rows: UsageSummaryRow[]): void {
+    if (rows.length === 0) return;
+
+    const sectionEl = this.containerEl.createDiv({ cls: 'claudian-usage-section' });
+    sectionEl.createDiv({ text: t(titleKey), cls: 'claudian-usage-section-header' });
+
+    const tableEl = sectionEl.createEl('table', { cls: 'claudian-usage-table' });
+    const headRow = tableEl.createEl('thead').createEl('tr');
+    headRow.createEl('th', { text: '' });
+    for (const key of ['settings.usage.cost', 'settings.usage.input', 'settings.usage.output', 'settings.usage.cache'] as const) {
+      headRow.createEl('th', { text: t(key) });
+    }
+
+    const bodyEl = tableEl.createEl('tbody');
+    for (const row of rows) {
+      const rowEl = bodyEl.createEl('tr');
+      rowEl.createEl('td', { text: row.label, cls: 'claudian-usage-label', attr: { title: row.label } });
+      rowEl.createEl('td', { text: formatUsd(row.totals.costUsd) });
+      rowEl.createEl('td', { text: formatTokenCount(row.totals.inputTokens) });
+      rowEl.createEl('td', { text: formatTokenCount(row.totals.outputTokens) });
+      rowEl.createEl('td', {
+        text: formatTokenCount(row.totals.cacheCreationInputTokens + row.totals.cacheReadInputTokens),
+      });
+    }
+  }
+
+  private formatTokens(totals: TokenTotals): string {
+    const cache = totals.cacheCreationInputTokens + totals.cacheReadInputTokens;
+    return `${formatTokenCount(totals.inputTokens)} ${t('settings.usage.input').toLowerCase()} · `
+      + `${formatTokenCount(totals.outputTokens)} ${t('settings.usage.output').toLowerCase()} · `
+      + `${formatTokenCount(cache)} ${t('settings.usage.cache').toLowerCase()}`;
+  }
+}
@@ -0,0 +1,387 @@
+import type { App } from 'obsidian';
+import { Modal, Notice, setIcon, Setting } from 'obsidian';
+
+import { DEFAULT_TRIGGER_DEBOUNCE_SECONDS } from '../../../core/storage';
+import type { PermissionMode, SlashCommand, VaultTrigger, VaultTriggerEvent, VaultTriggerRun } from '../../../core/types';
+import { t } from '../../../i18n';
+import type ClaudianPlugin from '../../../main';
+
+/** Runs shown in the expanded execution history. */
+const VISIBLE_RUNS = 5;
+
+const EVENT_LABELS: Record<VaultTriggerEvent, string> = {
+  create: 'File created',
+  modify: 'File modified',
+  rename: 'File renamed or moved',
+  frontmatter: 'Frontmatter or tags changed',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function formatRunStatus(run: VaultTriggerRun): string {
+  if (run.status === 'running') return 'Running';
+  return run.status === 'success' ? 'Succeeded' : 'Failed';
+}
+
+function describeTrigger(trigger: VaultTrigger): string {
+  const parts = [EVENT_LABELS[trigger.event].toLowerCase()];
+  if (trigger.folder) parts.push(`in ${trigger.folder}/`);
+  if (trigger.tag) parts.push(`with #${trigger.tag}`);
+  return `When ${parts.join(' ')} → /${trigger.command}${trigger.arguments ? ` ${trigger.arguments}` : ''}`;
+}
+
+export class VaultTriggerModal extends Modal {
+  private existingTrigger: VaultTrigger | null;
+  private commands: SlashCommand[];
+  private onSave: (trigger: VaultTrigger) => Promise<void>;
+
+  constructor(
+    app: App,
+    existingTrigger: VaultTrigger | null,
+    commands: SlashCommand[],
+    onSave: (trigger: VaultTrigger) => Promise<void>
+  ) {
+    super(app);
+    this.existingTrigger = existingTrigger;
+    this.commands = commands;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    this.setTitle(this.existingTrigger ? 'Edit vault trigger' : 'Add vault trigger');
+    this.modalEl.addClass('claudian-sp-modal');
+
+    const { contentEl } = this;
+
+    let nameInput: HTMLInputElement;
+    let folderInput: HTMLInputElement;
+    let tagInput: HTMLInputElement;
+    let argsInput: HTMLInputElement;
+    let debounceInput: HTMLInputElement;
+    let modelInput: HTMLInputElement;
+    let event: VaultTriggerEvent = this.existingTrigger?.event ?? 'create';
+    let command = this.existingTrigger?.command ?? this.commands[0]?.name ?? '';
+    let permissionMode: PermissionMode = this.existingTrigger?.permissionMode ?? 'normal';
+
+    new Setting(contentEl)
+      .setName('Name')
+      .setDesc('Shown in the trigger list and in run conversation titles')
+      .addText(text => {
+        nameInput = text.inputEl;
+        text.setValue(this.existingTrigger?.name || '')
+          .setPlaceholder('Triage inbox');
+      });
+
+    new Setting(contentEl)
+      .setName('Event')
+      .setDesc('Vault event that fires the trigger')
+      .addDropdown(dropdown => {
+        for (const [value, label] of Object.entries(EVENT_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown
+          .setValue(event)
+          .onChange(value => { event = value as VaultTriggerEvent; });
+      });
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Only files in this folder or its subfolders (empty = whole vault)')
+      .addText(text => {
+        folderInput = text.inputEl;
+        text.setValue(this.existingTrigger?.folder || '')
+          .setPlaceholder('Inbox');
+      });
+
+    new Setting(contentEl)
+      .setName('Tag')
+      .setDesc('Only files with this tag. With "Frontmatter or tags changed", fires when the tag is added.')
+      .addText(text => {
+        tagInput = text.inputEl;
+        text.setValue(this.existingTrigger?.tag || '')
+          .setPlaceholder('summarize');
+      });
+
+    new Setting(contentEl)
+      .setName('Command')
+      .setDesc('Slash command to run. The file is passed as the current note.')
+      .addDropdown(dropdown => {
+        for (const cmd of this.commands) {
+          dropdown.addOption(cmd.name, `/${cmd.name}`);
+        }
+        if (command && !this.commands.some(c => c.name === command)) {
+          dropdown.addOption(command, `/${command} (missing)`);
+        }
+        dropdown
+          .setValue(command)
+          .onChange(value => { command = value; });
+      });
+
+    new Setting(contentEl)
+      .setName('Arguments')
+      .setDesc('Optional arguments after the command')
+      .addText(text => {
+        argsInput = text.inputEl;
+        text.setValue(this.existingTrigger?.arguments || '');
+      });
+
+    new Setting(contentEl)
+      .setName('Debounce (seconds)')
+      .setDesc('Wait this long after the last matching event before running')
+      .addText(text => {
+        debounceInput = text.inputEl;
+        text.setValue(String(this.existingTrigger?.debounceSeconds ?? DEFAULT_TRIGGER_DEBOUNCE_SECONDS));
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+      });
+
+    new Setting(contentEl)
+      .setName('Permission mode')
+      .setDesc('Runs are unattended: in Normal and Plan mode, tools that need approval are denied')
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('normal', 'Normal')
+          .addOption('plan', 'Plan (read-only)')
+          .addOption('yolo', 'YOLO (no approvals)')
+          .setValue(permissionMode)
+          .onChange(value => { permissionMode = value as PermissionMode; });
+      });
+
+    new Setting(contentEl)
+      .setName('Model override')
+      .setDesc('Optional model to use for this trigger')
+      .addText(text => {
+        modelInput = text.inputEl;
+        text.setValue(this.existingTrigger?.model || '')
+          .setPlaceholder('claude-sonnet-4-5');
+      });
+
+    const buttonContainer = contentEl.createDiv({ cls: 'claudian-sp-modal-buttons' });
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'claudian-cancel-btn',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', {
+      text: 'Save',
+      cls: 'claudian-save-btn',
+    });
+    saveBtn.addEventListener('click', async () => {
+      if (!command) {
+        new Notice('Create a slash command first');
+        return;
+      }
+
+      const debounceSeconds = parseFloat(debounceInput.value);
+
+      const trigger: VaultTrigger = {
+        id: this.existingTrigger?.id ?? `trigger-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        name: nameInput.value.trim() || `/${command}`,
+        event,
+        folder: folderInput.value.trim().replace(/^\/+|\/+$/g, ''),
+        tag: tagInput.value.trim().replace(/^#/, '') || undefined,
+        command,
+        arguments: argsInput.value.trim() || undefined,
+        enabled: this.existingTrigger?.enabled ?? true,
+        permissionMode,
+        model: modelInput.value.trim() || undefined,
+        debounceSeconds: Number.isFinite(debounceSeconds) && debounceSeconds >= 0
+          ? debounceSeconds
+          : DEFAULT_TRIGGER_DEBOUNCE_SECONDS,
+        createdAt: this.existingTrigger?.createdAt ?? Date.now(),
+        runs: this.existingTrigger?.runs ?? [],
+      };
+
+      try {
+        await this.onSave(trigger);
+      } catch {
+        new Notice('Failed to save vault trigger');
+        return;
+      }
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class VaultTriggerSettings {
+  private containerEl: HTMLElement;
+  private plugin: ClaudianPlugin;
+  private expandedTriggerIds = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(containerEl: HTMLElement, plugin: ClaudianPlugin) {
+    this.containerEl = containerEl;
+    this.plugin = plugin;
+    this.unsubscribe = plugin.triggerEngine.onChange(() => {
+      // Stop listening once the settings tab has been closed and re-rendered
+      if (!this.containerEl.isConnected) {
+        this.unsubscribe?.();
+        return;
+      }
+      this.render();
+    });
+    this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const headerEl = this.containerEl.createDiv({ cls: 'claudian-sp-header' });
+    headerEl.createSpan({ text: t('settings.vaultTriggers.name'), cls: 'claudian-sp-label' });
+
+    const actionsEl = headerEl.createDiv({ cls: 'claudian-sp-header-actions' });
+
+    const addBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Add' },
+    });
+    setIcon(addBtn, 'plus');
+    addBtn.addEventListener('click', () => this.openTriggerModal(null));
+
+    const triggers = this.plugin.triggerEngine.getTriggers();
+
+    if (triggers.length === 0) {
+      const emptyEl = this.containerEl.createDiv({ cls: 'claudian-sp-empty-state' });
+      emptyEl.setText('No vault triggers. Click + to create one.');
+      return;
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: 'claudian-sp-list' });
+
+    for (const trigger of triggers) {
+      this.renderTriggerItem(listEl, trigger);
+    }
+  }
+
+  private renderTriggerItem(listEl: HTMLElement, trigger: VaultTrigger): void {
+    const itemEl = listEl.createDiv({ cls: 'claudian-sp-item claudian-schedule-item' });
+    const rowEl = itemEl.createDiv({ cls: 'claudian-schedule-row' });
+
+    const infoEl = rowEl.createDiv({ cls: 'claudian-sp-info' });
+    const headerRow = infoEl.createDiv({ cls: 'claudian-sp-item-header' });
+    headerRow.createSpan({ text: trigger.name, cls: 'claudian-sp-item-name' });
+    if (trigger.permissionMode !== 'normal') {
+      headerRow.createSpan({ text: trigger.permissionMode, cls: 'claudian-slash-item-badge' });
+    }
+    infoEl.createDiv({ text: describeTrigger(trigger), cls: 'claudian-sp-item-desc' });
+
+    const isRunning = this.plugin.triggerEngine.isRunning(trigger.id);
+    const lastRun = trigger.runs[0];
+    const statusEl = infoEl.createDiv({ cls: 'claudian-sp-item-desc claudian-schedule-status' });
+    if (isRunning) {
+      statusEl.createSpan({ text: 'Running', cls: 'claudian-schedule-badge claudian-schedule-badge-running' });
+    } else if (lastRun) {
+      statusEl.createSpan({
+        text: formatRunStatus(lastRun),
+        cls: `claudian-schedule-badge claudian-schedule-badge-${lastRun.status}`,
+      });
+    }
+    const details: string[] = [];
+    if (lastRun) details.push(`Last run ${formatTime(lastRun.startedAt)} on ${lastRun.filePath}`);
+    if (!trigger.enabled) details.push('Paused');
+    if (details.length > 0) statusEl.createSpan({ text: details.join(' · ') });
+
+    const actionsEl = rowEl.createDiv({ cls: 'claudian-sp-item-actions' });
+
+    const toggleBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': trigger.enabled ? 'Pause' : 'Resume' },
+    });
+    setIcon(toggleBtn, trigger.enabled ? 'pause' : 'play');
+    toggleBtn.addEventListener('click', async () => {
+      try {
+        await this.plugin.triggerEngine.saveTrigger({ ...trigger, enabled: !trigger.enabled });
+      } catch {
+        new Notice('Failed to update vault trigger');
+      }
+    });
+
+    const logBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'History' },
+    });
+    setIcon(logBtn, 'history');
+    logBtn.addEventListener('click', () => {
+      if (this.expandedTriggerIds.has(trigger.id)) {
+        this.expandedTriggerIds.delete(trigger.id);
+      } else {
+        this.expandedTriggerIds.add(trigger.id);
+      }
+      this.render();
+    });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn',
+      attr: { 'aria-label': 'Edit' },
+    });
+    setIcon(editBtn, 'pencil');
+    editBtn.addEventListener('click', () => this.openTriggerModal(trigger));
+
+    const deleteBtn = actionsEl.createEl('button', {
+      cls: 'claudian-settings-action-btn claudian-settings-delete-btn',
+      attr: { 'aria-label': 'Delete' },
+    });
+    setIcon(deleteBtn, 'trash-2');
+    deleteBtn.addEventListener('click', async () => {
+      try {
+        await this.plugin.triggerEngine.deleteTrigger(trigger.id);
+        new Notice(`Vault trigger "${trigger.name}" deleted`);
+      } catch {
+        new Notice('Failed to delete vault trigger');
+      }
+    });
+
+    if (this.expandedTriggerIds.has(trigger.id)) {
+      this.renderHistory(itemEl, trigger);
+    }
+  }
+
+  private renderHistory(itemEl: HTMLElement, trigger: VaultTrigger): void {
+    const logEl = itemEl.createDiv({ cls: 'claudian-schedule-runs' });
+    if (trigger.runs.length === 0) {
+      logEl.createDiv({ text: 'No runs yet', cls: 'claudian-schedule-run' });
+      return;
+    }
+
+    for (const run of trigger.runs.slice(0, VISIBLE_RUNS)) {
+      const runEl = logEl.createDiv({ cls: 'claudian-schedule-run' });
+      runEl.createSpan({
+        text: formatRunStatus(run),
+        cls: `claudian-schedule-badge claudian-schedule-badge-${run.status}`,
+      });
+      runEl.createSpan({ text: `${formatTime(run.startedAt)} · ${run.filePath}` });
+
+      const conversationId = run.conversationId;
+      if (conversationId) {
+        const openLink = runEl.createEl('a', { text: 'Open conversation', cls: 'claudian-schedule-run-link' });
+        openLink.addEventListener('click', () => void this.openConversation(conversationId));
+      }
+
+      if (run.error) {
+        logEl.createDiv({ text: run.error, cls: 'claudian-schedule-run-error' });
+      }
+    }
+  }
+
+  private async openConversation(conversationId: string): Promise<void> {
+    await this.plugin.activateView();
+    await this.plugin.getView()?.getTabManager()?.openConversation(conversationId);
+  }
+
+  private openTriggerModal(existingTrigger: VaultTrigger | null): void {
+    const commands = this.plugin.settings.slashCommands.filter(c => c.userInvocable !== false);
+    const modal = new VaultTriggerModal(this.plugin.app, existingTrigger, commands, async (trigger) => {
+      await this.plugin.triggerEngine.saveTrigger(trigger);
+      new Notice(`Vault trigger "${trigger.name}" ${existingTrigger ? 'updated' : 'created'}`);
+    });
+    modal.open();
+  }
+}
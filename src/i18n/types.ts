@@ -52,6 +52,11 @@ export type TranslationKey =
   | 'chat.bangBash.running'
   | 'chat.bangBash.copyFailed'
 
+  // Chat - Tab bar
+  | 'chat.tabBar.hibernated'
+  | 'chat.tabBar.memoryUsage'
+  | 'chat.tabBar.memoryUsageHibernated'
+
   // Chat - Fork
   | 'chat.fork.ariaLabel'
   | 'chat.fork.chooseTarget'
@@ -70,6 +75,20 @@ export type TranslationKey =
   | 'chat.fork.commandNoMessages'
   | 'chat.fork.commandNoAssistantUuid'
 
+  // Chat - Leaving a conversation with staged dry-run changes
+  | 'chat.dryRunLeave.title'
+  | 'chat.dryRunLeave.message'
+  | 'chat.dryRunLeave.apply'
+  | 'chat.dryRunLeave.discard'
+  | 'chat.dryRunLeave.failed'
+  | 'chat.dryRunLeave.conflict'
+  | 'chat.dryRunLeave.overwrite'
+
+  // Chat - Export
+  | 'chat.export.ariaLabel'
+  | 'chat.export.success'
+  | 'chat.export.failed'
+
   // Settings - Customization
   | 'settings.title'
   | 'settings.customization'
@@ -89,6 +108,40 @@ export type TranslationKey =
   | 'settings.navMappings.name'
   | 'settings.navMappings.desc'
 
+  // Settings - Conversation Export
+  | 'settings.conversationExport'
+  | 'settings.exportFolder.name'
+  | 'settings.exportFolder.desc'
+  | 'settings.exportCollapseToolCalls.name'
+  | 'settings.exportCollapseToolCalls.desc'
+  | 'settings.exportIncludeThinking.name'
+  | 'settings.exportIncludeThinking.desc'
+
+  // Settings - Usage
+  | 'settings.usage.name'
+  | 'settings.usage.desc'
+  | 'settings.usage.empty'
+  | 'settings.usage.total'
+  | 'settings.usage.byDay'
+  | 'settings.usage.byModel'
+  | 'settings.usage.byConversation'
+  | 'settings.usage.cost'
+  | 'settings.usage.input'
+  | 'settings.usage.output'
+  | 'settings.usage.cache'
+
+  // Settings - Budget
+  | 'settings.budgetConversation.name'
+  | 'settings.budgetConversation.desc'
+  | 'settings.budgetDaily.name'
+  | 'settings.budgetDaily.desc'
+  | 'settings.budgetVault.name'
+  | 'settings.budgetVault.desc'
+  | 'settings.budgetExceededAction.name'
+  | 'settings.budgetExceededAction.desc'
+  | 'settings.budgetExceededAction.confirm'
+  | 'settings.budgetExceededAction.block'
+
   // Settings - Hotkeys
   | 'settings.hotkeys'
   | 'settings.inlineEditHotkey.name'
@@ -124,6 +177,14 @@ export type TranslationKey =
   | 'settings.hiddenSlashCommands.desc'
   | 'settings.hiddenSlashCommands.placeholder'
 
+  // Settings - Scheduled tasks
+  | 'settings.scheduledTasks.name'
+  | 'settings.scheduledTasks.desc'
+
+  // Settings - Vault triggers
+  | 'settings.vaultTriggers.name'
+  | 'settings.vaultTriggers.desc'
+
   // Settings - MCP Servers
   | 'settings.mcpServers.name'
   | 'settings.mcpServers.desc'
@@ -166,6 +227,47 @@ export type TranslationKey =
   | 'settings.subagents.modal.prompt'
   | 'settings.subagents.modal.promptDesc'
   | 'settings.subagents.modal.promptPlaceholder'
+  | 'settings.subagents.modal.permissionMode'
+  | 'settings.subagents.modal.permissionModeDesc'
+  | 'settings.subagents.modal.permissionModeDefault'
+  | 'settings.subagents.modal.mcpTools'
+  | 'settings.subagents.modal.mcpToolsAllListed'
+  | 'settings.subagents.modal.mcpToolsUnlisted'
+  | 'settings.subagents.modal.listTools'
+  | 'settings.subagents.modal.listingTools'
+  | 'settings.subagents.modal.listToolsFailed'
+  | 'settings.subagents.modal.addPlaceholder'
+  | 'settings.subagents.modal.remove'
+  | 'settings.subagents.test.title'
+  | 'settings.subagents.test.desc'
+  | 'settings.subagents.test.promptPlaceholder'
+  | 'settings.subagents.test.permissionNormal'
+  | 'settings.subagents.test.permissionPlan'
+  | 'settings.subagents.test.permissionYolo'
+  | 'settings.subagents.test.run'
+  | 'settings.subagents.test.stop'
+  | 'settings.subagents.test.running'
+  | 'settings.subagents.test.stopped'
+  | 'settings.subagents.test.failed'
+  | 'settings.subagents.test.finished'
+  | 'settings.subagents.test.promptRequired'
+
+  // Settings - Agent and skill usage
+  | 'settings.invocations.name'
+  | 'settings.invocations.period'
+  | 'settings.invocations.last7Days'
+  | 'settings.invocations.last30Days'
+  | 'settings.invocations.last90Days'
+  | 'settings.invocations.empty'
+  | 'settings.invocations.agents'
+  | 'settings.invocations.skills'
+  | 'settings.invocations.calls'
+  | 'settings.invocations.errors'
+  | 'settings.invocations.avgTime'
+  | 'settings.invocations.avgTools'
+  | 'settings.invocations.lastUsed'
+  | 'settings.invocations.lastError'
+  | 'settings.invocations.never'
 
   // Settings - Safety
   | 'settings.safety'
@@ -177,8 +279,13 @@ export type TranslationKey =
   | 'settings.blockedCommands.desc'
   | 'settings.blockedCommands.unixName'
   | 'settings.blockedCommands.unixDesc'
+  | 'settings.permissionRules.name'
+  | 'settings.permissionRules.desc'
   | 'settings.exportPaths.name'
   | 'settings.exportPaths.desc'
+  | 'settings.auditLog.name'
+  | 'settings.auditLog.desc'
+  | 'settings.auditLog.viewer'
 
   // Settings - Environment
   | 'settings.environment'
@@ -217,6 +324,8 @@ export type TranslationKey =
   | 'settings.maxTabs.name'
   | 'settings.maxTabs.desc'
   | 'settings.maxTabs.warning'
+  | 'settings.tabHibernation.name'
+  | 'settings.tabHibernation.desc'
   | 'settings.tabBarPosition.name'
   | 'settings.tabBarPosition.desc'
   | 'settings.tabBarPosition.input'
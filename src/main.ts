@@ -10,9 +10,17 @@ import { Notice, Plugin } from 'obsidian';
 
 import { AgentManager } from './core/agents';
 import { McpServerManager } from './core/mcp';
-import { PluginManager } from './core/plugins';
+import {
+  getDisabledPluginCommandNames,
+  PluginManager,
+  PluginMarketplace,
+  resolveDisabledPluginTools,
+} from './core/plugins';
+import { BackgroundQueryRunner, TaskScheduler } from './core/scheduler';
+import { ConversationSearchIndex } from './core/search';
 import { StorageService } from './core/storage';
 import { TOOL_TASK } from './core/tools/toolNames';
+import { buildTriggerPrompt, VaultTriggerEngine, VaultTriggerWatcher } from './core/triggers';
 import type {
   ChatMessage,
   ClaudianSettings,
@@ -28,10 +36,12 @@ import {
   getHostnameKey,
   VIEW_TYPE_CLAUDIAN,
 } from './core/types';
+import { SpendLedger, spendRecordsFromConversations } from './core/usage';
 import { ClaudianView } from './features/chat/ClaudianView';
+import { ConversationExportService } from './features/chat/services/ConversationExportService';
 import { type InlineEditContext, InlineEditModal } from './features/inline-edit/ui/InlineEditModal';
 import { ClaudianSettingTab } from './features/settings/ClaudianSettings';
-import { setLocale } from './i18n';
+import { setLocale, t } from './i18n';
 import { ClaudeCliResolver } from './utils/claudeCli';
 import { buildCursorContext } from './utils/editor';
 import { getCurrentModelFromEnvironment, getModelsFromEnvironment, parseEnvironmentVariables } from './utils/env';
@@ -52,30 +62,101 @@ export default class ClaudianPlugin extends Plugin {
   settings: ClaudianSettings;
   mcpManager: McpServerManager;
   pluginManager: PluginManager;
+  pluginMarketplace: PluginMarketplace;
   agentManager: AgentManager;
   storage: StorageService;
   cliResolver: ClaudeCliResolver;
+  searchIndex: ConversationSearchIndex;
+  exportService: ConversationExportService;
+  scheduler: TaskScheduler;
+  triggerEngine: VaultTriggerEngine;
+  spendLedger: SpendLedger;
+  private backgroundRunner: BackgroundQueryRunner;
   private conversations: Conversation[] = [];
   private runtimeEnvironmentVariables = '';
 
   async onload() {
     await this.loadSettings();
 
+    // Budget caps count spend from this ledger, so deleting history does not reset them
+    this.spendLedger = new SpendLedger({
+      load: () => this.storage.spend.loadAll(),
+      append: (record) => this.storage.spend.append(record),
+    });
+    await this.spendLedger.load(() => spendRecordsFromConversations(this.getConversationList()));
+
     this.cliResolver = new ClaudeCliResolver();
 
+    // Search index over conversation history (built lazily on first search)
+    this.searchIndex = new ConversationSearchIndex({
+      listConversations: () => this.getConversationList().map(c => ({
+        id: c.id,
+        title: c.title,
+        signature: `${c.updatedAt}:${c.lastResponseAt ?? ''}`,
+      })),
+      loadMessages: (id) => this.loadMessagesForSearch(id),
+    });
+
+    this.exportService = new ConversationExportService(this);
+
     // Initialize MCP manager (shared for agent + UI)
-    this.mcpManager = new McpServerManager(this.storage.mcp);
+    this.mcpManager = new McpServerManager(this.storage.mcp, {}, this.storage.secrets);
     await this.mcpManager.loadServers();
 
     // Initialize plugin manager (reads from installed_plugins.json + settings.json)
     const vaultPath = (this.app.vault.adapter as any).basePath;
     this.pluginManager = new PluginManager(vaultPath, this.storage.ccSettings);
     await this.pluginManager.loadPlugins();
+    this.pluginMarketplace = new PluginMarketplace(vaultPath);
 
     // Initialize agent manager (loads plugin agents from plugin install paths)
-    this.agentManager = new AgentManager(vaultPath, this.pluginManager);
+    this.agentManager = new AgentManager(vaultPath, this.pluginManager, () => resolveDisabledPluginTools(
+      this.settings.disabledPluginComponents,
+      this.pluginManager.getPlugins()
+    ).agents);
     await this.agentManager.loadAgents();
 
+    // Scheduled tasks run unattended as cold-start queries, one conversation per run
+    this.backgroundRunner = new BackgroundQueryRunner(this);
+    this.scheduler = new TaskScheduler({
+      load: () => this.storage.schedules.load(),
+      save: (tasks) => this.storage.schedules.save(tasks),
+      runTask: (task) => this.backgroundRunner.run({
+        prompt: task.prompt,
+        permissionMode: task.permissionMode,
+        model: task.model,
+        title: `${task.name} – ${new Date().toLocaleString()}`,
+        conversation: { scheduledTaskId: task.id },
+      }),
+    });
+    await this.scheduler.load();
+    this.scheduler.start();
+
+    // Vault triggers run a slash command on the file that changed
+    const triggerWatcher = new VaultTriggerWatcher(this.app, (event) => this.triggerEngine.handleEvent(event));
+    this.triggerEngine = new VaultTriggerEngine({
+      load: () => this.storage.triggers.load(),
+      save: (triggers) => this.storage.triggers.save(triggers),
+      runTrigger: async (trigger, filePath) => {
+        const commandExists = this.settings.slashCommands.some(c => c.name === trigger.command);
+        if (!commandExists) {
+          return { error: `Slash command /${trigger.command} not found` };
+        }
+        return this.backgroundRunner.run({
+          prompt: buildTriggerPrompt(trigger, filePath),
+          permissionMode: trigger.permissionMode,
+          model: trigger.model,
+          title: `${trigger.name} – ${filePath}`,
+          conversation: { vaultTriggerId: trigger.id },
+        });
+      },
+      getFileTags: (path) => triggerWatcher.getFileTags(path),
+    });
+    await this.triggerEngine.load();
+    this.app.workspace.onLayoutReady(() => {
+      triggerWatcher.register((ref) => this.registerEvent(ref));
+    });
+
     this.registerView(
       VIEW_TYPE_CLAUDIAN,
       (leaf) => new ClaudianView(leaf, this)
@@ -188,14 +269,108 @@ export default class ClaudianPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'compare-models',
+      name: 'Compare models on a prompt',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        const activeTab = view.getTabManager()?.getActiveTab();
+        if (!activeTab || activeTab.state.isStreaming) return false;
+
+        if (!checking) {
+          view.getTabManager()?.openCompare();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'show-conversation-branches',
+      name: 'Show conversation branches',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        const activeTab = view.getTabManager()?.getActiveTab();
+        if (!activeTab?.state.currentConversationId) return false;
+
+        if (!checking) {
+          view.getTabManager()?.openBranchTree();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'toggle-dry-run',
+      name: 'Toggle dry run (stage edits for review)',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        if (!view.getActiveTab()) return false;
+
+        if (!checking) {
+          view.toggleDryRun();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'browse-mcp-resources',
+      name: 'Browse MCP resources',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        if (!view.getActiveTab() || !this.mcpManager.hasServers()) return false;
+
+        if (!checking) {
+          view.openMcpResourceBrowser();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'export-conversation',
+      name: 'Export current conversation to note',
+      checkCallback: (checking: boolean) => {
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN)[0];
+        if (!leaf) return false;
+
+        const view = leaf.view as ClaudianView;
+        const conversationId = view.getTabManager()?.getActiveTab()?.conversationId;
+        if (!conversationId) return false;
+
+        if (!checking) {
+          void this.exportConversation(conversationId);
+        }
+        return true;
+      },
+    });
+
     this.addSettingTab(new ClaudianSettingTab(this.app, this));
   }
 
   async onunload() {
+    this.scheduler?.stop();
+    this.mcpManager?.stopHealthMonitor();
+    this.triggerEngine?.dispose();
+    this.backgroundRunner?.cancelAll();
+
     // Ensures state is saved even if Obsidian quits without calling onClose()
     for (const view of this.getAllViews()) {
       const tabManager = view.getTabManager();
       if (tabManager) {
+        await tabManager.saveAll();
         const state = tabManager.getPersistedState();
         await this.storage.setTabManagerState(state);
       }
@@ -285,7 +460,9 @@ export default class ClaudianPlugin extends Plugin {
       conversation.currentNote = meta.currentNote ?? conversation.currentNote;
       conversation.externalContextPaths = meta.externalContextPaths ?? conversation.externalContextPaths;
       conversation.enabledMcpServers = meta.enabledMcpServers ?? conversation.enabledMcpServers;
+      conversation.enabledMcpTools = meta.enabledMcpTools ?? conversation.enabledMcpTools;
       conversation.usage = meta.usage ?? conversation.usage;
+      conversation.cost = meta.cost ?? conversation.cost;
       if (meta.sdkSessionId !== undefined) {
         conversation.sdkSessionId = meta.sdkSessionId;
       } else if (conversation.sdkSessionId === undefined && conversation.sessionId) {
@@ -296,6 +473,8 @@ export default class ClaudianPlugin extends Plugin {
       conversation.subagentData = meta.subagentData ?? conversation.subagentData;
       conversation.resumeSessionAt = meta.resumeSessionAt ?? conversation.resumeSessionAt;
       conversation.forkSource = meta.forkSource ?? conversation.forkSource;
+      conversation.forkedFrom = meta.forkedFrom ?? conversation.forkedFrom;
+      conversation.pins = meta.pins ?? conversation.pins;
     }
 
     // Also load native session metadata (no legacy JSONL)
@@ -321,13 +500,20 @@ export default class ClaudianPlugin extends Plugin {
           currentNote: meta.currentNote,
           externalContextPaths: meta.externalContextPaths,
           enabledMcpServers: meta.enabledMcpServers,
+          enabledMcpTools: meta.enabledMcpTools,
           usage: meta.usage,
+          cost: meta.cost,
           titleGenerationStatus: meta.titleGenerationStatus,
           legacyCutoffAt: meta.legacyCutoffAt,
           isNative: true,
           subagentData: meta.subagentData, // Preserve for applying to loaded messages
           resumeSessionAt: meta.resumeSessionAt,
+          stagedChanges: meta.stagedChanges,
           forkSource: meta.forkSource,
+          forkedFrom: meta.forkedFrom,
+          pins: meta.pins,
+          scheduledTaskId: meta.scheduledTaskId,
+          vaultTriggerId: meta.vaultTriggerId,
         };
       });
 
@@ -589,12 +775,11 @@ export default class ClaudianPlugin extends Plugin {
       !conversation.sessionId;
   }
 
-  private async loadSdkMessagesForConversation(conversation: Conversation): Promise<void> {
-    if (!conversation.isNative || conversation.sdkMessagesLoaded) return;
-
-    const vaultPath = getVaultPath(this.app);
-    if (!vaultPath) return;
-
+  /**
+   * Resolves the SDK session files holding a native conversation's messages,
+   * in load order, with the truncation point for the current session.
+   */
+  private getSdkSessionSources(conversation: Conversation): Array<{ sessionId: string; truncateAt?: string }> {
     const isPendingFork = this.isPendingFork(conversation);
 
     const allSessionIds: string[] = isPendingFork
@@ -604,6 +789,28 @@ export default class ClaudianPlugin extends Plugin {
           conversation.sdkSessionId ?? conversation.sessionId,
         ].filter((id): id is string => !!id);
 
+    const currentSessionId = isPendingFork
+      ? conversation.forkSource!.sessionId
+      : (conversation.sdkSessionId ?? conversation.sessionId);
+
+    return allSessionIds.map(sessionId => {
+      const isCurrentSession = sessionId === currentSessionId;
+      const truncateAt = isCurrentSession
+        ? (isPendingFork ? conversation.forkSource!.resumeAt : conversation.resumeSessionAt)
+        : undefined;
+      return { sessionId, truncateAt };
+    });
+  }
+
+  private async loadSdkMessagesForConversation(conversation: Conversation): Promise<void> {
+    if (!conversation.isNative || conversation.sdkMessagesLoaded) return;
+
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) return;
+
+    const sources = this.getSdkSessionSources(conversation);
+    const allSessionIds = sources.map(source => source.sessionId);
+
     if (allSessionIds.length === 0) return;
 
     const allSdkMessages: ChatMessage[] = [];
@@ -611,20 +818,12 @@ export default class ClaudianPlugin extends Plugin {
     let errorCount = 0;
     let successCount = 0;
 
-    const currentSessionId = isPendingFork
-      ? conversation.forkSource!.sessionId
-      : (conversation.sdkSessionId ?? conversation.sessionId);
-
-    for (const sessionId of allSessionIds) {
+    for (const { sessionId, truncateAt } of sources) {
       if (!sdkSessionExists(vaultPath, sessionId)) {
         missingSessionCount++;
         continue;
       }
 
-      const isCurrentSession = sessionId === currentSessionId;
-      const truncateAt = isCurrentSession
-        ? (isPendingFork ? conversation.forkSource!.resumeAt : conversation.resumeSessionAt)
-        : undefined;
       const result: SDKSessionLoadResult = await loadSDKSessionMessages(
         vaultPath, sessionId, truncateAt
       );
@@ -680,6 +879,38 @@ export default class ClaudianPlugin extends Plugin {
     conversation.sdkMessagesLoaded = true;
   }
 
+  /**
+   * Returns a conversation's messages for search indexing.
+   *
+   * Native sessions whose history has not been loaded yet are read from SDK
+   * storage without caching the result on the conversation, so indexing
+   * hundreds of sessions doesn't keep all of them in memory.
+   */
+  private async loadMessagesForSearch(conversationId: string): Promise<ChatMessage[]> {
+    const conversation = this.getConversationSync(conversationId);
+    if (!conversation) return [];
+    if (!conversation.isNative || conversation.sdkMessagesLoaded) return conversation.messages;
+
+    const vaultPath = getVaultPath(this.app);
+    if (!vaultPath) return conversation.messages;
+
+    const sdkMessages: ChatMessage[] = [];
+    for (const { sessionId, truncateAt } of this.getSdkSessionSources(conversation)) {
+      if (!sdkSessionExists(vaultPath, sessionId)) continue;
+
+      const result = await loadSDKSessionMessages(vaultPath, sessionId, truncateAt);
+      if (!result.error) {
+        sdkMessages.push(...result.messages);
+      }
+    }
+
+    const afterCutoff = conversation.legacyCutoffAt != null
+      ? sdkMessages.filter(msg => msg.timestamp > conversation.legacyCutoffAt!)
+      : sdkMessages;
+
+    return this.dedupeMessages([...conversation.messages, ...afterCutoff]);
+  }
+
   private async enrichAsyncSubagentToolCalls(
     subagentData: Record<string, SubagentInfo>,
     vaultPath: string,
@@ -1050,9 +1281,24 @@ export default class ClaudianPlugin extends Plugin {
       preview: this.getConversationPreview(c),
       titleGenerationStatus: c.titleGenerationStatus,
       isNative: c.isNative,
+      cost: c.cost,
+      scheduledTaskId: c.scheduledTaskId,
+      vaultTriggerId: c.vaultTriggerId,
     }));
   }
 
+  /** Exports a conversation to a Markdown note and opens it. */
+  async exportConversation(conversationId: string): Promise<void> {
+    try {
+      const path = await this.exportService.exportConversation(conversationId);
+      new Notice(t('chat.export.success', { path }));
+      await this.app.workspace.openLinkText(path, '', 'tab');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      new Notice(t('chat.export.failed', { error: message }));
+    }
+  }
+
   /** Returns the active Claudian view from workspace, if open. */
   getView(): ClaudianView | null {
     const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CLAUDIAN);
@@ -1087,6 +1333,14 @@ export default class ClaudianPlugin extends Plugin {
     return null;
   }
 
+  /** Lowercased names hidden from the slash command dropdown: user-hidden ones and disabled plugin components. */
+  getHiddenSlashCommands(): Set<string> {
+    return new Set([
+      ...(this.settings.hiddenSlashCommands || []).map(c => c.toLowerCase()),
+      ...getDisabledPluginCommandNames(this.settings.disabledPluginComponents, this.pluginManager.getPlugins()),
+    ]);
+  }
+
   /**
    * Gets SDK supported commands from any ready service.
    * The command list is the same for all services, so we just need one ready.
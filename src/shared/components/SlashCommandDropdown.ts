@@ -31,6 +31,11 @@ export interface SlashCommandDropdownCallbacks {
    * Only available after the service is initialized (first message sent).
    */
   getSdkCommands?: () => Promise<SlashCommand[]>;
+  /**
+   * Callback to fetch prompts of enabled MCP servers as slash commands.
+   * Fetched in the background so slow servers never delay the dropdown.
+   */
+  getMcpPromptCommands?: () => Promise<SlashCommand[]>;
 }
 
 export interface SlashCommandDropdownOptions {
@@ -55,6 +60,10 @@ export class SlashCommandDropdown {
   private cachedSdkSkills: SlashCommand[] = [];
   private sdkSkillsFetched = false;
 
+  // MCP prompt commands cache
+  private cachedMcpPrompts: SlashCommand[] = [];
+  private mcpPromptsRequested = false;
+
   // Race condition guard for async dropdown rendering
   private requestId = 0;
 
@@ -167,6 +176,8 @@ export class SlashCommandDropdown {
   resetSdkSkillsCache(): void {
     this.cachedSdkSkills = [];
     this.sdkSkillsFetched = false;
+    this.cachedMcpPrompts = [];
+    this.mcpPromptsRequested = false;
     this.requestId = 0;
   }
 
@@ -190,6 +201,8 @@ export class SlashCommandDropdown {
   private async showDropdown(searchText: string): Promise<void> {
     const currentRequest = ++this.requestId;
 
+    this.requestMcpPrompts();
+
     const builtInCommands = getBuiltInCommandsForDropdown();
     const searchLower = searchText.toLowerCase();
 
@@ -235,9 +248,29 @@ export class SlashCommandDropdown {
   }
 
   /**
-   * Builds the merged command list from built-in and SDK commands.
+   * Starts fetching MCP prompt commands once, re-rendering the dropdown when
+   * they arrive. Failures are retried on the next open.
+   */
+  private requestMcpPrompts(): void {
+    if (this.mcpPromptsRequested || !this.callbacks.getMcpPromptCommands) return;
+    this.mcpPromptsRequested = true;
+
+    this.callbacks.getMcpPromptCommands()
+      .then((commands) => {
+        this.cachedMcpPrompts = commands;
+        if (commands.length > 0 && this.isVisible()) {
+          this.handleInputChange();
+        }
+      })
+      .catch(() => {
+        this.mcpPromptsRequested = false;
+      });
+  }
+
+  /**
+   * Builds the merged command list from built-in, SDK and MCP prompt commands.
    * Built-in commands have highest priority and are not subject to hiding.
-   * SDK commands are deduplicated, filtered, and respect user hiding.
+   * SDK and MCP prompt commands are deduplicated, filtered, and respect user hiding.
    */
   private buildCommandList(builtInCommands: SlashCommand[]): SlashCommand[] {
     const seenNames = new Set<string>();
@@ -266,6 +299,15 @@ export class SlashCommandDropdown {
       allCommands.push(cmd);
     }
 
+    for (const cmd of this.cachedMcpPrompts) {
+      const nameLower = cmd.name.toLowerCase();
+      if (seenNames.has(nameLower) || this.hiddenCommands.has(nameLower)) {
+        continue;
+      }
+      seenNames.add(nameLower);
+      allCommands.push(cmd);
+    }
+
     return allCommands;
   }
 
@@ -1,6 +1,7 @@
 import type { TFile } from 'obsidian';
 import { setIcon } from 'obsidian';
 
+import type { McpResourceAttachment } from '../../core/types';
 import { getFolderName, normalizePathForComparison } from '../../utils/externalContext';
 import { type ExternalContextFile, externalContextScanner } from '../../utils/externalContextScanner';
 import { extractMcpMentions } from '../../utils/mcp';
@@ -26,6 +27,8 @@ export interface MentionDropdownCallbacks {
   onAttachContextFile?: (displayName: string, absolutePath: string) => void;
   onMcpMentionChange?: (servers: Set<string>) => void;
   onAgentMentionSelect?: (agentId: string) => void;
+  /** Attach an MCP resource picked via `@server:resource`. */
+  onAttachMcpResource?: (resource: McpResourceAttachment) => void;
   getMentionedMcpServers: () => Set<string>;
   setMentionedMcpServers: (mentions: Set<string>) => boolean;
   addMentionedMcpServer: (name: string) => void;
@@ -37,8 +40,16 @@ export interface MentionDropdownCallbacks {
 
 export interface McpMentionProvider {
   getContextSavingServers: () => Array<{ name: string }>;
+  /** All configured servers; enabled ones offer `@server:resource` completion. */
+  getServers?: () => Array<{ name: string; enabled: boolean }>;
+  /** Resources of a server from its last listing, or null if not listed yet. */
+  getCachedResources?: (serverName: string) => Array<{ uri: string; name: string; description?: string }> | null;
+  listResources?: (serverName: string) => Promise<unknown>;
 }
 
+/** Matches `server:query` in an @-mention. */
+const RESOURCE_MENTION_PATTERN = /^([a-zA-Z0-9._-]+):(.*)$/;
+
 export class MentionDropdownController {
   private containerEl: HTMLElement;
   private inputEl: HTMLTextAreaElement | HTMLInputElement;
@@ -238,11 +249,56 @@ export class MentionDropdownController {
     return `${parent}/${folderName}`;
   }
 
+  /**
+   * Shows resources for `@server:query`. Returns false when the text before the
+   * colon is not an enabled server, so the mention is handled as usual.
+   */
+  private showResourceMentions(searchText: string): boolean {
+    const match = RESOURCE_MENTION_PATTERN.exec(searchText);
+    if (!match || !this.mcpManager?.getServers || !this.callbacks.onAttachMcpResource) return false;
+
+    const [, serverName, query] = match;
+    const server = this.mcpManager.getServers().find(s => s.enabled && s.name === serverName);
+    if (!server) return false;
+
+    this.activeContextFilter = null;
+    this.activeAgentFilter = false;
+
+    const resources = this.mcpManager.getCachedResources?.(serverName) ?? null;
+    if (resources === null) {
+      // List in the background and refresh the dropdown if the mention is still open
+      void this.mcpManager.listResources?.(serverName).then(() => {
+        if (this.dropdown.isVisible() && this.mcpManager?.getCachedResources?.(serverName)) {
+          this.handleInputChange();
+        }
+      });
+    }
+
+    const queryLower = query.toLowerCase();
+    for (const resource of resources ?? []) {
+      if (resource.name.toLowerCase().includes(queryLower) || resource.uri.toLowerCase().includes(queryLower)) {
+        this.filteredMentionItems.push({
+          type: 'mcp-resource',
+          name: resource.name,
+          server: serverName,
+          uri: resource.uri,
+          description: resource.description,
+        });
+      }
+    }
+
+    this.selectedMentionIndex = 0;
+    this.renderMentionDropdown(resources === null ? 'Loading resources...' : 'No matching resources');
+    return true;
+  }
+
   private showMentionDropdown(searchText: string): void {
     const searchLower = searchText.toLowerCase();
     this.filteredMentionItems = [];
     this.filteredContextFiles = [];
 
+    if (this.showResourceMentions(searchText)) return;
+
     const externalContexts = this.callbacks.getExternalContexts() || [];
     const contextEntries = this.buildExternalContextEntries(externalContexts);
 
@@ -434,13 +490,14 @@ export class MentionDropdownController {
     return merged.length;
   }
 
-  private renderMentionDropdown(): void {
+  private renderMentionDropdown(emptyText = 'No matches'): void {
     this.dropdown.render({
       items: this.filteredMentionItems,
       selectedIndex: this.selectedMentionIndex,
-      emptyText: 'No matches',
+      emptyText,
       getItemClass: (item) => {
         if (item.type === 'mcp-server') return 'mcp-server';
+        if (item.type === 'mcp-resource') return 'mcp-resource';
         if (item.type === 'folder') return 'vault-folder';
         if (item.type === 'agent') return 'agent';
         if (item.type === 'agent-folder') return 'agent-folder';
@@ -450,7 +507,7 @@ export class MentionDropdownController {
       },
       renderItem: (item, itemEl) => {
         const iconEl = itemEl.createSpan({ cls: 'claudian-mention-icon' });
-        if (item.type === 'mcp-server') {
+        if (item.type === 'mcp-server' || item.type === 'mcp-resource') {
           iconEl.innerHTML = MCP_ICON_SVG;
         } else if (item.type === 'folder') {
           setIcon(iconEl, 'folder');
@@ -469,6 +526,11 @@ export class MentionDropdownController {
         if (item.type === 'mcp-server') {
           const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
           nameEl.setText(`@${item.name}`);
+        } else if (item.type === 'mcp-resource') {
+          const nameEl = textEl.createSpan({ cls: 'claudian-mention-name' });
+          nameEl.setText(`@${item.server}:${item.name}`);
+          const uriEl = textEl.createSpan({ cls: 'claudian-mention-agent-desc' });
+          uriEl.setText(item.description || item.uri);
         } else if (item.type === 'agent-folder') {
           const nameEl = textEl.createSpan({
             cls: 'claudian-mention-name claudian-mention-name-agent-folder',
@@ -569,6 +631,16 @@ export class MentionDropdownController {
 
       this.callbacks.addMentionedMcpServer(selectedItem.name);
       this.callbacks.onMcpMentionChange?.(this.callbacks.getMentionedMcpServers());
+    } else if (selectedItem.type === 'mcp-resource') {
+      const replacement = `@${selectedItem.server}:${selectedItem.name} `;
+      this.inputEl.value = beforeAt + replacement + afterCursor;
+      this.inputEl.selectionStart = this.inputEl.selectionEnd = beforeAt.length + replacement.length;
+
+      this.callbacks.onAttachMcpResource?.({
+        server: selectedItem.server,
+        uri: selectedItem.uri,
+        name: selectedItem.name,
+      });
     } else if (selectedItem.type === 'agent-folder') {
       // Don't modify input text - just show agents submenu
       this.activeAgentFilter = true;
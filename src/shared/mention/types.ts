@@ -18,6 +18,15 @@ export interface McpServerMentionItem {
   name: string;
 }
 
+export interface McpResourceMentionItem {
+  type: 'mcp-resource';
+  /** Resource display name */
+  name: string;
+  server: string;
+  uri: string;
+  description?: string;
+}
+
 export interface ContextFileMentionItem {
   type: 'context-file';
   name: string;
@@ -63,6 +72,7 @@ export type MentionItem =
   | FileMentionItem
   | FolderMentionItem
   | McpServerMentionItem
+  | McpResourceMentionItem
   | ContextFileMentionItem
   | ContextFolderMentionItem
   | AgentMentionItem
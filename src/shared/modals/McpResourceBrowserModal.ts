@@ -0,0 +1,166 @@
+import { type App, Modal, setIcon } from 'obsidian';
+
+import type { McpResource, McpResourceListResult, McpResourceTemplate, McpServerManager } from '../../core/mcp';
+import type { McpResourceAttachment } from '../../core/types';
+import { expandUriTemplate, getUriTemplateVariables } from '../../utils/mcp';
+
+/** Lists the resources and resource templates of enabled MCP servers and attaches them as context. */
+export class McpResourceBrowserModal extends Modal {
+  private mcpManager: McpServerManager;
+  private onAttach: (resource: McpResourceAttachment) => void;
+  private filter = '';
+  private listEl: HTMLElement | null = null;
+  private results = new Map<string, McpResourceListResult | null>();
+  private attached = new Set<string>();
+
+  constructor(app: App, mcpManager: McpServerManager, onAttach: (resource: McpResourceAttachment) => void) {
+    super(app);
+    this.mcpManager = mcpManager;
+    this.onAttach = onAttach;
+  }
+
+  onOpen() {
+    this.setTitle('MCP resources');
+    this.modalEl.addClass('claudian-mcp-resource-modal');
+
+    const servers = this.mcpManager.getServers().filter((s) => s.enabled);
+    if (servers.length === 0) {
+      this.contentEl.createDiv({ cls: 'claudian-mcp-resource-empty', text: 'No enabled MCP servers.' });
+      return;
+    }
+
+    const filterEl = this.contentEl.createEl('input', {
+      type: 'text',
+      cls: 'claudian-mcp-resource-filter',
+      attr: { placeholder: 'Filter resources...' },
+    });
+    filterEl.addEventListener('input', () => {
+      this.filter = filterEl.value.trim().toLowerCase();
+      this.renderList();
+    });
+
+    this.listEl = this.contentEl.createDiv({ cls: 'claudian-mcp-resource-list' });
+    for (const server of servers) {
+      void this.loadServer(server.name, false);
+    }
+    this.renderList();
+  }
+
+  onClose() {
+    this.listEl = null;
+    this.contentEl.empty();
+  }
+
+  private async loadServer(serverName: string, refresh: boolean): Promise<void> {
+    this.results.set(serverName, null);
+    this.renderList();
+    const result = await this.mcpManager.listResources(serverName, refresh);
+    this.results.set(serverName, result);
+    this.renderList();
+  }
+
+  private matches(...fields: Array<string | undefined>): boolean {
+    return !this.filter || fields.some((field) => field?.toLowerCase().includes(this.filter));
+  }
+
+  private renderList(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    for (const [serverName, result] of this.results) {
+      const sectionEl = this.listEl.createDiv({ cls: 'claudian-mcp-resource-server' });
+      const headerEl = sectionEl.createDiv({ cls: 'claudian-mcp-resource-server-header' });
+      headerEl.createSpan({ cls: 'claudian-mcp-resource-server-name', text: serverName });
+
+      const refreshBtn = headerEl.createEl('button', {
+        cls: 'claudian-mcp-resource-refresh',
+        attr: { 'aria-label': 'Refresh' },
+      });
+      setIcon(refreshBtn, 'refresh-cw');
+      refreshBtn.disabled = result === null;
+      refreshBtn.addEventListener('click', () => void this.loadServer(serverName, true));
+
+      if (result === null) {
+        sectionEl.createDiv({ cls: 'claudian-mcp-resource-note', text: 'Loading...' });
+        continue;
+      }
+      if (!result.success) {
+        sectionEl.createDiv({ cls: 'claudian-mcp-resource-note is-error', text: result.error ?? 'Failed to list resources' });
+        continue;
+      }
+
+      const resources = result.resources.filter((r) => this.matches(r.name, r.uri, r.description));
+      const templates = result.templates.filter((t) => this.matches(t.name, t.uriTemplate, t.description));
+      if (resources.length === 0 && templates.length === 0) {
+        sectionEl.createDiv({
+          cls: 'claudian-mcp-resource-note',
+          text: result.resources.length + result.templates.length === 0 ? 'No resources' : 'No matches',
+        });
+        continue;
+      }
+
+      for (const resource of resources) {
+        this.renderResource(sectionEl, serverName, resource);
+      }
+      for (const template of templates) {
+        this.renderTemplate(sectionEl, serverName, template);
+      }
+    }
+  }
+
+  private renderResource(sectionEl: HTMLElement, serverName: string, resource: McpResource): void {
+    const key = `${serverName}:${resource.uri}`;
+    const itemEl = sectionEl.createDiv({ cls: 'claudian-mcp-resource-item' });
+    const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-resource-info' });
+    infoEl.createDiv({ cls: 'claudian-mcp-resource-name', text: resource.name });
+    infoEl.createDiv({ cls: 'claudian-mcp-resource-uri', text: resource.uri });
+    if (resource.description) {
+      infoEl.createDiv({ cls: 'claudian-mcp-resource-desc', text: resource.description });
+    }
+
+    const attachBtn = itemEl.createEl('button', { cls: 'claudian-mcp-resource-attach' });
+    this.updateAttachButton(attachBtn, this.attached.has(key));
+    attachBtn.addEventListener('click', () => {
+      this.attach(key, { server: serverName, uri: resource.uri, name: resource.name });
+      this.updateAttachButton(attachBtn, true);
+    });
+  }
+
+  private renderTemplate(sectionEl: HTMLElement, serverName: string, template: McpResourceTemplate): void {
+    const itemEl = sectionEl.createDiv({ cls: 'claudian-mcp-resource-item is-template' });
+    const infoEl = itemEl.createDiv({ cls: 'claudian-mcp-resource-info' });
+    infoEl.createDiv({ cls: 'claudian-mcp-resource-name', text: template.name });
+    infoEl.createDiv({ cls: 'claudian-mcp-resource-uri', text: template.uriTemplate });
+    if (template.description) {
+      infoEl.createDiv({ cls: 'claudian-mcp-resource-desc', text: template.description });
+    }
+
+    const values: Record<string, string> = {};
+    const fieldsEl = infoEl.createDiv({ cls: 'claudian-mcp-resource-template-fields' });
+    for (const variable of getUriTemplateVariables(template.uriTemplate)) {
+      const inputEl = fieldsEl.createEl('input', { type: 'text', attr: { placeholder: variable } });
+      inputEl.addEventListener('input', () => {
+        values[variable] = inputEl.value;
+      });
+    }
+
+    const attachBtn = itemEl.createEl('button', { cls: 'claudian-mcp-resource-attach' });
+    this.updateAttachButton(attachBtn, false);
+    attachBtn.addEventListener('click', () => {
+      const uri = expandUriTemplate(template.uriTemplate, values);
+      this.attach(`${serverName}:${uri}`, { server: serverName, uri, name: uri });
+      this.updateAttachButton(attachBtn, true);
+    });
+  }
+
+  private attach(key: string, resource: McpResourceAttachment): void {
+    if (this.attached.has(key)) return;
+    this.attached.add(key);
+    this.onAttach(resource);
+  }
+
+  private updateAttachButton(buttonEl: HTMLButtonElement, attached: boolean): void {
+    buttonEl.setText(attached ? 'Attached' : 'Attach');
+    buttonEl.toggleClass('is-attached', attached);
+  }
+}
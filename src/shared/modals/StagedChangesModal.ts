@@ -0,0 +1,63 @@
+import { type App, Modal, Setting } from 'obsidian';
+
+import { t } from '../../i18n';
+
+export type StagedChangesAction = 'apply' | 'discard';
+
+/** Asks whether to apply or discard unreviewed dry-run changes; resolves null when dismissed. */
+export function chooseStagedChangesAction(app: App, count: number): Promise<StagedChangesAction | null> {
+  return new Promise(resolve => {
+    new StagedChangesModal(app, count, resolve).open();
+  });
+}
+
+class StagedChangesModal extends Modal {
+  private count: number;
+  private resolve: (action: StagedChangesAction | null) => void;
+  private resolved = false;
+
+  constructor(app: App, count: number, resolve: (action: StagedChangesAction | null) => void) {
+    super(app);
+    this.count = count;
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    this.setTitle(t('chat.dryRunLeave.title'));
+    this.modalEl.addClass('claudian-confirm-modal');
+
+    this.contentEl.createEl('p', { text: t('chat.dryRunLeave.message', { count: String(this.count) }) });
+
+    new Setting(this.contentEl)
+      .addButton(btn =>
+        btn
+          .setButtonText(t('common.cancel'))
+          .onClick(() => this.close())
+      )
+      .addButton(btn =>
+        btn
+          .setButtonText(t('chat.dryRunLeave.discard'))
+          .setWarning()
+          .onClick(() => this.choose('discard'))
+      )
+      .addButton(btn =>
+        btn
+          .setButtonText(t('chat.dryRunLeave.apply'))
+          .setCta()
+          .onClick(() => this.choose('apply'))
+      );
+  }
+
+  private choose(action: StagedChangesAction): void {
+    this.resolved = true;
+    this.resolve(action);
+    this.close();
+  }
+
+  onClose() {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+}
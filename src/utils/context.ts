@@ -1,9 +1,11 @@
 /**
  * Claudian - Context Utilities
  *
- * Current note and context file formatting for prompts.
+ * Current note, context file and MCP resource formatting for prompts.
  */
 
+import type { McpResourceContent } from '../core/mcp/McpTester';
+
 // Matches <current_note> at the START of prompt (legacy format)
 const CURRENT_NOTE_PREFIX_REGEX = /^<current_note>\n[\s\S]*?<\/current_note>\n\n/;
 // Matches <current_note> at the END of prompt (current format)
@@ -12,9 +14,10 @@ const CURRENT_NOTE_SUFFIX_REGEX = /\n\n<current_note>\n[\s\S]*?<\/current_note>$
 /**
  * Pattern to match XML context tags appended to prompts.
  * These tags are always preceded by \n\n separator.
- * Matches: current_note, editor_selection (with attributes), editor_cursor (with attributes), context_files
+ * Matches: current_note, editor_selection (with attributes), editor_cursor (with attributes), context_files,
+ * canvas_selection, mcp_resources
  */
-export const XML_CONTEXT_PATTERN = /\n\n<(?:current_note|editor_selection|editor_cursor|context_files|canvas_selection)[\s>]/;
+export const XML_CONTEXT_PATTERN = /\n\n<(?:current_note|editor_selection|editor_cursor|context_files|canvas_selection|mcp_resources)[\s>]/;
 
 export function formatCurrentNote(notePath: string): string {
   return `<current_note>\n${notePath}\n</current_note>`;
@@ -86,6 +89,7 @@ export function extractUserQuery(prompt: string): string {
     .replace(/<editor_cursor[\s\S]*?<\/editor_cursor>\s*/g, '')
     .replace(/<context_files>[\s\S]*?<\/context_files>\s*/g, '')
     .replace(/<canvas_selection[\s\S]*?<\/canvas_selection>\s*/g, '')
+    .replace(/<mcp_resources>[\s\S]*?<\/mcp_resources>\s*/g, '')
     .trim();
 }
 
@@ -96,3 +100,45 @@ function formatContextFilesLine(files: string[]): string {
 export function appendContextFiles(prompt: string, files: string[]): string {
   return `${prompt}\n\n${formatContextFilesLine(files)}`;
 }
+
+/** Resource text beyond this many characters is cut off. */
+export const MAX_MCP_RESOURCE_TEXT_LENGTH = 100_000;
+
+export interface McpResourceContext {
+  server: string;
+  uri: string;
+  contents: McpResourceContent[];
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function formatMcpResourceContent(server: string, content: McpResourceContent): string {
+  const attrs = [`server="${escapeXmlAttribute(server)}"`, `uri="${escapeXmlAttribute(content.uri)}"`];
+  if (content.mimeType) attrs.push(`mime_type="${escapeXmlAttribute(content.mimeType)}"`);
+
+  let body: string;
+  if (content.text !== undefined) {
+    body = content.text.length > MAX_MCP_RESOURCE_TEXT_LENGTH
+      ? `${content.text.slice(0, MAX_MCP_RESOURCE_TEXT_LENGTH)}\n[truncated: ${content.text.length} characters total]`
+      : content.text;
+  } else {
+    // Binary content is described rather than inlined
+    const blob = content.blob ?? '';
+    const padding = blob.endsWith('==') ? 2 : blob.endsWith('=') ? 1 : 0;
+    const bytes = Math.floor((blob.length * 3) / 4) - padding;
+    body = `[binary content, ${bytes} bytes]`;
+  }
+
+  return `<resource ${attrs.join(' ')}>\n${body}\n</resource>`;
+}
+
+/** Appends the contents of MCP resources the user attached to the message. */
+export function appendMcpResources(prompt: string, resources: McpResourceContext[]): string {
+  const blocks = resources.flatMap(resource =>
+    resource.contents.map(content => formatMcpResourceContent(resource.server, content))
+  );
+  if (blocks.length === 0) return prompt;
+  return `${prompt}\n\n<mcp_resources>\n${blocks.join('\n')}\n</mcp_resources>`;
+}
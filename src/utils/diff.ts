@@ -104,3 +104,83 @@ export function diffFromToolInput(toolCall: ToolCallInfo, filePath: string): Too
 
   return undefined;
 }
+
+/** Above this many line pairs the changed middle of a diff is shown as a full replace. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts, for changes that have no SDK structuredPatch
+ * (e.g. staged dry-run writes). A null old text is a new file.
+ */
+export function computeLineDiff(oldText: string | null, newText: string): DiffLine[] {
+  const oldLines = oldText === null ? [] : oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const ops: DiffLine['type'][] = [];
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    ops.push(...oldMiddle.map(() => 'delete' as const), ...newMiddle.map(() => 'insert' as const));
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        ops.push('equal');
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push('delete');
+        i++;
+      } else {
+        ops.push('insert');
+        j++;
+      }
+    }
+    while (i++ < oldMiddle.length) ops.push('delete');
+    while (j++ < newMiddle.length) ops.push('insert');
+  }
+
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const allOps: DiffLine['type'][] = [
+    ...new Array<DiffLine['type']>(prefix).fill('equal'),
+    ...ops,
+    ...new Array<DiffLine['type']>(suffix).fill('equal'),
+  ];
+  for (const type of allOps) {
+    if (type === 'equal') {
+      result.push({ type, text: oldLines[oldIndex], oldLineNum: ++oldIndex, newLineNum: ++newIndex });
+    } else if (type === 'delete') {
+      result.push({ type, text: oldLines[oldIndex], oldLineNum: ++oldIndex });
+    } else {
+      result.push({ type, text: newLines[newIndex], newLineNum: ++newIndex });
+    }
+  }
+  return result;
+}
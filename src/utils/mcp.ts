@@ -1,6 +1,9 @@
+import type { McpToolSelection } from '../core/types';
+
 export function extractMcpMentions(text: string, validNames: Set<string>): Set<string> {
   const mentions = new Set<string>();
-  const regex = /@([a-zA-Z0-9._-]+)(?!\/)/g;
+  // `@server:resource` attaches a resource and does not enable the server
+  const regex = /@([a-zA-Z0-9._-]+)(?!\/)(?!:\S)/g;
   let match: RegExpExecArray | null;
 
   while ((match = regex.exec(text)) !== null) {
@@ -27,12 +30,12 @@ export function transformMcpMentions(text: string, validNames: Set<string>): str
   const escapedNames = sortedNames.map(escapeRegExp).join('|');
   // Match @name that:
   // - is not already followed by " MCP"
-  // - is not followed by "/" (context folder)
+  // - is not followed by "/" (context folder) or ":" + non-space (resource mention)
   // - is not followed by alphanumeric/underscore/hyphen (partial match)
   // - is not followed by "." + word char (e.g., @test in @test.server)
   // This allows @server. (period as punctuation) while preventing @test.foo matches
   const pattern = new RegExp(
-    `@(${escapedNames})(?! MCP)(?!/)(?![a-zA-Z0-9_-])(?!\\.[a-zA-Z0-9_-])`,
+    `@(${escapedNames})(?! MCP)(?!/)(?!:\\S)(?![a-zA-Z0-9_-])(?!\\.[a-zA-Z0-9_-])`,
     'g'
   );
 
@@ -94,3 +97,62 @@ export function splitCommandString(cmdStr: string): string[] {
 
   return parts;
 }
+
+const URI_TEMPLATE_EXPRESSION = /\{([+#./;?&]?)([^{}]+)\}/g;
+
+/** Variable names of an RFC 6570 URI template, in order of first use. */
+export function getUriTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(URI_TEMPLATE_EXPRESSION)) {
+    for (const raw of match[2].split(',')) {
+      const name = raw.trim().replace(/\*$|:\d+$/, '');
+      if (name && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Expands an RFC 6570 URI template. Supports simple (`{var}`), reserved (`{+var}`),
+ * fragment (`{#var}`), label, path and query expressions with string values.
+ */
+export function expandUriTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(URI_TEMPLATE_EXPRESSION, (_match, operator: string, list: string) => {
+    const allowReserved = operator === '+' || operator === '#';
+    const encode = (value: string) => allowReserved ? encodeURI(value) : encodeURIComponent(value);
+    const names = list.split(',').map(raw => raw.trim().replace(/\*$|:\d+$/, ''));
+    const defined = names.filter(name => values[name] !== undefined);
+    if (defined.length === 0) return '';
+
+    switch (operator) {
+      case '?':
+      case '&':
+        return operator + defined.map(name => `${name}=${encode(values[name])}`).join('&');
+      case ';':
+        return defined.map(name => `;${name}=${encode(values[name])}`).join('');
+      case '.':
+      case '/':
+        return defined.map(name => operator + encode(values[name])).join('');
+      case '#':
+        return '#' + defined.map(name => encode(values[name])).join(',');
+      default:
+        return defined.map(name => encode(values[name])).join(',');
+    }
+  });
+}
+
+/**
+ * Whether a `mcp__<server>__<tool>` call passes a per-conversation tool selection.
+ * Non-MCP tools and tools of servers without a selection are always enabled.
+ */
+export function isMcpToolEnabled(toolName: string, selection: McpToolSelection): boolean {
+  // Server names may contain underscores, so the longest matching server prefix wins
+  let matched: { prefix: string; tools: string[] } | null = null;
+  for (const [server, tools] of Object.entries(selection)) {
+    const prefix = `mcp__${server}__`;
+    if (toolName.startsWith(prefix) && (!matched || prefix.length > matched.prefix.length)) {
+      matched = { prefix, tools };
+    }
+  }
+  return !matched || matched.tools.includes(toolName.slice(matched.prefix.length));
+}
@@ -0,0 +1,40 @@
+import { execFile } from 'child_process';
+
+const PS_TIMEOUT = 5000;
+
+/** Parses `ps -o pid=,rss=` output into resident memory in bytes per PID. */
+export function parsePsMemoryOutput(stdout: string): Map<number, number> {
+  const memory = new Map<number, number>();
+  for (const line of stdout.split('\n')) {
+    const match = line.trim().match(/^(\d+)\s+(\d+)$/);
+    if (!match) continue;
+    // ps reports RSS in kilobytes
+    memory.set(Number(match[1]), Number(match[2]) * 1024);
+  }
+  return memory;
+}
+
+/**
+ * Resident memory of the given processes, in bytes. Processes that have exited
+ * are left out. Resolves with an empty map on Windows or when ps fails.
+ */
+export function getProcessMemory(pids: number[]): Promise<Map<number, number>> {
+  if (pids.length === 0 || process.platform === 'win32') {
+    return Promise.resolve(new Map());
+  }
+
+  return new Promise(resolve => {
+    execFile('ps', ['-o', 'pid=,rss=', '-p', pids.join(',')], {
+      timeout: PS_TIMEOUT,
+      windowsHide: true,
+    }, (_error, stdout) => {
+      // ps exits non-zero when some PIDs are gone, but still lists the others
+      resolve(parsePsMemoryOutput(String(stdout ?? '')));
+    });
+  });
+}
+
+/** Formats a byte count as whole megabytes, e.g. "182 MB". */
+export function formatMemory(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
@@ -755,11 +755,13 @@ function isSystemInjectedMessage(sdkMsg: SDKNativeMessage): boolean {
 /**
  * After rewind + follow-up, the JSONL forms a tree via parentUuid. Walks backward
  * from the newest branch leaf to collect only active entries. Without branching,
- * resumeSessionAt truncates the linear chain at that UUID.
+ * resumeSessionAt truncates the linear chain at that UUID. Passing leafUuid
+ * selects that branch instead (e.g. one left behind by a rewind).
  */
 export function filterActiveBranch(
   entries: SDKNativeMessage[],
-  resumeSessionAt?: string
+  resumeSessionAt?: string,
+  leafUuid?: string
 ): SDKNativeMessage[] {
   if (entries.length === 0) return [];
 
@@ -795,7 +797,9 @@ export function filterActiveBranch(
 
   let leaf: SDKNativeMessage | undefined;
 
-  if (hasBranching) {
+  if (leafUuid && byUuid.has(leafUuid)) {
+    leaf = byUuid.get(leafUuid);
+  } else if (hasBranching) {
     // Pick last-appearing leaf (no children) in file order — more robust than
     // "last entry with uuid" which breaks on trailing non-dialog nodes
     for (let i = deduped.length - 1; i >= 0; i--) {
@@ -869,6 +873,88 @@ export function filterActiveBranch(
   });
 }
 
+/** A branch of a session file that is no longer active, left behind by a rewind. */
+export interface SDKSessionBranch {
+  /** Last entry of the branch; pass it to loadSDKSessionMessages to load the branch. */
+  leafUuid: string;
+  /** User prompts the branch shares with the active branch before diverging. */
+  sharedPromptCount: number;
+  /** First prompt after the branch diverged. */
+  preview: string;
+  /** Time of the branch's last entry. */
+  timestamp: number;
+}
+
+function isUserPrompt(entry: SDKNativeMessage): boolean {
+  if (entry.type !== 'user' || isSystemInjectedMessage(entry)) return false;
+  const text = extractTextContent(entry.message?.content);
+  return !!text && !isInterruptSignalText(text) && !isRebuiltContextContent(text);
+}
+
+/**
+ * Lists the branches of a session other than the active one. Each leaf off the
+ * active branch whose divergent part contains a user prompt is one branch.
+ */
+export function findInactiveBranches(
+  entries: SDKNativeMessage[],
+  resumeSessionAt?: string
+): SDKSessionBranch[] {
+  const active = filterActiveBranch(entries, resumeSessionAt);
+  const activeUuids = new Set(active.map(entry => entry.uuid).filter((uuid): uuid is string => !!uuid));
+
+  const byUuid = new Map<string, SDKNativeMessage>();
+  const parents = new Set<string>();
+  for (const entry of entries) {
+    if (entry.uuid) byUuid.set(entry.uuid, entry);
+    if (entry.parentUuid) parents.add(entry.parentUuid);
+  }
+
+  const branches: SDKSessionBranch[] = [];
+  for (const [uuid, leaf] of byUuid) {
+    if (parents.has(uuid) || activeUuids.has(uuid)) continue;
+    if (leaf.type !== 'user' && leaf.type !== 'assistant') continue;
+
+    // Walk up to where the branch rejoins the active one
+    const divergent: SDKNativeMessage[] = [];
+    let current: SDKNativeMessage | undefined = leaf;
+    while (current?.uuid && !activeUuids.has(current.uuid)) {
+      divergent.unshift(current);
+      current = current.parentUuid ? byUuid.get(current.parentUuid) : undefined;
+    }
+
+    const firstPrompt = divergent.find(isUserPrompt);
+    if (!firstPrompt) continue;
+
+    let sharedPromptCount = 0;
+    if (current?.uuid) {
+      for (const entry of active) {
+        if (isUserPrompt(entry)) sharedPromptCount++;
+        if (entry.uuid === current.uuid) break;
+      }
+    }
+
+    branches.push({
+      leafUuid: uuid,
+      sharedPromptCount,
+      preview: extractTextContent(firstPrompt.message?.content).slice(0, 120),
+      timestamp: leaf.timestamp ? new Date(leaf.timestamp).getTime() : 0,
+    });
+  }
+
+  return branches.sort((a, b) => a.sharedPromptCount - b.sharedPromptCount || a.timestamp - b.timestamp);
+}
+
+/** Reads a session file and lists its inactive branches. */
+export async function listSDKSessionBranches(
+  vaultPath: string,
+  sessionId: string,
+  resumeSessionAt?: string
+): Promise<SDKSessionBranch[]> {
+  const result = await readSDKSession(vaultPath, sessionId);
+  if (result.error) return [];
+  return findInactiveBranches(result.messages, resumeSessionAt);
+}
+
 export interface SDKSessionLoadResult {
   messages: ChatMessage[];
   skippedLines: number;
@@ -984,7 +1070,8 @@ function buildAsyncSubagentInfo(
 export async function loadSDKSessionMessages(
   vaultPath: string,
   sessionId: string,
-  resumeSessionAt?: string
+  resumeSessionAt?: string,
+  leafUuid?: string
 ): Promise<SDKSessionLoadResult> {
   const result = await readSDKSession(vaultPath, sessionId);
 
@@ -992,7 +1079,7 @@ export async function loadSDKSessionMessages(
     return { messages: [], skippedLines: result.skippedLines, error: result.error };
   }
 
-  const filteredEntries = filterActiveBranch(result.messages, resumeSessionAt);
+  const filteredEntries = filterActiveBranch(result.messages, resumeSessionAt, leafUuid);
 
   const toolResults = collectToolResults(filteredEntries);
   const toolUseResults = collectStructuredPatchResults(filteredEntries);
@@ -78,6 +78,7 @@ function createMockMcpManager() {
     getServers: jest.fn().mockReturnValue([]),
     getEnabledCount: jest.fn().mockReturnValue(0),
     getActiveServers: jest.fn().mockReturnValue({}),
+    refreshOAuthTokens: jest.fn().mockResolvedValue(undefined),
     getDisallowedMcpTools: jest.fn().mockReturnValue([]),
     getAllDisallowedMcpTools: jest.fn().mockReturnValue([]),
     hasServers: jest.fn().mockReturnValue(false),
@@ -149,6 +150,7 @@ function createMockPlugin(settings: Record<string, unknown> = {}) {
     pluginManager: {
       getPluginsKey: jest.fn().mockReturnValue(''),
       hasEnabledPlugins: jest.fn().mockReturnValue(false),
+      getPlugins: jest.fn().mockReturnValue([]),
     },
   } as any;
   return mockPlugin;
@@ -2012,7 +2014,7 @@ describe('ClaudianService', () => {
     // now extracts usage from assistant messages (not result messages) to avoid
     // inaccurate spikes from aggregated subagent tokens
 
-    it('should emit no chunks for result messages (usage now comes from assistant messages)', () => {
+    it('should emit only a cost chunk for result messages (usage now comes from assistant messages)', () => {
       const sdkMessage: any = {
         type: 'result',
         modelUsage: {
@@ -2026,7 +2028,8 @@ describe('ClaudianService', () => {
       };
 
       const chunks = Array.from(transformSDKMessage(sdkMessage));
-      expect(chunks).toHaveLength(0);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ type: 'cost', cost: { totals: { inputTokens: 10 } } });
     });
   });
 
@@ -0,0 +1,193 @@
+import * as http from 'http';
+
+import {
+  getOAuthAuthorizationHeader,
+  isOAuthStateFor,
+  type McpOAuthState,
+  needsOAuthRefresh,
+  refreshMcpOAuthState,
+  signInToMcpServer,
+} from '@/core/mcp';
+
+interface AuthServer {
+  origin: string;
+  serverUrl: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/** Minimal stand-in for an MCP server's OAuth authorization server. */
+async function startAuthServer(options: { expiresIn?: number } = {}): Promise<AuthServer> {
+  const requests: string[] = [];
+  let tokenCounter = 0;
+  let origin = '';
+
+  const readBody = (req: http.IncomingMessage) => new Promise<string>((resolve) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+    req.on('end', () => resolve(body));
+  });
+
+  const json = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const issueTokens = (res: http.ServerResponse) => {
+    tokenCounter++;
+    json(res, 200, {
+      access_token: `access-${tokenCounter}`,
+      token_type: 'Bearer',
+      expires_in: options.expiresIn ?? 3600,
+      refresh_token: `refresh-${tokenCounter}`,
+    });
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', origin);
+    requests.push(`${req.method} ${url.pathname}`);
+
+    if (url.pathname.startsWith('/.well-known/oauth-protected-resource')) {
+      json(res, 200, { resource: `${origin}/mcp`, authorization_servers: [origin] });
+      return;
+    }
+    if (url.pathname === '/.well-known/oauth-authorization-server') {
+      json(res, 200, {
+        issuer: origin,
+        authorization_endpoint: `${origin}/authorize`,
+        token_endpoint: `${origin}/token`,
+        registration_endpoint: `${origin}/register`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256'],
+      });
+      return;
+    }
+    if (url.pathname === '/register' && req.method === 'POST') {
+      const metadata = JSON.parse(await readBody(req));
+      json(res, 201, { ...metadata, client_id: 'test-client' });
+      return;
+    }
+    if (url.pathname === '/authorize') {
+      const redirect = new URL(url.searchParams.get('redirect_uri') ?? '');
+      redirect.searchParams.set('code', 'test-code');
+      redirect.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { Location: redirect.toString() });
+      res.end();
+      return;
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const params = new URLSearchParams(await readBody(req));
+      const grantType = params.get('grant_type');
+      if (grantType === 'authorization_code' && params.get('code') === 'test-code' && params.get('code_verifier')) {
+        issueTokens(res);
+        return;
+      }
+      if (grantType === 'refresh_token' && params.get('refresh_token') === `refresh-${tokenCounter}`) {
+        issueTokens(res);
+        return;
+      }
+      json(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  origin = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+
+  return {
+    origin,
+    serverUrl: `${origin}/mcp`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** Plays the browser: follows the authorization redirect back to the loopback callback. */
+async function followInBrowser(url: URL): Promise<void> {
+  await fetch(url);
+}
+
+describe('McpOAuth', () => {
+  let authServer: AuthServer;
+
+  afterEach(async () => {
+    await authServer?.close();
+  });
+
+  describe('signInToMcpServer', () => {
+    it('registers a client and exchanges the authorization code for tokens', async () => {
+      authServer = await startAuthServer();
+      const openUrl = jest.fn(followInBrowser);
+
+      const state = await signInToMcpServer(authServer.serverUrl, { openUrl, timeoutMs: 5000 });
+
+      expect(openUrl).toHaveBeenCalledTimes(1);
+      const authorizationUrl = openUrl.mock.calls[0][0];
+      expect(authorizationUrl.pathname).toBe('/authorize');
+      expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(authorizationUrl.searchParams.get('redirect_uri')).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+
+      expect(state.serverUrl).toBe(authServer.serverUrl);
+      expect(state.tokens.access_token).toBe('access-1');
+      expect(state.tokens.refresh_token).toBe('refresh-1');
+      expect(state.clientInformation?.client_id).toBe('test-client');
+      expect(state.expiresAt).toBeGreaterThan(Date.now());
+      expect(getOAuthAuthorizationHeader(state)).toBe('Bearer access-1');
+      expect(authServer.requests).toEqual(expect.arrayContaining(['POST /register', 'GET /authorize', 'POST /token']));
+    });
+
+    it('rejects when the browser never returns to the callback', async () => {
+      authServer = await startAuthServer();
+
+      await expect(
+        signInToMcpServer(authServer.serverUrl, { openUrl: () => {}, timeoutMs: 50 })
+      ).rejects.toThrow('Timed out waiting for sign-in');
+    });
+  });
+
+  describe('refreshMcpOAuthState', () => {
+    it('exchanges the refresh token for a new access token', async () => {
+      authServer = await startAuthServer({ expiresIn: 30 });
+      const signedIn = await signInToMcpServer(authServer.serverUrl, { openUrl: followInBrowser, timeoutMs: 5000 });
+      expect(needsOAuthRefresh(signedIn)).toBe(true);
+
+      const refreshed = await refreshMcpOAuthState(authServer.serverUrl, signedIn);
+
+      expect(refreshed.serverUrl).toBe(authServer.serverUrl);
+      expect(refreshed.tokens.access_token).toBe('access-2');
+      expect(refreshed.tokens.refresh_token).toBe('refresh-2');
+      expect(refreshed.clientInformation?.client_id).toBe('test-client');
+    });
+
+    it('asks to sign in again when there is no refresh token', async () => {
+      authServer = await startAuthServer();
+      const state: McpOAuthState = { serverUrl: authServer.serverUrl, tokens: { access_token: 'a', token_type: 'Bearer' }, expiresAt: 0 };
+
+      await expect(refreshMcpOAuthState(authServer.serverUrl, state)).rejects.toThrow('sign in again');
+    });
+  });
+
+  describe('needsOAuthRefresh', () => {
+    it('refreshes tokens that expire within the margin only', () => {
+      const signedIn = { serverUrl: 'https://example.com/mcp', tokens: { access_token: 'a', token_type: 'Bearer' } };
+      const now = 1_000_000;
+
+      expect(needsOAuthRefresh(signedIn, now)).toBe(false);
+      expect(needsOAuthRefresh({ ...signedIn, expiresAt: now + 10_000 }, now)).toBe(true);
+      expect(needsOAuthRefresh({ ...signedIn, expiresAt: now + 3_600_000 }, now)).toBe(false);
+    });
+  });
+
+  describe('isOAuthStateFor', () => {
+    it('matches only the server URL the tokens were issued for', () => {
+      const signedIn = { serverUrl: 'https://example.com/mcp', tokens: { access_token: 'a', token_type: 'Bearer' } };
+
+      expect(isOAuthStateFor(signedIn, 'https://example.com/mcp')).toBe(true);
+      expect(isOAuthStateFor(signedIn, 'https://attacker.example/mcp')).toBe(false);
+    });
+  });
+});
@@ -41,6 +41,7 @@ describe('ClaudianPlugin', () => {
           setViewState: jest.fn().mockResolvedValue(undefined),
         }),
         revealLeaf: jest.fn(),
+        onLayoutReady: jest.fn(),
       },
     };
 
@@ -55,6 +56,11 @@ describe('ClaudianPlugin', () => {
     (plugin.loadData as jest.Mock).mockResolvedValue({});
   });
 
+  afterEach(() => {
+    plugin.scheduler?.stop();
+    plugin.mcpManager?.stopHealthMonitor();
+  });
+
   describe('onload', () => {
     it('should initialize settings with defaults', async () => {
       await plugin.onload();
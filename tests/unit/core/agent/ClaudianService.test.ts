@@ -2,8 +2,10 @@ import * as sdkModule from '@anthropic-ai/claude-agent-sdk';
 
 import { ClaudianService } from '@/core/agent/ClaudianService';
 import { MessageChannel } from '@/core/agent/MessageChannel';
+import { QueryOptionsBuilder } from '@/core/agent/QueryOptionsBuilder';
 import { createResponseHandler } from '@/core/agent/types';
 import type { McpServerManager } from '@/core/mcp';
+import { SpendLedger } from '@/core/usage';
 import type ClaudianPlugin from '@/main';
 import * as envUtils from '@/utils/env';
 import * as sessionUtils from '@/utils/session';
@@ -63,13 +65,16 @@ describe('ClaudianService', () => {
       getActiveEnvironmentVariables: jest.fn().mockReturnValue(''),
       pluginManager: {
         getPluginsKey: jest.fn().mockReturnValue(''),
+        getPlugins: jest.fn().mockReturnValue([]),
       },
+      spendLedger: new SpendLedger({ load: async () => [], append: async () => {} }),
     } as unknown as ClaudianPlugin;
 
     mockMcpManager = {
       loadServers: jest.fn().mockResolvedValue(undefined),
       getAllDisallowedMcpTools: jest.fn().mockReturnValue([]),
       getActiveServers: jest.fn().mockReturnValue({}),
+      refreshOAuthTokens: jest.fn().mockResolvedValue(undefined),
       getDisallowedMcpTools: jest.fn().mockReturnValue([]),
     } as unknown as MockMcpServerManager;
 
@@ -1661,6 +1666,112 @@ describe('ClaudianService', () => {
     });
   });
 
+  describe('budget caps', () => {
+    const spent = (costUsd: number) => ({
+      totals: { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd },
+      byModel: {},
+      byDay: {},
+    });
+
+    beforeEach(() => {
+      Object.assign(mockPlugin.settings!, {
+        budgetConversationUsd: 1,
+        budgetDailyUsd: 0,
+        budgetVaultUsd: 0,
+        budgetExceededAction: 'block',
+      });
+      (mockPlugin as any).getConversationList = jest.fn().mockReturnValue([
+        { id: 'conv-1', cost: spent(1.5) },
+        { id: 'conv-2', cost: spent(0.25) },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('blocks the turn when a cap is reached', async () => {
+      const chunks = await collectChunks(service.query('hello', undefined, undefined, { conversationId: 'conv-1' }));
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].type).toBe('error');
+      expect(chunks[0].content).toContain('Conversation budget of $1.00 reached ($1.50 spent).');
+    });
+
+    it('allows turns under the cap', async () => {
+      await expect((service as any).checkBudget('conv-2')).resolves.toBeNull();
+    });
+
+    it('asks through the approval callback when set to confirm', async () => {
+      mockPlugin.settings!.budgetExceededAction = 'confirm';
+      const approval = jest.fn().mockResolvedValue('deny');
+      service.setApprovalCallback(approval);
+
+      await expect((service as any).checkBudget('conv-1')).resolves.toContain('Conversation budget');
+      expect(approval).toHaveBeenCalledWith(
+        'Budget',
+        {},
+        expect.stringContaining('Send this message anyway?'),
+        { decisionReason: 'Budget cap reached' },
+      );
+
+      approval.mockResolvedValue('allow');
+      await expect((service as any).checkBudget('conv-1')).resolves.toBeNull();
+    });
+
+    it('stops asking for a cap after "always allow"', async () => {
+      mockPlugin.settings!.budgetExceededAction = 'confirm';
+      const approval = jest.fn().mockResolvedValue('allow-always');
+      service.setApprovalCallback(approval);
+
+      await (service as any).checkBudget('conv-1');
+      await expect((service as any).checkBudget('conv-1')).resolves.toBeNull();
+      expect(approval).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not carry an "always allow" for an unsaved conversation over to others', async () => {
+      mockPlugin.settings!.budgetExceededAction = 'confirm';
+      jest.spyOn(mockPlugin.spendLedger!, 'getSpend').mockReturnValue({ conversation: 1.5, day: 1.5, vault: 1.5 });
+      const approval = jest.fn().mockResolvedValue('allow-always');
+      service.setApprovalCallback(approval);
+
+      await (service as any).checkBudget(null);
+      await (service as any).checkBudget(null);
+
+      expect(approval).toHaveBeenCalledTimes(2);
+    });
+
+    it('counts the spend of deleted conversations and compare branches against the daily cap', async () => {
+      Object.assign(mockPlugin.settings!, { budgetConversationUsd: 0, budgetDailyUsd: 2 });
+      (mockPlugin as any).getConversationList = jest.fn().mockReturnValue([]);
+      mockPlugin.spendLedger!.record(1.5, 'deleted-conv');
+      mockPlugin.spendLedger!.record(0.75, 'conv-2');
+
+      await expect((service as any).checkBudget('conv-2')).resolves.toContain('Daily budget of $2.00 reached ($2.25 spent).');
+    });
+
+    it('records the cost of every cold-start turn in the spend ledger', async () => {
+      Object.assign(mockPlugin.settings!, { budgetConversationUsd: 0 });
+      const record = jest.spyOn(mockPlugin.spendLedger!, 'record');
+      sdkMock.setMockMessages([
+        { type: 'system', subtype: 'init', session_id: 'ledger-session' },
+        { type: 'result', subtype: 'success', total_cost_usd: 0.3, usage: {}, modelUsage: {} },
+      ]);
+
+      await collectChunks(service.query('hello', undefined, undefined, { forceColdStart: true, conversationId: 'conv-2' }));
+      sdkMock.resetMockMessages();
+
+      expect(record).toHaveBeenCalledWith(0.3, 'conv-2');
+    });
+
+    it('skips the check when no cap is set', async () => {
+      mockPlugin.settings!.budgetConversationUsd = 0;
+
+      await expect((service as any).checkBudget('conv-1')).resolves.toBeNull();
+      expect(mockPlugin.getConversationList).not.toHaveBeenCalled();
+    });
+  });
+
   describe('query() - interrupted flag and history rebuild', () => {
     beforeEach(() => {
       sdkMock.resetMockMessages();
@@ -2863,6 +2974,48 @@ describe('ClaudianService', () => {
     });
   });
 
+  describe('buildHooks - dry-run permission mode', () => {
+    const writeCall = { tool_name: 'Write', tool_input: { file_path: 'note.md', content: 'new' } };
+
+    beforeEach(() => {
+      sdkMock.resetMockMessages();
+      sdkMock.setMockMessages([{ type: 'system', subtype: 'init', session_id: 'dry-run-mode' }]);
+      (service as any).vaultPath = null;
+    });
+
+    afterEach(() => {
+      sdkMock.resetMockMessages();
+      jest.restoreAllMocks();
+    });
+
+    function spyOnStage() {
+      return jest.spyOn(service.getDryRunStaging(), 'stage')
+        .mockResolvedValue({ staged: true, change: { filePath: 'note.md' } } as any);
+    }
+
+    it('stages edits of a background run whose override is dry-run', async () => {
+      (mockPlugin as any).settings.permissionMode = 'yolo';
+      const stage = spyOnStage();
+
+      await collectChunks(service.query('run task', undefined, undefined, { forceColdStart: true, permissionMode: 'dry-run' }));
+      const result = await (service as any).buildHooks().PreToolUse[3].hooks[0](writeCall);
+
+      expect(stage).toHaveBeenCalledWith('Write', writeCall.tool_input);
+      expect(result.hookSpecificOutput.permissionDecision).toBe('deny');
+    });
+
+    it('writes edits of a background run whose override is not dry-run while the chat is in dry-run', async () => {
+      (mockPlugin as any).settings.permissionMode = 'dry-run';
+      const stage = spyOnStage();
+
+      await collectChunks(service.query('run task', undefined, undefined, { forceColdStart: true, permissionMode: 'yolo' }));
+      const result = await (service as any).buildHooks().PreToolUse[3].hooks[0](writeCall);
+
+      expect(stage).not.toHaveBeenCalled();
+      expect(result).toEqual({ continue: true });
+    });
+  });
+
   describe('queryViaSDK - stream text dedup and allowedTools', () => {
     beforeEach(() => {
       sdkMock.resetMockMessages();
@@ -3020,6 +3173,49 @@ describe('ClaudianService', () => {
     });
   });
 
+  describe('rewindConversation', () => {
+    it('resumes at the assistant message without touching files', () => {
+      const mockRewindFiles = jest.fn();
+      (service as any).persistentQuery = { rewindFiles: mockRewindFiles, interrupt: jest.fn().mockResolvedValue(undefined) };
+      (service as any).messageChannel = { close: jest.fn() };
+      (service as any).queryAbortController = { abort: jest.fn() };
+
+      service.rewindConversation('assistant-uuid');
+
+      expect(mockRewindFiles).not.toHaveBeenCalled();
+      expect((service as any).pendingResumeAt).toBe('assistant-uuid');
+      expect((service as any).persistentQuery).toBeNull();
+    });
+
+    it('starts a fresh session when rewinding the first turn', () => {
+      service.setSessionId('session-1');
+
+      service.rewindConversation(null);
+
+      expect(service.getSessionId()).toBeNull();
+      expect((service as any).pendingResumeAt).toBeUndefined();
+    });
+  });
+
+  describe('getProcessId', () => {
+    it('reports the PID of the spawned CLI process until the query is closed', () => {
+      jest.spyOn(QueryOptionsBuilder, 'buildPersistentQueryOptions').mockReturnValue({
+        spawnClaudeCodeProcess: () => ({ pid: 4242 }) as any,
+      });
+
+      const options = (service as any).buildPersistentQueryOptions('/vault', '/cli');
+      options.spawnClaudeCodeProcess({});
+      (service as any).persistentQuery = { interrupt: jest.fn().mockResolvedValue(undefined) };
+      (service as any).messageChannel = { close: jest.fn() };
+
+      expect(service.getProcessId()).toBe(4242);
+
+      service.closePersistentQuery('hibernated');
+
+      expect(service.getProcessId()).toBeNull();
+    });
+  });
+
   describe('buildSDKUserMessage uuid', () => {
     it('assigns a uuid to text-only messages', () => {
       const message = (service as any).buildSDKUserMessage('Hello');
@@ -544,6 +544,110 @@ describe('QueryOptionsBuilder', () => {
       expect(options.model).toBe('claude-opus-4-5');
     });
 
+    it('runs the main thread as the given agent', () => {
+      const ctx = {
+        ...createMockContext(),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+        agent: {
+          id: 'reviewer',
+          name: 'reviewer',
+          description: 'Reviews notes',
+          prompt: 'You review notes.',
+          tools: ['Read', 'Grep'],
+          model: 'haiku' as const,
+          source: 'vault' as const,
+        },
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.agent).toBe('reviewer');
+      expect(options.agents).toEqual({
+        reviewer: {
+          description: 'Reviews notes',
+          prompt: 'You review notes.',
+          tools: ['Read', 'Grep'],
+          disallowedTools: undefined,
+          model: 'haiku',
+          skills: undefined,
+        },
+      });
+    });
+
+    it('adds the query-specific disallowed tools', () => {
+      const ctx = {
+        ...createMockContext(),
+        abortController: new AbortController(),
+        hooks: {},
+        disallowedTools: ['Write', 'Bash'],
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.disallowedTools).toEqual(expect.arrayContaining(['Write', 'Bash']));
+    });
+
+    it('passes the MCP tool selection to the disallowed tools lookup', () => {
+      const mcpManager = createMockMcpManager();
+      mcpManager.getDisallowedMcpTools.mockReturnValue(['mcp__docs__delete']);
+      const ctx = {
+        ...createMockContext({ mcpManager, mcpToolSelection: { docs: ['search'] } }),
+        abortController: new AbortController(),
+        hooks: {},
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(mcpManager.getDisallowedMcpTools).toHaveBeenCalledWith(expect.any(Set), { docs: ['search'] });
+      expect(options.disallowedTools).toContain('mcp__docs__delete');
+    });
+
+    it('forks the resumed session when forkSession is set', () => {
+      const ctx = {
+        ...createMockContext(),
+        abortController: new AbortController(),
+        hooks: {},
+        sessionId: 'session-123',
+        forkSession: true,
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.resume).toBe('session-123');
+      expect(options.forkSession).toBe(true);
+    });
+
+    it('uses thinking budget override when provided', () => {
+      const ctx = {
+        ...createMockContext({
+          settings: createMockSettings({ thinkingBudget: 'high' }),
+        }),
+        abortController: new AbortController(),
+        hooks: {},
+        thinkingBudgetOverride: 'low' as const,
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.maxThinkingTokens).toBe(4000);
+    });
+
+    it('uses permission mode override when provided', () => {
+      const ctx = {
+        ...createMockContext({
+          settings: createMockSettings({ permissionMode: 'yolo' }),
+        }),
+        abortController: new AbortController(),
+        hooks: {},
+        permissionModeOverride: 'plan' as const,
+        hasEditorContext: false,
+      };
+      const options = QueryOptionsBuilder.buildColdStartQueryOptions(ctx);
+
+      expect(options.permissionMode).toBe('plan');
+    });
+
     it('applies tool restriction when allowedTools is provided', () => {
       const ctx = {
         ...createMockContext(),
@@ -0,0 +1,88 @@
+import {
+  checkAgentTool,
+  createAgentToolCatalog,
+  getAgentMcpServers,
+  getAgentTestPermissionMode,
+  listCatalogTools,
+  validateAgentTools,
+} from '@/core/agents/AgentBuilder';
+
+describe('AgentBuilder', () => {
+  const catalog = createAgentToolCatalog({
+    notes: ['search', 'create_note'],
+    my_server: ['lookup'],
+    my: null,
+  });
+
+  describe('checkAgentTool', () => {
+    it('accepts built-in tools, including permission-rule patterns', () => {
+      expect(checkAgentTool('Read', catalog)).toBeNull();
+      expect(checkAgentTool('Bash(git status:*)', catalog)).toBeNull();
+    });
+
+    it('flags unknown built-in tools', () => {
+      expect(checkAgentTool('Reed', catalog)).toBe('Unknown tool "Reed"');
+    });
+
+    it('accepts whole MCP servers, wildcards and listed tools', () => {
+      expect(checkAgentTool('mcp__notes', catalog)).toBeNull();
+      expect(checkAgentTool('mcp__notes__*', catalog)).toBeNull();
+      expect(checkAgentTool('mcp__notes__search', catalog)).toBeNull();
+    });
+
+    it('flags tools a listed server does not have', () => {
+      expect(checkAgentTool('mcp__notes__delete', catalog)).toBe('MCP server "notes" has no tool "delete"');
+    });
+
+    it('flags unknown MCP servers', () => {
+      expect(checkAgentTool('mcp__other__search', catalog)).toBe('Unknown MCP server in "mcp__other__search"');
+    });
+
+    it('matches the longest server name and accepts any tool of unlisted servers', () => {
+      expect(checkAgentTool('mcp__my_server__lookup', catalog)).toBeNull();
+      expect(checkAgentTool('mcp__my_server__missing', catalog)).toBe('MCP server "my_server" has no tool "missing"');
+      expect(checkAgentTool('mcp__my__anything', catalog)).toBeNull();
+    });
+  });
+
+  describe('validateAgentTools', () => {
+    it('reports issues per field', () => {
+      expect(validateAgentTools({ tools: ['Read', 'Grpe'], disallowedTools: ['mcp__x__y'] }, catalog)).toEqual([
+        { field: 'tools', tool: 'Grpe', message: 'Unknown tool "Grpe"' },
+        { field: 'disallowedTools', tool: 'mcp__x__y', message: 'Unknown MCP server in "mcp__x__y"' },
+      ]);
+    });
+
+    it('returns no issues when tools are inherited', () => {
+      expect(validateAgentTools({}, catalog)).toEqual([]);
+    });
+  });
+
+  describe('listCatalogTools', () => {
+    it('lists built-in tools, servers and their tools', () => {
+      const tools = listCatalogTools(catalog);
+
+      expect(tools).toContain('Read');
+      expect(tools).toContain('mcp__notes');
+      expect(tools).toContain('mcp__notes__create_note');
+      expect(tools).toContain('mcp__my');
+    });
+  });
+
+  describe('getAgentMcpServers', () => {
+    it('collects servers referenced by allowed tools', () => {
+      const servers = getAgentMcpServers({ tools: ['Read', 'mcp__notes__search', 'mcp__my_server', 'mcp__gone__x'] }, catalog);
+
+      expect([...servers].sort()).toEqual(['my_server', 'notes']);
+    });
+  });
+
+  describe('getAgentTestPermissionMode', () => {
+    it('maps agent permission modes to Claudian modes', () => {
+      expect(getAgentTestPermissionMode({ permissionMode: 'bypassPermissions' })).toBe('yolo');
+      expect(getAgentTestPermissionMode({ permissionMode: 'plan' })).toBe('plan');
+      expect(getAgentTestPermissionMode({ permissionMode: 'acceptEdits' })).toBe('normal');
+      expect(getAgentTestPermissionMode({})).toBe('normal');
+    });
+  });
+});
@@ -514,6 +514,18 @@ describe('AgentManager', () => {
 
       expect(results.length).toBeGreaterThan(1);
     });
+
+    it('leaves out agents disabled in plugin settings', async () => {
+      const disabledIds = new Set<string>();
+      const manager = new AgentManager(VAULT_PATH, createMockPluginManager(), () => disabledIds);
+
+      await manager.loadAgents();
+      expect(manager.searchAgents('explore').some(r => r.id === 'Explore')).toBe(true);
+
+      disabledIds.add('Explore');
+      expect(manager.searchAgents('explore').some(r => r.id === 'Explore')).toBe(false);
+      expect(manager.getAgentById('Explore')).toBeDefined();
+    });
   });
 
   describe('agent with missing optional fields', () => {
@@ -0,0 +1,61 @@
+import { AgentTestRunner } from '@/core/agents/AgentTestRunner';
+import type { AgentDefinition, StreamChunk } from '@/core/types';
+
+const mockQuery = jest.fn();
+const mockCleanup = jest.fn();
+const mockCancel = jest.fn();
+
+jest.mock('@/core/agent', () => ({
+  ClaudianService: jest.fn().mockImplementation(() => ({
+    query: mockQuery,
+    cleanup: mockCleanup,
+    cancel: mockCancel,
+  })),
+}));
+
+async function* streamOf(chunks: StreamChunk[]): AsyncGenerator<StreamChunk> {
+  for (const chunk of chunks) yield chunk;
+}
+
+const agent: AgentDefinition = {
+  id: 'reviewer',
+  name: 'reviewer',
+  description: 'Reviews notes',
+  prompt: 'Review the note.',
+  source: 'vault',
+};
+
+describe('AgentTestRunner', () => {
+  const plugin = { mcpManager: {} } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(['normal', 'plan', 'yolo'] as const)('cannot edit files or run shell commands in %s mode', async (permissionMode) => {
+    mockQuery.mockReturnValue(streamOf([{ type: 'text', content: 'Done' }]));
+
+    await new AgentTestRunner(plugin).run({ agent, prompt: 'Hi', permissionMode }, () => {});
+
+    expect(mockQuery).toHaveBeenCalledWith('Hi', undefined, undefined, expect.objectContaining({
+      forceColdStart: true,
+      permissionMode,
+      disallowedTools: ['Write', 'Edit', 'NotebookEdit', 'Bash', 'BashOutput', 'KillShell'],
+      agent,
+    }));
+  });
+
+  it('reports the last error chunk and cleans up', async () => {
+    mockQuery.mockReturnValue(streamOf([{ type: 'error', content: 'Failed' }]));
+    const chunks: StreamChunk[] = [];
+
+    const result = await new AgentTestRunner(plugin).run(
+      { agent, prompt: 'Hi', permissionMode: 'normal' },
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(result).toMatchObject({ error: 'Failed', cancelled: false });
+    expect(chunks).toEqual([{ type: 'error', content: 'Failed' }]);
+    expect(mockCleanup).toHaveBeenCalled();
+  });
+});
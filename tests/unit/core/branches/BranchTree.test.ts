@@ -0,0 +1,144 @@
+import {
+  alignBranchMessages,
+  buildBranchTree,
+  findParentConversationId,
+  flattenBranchTree,
+  getConversationSessionIds,
+} from '@/core/branches';
+import type { ChatMessage, Conversation } from '@/core/types';
+
+function conv(overrides: Partial<Conversation> & { id: string }): Conversation {
+  return {
+    title: overrides.id,
+    createdAt: 0,
+    updatedAt: 0,
+    sessionId: null,
+    messages: [],
+    ...overrides,
+  };
+}
+
+function msg(role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id: `${role}-${content}`, role, content, timestamp: 0, ...extra };
+}
+
+describe('BranchTree', () => {
+  describe('getConversationSessionIds', () => {
+    it('lists previous and current sessions without duplicates', () => {
+      const ids = getConversationSessionIds(conv({
+        id: 'a',
+        sessionId: 's2',
+        sdkSessionId: 's2',
+        previousSdkSessionIds: ['s0', 's1'],
+      }));
+
+      expect(ids).toEqual(['s0', 's1', 's2']);
+    });
+  });
+
+  describe('findParentConversationId', () => {
+    const root = conv({ id: 'root', sessionId: 's-root', previousSdkSessionIds: ['s-old'] });
+
+    it('uses the recorded fork origin', () => {
+      const fork = conv({ id: 'fork', forkedFrom: { conversationId: 'root', sessionId: 'x', resumeAt: 'a1' } });
+
+      expect(findParentConversationId(fork, [root, fork])).toBe('root');
+    });
+
+    it('falls back to the session a pending or older fork resumed from', () => {
+      const pending = conv({ id: 'pending', forkSource: { sessionId: 's-root', resumeAt: 'a1' } });
+      const older = conv({
+        id: 'older',
+        forkedFrom: { conversationId: 'deleted', sessionId: 's-old', resumeAt: 'a1' },
+      });
+
+      expect(findParentConversationId(pending, [root, pending])).toBe('root');
+      expect(findParentConversationId(older, [root, older])).toBe('root');
+    });
+
+    it('returns null for conversations that are not forks', () => {
+      expect(findParentConversationId(root, [root])).toBeNull();
+    });
+  });
+
+  describe('buildBranchTree', () => {
+    const root = conv({ id: 'root', title: 'Root', sessionId: 's-root' });
+    const forkB = conv({
+      id: 'b', createdAt: 20, sessionId: 's-b',
+      forkedFrom: { conversationId: 'root', sessionId: 's-root', resumeAt: 'a2', atUserMessage: 2 },
+    });
+    const forkA = conv({
+      id: 'a', createdAt: 10, sessionId: 's-a',
+      forkedFrom: { conversationId: 'root', sessionId: 's-root', resumeAt: 'a1', atUserMessage: 1 },
+    });
+    const nested = conv({
+      id: 'nested', createdAt: 30,
+      forkedFrom: { conversationId: 'a', sessionId: 's-a', resumeAt: 'a3', atUserMessage: 3 },
+    });
+    const unrelated = conv({ id: 'other', sessionId: 's-other' });
+    const all = [root, forkB, forkA, nested, unrelated];
+
+    it('roots the tree at the oldest ancestor', () => {
+      const tree = buildBranchTree(all, 'nested')!;
+
+      expect(tree.id).toBe('root');
+      expect(flattenBranchTree(tree).map(node => node.id)).toEqual(['root', 'a', 'nested', 'b']);
+      expect(tree.children[0]).toMatchObject({ kind: 'conversation', divergedAt: 1 });
+    });
+
+    it('attaches rewind points ordered by where they diverged', () => {
+      const tree = buildBranchTree(all, 'root', {
+        root: [{ sessionId: 's-root', leafUuid: 'leaf-1', sharedPromptCount: 1, preview: 'Old ask', timestamp: 5 }],
+      })!;
+
+      expect(tree.children.map(node => node.id)).toEqual(['a', 'root:leaf-1', 'b']);
+      expect(tree.children[1]).toMatchObject({
+        kind: 'rewind',
+        conversationId: 'root',
+        title: 'Old ask',
+        divergedAt: 2,
+        sessionId: 's-root',
+        leafUuid: 'leaf-1',
+      });
+    });
+
+    it('keeps a single conversation as a lone root', () => {
+      expect(buildBranchTree(all, 'other')).toMatchObject({ id: 'other', children: [] });
+      expect(buildBranchTree(all, 'missing')).toBeNull();
+    });
+
+    it('stops at fork cycles', () => {
+      const x = conv({ id: 'x', forkedFrom: { conversationId: 'y', sessionId: 's', resumeAt: 'r' } });
+      const y = conv({ id: 'y', forkedFrom: { conversationId: 'x', sessionId: 's', resumeAt: 'r' } });
+
+      const tree = buildBranchTree([x, y], 'x')!;
+
+      expect(flattenBranchTree(tree).map(node => node.id).sort()).toEqual(['x', 'y']);
+    });
+  });
+
+  describe('alignBranchMessages', () => {
+    it('marks the common history and pairs the rest', () => {
+      const left = [msg('user', 'Hi'), msg('assistant', 'Hello'), msg('user', 'Left'), msg('assistant', 'L1')];
+      const right = [msg('user', 'Hi'), msg('assistant', 'Hello'), msg('user', 'Right')];
+
+      const rows = alignBranchMessages(left, right);
+
+      expect(rows.map(row => [row.left?.content ?? null, row.right?.content ?? null, row.shared])).toEqual([
+        ['Hi', 'Hi', true],
+        ['Hello', 'Hello', true],
+        ['Left', 'Right', false],
+        ['L1', null, false],
+      ]);
+    });
+
+    it('skips rebuilt context messages', () => {
+      const rows = alignBranchMessages(
+        [msg('user', 'context', { isRebuiltContext: true }), msg('user', 'Hi')],
+        [msg('user', 'Hi')]
+      );
+
+      expect(rows).toEqual([expect.objectContaining({ shared: true })]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { DryRunStaging } from '@/core/dryrun/DryRunStaging';
+
+function createStaging(files: Record<string, string> = {}) {
+  const disk = new Map(Object.entries(files));
+  const staging = new DryRunStaging({
+    getCwd: () => '/vault',
+    readFile: async (filePath) => disk.get(filePath) ?? null,
+    writeFile: async (filePath, content) => { disk.set(filePath, content); },
+    removeFile: async (filePath) => { disk.delete(filePath); },
+    createShadowDir: async () => '/tmp/shadow',
+  });
+  return { staging, disk };
+}
+
+describe('DryRunStaging', () => {
+  it('stages a write without touching the file and keeps a shadow copy', async () => {
+    const { staging, disk } = createStaging({ '/vault/note.md': 'old' });
+
+    const result = await staging.stage('Write', { file_path: '/vault/note.md', content: 'new' });
+
+    expect(result).toEqual({
+      staged: true,
+      change: { filePath: '/vault/note.md', originalContent: 'old', stagedContent: 'new', toolNames: ['Write'] },
+    });
+    expect(disk.get('/vault/note.md')).toBe('old');
+    const shadowPath = staging.getShadowPath('note.md');
+    expect(shadowPath).toBe('/tmp/shadow/0/note.md');
+    expect(disk.get(shadowPath!)).toBe('new');
+  });
+
+  it('applies later edits on top of the staged content', async () => {
+    const { staging } = createStaging({ '/vault/note.md': 'one two' });
+
+    await staging.stage('Edit', { file_path: '/vault/note.md', old_string: 'one', new_string: '1' });
+    await staging.stage('Edit', { file_path: '/vault/note.md', old_string: 'two', new_string: '2' });
+
+    expect(staging.getChanges()).toEqual([{
+      filePath: '/vault/note.md',
+      originalContent: 'one two',
+      stagedContent: '1 2',
+      toolNames: ['Edit', 'Edit'],
+    }]);
+  });
+
+  it('does not stage failed edits', async () => {
+    const { staging } = createStaging({ '/vault/note.md': 'text' });
+
+    const result = await staging.stage('Edit', { file_path: '/vault/note.md', old_string: 'missing', new_string: 'x' });
+
+    expect(result.staged).toBe(false);
+    expect(staging.hasChanges()).toBe(false);
+  });
+
+  it('records new files with no original content', async () => {
+    const { staging } = createStaging();
+
+    await staging.stage('Write', { file_path: 'new/file.md', content: 'hi' });
+
+    expect(staging.getChanges()[0]).toMatchObject({ filePath: '/vault/new/file.md', originalContent: null });
+  });
+
+  it('writes accepted changes and drops rejected ones', async () => {
+    const { staging, disk } = createStaging({ '/vault/a.md': 'a', '/vault/b.md': 'b' });
+    await staging.stage('Write', { file_path: '/vault/a.md', content: 'A' });
+    await staging.stage('Write', { file_path: '/vault/b.md', content: 'B' });
+
+    await staging.accept('/vault/a.md');
+    await staging.reject('/vault/b.md');
+
+    expect(disk.get('/vault/a.md')).toBe('A');
+    expect(disk.get('/vault/b.md')).toBe('b');
+    expect(staging.hasChanges()).toBe(false);
+    expect(staging.getShadowPath('/vault/a.md')).toBeNull();
+    expect([...disk.keys()].filter(p => p.startsWith('/tmp/shadow'))).toEqual([]);
+  });
+
+  it('writes every staged change with acceptAll', async () => {
+    const { staging, disk } = createStaging({ '/vault/a.md': 'a' });
+    await staging.stage('Write', { file_path: '/vault/a.md', content: 'A' });
+    await staging.stage('Write', { file_path: '/vault/b.md', content: 'B' });
+
+    await expect(staging.acceptAll()).resolves.toEqual([]);
+
+    expect(disk.get('/vault/a.md')).toBe('A');
+    expect(disk.get('/vault/b.md')).toBe('B');
+    expect(staging.hasChanges()).toBe(false);
+  });
+
+  it('keeps a change staged when its file changed on disk after staging', async () => {
+    const { staging, disk } = createStaging({ '/vault/a.md': 'a' });
+    await staging.stage('Write', { file_path: '/vault/a.md', content: 'A' });
+    await staging.stage('Write', { file_path: '/vault/new.md', content: 'N' });
+    disk.set('/vault/a.md', 'edited by user');
+    disk.set('/vault/new.md', 'created by user');
+
+    await expect(staging.accept('/vault/a.md')).resolves.toBe(false);
+    await expect(staging.acceptAll()).resolves.toEqual(['/vault/a.md', '/vault/new.md']);
+
+    expect(disk.get('/vault/a.md')).toBe('edited by user');
+    expect(disk.get('/vault/new.md')).toBe('created by user');
+    expect(staging.getChanges()).toHaveLength(2);
+  });
+
+  it('overwrites a changed file when asked to', async () => {
+    const { staging, disk } = createStaging({ '/vault/a.md': 'a' });
+    await staging.stage('Write', { file_path: '/vault/a.md', content: 'A' });
+    disk.set('/vault/a.md', 'edited by user');
+
+    await expect(staging.acceptAll({ overwrite: true })).resolves.toEqual([]);
+
+    expect(disk.get('/vault/a.md')).toBe('A');
+    expect(staging.hasChanges()).toBe(false);
+  });
+
+  it('restores kept changes with fresh shadow copies', async () => {
+    const { staging, disk } = createStaging({ '/vault/a.md': 'a' });
+    const change = { filePath: '/vault/a.md', originalContent: 'a', stagedContent: 'A', toolNames: ['Write'] };
+
+    await staging.restore([change]);
+
+    expect(staging.getChanges()).toEqual([change]);
+    expect(disk.get(staging.getShadowPath('/vault/a.md')!)).toBe('A');
+    await expect(staging.acceptAll()).resolves.toEqual([]);
+    expect(disk.get('/vault/a.md')).toBe('A');
+  });
+
+  it('notifies listeners of staged and resolved changes', async () => {
+    const { staging } = createStaging();
+    const listener = jest.fn();
+    const unsubscribe = staging.onChange(listener);
+
+    await staging.stage('Write', { file_path: '/vault/a.md', content: 'A' });
+    await staging.clear();
+    unsubscribe();
+    await staging.stage('Write', { file_path: '/vault/b.md', content: 'B' });
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
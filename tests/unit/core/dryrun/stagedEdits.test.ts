@@ -0,0 +1,75 @@
+import { applyEdit, applyNotebookEdit } from '@/core/dryrun/stagedEdits';
+
+describe('applyEdit', () => {
+  it('replaces a unique match', () => {
+    expect(applyEdit('a\nb\nc', { old_string: 'b', new_string: 'B' })).toEqual({ content: 'a\nB\nc' });
+  });
+
+  it('inserts replacement text literally, without $ patterns', () => {
+    expect(applyEdit('price', { old_string: 'price', new_string: '$& $1' })).toEqual({ content: '$& $1' });
+  });
+
+  it('rejects ambiguous matches unless replace_all is set', () => {
+    const result = applyEdit('x x x', { old_string: 'x', new_string: 'y' });
+    expect('error' in result && result.error).toContain('Found 3 matches');
+
+    expect(applyEdit('x x x', { old_string: 'x', new_string: 'y', replace_all: true })).toEqual({ content: 'y y y' });
+  });
+
+  it('reports a missing string', () => {
+    const result = applyEdit('hello', { old_string: 'bye', new_string: 'hi' });
+    expect('error' in result && result.error).toContain('not found');
+  });
+
+  it('creates a missing file from an empty old_string', () => {
+    expect(applyEdit(null, { old_string: '', new_string: 'new' })).toEqual({ content: 'new' });
+    expect(applyEdit(null, { old_string: 'x', new_string: 'y' })).toEqual({ error: 'File does not exist.' });
+  });
+
+  it('rejects edits that change nothing', () => {
+    expect('error' in applyEdit('same', { old_string: 'same', new_string: 'same' })).toBe(true);
+  });
+});
+
+describe('applyNotebookEdit', () => {
+  const notebook = JSON.stringify({
+    cells: [
+      { id: 'a', cell_type: 'code', source: ['print(1)'], metadata: {}, outputs: ['out'], execution_count: 3 },
+      { id: 'b', cell_type: 'markdown', source: ['# Title'], metadata: {} },
+    ],
+    nbformat: 4,
+  });
+
+  const cellsOf = (result: ReturnType<typeof applyNotebookEdit>) => {
+    if ('error' in result) throw new Error(result.error);
+    return (JSON.parse(result.content) as { cells: Array<Record<string, unknown>> }).cells;
+  };
+
+  it('replaces a cell source and clears code outputs', () => {
+    const cells = cellsOf(applyNotebookEdit(notebook, { cell_id: 'a', new_source: 'print(2)\nprint(3)' }));
+    expect(cells[0]).toMatchObject({ source: ['print(2)\n', 'print(3)'], outputs: [], execution_count: null });
+  });
+
+  it('inserts after the given cell, or at the start', () => {
+    const after = cellsOf(applyNotebookEdit(notebook, {
+      cell_id: 'a', new_source: 'x', cell_type: 'markdown', edit_mode: 'insert',
+    }));
+    expect(after.map(c => c.cell_type)).toEqual(['code', 'markdown', 'markdown']);
+    expect(after[1].source).toEqual(['x']);
+
+    const first = cellsOf(applyNotebookEdit(notebook, { new_source: 'y', cell_type: 'code', edit_mode: 'insert' }));
+    expect(first[0]).toMatchObject({ source: ['y'], outputs: [] });
+  });
+
+  it('deletes a cell addressed by position', () => {
+    const cells = cellsOf(applyNotebookEdit(notebook, { cell_id: 'cell-1', new_source: '', edit_mode: 'delete' }));
+    expect(cells.map(c => c.id)).toEqual(['a']);
+  });
+
+  it('reports unknown cells and invalid notebooks', () => {
+    expect(applyNotebookEdit(notebook, { cell_id: 'zzz', new_source: '' })).toEqual({
+      error: 'Cell with ID "zzz" not found in notebook.',
+    });
+    expect(applyNotebookEdit('{', { cell_id: 'a', new_source: '' })).toEqual({ error: 'Notebook is not valid JSON.' });
+  });
+});
@@ -0,0 +1,124 @@
+import type { HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+
+import type { AuditHookContext } from '@/core/hooks/AuditHooks';
+import { createDenyRuleAuditHook, createExecutionAuditHook, withDenyAudit } from '@/core/hooks/AuditHooks';
+import { AuditLogger } from '@/core/security/AuditLogger';
+import type { AuditEntry, CCPermissions } from '@/core/types';
+import { createPermissionRule } from '@/core/types';
+
+function createContext(permissions: CCPermissions = {}) {
+  const entries: AuditEntry[] = [];
+  const logger = new AuditLogger({
+    write: async (entry) => { entries.push(entry); },
+    isEnabled: () => true,
+    now: () => 1000,
+  });
+  const context: AuditHookContext = {
+    logger,
+    getConversationId: () => 'conv-1',
+    getPermissions: async () => permissions,
+  };
+  return { context, entries, logger };
+}
+
+const hookInput = (toolName: string, toolInput: Record<string, unknown>, toolUseId = 'tool-1') => ({
+  hook_event_name: 'PreToolUse' as const,
+  session_id: 'session',
+  transcript_path: '/tmp/transcript',
+  cwd: '/vault',
+  tool_name: toolName,
+  tool_input: toolInput,
+  tool_use_id: toolUseId,
+});
+
+const options = { signal: new AbortController().signal };
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 4; i++) await Promise.resolve();
+}
+
+describe('withDenyAudit', () => {
+  const denyingHook: HookCallbackMatcher = {
+    matcher: 'Bash',
+    hooks: [async () => ({
+      continue: false,
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse' as const,
+        permissionDecision: 'deny' as const,
+        permissionDecisionReason: 'Command blocked by blocklist: rm -rf /',
+      },
+    })],
+  };
+
+  it('records denials with the given source and passes the result through', async () => {
+    const { context, entries } = createContext();
+    const hook = withDenyAudit(denyingHook, 'blocklist', context);
+
+    const result = await hook.hooks[0](hookInput('Bash', { command: 'rm -rf /' }), 'tool-1', options);
+    await flush();
+
+    expect(hook.matcher).toBe('Bash');
+    expect(result).toMatchObject({ continue: false });
+    expect(entries).toEqual([{
+      timestamp: 1000,
+      conversationId: 'conv-1',
+      toolUseId: 'tool-1',
+      toolName: 'Bash',
+      input: { command: 'rm -rf /' },
+      decision: 'deny',
+      source: 'blocklist',
+      reason: 'Command blocked by blocklist: rm -rf /',
+    }]);
+  });
+
+  it('records nothing when the hook lets the call continue', async () => {
+    const { context, entries } = createContext();
+    const hook = withDenyAudit({ hooks: [async () => ({ continue: true })] }, 'vault-restriction', context);
+
+    await hook.hooks[0](hookInput('Read', { file_path: 'a.md' }), 'tool-1', options);
+    await flush();
+
+    expect(entries).toEqual([]);
+  });
+});
+
+describe('createDenyRuleAuditHook', () => {
+  it('records calls matching a deny rule', async () => {
+    const { context, entries } = createContext({ deny: [createPermissionRule('Bash(git push *)')] });
+    const hook = createDenyRuleAuditHook(context);
+
+    await hook.hooks[0](hookInput('Bash', { command: 'git push origin' }), 'tool-1', options);
+    await hook.hooks[0](hookInput('Bash', { command: 'git status' }, 'tool-2'), 'tool-2', options);
+    await flush();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ decision: 'deny', source: 'rule', rule: 'Bash(git push *)' });
+  });
+});
+
+describe('createExecutionAuditHook', () => {
+  it('attributes calls that ran to an allow rule or the permission mode', async () => {
+    const { context, entries } = createContext({ allow: [createPermissionRule('Read')] });
+    const hook = createExecutionAuditHook(context);
+
+    await hook.hooks[0](hookInput('Read', { file_path: 'a.md' }), 'tool-1', options);
+    await hook.hooks[0](hookInput('Bash', { command: 'ls' }, 'tool-2'), 'tool-2', options);
+    await flush();
+
+    expect(entries.map(e => [e.toolName, e.decision, e.source, e.rule])).toEqual([
+      ['Read', 'allow', 'rule', 'Read'],
+      ['Bash', 'allow', 'permission-mode', undefined],
+    ]);
+  });
+
+  it('skips calls whose decision was already recorded', async () => {
+    const { context, entries, logger } = createContext();
+    logger.record({ toolUseId: 'tool-1', toolName: 'Bash', input: {}, decision: 'allow', source: 'user' });
+    const hook = createExecutionAuditHook(context);
+
+    await hook.hooks[0](hookInput('Bash', { command: 'ls' }), 'tool-1', options);
+    await flush();
+
+    expect(entries.map(e => e.source)).toEqual(['user']);
+  });
+});
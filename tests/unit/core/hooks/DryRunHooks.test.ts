@@ -0,0 +1,92 @@
+import { DryRunStaging } from '@/core/dryrun/DryRunStaging';
+import { createDryRunHook } from '@/core/hooks/DryRunHooks';
+
+function createHook(enabled = true) {
+  const disk = new Map<string, string>([['/vault/note.md', 'old text']]);
+  const staging = new DryRunStaging({
+    getCwd: () => '/vault',
+    readFile: async (filePath) => disk.get(filePath) ?? null,
+    writeFile: async (filePath, content) => { disk.set(filePath, content); },
+    removeFile: async (filePath) => { disk.delete(filePath); },
+    createShadowDir: async () => '/tmp/shadow',
+  });
+  const hook = createDryRunHook({
+    isEnabled: () => enabled,
+    staging,
+    isWritable: (filePath) => filePath.startsWith('/vault'),
+  });
+  return { hook, staging, disk };
+}
+
+const hookInput = (toolName: string, toolInput: Record<string, unknown>) => ({
+  hook_event_name: 'PreToolUse' as const,
+  session_id: 'session',
+  transcript_path: '/tmp/transcript',
+  cwd: '/vault',
+  tool_name: toolName,
+  tool_input: toolInput,
+  tool_use_id: 'tool-1',
+});
+
+const options = { signal: new AbortController().signal };
+
+describe('createDryRunHook', () => {
+  it('stages edits and denies the tool call', async () => {
+    const { hook, staging, disk } = createHook();
+
+    const result = await hook.hooks[0](
+      hookInput('Edit', { file_path: '/vault/note.md', old_string: 'old', new_string: 'new' }),
+      'tool-1',
+      options
+    );
+
+    expect(result).toMatchObject({
+      continue: true,
+      hookSpecificOutput: { permissionDecision: 'deny' },
+    });
+    expect(JSON.stringify(result)).toContain('staged for the user to review');
+    expect(disk.get('/vault/note.md')).toBe('old text');
+    expect(staging.getChanges()[0].stagedContent).toBe('new text');
+  });
+
+  it('passes the staging error back to the agent', async () => {
+    const { hook } = createHook();
+
+    const result = await hook.hooks[0](
+      hookInput('Edit', { file_path: '/vault/note.md', old_string: 'absent', new_string: 'x' }),
+      'tool-1',
+      options
+    );
+
+    expect(JSON.stringify(result)).toContain('could not be staged');
+  });
+
+  it('redirects reads of staged files to their shadow copy', async () => {
+    const { hook } = createHook();
+    await hook.hooks[0](hookInput('Write', { file_path: '/vault/note.md', content: 'staged' }), 'tool-1', options);
+
+    const result = await hook.hooks[0](hookInput('Read', { file_path: '/vault/note.md', limit: 10 }), 'tool-2', options);
+
+    expect(result).toEqual({
+      continue: true,
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'allow',
+        updatedInput: { file_path: '/tmp/shadow/0/note.md', limit: 10 },
+      },
+    });
+  });
+
+  it('leaves tools alone when dry run is off or the path is not writable', async () => {
+    const off = createHook(false);
+    expect(await off.hook.hooks[0](hookInput('Write', { file_path: '/vault/note.md', content: 'x' }), 'tool-1', options))
+      .toEqual({ continue: true });
+
+    const { hook, staging } = createHook();
+    expect(await hook.hooks[0](hookInput('Write', { file_path: '/etc/hosts', content: 'x' }), 'tool-1', options))
+      .toEqual({ continue: true });
+    expect(await hook.hooks[0](hookInput('Read', { file_path: '/vault/other.md' }), 'tool-2', options))
+      .toEqual({ continue: true });
+    expect(staging.hasChanges()).toBe(false);
+  });
+});
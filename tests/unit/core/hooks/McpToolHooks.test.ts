@@ -0,0 +1,47 @@
+import { createMcpToolSelectionHook } from '@/core/hooks/McpToolHooks';
+import type { McpToolSelection } from '@/core/types';
+
+const hookInput = (toolName: string) => ({
+  hook_event_name: 'PreToolUse' as const,
+  session_id: 'session',
+  transcript_path: '/tmp/transcript',
+  cwd: '/vault',
+  tool_name: toolName,
+  tool_input: {},
+  tool_use_id: 'tool-1',
+});
+
+const options = { signal: new AbortController().signal };
+
+describe('createMcpToolSelectionHook', () => {
+  it('denies MCP tools left out of the selection', async () => {
+    const hook = createMcpToolSelectionHook(() => ({ docs: ['search'] }));
+
+    const result = await hook.hooks[0](hookInput('mcp__docs__delete'), 'tool-1', options);
+
+    expect(result).toMatchObject({
+      continue: true,
+      hookSpecificOutput: { permissionDecision: 'deny' },
+    });
+    expect(JSON.stringify(result)).toContain('mcp__docs__delete is disabled for this conversation');
+  });
+
+  it('allows selected tools, other servers and built-in tools', async () => {
+    const hook = createMcpToolSelectionHook(() => ({ docs: ['search'] }));
+
+    for (const toolName of ['mcp__docs__search', 'mcp__git__log', 'Read']) {
+      expect(await hook.hooks[0](hookInput(toolName), 'tool-1', options)).toEqual({ continue: true });
+    }
+  });
+
+  it('reads the selection when the tool runs', async () => {
+    const conversation: { selection?: McpToolSelection } = {};
+    const hook = createMcpToolSelectionHook(() => conversation.selection);
+
+    expect(await hook.hooks[0](hookInput('mcp__docs__delete'), 'tool-1', options)).toEqual({ continue: true });
+    conversation.selection = { docs: [] };
+    expect(await hook.hooks[0](hookInput('mcp__docs__delete'), 'tool-1', options)).toMatchObject({
+      hookSpecificOutput: { permissionDecision: 'deny' },
+    });
+  });
+});
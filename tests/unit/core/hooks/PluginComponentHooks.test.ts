@@ -0,0 +1,57 @@
+import { createPluginComponentHook } from '@/core/hooks/PluginComponentHooks';
+import type { DisabledPluginTools } from '@/core/plugins';
+
+const hookInput = (toolName: string, toolInput: Record<string, unknown> = {}) => ({
+  hook_event_name: 'PreToolUse' as const,
+  session_id: 'session',
+  transcript_path: '/tmp/transcript',
+  cwd: '/vault',
+  tool_name: toolName,
+  tool_input: toolInput,
+  tool_use_id: 'tool-1',
+});
+
+const options = { signal: new AbortController().signal };
+
+const disabled: DisabledPluginTools = {
+  agents: new Set(['review-kit:code-reviewer']),
+  skills: new Set(['review-kit:linting']),
+  mcpToolPrefixes: ['mcp__plugin_review-kit_github__'],
+};
+
+describe('createPluginComponentHook', () => {
+  it('denies disabled agents, skills and plugin MCP tools', async () => {
+    const hook = createPluginComponentHook(() => disabled);
+
+    const calls = [
+      hookInput('Task', { subagent_type: 'review-kit:code-reviewer', prompt: 'Review' }),
+      hookInput('Skill', { skill: 'review-kit:linting' }),
+      hookInput('Skill', { command: '/review-kit:linting' }),
+      hookInput('mcp__plugin_review-kit_github__create_issue'),
+    ];
+    for (const call of calls) {
+      expect(await hook.hooks[0](call, 'tool-1', options)).toMatchObject({
+        continue: true,
+        hookSpecificOutput: { permissionDecision: 'deny' },
+      });
+    }
+
+    const result = await hook.hooks[0](calls[0], 'tool-1', options);
+    expect(JSON.stringify(result)).toContain('Agent review-kit:code-reviewer is disabled');
+  });
+
+  it('allows enabled components and other tools', async () => {
+    const hook = createPluginComponentHook(() => disabled);
+
+    const calls = [
+      hookInput('Task', { subagent_type: 'review-kit:security' }),
+      hookInput('Skill', { skill: 'review-kit:format' }),
+      hookInput('mcp__plugin_review-kit_jira__search'),
+      hookInput('mcp__github__create_issue'),
+      hookInput('Read', { file_path: 'note.md' }),
+    ];
+    for (const call of calls) {
+      expect(await hook.hooks[0](call, 'tool-1', options)).toEqual({ continue: true });
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const homeDir = '/Users/testuser';
+const vaultPath = '/Users/testuser/Documents/vault';
+
+jest.mock('os', () => ({
+  homedir: jest.fn(() => homeDir),
+}));
+
+jest.mock('fs');
+
+import {
+  discoverMcpImportSources,
+  formatMcpConfig,
+  normalizeImportedServerConfig,
+  parseImportedServers,
+  planMcpImport,
+} from '@/core/mcp/McpConfigImporter';
+import type { ClaudianMcpServer } from '@/core/types';
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+function mockFiles(files: Record<string, unknown>) {
+  mockFs.existsSync.mockImplementation((p) => String(p) in files);
+  mockFs.readFileSync.mockImplementation(((p: fs.PathOrFileDescriptor) => {
+    const content = files[String(p)];
+    return typeof content === 'string' ? content : JSON.stringify(content);
+  }) as typeof fs.readFileSync);
+}
+
+describe('normalizeImportedServerConfig', () => {
+  it('keeps command, args and env of stdio servers', () => {
+    expect(normalizeImportedServerConfig({
+      type: 'stdio',
+      command: 'npx',
+      args: ['-y', 'server', 42],
+      env: { API_KEY: 'secret', PORT: 3000 },
+      disabled: false,
+    })).toEqual({
+      command: 'npx',
+      args: ['-y', 'server'],
+      env: { API_KEY: 'secret', PORT: '3000' },
+    });
+  });
+
+  it('keeps url, type and headers of remote servers', () => {
+    expect(normalizeImportedServerConfig({
+      type: 'sse',
+      url: 'https://example.com/events',
+      headers: { Authorization: 'Bearer token' },
+    })).toEqual({
+      type: 'sse',
+      url: 'https://example.com/events',
+      headers: { Authorization: 'Bearer token' },
+    });
+  });
+
+  it('infers sse from the url and defaults to http', () => {
+    expect(normalizeImportedServerConfig({ url: 'https://example.com/sse' })).toEqual({
+      type: 'sse',
+      url: 'https://example.com/sse',
+    });
+    expect(normalizeImportedServerConfig({ url: 'https://example.com/mcp' })).toEqual({
+      type: 'http',
+      url: 'https://example.com/mcp',
+    });
+  });
+
+  it('reads the Windsurf serverUrl field', () => {
+    expect(normalizeImportedServerConfig({ serverUrl: 'https://example.com/mcp' })).toEqual({
+      type: 'http',
+      url: 'https://example.com/mcp',
+    });
+  });
+
+  it('returns null for entries without command or url', () => {
+    expect(normalizeImportedServerConfig({ type: 'stdio' })).toBeNull();
+    expect(normalizeImportedServerConfig('npx server')).toBeNull();
+    expect(normalizeImportedServerConfig(null)).toBeNull();
+  });
+});
+
+describe('parseImportedServers', () => {
+  it('skips invalid names and configs', () => {
+    const result = parseImportedServers({
+      good: { command: 'good-cmd' },
+      'bad name': { command: 'cmd' },
+      broken: { foo: 'bar' },
+    });
+
+    expect(result.servers).toEqual([{ name: 'good', config: { command: 'good-cmd' } }]);
+    expect(result.skipped).toEqual(['bad name', 'broken']);
+  });
+
+  it('returns nothing for non-object input', () => {
+    expect(parseImportedServers(undefined)).toEqual({ servers: [], skipped: [] });
+    expect(parseImportedServers([])).toEqual({ servers: [], skipped: [] });
+  });
+});
+
+describe('discoverMcpImportSources', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns no sources when no config files exist', () => {
+    mockFiles({});
+    expect(discoverMcpImportSources(vaultPath)).toEqual([]);
+  });
+
+  it('reads ~/.claude.json with the vault project first', () => {
+    mockFiles({
+      [path.join(homeDir, '.claude.json')]: {
+        mcpServers: { user: { command: 'user-cmd' } },
+        projects: {
+          [path.join(homeDir, 'code', 'app')]: { mcpServers: { other: { command: 'other-cmd' } } },
+          [vaultPath]: { mcpServers: { vault: { command: 'vault-cmd' } } },
+          [path.join(homeDir, 'empty')]: { mcpServers: {} },
+        },
+      },
+    });
+
+    const sources = discoverMcpImportSources(vaultPath);
+
+    expect(sources.map((s) => s.label)).toEqual([
+      'Claude Code (this vault)',
+      'Claude Code (user)',
+      `Claude Code (project: ~${path.sep}code${path.sep}app)`,
+    ]);
+    expect(sources[0].servers).toEqual([{ name: 'vault', config: { command: 'vault-cmd' } }]);
+  });
+
+  it('reads project .mcp.json and VS Code servers', () => {
+    mockFiles({
+      [path.join(vaultPath, '.mcp.json')]: { mcpServers: { project: { command: 'project-cmd' } } },
+      [path.join(vaultPath, '.vscode', 'mcp.json')]: {
+        servers: { remote: { type: 'http', url: 'https://example.com/mcp', headers: { 'X-Key': 'k' } } },
+      },
+    });
+
+    const sources = discoverMcpImportSources(vaultPath);
+
+    expect(sources).toEqual([
+      {
+        label: 'Claude Code (.mcp.json)',
+        filePath: path.join(vaultPath, '.mcp.json'),
+        servers: [{ name: 'project', config: { command: 'project-cmd' } }],
+        skipped: [],
+      },
+      {
+        label: 'VS Code (this vault)',
+        filePath: path.join(vaultPath, '.vscode', 'mcp.json'),
+        servers: [{ name: 'remote', config: { type: 'http', url: 'https://example.com/mcp', headers: { 'X-Key': 'k' } } }],
+        skipped: [],
+      },
+    ]);
+  });
+
+  it('ignores unparseable files', () => {
+    mockFiles({ [path.join(homeDir, '.cursor', 'mcp.json')]: '{ not json' });
+    expect(discoverMcpImportSources(vaultPath)).toEqual([]);
+  });
+});
+
+describe('planMcpImport', () => {
+  const existing: ClaudianMcpServer[] = [
+    { name: 'same', config: { command: 'a', args: ['x'] }, enabled: true, contextSaving: false },
+    { name: 'changed', config: { command: 'old' }, enabled: false, contextSaving: true },
+  ];
+
+  it('marks servers as add, overwrite or unchanged', () => {
+    const plan = planMcpImport(existing, [
+      { name: 'same', config: { args: ['x'], command: 'a' } as never },
+      { name: 'changed', config: { command: 'new' } },
+      { name: 'fresh', config: { type: 'http', url: 'https://example.com' } },
+    ]);
+
+    expect(plan.map((entry) => [entry.name, entry.action])).toEqual([
+      ['same', 'unchanged'],
+      ['changed', 'overwrite'],
+      ['fresh', 'add'],
+    ]);
+    expect(plan[1].existing).toEqual({ command: 'old' });
+    expect(plan[2].existing).toBeUndefined();
+  });
+});
+
+describe('formatMcpConfig', () => {
+  it('sorts keys so equal configs format the same', () => {
+    expect(formatMcpConfig({ url: 'u', type: 'http' })).toBe(formatMcpConfig({ type: 'http', url: 'u' }));
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  formatMcpPromptArgumentHint,
+  formatMcpPromptMessages,
+  mcpPromptToSlashCommand,
+  parseMcpPromptArguments,
+  parseMcpPromptInvocation,
+} from '@/core/mcp/McpPrompts';
+import type { McpPrompt } from '@/core/mcp/McpTester';
+
+const reviewPrompt: McpPrompt = {
+  name: 'review',
+  description: 'Review a file',
+  arguments: [
+    { name: 'file', required: true },
+    { name: 'focus' },
+  ],
+};
+
+describe('mcpPromptToSlashCommand', () => {
+  it('names the command mcp__server__prompt with an argument hint', () => {
+    expect(mcpPromptToSlashCommand('code_tools', reviewPrompt)).toEqual({
+      id: 'mcp:code_tools:review',
+      name: 'mcp__code_tools__review',
+      description: 'Review a file (MCP: code_tools)',
+      argumentHint: '<file> [focus]',
+      content: '',
+      source: 'mcp',
+    });
+  });
+
+  it('falls back to the title, then to the server name', () => {
+    expect(mcpPromptToSlashCommand('docs', { name: 'a', title: 'Titled', arguments: [] }).description)
+      .toBe('Titled (MCP: docs)');
+    expect(mcpPromptToSlashCommand('docs', { name: 'a', arguments: [] }).description)
+      .toBe('MCP prompt from docs');
+  });
+});
+
+describe('formatMcpPromptArgumentHint', () => {
+  it('returns undefined without arguments', () => {
+    expect(formatMcpPromptArgumentHint([])).toBeUndefined();
+  });
+});
+
+describe('parseMcpPromptInvocation', () => {
+  it('splits the command name from its arguments', () => {
+    expect(parseMcpPromptInvocation('/mcp__docs__review src/a.ts  perf ')).toEqual({
+      commandName: 'mcp__docs__review',
+      argsText: 'src/a.ts  perf',
+    });
+    expect(parseMcpPromptInvocation('/mcp__docs__list')).toEqual({ commandName: 'mcp__docs__list', argsText: '' });
+  });
+
+  it('ignores other input', () => {
+    expect(parseMcpPromptInvocation('/commit')).toBeNull();
+    expect(parseMcpPromptInvocation('use /mcp__docs__review')).toBeNull();
+  });
+});
+
+describe('parseMcpPromptArguments', () => {
+  it('fills arguments in order and appends surplus words to the last one', () => {
+    expect(parseMcpPromptArguments(reviewPrompt, 'src/a.ts error handling')).toEqual({
+      values: { file: 'src/a.ts', focus: 'error handling' },
+    });
+  });
+
+  it('accepts name=value and quoted values', () => {
+    expect(parseMcpPromptArguments(reviewPrompt, 'focus="naming and docs" src/b.ts')).toEqual({
+      values: { file: 'src/b.ts', focus: 'naming and docs' },
+    });
+  });
+
+  it('reports missing required arguments', () => {
+    expect(parseMcpPromptArguments(reviewPrompt, '')).toEqual({ error: 'Missing required argument: file' });
+  });
+});
+
+describe('formatMcpPromptMessages', () => {
+  it('joins user messages as plain text', () => {
+    expect(formatMcpPromptMessages([
+      { role: 'user', text: 'First' },
+      { role: 'user', text: 'Second' },
+    ])).toBe('First\n\nSecond');
+  });
+
+  it('tags each message when the prompt includes assistant turns', () => {
+    expect(formatMcpPromptMessages([
+      { role: 'user', text: 'Q' },
+      { role: 'assistant', text: 'A' },
+    ])).toBe('<message role="user">\nQ\n</message>\n\n<message role="assistant">\nA\n</message>');
+  });
+});
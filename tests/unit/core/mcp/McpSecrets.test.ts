@@ -0,0 +1,54 @@
+import { findSecretReferences, formatSecretReference, resolveSecretReferences } from '@/core/mcp/McpSecrets';
+
+const secrets: Record<string, string> = { API_TOKEN: 'tok-123', REGION: 'eu' };
+const getSecret = (name: string) => secrets[name] ?? null;
+
+describe('resolveSecretReferences', () => {
+  it('fills in header references of remote servers', () => {
+    expect(resolveSecretReferences({
+      type: 'http',
+      url: 'https://example.com/mcp',
+      headers: { Authorization: 'Bearer ${secret:API_TOKEN}', 'X-Region': '${secret:REGION}-1' },
+    }, getSecret)).toEqual({
+      config: {
+        type: 'http',
+        url: 'https://example.com/mcp',
+        headers: { Authorization: 'Bearer tok-123', 'X-Region': 'eu-1' },
+      },
+      missing: [],
+    });
+  });
+
+  it('fills in env references of stdio servers and reports missing secrets', () => {
+    const result = resolveSecretReferences({
+      command: 'server',
+      env: { TOKEN: '${secret:API_TOKEN}', OTHER: '${secret:ABSENT}', PLAIN: 'value' },
+    }, getSecret);
+
+    expect(result.config).toEqual({
+      command: 'server',
+      env: { TOKEN: 'tok-123', OTHER: '', PLAIN: 'value' },
+    });
+    expect(result.missing).toEqual(['ABSENT']);
+  });
+
+  it('leaves configs without env or headers untouched', () => {
+    const config = { type: 'sse' as const, url: 'https://example.com/sse' };
+    expect(resolveSecretReferences(config, getSecret)).toEqual({ config, missing: [] });
+  });
+});
+
+describe('findSecretReferences', () => {
+  it('lists each referenced name once', () => {
+    expect(findSecretReferences({
+      command: 'server',
+      env: { A: '${secret:ONE}', B: '${secret:TWO}:${secret:ONE}', C: '$HOME' },
+    })).toEqual(['ONE', 'TWO']);
+  });
+});
+
+describe('formatSecretReference', () => {
+  it('builds the reference syntax', () => {
+    expect(formatSecretReference('API_TOKEN')).toBe('${secret:API_TOKEN}');
+  });
+});
@@ -1,4 +1,4 @@
-import { McpServerManager } from '@/core/mcp';
+import { MCP_HEALTH_CHECK_INTERVAL, type McpOAuthState, McpServerManager } from '@/core/mcp';
 import type { ClaudianMcpServer } from '@/core/types';
 
 const createManager = async (servers: ClaudianMcpServer[]) => {
@@ -402,4 +402,485 @@ describe('McpServerManager', () => {
       expect(manager.getServers()).toEqual(servers);
     });
   });
+
+  describe('health monitoring', () => {
+    const servers: ClaudianMcpServer[] = [
+      { name: 'up', config: { command: 'up-cmd' }, enabled: true, contextSaving: false },
+      { name: 'down', config: { type: 'http', url: 'http://localhost:1' }, enabled: true, contextSaving: false },
+      { name: 'off', config: { command: 'off-cmd' }, enabled: false, contextSaving: false },
+    ];
+
+    const createPing = () => jest.fn(async (server: ClaudianMcpServer) => (
+      server.name === 'down'
+        ? { success: false, error: 'ECONNREFUSED' }
+        : { success: true, latencyMs: 12 }
+    ));
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('records latency and last error for enabled servers', async () => {
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      await manager.checkAllServers();
+
+      expect(ping).toHaveBeenCalledTimes(2);
+      expect(manager.getServerHealth('up')).toMatchObject({ status: 'healthy', latencyMs: 12 });
+      expect(manager.getServerHealth('down')).toMatchObject({ status: 'unhealthy', lastError: 'ECONNREFUSED' });
+      expect(manager.getServerHealth('off')).toBeUndefined();
+    });
+
+    it('marks a server as checking while the ping runs', async () => {
+      let resolvePing: (result: { success: boolean }) => void = () => {};
+      const ping = jest.fn(() => new Promise<{ success: boolean }>((resolve) => { resolvePing = resolve; }));
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      const check = manager.checkServerHealth('up');
+      expect(manager.getServerHealth('up')?.status).toBe('checking');
+
+      resolvePing({ success: true });
+      await check;
+      expect(manager.getServerHealth('up')?.status).toBe('healthy');
+    });
+
+    it('shares one ping between concurrent checks of a server', async () => {
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      await Promise.all([manager.checkServerHealth('up'), manager.checkServerHealth('up')]);
+
+      expect(ping).toHaveBeenCalledTimes(1);
+    });
+
+    it('treats a rejected ping as unhealthy', async () => {
+      const ping = jest.fn().mockRejectedValue(new Error('boom'));
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      const health = await manager.checkServerHealth('up');
+
+      expect(health).toMatchObject({ status: 'unhealthy', lastError: 'boom' });
+    });
+
+    it('returns null for unknown and disabled servers', async () => {
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      await expect(manager.checkServerHealth('missing')).resolves.toBeNull();
+      await expect(manager.checkServerHealth('off')).resolves.toBeNull();
+      expect(ping).not.toHaveBeenCalled();
+    });
+
+    it('notifies listeners and stops after unsubscribe', async () => {
+      const manager = new McpServerManager({ load: async () => servers }, { ping: createPing() });
+      await manager.loadServers();
+      const listener = jest.fn();
+
+      const unsubscribe = manager.onHealthChange(listener);
+      await manager.checkServerHealth('up');
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      unsubscribe();
+      await manager.checkServerHealth('up');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('forgets health of servers that are removed on reload', async () => {
+      let current = servers;
+      const manager = new McpServerManager({ load: async () => current }, { ping: createPing() });
+      await manager.loadServers();
+      await manager.checkAllServers();
+
+      current = servers.filter(s => s.name !== 'down');
+      await manager.loadServers();
+
+      expect(manager.getServerHealth('down')).toBeUndefined();
+      expect(manager.getServerHealth('up')).toBeDefined();
+    });
+
+    it('pings on start and on every interval until stopped', async () => {
+      jest.useFakeTimers();
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      manager.startHealthMonitor();
+      expect(ping).toHaveBeenCalledTimes(2);
+      // Waits for the in-flight checks without pinging again
+      await manager.checkAllServers();
+      expect(ping).toHaveBeenCalledTimes(2);
+
+      jest.advanceTimersByTime(MCP_HEALTH_CHECK_INTERVAL);
+      expect(ping).toHaveBeenCalledTimes(4);
+
+      manager.stopHealthMonitor();
+      jest.advanceTimersByTime(MCP_HEALTH_CHECK_INTERVAL);
+      expect(ping).toHaveBeenCalledTimes(4);
+    });
+
+    it('runs the monitor until every watcher releases it', async () => {
+      jest.useFakeTimers();
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+
+      const releaseFirst = manager.watchHealth();
+      const releaseSecond = manager.watchHealth();
+      expect(ping).toHaveBeenCalledTimes(2);
+      await manager.checkAllServers();
+
+      releaseFirst();
+      releaseFirst();
+      jest.advanceTimersByTime(MCP_HEALTH_CHECK_INTERVAL);
+      expect(ping).toHaveBeenCalledTimes(4);
+      await manager.checkAllServers();
+
+      releaseSecond();
+      jest.advanceTimersByTime(MCP_HEALTH_CHECK_INTERVAL);
+      expect(ping).toHaveBeenCalledTimes(4);
+    });
+
+    it('takes health from a running session instead of pinging', async () => {
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+      manager.addSessionStatusSource(async () => [
+        { name: 'up', status: 'failed', error: 'spawn ENOENT' },
+      ]);
+
+      await manager.checkAllServers();
+
+      expect(ping).toHaveBeenCalledTimes(1);
+      expect(ping).toHaveBeenCalledWith(expect.objectContaining({ name: 'down' }));
+      expect(manager.getServerHealth('up')).toMatchObject({ status: 'unhealthy', lastError: 'spawn ENOENT' });
+      expect(manager.getServerHealth('down')).toMatchObject({ status: 'unhealthy', lastError: 'ECONNREFUSED' });
+    });
+
+    it('maps session statuses to health', async () => {
+      const manager = new McpServerManager({ load: async () => servers }, { ping: createPing() });
+      await manager.loadServers();
+      manager.addSessionStatusSource(async () => [
+        { name: 'up', status: 'connected' },
+        { name: 'down', status: 'needs-auth' },
+      ]);
+
+      await manager.checkAllServers();
+
+      expect(manager.getServerHealth('up')?.status).toBe('healthy');
+      expect(manager.getServerHealth('down')).toMatchObject({ status: 'unhealthy', lastError: 'Authentication required' });
+    });
+
+    it('pings again once a session source is removed or fails', async () => {
+      const ping = createPing();
+      const manager = new McpServerManager({ load: async () => servers }, { ping });
+      await manager.loadServers();
+      const remove = manager.addSessionStatusSource(async () => [{ name: 'up', status: 'connected' }]);
+      manager.addSessionStatusSource(() => Promise.reject(new Error('closed')));
+
+      remove();
+      await manager.checkServerHealth('up');
+
+      expect(ping).toHaveBeenCalledTimes(1);
+      expect(manager.getServerHealth('up')).toMatchObject({ status: 'healthy', latencyMs: 12 });
+    });
+  });
+
+  describe('resources', () => {
+    const servers: ClaudianMcpServer[] = [
+      { name: 'docs', config: { command: 'docs-cmd' }, enabled: true, contextSaving: false },
+      { name: 'off', config: { command: 'off-cmd' }, enabled: false, contextSaving: false },
+    ];
+
+    const createListResources = () => jest.fn(async () => ({
+      success: true,
+      resources: [{ uri: 'docs://readme', name: 'readme' }],
+      templates: [],
+    }));
+
+    it('caches successful listings until refreshed or reloaded', async () => {
+      const listResources = createListResources();
+      const manager = new McpServerManager({ load: async () => servers }, { listResources });
+      await manager.loadServers();
+
+      expect(manager.getCachedResources('docs')).toBeNull();
+      await manager.listResources('docs');
+      await manager.listResources('docs');
+      expect(listResources).toHaveBeenCalledTimes(1);
+      expect(manager.getCachedResources('docs')).toEqual([{ uri: 'docs://readme', name: 'readme' }]);
+
+      await manager.listResources('docs', true);
+      expect(listResources).toHaveBeenCalledTimes(2);
+
+      await manager.loadServers();
+      expect(manager.getCachedResources('docs')).toBeNull();
+    });
+
+    it('shares one listing between concurrent calls', async () => {
+      const listResources = createListResources();
+      const manager = new McpServerManager({ load: async () => servers }, { listResources });
+      await manager.loadServers();
+
+      await Promise.all([manager.listResources('docs'), manager.listResources('docs')]);
+
+      expect(listResources).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache failed listings', async () => {
+      const listResources = jest.fn().mockRejectedValue(new Error('spawn ENOENT'));
+      const manager = new McpServerManager({ load: async () => servers }, { listResources });
+      await manager.loadServers();
+
+      const result = await manager.listResources('docs');
+
+      expect(result).toEqual({ success: false, resources: [], templates: [], error: 'spawn ENOENT' });
+      expect(manager.getCachedResources('docs')).toBeNull();
+    });
+
+    it('rejects unknown and disabled servers', async () => {
+      const listResources = createListResources();
+      const readResource = jest.fn();
+      const manager = new McpServerManager({ load: async () => servers }, { listResources, readResource });
+      await manager.loadServers();
+
+      expect((await manager.listResources('off')).error).toBe('Unknown MCP server: off');
+      expect((await manager.readResource('missing', 'x://y')).error).toBe('Unknown MCP server: missing');
+      expect(listResources).not.toHaveBeenCalled();
+      expect(readResource).not.toHaveBeenCalled();
+    });
+
+    it('reads resources through the injected client', async () => {
+      const readResource = jest.fn(async () => ({
+        success: true,
+        contents: [{ uri: 'docs://readme', text: '# Readme' }],
+      }));
+      const manager = new McpServerManager({ load: async () => servers }, { readResource });
+      await manager.loadServers();
+
+      const result = await manager.readResource('docs', 'docs://readme');
+
+      expect(result.contents[0].text).toBe('# Readme');
+      expect(readResource).toHaveBeenCalledWith(servers[0], 'docs://readme');
+    });
+  });
+
+  describe('prompts', () => {
+    const servers: ClaudianMcpServer[] = [
+      { name: 'code_tools', config: { command: 'code-cmd' }, enabled: true, contextSaving: false },
+      { name: 'code', config: { command: 'other-cmd' }, enabled: true, contextSaving: false },
+      { name: 'broken', config: { command: 'broken-cmd' }, enabled: true, contextSaving: false },
+      { name: 'off', config: { command: 'off-cmd' }, enabled: false, contextSaving: false },
+    ];
+
+    const createListPrompts = () => jest.fn(async (server: ClaudianMcpServer) => {
+      if (server.name === 'broken') return { success: false, prompts: [], error: 'spawn ENOENT' };
+      return {
+        success: true,
+        prompts: [{ name: server.name === 'code' ? 'tools__review' : 'review', arguments: [] }],
+      };
+    });
+
+    it('builds slash commands for enabled servers and skips failing ones', async () => {
+      const listPrompts = createListPrompts();
+      const manager = new McpServerManager({ load: async () => servers }, { listPrompts });
+      await manager.loadServers();
+
+      const commands = await manager.getPromptCommands();
+
+      expect(commands.map((c) => c.name)).toEqual(['mcp__code_tools__review', 'mcp__code__tools__review']);
+      expect(listPrompts).toHaveBeenCalledTimes(3);
+      await manager.getPromptCommands();
+      // Only the failed listing is retried
+      expect(listPrompts).toHaveBeenCalledTimes(4);
+    });
+
+    it('resolves command names even when server names contain underscores', async () => {
+      const manager = new McpServerManager({ load: async () => servers }, { listPrompts: createListPrompts() });
+      await manager.loadServers();
+
+      expect((await manager.findPromptCommand('mcp__code_tools__review'))?.serverName).toBe('code_tools');
+      expect((await manager.findPromptCommand('mcp__code__tools__review'))?.serverName).toBe('code');
+      expect(await manager.findPromptCommand('mcp__off__review')).toBeNull();
+    });
+
+    it('gets prompts through the injected client', async () => {
+      const getPrompt = jest.fn(async () => ({ success: true, messages: [{ role: 'user' as const, text: 'Hi' }] }));
+      const manager = new McpServerManager({ load: async () => servers }, { getPrompt });
+      await manager.loadServers();
+
+      await manager.getPrompt('code', 'review', { file: 'a.ts' });
+      expect(getPrompt).toHaveBeenCalledWith(servers[1], 'review', { file: 'a.ts' });
+      expect((await manager.getPrompt('off', 'review', {})).error).toBe('Unknown MCP server: off');
+    });
+  });
+
+  describe('tools', () => {
+    const servers: ClaudianMcpServer[] = [
+      { name: 'docs', config: { command: 'docs-cmd' }, enabled: true, contextSaving: false },
+    ];
+
+    it('caches tool listings with their schemas until reloaded', async () => {
+      const tool = { name: 'search', description: 'Search docs', inputSchema: { type: 'object' } };
+      const listTools = jest.fn(async () => ({ success: true, tools: [tool] }));
+      const manager = new McpServerManager({ load: async () => servers }, { listTools });
+      await manager.loadServers();
+
+      expect(manager.getCachedTools('docs')).toBeNull();
+      await manager.listTools('docs');
+      await manager.listTools('docs');
+      expect(listTools).toHaveBeenCalledTimes(1);
+      expect(manager.getCachedTools('docs')).toEqual([tool]);
+
+      await manager.loadServers();
+      expect(manager.getCachedTools('docs')).toBeNull();
+    });
+
+    it('disallows listed tools that a tool selection leaves out', async () => {
+      const tools = ['search', 'fetch', 'delete'].map(name => ({ name }));
+      const manager = new McpServerManager(
+        { load: async () => [{ ...servers[0], disabledTools: ['fetch'] }] },
+        { listTools: async () => ({ success: true, tools }) }
+      );
+      await manager.loadServers();
+      const selection = { docs: ['search'] };
+
+      // Tools that were never listed are left to the PreToolUse hook
+      expect(manager.getAllDisallowedMcpTools(selection)).toEqual(['mcp__docs__fetch']);
+
+      await manager.listTools('docs');
+      expect(manager.getAllDisallowedMcpTools(selection)).toEqual(['mcp__docs__delete', 'mcp__docs__fetch']);
+      expect(manager.getDisallowedMcpTools(new Set(), selection)).toEqual(['mcp__docs__fetch', 'mcp__docs__delete']);
+      expect(manager.getAllDisallowedMcpTools()).toEqual(['mcp__docs__fetch']);
+    });
+  });
+
+  describe('secrets and OAuth', () => {
+    const servers: ClaudianMcpServer[] = [
+      {
+        name: 'remote',
+        config: { type: 'http', url: 'https://example.com/mcp', headers: { 'X-Key': '${secret:API_KEY}' } },
+        enabled: true,
+        contextSaving: false,
+      },
+      { name: 'local', config: { command: 'cmd', env: { TOKEN: '${secret:MISSING}' } }, enabled: true, contextSaving: false },
+    ];
+
+    function createSecretStore(oauth: McpOAuthState | null = null) {
+      const states = new Map<string, McpOAuthState>(oauth ? [['remote', oauth]] : []);
+      return {
+        getSecret: jest.fn((name: string) => (name === 'API_KEY' ? 'key-1' : null)),
+        getOAuthState: jest.fn((name: string) => states.get(name) ?? null),
+        setOAuthState: jest.fn((name: string, state: McpOAuthState | null) => {
+          if (state) states.set(name, state);
+          else states.delete(name);
+        }),
+      };
+    }
+
+    it('resolves secret references and adds the OAuth token in active servers', async () => {
+      const store = createSecretStore({ serverUrl: 'https://example.com/mcp', tokens: { access_token: 'at-1', token_type: 'Bearer' } });
+      const manager = new McpServerManager({ load: async () => servers }, {}, store);
+      await manager.loadServers();
+
+      expect(manager.getActiveServers(new Set())).toEqual({
+        remote: {
+          type: 'http',
+          url: 'https://example.com/mcp',
+          headers: { 'X-Key': 'key-1', Authorization: 'Bearer at-1' },
+        },
+        local: { command: 'cmd', env: { TOKEN: '' } },
+      });
+      expect(manager.getMissingSecrets(servers[1])).toEqual(['MISSING']);
+      // The stored config keeps the reference
+      expect((servers[0].config as { headers: Record<string, string> }).headers['X-Key']).toBe('${secret:API_KEY}');
+    });
+
+    it('keeps an Authorization header set in the config', () => {
+      const store = createSecretStore({ serverUrl: 'https://example.com/sse', tokens: { access_token: 'at-1', token_type: 'Bearer' } });
+      const manager = new McpServerManager({ load: async () => [] }, {}, store);
+
+      const resolved = manager.resolveServer({
+        ...servers[0],
+        config: { type: 'sse', url: 'https://example.com/sse', headers: { authorization: 'Token x' } },
+      });
+
+      expect(resolved.config).toEqual({ type: 'sse', url: 'https://example.com/sse', headers: { authorization: 'Token x' } });
+    });
+
+    it('refreshes tokens that are about to expire and stores the result', async () => {
+      const store = createSecretStore({
+        serverUrl: 'https://example.com/mcp',
+        tokens: { access_token: 'old', token_type: 'Bearer', refresh_token: 'rt' },
+        expiresAt: Date.now() + 1000,
+      });
+      const refreshed = { serverUrl: 'https://example.com/mcp', tokens: { access_token: 'new', token_type: 'Bearer', refresh_token: 'rt' }, expiresAt: Date.now() + 3_600_000 };
+      const refreshOAuth = jest.fn().mockResolvedValue(refreshed);
+      const manager = new McpServerManager({ load: async () => servers }, { refreshOAuth }, store);
+      await manager.loadServers();
+
+      await Promise.all([manager.refreshOAuthTokens(), manager.refreshOAuthTokens()]);
+
+      expect(refreshOAuth).toHaveBeenCalledTimes(1);
+      expect(refreshOAuth).toHaveBeenCalledWith('https://example.com/mcp', expect.objectContaining({ expiresAt: expect.any(Number) }));
+      expect(store.setOAuthState).toHaveBeenCalledWith('remote', refreshed);
+      expect((manager.getActiveServers(new Set()).remote as { headers: Record<string, string> }).headers.Authorization)
+        .toBe('Bearer new');
+
+      await manager.refreshOAuthTokens();
+      expect(refreshOAuth).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the old token when refreshing fails', async () => {
+      const store = createSecretStore({
+        serverUrl: 'https://example.com/mcp',
+        tokens: { access_token: 'old', token_type: 'Bearer', refresh_token: 'rt' },
+        expiresAt: Date.now() - 1000,
+      });
+      const refreshOAuth = jest.fn().mockRejectedValue(new Error('invalid_grant'));
+      const manager = new McpServerManager({ load: async () => servers }, { refreshOAuth }, store);
+      await manager.loadServers();
+
+      await expect(manager.refreshOAuthTokens()).resolves.toBeUndefined();
+      expect(store.setOAuthState).not.toHaveBeenCalled();
+    });
+
+    it('treats a server whose URL changed since sign-in as signed out', async () => {
+      const store = createSecretStore({
+        serverUrl: 'https://old.example.com/mcp',
+        tokens: { access_token: 'at-1', token_type: 'Bearer', refresh_token: 'rt' },
+        expiresAt: Date.now() - 1000,
+      });
+      const ping = jest.fn().mockResolvedValue({ success: true, latencyMs: 5 });
+      const refreshOAuth = jest.fn();
+      const manager = new McpServerManager({ load: async () => servers }, { ping, refreshOAuth }, store);
+      await manager.loadServers();
+
+      await manager.refreshOAuthTokens();
+      await manager.checkServerHealth('remote');
+
+      expect(manager.getOAuthState(servers[0])).toBeNull();
+      expect(refreshOAuth).not.toHaveBeenCalled();
+      expect(ping.mock.calls[0][0].config.headers).toEqual({ 'X-Key': 'key-1' });
+      expect(manager.getActiveServers(new Set()).remote).toEqual({
+        type: 'http',
+        url: 'https://example.com/mcp',
+        headers: { 'X-Key': 'key-1' },
+      });
+    });
+
+    it('passes resolved servers to its own connections', async () => {
+      const ping = jest.fn().mockResolvedValue({ success: true, latencyMs: 5 });
+      const manager = new McpServerManager({ load: async () => servers }, { ping }, createSecretStore());
+      await manager.loadServers();
+
+      await manager.checkServerHealth('remote');
+
+      expect(ping.mock.calls[0][0].config.headers).toEqual({ 'X-Key': 'key-1' });
+    });
+  });
 });
@@ -1,10 +1,19 @@
-import { testMcpServer } from '@/core/mcp/McpTester';
+import {
+  getMcpPrompt,
+  getMcpToolParameters,
+  listMcpPrompts,
+  listMcpResources,
+  pingMcpServer,
+  readMcpResource,
+  testMcpServer,
+} from '@/core/mcp/McpTester';
 import type { ClaudianMcpServer } from '@/core/types';
 
 // Mock the MCP SDK transports and client
 jest.mock('@modelcontextprotocol/sdk/client', () => ({
   Client: jest.fn().mockImplementation(() => ({
     connect: jest.fn(),
+    ping: jest.fn().mockResolvedValue({}),
     getServerVersion: jest.fn().mockReturnValue({ name: 'test-server', version: '1.0.0' }),
     listTools: jest.fn().mockResolvedValue({
       tools: [
@@ -258,3 +267,333 @@ describe('testMcpServer', () => {
     });
   });
 });
+
+describe('pingMcpServer', () => {
+  const server: ClaudianMcpServer = {
+    name: 'test',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report success with latency when ping succeeds', async () => {
+    const result = await pingMcpServer(server);
+
+    expect(result.success).toBe(true);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should fall back to listTools when ping is not supported', async () => {
+    const listTools = jest.fn().mockResolvedValue({ tools: [] });
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      ping: jest.fn().mockRejectedValue(new Error('Method not found')),
+      listTools,
+      close: jest.fn(),
+    }));
+
+    const result = await pingMcpServer(server);
+
+    expect(result.success).toBe(true);
+    expect(listTools).toHaveBeenCalled();
+  });
+
+  it('should report the connection error', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn().mockRejectedValue(new Error('spawn ENOENT')),
+      close: jest.fn(),
+    }));
+
+    const result = await pingMcpServer(server);
+
+    expect(result).toEqual({ success: false, error: 'spawn ENOENT' });
+  });
+
+  it('should report a timeout when the server does not answer', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn((_transport: unknown, options: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      })),
+      close: jest.fn(),
+    }));
+
+    const result = await pingMcpServer(server, 10);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Connection timeout (0s)');
+  });
+
+  it('should return error for invalid configuration without connecting', async () => {
+    const { parseCommand } = jest.requireMock('@/utils/mcp');
+    parseCommand.mockReturnValueOnce({ cmd: '', args: [] });
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+
+    const result = await pingMcpServer({ ...server, config: { command: '' } });
+
+    expect(result).toEqual({ success: false, error: 'Missing command' });
+    expect(Client).not.toHaveBeenCalled();
+  });
+});
+
+describe('listMcpResources', () => {
+  const server: ClaudianMcpServer = {
+    name: 'test',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  function mockResourceClient(overrides: Record<string, unknown>) {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      getServerCapabilities: jest.fn().mockReturnValue({ resources: {} }),
+      listResources: jest.fn().mockResolvedValue({ resources: [] }),
+      listResourceTemplates: jest.fn().mockResolvedValue({ resourceTemplates: [] }),
+      close: jest.fn(),
+      ...overrides,
+    }));
+  }
+
+  it('should follow pagination cursors and list templates', async () => {
+    const listResources = jest.fn()
+      .mockResolvedValueOnce({ resources: [{ uri: 'file:///a.md', name: 'a' }], nextCursor: 'next' })
+      .mockResolvedValueOnce({ resources: [{ uri: 'file:///b.md', name: 'b', mimeType: 'text/markdown' }] });
+    mockResourceClient({
+      listResources,
+      listResourceTemplates: jest.fn().mockResolvedValue({
+        resourceTemplates: [{ uriTemplate: 'file:///{path}', name: 'file', description: 'Any file' }],
+      }),
+    });
+
+    const result = await listMcpResources(server);
+
+    expect(result.success).toBe(true);
+    expect(result.resources.map((r) => r.uri)).toEqual(['file:///a.md', 'file:///b.md']);
+    expect(result.resources[1].mimeType).toBe('text/markdown');
+    expect(result.templates).toEqual([
+      { uriTemplate: 'file:///{path}', name: 'file', description: 'Any file', mimeType: undefined },
+    ]);
+    expect(listResources).toHaveBeenNthCalledWith(2, { cursor: 'next' }, expect.anything());
+  });
+
+  it('should return nothing when the server has no resources capability', async () => {
+    const listResources = jest.fn();
+    mockResourceClient({ getServerCapabilities: jest.fn().mockReturnValue({ tools: {} }), listResources });
+
+    const result = await listMcpResources(server);
+
+    expect(result).toEqual({ success: true, resources: [], templates: [] });
+    expect(listResources).not.toHaveBeenCalled();
+  });
+
+  it('should keep resources when listing templates fails', async () => {
+    mockResourceClient({
+      listResources: jest.fn().mockResolvedValue({ resources: [{ uri: 'mem://x', name: 'x' }] }),
+      listResourceTemplates: jest.fn().mockRejectedValue(new Error('Method not found')),
+    });
+
+    const result = await listMcpResources(server);
+
+    expect(result.success).toBe(true);
+    expect(result.resources).toHaveLength(1);
+    expect(result.templates).toEqual([]);
+  });
+
+  it('should report list errors', async () => {
+    mockResourceClient({ listResources: jest.fn().mockRejectedValue(new Error('boom')) });
+
+    const result = await listMcpResources(server);
+
+    expect(result).toEqual({ success: false, resources: [], templates: [], error: 'boom' });
+  });
+});
+
+describe('readMcpResource', () => {
+  const server: ClaudianMcpServer = {
+    name: 'test',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return text and blob contents', async () => {
+    const readResource = jest.fn().mockResolvedValue({
+      contents: [
+        { uri: 'mem://note', mimeType: 'text/plain', text: 'hello' },
+        { uri: 'mem://image', mimeType: 'image/png', blob: 'aGk=' },
+      ],
+    });
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({ connect: jest.fn(), readResource, close: jest.fn() }));
+
+    const result = await readMcpResource(server, 'mem://note');
+
+    expect(readResource).toHaveBeenCalledWith({ uri: 'mem://note' }, expect.anything());
+    expect(result).toEqual({
+      success: true,
+      contents: [
+        { uri: 'mem://note', mimeType: 'text/plain', text: 'hello' },
+        { uri: 'mem://image', mimeType: 'image/png', blob: 'aGk=' },
+      ],
+    });
+  });
+
+  it('should report read errors', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      readResource: jest.fn().mockRejectedValue(new Error('Resource not found')),
+      close: jest.fn(),
+    }));
+
+    const result = await readMcpResource(server, 'mem://missing');
+
+    expect(result).toEqual({ success: false, contents: [], error: 'Resource not found' });
+  });
+});
+
+describe('listMcpPrompts', () => {
+  const server: ClaudianMcpServer = {
+    name: 'test',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list prompts across pages with their arguments', async () => {
+    const listPrompts = jest.fn()
+      .mockResolvedValueOnce({
+        prompts: [{ name: 'review', description: 'Review code', arguments: [{ name: 'file', required: true }] }],
+        nextCursor: 'p2',
+      })
+      .mockResolvedValueOnce({ prompts: [{ name: 'standup' }] });
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      getServerCapabilities: jest.fn().mockReturnValue({ prompts: {} }),
+      listPrompts,
+      close: jest.fn(),
+    }));
+
+    const result = await listMcpPrompts(server);
+
+    expect(result.success).toBe(true);
+    expect(result.prompts).toEqual([
+      {
+        name: 'review',
+        title: undefined,
+        description: 'Review code',
+        arguments: [{ name: 'file', description: undefined, required: true }],
+      },
+      { name: 'standup', title: undefined, description: undefined, arguments: [] },
+    ]);
+    expect(listPrompts).toHaveBeenNthCalledWith(2, { cursor: 'p2' }, expect.anything());
+  });
+
+  it('should return nothing when the server has no prompts capability', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      getServerCapabilities: jest.fn().mockReturnValue({}),
+      close: jest.fn(),
+    }));
+
+    expect(await listMcpPrompts(server)).toEqual({ success: true, prompts: [] });
+  });
+});
+
+describe('getMcpPrompt', () => {
+  const server: ClaudianMcpServer = {
+    name: 'test',
+    config: { command: 'node server.js' },
+    enabled: true,
+    contextSaving: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pass arguments and flatten message content to text', async () => {
+    const getPrompt = jest.fn().mockResolvedValue({
+      description: 'Review code',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this file' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.ts', text: 'const a = 1;' } } },
+        { role: 'assistant', content: { type: 'image', data: 'aGk=', mimeType: 'image/png' } },
+      ],
+    });
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({ connect: jest.fn(), getPrompt, close: jest.fn() }));
+
+    const result = await getMcpPrompt(server, 'review', { file: 'a.ts' });
+
+    expect(getPrompt).toHaveBeenCalledWith({ name: 'review', arguments: { file: 'a.ts' } }, expect.anything());
+    expect(result).toEqual({
+      success: true,
+      description: 'Review code',
+      messages: [
+        { role: 'user', text: 'Review this file' },
+        { role: 'user', text: 'const a = 1;' },
+        { role: 'assistant', text: '[image: image/png]' },
+      ],
+    });
+  });
+
+  it('should report prompt errors', async () => {
+    const { Client } = jest.requireMock('@modelcontextprotocol/sdk/client');
+    Client.mockImplementationOnce(() => ({
+      connect: jest.fn(),
+      getPrompt: jest.fn().mockRejectedValue(new Error('Unknown prompt')),
+      close: jest.fn(),
+    }));
+
+    expect(await getMcpPrompt(server, 'missing', {})).toEqual({ success: false, messages: [], error: 'Unknown prompt' });
+  });
+});
+
+describe('getMcpToolParameters', () => {
+  it('reads top-level properties and required flags from the input schema', () => {
+    expect(getMcpToolParameters({
+      name: 'search',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search text' },
+          limit: { type: ['integer', 'null'] },
+          filter: { anyOf: [] },
+        },
+        required: ['query'],
+      },
+    })).toEqual([
+      { name: 'query', type: 'string', description: 'Search text', required: true },
+      { name: 'limit', type: 'integer | null', description: undefined, required: false },
+      { name: 'filter', type: undefined, description: undefined, required: false },
+    ]);
+  });
+
+  it('returns nothing without a schema', () => {
+    expect(getMcpToolParameters({ name: 'ping' })).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  getDisabledPluginCommandNames,
+  getPluginAgentId,
+  getPluginMcpToolPrefix,
+  isPluginComponentDisabled,
+  resolveDisabledPluginTools,
+  setPluginComponentDisabled,
+} from '@/core/plugins/PluginComponents';
+import type { ClaudianPlugin } from '@/core/types';
+
+const plugin = (id: string, enabled = true): ClaudianPlugin => ({
+  id,
+  name: id.slice(0, id.indexOf('@')),
+  enabled,
+  scope: 'user',
+  installPath: `/plugins/${id}`,
+});
+
+describe('PluginComponents', () => {
+  describe('setPluginComponentDisabled', () => {
+    it('adds and removes names, pruning empty entries', () => {
+      let disabled = setPluginComponentDisabled(undefined, 'kit@market', 'commands', 'review', true);
+      disabled = setPluginComponentDisabled(disabled, 'kit@market', 'commands', 'blame', true);
+      disabled = setPluginComponentDisabled(disabled, 'kit@market', 'commands', 'blame', true);
+      expect(disabled).toEqual({ 'kit@market': { commands: ['blame', 'review'] } });
+      expect(isPluginComponentDisabled(disabled, 'kit@market', 'commands', 'review')).toBe(true);
+      expect(isPluginComponentDisabled(disabled, 'kit@market', 'skills', 'review')).toBe(false);
+
+      disabled = setPluginComponentDisabled(disabled, 'kit@market', 'commands', 'review', false);
+      disabled = setPluginComponentDisabled(disabled, 'kit@market', 'commands', 'blame', false);
+      expect(disabled).toEqual({});
+    });
+
+    it('does not modify the input', () => {
+      const original = { 'kit@market': { skills: ['lint'] } };
+      setPluginComponentDisabled(original, 'kit@market', 'skills', 'lint', false);
+      expect(original).toEqual({ 'kit@market': { skills: ['lint'] } });
+    });
+  });
+
+  describe('getDisabledPluginCommandNames', () => {
+    it('namespaces disabled commands and skills by plugin name', () => {
+      const names = getDisabledPluginCommandNames(
+        { 'Kit@market': { commands: ['Review'], skills: ['lint'], agents: ['reviewer'] }, 'gone@market': { commands: ['x'] } },
+        [plugin('Kit@market')]
+      );
+      expect(names).toEqual(['kit:review', 'kit:lint']);
+    });
+  });
+
+  describe('resolveDisabledPluginTools', () => {
+    it('maps disabled components of enabled plugins to tool call names', () => {
+      const tools = resolveDisabledPluginTools(
+        {
+          'Review Kit@market': { agents: ['reviewer'], skills: ['lint'], mcpServers: ['git hub'] },
+          'off@market': { agents: ['other'] },
+        },
+        [{ ...plugin('Review Kit@market'), name: 'Review Kit' }, plugin('off@market', false)]
+      );
+
+      expect([...tools.agents]).toEqual(['review-kit:reviewer']);
+      expect([...tools.skills]).toEqual(['Review Kit:lint']);
+      expect(tools.mcpToolPrefixes).toEqual(['mcp__plugin_Review_Kit_git_hub__']);
+    });
+  });
+
+  it('builds agent ids and MCP prefixes like the CLI', () => {
+    expect(getPluginAgentId('My Plugin', 'helper')).toBe('my-plugin:helper');
+    expect(getPluginMcpToolPrefix('kit', 'db')).toBe('mcp__plugin_kit_db__');
+  });
+});
@@ -0,0 +1,433 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const mockHomeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-home-'));
+
+jest.mock('os', () => ({
+  ...jest.requireActual('os'),
+  homedir: jest.fn(() => mockHomeDir),
+}));
+
+import {
+  type GitRunner,
+  parseMarketplaceSource,
+  PluginMarketplace,
+  readMarketplaceManifest,
+  scanPluginContents,
+} from '@/core/plugins/PluginMarketplace';
+
+const pluginsDir = path.join(mockHomeDir, '.claude', 'plugins');
+const installedPluginsPath = path.join(pluginsDir, 'installed_plugins.json');
+const knownMarketplacesPath = path.join(pluginsDir, 'known_marketplaces.json');
+
+function writeFile(filePath: string, content: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+function readJson(filePath: string) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function createMarketplaceDir(root: string, version = '1.0.0') {
+  writeFile(path.join(root, '.claude-plugin', 'marketplace.json'), {
+    name: 'team-tools',
+    owner: { name: 'Team' },
+    metadata: { description: 'Shared tools' },
+    plugins: [
+      { name: 'reviewer', source: './plugins/reviewer', description: 'Code review helpers', author: { name: 'Ada' } },
+      { name: 'remote', source: { source: 'github', repo: 'acme/remote-plugin' } },
+      { name: 'escape', source: '../outside' },
+      { name: 'bad name', source: './plugins/reviewer' },
+    ],
+  });
+
+  const pluginDir = path.join(root, 'plugins', 'reviewer');
+  writeFile(path.join(pluginDir, '.claude-plugin', 'plugin.json'), { name: 'reviewer', version });
+  writeFile(path.join(pluginDir, 'agents', 'code-reviewer.md'), '---\nname: code-reviewer\n---\n');
+  writeFile(path.join(pluginDir, 'commands', 'review.md'), 'Review');
+  writeFile(path.join(pluginDir, 'commands', 'git', 'blame.md'), 'Blame');
+  writeFile(path.join(pluginDir, 'skills', 'linting', 'SKILL.md'), '# Linting');
+  writeFile(path.join(pluginDir, 'skills', 'notes', 'README.md'), 'not a skill');
+  writeFile(path.join(pluginDir, 'hooks', 'hooks.json'), { hooks: { PreToolUse: [], Stop: [] } });
+  writeFile(path.join(pluginDir, '.mcp.json'), { mcpServers: { github: { command: 'gh-mcp' } } });
+  return pluginDir;
+}
+
+describe('PluginMarketplace', () => {
+  let workDir: string;
+  let vaultPath: string;
+
+  beforeEach(() => {
+    fs.rmSync(path.join(mockHomeDir, '.claude'), { recursive: true, force: true });
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claudian-marketplace-'));
+    vaultPath = path.join(workDir, 'vault');
+    fs.mkdirSync(vaultPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(mockHomeDir, { recursive: true, force: true });
+  });
+
+  describe('parseMarketplaceSource', () => {
+    it('recognizes git URLs, paths and GitHub repos', () => {
+      expect(parseMarketplaceSource('https://example.com/tools.git')).toEqual({ source: 'git', url: 'https://example.com/tools.git' });
+      expect(parseMarketplaceSource('git@github.com:acme/tools.git')).toEqual({ source: 'git', url: 'git@github.com:acme/tools.git' });
+      expect(parseMarketplaceSource(' /opt/marketplace ')).toEqual({ source: 'directory', path: '/opt/marketplace' });
+      expect(parseMarketplaceSource('~/marketplace')).toEqual({ source: 'directory', path: path.join(mockHomeDir, 'marketplace') });
+      expect(parseMarketplaceSource('acme/tools')).toEqual({ source: 'github', repo: 'acme/tools' });
+      expect(parseMarketplaceSource('acme/.github')).toEqual({ source: 'github', repo: 'acme/.github' });
+    });
+
+    it('rejects option-like, local-transport and plain http URLs', () => {
+      for (const input of ['--upload-pack=touch /tmp/x.git', 'file:///tmp/repo', 'http://example.com/tools.git', 'ext::sh -c id', 'acme/..']) {
+        expect(() => parseMarketplaceSource(input)).toThrow('Enter an absolute directory path');
+      }
+    });
+
+    it('rejects relative paths', () => {
+      expect(() => parseMarketplaceSource('some/relative/path')).toThrow('absolute directory path');
+    });
+  });
+
+  describe('scanPluginContents', () => {
+    it('lists agents, namespaced commands, skills and hook events', () => {
+      const pluginDir = createMarketplaceDir(path.join(workDir, 'market'));
+
+      expect(scanPluginContents(pluginDir)).toEqual({
+        agents: ['code-reviewer'],
+        commands: ['git:blame', 'review'],
+        skills: ['linting'],
+        hooks: ['PreToolUse', 'Stop'],
+        mcpServers: ['github'],
+      });
+    });
+
+    it('returns empty lists for an empty directory', () => {
+      expect(scanPluginContents(workDir)).toEqual({ agents: [], commands: [], skills: [], hooks: [], mcpServers: [] });
+    });
+
+    it('reads MCP servers declared in plugin.json', () => {
+      writeFile(path.join(workDir, '.claude-plugin', 'plugin.json'), { name: 'p', mcpServers: { db: {}, api: {} } });
+      expect(scanPluginContents(workDir).mcpServers).toEqual(['api', 'db']);
+
+      writeFile(path.join(workDir, '.claude-plugin', 'plugin.json'), { name: 'p', mcpServers: './config/mcp.json' });
+      writeFile(path.join(workDir, 'config', 'mcp.json'), { mcpServers: { search: {} } });
+      expect(scanPluginContents(workDir).mcpServers).toEqual(['search']);
+    });
+  });
+
+  describe('readMarketplaceManifest', () => {
+    it('resolves local plugins and skips invalid or escaping entries', () => {
+      const root = path.join(workDir, 'market');
+      createMarketplaceDir(root);
+
+      const manifest = readMarketplaceManifest(root);
+
+      expect(manifest.name).toBe('team-tools');
+      expect(manifest.description).toBe('Shared tools');
+      expect(manifest.plugins.map((p) => p.name)).toEqual(['remote', 'reviewer']);
+
+      const reviewer = manifest.plugins.find((p) => p.name === 'reviewer')!;
+      expect(reviewer).toMatchObject({
+        id: 'reviewer@team-tools',
+        version: '1.0.0',
+        author: 'Ada',
+        sourcePath: path.join(root, 'plugins', 'reviewer'),
+      });
+      expect(reviewer.contents?.agents).toEqual(['code-reviewer']);
+
+      const remote = manifest.plugins.find((p) => p.name === 'remote')!;
+      expect(remote.gitUrl).toBe('https://github.com/acme/remote-plugin.git');
+      expect(remote.contents).toBeNull();
+    });
+
+    it('throws when the manifest is missing', () => {
+      expect(() => readMarketplaceManifest(workDir)).toThrow('marketplace.json');
+    });
+
+    it('skips plugins hosted at unsupported git URLs', () => {
+      writeFile(path.join(workDir, '.claude-plugin', 'marketplace.json'), {
+        name: 'market',
+        plugins: [
+          { name: 'option', source: { source: 'url', url: '--upload-pack=touch /tmp/pwned' } },
+          { name: 'ext', source: { source: 'git', url: 'ext::sh -c id' } },
+          { name: 'local', source: { source: 'url', url: 'file:///etc' } },
+          { name: 'traversal', source: { source: 'github', repo: '../../evil' } },
+          { name: 'ssh', source: { source: 'git', url: 'git@example.com:acme/ssh.git' } },
+        ],
+      });
+
+      expect(readMarketplaceManifest(workDir).plugins.map((p) => [p.name, p.gitUrl])).toEqual([
+        ['ssh', 'git@example.com:acme/ssh.git'],
+      ]);
+    });
+
+    it('rejects names made only of dots', () => {
+      writeFile(path.join(workDir, '.claude-plugin', 'marketplace.json'), { name: '..', plugins: [] });
+      expect(() => readMarketplaceManifest(workDir)).toThrow('no valid name');
+
+      writeFile(path.join(workDir, '.claude-plugin', 'marketplace.json'), {
+        name: 'market',
+        plugins: [{ name: '..', source: './' }, { name: '.', source: './' }],
+      });
+      expect(readMarketplaceManifest(workDir).plugins).toEqual([]);
+    });
+  });
+
+  describe('marketplaces', () => {
+    it('adds a local directory marketplace in the CLI format', async () => {
+      const root = path.join(workDir, 'market');
+      createMarketplaceDir(root);
+      const marketplace = new PluginMarketplace(vaultPath, jest.fn());
+
+      const added = await marketplace.addMarketplace(root);
+
+      expect(added.name).toBe('team-tools');
+      expect(readJson(knownMarketplacesPath)).toEqual({
+        'team-tools': {
+          source: { source: 'directory', path: root },
+          installLocation: root,
+          lastUpdated: expect.any(String),
+        },
+      });
+      expect(marketplace.getMarketplaces().map((m) => m.name)).toEqual(['team-tools']);
+      await expect(marketplace.addMarketplace(root)).rejects.toThrow('already added');
+    });
+
+    it('clones git marketplaces into the marketplaces directory and pulls on update', async () => {
+      const fixture = path.join(workDir, 'fixture');
+      createMarketplaceDir(fixture);
+      const git: jest.MockedFunction<GitRunner> = jest.fn(async (args) => {
+        if (args[0] === 'clone') fs.cpSync(fixture, args[5], { recursive: true });
+        return '';
+      });
+      const marketplace = new PluginMarketplace(vaultPath, git);
+
+      const added = await marketplace.addMarketplace('acme/team-tools');
+
+      const installLocation = path.join(pluginsDir, 'marketplaces', 'team-tools');
+      expect(git).toHaveBeenCalledWith(['clone', '--depth', '1', '--', 'https://github.com/acme/team-tools.git', expect.any(String)]);
+      expect(added.installLocation).toBe(installLocation);
+      expect(fs.existsSync(path.join(installLocation, '.claude-plugin', 'marketplace.json'))).toBe(true);
+      expect(fs.readdirSync(path.join(pluginsDir, 'marketplaces'))).toEqual(['team-tools']);
+
+      await marketplace.updateMarketplace('team-tools');
+      expect(git).toHaveBeenLastCalledWith(['pull', '--ff-only'], installLocation);
+
+      marketplace.removeMarketplace('team-tools');
+      expect(readJson(knownMarketplacesPath)).toEqual({});
+      expect(fs.existsSync(installLocation)).toBe(false);
+    });
+
+    it('cleans up the checkout when the cloned repository is not a marketplace', async () => {
+      const git: GitRunner = jest.fn(async () => '');
+      const marketplace = new PluginMarketplace(vaultPath, git);
+
+      await expect(marketplace.addMarketplace('https://example.com/empty.git')).rejects.toThrow('marketplace.json');
+      expect(fs.readdirSync(path.join(pluginsDir, 'marketplaces'))).toEqual([]);
+    });
+
+    it('leaves the plugins directory alone when a cloned marketplace is named ..', async () => {
+      writeFile(installedPluginsPath, { version: 2, plugins: {} });
+      const git: GitRunner = jest.fn(async (args) => {
+        writeFile(path.join(args[args.length - 1], '.claude-plugin', 'marketplace.json'), { name: '..', plugins: [] });
+        return '';
+      });
+      const marketplace = new PluginMarketplace(vaultPath, git);
+
+      await expect(marketplace.addMarketplace('acme/evil')).rejects.toThrow('no valid name');
+      expect(fs.existsSync(installedPluginsPath)).toBe(true);
+      expect(fs.readdirSync(path.join(pluginsDir, 'marketplaces'))).toEqual([]);
+    });
+
+    it('reports marketplaces whose manifest disappeared', async () => {
+      const root = path.join(workDir, 'market');
+      createMarketplaceDir(root);
+      const marketplace = new PluginMarketplace(vaultPath, jest.fn());
+      await marketplace.addMarketplace(root);
+
+      fs.rmSync(root, { recursive: true });
+
+      const [listed] = marketplace.getMarketplaces();
+      expect(listed.plugins).toEqual([]);
+      expect(listed.error).toContain('marketplace.json');
+    });
+  });
+
+  describe('plugins', () => {
+    async function setup(git: GitRunner = jest.fn().mockRejectedValue(new Error('not a git repository'))) {
+      const root = path.join(workDir, 'market');
+      createMarketplaceDir(root);
+      const marketplace = new PluginMarketplace(vaultPath, git);
+      const added = await marketplace.addMarketplace(root);
+      const plugin = added.plugins.find((p) => p.name === 'reviewer')!;
+      return { root, marketplace, plugin };
+    }
+
+    it('copies the plugin into the cache and records a project install', async () => {
+      const { marketplace, plugin } = await setup();
+
+      const entry = (await marketplace.installPlugin(plugin, 'project'))!;
+
+      const installPath = path.join(pluginsDir, 'cache', 'team-tools', 'reviewer', '1.0.0');
+      expect(entry).toEqual({
+        scope: 'project',
+        installPath,
+        version: '1.0.0',
+        installedAt: expect.any(String),
+        lastUpdated: expect.any(String),
+        projectPath: vaultPath,
+      });
+      expect(readJson(installedPluginsPath)).toEqual({ version: 2, plugins: { 'reviewer@team-tools': [entry] } });
+      expect(fs.existsSync(path.join(installPath, 'agents', 'code-reviewer.md'))).toBe(true);
+      expect(marketplace.getInstalledEntry('reviewer@team-tools', 'project')).toEqual(entry);
+      expect(marketplace.getInstalledEntry('reviewer@team-tools', 'user')).toBeNull();
+    });
+
+    it('keeps installs of other plugins and scopes', async () => {
+      const other = { scope: 'user', installPath: '/elsewhere', version: '2.0.0', installedAt: 'x', lastUpdated: 'x' };
+      writeFile(installedPluginsPath, { version: 2, plugins: { 'other@market': [other], 'reviewer@team-tools': [other] } });
+      const { marketplace, plugin } = await setup();
+
+      await marketplace.installPlugin(plugin, 'project');
+
+      const file = readJson(installedPluginsPath);
+      expect(file.plugins['other@market']).toEqual([other]);
+      expect(file.plugins['reviewer@team-tools']).toHaveLength(2);
+    });
+
+    it('records the commit of git checkouts', async () => {
+      const git: GitRunner = jest.fn(async (args) => (args[0] === 'rev-parse' ? 'abc123def456789' : ''));
+      const { marketplace, plugin } = await setup(git);
+
+      const entry = (await marketplace.installPlugin(plugin, 'user'))!;
+
+      expect(entry.gitCommitSha).toBe('abc123def456789');
+      expect(entry.projectPath).toBeUndefined();
+    });
+
+    it('updates to the new version and removes the old copy', async () => {
+      const { root, marketplace, plugin } = await setup();
+      const first = (await marketplace.installPlugin(plugin, 'project'))!;
+
+      createMarketplaceDir(root, '1.1.0');
+      const updated = (await marketplace.updatePlugin(plugin.id, 'project'))!;
+
+      expect(updated.version).toBe('1.1.0');
+      expect(updated.installedAt).toBe(first.installedAt);
+      expect(fs.existsSync(first.installPath)).toBe(false);
+      expect(fs.existsSync(updated.installPath)).toBe(true);
+      expect(readJson(installedPluginsPath).plugins['reviewer@team-tools']).toEqual([updated]);
+    });
+
+    async function setupRemote() {
+      const remoteDir = path.join(workDir, 'remote-src');
+      writeFile(path.join(remoteDir, '.claude-plugin', 'plugin.json'), { name: 'remote', version: '0.3.0' });
+      writeFile(path.join(remoteDir, 'commands', 'deploy.md'), 'Deploy');
+      writeFile(path.join(remoteDir, 'hooks', 'hooks.json'), { hooks: { SessionStart: [] } });
+      writeFile(path.join(remoteDir, '.git', 'HEAD'), 'ref: refs/heads/main');
+      const clones: string[] = [];
+      const git: GitRunner = jest.fn(async (args) => {
+        if (args[0] === 'clone') {
+          clones.push(args[5]);
+          fs.cpSync(remoteDir, args[5], { recursive: true });
+        }
+        return args[0] === 'rev-parse' ? 'feedbeef' : '';
+      });
+      const { marketplace, plugin } = await setup(git);
+      const remote = marketplace.getMarketplace('team-tools')!.plugins.find((p) => p.name === 'remote')!;
+      return { git, clones, marketplace, plugin, remote };
+    }
+
+    it('clones plugins hosted outside the marketplace', async () => {
+      const { git, marketplace, remote } = await setupRemote();
+
+      const entry = (await marketplace.installPlugin(remote, 'user'))!;
+
+      expect(git).toHaveBeenCalledWith(['clone', '--depth', '1', '--', 'https://github.com/acme/remote-plugin.git', expect.any(String)]);
+      expect(entry.version).toBe('0.3.0');
+      expect(fs.existsSync(path.join(entry.installPath, 'commands', 'deploy.md'))).toBe(true);
+      expect(fs.existsSync(path.join(entry.installPath, '.git'))).toBe(false);
+    });
+
+    it('previews the contents of cloned plugins before installing them', async () => {
+      const { clones, marketplace, remote } = await setupRemote();
+      const confirmContents = jest.fn().mockResolvedValue(false);
+
+      await expect(marketplace.installPlugin(remote, 'user', confirmContents)).resolves.toBeNull();
+
+      expect(confirmContents).toHaveBeenCalledWith(remote, {
+        agents: [],
+        commands: ['deploy'],
+        skills: [],
+        hooks: ['SessionStart'],
+        mcpServers: [],
+      });
+      expect(fs.existsSync(path.join(pluginsDir, 'cache', 'team-tools', 'remote'))).toBe(false);
+      expect(marketplace.getInstalledEntry(remote.id, 'user')).toBeNull();
+      expect(fs.existsSync(clones[0])).toBe(false);
+
+      confirmContents.mockResolvedValue(true);
+      const entry = await marketplace.installPlugin(remote, 'user', confirmContents);
+      expect(entry?.version).toBe('0.3.0');
+    });
+
+    it('does not ask to confirm plugins already previewed in the marketplace', async () => {
+      const { marketplace, plugin } = await setupRemote();
+      const confirmContents = jest.fn();
+
+      await marketplace.installPlugin(plugin, 'user', confirmContents);
+
+      expect(confirmContents).not.toHaveBeenCalled();
+    });
+
+    it('rejects a version of .. instead of replacing the plugin cache', async () => {
+      const { root, marketplace, plugin } = await setup();
+      const first = (await marketplace.installPlugin(plugin, 'project'))!;
+
+      writeFile(path.join(root, 'plugins', 'reviewer', '.claude-plugin', 'plugin.json'), { name: 'reviewer', version: '..' });
+
+      await expect(marketplace.installPlugin(plugin, 'user')).rejects.toThrow('invalid version');
+      expect(fs.existsSync(first.installPath)).toBe(true);
+    });
+
+    it('refuses to install plugins whose names escape the cache', async () => {
+      const { marketplace, plugin } = await setup();
+      const first = (await marketplace.installPlugin(plugin, 'project'))!;
+
+      await expect(marketplace.installPlugin({ ...plugin, name: '..', version: 'reviewer' }, 'user'))
+        .rejects.toThrow('Refusing to write outside');
+      expect(fs.existsSync(first.installPath)).toBe(true);
+    });
+
+    it('refuses to clone plugins with unsupported git URLs', async () => {
+      const git: jest.MockedFunction<GitRunner> = jest.fn().mockRejectedValue(new Error('not a git repository'));
+      const { marketplace, plugin } = await setup(git);
+      git.mockClear();
+
+      await expect(marketplace.installPlugin(
+        { ...plugin, sourcePath: undefined, gitUrl: '--upload-pack=touch /tmp/pwned' },
+        'user'
+      )).rejects.toThrow('unsupported git URL');
+      expect(git).not.toHaveBeenCalled();
+    });
+
+    it('uninstalls one scope and deletes the cached copy when unused', async () => {
+      const { marketplace, plugin } = await setup();
+      const entry = (await marketplace.installPlugin(plugin, 'project'))!;
+
+      marketplace.uninstallPlugin(plugin.id, 'user');
+      expect(fs.existsSync(entry.installPath)).toBe(true);
+
+      marketplace.uninstallPlugin(plugin.id, 'project');
+      expect(readJson(installedPluginsPath).plugins).toEqual({});
+      expect(fs.existsSync(entry.installPath)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { getNextRunAt, TaskScheduler } from '@/core/scheduler';
+import type { ScheduledTask } from '@/core/types';
+
+const CREATED = new Date(2025, 4, 10, 8, 0).getTime();
+const NINE = new Date(2025, 4, 10, 9, 0).getTime();
+const NEXT_DAY_NINE = new Date(2025, 4, 11, 9, 0).getTime();
+
+function createTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Morning brief',
+    prompt: '/brief',
+    schedule: '0 9 * * *',
+    enabled: true,
+    permissionMode: 'normal',
+    createdAt: CREATED,
+    runs: [],
+    ...overrides,
+  };
+}
+
+function createScheduler(tasks: ScheduledTask[], now = NINE) {
+  const save = jest.fn().mockResolvedValue(undefined);
+  const runTask = jest.fn().mockResolvedValue({ conversationId: 'conv-1' });
+  const scheduler = new TaskScheduler({
+    load: async () => tasks,
+    save,
+    runTask,
+    now: () => now,
+  });
+  return { scheduler, save, runTask };
+}
+
+describe('getNextRunAt', () => {
+  it('computes from the last scheduled time, falling back to creation time', () => {
+    expect(getNextRunAt(createTask())).toBe(NINE);
+    expect(getNextRunAt(createTask({ lastScheduledAt: NINE }))).toBe(NEXT_DAY_NINE);
+  });
+
+  it('returns null for an invalid schedule', () => {
+    expect(getNextRunAt(createTask({ schedule: 'nope' }))).toBeNull();
+  });
+});
+
+describe('TaskScheduler', () => {
+  it('runs due tasks and records the run', async () => {
+    const { scheduler, runTask, save } = createScheduler([createTask()]);
+    await scheduler.load();
+
+    await scheduler.tick(NINE);
+
+    expect(runTask).toHaveBeenCalledWith(expect.objectContaining({ id: 'task-1' }), 'schedule');
+    const task = scheduler.getTask('task-1')!;
+    expect(task.lastScheduledAt).toBe(NINE);
+    expect(task.runs).toEqual([
+      { startedAt: NINE, finishedAt: NINE, status: 'success', trigger: 'schedule', conversationId: 'conv-1', error: undefined },
+    ]);
+    expect(save).toHaveBeenCalled();
+    expect(scheduler.isRunning('task-1')).toBe(false);
+  });
+
+  it('skips tasks that are not due or disabled', async () => {
+    const { scheduler, runTask } = createScheduler([
+      createTask(),
+      createTask({ id: 'task-2', enabled: false }),
+    ]);
+    await scheduler.load();
+
+    await scheduler.tick(NINE - 60_000);
+    await scheduler.tick(NINE);
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('collapses missed runs into a single catch-up run', async () => {
+    const { scheduler, runTask } = createScheduler([createTask()]);
+    await scheduler.load();
+    const threeDaysLater = NINE + 3 * 24 * 60 * 60 * 1000;
+
+    await scheduler.tick(threeDaysLater);
+    await scheduler.tick(threeDaysLater + 60_000);
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+    expect(scheduler.getTask('task-1')!.lastScheduledAt).toBe(threeDaysLater);
+  });
+
+  it('records errors from the runner', async () => {
+    const { scheduler, runTask } = createScheduler([createTask()]);
+    runTask.mockResolvedValueOnce({ conversationId: 'conv-2', error: 'Budget reached' });
+    runTask.mockRejectedValueOnce(new Error('boom'));
+    await scheduler.load();
+
+    await scheduler.runNow('task-1');
+    await scheduler.runNow('task-1');
+
+    const [latest, first] = scheduler.getTask('task-1')!.runs;
+    expect(first).toMatchObject({ status: 'error', trigger: 'manual', conversationId: 'conv-2', error: 'Budget reached' });
+    expect(latest).toMatchObject({ status: 'error', error: 'boom' });
+  });
+
+  it('runs tasks one at a time', async () => {
+    const { scheduler, runTask } = createScheduler([createTask(), createTask({ id: 'task-2' })]);
+    let active = 0;
+    let maxActive = 0;
+    runTask.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await Promise.resolve();
+      active--;
+      return {};
+    });
+    await scheduler.load();
+
+    await scheduler.tick(NINE);
+
+    expect(runTask).toHaveBeenCalledTimes(2);
+    expect(maxActive).toBe(1);
+  });
+
+  it('does not start a task that is already running', async () => {
+    const { scheduler, runTask } = createScheduler([createTask()]);
+    await scheduler.load();
+
+    await Promise.all([scheduler.runNow('task-1'), scheduler.runNow('task-1')]);
+
+    expect(runTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the run log and restarts the schedule when edited', async () => {
+    const runs = [{ startedAt: 1, status: 'success' as const, trigger: 'manual' as const }];
+    const { scheduler } = createScheduler([createTask({ runs, lastScheduledAt: CREATED })], NINE);
+    await scheduler.load();
+
+    await scheduler.saveTask(createTask({ schedule: '0 10 * * *' }));
+
+    const task = scheduler.getTask('task-1')!;
+    expect(task.runs).toBe(runs);
+    expect(task.schedule).toBe('0 10 * * *');
+    expect(task.lastScheduledAt).toBe(NINE);
+  });
+
+  it('notifies listeners and deletes tasks', async () => {
+    const { scheduler } = createScheduler([createTask()]);
+    const listener = jest.fn();
+    await scheduler.load();
+    const unsubscribe = scheduler.onChange(listener);
+
+    await scheduler.deleteTask('task-1');
+    unsubscribe();
+    await scheduler.saveTask(createTask({ id: 'task-2' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(scheduler.getTasks().map(t => t.id)).toEqual(['task-2']);
+  });
+});
@@ -0,0 +1,56 @@
+import { getNextRunTime, parseCron, validateCron } from '@/core/scheduler';
+
+function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+describe('parseCron', () => {
+  it('parses lists, ranges, and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('expands shorthands and treats 7 as Sunday', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(validateCron('0 0 * *')).toMatch(/Expected 5 fields/);
+    expect(validateCron('60 * * * *')).toMatch(/out of range/);
+    expect(validateCron('*/0 * * * *')).toMatch(/step/);
+    expect(validateCron('5-1 * * * *')).toMatch(/range/);
+    expect(validateCron('0 9 * * 1')).toBeNull();
+  });
+});
+
+describe('getNextRunTime', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    const schedule = parseCron('30 9 * * *');
+
+    expect(getNextRunTime(schedule, at(2025, 5, 10, 8, 0))).toBe(at(2025, 5, 10, 9, 30));
+    expect(getNextRunTime(schedule, at(2025, 5, 10, 9, 30))).toBe(at(2025, 5, 11, 9, 30));
+  });
+
+  it('honours day-of-week', () => {
+    // 2025-05-10 is a Saturday
+    expect(getNextRunTime(parseCron('0 8 * * 1'), at(2025, 5, 10))).toBe(at(2025, 5, 12, 8));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 1st of the month or any Friday; 2025-05-16 is a Friday
+    const schedule = parseCron('0 0 1 * 5');
+
+    expect(getNextRunTime(schedule, at(2025, 5, 10))).toBe(at(2025, 5, 16));
+    expect(getNextRunTime(schedule, at(2025, 5, 31))).toBe(at(2025, 6, 1));
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(getNextRunTime(parseCron('0 0 31 2 *'), at(2025, 1, 1))).toBeNull();
+  });
+});
@@ -666,21 +666,75 @@ describe('transformSDKMessage', () => {
   });
 
   describe('result messages', () => {
-    it('yields nothing for result messages (usage extracted from assistant messages now)', () => {
-      // Usage is now extracted from assistant messages for accuracy.
-      // Result message usage is aggregated across main + subagents, causing inaccurate spikes.
+    it('yields cumulative cost totals split by model', () => {
       const message: SDKMessage = {
         type: 'result',
-        model: 'claude-sonnet-4-5-20250514',
+        total_cost_usd: 0.5,
         modelUsage: {
           'claude-sonnet-4-5-20250514': {
             inputTokens: 1000,
+            outputTokens: 300,
             cacheCreationInputTokens: 500,
             cacheReadInputTokens: 200,
+            costUSD: 0.4,
+          },
+          'claude-haiku-4-5': {
+            inputTokens: 100,
+            outputTokens: 50,
+            costUSD: 0.1,
+          },
+        },
+      };
+
+      const results = [...transformSDKMessage(message)];
+
+      expect(results).toEqual([{
+        type: 'cost',
+        cost: {
+          totals: {
+            inputTokens: 1100,
+            outputTokens: 350,
+            cacheCreationInputTokens: 500,
+            cacheReadInputTokens: 200,
+            costUsd: 0.5,
+          },
+          byModel: {
+            'claude-sonnet-4-5-20250514': {
+              inputTokens: 1000,
+              outputTokens: 300,
+              cacheCreationInputTokens: 500,
+              cacheReadInputTokens: 200,
+              costUsd: 0.4,
+            },
+            'claude-haiku-4-5': {
+              inputTokens: 100,
+              outputTokens: 50,
+              cacheCreationInputTokens: 0,
+              cacheReadInputTokens: 0,
+              costUsd: 0.1,
+            },
           },
         },
+      }]);
+    });
+
+    it('sums model costs when total_cost_usd is missing', () => {
+      const message: SDKMessage = {
+        type: 'result',
+        modelUsage: {
+          a: { inputTokens: 1, costUSD: 0.25 },
+          b: { inputTokens: 2, costUSD: 0.5 },
+        },
       };
 
+      const [event] = [...transformSDKMessage(message)];
+
+      expect((event as any).cost.totals.costUsd).toBe(0.75);
+    });
+
+    it('yields nothing when result has no cost data', () => {
+      const message: SDKMessage = { type: 'result' };
+
       const results = [...transformSDKMessage(message)];
 
       expect(results).toEqual([]);
@@ -0,0 +1,237 @@
+import {
+  buildSnippet,
+  ConversationSearchIndex,
+  type ConversationSearchSource,
+  extractSearchDocuments,
+  type SearchableConversation,
+  tokenizeQuery,
+} from '@/core/search';
+import type { ChatMessage } from '@/core/types';
+
+function msg(id: string, role: 'user' | 'assistant', content: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role, content, timestamp: 0, ...extra };
+}
+
+function createSource(
+  conversations: SearchableConversation[],
+  messages: Record<string, ChatMessage[]>
+): ConversationSearchSource & { loadMessages: jest.Mock } {
+  return {
+    listConversations: () => conversations,
+    loadMessages: jest.fn(async (id: string) => messages[id] ?? []),
+  };
+}
+
+describe('tokenizeQuery', () => {
+  it('splits on whitespace and lowercases', () => {
+    expect(tokenizeQuery('  React  Hooks ')).toEqual(['react', 'hooks']);
+  });
+
+  it('keeps quoted phrases together', () => {
+    expect(tokenizeQuery('"use effect" cleanup')).toEqual(['use effect', 'cleanup']);
+  });
+
+  it('deduplicates terms', () => {
+    expect(tokenizeQuery('foo FOO foo')).toEqual(['foo']);
+  });
+
+  it('returns empty array for blank query', () => {
+    expect(tokenizeQuery('   ')).toEqual([]);
+  });
+});
+
+describe('extractSearchDocuments', () => {
+  it('extracts title, message, and tool documents', () => {
+    const docs = extractSearchDocuments('My Title', [
+      msg('u1', 'user', 'expanded prompt', { displayContent: '/review' }),
+      msg('a1', 'assistant', 'Done', {
+        toolCalls: [{ id: 't1', name: 'Bash', input: { command: 'npm test' }, status: 'completed' }],
+      }),
+    ]);
+
+    expect(docs).toEqual([
+      { field: 'title', text: 'My Title' },
+      { field: 'message', text: '/review', messageId: 'u1', role: 'user' },
+      { field: 'message', text: 'Done', messageId: 'a1', role: 'assistant' },
+      { field: 'tool', text: 'Bash: npm test', messageId: 'a1', role: 'assistant', toolName: 'Bash' },
+    ]);
+  });
+
+  it('skips rebuilt context and empty content', () => {
+    const docs = extractSearchDocuments('', [
+      msg('u1', 'user', 'hidden context', { isRebuiltContext: true }),
+      msg('a1', 'assistant', '   '),
+    ]);
+
+    expect(docs).toEqual([]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights all term occurrences', () => {
+    const snippet = buildSnippet('foo bar foo', ['foo']);
+
+    expect(snippet.text).toBe('foo bar foo');
+    expect(snippet.highlights).toEqual([{ start: 0, end: 3 }, { start: 8, end: 11 }]);
+  });
+
+  it('adds ellipses when text is trimmed around the hit', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`;
+    const snippet = buildSnippet(text, ['needle'], 10);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe('needle');
+  });
+
+  it('merges overlapping highlights', () => {
+    const snippet = buildSnippet('react reactive', ['react', 'reactive']);
+
+    expect(snippet.highlights).toEqual([{ start: 0, end: 5 }, { start: 6, end: 14 }]);
+  });
+
+  it('collapses whitespace', () => {
+    expect(buildSnippet('a\n\n  b', ['b']).text).toBe('a b');
+  });
+});
+
+describe('ConversationSearchIndex', () => {
+  it('returns no results for an empty query without loading', async () => {
+    const source = createSource([{ id: 'c1', title: 'T', signature: '1' }], {});
+    const index = new ConversationSearchIndex(source);
+
+    expect(await index.search('  ')).toEqual([]);
+    expect(source.loadMessages).not.toHaveBeenCalled();
+  });
+
+  it('requires every term to appear in the same document', async () => {
+    const source = createSource(
+      [{ id: 'c1', title: 'Untitled', signature: '1' }],
+      { c1: [msg('m1', 'user', 'react hooks'), msg('m2', 'assistant', 'vue only')] }
+    );
+    const index = new ConversationSearchIndex(source);
+
+    expect(await index.search('react hooks')).toHaveLength(1);
+    expect(await index.search('react vue')).toEqual([]);
+  });
+
+  it('returns matches with message ids for jumping', async () => {
+    const source = createSource(
+      [{ id: 'c1', title: 'Untitled', signature: '1' }],
+      { c1: [msg('m1', 'user', 'hello'), msg('m2', 'assistant', 'deploy the worker')] }
+    );
+    const index = new ConversationSearchIndex(source);
+
+    const [result] = await index.search('deploy');
+
+    expect(result.conversationId).toBe('c1');
+    expect(result.matches).toEqual([
+      expect.objectContaining({ field: 'message', messageId: 'm2', role: 'assistant' }),
+    ]);
+  });
+
+  it('ranks title matches above message matches, then by recency', async () => {
+    const source = createSource(
+      [
+        { id: 'recent', title: 'Chat', signature: '1' },
+        { id: 'older', title: 'Chat', signature: '1' },
+        { id: 'titled', title: 'Kubernetes setup', signature: '1' },
+      ],
+      {
+        recent: [msg('m1', 'user', 'kubernetes')],
+        older: [msg('m2', 'user', 'kubernetes')],
+        titled: [],
+      }
+    );
+    const index = new ConversationSearchIndex(source);
+
+    const results = await index.search('kubernetes');
+
+    expect(results.map(r => r.conversationId)).toEqual(['titled', 'recent', 'older']);
+  });
+
+  it('limits results and matches per conversation', async () => {
+    const source = createSource(
+      [
+        { id: 'c1', title: 'a', signature: '1' },
+        { id: 'c2', title: 'b', signature: '1' },
+      ],
+      {
+        c1: [msg('1', 'user', 'x'), msg('2', 'user', 'x'), msg('3', 'user', 'x')],
+        c2: [msg('4', 'user', 'x')],
+      }
+    );
+    const index = new ConversationSearchIndex(source);
+
+    const results = await index.search('x', { limit: 1, maxMatchesPerConversation: 2 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].matches).toHaveLength(2);
+    expect(results[0].score).toBe(6);
+  });
+
+  it('only reloads conversations whose signature changed', async () => {
+    const conversations = [
+      { id: 'c1', title: 'One', signature: '1' },
+      { id: 'c2', title: 'Two', signature: '1' },
+    ];
+    const source = createSource(conversations, { c1: [], c2: [] });
+    const index = new ConversationSearchIndex(source);
+
+    await index.refresh();
+    expect(source.loadMessages).toHaveBeenCalledTimes(2);
+
+    conversations[1] = { id: 'c2', title: 'Two', signature: '2' };
+    await index.refresh();
+
+    expect(source.loadMessages).toHaveBeenCalledTimes(3);
+    expect(source.loadMessages).toHaveBeenLastCalledWith('c2');
+  });
+
+  it('drops conversations that no longer exist', async () => {
+    const conversations = [{ id: 'c1', title: 'One', signature: '1' }];
+    const source = createSource(conversations, {});
+    const index = new ConversationSearchIndex(source);
+
+    await index.refresh();
+    expect(index.size).toBe(1);
+
+    conversations.pop();
+    await index.refresh();
+
+    expect(index.size).toBe(0);
+  });
+
+  it('reloads a conversation after invalidate', async () => {
+    const source = createSource([{ id: 'c1', title: 'One', signature: '1' }], {});
+    const index = new ConversationSearchIndex(source);
+
+    await index.refresh();
+    index.invalidate('c1');
+    await index.refresh();
+
+    expect(source.loadMessages).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares a single refresh between concurrent callers', async () => {
+    const source = createSource([{ id: 'c1', title: 'One', signature: '1' }], {});
+    const index = new ConversationSearchIndex(source);
+
+    await Promise.all([index.refresh(), index.refresh()]);
+
+    expect(source.loadMessages).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips conversations that fail to load and retries them later', async () => {
+    const source = createSource([{ id: 'c1', title: 'One', signature: '1' }], {});
+    source.loadMessages.mockRejectedValueOnce(new Error('read failed'));
+    const index = new ConversationSearchIndex(source);
+
+    await index.refresh();
+    expect(index.size).toBe(0);
+
+    await index.refresh();
+    expect(index.size).toBe(1);
+  });
+});
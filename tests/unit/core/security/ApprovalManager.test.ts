@@ -50,6 +50,11 @@ describe('getActionPattern', () => {
     expect(getActionPattern('Grep', { pattern: 'TODO' })).toBe('TODO');
   });
 
+  it('extracts url for WebFetch', () => {
+    expect(getActionPattern('WebFetch', { url: 'https://example.com/a', prompt: 'Summarize' })).toBe('https://example.com/a');
+    expect(getActionPattern('WebFetch', {})).toBeNull();
+  });
+
   it('returns JSON for unknown tools', () => {
     expect(getActionPattern('UnknownTool', { foo: 'bar' })).toBe('{"foo":"bar"}');
   });
@@ -71,6 +76,10 @@ describe('getActionDescription', () => {
     expect(getActionDescription('Grep', { pattern: 'TODO' })).toBe('Search content matching: TODO');
   });
 
+  it('describes WebFetch actions', () => {
+    expect(getActionDescription('WebFetch', { url: 'https://example.com' })).toBe('Fetch URL: https://example.com');
+  });
+
   it('describes unknown tools with JSON', () => {
     expect(getActionDescription('Custom', { a: 1 })).toBe('Custom: {"a":1}');
   });
@@ -145,6 +154,19 @@ describe('matchesRulePattern', () => {
     expect(matchesRulePattern('Bash', 'npm', 'npm:*')).toBe(true);
   });
 
+  it('matches WebFetch domain rules against the URL hostname', () => {
+    expect(matchesRulePattern('WebFetch', 'https://example.com/docs', 'domain:example.com')).toBe(true);
+    expect(matchesRulePattern('WebFetch', 'https://EXAMPLE.com', 'domain:example.com')).toBe(true);
+    expect(matchesRulePattern('WebFetch', 'https://docs.example.com', 'domain:example.com')).toBe(false);
+    expect(matchesRulePattern('WebFetch', 'https://example.com.evil.io', 'domain:example.com')).toBe(false);
+    expect(matchesRulePattern('WebFetch', 'not a url', 'domain:example.com')).toBe(false);
+  });
+
+  it('matches other WebFetch rules as URL prefixes', () => {
+    expect(matchesRulePattern('WebFetch', 'https://example.com/docs/a', 'https://example.com/docs')).toBe(true);
+    expect(matchesRulePattern('WebFetch', 'https://other.com', 'https://example.com')).toBe(false);
+  });
+
   it('does not match when action pattern is null', () => {
     expect(matchesRulePattern('Read', null, '/test/vault/')).toBe(false);
     expect(matchesRulePattern('Read', null, '*')).toBe(false);
@@ -207,6 +229,14 @@ describe('buildPermissionUpdates', () => {
     }]);
   });
 
+  it('constructs a domain rule for WebFetch', () => {
+    const updates = buildPermissionUpdates('WebFetch', { url: 'https://Example.com/docs?q=1' }, 'allow-always');
+    expect(updates[0]).toMatchObject({ rules: [{ toolName: 'WebFetch', ruleContent: 'domain:example.com' }] });
+
+    const invalid = buildPermissionUpdates('WebFetch', { url: 'not a url' }, 'allow');
+    expect(invalid[0]).toMatchObject({ rules: [{ toolName: 'WebFetch' }] });
+  });
+
   it('includes addDirectories suggestions without overriding destination', () => {
     const suggestions = [
       {
@@ -0,0 +1,91 @@
+import { AuditLogger, filterAuditEntries, MAX_AUDIT_VALUE_LENGTH } from '@/core/security/AuditLogger';
+import type { AuditEntry } from '@/core/types';
+
+function createLogger(enabled = true) {
+  const write = jest.fn().mockResolvedValue(undefined);
+  const logger = new AuditLogger({ write, isEnabled: () => enabled, now: () => 1000 });
+  return { logger, write };
+}
+
+const base = {
+  toolName: 'Bash',
+  input: { command: 'ls' },
+  decision: 'allow' as const,
+  source: 'user' as const,
+};
+
+async function flush(): Promise<void> {
+  await Promise.resolve();
+  await Promise.resolve();
+}
+
+describe('AuditLogger', () => {
+  it('writes entries with a timestamp', async () => {
+    const { logger, write } = createLogger();
+
+    logger.record({ ...base, toolUseId: 'tool-1' });
+    await flush();
+
+    expect(write).toHaveBeenCalledWith({ timestamp: 1000, ...base, toolUseId: 'tool-1' });
+  });
+
+  it('keeps only the first decision per tool use', async () => {
+    const { logger, write } = createLogger();
+
+    logger.record({ ...base, toolUseId: 'tool-1' });
+    logger.record({ ...base, toolUseId: 'tool-1', source: 'permission-mode' });
+    await flush();
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(logger.hasRecorded('tool-1')).toBe(true);
+    expect(logger.hasRecorded('tool-2')).toBe(false);
+  });
+
+  it('records nothing when disabled', async () => {
+    const { logger, write } = createLogger(false);
+
+    logger.record({ ...base, toolUseId: 'tool-1' });
+    await flush();
+
+    expect(write).not.toHaveBeenCalled();
+    expect(logger.hasRecorded('tool-1')).toBe(false);
+  });
+
+  it('truncates long string values in the input', async () => {
+    const { logger, write } = createLogger();
+
+    logger.record({ ...base, toolName: 'Write', input: { file_path: 'a.md', content: 'x'.repeat(MAX_AUDIT_VALUE_LENGTH + 5) } });
+    await flush();
+
+    const written = write.mock.calls[0][0] as AuditEntry;
+    expect(written.input.file_path).toBe('a.md');
+    expect(written.input.content).toBe(`${'x'.repeat(MAX_AUDIT_VALUE_LENGTH)}… [5 more characters]`);
+  });
+
+  it('swallows write failures', async () => {
+    const write = jest.fn(() => { throw new Error('disk full'); });
+    const logger = new AuditLogger({ write, isEnabled: () => true });
+
+    expect(() => logger.record(base)).not.toThrow();
+    await flush();
+    expect(write).toHaveBeenCalled();
+  });
+});
+
+describe('filterAuditEntries', () => {
+  const entries: AuditEntry[] = [
+    { ...base, timestamp: 1 },
+    { ...base, timestamp: 3, toolName: 'Read', input: { file_path: 'a.md' } },
+    { ...base, timestamp: 2, decision: 'deny', source: 'blocklist' },
+  ];
+
+  it('sorts newest first', () => {
+    expect(filterAuditEntries(entries, {}).map(e => e.timestamp)).toEqual([3, 2, 1]);
+  });
+
+  it('filters by tool, decision, and time', () => {
+    expect(filterAuditEntries(entries, { toolName: 'Bash' }).map(e => e.timestamp)).toEqual([2, 1]);
+    expect(filterAuditEntries(entries, { decision: 'deny' }).map(e => e.timestamp)).toEqual([2]);
+    expect(filterAuditEntries(entries, { since: 2 }).map(e => e.timestamp)).toEqual([3, 2]);
+  });
+});
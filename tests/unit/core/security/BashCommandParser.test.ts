@@ -0,0 +1,97 @@
+import { parseBashCommand } from '@/core/security/BashCommandParser';
+
+describe('parseBashCommand', () => {
+  it('splits a simple command into argv', () => {
+    expect(parseBashCommand('rm -rf /tmp/x')).toEqual([['rm', '-rf', '/tmp/x']]);
+  });
+
+  it('removes quotes and escapes', () => {
+    expect(parseBashCommand(`"rm" '-r'"f" a\\ b`)).toEqual([['rm', '-rf', 'a b']]);
+    expect(parseBashCommand('\\rm -rf x')).toEqual([['rm', '-rf', 'x']]);
+  });
+
+  it('splits pipelines and command lists', () => {
+    expect(parseBashCommand('ls | grep x && rm a; echo done || true & wait')).toEqual([
+      ['ls'],
+      ['grep', 'x'],
+      ['rm', 'a'],
+      ['echo', 'done'],
+      ['true'],
+      ['wait'],
+    ]);
+  });
+
+  it('splits on newlines and skips comments', () => {
+    expect(parseBashCommand('ls # rm -rf /\npwd')).toEqual([['ls'], ['pwd']]);
+  });
+
+  it('parses subshells and brace groups', () => {
+    expect(parseBashCommand('(cd /tmp && rm -rf x)')).toEqual([['cd', '/tmp'], ['rm', '-rf', 'x']]);
+    expect(parseBashCommand('{ rm -rf x; }')).toEqual([['rm', '-rf', 'x']]);
+  });
+
+  it('parses command and process substitutions', () => {
+    expect(parseBashCommand('echo $(rm -rf x) `rm -r y` "$(rm -f z)"')).toEqual([
+      ['echo', '$(rm -rf x)', '`rm -r y`', '$(rm -f z)'],
+      ['rm', '-rf', 'x'],
+      ['rm', '-r', 'y'],
+      ['rm', '-f', 'z'],
+    ]);
+    expect(parseBashCommand('diff <(ls a) <(ls b)')).toContainEqual(['ls', 'b']);
+  });
+
+  it('does not treat arithmetic expansion as a command', () => {
+    expect(parseBashCommand('echo $((1 + 2))')).toEqual([['echo', '$((1 + 2))']]);
+  });
+
+  it('drops redirections and their targets', () => {
+    expect(parseBashCommand('cat < in.txt > out.txt 2>&1 2>>err.log')).toEqual([['cat']]);
+  });
+
+  it('drops leading assignments and reserved words', () => {
+    expect(parseBashCommand('FOO=1 BAR=2 make')).toEqual([['make']]);
+    expect(parseBashCommand('if true; then rm -rf x; fi')).toEqual([['true'], ['rm', '-rf', 'x']]);
+  });
+
+  it('unwraps sudo, env, and similar wrappers', () => {
+    expect(parseBashCommand('sudo -u root rm -rf /')).toEqual([['rm', '-rf', '/']]);
+    expect(parseBashCommand('env -i PATH=/bin nohup nice -n 5 rm -rf /')).toEqual([['rm', '-rf', '/']]);
+    expect(parseBashCommand('timeout -s KILL 10 rm -rf /')).toEqual([['rm', '-rf', '/']]);
+  });
+
+  it('parses commands run by shells and eval', () => {
+    expect(parseBashCommand('bash -c "rm -rf /"')).toEqual([['bash', '-c', 'rm -rf /'], ['rm', '-rf', '/']]);
+    expect(parseBashCommand("sh -ec 'cd x && rm -rf y'")).toContainEqual(['rm', '-rf', 'y']);
+    expect(parseBashCommand('eval "rm -rf" /')).toContainEqual(['rm', '-rf', '/']);
+  });
+
+  it('parses scripts fed to a shell through a here-string or pipe', () => {
+    expect(parseBashCommand('bash <<< "rm -r -f /"')).toEqual([['bash'], ['rm', '-r', '-f', '/']]);
+    expect(parseBashCommand('echo "rm -r -f /" | bash')).toEqual([
+      ['echo', 'rm -r -f /'],
+      ['bash'],
+      ['rm', '-r', '-f', '/'],
+    ]);
+    expect(parseBashCommand("printf 'cd x\\nrm -rf y' | sudo sh")).toContainEqual(['rm', '-rf', 'y']);
+  });
+
+  it('does not parse piped text read by other commands', () => {
+    expect(parseBashCommand('echo "rm -rf /" | grep rm')).toEqual([['echo', 'rm -rf /'], ['grep', 'rm']]);
+    expect(parseBashCommand('cat <<< "rm -rf /"')).toEqual([['cat']]);
+  });
+
+  it('parses commands run by xargs and find -exec', () => {
+    expect(parseBashCommand('ls | xargs -n 1 rm -rf')).toContainEqual(['rm', '-rf']);
+    expect(parseBashCommand('find . -name x -exec rm -rf {} \\;')).toContainEqual(['rm', '-rf', '{}']);
+  });
+
+  it('stops at the nesting limit', () => {
+    const deep = `${'eval '.repeat(20)}rm -rf /`;
+    expect(parseBashCommand(deep)).not.toContainEqual(['rm', '-rf', '/']);
+  });
+
+  it('tolerates unbalanced quotes and parentheses', () => {
+    expect(parseBashCommand('echo "unterminated')).toEqual([['echo', 'unterminated']]);
+    expect(parseBashCommand('echo $(rm -rf x')).toContainEqual(['rm', '-rf', 'x']);
+  });
+});
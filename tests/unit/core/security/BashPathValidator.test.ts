@@ -65,7 +65,18 @@ describe('BashPathValidator', () => {
 
     it('handles semicolon separator', () => {
       const tokens = tokenizeBashCommand('echo first; echo second');
-      expect(tokens).toEqual(['echo', 'first;', 'echo', 'second']);
+      expect(tokens).toEqual(['echo', 'first', ';', 'echo', 'second']);
+    });
+
+    it('separates operators written without spaces', () => {
+      const tokens = tokenizeBashCommand('cat a.txt>/tmp/out&&ls');
+      expect(tokens).toEqual(['cat', 'a.txt', '>', '/tmp/out', '&&', 'ls']);
+    });
+
+    it('collects command substitution sources', () => {
+      const nested: string[] = [];
+      tokenizeBashCommand('echo "$(cat a)" `cat b`', nested);
+      expect(nested).toEqual(['cat a', 'cat b']);
     });
 
     it('handles OR separator', () => {
@@ -711,6 +722,18 @@ describe('BashPathValidator', () => {
       expect(result).toBeNull();
     });
 
+    it('should detect redirect targets written without spaces', () => {
+      const context = createMockPathContext({ '/vault/a.txt': 'vault' });
+      const result = findBashCommandPathViolation('cat /vault/a.txt>/etc/out;ls', context);
+      expect(result).toEqual({ type: 'outside_vault', path: '/etc/out' });
+    });
+
+    it('should not treat here-string text as a path', () => {
+      const context = createMockPathContext({});
+      const result = findBashCommandPathViolation('grep x <<< "a/b"', context);
+      expect(result).toBeNull();
+    });
+
     it('should detect path violation in nested $() subshell', () => {
       const context = createMockPathContext({});
       const result = findBashCommandPathViolation('echo $(echo $(cat /etc/passwd))', context);
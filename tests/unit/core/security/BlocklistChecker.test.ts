@@ -157,5 +157,46 @@ describe('BlocklistChecker', () => {
       expect(isCommandBlocked('del C:\\Windows\\System32\\file', patterns, true)).toBe(true);
       expect(isCommandBlocked('rm -rf /home/user/file', patterns, true)).toBe(true);
     });
+
+    describe('with structured command matching', () => {
+      const patterns = ['rm -rf', 'chmod -R 777', 'dd if=', 'del /s /q', 'Remove-Item -Recurse -Force'];
+
+      it.each([
+        'rm -r -f /',
+        'rm -fr /',
+        'rm -Rf /',
+        'rm --recursive --force /',
+        '/bin/rm -rf /',
+        '"rm" "-rf" /',
+        'sudo rm -rf /',
+        'FOO=1 rm -rf /',
+        'bash -c "rm -r -f /"',
+        "sh -c 'cd / && rm --force -r x'",
+        'eval "rm -r -f /"',
+        'bash <<< "rm -r -f /"',
+        'echo "rm -r -f /" | bash',
+        'echo $(rm -r -f /)',
+        'ls | xargs rm -r -f',
+        'find . -exec rm -r -f {} \\;',
+        'chmod --recursive 777 .',
+        'dd if=/dev/zero of=/dev/sda',
+        'del /q /s C:\\temp',
+        'Remove-Item -Force -Recurse C:\\temp',
+        'Remove-Item -fo -r C:\\temp',
+      ])('blocks %s', (command) => {
+        expect(isCommandBlocked(command, patterns, true)).toBe(true);
+      });
+
+      it.each([
+        'rm -r x',
+        'rm -f x',
+        'echo "rm -r -f /"',
+        'git rm -r -f x',
+        'chmod 644 777.txt',
+        'Remove-Item -Recurse C:\\temp',
+      ])('allows %s', (command) => {
+        expect(isCommandBlocked(command, patterns, true)).toBe(false);
+      });
+    });
   });
 });
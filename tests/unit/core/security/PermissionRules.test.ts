@@ -0,0 +1,111 @@
+import {
+  buildSampleToolInput,
+  evaluatePermissionRules,
+  validatePermissionRule,
+} from '../../../../src/core/security/PermissionRules';
+import type { CCPermissions } from '../../../../src/core/types';
+import { createPermissionRule } from '../../../../src/core/types';
+
+function rules(...values: string[]) {
+  return values.map(createPermissionRule);
+}
+
+describe('validatePermissionRule', () => {
+  it('accepts tool names and tool patterns', () => {
+    expect(validatePermissionRule('Read')).toBeNull();
+    expect(validatePermissionRule('Bash(git *)')).toBeNull();
+    expect(validatePermissionRule('Bash(npm:*)')).toBeNull();
+    expect(validatePermissionRule('WebFetch(domain:example.com)')).toBeNull();
+    expect(validatePermissionRule('mcp__github__create_issue')).toBeNull();
+  });
+
+  it('rejects empty rules', () => {
+    expect(validatePermissionRule('   ')).toBe('Rule is empty');
+  });
+
+  it('rejects malformed rules', () => {
+    expect(validatePermissionRule('Bash(git *')).toContain('Expected');
+    expect(validatePermissionRule('not a tool')).toContain('Expected');
+  });
+
+  it('explains empty parentheses', () => {
+    expect(validatePermissionRule('Bash()')).toContain('empty');
+  });
+
+  it('rejects Bash wildcards that are not trailing', () => {
+    expect(validatePermissionRule('Bash(git * --force)')).toContain('trailing wildcard');
+    expect(validatePermissionRule('Bash(*)')).toBeNull();
+  });
+});
+
+describe('evaluatePermissionRules', () => {
+  const permissions: CCPermissions = {
+    allow: rules('Bash(git *)', 'Read'),
+    deny: rules('Bash(git push *)'),
+    ask: rules('Bash(git commit *)'),
+  };
+
+  it('prefers deny over ask and allow', () => {
+    expect(evaluatePermissionRules(permissions, 'Bash', { command: 'git push origin main' })).toEqual({
+      decision: 'deny',
+      behavior: 'deny',
+      rule: 'Bash(git push *)',
+      index: 0,
+    });
+  });
+
+  it('prefers ask over allow', () => {
+    const match = evaluatePermissionRules(permissions, 'Bash', { command: 'git commit -m "x"' });
+    expect(match.decision).toBe('ask');
+    expect(match.rule).toBe('Bash(git commit *)');
+  });
+
+  it('returns the first matching rule within a list', () => {
+    const match = evaluatePermissionRules(
+      { allow: rules('Bash(git status)', 'Bash(git *)') },
+      'Bash',
+      { command: 'git status' }
+    );
+    expect(match.index).toBe(0);
+  });
+
+  it('matches a tool-wide rule', () => {
+    const match = evaluatePermissionRules(permissions, 'Read', { file_path: 'notes/a.md' });
+    expect(match).toMatchObject({ decision: 'allow', rule: 'Read', index: 1 });
+  });
+
+  it('matches WebFetch domain rules from a sample URL', () => {
+    const webPermissions: CCPermissions = { deny: rules('WebFetch(domain:example.com)') };
+    const input = buildSampleToolInput('WebFetch', '{"url": "https://example.com/page"}');
+
+    expect(evaluatePermissionRules(webPermissions, 'WebFetch', input)).toMatchObject({
+      decision: 'deny',
+      rule: 'WebFetch(domain:example.com)',
+    });
+    expect(evaluatePermissionRules(webPermissions, 'WebFetch', { url: 'https://other.com' })).toEqual({ decision: 'default' });
+  });
+
+  it('falls back to the permission mode when nothing matches', () => {
+    expect(evaluatePermissionRules(permissions, 'Bash', { command: 'npm install' })).toEqual({ decision: 'default' });
+    expect(evaluatePermissionRules(permissions, 'Write', { file_path: 'a.md' })).toEqual({ decision: 'default' });
+  });
+});
+
+describe('buildSampleToolInput', () => {
+  it('maps the sample to the field each tool reads', () => {
+    expect(buildSampleToolInput('Bash', 'ls')).toEqual({ command: 'ls' });
+    expect(buildSampleToolInput('Edit', 'a.md')).toEqual({ file_path: 'a.md' });
+    expect(buildSampleToolInput('NotebookEdit', 'a.ipynb')).toEqual({ notebook_path: 'a.ipynb' });
+    expect(buildSampleToolInput('Grep', 'TODO')).toEqual({ pattern: 'TODO' });
+  });
+
+  it('parses JSON input for other tools', () => {
+    expect(buildSampleToolInput('WebFetch', '{"url": "https://example.com"}')).toEqual({ url: 'https://example.com' });
+    expect(buildSampleToolInput('WebFetch', '')).toEqual({});
+  });
+
+  it('throws when JSON input is not an object', () => {
+    expect(() => buildSampleToolInput('WebFetch', '[1]')).toThrow('JSON object');
+    expect(() => buildSampleToolInput('WebFetch', 'nope')).toThrow();
+  });
+});
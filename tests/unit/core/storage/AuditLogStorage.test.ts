@@ -0,0 +1,93 @@
+import { AUDIT_PATH, AuditLogStorage } from '@/core/storage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { AuditEntry } from '@/core/types';
+
+type MockAdapter = VaultFileAdapter & { _store: Record<string, string> };
+
+function createMockAdapter(files: Record<string, string> = {}): MockAdapter {
+  const store = { ...files };
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => {
+      if (!(path in store)) throw new Error(`File not found: ${path}`);
+      return store[path];
+    },
+    append: async (path: string, content: string) => {
+      store[path] = (store[path] ?? '') + content;
+    },
+    listFiles: async (folder: string) => Object.keys(store).filter(p => p.startsWith(`${folder}/`)),
+    _store: store,
+  } as unknown as MockAdapter;
+}
+
+const entry: AuditEntry = {
+  timestamp: new Date(2025, 2, 14, 9, 30).getTime(),
+  conversationId: 'conv-1',
+  toolUseId: 'tool-1',
+  toolName: 'Bash',
+  input: { command: 'git status' },
+  decision: 'allow',
+  source: 'rule',
+  rule: 'Bash(git *)',
+};
+
+describe('AuditLogStorage', () => {
+  it('appends entries to the file for their local day', async () => {
+    const adapter = createMockAdapter();
+    const storage = new AuditLogStorage(adapter);
+
+    await storage.append(entry);
+    await storage.append({ ...entry, toolUseId: 'tool-2', decision: 'deny', source: 'blocklist' });
+
+    const lines = adapter._store[`${AUDIT_PATH}/2025-03-14.jsonl`].trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(entry);
+  });
+
+  it('lists days newest first and ignores other files', async () => {
+    const storage = new AuditLogStorage(createMockAdapter({
+      [`${AUDIT_PATH}/2025-03-13.jsonl`]: '',
+      [`${AUDIT_PATH}/2025-03-14.jsonl`]: '',
+      [`${AUDIT_PATH}/notes.txt`]: '',
+    }));
+
+    expect(await storage.listDays()).toEqual(['2025-03-14', '2025-03-13']);
+  });
+
+  it('loads a day and skips malformed lines', async () => {
+    const storage = new AuditLogStorage(createMockAdapter({
+      [`${AUDIT_PATH}/2025-03-14.jsonl`]: [
+        JSON.stringify(entry),
+        'not json',
+        JSON.stringify({ ...entry, decision: 'maybe' }),
+        JSON.stringify({ ...entry, source: 'unknown' }),
+        '',
+      ].join('\n'),
+    }));
+
+    expect(await storage.loadDay('2025-03-14')).toEqual([entry]);
+  });
+
+  it('round-trips dry-run entries', async () => {
+    const storage = new AuditLogStorage(createMockAdapter());
+    const staged: AuditEntry = {
+      ...entry,
+      toolName: 'Write',
+      input: { file_path: 'notes/a.md', content: 'text' },
+      decision: 'deny',
+      source: 'dry-run',
+      rule: undefined,
+      reason: 'Staged for review',
+    };
+
+    await storage.append(staged);
+
+    expect(await storage.loadDay('2025-03-14')).toEqual([staged]);
+  });
+
+  it('returns no entries for a missing day', async () => {
+    const storage = new AuditLogStorage(createMockAdapter());
+
+    expect(await storage.loadDay('2025-03-14')).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { InvocationLogStorage, INVOCATIONS_PATH } from '@/core/storage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { InvocationRecord } from '@/core/types';
+
+type MockAdapter = VaultFileAdapter & { _store: Record<string, string> };
+
+function createMockAdapter(files: Record<string, string> = {}): MockAdapter {
+  const store = { ...files };
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => {
+      if (!(path in store)) throw new Error(`File not found: ${path}`);
+      return store[path];
+    },
+    append: async (path: string, content: string) => {
+      store[path] = (store[path] ?? '') + content;
+    },
+    listFiles: async (folder: string) => Object.keys(store).filter(p => p.startsWith(`${folder}/`)),
+    _store: store,
+  } as unknown as MockAdapter;
+}
+
+const record: InvocationRecord = {
+  timestamp: new Date(2025, 2, 14, 9, 30).getTime(),
+  kind: 'agent',
+  name: 'code-reviewer',
+  conversationId: 'conv-1',
+  toolUseId: 'task-1',
+  durationMs: 42000,
+  toolCount: 7,
+  status: 'completed',
+};
+
+describe('InvocationLogStorage', () => {
+  it('appends records to the file for their local day', async () => {
+    const adapter = createMockAdapter();
+    const storage = new InvocationLogStorage(adapter);
+
+    await storage.append(record);
+    await storage.append({ ...record, kind: 'skill', name: 'lint', toolCount: 0 });
+
+    const lines = adapter._store[`${INVOCATIONS_PATH}/2025-03-14.jsonl`].trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(record);
+  });
+
+  it('skips malformed lines', async () => {
+    const storage = new InvocationLogStorage(createMockAdapter({
+      [`${INVOCATIONS_PATH}/2025-03-14.jsonl`]: [
+        JSON.stringify(record),
+        'not json',
+        JSON.stringify({ ...record, kind: 'command' }),
+        JSON.stringify({ ...record, status: 'running' }),
+        JSON.stringify({ timestamp: 1, kind: 'skill', name: 'lint', status: 'error' }),
+      ].join('\n'),
+    }));
+
+    const records = await storage.loadDay('2025-03-14');
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({ name: 'lint', durationMs: 0, toolCount: 0 });
+  });
+
+  it('loads records of days since a given day, oldest first', async () => {
+    const storage = new InvocationLogStorage(createMockAdapter({
+      [`${INVOCATIONS_PATH}/2025-03-12.jsonl`]: `${JSON.stringify({ ...record, name: 'old' })}\n`,
+      [`${INVOCATIONS_PATH}/2025-03-13.jsonl`]: `${JSON.stringify({ ...record, name: 'a' })}\n`,
+      [`${INVOCATIONS_PATH}/2025-03-14.jsonl`]: `${JSON.stringify({ ...record, name: 'b' })}\n`,
+      [`${INVOCATIONS_PATH}/notes.txt`]: '',
+    }));
+
+    const records = await storage.loadSince('2025-03-13');
+
+    expect(records.map(r => r.name)).toEqual(['a', 'b']);
+  });
+
+  it('returns an empty list for a missing day', async () => {
+    const storage = new InvocationLogStorage(createMockAdapter());
+    expect(await storage.loadDay('2025-03-14')).toEqual([]);
+  });
+});
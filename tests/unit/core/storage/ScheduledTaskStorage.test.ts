@@ -0,0 +1,89 @@
+import { ScheduledTaskStorage,SCHEDULES_PATH } from '@/core/storage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { ScheduledTask } from '@/core/types';
+
+type MockAdapter = VaultFileAdapter & { _store: Record<string, string> };
+
+function createMockAdapter(files: Record<string, string> = {}): MockAdapter {
+  const store = { ...files };
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => {
+      if (!(path in store)) throw new Error(`File not found: ${path}`);
+      return store[path];
+    },
+    write: async (path: string, content: string) => {
+      store[path] = content;
+    },
+    _store: store,
+  } as unknown as MockAdapter;
+}
+
+const task: ScheduledTask = {
+  id: 'task-1',
+  name: 'Daily summary',
+  prompt: '/summarize-today',
+  schedule: '0 21 * * *',
+  enabled: true,
+  permissionMode: 'normal',
+  createdAt: 1000,
+  runs: [{ startedAt: 2000, finishedAt: 3000, status: 'success', trigger: 'schedule', conversationId: 'conv-1' }],
+};
+
+describe('ScheduledTaskStorage', () => {
+  it('returns empty array when file does not exist', async () => {
+    const storage = new ScheduledTaskStorage(createMockAdapter());
+
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('returns empty array for malformed JSON', async () => {
+    const storage = new ScheduledTaskStorage(createMockAdapter({ [SCHEDULES_PATH]: '{ nope' }));
+
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('round-trips tasks', async () => {
+    const adapter = createMockAdapter();
+    const storage = new ScheduledTaskStorage(adapter);
+
+    await storage.save([task]);
+
+    expect(JSON.parse(adapter._store[SCHEDULES_PATH])).toEqual({ tasks: [task] });
+    expect(await storage.load()).toEqual([task]);
+  });
+
+  it('drops invalid entries and fills defaults', async () => {
+    const storage = new ScheduledTaskStorage(createMockAdapter({
+      [SCHEDULES_PATH]: JSON.stringify({
+        tasks: [
+          { id: 'bad' },
+          { id: 'task-2', prompt: 'Tidy inbox', schedule: '@daily', permissionMode: 'bogus', runs: [{ nope: true }] },
+        ],
+      }),
+    }));
+
+    const [loaded, ...rest] = await storage.load();
+
+    expect(rest).toEqual([]);
+    expect(loaded).toMatchObject({
+      id: 'task-2',
+      name: 'Tidy inbox',
+      enabled: true,
+      permissionMode: 'normal',
+      runs: [],
+    });
+  });
+
+  it('marks runs left running as interrupted', async () => {
+    const storage = new ScheduledTaskStorage(createMockAdapter({
+      [SCHEDULES_PATH]: JSON.stringify({
+        tasks: [{ ...task, runs: [{ startedAt: 5000, status: 'running', trigger: 'manual' }] }],
+      }),
+    }));
+
+    const [loaded] = await storage.load();
+
+    expect(loaded.runs[0]).toMatchObject({ status: 'error', trigger: 'manual', error: 'Interrupted before completion' });
+  });
+});
@@ -0,0 +1,59 @@
+import { SecretStorage } from '@/core/storage/SecretStorage';
+
+function createApp() {
+  const local = new Map<string, unknown>();
+  return {
+    local,
+    loadLocalStorage: jest.fn((key: string) => local.get(key) ?? null),
+    saveLocalStorage: jest.fn((key: string, data: unknown) => {
+      if (data === null) local.delete(key);
+      else local.set(key, data);
+    }),
+  };
+}
+
+describe('SecretStorage', () => {
+  it('stores secrets in local storage rather than the vault', () => {
+    const app = createApp();
+    const storage = new SecretStorage(app as any);
+
+    storage.setSecret('B_TOKEN', 'b');
+    storage.setSecret('A_TOKEN', 'a');
+
+    expect(storage.getSecret('A_TOKEN')).toBe('a');
+    expect(storage.getSecret('MISSING')).toBeNull();
+    expect(storage.listSecretNames()).toEqual(['A_TOKEN', 'B_TOKEN']);
+    expect(app.local.get('claudian-secrets')).toEqual({ A_TOKEN: 'a', B_TOKEN: 'b' });
+  });
+
+  it('clears the key once the last secret is deleted', () => {
+    const app = createApp();
+    const storage = new SecretStorage(app as any);
+
+    storage.setSecret('TOKEN', 'value');
+    storage.deleteSecret('TOKEN');
+
+    expect(app.local.has('claudian-secrets')).toBe(false);
+    expect(storage.listSecretNames()).toEqual([]);
+  });
+
+  it('keeps OAuth sign-ins separate from secrets', () => {
+    const app = createApp();
+    const storage = new SecretStorage(app as any);
+    const state = { serverUrl: 'https://example.com/mcp', tokens: { access_token: 'at', token_type: 'Bearer' } };
+
+    storage.setOAuthState('remote', state);
+
+    expect(storage.getOAuthState('remote')).toEqual(state);
+    expect(storage.listSecretNames()).toEqual([]);
+    storage.setOAuthState('remote', null);
+    expect(storage.getOAuthState('remote')).toBeNull();
+  });
+
+  it('ignores malformed stored values', () => {
+    const app = createApp();
+    app.local.set('claudian-secrets', ['not', 'a', 'record']);
+
+    expect(new SecretStorage(app as any).listSecretNames()).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { SPEND_PATH, SpendLedgerStorage } from '@/core/storage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { SpendRecord } from '@/core/types';
+
+type MockAdapter = VaultFileAdapter & { _store: Record<string, string> };
+
+function createMockAdapter(files: Record<string, string> = {}): MockAdapter {
+  const store = { ...files };
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => {
+      if (!(path in store)) throw new Error(`File not found: ${path}`);
+      return store[path];
+    },
+    append: async (path: string, content: string) => {
+      store[path] = (store[path] ?? '') + content;
+    },
+    listFiles: async (folder: string) => Object.keys(store).filter(p => p.startsWith(`${folder}/`)),
+    _store: store,
+  } as unknown as MockAdapter;
+}
+
+const record: SpendRecord = {
+  timestamp: new Date(2025, 2, 14, 9, 30).getTime(),
+  costUsd: 0.042,
+  conversationId: 'conv-1',
+};
+
+describe('SpendLedgerStorage', () => {
+  it('appends records to the file for their local day', async () => {
+    const adapter = createMockAdapter();
+    const storage = new SpendLedgerStorage(adapter);
+
+    await storage.append(record);
+    await storage.append({ ...record, conversationId: undefined });
+
+    const lines = adapter._store[`${SPEND_PATH}/2025-03-14.jsonl`].trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(record);
+  });
+
+  it('loads every day oldest first and skips malformed lines', async () => {
+    const storage = new SpendLedgerStorage(createMockAdapter({
+      [`${SPEND_PATH}/2025-03-14.jsonl`]: [
+        JSON.stringify({ ...record, costUsd: 2 }),
+        'not json',
+        JSON.stringify({ timestamp: 1, costUsd: '3' }),
+      ].join('\n'),
+      [`${SPEND_PATH}/2025-03-12.jsonl`]: `${JSON.stringify({ ...record, costUsd: 1 })}\n`,
+      [`${SPEND_PATH}/notes.txt`]: '',
+    }));
+
+    const records = await storage.loadAll();
+
+    expect(records.map(r => r.costUsd)).toEqual([1, 2]);
+  });
+
+  it('returns an empty ledger when nothing was recorded', async () => {
+    expect(await new SpendLedgerStorage(createMockAdapter()).loadAll()).toEqual([]);
+  });
+});
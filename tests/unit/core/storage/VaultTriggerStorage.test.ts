@@ -0,0 +1,77 @@
+import { TRIGGERS_PATH, VaultTriggerStorage } from '@/core/storage';
+import type { VaultFileAdapter } from '@/core/storage/VaultFileAdapter';
+import type { VaultTrigger } from '@/core/types';
+
+type MockAdapter = VaultFileAdapter & { _store: Record<string, string> };
+
+function createMockAdapter(files: Record<string, string> = {}): MockAdapter {
+  const store = { ...files };
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => {
+      if (!(path in store)) throw new Error(`File not found: ${path}`);
+      return store[path];
+    },
+    write: async (path: string, content: string) => {
+      store[path] = content;
+    },
+    _store: store,
+  } as unknown as MockAdapter;
+}
+
+const trigger: VaultTrigger = {
+  id: 'trigger-1',
+  name: 'Triage inbox',
+  event: 'create',
+  folder: 'Inbox',
+  command: 'triage',
+  enabled: true,
+  permissionMode: 'plan',
+  debounceSeconds: 5,
+  createdAt: 1000,
+  runs: [{ startedAt: 2000, finishedAt: 3000, status: 'success', event: 'create', filePath: 'Inbox/a.md' }],
+};
+
+describe('VaultTriggerStorage', () => {
+  it('returns empty array when file does not exist', async () => {
+    const storage = new VaultTriggerStorage(createMockAdapter());
+
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('round-trips triggers', async () => {
+    const adapter = createMockAdapter();
+    const storage = new VaultTriggerStorage(adapter);
+
+    await storage.save([trigger]);
+
+    expect(JSON.parse(adapter._store[TRIGGERS_PATH])).toEqual({ triggers: [trigger] });
+    expect(await storage.load()).toEqual([trigger]);
+  });
+
+  it('normalizes fields and drops invalid entries', async () => {
+    const storage = new VaultTriggerStorage(createMockAdapter({
+      [TRIGGERS_PATH]: JSON.stringify({
+        triggers: [
+          { id: 'no-command', event: 'create' },
+          { id: 'bad-event', event: 'delete', command: 'x' },
+          { id: 'trigger-2', event: 'frontmatter', command: '/summarize', folder: '/Notes/', tag: '#summarize' },
+        ],
+      }),
+    }));
+
+    const loaded = await storage.load();
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0]).toMatchObject({
+      id: 'trigger-2',
+      name: '/summarize',
+      command: 'summarize',
+      folder: 'Notes',
+      tag: 'summarize',
+      permissionMode: 'normal',
+      debounceSeconds: 5,
+      runs: [],
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  buildTriggerPrompt,
+  isInFolder,
+  matchesTrigger,
+  SELF_CHANGE_COOLDOWN_MS,
+  type VaultFileEvent,
+  VaultTriggerEngine,
+} from '@/core/triggers';
+import type { VaultTrigger } from '@/core/types';
+
+function createTrigger(overrides: Partial<VaultTrigger> = {}): VaultTrigger {
+  return {
+    id: 'trigger-1',
+    name: 'Triage inbox',
+    event: 'create',
+    folder: 'Inbox',
+    command: 'triage',
+    enabled: true,
+    permissionMode: 'normal',
+    debounceSeconds: 2,
+    createdAt: 0,
+    runs: [],
+    ...overrides,
+  };
+}
+
+function event(overrides: Partial<VaultFileEvent> = {}): VaultFileEvent {
+  return { type: 'create', path: 'Inbox/idea.md', tags: [], ...overrides };
+}
+
+/** Lets queued runs settle between fake timer steps. */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe('isInFolder', () => {
+  it('matches nested paths and treats an empty folder as the whole vault', () => {
+    expect(isInFolder('Inbox/a.md', 'Inbox')).toBe(true);
+    expect(isInFolder('Inbox/sub/a.md', '/Inbox/')).toBe(true);
+    expect(isInFolder('Inboxes/a.md', 'Inbox')).toBe(false);
+    expect(isInFolder('a.md', '')).toBe(true);
+  });
+});
+
+describe('matchesTrigger', () => {
+  it('requires the event type, folder, and enabled flag', () => {
+    expect(matchesTrigger(createTrigger(), event())).toBe(true);
+    expect(matchesTrigger(createTrigger(), event({ type: 'modify' }))).toBe(false);
+    expect(matchesTrigger(createTrigger(), event({ path: 'Notes/idea.md' }))).toBe(false);
+    expect(matchesTrigger(createTrigger({ enabled: false }), event())).toBe(false);
+  });
+
+  it('matches tags case-insensitively, including nested tags', () => {
+    const trigger = createTrigger({ tag: 'Summarize' });
+
+    expect(matchesTrigger(trigger, event({ tags: ['summarize'] }))).toBe(true);
+    expect(matchesTrigger(trigger, event({ tags: ['summarize/weekly'] }))).toBe(true);
+    expect(matchesTrigger(trigger, event({ tags: ['summary'] }))).toBe(false);
+    expect(matchesTrigger(trigger, event(), false)).toBe(true);
+  });
+
+  it('requires frontmatter triggers with a tag to see the tag newly added', () => {
+    const trigger = createTrigger({ event: 'frontmatter', folder: '', tag: 'summarize' });
+    const change = { type: 'frontmatter' as const, tags: ['summarize'] };
+
+    expect(matchesTrigger(trigger, event({ ...change, previousTags: [] }))).toBe(true);
+    expect(matchesTrigger(trigger, event({ ...change, previousTags: ['summarize'] }))).toBe(false);
+  });
+});
+
+describe('buildTriggerPrompt', () => {
+  it('sends the command with the file as current note context', () => {
+    expect(buildTriggerPrompt(createTrigger({ arguments: 'short' }), 'Inbox/idea.md'))
+      .toBe('/triage short\n\n<current_note>\nInbox/idea.md\n</current_note>');
+  });
+});
+
+describe('VaultTriggerEngine', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 1_000_000;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createEngine(triggers: VaultTrigger[], fileTags: Record<string, string[] | null> = {}) {
+    const runTrigger = jest.fn().mockResolvedValue({ conversationId: 'conv-1' });
+    const save = jest.fn().mockResolvedValue(undefined);
+    const engine = new VaultTriggerEngine({
+      load: async () => triggers,
+      save,
+      runTrigger,
+      getFileTags: (path) => (path in fileTags ? fileTags[path] : []),
+      now: () => now,
+    });
+    return { engine, runTrigger, save };
+  }
+
+  it('debounces repeated events into one run', async () => {
+    const { engine, runTrigger } = createEngine([createTrigger({ event: 'modify' })]);
+    await engine.load();
+
+    engine.handleEvent(event({ type: 'modify' }));
+    jest.advanceTimersByTime(1500);
+    engine.handleEvent(event({ type: 'modify' }));
+    jest.advanceTimersByTime(1500);
+    expect(runTrigger).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(500);
+    await flush();
+
+    expect(runTrigger).toHaveBeenCalledTimes(1);
+    expect(runTrigger).toHaveBeenCalledWith(expect.objectContaining({ id: 'trigger-1' }), 'Inbox/idea.md');
+  });
+
+  it('records the run in the trigger history', async () => {
+    const { engine } = createEngine([createTrigger()]);
+    await engine.load();
+
+    engine.handleEvent(event());
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(engine.getTrigger('trigger-1')!.runs).toEqual([{
+      startedAt: now,
+      finishedAt: now,
+      status: 'success',
+      event: 'create',
+      filePath: 'Inbox/idea.md',
+      conversationId: 'conv-1',
+      error: undefined,
+    }]);
+    expect(engine.isRunning('trigger-1')).toBe(false);
+  });
+
+  it('checks tags when the debounce expires', async () => {
+    const { engine, runTrigger } = createEngine(
+      [createTrigger({ tag: 'triage' })],
+      { 'Inbox/idea.md': ['triage'], 'Inbox/other.md': ['misc'], 'Inbox/gone.md': null }
+    );
+    await engine.load();
+
+    engine.handleEvent(event());
+    engine.handleEvent(event({ path: 'Inbox/other.md' }));
+    engine.handleEvent(event({ path: 'Inbox/gone.md' }));
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(runTrigger).toHaveBeenCalledTimes(1);
+    expect(runTrigger.mock.calls[0][1]).toBe('Inbox/idea.md');
+  });
+
+  it('ignores events caused by its own run', async () => {
+    const { engine, runTrigger } = createEngine([createTrigger({ event: 'modify' })]);
+    let finishRun!: () => void;
+    runTrigger.mockImplementation(() => new Promise(resolve => {
+      finishRun = () => resolve({});
+    }));
+    await engine.load();
+
+    engine.handleEvent(event({ type: 'modify' }));
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    // Edits while the command runs
+    engine.handleEvent(event({ type: 'modify' }));
+    finishRun();
+    await flush();
+
+    // Edits within the cooldown
+    engine.handleEvent(event({ type: 'modify' }));
+    jest.advanceTimersByTime(2000);
+    await flush();
+    expect(runTrigger).toHaveBeenCalledTimes(1);
+
+    now += SELF_CHANGE_COOLDOWN_MS;
+    engine.handleEvent(event({ type: 'modify' }));
+    jest.advanceTimersByTime(2000);
+    await flush();
+    expect(runTrigger).toHaveBeenCalledTimes(2);
+  });
+
+  it('records runner errors', async () => {
+    const { engine, runTrigger } = createEngine([createTrigger()]);
+    runTrigger.mockRejectedValueOnce(new Error('boom'));
+    await engine.load();
+
+    engine.handleEvent(event());
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(engine.getTrigger('trigger-1')!.runs[0]).toMatchObject({ status: 'error', error: 'boom' });
+  });
+
+  it('cancels pending runs when a trigger is deleted or the engine is disposed', async () => {
+    const { engine, runTrigger } = createEngine([
+      createTrigger(),
+      createTrigger({ id: 'trigger-2', folder: '' }),
+    ]);
+    await engine.load();
+
+    engine.handleEvent(event());
+    await engine.deleteTrigger('trigger-1');
+    engine.dispose();
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(runTrigger).not.toHaveBeenCalled();
+    expect(engine.getTriggers().map(t => t.id)).toEqual(['trigger-2']);
+  });
+
+  it('keeps history when a trigger is edited', async () => {
+    const runs = [{ startedAt: 1, status: 'success' as const, event: 'create' as const, filePath: 'a.md' }];
+    const { engine } = createEngine([createTrigger({ runs })]);
+    await engine.load();
+
+    await engine.saveTrigger(createTrigger({ folder: 'Projects' }));
+
+    expect(engine.getTrigger('trigger-1')).toMatchObject({ folder: 'Projects', runs });
+  });
+});
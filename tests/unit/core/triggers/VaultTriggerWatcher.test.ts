@@ -0,0 +1,86 @@
+import { TFile } from 'obsidian';
+
+import { getTagsFromCache, type VaultFileEvent, VaultTriggerWatcher } from '@/core/triggers';
+
+function createFile(path: string): TFile {
+  return Object.assign(new TFile(), { path });
+}
+
+describe('getTagsFromCache', () => {
+  it('collects frontmatter and inline tags without #', () => {
+    const tags = getTagsFromCache({
+      frontmatter: { tags: ['#project', 'summarize'] },
+      tags: [{ tag: '#inline', position: {} }],
+    } as any);
+
+    expect(tags).toEqual(['project', 'summarize', 'inline']);
+  });
+
+  it('splits string tags and handles missing metadata', () => {
+    expect(getTagsFromCache({ frontmatter: { tag: 'a, b' } } as any)).toEqual(['a', 'b']);
+    expect(getTagsFromCache(null)).toEqual([]);
+  });
+});
+
+describe('VaultTriggerWatcher', () => {
+  function setup(initialCache: Record<string, any>) {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const files = Object.keys(initialCache).map(createFile);
+    const app = {
+      vault: {
+        getMarkdownFiles: () => files,
+        getAbstractFileByPath: (path: string) => files.find(f => f.path === path) ?? null,
+        on: (name: string, handler: (...args: any[]) => void) => {
+          handlers[`vault:${name}`] = handler;
+          return {};
+        },
+      },
+      metadataCache: {
+        getFileCache: (file: TFile) => initialCache[file.path] ?? null,
+        on: (name: string, handler: (...args: any[]) => void) => {
+          handlers[`metadata:${name}`] = handler;
+          return {};
+        },
+      },
+    };
+    const events: VaultFileEvent[] = [];
+    const watcher = new VaultTriggerWatcher(app as any, (e) => events.push(e));
+    watcher.register(() => {});
+    return { handlers, events, files, watcher };
+  }
+
+  it('forwards file events with current tags', () => {
+    const { handlers, events, files } = setup({ 'a.md': { tags: [{ tag: '#x' }] } });
+
+    handlers['vault:modify'](files[0]);
+
+    expect(events).toEqual([{ type: 'modify', path: 'a.md', tags: ['x'] }]);
+  });
+
+  it('emits frontmatter events only when frontmatter or tags change', () => {
+    const { handlers, events, files } = setup({ 'a.md': { frontmatter: { status: 'draft' } } });
+
+    handlers['metadata:changed'](files[0], '', { frontmatter: { status: 'draft' } });
+    expect(events).toEqual([]);
+
+    handlers['metadata:changed'](files[0], '', { frontmatter: { status: 'draft', tags: ['summarize'] } });
+    expect(events).toEqual([{ type: 'frontmatter', path: 'a.md', tags: ['summarize'], previousTags: [] }]);
+  });
+
+  it('carries snapshots across renames', () => {
+    const { handlers, events } = setup({ 'a.md': { frontmatter: { tags: ['keep'] } } });
+    const renamed = createFile('b.md');
+
+    handlers['vault:rename'](renamed, 'a.md');
+    handlers['metadata:changed'](renamed, '', { frontmatter: { tags: ['keep'] } });
+
+    expect(events.map(e => e.type)).toEqual(['rename']);
+  });
+
+  it('reports missing files', () => {
+    const { watcher } = setup({ 'a.md': {} });
+
+    expect(watcher.getFileTags('a.md')).toEqual([]);
+    expect(watcher.getFileTags('missing.md')).toBeNull();
+  });
+});
@@ -100,6 +100,7 @@ describe('types.ts', () => {
         titleGenerationModel: '',
         thinkingBudget: 'off',
         permissionMode: 'yolo',
+        enableAuditLog: true,
         excludedTags: [],
         mediaFolder: '',
         environmentVariables: '',
@@ -108,6 +109,13 @@ describe('types.ts', () => {
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        exportFolder: 'Claudian',
+        exportCollapseToolCalls: true,
+        exportIncludeThinking: false,
+        budgetConversationUsd: 0,
+        budgetDailyUsd: 0,
+        budgetVaultUsd: 0,
+        budgetExceededAction: 'confirm',
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'en',
@@ -115,6 +123,7 @@ describe('types.ts', () => {
         claudeCliPathsByHost: {},
         loadUserClaudeSettings: false,
         maxTabs: 3,
+        tabHibernationMinutes: 15,
         show1MModel: false,
         enableChrome: false,
         enableBangBash: false,
@@ -122,6 +131,7 @@ describe('types.ts', () => {
         enableAutoScroll: true,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        disabledPluginComponents: {},
       };
 
       expect(settings.enableBlocklist).toBe(false);
@@ -139,6 +149,7 @@ describe('types.ts', () => {
         titleGenerationModel: '',
         thinkingBudget: 'medium',
         permissionMode: 'normal',
+        enableAuditLog: true,
         excludedTags: ['private'],
         mediaFolder: 'attachments',
         environmentVariables: 'API_KEY=test',
@@ -147,6 +158,13 @@ describe('types.ts', () => {
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        exportFolder: 'Claudian',
+        exportCollapseToolCalls: true,
+        exportIncludeThinking: false,
+        budgetConversationUsd: 0,
+        budgetDailyUsd: 0,
+        budgetVaultUsd: 0,
+        budgetExceededAction: 'confirm',
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'zh-CN',
@@ -154,6 +172,7 @@ describe('types.ts', () => {
         claudeCliPathsByHost: {},
         loadUserClaudeSettings: false,
         maxTabs: 3,
+        tabHibernationMinutes: 15,
         show1MModel: false,
         enableChrome: false,
         enableBangBash: false,
@@ -161,6 +180,7 @@ describe('types.ts', () => {
         enableAutoScroll: true,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        disabledPluginComponents: {},
       };
 
       expect(settings.model).toBe('anthropic/custom-model-v1');
@@ -178,6 +198,7 @@ describe('types.ts', () => {
         lastCustomModel: 'custom/model',
         thinkingBudget: 'high',
         permissionMode: 'yolo',
+        enableAuditLog: true,
         excludedTags: [],
         mediaFolder: '',
         environmentVariables: '',
@@ -186,6 +207,13 @@ describe('types.ts', () => {
         systemPrompt: '',
         allowedExportPaths: [],
         persistentExternalContextPaths: [],
+        exportFolder: 'Claudian',
+        exportCollapseToolCalls: true,
+        exportIncludeThinking: false,
+        budgetConversationUsd: 0,
+        budgetDailyUsd: 0,
+        budgetVaultUsd: 0,
+        budgetExceededAction: 'confirm',
         slashCommands: [],
         keyboardNavigation: { scrollUpKey: 'w', scrollDownKey: 's', focusInputKey: 'i' },
         locale: 'en',
@@ -193,6 +221,7 @@ describe('types.ts', () => {
         claudeCliPathsByHost: {},
         loadUserClaudeSettings: false,
         maxTabs: 5,
+        tabHibernationMinutes: 15,
         show1MModel: true,
         enableChrome: false,
         enableBangBash: false,
@@ -200,6 +229,7 @@ describe('types.ts', () => {
         enableAutoScroll: false,
         openInMainTab: false,
         hiddenSlashCommands: [],
+        disabledPluginComponents: {},
       };
 
       expect(settings.lastClaudeModel).toBe('opus');
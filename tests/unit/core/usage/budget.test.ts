@@ -0,0 +1,70 @@
+import {
+  computeBudgetSpend,
+  describeExceededBudget,
+  evaluateBudget,
+  getBudgetLimits,
+  hasBudgetLimits,
+} from '@/core/usage';
+
+const NOW = new Date(2025, 4, 10, 12).getTime();
+const YESTERDAY = new Date(2025, 4, 9, 12).getTime();
+
+describe('getBudgetLimits', () => {
+  it('maps settings to scopes', () => {
+    const limits = getBudgetLimits({ budgetConversationUsd: 1, budgetDailyUsd: 2, budgetVaultUsd: 3 });
+
+    expect(limits).toEqual({ conversation: 1, day: 2, vault: 3 });
+    expect(hasBudgetLimits(limits)).toBe(true);
+    expect(hasBudgetLimits({ conversation: 0, day: 0, vault: 0 })).toBe(false);
+  });
+});
+
+describe('computeBudgetSpend', () => {
+  it('sums today and vault spend from the ledger', () => {
+    const spend = computeBudgetSpend([
+      { timestamp: YESTERDAY, costUsd: 4, conversationId: 'a' },
+      { timestamp: NOW, costUsd: 1, conversationId: 'a' },
+      { timestamp: NOW, costUsd: 0.5 },
+    ], 5, NOW);
+
+    expect(spend).toEqual({ conversation: 5, day: 1.5, vault: 5.5 });
+  });
+
+  it('reports only the conversation cost for an empty ledger', () => {
+    expect(computeBudgetSpend([], 2, NOW)).toEqual({ conversation: 2, day: 0, vault: 0 });
+  });
+});
+
+describe('evaluateBudget', () => {
+  it('reports no cap when all limits are 0', () => {
+    expect(evaluateBudget({ conversation: 0, day: 0, vault: 0 }, { conversation: 9, day: 9, vault: 9 }))
+      .toEqual({ exceeded: [], tightest: null, remaining: null, limit: null });
+  });
+
+  it('picks the cap with the least budget left', () => {
+    const status = evaluateBudget({ conversation: 10, day: 5, vault: 100 }, { conversation: 2, day: 4, vault: 50 });
+
+    expect(status).toEqual({ exceeded: [], tightest: 'day', remaining: 1, limit: 5 });
+  });
+
+  it('lists every exceeded scope', () => {
+    const status = evaluateBudget({ conversation: 1, day: 0, vault: 2 }, { conversation: 1, day: 0, vault: 3 });
+
+    expect(status.exceeded).toEqual(['conversation', 'vault']);
+    expect(status.remaining).toBe(0);
+  });
+});
+
+describe('describeExceededBudget', () => {
+  it('describes each reached cap', () => {
+    const text = describeExceededBudget(
+      { conversation: 1, day: 5, vault: 0 },
+      { conversation: 1.2, day: 5.5, vault: 9 },
+      ['conversation', 'day']
+    );
+
+    expect(text).toBe(
+      'Conversation budget of $1.00 reached ($1.20 spent). Daily budget of $5.00 reached ($5.50 spent).'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import type { TokenTotals, TurnCost } from '@/core/types';
+import {
+  applyTurnCost,
+  formatTokenCount,
+  formatUsd,
+  ResultCostTracker,
+  summarizeUsage,
+  toDayKey,
+  totalTokens,
+} from '@/core/usage';
+
+function totals(overrides: Partial<TokenTotals> = {}): TokenTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    ...overrides,
+  };
+}
+
+function turn(model: string, overrides: Partial<TokenTotals>): TurnCost {
+  const t = totals(overrides);
+  return { totals: t, byModel: { [model]: t } };
+}
+
+describe('ResultCostTracker', () => {
+  it('passes the first result through unchanged', () => {
+    const tracker = new ResultCostTracker();
+    const first = turn('sonnet', { inputTokens: 10, costUsd: 0.5 });
+
+    expect(tracker.toTurnCost(first)).toEqual(first);
+  });
+
+  it('returns the delta against the previous cumulative result', () => {
+    const tracker = new ResultCostTracker();
+    tracker.toTurnCost(turn('sonnet', { inputTokens: 10, outputTokens: 4, costUsd: 0.5 }));
+
+    const delta = tracker.toTurnCost({
+      totals: totals({ inputTokens: 25, outputTokens: 6, costUsd: 0.75 }),
+      byModel: {
+        sonnet: totals({ inputTokens: 10, outputTokens: 4, costUsd: 0.5 }),
+        haiku: totals({ inputTokens: 15, outputTokens: 2, costUsd: 0.25 }),
+      },
+    });
+
+    expect(delta.totals).toEqual(totals({ inputTokens: 15, outputTokens: 2, costUsd: 0.25 }));
+    expect(Object.keys(delta.byModel)).toEqual(['haiku']);
+  });
+
+  it('treats decreasing totals as a fresh process', () => {
+    const tracker = new ResultCostTracker();
+    tracker.toTurnCost(turn('sonnet', { inputTokens: 100 }));
+
+    const next = turn('sonnet', { inputTokens: 5 });
+    expect(tracker.toTurnCost(next)).toEqual(next);
+  });
+
+  it('forgets the baseline on reset', () => {
+    const tracker = new ResultCostTracker();
+    tracker.toTurnCost(turn('sonnet', { inputTokens: 10 }));
+    tracker.reset();
+
+    const next = turn('sonnet', { inputTokens: 20 });
+    expect(tracker.toTurnCost(next)).toEqual(next);
+  });
+});
+
+describe('applyTurnCost', () => {
+  it('accumulates totals, models, and days', () => {
+    const day1 = new Date(2025, 0, 1, 12).getTime();
+    const day2 = new Date(2025, 0, 2, 12).getTime();
+
+    let cost = applyTurnCost(null, turn('sonnet', { inputTokens: 10, costUsd: 0.1 }), day1);
+    cost = applyTurnCost(cost, turn('sonnet', { inputTokens: 5, costUsd: 0.05 }), day1);
+    cost = applyTurnCost(cost, turn('opus', { outputTokens: 7, costUsd: 1 }), day2);
+
+    expect(cost.totals).toEqual(totals({ inputTokens: 15, outputTokens: 7, costUsd: 1.15 }));
+    expect(cost.byModel.sonnet.inputTokens).toBe(15);
+    expect(cost.byModel.opus.outputTokens).toBe(7);
+    expect(cost.byDay['2025-01-01'].costUsd).toBeCloseTo(0.15);
+    expect(cost.byDay['2025-01-02'].costUsd).toBe(1);
+  });
+
+  it('does not mutate the previous cost', () => {
+    const before = applyTurnCost(undefined, turn('sonnet', { inputTokens: 1 }), 0);
+    applyTurnCost(before, turn('sonnet', { inputTokens: 1 }), 0);
+
+    expect(before.totals.inputTokens).toBe(1);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('aggregates conversations and sorts rows', () => {
+    const cheap = applyTurnCost(null, turn('haiku', { inputTokens: 1, costUsd: 0.01 }), new Date(2025, 0, 1).getTime());
+    const pricey = applyTurnCost(null, turn('opus', { inputTokens: 2, costUsd: 2 }), new Date(2025, 0, 3).getTime());
+
+    const summary = summarizeUsage([
+      { id: 'a', title: 'Cheap', cost: cheap },
+      { id: 'b', title: 'Pricey', cost: pricey },
+      { id: 'c', title: 'Untracked' },
+    ]);
+
+    expect(summary.totals.costUsd).toBeCloseTo(2.01);
+    expect(summary.byDay.map(row => row.key)).toEqual(['2025-01-03', '2025-01-01']);
+    expect(summary.byModel.map(row => row.key)).toEqual(['opus', 'haiku']);
+    expect(summary.byConversation.map(row => row.label)).toEqual(['Pricey', 'Cheap']);
+  });
+});
+
+describe('formatting helpers', () => {
+  it('formats day keys in local time', () => {
+    expect(toDayKey(new Date(2025, 2, 9, 23, 59).getTime())).toBe('2025-03-09');
+  });
+
+  it('sums all token kinds', () => {
+    expect(totalTokens(totals({ inputTokens: 1, outputTokens: 2, cacheCreationInputTokens: 3, cacheReadInputTokens: 4 }))).toBe(10);
+  });
+
+  it('formats USD with extra precision for small amounts', () => {
+    expect(formatUsd(0)).toBe('$0.00');
+    expect(formatUsd(0.0042)).toBe('$0.0042');
+    expect(formatUsd(1.5)).toBe('$1.50');
+  });
+
+  it('formats token counts compactly', () => {
+    expect(formatTokenCount(999)).toBe('999');
+    expect(formatTokenCount(1500)).toBe('1.5k');
+    expect(formatTokenCount(2_500_000)).toBe('2.5M');
+  });
+});
@@ -0,0 +1,179 @@
+import { TOOL_READ, TOOL_SKILL, TOOL_TASK } from '@/core/tools/toolNames';
+import type { InvocationRecord, SubagentInfo } from '@/core/types';
+import { DEFAULT_SUBAGENT_TYPE, InvocationTracker, summarizeInvocations } from '@/core/usage';
+
+function createTracker(startAt = 1000) {
+  let now = startAt;
+  const records: InvocationRecord[] = [];
+  const tracker = new InvocationTracker({
+    record: (record) => records.push(record),
+    getConversationId: () => 'conv-1',
+    now: () => now,
+  });
+  return { tracker, records, advance: (ms: number) => { now += ms; } };
+}
+
+function subagent(overrides: Partial<SubagentInfo> = {}): SubagentInfo {
+  return { id: 'task-1', description: 'Review', isExpanded: false, status: 'completed', toolCalls: [], ...overrides };
+}
+
+describe('InvocationTracker', () => {
+  it('records a subagent with duration and tool count', () => {
+    const { tracker, records, advance } = createTracker();
+
+    tracker.trackToolUse('task-1', TOOL_TASK, { subagent_type: 'code-reviewer' });
+    advance(4000);
+    tracker.completeSubagent(subagent({ toolCalls: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] as SubagentInfo['toolCalls'] }));
+
+    expect(records).toEqual([{
+      timestamp: 1000,
+      kind: 'agent',
+      name: 'code-reviewer',
+      conversationId: 'conv-1',
+      toolUseId: 'task-1',
+      durationMs: 4000,
+      toolCount: 3,
+      status: 'completed',
+      error: undefined,
+    }]);
+  });
+
+  it('takes the subagent type from a later input chunk and defaults to general-purpose', () => {
+    const { tracker, records } = createTracker();
+
+    tracker.trackToolUse('task-1', TOOL_TASK, {});
+    tracker.trackToolUse('task-1', TOOL_TASK, { subagent_type: 'planner' });
+    tracker.trackToolUse('task-2', TOOL_TASK, { prompt: 'x' });
+    tracker.completeSubagent(subagent());
+    tracker.completeSubagent(subagent({ id: 'task-2' }));
+
+    expect(records.map(r => r.name)).toEqual(['planner', DEFAULT_SUBAGENT_TYPE]);
+  });
+
+  it('uses the start and end times of async subagents', () => {
+    const { tracker, records } = createTracker();
+
+    tracker.trackToolUse('task-1', TOOL_TASK, { subagent_type: 'researcher' });
+    tracker.completeSubagent(subagent({ startedAt: 5000, completedAt: 65000 }));
+
+    expect(records[0]).toMatchObject({ timestamp: 5000, durationMs: 60000 });
+  });
+
+  it('records failed subagents once and ignores running ones', () => {
+    const { tracker, records } = createTracker();
+
+    tracker.trackToolUse('task-1', TOOL_TASK, { subagent_type: 'researcher' });
+    tracker.completeSubagent(subagent({ status: 'running' }));
+    tracker.completeSubagent(subagent({ status: 'error', result: 'Conversation ended' }));
+    tracker.completeSubagent(subagent({ status: 'completed' }));
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ status: 'error', error: 'Conversation ended' });
+  });
+
+  it('records skills from their tool result', () => {
+    const { tracker, records, advance } = createTracker();
+
+    tracker.trackToolUse('skill-1', TOOL_SKILL, { skill: 'my-plugin:lint' });
+    tracker.trackToolUse('skill-2', TOOL_SKILL, { command: '/summarize' });
+    advance(50);
+    tracker.completeSkill('skill-1', false, 'Launching skill');
+    tracker.completeSkill('skill-2', true, 'Unknown skill');
+
+    expect(records).toEqual([
+      expect.objectContaining({ kind: 'skill', name: 'my-plugin:lint', durationMs: 50, toolCount: 0, status: 'completed' }),
+      expect.objectContaining({ kind: 'skill', name: 'summarize', status: 'error', error: 'Unknown skill' }),
+    ]);
+  });
+
+  it('ignores other tools and results of untracked calls', () => {
+    const { tracker, records } = createTracker();
+
+    tracker.trackToolUse('read-1', TOOL_READ, { file_path: 'a.md' });
+    tracker.completeSkill('read-1', false, 'content');
+    tracker.completeSubagent(subagent({ id: 'unknown' }));
+
+    expect(records).toEqual([]);
+  });
+
+  it('logs unfinished invocations as cancelled, sparing kept ones', () => {
+    const { tracker, records, advance } = createTracker();
+
+    tracker.trackToolUse('task-1', TOOL_TASK, { subagent_type: 'researcher' });
+    tracker.trackToolUse('task-2', TOOL_TASK, { subagent_type: 'background' });
+    tracker.trackToolUse('skill-1', TOOL_SKILL, { skill: 'lint' });
+    advance(300);
+    tracker.cancelPending((id) => id === 'task-2');
+    tracker.cancelPending();
+
+    expect(records).toEqual([
+      expect.objectContaining({ kind: 'agent', name: 'researcher', durationMs: 300, status: 'cancelled' }),
+      expect.objectContaining({ kind: 'skill', name: 'lint', status: 'cancelled' }),
+      expect.objectContaining({ kind: 'agent', name: 'background', status: 'cancelled' }),
+    ]);
+    tracker.completeSkill('skill-1', false, 'late result');
+    expect(records).toHaveLength(3);
+  });
+
+  it('keeps the conversation the invocation started in', () => {
+    let conversationId = 'conv-1';
+    const records: InvocationRecord[] = [];
+    const tracker = new InvocationTracker({ record: (r) => records.push(r), getConversationId: () => conversationId });
+
+    tracker.trackToolUse('skill-1', TOOL_SKILL, { skill: 'lint' });
+    conversationId = 'conv-2';
+    tracker.cancelPending();
+
+    expect(records[0].conversationId).toBe('conv-1');
+  });
+
+  it('truncates long errors', () => {
+    const { tracker, records } = createTracker();
+
+    tracker.trackToolUse('skill-1', TOOL_SKILL, { skill: 'lint' });
+    tracker.completeSkill('skill-1', true, 'x'.repeat(1000));
+
+    expect(records[0].error!.length).toBeLessThan(400);
+  });
+});
+
+describe('summarizeInvocations', () => {
+  const record = (overrides: Partial<InvocationRecord>): InvocationRecord => ({
+    timestamp: 1000,
+    kind: 'agent',
+    name: 'reviewer',
+    durationMs: 1000,
+    toolCount: 2,
+    status: 'completed',
+    ...overrides,
+  });
+
+  it('aggregates counts, errors and averages per name, most used first', () => {
+    const summary = summarizeInvocations([
+      record({ timestamp: 1, durationMs: 1000, toolCount: 2 }),
+      record({ timestamp: 3, durationMs: 3000, toolCount: 4, status: 'error', error: 'boom' }),
+      record({ timestamp: 2, name: 'planner' }),
+      record({ kind: 'skill', name: 'lint', toolCount: 0 }),
+    ]);
+
+    expect(summary.agents).toEqual([
+      {
+        kind: 'agent', name: 'reviewer', count: 2, errors: 1, avgDurationMs: 2000, avgToolCount: 3,
+        lastUsedAt: 3, lastError: 'boom',
+      },
+      {
+        kind: 'agent', name: 'planner', count: 1, errors: 0, avgDurationMs: 1000, avgToolCount: 2,
+        lastUsedAt: 2,
+      },
+    ]);
+    expect(summary.skills).toHaveLength(1);
+    expect(summary.skills[0]).toMatchObject({ name: 'lint', count: 1 });
+  });
+
+  it('lists known agents and skills that were never invoked', () => {
+    const summary = summarizeInvocations([record({})], { agents: ['reviewer', 'unused'], skills: ['idle'] });
+
+    expect(summary.agents.map(a => [a.name, a.count])).toEqual([['reviewer', 1], ['unused', 0]]);
+    expect(summary.skills[0]).toMatchObject({ name: 'idle', count: 0, avgDurationMs: 0, lastUsedAt: null });
+  });
+});
@@ -0,0 +1,82 @@
+import type { ConversationCost, SpendRecord } from '@/core/types';
+import { applyTurnCost, SpendLedger, spendRecordsFromConversations } from '@/core/usage';
+
+const NOW = new Date(2025, 4, 10, 15).getTime();
+const YESTERDAY = new Date(2025, 4, 9, 9).getTime();
+
+function spent(costUsd: number, timestamp = NOW, previous?: ConversationCost): ConversationCost {
+  const totals = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd };
+  return applyTurnCost(previous, { totals, byModel: {} }, timestamp);
+}
+
+function createLedger(stored: SpendRecord[] = []) {
+  const appended: SpendRecord[] = [];
+  const ledger = new SpendLedger({
+    load: async () => stored,
+    append: async (record) => { appended.push(record); },
+  });
+  return { ledger, appended };
+}
+
+describe('spendRecordsFromConversations', () => {
+  it('turns per-day conversation costs into dated records', () => {
+    const records = spendRecordsFromConversations([
+      { id: 'a', cost: spent(1, NOW, spent(4, YESTERDAY)) },
+      { id: 'b' },
+    ]);
+
+    expect(records).toEqual([
+      { timestamp: new Date(2025, 4, 9, 12).getTime(), costUsd: 4, conversationId: 'a' },
+      { timestamp: new Date(2025, 4, 10, 12).getTime(), costUsd: 1, conversationId: 'a' },
+    ]);
+  });
+});
+
+describe('SpendLedger', () => {
+  it('counts recorded turns against the daily and vault caps', async () => {
+    const { ledger, appended } = createLedger([{ timestamp: YESTERDAY, costUsd: 2 }]);
+    await ledger.load();
+
+    ledger.record(0.5, 'conv-1', NOW);
+    ledger.record(0.25, null, NOW);
+
+    expect(ledger.getSpend(1, NOW)).toEqual({ conversation: 1, day: 0.75, vault: 2.75 });
+    expect(appended).toEqual([
+      { timestamp: NOW, costUsd: 0.5, conversationId: 'conv-1' },
+      { timestamp: NOW, costUsd: 0.25 },
+    ]);
+  });
+
+  it('seeds an empty ledger and saves the seed', async () => {
+    const { ledger, appended } = createLedger();
+    const seed = [{ timestamp: YESTERDAY, costUsd: 3, conversationId: 'deleted-later' }];
+
+    await ledger.load(() => seed);
+
+    expect(appended).toEqual(seed);
+    expect(ledger.getSpend(0, NOW).vault).toBe(3);
+  });
+
+  it('does not seed a ledger that already has records', async () => {
+    const { ledger } = createLedger([{ timestamp: NOW, costUsd: 1 }]);
+    const seed = jest.fn(() => [{ timestamp: NOW, costUsd: 5 }]);
+
+    await ledger.load(seed);
+
+    expect(seed).not.toHaveBeenCalled();
+    expect(ledger.getSpend(0, NOW).day).toBe(1);
+  });
+
+  it('ignores turns that cost nothing and keeps turns whose save failed', async () => {
+    const ledger = new SpendLedger({
+      load: async () => [],
+      append: jest.fn().mockRejectedValue(new Error('read-only')),
+    });
+
+    ledger.record(0, 'conv-1', NOW);
+    ledger.record(1.5, 'conv-1', NOW);
+    await Promise.resolve();
+
+    expect(ledger.getSpend(0, NOW).day).toBe(1.5);
+  });
+});
@@ -4,11 +4,16 @@ import { Notice } from 'obsidian';
 import { ConversationController, type ConversationControllerDeps } from '@/features/chat/controllers/ConversationController';
 import { ChatState } from '@/features/chat/state/ChatState';
 import { confirm } from '@/shared/modals/ConfirmModal';
+import { chooseStagedChangesAction } from '@/shared/modals/StagedChangesModal';
 
 jest.mock('@/shared/modals/ConfirmModal', () => ({
   confirm: jest.fn().mockResolvedValue(true),
 }));
 
+jest.mock('@/shared/modals/StagedChangesModal', () => ({
+  chooseStagedChangesAction: jest.fn().mockResolvedValue('discard'),
+}));
+
 const mockNotice = Notice as jest.Mock;
 
 function createMockDeps(overrides: Partial<ConversationControllerDeps> = {}): ConversationControllerDeps {
@@ -50,6 +55,7 @@ function createMockDeps(overrides: Partial<ConversationControllerDeps> = {}): Co
       updateConversation: jest.fn().mockResolvedValue(undefined),
       renameConversation: jest.fn().mockResolvedValue(undefined),
       deleteConversation: jest.fn().mockResolvedValue(undefined),
+      exportConversation: jest.fn().mockResolvedValue(undefined),
       agentService: {
         getSessionId: jest.fn().mockResolvedValue(null),
         setSessionId: jest.fn(),
@@ -81,6 +87,8 @@ function createMockDeps(overrides: Partial<ConversationControllerDeps> = {}): Co
       clearEnabled: jest.fn(),
       getEnabledServers: jest.fn().mockResolvedValue(new Set()),
       setEnabledServers: jest.fn(),
+      getToolSelection: jest.fn().mockReturnValue({}),
+      setToolSelection: jest.fn(),
     }) as any,
     getExternalContextSelector: () => ({
       getExternalContexts: jest.fn().mockReturnValue([]),
@@ -88,6 +96,8 @@ function createMockDeps(overrides: Partial<ConversationControllerDeps> = {}): Co
       clearExternalContexts: jest.fn(),
     }) as any,
     clearQueuedMessage: jest.fn(),
+    showDryRunReview: jest.fn(),
+    clearDryRunReview: jest.fn(),
     getTitleGenerationService: () => null,
     getStatusPanel: () => ({
       remount: jest.fn(),
@@ -644,8 +654,8 @@ describe('ConversationController', () => {
         const item = list.children[0];
         const actions = item.querySelector('.claudian-history-item-actions');
         expect(actions).toBeTruthy();
-        // regenerate button + rename button + delete button = 3 children
-        expect(actions!.children.length).toBe(3);
+        // regenerate button + rename button + export button + delete button = 4 children
+        expect(actions!.children.length).toBe(4);
       });
 
       it('should not show select click handler on current conversation', () => {
@@ -795,7 +805,7 @@ describe('ConversationController', () => {
       const item = list.children[0];
       const actions = item.querySelector('.claudian-history-item-actions');
       expect(actions).toBeTruthy();
-      // For non-failed items: rename is children[0], delete is children[1]
+      // For non-failed items: rename is children[0], export is children[1], delete is children[2]
       const rBtn = actions!.children[0];
       expect(rBtn).toBeTruthy();
       const clickHandlers = rBtn._eventListeners?.get('click');
@@ -827,6 +837,21 @@ describe('ConversationController', () => {
       }
     });
 
+    it('should export conversation when clicking export button', async () => {
+      (deps.plugin.getConversationList as jest.Mock).mockReturnValue([
+        { id: 'conv-1', title: 'Test Title', createdAt: 1000, lastResponseAt: 1000 },
+      ]);
+
+      controller.updateHistoryDropdown();
+
+      const item = dropdown.children[1].children[0];
+      const actions = item.querySelector('.claudian-history-item-actions');
+      const exportBtn = actions!.children[1];
+      await exportBtn._eventListeners.get('click')[0]({ stopPropagation: jest.fn() });
+
+      expect(deps.plugin.exportConversation).toHaveBeenCalledWith('conv-1');
+    });
+
     it('should delete conversation and reload active when deleting current conversation', async () => {
       deps.state.currentConversationId = 'conv-1';
 
@@ -872,6 +897,183 @@ describe('ConversationController', () => {
     });
   });
 
+  describe('History Search', () => {
+    let dropdown: any;
+    let searchMock: jest.Mock;
+
+    const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+    const typeQuery = async (query: string) => {
+      const searchInput = dropdown.children[0].querySelector('.claudian-history-search-input');
+      searchInput.value = query;
+      searchInput.dispatchEvent('input');
+      jest.advanceTimersByTime(150);
+      await flushPromises();
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      dropdown = createMockEl();
+      deps.getHistoryDropdown = () => dropdown;
+      searchMock = jest.fn().mockResolvedValue([]);
+      (deps.plugin as any).searchIndex = { search: searchMock };
+      (deps.plugin.getConversationList as jest.Mock).mockReturnValue([
+        { id: 'conv-1', title: 'First', createdAt: 1000, lastResponseAt: 1000 },
+        { id: 'conv-2', title: 'Second', createdAt: 2000, lastResponseAt: 2000 },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should render the search input inside the header', () => {
+      controller.updateHistoryDropdown();
+
+      expect(dropdown.children.length).toBe(2);
+      expect(dropdown.children[0].querySelector('.claudian-history-search-input')).not.toBeNull();
+    });
+
+    it('should debounce searches until typing pauses', async () => {
+      controller.updateHistoryDropdown();
+      const searchInput = dropdown.children[0].querySelector('.claudian-history-search-input');
+
+      searchInput.value = 'rea';
+      searchInput.dispatchEvent('input');
+      searchInput.value = 'react';
+      searchInput.dispatchEvent('input');
+      jest.advanceTimersByTime(100);
+      expect(searchMock).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(50);
+      await flushPromises();
+
+      expect(searchMock).toHaveBeenCalledTimes(1);
+      expect(searchMock).toHaveBeenCalledWith('react');
+    });
+
+    it('should render results with highlighted snippets', async () => {
+      searchMock.mockResolvedValue([{
+        conversationId: 'conv-1',
+        title: 'First',
+        score: 2,
+        matches: [{
+          field: 'message',
+          messageId: 'msg-1',
+          role: 'assistant',
+          snippet: { text: 'use react hooks', highlights: [{ start: 4, end: 9 }] },
+        }],
+      }]);
+      controller.updateHistoryDropdown();
+
+      await typeQuery('react');
+
+      const list = dropdown.children[1];
+      expect(list.children).toHaveLength(1);
+      expect(list.children[0].hasClass('claudian-history-search-result')).toBe(true);
+
+      const highlights = list.querySelectorAll('.claudian-history-search-highlight');
+      expect(highlights).toHaveLength(1);
+      expect(highlights[0].textContent).toBe('react');
+    });
+
+    it('should show empty state when nothing matches', async () => {
+      controller.updateHistoryDropdown();
+
+      await typeQuery('nothing');
+
+      const list = dropdown.children[1];
+      expect(list.children[0].textContent).toBe('No matching conversations');
+    });
+
+    it('should switch and reveal the matching message when clicking a snippet', async () => {
+      searchMock.mockResolvedValue([{
+        conversationId: 'conv-2',
+        title: 'Second',
+        score: 2,
+        matches: [{
+          field: 'message',
+          messageId: 'msg-7',
+          snippet: { text: 'react', highlights: [{ start: 0, end: 5 }] },
+        }],
+      }]);
+      controller.updateHistoryDropdown();
+      await typeQuery('react');
+
+      const target = createMockEl();
+      target.addClass('claudian-message');
+      target.setAttribute('data-message-id', 'msg-7');
+      target.scrollIntoView = jest.fn();
+      deps.getMessagesEl().appendChild(target);
+
+      const snippet = dropdown.children[1].querySelector('.claudian-history-search-snippet');
+      await snippet._eventListeners.get('click')[0]({ stopPropagation: jest.fn() });
+
+      expect(deps.plugin.switchConversation).toHaveBeenCalledWith('conv-2');
+      expect(target.scrollIntoView).toHaveBeenCalled();
+      expect(target.hasClass('claudian-message-search-hit')).toBe(true);
+
+      jest.advanceTimersByTime(2000);
+      expect(target.hasClass('claudian-message-search-hit')).toBe(false);
+    });
+
+    it('should restore the conversation list when the query is cleared', async () => {
+      controller.updateHistoryDropdown();
+      await typeQuery('react');
+
+      await typeQuery('');
+
+      const list = dropdown.children[1];
+      expect(list.children).toHaveLength(2);
+      expect(list.children[0].hasClass('claudian-history-item')).toBe(true);
+    });
+
+    it('should drop results from a superseded search', async () => {
+      let resolveFirst: (value: unknown) => void = () => {};
+      searchMock
+        .mockImplementationOnce(() => new Promise(resolve => { resolveFirst = resolve; }))
+        .mockResolvedValueOnce([]);
+      controller.updateHistoryDropdown();
+
+      const searchInput = dropdown.children[0].querySelector('.claudian-history-search-input');
+      searchInput.value = 'slow';
+      searchInput.dispatchEvent('input');
+      jest.advanceTimersByTime(150);
+
+      await typeQuery('fast');
+
+      resolveFirst([{
+        conversationId: 'conv-1',
+        title: 'First',
+        score: 5,
+        matches: [{ field: 'title', snippet: { text: 'First', highlights: [] } }],
+      }]);
+      await flushPromises();
+
+      const list = dropdown.children[1];
+      expect(list.children[0].textContent).toBe('No matching conversations');
+    });
+
+    it('should keep the query across rerenders', async () => {
+      controller.updateHistoryDropdown();
+      await typeQuery('react');
+      searchMock.mockClear();
+
+      controller.updateHistoryDropdown();
+      await flushPromises();
+
+      const searchInput = dropdown.children[0].querySelector('.claudian-history-search-input');
+      expect(searchInput.value).toBe('react');
+      expect(searchMock).toHaveBeenCalledWith('react');
+    });
+  });
+
+  describe('revealMessage', () => {
+    it('should return false when the message is not rendered', () => {
+      expect(controller.revealMessage('missing')).toBe(false);
+    });
+  });
+
   describe('loadActive with greeting', () => {
     it('should show welcome and return early when no conversation exists', async () => {
       deps.state.currentConversationId = null;
@@ -1145,6 +1347,8 @@ describe('ConversationController - MCP Server Persistence', () => {
       clearEnabled: jest.fn(),
       getEnabledServers: jest.fn().mockReturnValue(new Set(['mcp-server-1', 'mcp-server-2'])),
       setEnabledServers: jest.fn(),
+      getToolSelection: jest.fn().mockReturnValue({}),
+      setToolSelection: jest.fn(),
     };
     deps = createMockDeps({
       getMcpServerSelector: () => mockMcpServerSelector,
@@ -1166,6 +1370,20 @@ describe('ConversationController - MCP Server Persistence', () => {
       );
     });
 
+    it('should save the MCP tool selection to conversation', async () => {
+      mockMcpServerSelector.getToolSelection.mockReturnValue({ docs: ['search'] });
+      deps.state.currentConversationId = 'conv-1';
+
+      await controller.save();
+
+      expect(deps.plugin.updateConversation).toHaveBeenCalledWith(
+        'conv-1',
+        expect.objectContaining({
+          enabledMcpTools: { docs: ['search'] },
+        })
+      );
+    });
+
     it('should save undefined when no MCP servers enabled', async () => {
       mockMcpServerSelector.getEnabledServers.mockReturnValue(new Set());
       deps.state.currentConversationId = 'conv-1';
@@ -1229,6 +1447,20 @@ describe('ConversationController - MCP Server Persistence', () => {
       expect(mockMcpServerSelector.setEnabledServers).toHaveBeenCalledWith(['switched-server']);
     });
 
+    it('should restore the MCP tool selection when switching conversations', async () => {
+      deps.state.currentConversationId = 'old-conv';
+      (deps.plugin.switchConversation as jest.Mock).mockResolvedValue({
+        id: 'new-conv',
+        messages: [],
+        sessionId: null,
+        enabledMcpTools: { docs: ['search'] },
+      });
+
+      await controller.switchTo('new-conv');
+
+      expect(mockMcpServerSelector.setToolSelection).toHaveBeenCalledWith({ docs: ['search'] });
+    });
+
     it('should clear MCP servers when switching to conversation with no servers', async () => {
       deps.state.currentConversationId = 'old-conv';
       (deps.plugin.switchConversation as jest.Mock).mockResolvedValue({
@@ -1605,6 +1837,7 @@ describe('ConversationController - Previous SDK Session IDs', () => {
       getSessionId: jest.fn().mockReturnValue(null),
       setSessionId: jest.fn(),
       consumeSessionInvalidation: jest.fn().mockReturnValue(false),
+      getDryRunStaging: () => ({ hasChanges: () => false }),
     };
     deps = createMockDeps({
       getAgentService: () => mockAgentService,
@@ -1734,6 +1967,7 @@ describe('ConversationController - Fork Session ID Isolation', () => {
       getSessionId: jest.fn().mockReturnValue(null),
       setSessionId: jest.fn(),
       consumeSessionInvalidation: jest.fn().mockReturnValue(false),
+      getDryRunStaging: () => ({ hasChanges: () => false }),
     };
     deps = createMockDeps({
       getAgentService: () => mockAgentService,
@@ -1837,6 +2071,7 @@ describe('ConversationController - switchTo fork path', () => {
       setSessionId: jest.fn(),
       applyForkState: jest.fn((conv: any) => conv.sessionId ?? conv.forkSource?.sessionId ?? null),
       consumeSessionInvalidation: jest.fn().mockReturnValue(false),
+      getDryRunStaging: () => ({ hasChanges: () => false }),
     };
     deps = createMockDeps({
       getAgentService: () => mockAgentService,
@@ -2018,6 +2253,7 @@ describe('ConversationController - Rewind', () => {
       getSessionId: jest.fn().mockReturnValue(null),
       setSessionId: jest.fn(),
       consumeSessionInvalidation: jest.fn().mockReturnValue(false),
+      getDryRunStaging: () => ({ hasChanges: () => false }),
       rewind: jest.fn().mockResolvedValue({ canRewind: true, filesChanged: ['a.ts'] }),
     };
     deps = createMockDeps({
@@ -2221,4 +2457,312 @@ describe('ConversationController - Rewind', () => {
     const msg = mockNotice.mock.calls[0][0] as string;
     expect(msg).toContain('Save failed');
   });
+
+  describe('rewindForResend', () => {
+    const messages = () => [
+      { id: 'm1', role: 'assistant' as const, content: '', timestamp: 1, sdkAssistantUuid: 'prev-a' },
+      { id: 'm2', role: 'user' as const, content: 'test', timestamp: 2, sdkUserUuid: 'user-uuid' },
+      { id: 'm3', role: 'assistant' as const, content: 'resp', timestamp: 3, sdkAssistantUuid: 'resp-a' },
+    ];
+
+    beforeEach(() => {
+      mockAgentService.rewindConversation = jest.fn();
+      deps.state.currentConversationId = 'conv-1';
+      deps.state.messages = messages();
+    });
+
+    it('rewinds files and session without asking, and returns the removed message', async () => {
+      const result = await controller.rewindForResend('m2', true);
+
+      expect(confirm).not.toHaveBeenCalled();
+      expect(mockAgentService.rewind).toHaveBeenCalledWith('user-uuid', 'prev-a');
+      expect(result).toMatchObject({ id: 'm2', content: 'test' });
+      expect(deps.state.messages.map(m => m.id)).toEqual(['m1']);
+      expect(deps.plugin.updateConversation).toHaveBeenCalledWith(
+        'conv-1',
+        expect.objectContaining({ resumeSessionAt: 'prev-a' })
+      );
+      expect(deps.getInputEl().value).toBe('');
+    });
+
+    it('leaves files alone when restoreFiles is off', async () => {
+      await controller.rewindForResend('m2', false);
+
+      expect(mockAgentService.rewind).not.toHaveBeenCalled();
+      expect(mockAgentService.rewindConversation).toHaveBeenCalledWith('prev-a');
+      expect(deps.state.messages.map(m => m.id)).toEqual(['m1']);
+    });
+
+    it('keeps the messages when the rewind fails', async () => {
+      mockAgentService.rewind.mockResolvedValue({ canRewind: false, error: 'No checkpoints' });
+
+      const result = await controller.rewindForResend('m2', true);
+
+      expect(result).toBeNull();
+      expect(deps.state.messages).toHaveLength(3);
+      expect(mockNotice).toHaveBeenCalled();
+    });
+
+    describe('first message', () => {
+      beforeEach(() => {
+        deps.state.messages = messages().slice(1);
+      });
+
+      it('resends an edited first message in a fresh session', async () => {
+        const result = await controller.rewindForResend('m2', false);
+
+        expect(result).toMatchObject({ id: 'm2' });
+        expect(mockAgentService.rewindConversation).toHaveBeenCalledWith(null);
+        expect(deps.state.messages).toEqual([]);
+        expect(deps.plugin.updateConversation).toHaveBeenLastCalledWith('conv-1', {
+          sessionId: null,
+          sdkSessionId: undefined,
+          previousSdkSessionIds: undefined,
+        });
+      });
+
+      it('regenerates the first response with its files restored', async () => {
+        const result = await controller.rewindForResend('m2', true);
+
+        expect(result).toMatchObject({ id: 'm2' });
+        expect(mockAgentService.rewind).toHaveBeenCalledWith('user-uuid', null);
+        expect(deps.state.messages).toEqual([]);
+        expect(deps.plugin.updateConversation).toHaveBeenCalledWith(
+          'conv-1',
+          expect.objectContaining({ resumeSessionAt: undefined })
+        );
+      });
+
+      it('still cannot be rewound', async () => {
+        await controller.rewind('m2');
+
+        expect(confirm).not.toHaveBeenCalled();
+        expect(mockAgentService.rewind).not.toHaveBeenCalled();
+        expect(deps.state.messages).toHaveLength(2);
+      });
+    });
+  });
+});
+
+describe('ConversationController - adoptBranch', () => {
+  let controller: ConversationController;
+  let deps: ConversationControllerDeps;
+  let mockAgentService: any;
+
+  const branch = {
+    text: 'Answer',
+    toolCalls: [],
+    contentBlocks: [],
+    usage: null,
+    cost: null,
+    sessionId: 'fork-1',
+    durationMs: 1000,
+    cancelled: false,
+  };
+  const messages = [
+    { id: 'u1', role: 'user' as const, content: 'Question', timestamp: 1 },
+    { id: 'a1', role: 'assistant' as const, content: 'Answer', timestamp: 2 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAgentService = {
+      getSessionId: jest.fn().mockReturnValue(null),
+      setSessionId: jest.fn((id: string) => mockAgentService.getSessionId.mockReturnValue(id)),
+      consumeSessionInvalidation: jest.fn().mockReturnValue(false),
+      getDryRunStaging: () => ({ hasChanges: () => false }),
+    };
+    deps = createMockDeps({
+      getAgentService: () => mockAgentService,
+    });
+    controller = new ConversationController(deps);
+  });
+
+  it('appends the branch turn and continues from the forked session', async () => {
+    deps.state.currentConversationId = 'conv-1';
+    deps.state.messages = [{ id: 'm0', role: 'user', content: 'Earlier', timestamp: 0 }];
+    (deps.plugin.getConversationById as jest.Mock).mockResolvedValue({
+      id: 'conv-1',
+      messages: [],
+      sessionId: 'fork-1',
+      sdkSessionId: 'fork-1',
+      isNative: true,
+    });
+
+    await controller.adoptBranch(messages, branch);
+
+    expect(deps.plugin.updateConversation).toHaveBeenNthCalledWith(1, 'conv-1', {
+      sessionId: 'fork-1',
+      sdkSessionId: 'fork-1',
+    });
+    expect(mockAgentService.setSessionId).toHaveBeenCalledWith('fork-1', []);
+    expect(deps.state.messages.map(m => m.id)).toEqual(['m0', 'u1', 'a1']);
+    expect(deps.plugin.updateConversation).toHaveBeenLastCalledWith('conv-1', expect.objectContaining({
+      sdkSessionId: 'fork-1',
+      previousSdkSessionIds: undefined,
+    }));
+  });
+
+  it('creates the conversation when adopting from the entry point', async () => {
+    await controller.adoptBranch(messages, branch);
+
+    expect(deps.plugin.createConversation).toHaveBeenCalledWith('fork-1');
+    expect(deps.state.messages).toHaveLength(2);
+  });
+
+  it('does nothing while streaming or without a forked session', async () => {
+    deps.state.isStreaming = true;
+    await controller.adoptBranch(messages, branch);
+    deps.state.isStreaming = false;
+    await controller.adoptBranch(messages, { ...branch, sessionId: null });
+
+    expect(mockAgentService.setSessionId).not.toHaveBeenCalled();
+    expect(deps.state.messages).toHaveLength(0);
+  });
+});
+
+describe('ConversationController - staged dry-run changes', () => {
+  let controller: ConversationController;
+  let deps: ConversationControllerDeps;
+  let staging: {
+    hasChanges: jest.Mock;
+    getChanges: jest.Mock;
+    acceptAll: jest.Mock;
+    clear: jest.Mock;
+    restore: jest.Mock;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    staging = {
+      hasChanges: jest.fn().mockReturnValue(true),
+      getChanges: jest.fn().mockReturnValue([{ filePath: '/vault/a.md' }, { filePath: '/vault/b.md' }]),
+      acceptAll: jest.fn().mockResolvedValue([]),
+      clear: jest.fn().mockResolvedValue(undefined),
+      restore: jest.fn().mockResolvedValue(undefined),
+    };
+    const mockAgentService = {
+      getSessionId: jest.fn().mockReturnValue(null),
+      setSessionId: jest.fn(),
+      applyForkState: jest.fn().mockReturnValue(null),
+      getDryRunStaging: () => staging,
+    };
+    deps = createMockDeps({ getAgentService: () => mockAgentService as any });
+    deps.state.currentConversationId = 'conv-1';
+    controller = new ConversationController(deps);
+  });
+
+  it('applies staged changes before switching when the user chooses apply', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce('apply');
+
+    await controller.switchTo('conv-2');
+
+    expect(chooseStagedChangesAction).toHaveBeenCalledWith(deps.plugin.app, 2);
+    expect(staging.acceptAll).toHaveBeenCalled();
+    expect(staging.clear).toHaveBeenCalled();
+    expect(deps.clearDryRunReview).toHaveBeenCalled();
+    expect(deps.plugin.switchConversation).toHaveBeenCalledWith('conv-2');
+  });
+
+  it('stays in the conversation with its staged changes when the prompt is dismissed', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce(null);
+
+    await controller.switchTo('conv-2');
+
+    expect(deps.plugin.switchConversation).not.toHaveBeenCalled();
+    expect(staging.clear).not.toHaveBeenCalled();
+    expect(deps.clearDryRunReview).not.toHaveBeenCalled();
+    expect(deps.state.isSwitchingConversation).toBe(false);
+  });
+
+  it('discards staged changes and removes the review panel on a new conversation', async () => {
+    await expect(controller.createNew()).resolves.toBe(true);
+
+    expect(staging.acceptAll).not.toHaveBeenCalled();
+    expect(staging.clear).toHaveBeenCalled();
+    expect(deps.clearDryRunReview).toHaveBeenCalled();
+    expect(deps.state.currentConversationId).toBeNull();
+  });
+
+  it('keeps the conversation when applying fails', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce('apply');
+    staging.acceptAll.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(controller.createNew()).resolves.toBe(false);
+
+    expect(mockNotice).toHaveBeenCalledWith(expect.stringContaining('disk full'));
+    expect(deps.state.currentConversationId).toBe('conv-1');
+  });
+
+  it('asks before overwriting files changed on disk since staging', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce('apply');
+    staging.acceptAll.mockResolvedValueOnce(['/vault/a.md']);
+    (confirm as jest.Mock).mockResolvedValueOnce(true);
+
+    await expect(controller.createNew()).resolves.toBe(true);
+
+    expect(confirm).toHaveBeenCalledWith(deps.plugin.app, expect.stringContaining('/vault/a.md'), expect.any(String));
+    expect(staging.acceptAll).toHaveBeenLastCalledWith({ overwrite: true });
+    expect(staging.clear).toHaveBeenCalled();
+  });
+
+  it('stays in the conversation when the user keeps the changed files', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce('apply');
+    staging.acceptAll.mockResolvedValueOnce(['/vault/a.md']);
+    (confirm as jest.Mock).mockResolvedValueOnce(false);
+
+    await expect(controller.createNew()).resolves.toBe(false);
+
+    expect(staging.acceptAll).toHaveBeenCalledTimes(1);
+    expect(staging.clear).not.toHaveBeenCalled();
+    expect(deps.state.currentConversationId).toBe('conv-1');
+  });
+
+  it('discards staged changes on a forced reset even when the prompt is dismissed', async () => {
+    (chooseStagedChangesAction as jest.Mock).mockResolvedValueOnce(null);
+
+    await expect(controller.createNew({ force: true })).resolves.toBe(true);
+
+    expect(staging.clear).toHaveBeenCalled();
+    expect(deps.state.currentConversationId).toBeNull();
+  });
+
+  it('does not prompt without staged changes', async () => {
+    staging.hasChanges.mockReturnValue(false);
+
+    await controller.switchTo('conv-2');
+
+    expect(chooseStagedChangesAction).not.toHaveBeenCalled();
+    expect(deps.clearDryRunReview).toHaveBeenCalled();
+    expect(deps.plugin.switchConversation).toHaveBeenCalledWith('conv-2');
+  });
+
+  it('saves unsettled staged changes with the conversation', async () => {
+    deps.state.messages = [{ id: 'u1', role: 'user', content: 'Edit a.md', timestamp: 1 }];
+
+    await controller.save();
+
+    expect(deps.plugin.updateConversation).toHaveBeenCalledWith('conv-1', expect.objectContaining({
+      stagedChanges: [{ filePath: '/vault/a.md' }, { filePath: '/vault/b.md' }],
+    }));
+  });
+
+  it('restores the staged changes a conversation was saved with', async () => {
+    const stagedChanges = [{ filePath: '/vault/a.md', originalContent: 'a', stagedContent: 'A', toolNames: ['Write'] }];
+    staging.hasChanges.mockReturnValue(false);
+    (deps.plugin.switchConversation as jest.Mock).mockResolvedValueOnce({
+      id: 'conv-2',
+      title: 'Kept',
+      messages: [],
+      sessionId: null,
+      createdAt: 1,
+      updatedAt: 1,
+      stagedChanges,
+    });
+
+    await controller.switchTo('conv-2');
+
+    expect(staging.restore).toHaveBeenCalledWith(stagedChanges);
+    expect(deps.showDryRunReview).toHaveBeenCalled();
+  });
 });
@@ -36,6 +36,8 @@ function createMockFileContextManager() {
     shouldSendCurrentNote: jest.fn().mockReturnValue(false),
     markCurrentNoteSent: jest.fn(),
     transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+    getMcpResources: jest.fn().mockReturnValue([]),
+    clearMcpResources: jest.fn(),
   };
 }
 
@@ -65,6 +67,7 @@ function createMockAgentService() {
     clearApprovedPlanContent: jest.fn(),
     ensureReady: jest.fn().mockResolvedValue(true),
     getSessionId: jest.fn().mockReturnValue(null),
+    getDryRunStaging: jest.fn().mockReturnValue({ hasChanges: () => false }),
   };
 }
 
@@ -127,6 +130,7 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
       finalizeCurrentTextBlock: jest.fn(),
       finalizeCurrentThinkingBlock: jest.fn(),
       appendText: jest.fn(),
+      cancelPendingInvocations: jest.fn(),
     } as any,
     selectionController: {
       getContext: jest.fn().mockReturnValue(null),
@@ -144,13 +148,7 @@ function createMockDeps(overrides: Partial<InputControllerDeps> = {}): InputCont
     getInputContainerEl: () => createMockEl() as any,
     getWelcomeEl: () => null,
     getMessagesEl: () => createMockEl() as any,
-    getFileContextManager: () => ({
-      startSession: jest.fn(),
-      getCurrentNotePath: jest.fn().mockReturnValue(null),
-      shouldSendCurrentNote: jest.fn().mockReturnValue(false),
-      markCurrentNoteSent: jest.fn(),
-      transformContextMentions: jest.fn().mockImplementation((text: string) => text),
-    }) as any,
+    getFileContextManager: () => createMockFileContextManager() as any,
     getImageContextManager: () => imageContextManager as any,
     getMcpServerSelector: () => null,
     getExternalContextSelector: () => null,
@@ -432,6 +430,8 @@ describe('InputController - Message Queue', () => {
         shouldSendCurrentNote: jest.fn().mockImplementation(() => !currentNoteSent),
         markCurrentNoteSent: jest.fn().mockImplementation(() => { currentNoteSent = true; }),
         transformContextMentions: jest.fn().mockImplementation((text: string) => text),
+        getMcpResources: jest.fn().mockReturnValue([]),
+        clearMcpResources: jest.fn(),
       };
 
       deps.getFileContextManager = () => fileContextManager as any;
@@ -457,6 +457,7 @@ describe('InputController - Message Queue', () => {
       deps.plugin.mcpManager.extractMentions = jest.fn().mockReturnValue(mcpMentions);
       deps.getMcpServerSelector = () => ({
         getEnabledServers: () => enabledServers,
+        getToolSelection: () => ({ 'server-b': ['search'] }),
       }) as any;
       (deps as any).mockAgentService.query = jest.fn().mockImplementation(() => createMockStream([{ type: 'done' }]));
 
@@ -468,6 +469,7 @@ describe('InputController - Message Queue', () => {
       const queryOptions = queryCall[3];
       expect(queryOptions.mcpMentions).toBe(mcpMentions);
       expect(queryOptions.enabledMcpServers).toBe(enabledServers);
+      expect(queryOptions.enabledMcpTools).toEqual({ 'server-b': ['search'] });
     });
   });
 
@@ -1259,6 +1261,7 @@ describe('InputController - Message Queue', () => {
       await controller.sendMessage();
 
       expect(deps.streamController.appendText).toHaveBeenCalledWith('\n\n**Error:** Network timeout');
+      expect(deps.streamController.cancelPendingInvocations).toHaveBeenCalled();
       expect(deps.state.isStreaming).toBe(false);
     });
 
@@ -1446,6 +1449,153 @@ describe('InputController - Message Queue', () => {
     });
   });
 
+  describe('MCP resources', () => {
+    beforeEach(() => {
+      mockNotice.mockClear();
+    });
+
+    it('should read attached resources into the prompt and clear the chips', async () => {
+      deps = createSendableDeps();
+      const fileContextManager = deps.getFileContextManager() as any;
+      fileContextManager.getMcpResources.mockReturnValue([
+        { server: 'docs', uri: 'docs://readme', name: 'readme' },
+        { server: 'docs', uri: 'docs://missing', name: 'missing' },
+      ]);
+      deps.plugin.mcpManager.readResource = jest.fn(async (_server: string, uri: string) => (
+        uri === 'docs://readme'
+          ? { success: true, contents: [{ uri, text: '# Readme' }] }
+          : { success: false, contents: [], error: 'Resource not found' }
+      ));
+
+      ((deps as any).mockAgentService.query as jest.Mock).mockReturnValue(
+        createMockStream([{ type: 'done' }])
+      );
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = 'summarize';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const promptSent = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0][0];
+      expect(promptSent).toContain('<resource server="docs" uri="docs://readme">\n# Readme\n</resource>');
+      expect(promptSent).not.toContain('docs://missing');
+      expect(mockNotice).toHaveBeenCalledWith('Failed to read MCP resource docs:missing: Resource not found');
+      expect(fileContextManager.clearMcpResources).toHaveBeenCalled();
+    });
+  });
+
+  describe('MCP prompts', () => {
+    const reviewPrompt = { name: 'review', arguments: [{ name: 'file', required: true }] };
+
+    beforeEach(() => {
+      mockNotice.mockClear();
+    });
+
+    it('should send the expanded prompt and display the typed command', async () => {
+      deps = createSendableDeps();
+      deps.plugin.mcpManager.findPromptCommand = jest.fn().mockResolvedValue({ serverName: 'docs', prompt: reviewPrompt });
+      deps.plugin.mcpManager.getPrompt = jest.fn().mockResolvedValue({
+        success: true,
+        messages: [{ role: 'user', text: 'Review src/a.ts carefully' }],
+      });
+      ((deps as any).mockAgentService.query as jest.Mock).mockReturnValue(
+        createMockStream([{ type: 'done' }])
+      );
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/mcp__docs__review src/a.ts';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect(deps.plugin.mcpManager.getPrompt).toHaveBeenCalledWith('docs', 'review', { file: 'src/a.ts' });
+      const promptSent = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0][0];
+      expect(promptSent).toBe('Review src/a.ts carefully');
+      expect(deps.state.messages[0].displayContent).toBe('/mcp__docs__review src/a.ts');
+    });
+
+    it('should keep the input and show a Notice when a required argument is missing', async () => {
+      deps = createSendableDeps();
+      deps.plugin.mcpManager.findPromptCommand = jest.fn().mockResolvedValue({ serverName: 'docs', prompt: reviewPrompt });
+      deps.plugin.mcpManager.getPrompt = jest.fn();
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/mcp__docs__review';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      expect(mockNotice).toHaveBeenCalledWith('/mcp__docs__review: Missing required argument: file');
+      expect(deps.plugin.mcpManager.getPrompt).not.toHaveBeenCalled();
+      expect((deps as any).mockAgentService.query).not.toHaveBeenCalled();
+      expect(inputEl.value).toBe('/mcp__docs__review');
+    });
+
+    it('should send once when Enter is pressed again while the prompt is fetched', async () => {
+      deps = createSendableDeps();
+      let resolvePrompt: (result: unknown) => void = () => {};
+      deps.plugin.mcpManager.findPromptCommand = jest.fn().mockResolvedValue({ serverName: 'docs', prompt: reviewPrompt });
+      deps.plugin.mcpManager.getPrompt = jest.fn(() => new Promise((resolve) => { resolvePrompt = resolve; }));
+      ((deps as any).mockAgentService.query as jest.Mock).mockReturnValue(
+        createMockStream([{ type: 'done' }])
+      );
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/mcp__docs__review src/a.ts';
+      controller = new InputController(deps);
+
+      const first = controller.sendMessage();
+      expect(inputEl.value).toBe('');
+      inputEl.value = '/mcp__docs__review src/a.ts';
+      await controller.sendMessage();
+      resolvePrompt({ success: true, messages: [{ role: 'user', text: 'Review src/a.ts carefully' }] });
+      await first;
+
+      expect(deps.plugin.mcpManager.getPrompt).toHaveBeenCalledTimes(1);
+      expect((deps as any).mockAgentService.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send into another conversation opened while the prompt is fetched', async () => {
+      deps = createSendableDeps();
+      deps.state.currentConversationId = 'conv-1';
+      let resolvePrompt: (result: unknown) => void = () => {};
+      deps.plugin.mcpManager.findPromptCommand = jest.fn().mockResolvedValue({ serverName: 'docs', prompt: reviewPrompt });
+      deps.plugin.mcpManager.getPrompt = jest.fn(() => new Promise((resolve) => { resolvePrompt = resolve; }));
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/mcp__docs__review src/a.ts';
+      controller = new InputController(deps);
+
+      const sending = controller.sendMessage();
+      await new Promise(resolve => setImmediate(resolve));
+      deps.state.currentConversationId = 'conv-2';
+      resolvePrompt({ success: true, messages: [{ role: 'user', text: 'Review src/a.ts carefully' }] });
+      await sending;
+
+      expect((deps as any).mockAgentService.query).not.toHaveBeenCalled();
+      expect(deps.state.isStreaming).toBe(false);
+      expect(inputEl.value).toBe('/mcp__docs__review src/a.ts');
+    });
+
+    it('should send unknown mcp__ commands as typed', async () => {
+      deps = createSendableDeps();
+      deps.plugin.mcpManager.findPromptCommand = jest.fn().mockResolvedValue(null);
+      ((deps as any).mockAgentService.query as jest.Mock).mockReturnValue(
+        createMockStream([{ type: 'done' }])
+      );
+
+      inputEl = deps.getInputEl() as ReturnType<typeof createMockInputEl>;
+      inputEl.value = '/mcp__sdk__prompt';
+      controller = new InputController(deps);
+
+      await controller.sendMessage();
+
+      const promptSent = ((deps as any).mockAgentService.query as jest.Mock).mock.calls[0][0];
+      expect(promptSent).toBe('/mcp__sdk__prompt');
+    });
+  });
+
   describe('Built-in commands - unknown', () => {
     beforeEach(() => {
       mockNotice.mockClear();
@@ -2022,4 +2172,65 @@ describe('InputController - Message Queue', () => {
       expect(mockAgentService.query).toHaveBeenCalled();
     });
   });
+
+  describe('resend', () => {
+    const original = {
+      id: 'msg-u2',
+      role: 'user' as const,
+      content: 'Summarize\n\n<current_note>\na.md\n</current_note>',
+      displayContent: 'Summarize',
+      currentNote: 'a.md',
+      timestamp: 3,
+      sdkUserUuid: 'u2',
+    };
+
+    it('rewinds and sends the edited text with the original context and given images', async () => {
+      deps = createSendableDeps();
+      const { mockAgentService } = deps as any;
+      mockAgentService.query = jest.fn().mockReturnValue(createMockStream([{ type: 'done' }]));
+      (deps.conversationController as any).rewindForResend = jest.fn().mockResolvedValue(original);
+      const images = [{ id: 'img1', name: 'a.png', mediaType: 'image/png', data: 'b64', size: 3, source: 'file' }];
+      controller = new InputController(deps);
+
+      await controller.resend('msg-u2', { text: 'Summarize briefly ', images: images as any, restoreFiles: false });
+
+      expect(deps.conversationController.rewindForResend).toHaveBeenCalledWith('msg-u2', false);
+      expect(mockAgentService.query).toHaveBeenCalledWith(
+        'Summarize briefly\n\n<current_note>\na.md\n</current_note>',
+        images,
+        expect.any(Array),
+        expect.not.objectContaining({ model: expect.anything() })
+      );
+      expect(deps.state.messages[0]).toMatchObject({ displayContent: 'Summarize briefly', currentNote: 'a.md' });
+      expect(deps.getImageContextManager()!.getAttachedImages).not.toHaveBeenCalled();
+    });
+
+    it('regenerates with the original prompt and another model', async () => {
+      deps = createSendableDeps();
+      const { mockAgentService } = deps as any;
+      mockAgentService.query = jest.fn().mockReturnValue(createMockStream([{ type: 'done' }]));
+      (deps.conversationController as any).rewindForResend = jest.fn().mockResolvedValue(original);
+      controller = new InputController(deps);
+
+      await controller.resend('msg-u2', { text: 'Summarize', restoreFiles: true, model: 'opus' });
+
+      expect(mockAgentService.query).toHaveBeenCalledWith(
+        original.content,
+        undefined,
+        expect.any(Array),
+        expect.objectContaining({ model: 'opus' })
+      );
+    });
+
+    it('sends nothing when the rewind fails', async () => {
+      deps = createSendableDeps();
+      const { mockAgentService } = deps as any;
+      (deps.conversationController as any).rewindForResend = jest.fn().mockResolvedValue(null);
+      controller = new InputController(deps);
+
+      await controller.resend('msg-u2', { text: 'Summarize', restoreFiles: true });
+
+      expect(mockAgentService.query).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import type { ChatMessage, Conversation } from '@/core/types';
+import { PinController, type PinControllerDeps } from '@/features/chat/controllers/PinController';
+import { ChatState } from '@/features/chat/state/ChatState';
+
+function createDeps(conversation: Conversation): PinControllerDeps & { strip: any; sidebar: any; renderer: any } {
+  const state = new ChatState();
+  state.currentConversationId = conversation.id;
+  state.messages = conversation.messages;
+
+  const strip = { render: jest.fn() };
+  const sidebar = { setHasPins: jest.fn() };
+  const renderer = { setMessagePinned: jest.fn() };
+  const plugin = {
+    getConversationSync: jest.fn(() => conversation),
+    updateConversation: jest.fn(async (_id: string, updates: Partial<Conversation>) => {
+      Object.assign(conversation, updates);
+    }),
+  };
+
+  return {
+    plugin: plugin as any,
+    state,
+    renderer: renderer as any,
+    strip,
+    sidebar,
+    getPinnedStrip: () => strip as any,
+    getNavigationSidebar: () => sidebar as any,
+    revealMessage: jest.fn(() => true),
+  };
+}
+
+describe('PinController', () => {
+  let conversation: Conversation;
+  const messages: ChatMessage[] = [
+    { id: 'u1', role: 'user', content: 'Question', timestamp: 1, sdkUserUuid: 'user-1' },
+    { id: 'a1', role: 'assistant', content: 'Answer', timestamp: 2, sdkAssistantUuid: 'asst-1' },
+  ];
+
+  beforeEach(() => {
+    conversation = {
+      id: 'conv-1',
+      title: 'Chat',
+      createdAt: 1,
+      updatedAt: 1,
+      sessionId: null,
+      messages: [...messages],
+    };
+  });
+
+  it('pins a message under its SDK uuid and shows it in the strip and sidebar', async () => {
+    const deps = createDeps(conversation);
+    const controller = new PinController(deps);
+
+    await controller.togglePin('a1');
+
+    expect(deps.plugin.updateConversation).toHaveBeenCalledWith('conv-1', {
+      pins: [expect.objectContaining({ messageKey: 'asst-1' })],
+    });
+    expect(deps.renderer.setMessagePinned).toHaveBeenCalledWith('a1', true);
+    expect(deps.strip.render).toHaveBeenLastCalledWith([expect.objectContaining({ message: messages[1] })]);
+    expect(deps.sidebar.setHasPins).toHaveBeenLastCalledWith(true);
+    expect(controller.isPinned(messages[1])).toBe(true);
+  });
+
+  it('unpins from the strip and clears the message styling', async () => {
+    conversation.pins = [{ messageKey: 'user-1', name: 'Plan', createdAt: 1 }];
+    const deps = createDeps(conversation);
+    const controller = new PinController(deps);
+
+    await controller.unpin('user-1');
+
+    expect(conversation.pins).toEqual([]);
+    expect(deps.renderer.setMessagePinned).toHaveBeenCalledWith('u1', false);
+    expect(deps.sidebar.setHasPins).toHaveBeenLastCalledWith(false);
+  });
+
+  it('renames a pin into a bookmark', async () => {
+    conversation.pins = [{ messageKey: 'user-1', createdAt: 1 }];
+    const controller = new PinController(createDeps(conversation));
+
+    await controller.renamePin('user-1', 'Plan');
+
+    expect(conversation.pins).toEqual([{ messageKey: 'user-1', name: 'Plan', createdAt: 1 }]);
+  });
+
+  it('does nothing without a current conversation', async () => {
+    const deps = createDeps(conversation);
+    deps.state.currentConversationId = null;
+    const controller = new PinController(deps);
+
+    await controller.togglePin('u1');
+
+    expect(deps.plugin.updateConversation).not.toHaveBeenCalled();
+    expect(controller.getPins()).toEqual([]);
+  });
+});
@@ -71,6 +71,11 @@ function createMockDeps(): StreamControllerDeps {
       settings: {
         permissionMode: 'yolo',
       },
+      storage: {
+        invocations: {
+          append: jest.fn().mockResolvedValue(undefined),
+        },
+      },
       app: {
         vault: {
           adapter: {
@@ -97,6 +102,7 @@ function createMockDeps(): StreamControllerDeps {
       renderPendingTask: jest.fn().mockReturnValue(null),
       renderPendingTaskFromTaskResult: jest.fn().mockReturnValue(null),
       getSyncSubagent: jest.fn().mockReturnValue(undefined),
+      getByTaskId: jest.fn().mockReturnValue(undefined),
       addSyncToolCall: jest.fn(),
       updateSyncToolResult: jest.fn(),
       finalizeSyncSubagent: jest.fn().mockReturnValue(null),
@@ -315,6 +321,23 @@ describe('StreamController - Text Content', () => {
 
       expect(deps.state.usage).toBeNull();
     });
+
+    it('should accumulate turn costs into conversation cost', async () => {
+      const msg = createTestMessage();
+      const totals = {
+        inputTokens: 10,
+        outputTokens: 5,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 0.01,
+      };
+
+      await controller.handleStreamChunk({ type: 'cost', cost: { totals, byModel: { sonnet: totals } } }, msg);
+      await controller.handleStreamChunk({ type: 'cost', cost: { totals, byModel: { sonnet: totals } } }, msg);
+
+      expect(deps.state.cost?.totals.inputTokens).toBe(20);
+      expect(deps.state.cost?.byModel.sonnet.outputTokens).toBe(10);
+    });
   });
 
   describe('Tool handling', () => {
@@ -1667,6 +1690,92 @@ describe('StreamController - Text Content', () => {
     });
   });
 
+  describe('Invocation recording', () => {
+    it('records a sync subagent with its type and tool count when it finishes', async () => {
+      const msg = createTestMessage();
+      deps.state.currentConversationId = 'conv-1';
+
+      await controller.handleStreamChunk(
+        { type: 'tool_use', id: 'task-1', name: TOOL_TASK, input: { subagent_type: 'code-reviewer', prompt: 'Review' } },
+        msg
+      );
+
+      const info = {
+        id: 'task-1', description: 'Review', status: 'running', isExpanded: false,
+        toolCalls: [{ id: 'read-1' }, { id: 'grep-1' }],
+      };
+      (deps.subagentManager.getSyncSubagent as jest.Mock).mockReturnValueOnce({ info });
+      (deps.subagentManager.finalizeSyncSubagent as jest.Mock).mockReturnValueOnce({ ...info, status: 'error', result: 'Failed' });
+
+      await controller.handleStreamChunk(
+        { type: 'tool_result', id: 'task-1', content: 'Failed', isError: true },
+        msg
+      );
+
+      expect(deps.plugin.storage.invocations.append).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'agent',
+        name: 'code-reviewer',
+        conversationId: 'conv-1',
+        toolUseId: 'task-1',
+        toolCount: 2,
+        status: 'error',
+        error: 'Failed',
+      }));
+    });
+
+    it('records a skill when its tool result arrives', async () => {
+      const msg = createTestMessage();
+
+      await controller.handleStreamChunk(
+        { type: 'tool_use', id: 'skill-1', name: 'Skill', input: { skill: 'summarize' } },
+        msg
+      );
+      expect(deps.plugin.storage.invocations.append).not.toHaveBeenCalled();
+
+      await controller.handleStreamChunk(
+        { type: 'tool_result', id: 'skill-1', content: 'Launching skill: summarize' },
+        msg
+      );
+
+      expect(deps.plugin.storage.invocations.append).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'skill',
+        name: 'summarize',
+        toolCount: 0,
+        status: 'completed',
+      }));
+    });
+
+    it('records unfinished invocations as cancelled except background subagents', async () => {
+      const msg = createTestMessage();
+      await controller.handleStreamChunk({ type: 'tool_use', id: 'skill-1', name: 'Skill', input: { skill: 'lint' } }, msg);
+      await controller.handleStreamChunk(
+        { type: 'tool_use', id: 'task-1', name: TOOL_TASK, input: { subagent_type: 'researcher', run_in_background: true } },
+        msg
+      );
+      (deps.subagentManager.getByTaskId as jest.Mock).mockImplementation((id: string) => (
+        id === 'task-1' ? { id: 'task-1', status: 'running' } : undefined
+      ));
+
+      controller.cancelPendingInvocations();
+
+      expect(deps.plugin.storage.invocations.append).toHaveBeenCalledTimes(1);
+      expect(deps.plugin.storage.invocations.append).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'skill',
+        name: 'lint',
+        status: 'cancelled',
+      }));
+    });
+
+    it('does not record other tools', async () => {
+      const msg = createTestMessage();
+
+      await controller.handleStreamChunk({ type: 'tool_use', id: 'read-1', name: 'Read', input: { file_path: 'a.md' } }, msg);
+      await controller.handleStreamChunk({ type: 'tool_result', id: 'read-1', content: 'content' }, msg);
+
+      expect(deps.plugin.storage.invocations.append).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Async task tool result', () => {
     it('tool_result for a pending async task returns true from handleAsyncTaskToolResult', async () => {
       const { updateToolCallResult } = jest.requireMock('@/features/chat/rendering');
@@ -0,0 +1,83 @@
+import type { ChatMessage, MessagePin } from '@/core/types';
+import {
+  getForkPins,
+  getPinKey,
+  getPinLabel,
+  renamePin,
+  resolvePins,
+  togglePin,
+} from '@/features/chat/pins';
+
+const messages: ChatMessage[] = [
+  { id: 'u1', role: 'user', content: 'First question', timestamp: 1, sdkUserUuid: 'user-1' },
+  { id: 'a1', role: 'assistant', content: 'First answer', timestamp: 2, sdkAssistantUuid: 'asst-1' },
+  { id: 'u2', role: 'user', content: 'Second question', timestamp: 3 },
+];
+
+describe('getPinKey', () => {
+  it('prefers SDK uuids over message IDs', () => {
+    expect(getPinKey(messages[0])).toBe('user-1');
+    expect(getPinKey(messages[1])).toBe('asst-1');
+    expect(getPinKey(messages[2])).toBe('u2');
+  });
+});
+
+describe('togglePin', () => {
+  it('pins an unpinned message and unpins a pinned one', () => {
+    const pinned = togglePin(undefined, messages[1], 100);
+    expect(pinned).toEqual([{ messageKey: 'asst-1', createdAt: 100 }]);
+
+    expect(togglePin(pinned, messages[1])).toEqual([]);
+  });
+});
+
+describe('renamePin', () => {
+  const pins: MessagePin[] = [{ messageKey: 'user-1', createdAt: 1 }];
+
+  it('names a pin as a bookmark', () => {
+    expect(renamePin(pins, 'user-1', '  Plan ')).toEqual([{ messageKey: 'user-1', name: 'Plan', createdAt: 1 }]);
+  });
+
+  it('clears the name when it is empty', () => {
+    const named = renamePin(pins, 'user-1', 'Plan');
+    expect(renamePin(named, 'user-1', ' ')).toEqual(pins);
+  });
+});
+
+describe('resolvePins', () => {
+  it('orders pins by message position and drops pins of missing messages', () => {
+    const pins: MessagePin[] = [
+      { messageKey: 'u2', createdAt: 1 },
+      { messageKey: 'gone', createdAt: 2 },
+      { messageKey: 'user-1', createdAt: 3 },
+    ];
+
+    expect(resolvePins(pins, messages).map(p => [p.pin.messageKey, p.index])).toEqual([
+      ['user-1', 0],
+      ['u2', 2],
+    ]);
+  });
+});
+
+describe('getForkPins', () => {
+  it('keeps only the pins of messages copied into the fork', () => {
+    const pins: MessagePin[] = [
+      { messageKey: 'user-1', name: 'Start', createdAt: 1 },
+      { messageKey: 'u2', createdAt: 2 },
+    ];
+
+    expect(getForkPins(pins, messages.slice(0, 2))).toEqual([{ messageKey: 'user-1', name: 'Start', createdAt: 1 }]);
+  });
+});
+
+describe('getPinLabel', () => {
+  it('uses the bookmark name, or a preview of the message', () => {
+    const [first] = resolvePins([{ messageKey: 'user-1', name: 'Plan', createdAt: 1 }], messages);
+    expect(getPinLabel(first)).toBe('Plan');
+
+    const long: ChatMessage = { id: 'x', role: 'assistant', content: `${'word '.repeat(20)}\nend`, timestamp: 1 };
+    const [resolved] = resolvePins([{ messageKey: 'x', createdAt: 1 }], [long]);
+    expect(getPinLabel(resolved)).toHaveLength(61);
+    expect(getPinLabel(resolved).endsWith('…')).toBe(true);
+  });
+});
@@ -284,6 +284,104 @@ describe('MessageRenderer', () => {
     expect(rewindCallback).toHaveBeenCalledWith('u1');
   });
 
+  it('adds edit and regenerate buttons for eligible stored turns', () => {
+    const messagesEl = createMockEl();
+    const editCallback = jest.fn().mockResolvedValue(undefined);
+    const regenerateCallback = jest.fn().mockResolvedValue(undefined);
+    const renderer = new MessageRenderer(
+      { app: {}, settings: { mediaFolder: '' } } as any, createMockComponent() as any, messagesEl,
+      undefined, undefined, editCallback, regenerateCallback
+    );
+    jest.spyOn(renderer, 'renderContent').mockResolvedValue(undefined);
+
+    const allMessages: ChatMessage[] = [
+      { id: 'a1', role: 'assistant', content: 'prev', timestamp: 1, sdkAssistantUuid: 'prev-a' },
+      { id: 'u1', role: 'user', content: 'hello', timestamp: 2, sdkUserUuid: 'user-u' },
+      { id: 'a2', role: 'assistant', content: 'resp', timestamp: 3, sdkAssistantUuid: 'resp-a' },
+    ];
+    renderer.renderMessages(allMessages, () => 'Hi');
+
+    messagesEl.querySelector('.claudian-message-edit-btn')!.click();
+    const regenerateBtns = messagesEl.querySelectorAll('.claudian-message-regenerate-btn');
+    expect(regenerateBtns).toHaveLength(1);
+    regenerateBtns[0].click();
+
+    expect(editCallback).toHaveBeenCalledWith('u1');
+    expect(regenerateCallback).toHaveBeenCalledWith('u1');
+  });
+
+  it('adds edit and regenerate, but not rewind, to the first turn', () => {
+    const messagesEl = createMockEl();
+    const rewindCallback = jest.fn().mockResolvedValue(undefined);
+    const editCallback = jest.fn().mockResolvedValue(undefined);
+    const regenerateCallback = jest.fn().mockResolvedValue(undefined);
+    const renderer = new MessageRenderer(
+      { app: {}, settings: { mediaFolder: '' } } as any, createMockComponent() as any, messagesEl,
+      rewindCallback, undefined, editCallback, regenerateCallback
+    );
+    jest.spyOn(renderer, 'renderContent').mockResolvedValue(undefined);
+
+    renderer.renderMessages([
+      { id: 'u1', role: 'user', content: 'hello', timestamp: 1, sdkUserUuid: 'user-u' },
+      { id: 'a1', role: 'assistant', content: 'resp', timestamp: 2, sdkAssistantUuid: 'resp-a' },
+    ], () => 'Hi');
+
+    expect(messagesEl.querySelector('.claudian-message-rewind-btn')).toBeNull();
+    messagesEl.querySelector('.claudian-message-edit-btn')!.click();
+    messagesEl.querySelector('.claudian-message-regenerate-btn')!.click();
+    expect(editCallback).toHaveBeenCalledWith('u1');
+    expect(regenerateCallback).toHaveBeenCalledWith('u1');
+  });
+
+  it('adds the regenerate button to a streamed response via refreshActionButtons', () => {
+    const messagesEl = createMockEl();
+    const regenerateCallback = jest.fn().mockResolvedValue(undefined);
+    const renderer = new MessageRenderer(
+      { app: {}, settings: { mediaFolder: '' } } as any, createMockComponent() as any, messagesEl,
+      undefined, undefined, undefined, regenerateCallback
+    );
+    jest.spyOn(renderer, 'renderContent').mockResolvedValue(undefined);
+
+    const userMsg: ChatMessage = { id: 'u1', role: 'user', content: 'hello', timestamp: 2, sdkUserUuid: 'user-u' };
+    const assistantMsg: ChatMessage = { id: 'a2', role: 'assistant', content: '', timestamp: 3 };
+    renderer.addMessage(userMsg);
+    renderer.addMessage(assistantMsg);
+    expect(messagesEl.querySelector('.claudian-message-regenerate-btn')).toBeNull();
+
+    assistantMsg.sdkAssistantUuid = 'resp-a';
+    const allMessages: ChatMessage[] = [
+      { id: 'a1', role: 'assistant', content: '', timestamp: 1, sdkAssistantUuid: 'prev-a' },
+      userMsg,
+      assistantMsg,
+    ];
+    renderer.refreshActionButtons(userMsg, allMessages, 1);
+
+    messagesEl.querySelector('.claudian-message-regenerate-btn')!.click();
+    expect(regenerateCallback).toHaveBeenCalledWith('u1');
+  });
+
+  it('adds pin buttons and marks pinned messages', () => {
+    const { renderer, messagesEl } = createRenderer();
+    jest.spyOn(renderer, 'renderContent').mockResolvedValue(undefined);
+    const togglePin = jest.fn().mockResolvedValue(undefined);
+    renderer.setPinHandler({ isPinned: (msg) => msg.id === 'a1', togglePin });
+
+    renderer.renderMessages([
+      { id: 'u1', role: 'user', content: 'hello', timestamp: 1 },
+      { id: 'a1', role: 'assistant', content: 'resp', timestamp: 2 },
+    ], () => 'Hi');
+
+    const pinBtns = messagesEl.querySelectorAll('.claudian-message-pin-btn');
+    expect(pinBtns).toHaveLength(2);
+    expect(messagesEl.querySelectorAll('.claudian-message-pinned')).toHaveLength(1);
+
+    pinBtns[0].click();
+    expect(togglePin).toHaveBeenCalledWith('u1');
+
+    renderer.setMessagePinned('a1', false);
+    expect(messagesEl.querySelectorAll('.claudian-message-pinned')).toHaveLength(0);
+  });
+
   // ============================================
   // renderAssistantContent
   // ============================================
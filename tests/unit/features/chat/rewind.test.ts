@@ -1,5 +1,5 @@
 import type { ChatMessage } from '@/core/types';
-import { findRewindContext } from '@/features/chat/rewind';
+import { buildResendPrompt, findRegenerateTarget, findRewindContext } from '@/features/chat/rewind';
 
 describe('findRewindContext', () => {
   it('finds the nearest previous assistant UUID and detects a following response UUID', () => {
@@ -39,6 +39,19 @@ describe('findRewindContext', () => {
     const ctx = findRewindContext(messages, 0);
     expect(ctx.prevAssistantUuid).toBeUndefined();
     expect(ctx.hasResponse).toBe(true);
+    expect(ctx.isFirstTurn).toBe(true);
+  });
+
+  it('does not treat a message after assistants without UUIDs as the first turn', () => {
+    const messages: ChatMessage[] = [
+      { id: 'a0', role: 'assistant', content: 'legacy', timestamp: 1 },
+      { id: 'u1', role: 'user', content: 'user', timestamp: 2, sdkUserUuid: 'user-u' },
+      { id: 'a1', role: 'assistant', content: 'resp', timestamp: 3, sdkAssistantUuid: 'resp-a' },
+    ];
+
+    const ctx = findRewindContext(messages, 1);
+    expect(ctx.prevAssistantUuid).toBeUndefined();
+    expect(ctx.isFirstTurn).toBe(false);
   });
 
   it('returns hasResponse as false when no following assistant UUID exists', () => {
@@ -54,3 +67,53 @@ describe('findRewindContext', () => {
   });
 });
 
+
+describe('findRegenerateTarget', () => {
+  const messages: ChatMessage[] = [
+    { id: 'u1', role: 'user', content: 'first', timestamp: 1 },
+    { id: 'a1', role: 'assistant', content: 'part', timestamp: 2 },
+    { id: 'a2', role: 'assistant', content: 'rest', timestamp: 3 },
+    { id: 'u2', role: 'user', content: 'second', timestamp: 4 },
+    { id: 'i1', role: 'user', content: '', timestamp: 5, isInterrupt: true },
+    { id: 'a3', role: 'assistant', content: 'answer', timestamp: 6 },
+  ];
+
+  it('returns the prompt answered by the last assistant message of a turn', () => {
+    expect(findRegenerateTarget(messages, 2)).toBe(0);
+    expect(findRegenerateTarget(messages, 5)).toBe(3);
+  });
+
+  it('returns -1 for assistant messages followed by more of the same turn', () => {
+    expect(findRegenerateTarget(messages, 1)).toBe(-1);
+  });
+});
+
+describe('buildResendPrompt', () => {
+  const original: ChatMessage = {
+    id: 'u1',
+    role: 'user',
+    content: 'Summarize\n\n<current_note>\nnotes/a.md\n</current_note>',
+    displayContent: 'Summarize',
+    timestamp: 1,
+  };
+
+  it('resends the original prompt when the text is unchanged', () => {
+    expect(buildResendPrompt(original, 'Summarize')).toEqual({
+      prompt: original.content,
+      displayContent: 'Summarize',
+    });
+  });
+
+  it('keeps the appended context for edited text', () => {
+    expect(buildResendPrompt(original, 'Summarize briefly')).toEqual({
+      prompt: 'Summarize briefly\n\n<current_note>\nnotes/a.md\n</current_note>',
+      displayContent: 'Summarize briefly',
+    });
+  });
+
+  it('sends only the edited text when the prompt was rewritten on send', () => {
+    const expanded: ChatMessage = { ...original, content: 'Expanded MCP prompt', displayContent: '/mcp__srv__p' };
+
+    expect(buildResendPrompt(expanded, 'Other').prompt).toBe('Other');
+  });
+});
@@ -0,0 +1,159 @@
+import type { StreamChunk } from '@/core/types';
+import {
+  BranchTranscript,
+  buildBranchMessages,
+  type CompareBranchResult,
+  CompareBranchRunner,
+  getCompareModelOptions,
+} from '@/features/chat/services/CompareService';
+
+const mockQuery = jest.fn();
+const mockGetSessionId = jest.fn();
+const mockCleanup = jest.fn();
+const mockCancel = jest.fn();
+
+jest.mock('@/core/agent', () => ({
+  ClaudianService: jest.fn().mockImplementation(() => ({
+    query: mockQuery,
+    getSessionId: mockGetSessionId,
+    cleanup: mockCleanup,
+    cancel: mockCancel,
+  })),
+}));
+
+async function* streamOf(chunks: StreamChunk[]): AsyncGenerator<StreamChunk> {
+  for (const chunk of chunks) yield chunk;
+}
+
+describe('CompareService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('BranchTranscript', () => {
+    it('collects top-level text and tool calls in order', () => {
+      const transcript = new BranchTranscript();
+      transcript.add({ type: 'text', content: 'Let me ' });
+      transcript.add({ type: 'text', content: 'check.' });
+      transcript.add({ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.md' } });
+      transcript.add({ type: 'tool_result', id: 't1', content: 'contents' });
+      transcript.add({ type: 'text', content: ' Done.' });
+
+      expect(transcript.text).toBe('Let me check. Done.');
+      expect(transcript.contentBlocks).toEqual([
+        { type: 'text', content: 'Let me check.' },
+        { type: 'tool_use', toolId: 't1' },
+        { type: 'text', content: ' Done.' },
+      ]);
+      expect(transcript.toolCalls).toEqual([
+        { id: 't1', name: 'Read', input: { file_path: 'a.md' }, status: 'completed', result: 'contents' },
+      ]);
+    });
+
+    it('ignores subagent chunks', () => {
+      const transcript = new BranchTranscript();
+      transcript.add({ type: 'text', content: 'nested', parentToolUseId: 'task-1' });
+      transcript.add({ type: 'tool_use', id: 't2', name: 'Grep', input: {}, parentToolUseId: 'task-1' });
+
+      expect(transcript.text).toBe('');
+      expect(transcript.toolCalls).toEqual([]);
+    });
+
+    it('keeps the latest usage, cost and error', () => {
+      const transcript = new BranchTranscript();
+      const usage = {
+        inputTokens: 10, cacheCreationInputTokens: 0, cacheReadInputTokens: 0,
+        contextWindow: 200000, contextTokens: 10, percentage: 0,
+      };
+      transcript.add({ type: 'usage', usage });
+      transcript.add({ type: 'error', content: 'Overloaded' });
+
+      expect(transcript.usage).toBe(usage);
+      expect(transcript.error).toBe('Overloaded');
+    });
+  });
+
+  describe('buildBranchMessages', () => {
+    it('builds the user prompt and the assistant reply', () => {
+      let n = 0;
+      const result: CompareBranchResult = {
+        text: 'Answer',
+        toolCalls: [],
+        contentBlocks: [{ type: 'text', content: 'Answer' }],
+        usage: null,
+        cost: null,
+        sessionId: 'fork-1',
+        durationMs: 4200,
+        cancelled: false,
+      };
+
+      const [user, assistant] = buildBranchMessages('Question', result, () => `id-${++n}`, 10_000);
+
+      expect(user).toEqual({ id: 'id-1', role: 'user', content: 'Question', timestamp: 5800 });
+      expect(assistant).toMatchObject({
+        id: 'id-2',
+        role: 'assistant',
+        content: 'Answer',
+        timestamp: 10_000,
+        durationSeconds: 4,
+      });
+    });
+  });
+
+  describe('getCompareModelOptions', () => {
+    it('falls back to the default models', () => {
+      expect(getCompareModelOptions('').map(m => m.value)).toEqual(['haiku', 'sonnet', 'opus']);
+    });
+
+    it('offers custom models from the environment', () => {
+      const values = getCompareModelOptions('ANTHROPIC_MODEL=my-model').map(m => m.value);
+
+      expect(values).toContain('my-model');
+    });
+  });
+
+  describe('CompareBranchRunner', () => {
+    const plugin = { mcpManager: {} } as any;
+    const request = { prompt: 'Hi', sessionId: 'source-1', conversationId: 'conv-1' };
+
+    it('forks the source session with the branch settings', async () => {
+      mockQuery.mockReturnValue(streamOf([{ type: 'text', content: 'Hello' }]));
+      mockGetSessionId.mockReturnValue('fork-1');
+      const chunks: StreamChunk[] = [];
+
+      const result = await new CompareBranchRunner(plugin).run(
+        request,
+        { model: 'opus', thinkingBudget: 'high', envSnippet: { id: 's', name: 'S', description: '', envVars: 'A=1' } },
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith('Hi', undefined, undefined, expect.objectContaining({
+        forceColdStart: true,
+        model: 'opus',
+        thinkingBudget: 'high',
+        environmentVariables: 'A=1',
+        forkFromSessionId: 'source-1',
+        permissionMode: 'normal',
+        disallowedTools: ['Write', 'Edit', 'NotebookEdit', 'Bash', 'BashOutput', 'KillShell'],
+        conversationId: 'conv-1',
+      }));
+      expect(chunks).toEqual([{ type: 'text', content: 'Hello' }]);
+      expect(result).toMatchObject({ text: 'Hello', sessionId: 'fork-1', cancelled: false });
+      expect(mockCleanup).toHaveBeenCalled();
+    });
+
+    it('reports no session when the branch did not get its own', async () => {
+      mockQuery.mockReturnValue(streamOf([{ type: 'error', content: 'Failed' }]));
+      mockGetSessionId.mockReturnValue('source-1');
+
+      const result = await new CompareBranchRunner(plugin).run(
+        request,
+        { model: 'haiku', thinkingBudget: 'off', envSnippet: null },
+        () => {}
+      );
+
+      expect(result.sessionId).toBeNull();
+      expect(result.error).toBe('Failed');
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import type { ChatMessage, Conversation } from '@/core/types';
+import {
+  type ConversationExportOptions,
+  ConversationExportService,
+  renderConversationMarkdown,
+  toExportFileName,
+} from '@/features/chat/services/ConversationExportService';
+
+const DEFAULT_OPTIONS: ConversationExportOptions = {
+  collapseToolCalls: true,
+  includeThinking: false,
+};
+
+function createConversation(messages: ChatMessage[], overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: 'conv-1',
+    title: 'Refactor notes',
+    createdAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+    updatedAt: Date.UTC(2024, 0, 2, 4, 0, 0),
+    sessionId: null,
+    messages,
+    ...overrides,
+  };
+}
+
+function userMsg(content: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id: `u-${content}`, role: 'user', content, timestamp: 0, ...extra };
+}
+
+function assistantMsg(extra: Partial<ChatMessage>): ChatMessage {
+  return { id: 'a-1', role: 'assistant', content: '', timestamp: 0, ...extra };
+}
+
+describe('renderConversationMarkdown', () => {
+  it('writes frontmatter with title, dates, model, and usage', () => {
+    const md = renderConversationMarkdown(createConversation([], {
+      title: 'Say "hi"',
+      usage: {
+        model: 'claude-sonnet-4-5',
+        inputTokens: 10,
+        cacheCreationInputTokens: 2,
+        cacheReadInputTokens: 3,
+        contextWindow: 200000,
+        contextTokens: 15,
+        percentage: 0,
+      },
+    }), DEFAULT_OPTIONS);
+
+    expect(md.startsWith('---\n')).toBe(true);
+    expect(md).toContain('title: "Say \\"hi\\""');
+    expect(md).toContain('createdAt: 2024-01-02T03:04:05.000Z');
+    expect(md).toContain('model: "claude-sonnet-4-5"');
+    expect(md).toContain('usage:\n  inputTokens: 10\n  cacheCreationInputTokens: 2');
+    expect(md).toContain('conversationId: "conv-1"');
+  });
+
+  it('writes cost totals when tracked', () => {
+    const md = renderConversationMarkdown(createConversation([], {
+      cost: {
+        totals: {
+          inputTokens: 10,
+          outputTokens: 20,
+          cacheCreationInputTokens: 0,
+          cacheReadInputTokens: 5,
+          costUsd: 0.0123,
+        },
+        byModel: {},
+        byDay: {},
+      },
+    }), DEFAULT_OPTIONS);
+
+    expect(md).toContain('cost:\n  usd: 0.0123\n  inputTokens: 10\n  outputTokens: 20');
+  });
+
+  it('omits model and usage when unknown', () => {
+    const md = renderConversationMarkdown(createConversation([]), DEFAULT_OPTIONS);
+
+    expect(md).not.toContain('model:');
+    expect(md).not.toContain('usage:');
+    expect(md).not.toContain('cost:');
+  });
+
+  it('renders user display content and skips rebuilt context', () => {
+    const md = renderConversationMarkdown(createConversation([
+      userMsg('expanded prompt', { displayContent: '/review' }),
+      userMsg('history context', { isRebuiltContext: true }),
+    ]), DEFAULT_OPTIONS);
+
+    expect(md).toContain('## User\n\n/review');
+    expect(md).not.toContain('expanded prompt');
+    expect(md).not.toContain('history context');
+  });
+
+  it('renders content blocks in stream order', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{ id: 't1', name: 'Bash', input: { command: 'ls' }, status: 'completed', result: 'a.md' }],
+        contentBlocks: [
+          { type: 'text', content: 'Checking files.' },
+          { type: 'tool_use', toolId: 't1' },
+          { type: 'text', content: 'Done.' },
+        ],
+      }),
+    ]), DEFAULT_OPTIONS);
+
+    const checking = md.indexOf('Checking files.');
+    const tool = md.indexOf('> [!example]- Bash: ls');
+    const done = md.indexOf('Done.');
+    expect(checking).toBeGreaterThan(-1);
+    expect(tool).toBeGreaterThan(checking);
+    expect(done).toBeGreaterThan(tool);
+    expect(md).toContain('> ```bash\n> ls\n> ```');
+  });
+
+  it('renders tool calls as headings when not collapsed', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{ id: 't1', name: 'Grep', input: { pattern: 'TODO' }, status: 'completed' }],
+        contentBlocks: [{ type: 'tool_use', toolId: 't1' }],
+      }),
+    ]), { ...DEFAULT_OPTIONS, collapseToolCalls: false });
+
+    expect(md).toContain('#### Grep: TODO');
+    expect(md).not.toContain('[!example]');
+  });
+
+  it('marks failed tool calls with a failure callout', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{ id: 't1', name: 'Bash', input: { command: 'rm -rf /' }, status: 'blocked' }],
+      }),
+    ]), DEFAULT_OPTIONS);
+
+    expect(md).toContain('> [!failure]- Bash: rm -rf /');
+  });
+
+  it('renders diffs for write/edit tools', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{
+          id: 't1',
+          name: 'Edit',
+          input: { file_path: 'notes/a.md' },
+          status: 'completed',
+          diffData: {
+            filePath: 'notes/a.md',
+            diffLines: [
+              { type: 'equal', text: 'keep' },
+              { type: 'delete', text: 'old' },
+              { type: 'insert', text: 'new' },
+            ],
+            stats: { added: 1, removed: 1 },
+          },
+        }],
+      }),
+    ]), { ...DEFAULT_OPTIONS, collapseToolCalls: false });
+
+    expect(md).toContain('`notes/a.md` (+1 -1)');
+    expect(md).toContain('```diff\n keep\n-old\n+new\n```');
+  });
+
+  it('renders subagents with prompt, nested tools, and result', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{
+          id: 'task-1',
+          name: 'Task',
+          input: { description: 'Explore' },
+          status: 'completed',
+          subagent: {
+            id: 'task-1',
+            description: 'Explore codebase',
+            prompt: 'Find the entry point',
+            isExpanded: false,
+            status: 'completed',
+            result: 'Entry is main.ts',
+            toolCalls: [{ id: 'n1', name: 'Glob', input: { pattern: '*.ts' }, status: 'completed' }],
+          },
+        }],
+        contentBlocks: [{ type: 'subagent', subagentId: 'task-1' }],
+      }),
+    ]), DEFAULT_OPTIONS);
+
+    expect(md).toContain('> [!quote]- Subagent: Explore codebase');
+    expect(md).toContain('> Find the entry point');
+    expect(md).toContain('> > [!example]- Glob: *.ts');
+    expect(md).toContain('> Entry is main.ts');
+  });
+
+  it('leaves out thinking unless enabled', () => {
+    const conversation = createConversation([
+      assistantMsg({
+        contentBlocks: [
+          { type: 'thinking', content: 'Let me consider', durationSeconds: 5 },
+          { type: 'text', content: 'Answer' },
+        ],
+      }),
+    ]);
+
+    expect(renderConversationMarkdown(conversation, DEFAULT_OPTIONS)).not.toContain('Let me consider');
+    expect(renderConversationMarkdown(conversation, { ...DEFAULT_OPTIONS, includeThinking: true }))
+      .toContain('> [!note]- Thinking (5s)\n> Let me consider');
+  });
+
+  it('skips TaskOutput tool calls', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        content: 'Waiting',
+        toolCalls: [{ id: 't1', name: 'TaskOutput', input: { task_id: 'x' }, status: 'completed' }],
+      }),
+    ]), DEFAULT_OPTIONS);
+
+    expect(md).not.toContain('TaskOutput');
+  });
+
+  it('uses a longer fence when results contain backticks', () => {
+    const md = renderConversationMarkdown(createConversation([
+      assistantMsg({
+        toolCalls: [{ id: 't1', name: 'Read', input: {}, status: 'completed', result: '```js\ncode\n```' }],
+      }),
+    ]), { ...DEFAULT_OPTIONS, collapseToolCalls: false });
+
+    expect(md).toContain('````\n```js\ncode\n```\n````');
+  });
+});
+
+describe('toExportFileName', () => {
+  it('strips characters not allowed in note names', () => {
+    expect(toExportFileName('Fix: a/b [draft] #1?')).toBe('Fix a b draft 1');
+  });
+
+  it('falls back when nothing is left', () => {
+    expect(toExportFileName('///')).toBe('Conversation');
+  });
+});
+
+describe('ConversationExportService', () => {
+  function createMockPlugin(conversation: Conversation | null, existing: string[] = []) {
+    const files = new Set(existing);
+    return {
+      settings: {
+        exportFolder: 'Archive/Chats',
+        exportCollapseToolCalls: true,
+        exportIncludeThinking: false,
+      },
+      app: {
+        vault: {
+          getAbstractFileByPath: jest.fn((path: string) => (files.has(path) ? { path } : null)),
+          createFolder: jest.fn(async (path: string) => { files.add(path); }),
+          create: jest.fn(async (path: string) => { files.add(path); return { path }; }),
+        },
+      },
+      getConversationById: jest.fn().mockResolvedValue(conversation),
+    } as any;
+  }
+
+  it('creates missing folders and writes the note', async () => {
+    const plugin = createMockPlugin(createConversation([userMsg('hello')]), ['Archive']);
+    const service = new ConversationExportService(plugin);
+
+    const path = await service.exportConversation('conv-1');
+
+    expect(path).toBe('Archive/Chats/Refactor notes.md');
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledTimes(1);
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith('Archive/Chats');
+    expect(plugin.app.vault.create).toHaveBeenCalledWith(path, expect.stringContaining('## User\n\nhello'));
+  });
+
+  it('does not overwrite existing notes', async () => {
+    const plugin = createMockPlugin(createConversation([]), [
+      'Archive',
+      'Archive/Chats',
+      'Archive/Chats/Refactor notes.md',
+      'Archive/Chats/Refactor notes 1.md',
+    ]);
+    const service = new ConversationExportService(plugin);
+
+    expect(await service.exportConversation('conv-1')).toBe('Archive/Chats/Refactor notes 2.md');
+  });
+
+  it('writes to vault root when no folder is configured', async () => {
+    const plugin = createMockPlugin(createConversation([]));
+    plugin.settings.exportFolder = '';
+    const service = new ConversationExportService(plugin);
+
+    expect(await service.exportConversation('conv-1')).toBe('Refactor notes.md');
+    expect(plugin.app.vault.createFolder).not.toHaveBeenCalled();
+  });
+
+  it('throws when the conversation does not exist', async () => {
+    const service = new ConversationExportService(createMockPlugin(null));
+
+    await expect(service.exportConversation('missing')).rejects.toThrow('Conversation not found');
+  });
+});
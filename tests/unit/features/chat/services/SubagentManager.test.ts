@@ -245,6 +245,28 @@ describe('SubagentManager', () => {
       expect(manager.getByTaskId('running-task')).toBeUndefined();
     });
 
+    it('reports background subagents until they finish', () => {
+      const { manager } = createManager();
+      const parentEl = createMockEl();
+      expect(manager.hasActiveAsyncSubagents()).toBe(false);
+
+      manager.handleTaskToolUse('task-bg', { description: 'Background', run_in_background: true }, parentEl);
+      expect(manager.hasActiveAsyncSubagents()).toBe(true);
+
+      manager.handleTaskToolResult('task-bg', JSON.stringify({ agent_id: 'agent-bg' }));
+      expect(manager.hasActiveAsyncSubagents()).toBe(true);
+
+      manager.handleAgentOutputToolUse({
+        id: 'output-bg',
+        name: 'AgentOutputTool',
+        input: { agent_id: 'agent-bg' },
+        status: 'running',
+        isExpanded: false,
+      });
+      manager.handleAgentOutputToolResult('output-bg', 'agent crashed', true);
+      expect(manager.hasActiveAsyncSubagents()).toBe(false);
+    });
+
     it('ignores Task results for unknown tasks', () => {
       const { manager } = createManager();
 
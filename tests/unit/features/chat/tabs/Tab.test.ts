@@ -136,6 +136,9 @@ const createMockExternalContextSelector = () => ({
 
 const createMockMcpServerSelector = () => ({
   setMcpManager: jest.fn(),
+  setOnRestart: jest.fn(),
+  setOnBrowseResources: jest.fn(),
+  refreshHealth: jest.fn(),
   addMentionedServers: jest.fn(),
 });
 
@@ -154,7 +157,7 @@ let mockContextUsageMeter: ReturnType<typeof createMockContextUsageMeter>;
 let mockExternalContextSelector: ReturnType<typeof createMockExternalContextSelector>;
 let mockMcpServerSelector: ReturnType<typeof createMockMcpServerSelector>;
 let mockPermissionToggle: ReturnType<typeof createMockPermissionToggle>;
-let mockMessageRenderer: { scrollToBottomIfNeeded: jest.Mock; setAsyncSubagentClickCallback: jest.Mock };
+let mockMessageRenderer: { scrollToBottomIfNeeded: jest.Mock; setAsyncSubagentClickCallback: jest.Mock; setPinHandler: jest.Mock };
 let mockSelectionController: ReturnType<typeof createMockSelectionController>;
 let mockCanvasSelectionController: ReturnType<typeof createMockCanvasSelectionController>;
 let mockStreamController: { onAsyncSubagentStateChange: jest.Mock };
@@ -203,6 +206,7 @@ jest.mock('@/features/chat/ui', () => ({
     mockStatusPanel = createMockStatusPanel();
     return mockStatusPanel;
   }),
+  PinnedStrip: jest.fn().mockImplementation(() => ({ render: jest.fn() })),
   createInputToolbar: jest.fn().mockImplementation(() => {
     mockModelSelector = createMockModelSelector();
     mockThinkingBudgetSelector = createMockThinkingBudgetSelector();
@@ -234,6 +238,7 @@ jest.mock('@/features/chat/rendering', () => ({
     mockMessageRenderer = {
       scrollToBottomIfNeeded: jest.fn(),
       setAsyncSubagentClickCallback: jest.fn(),
+      setPinHandler: jest.fn(),
     };
     return mockMessageRenderer;
   }),
@@ -266,6 +271,11 @@ jest.mock('@/features/chat/controllers', () => ({
     mockNavigationController = { initialize: jest.fn(), dispose: jest.fn() };
     return mockNavigationController;
   }),
+  PinController: jest.fn().mockImplementation(() => ({
+    isPinned: jest.fn().mockReturnValue(false),
+    togglePin: jest.fn().mockResolvedValue(undefined),
+    refresh: jest.fn(),
+  })),
 }));
 
 // Mock services
@@ -315,12 +325,17 @@ function createMockPlugin(overrides: Record<string, any> = {}): any {
       },
       persistentExternalContextPaths: [],
     },
-    mcpManager: { getMcpServers: jest.fn().mockReturnValue([]) },
+    mcpManager: {
+      getMcpServers: jest.fn().mockReturnValue([]),
+      onHealthChange: jest.fn().mockReturnValue(() => {}),
+      addSessionStatusSource: jest.fn().mockReturnValue(() => {}),
+    },
     agentManager: { searchAgents: jest.fn().mockReturnValue([]) },
     getConversationById: jest.fn().mockResolvedValue(null),
     getConversationSync: jest.fn().mockReturnValue(null),
     saveSettings: jest.fn().mockResolvedValue(undefined),
     getActiveEnvironmentVariables: jest.fn().mockReturnValue({}),
+    getHiddenSlashCommands: jest.fn().mockReturnValue(new Set()),
     ...overrides,
   };
 }
@@ -996,6 +1011,22 @@ describe('Tab - Controller Initialization', () => {
       expect(mockNavigationController.initialize).toHaveBeenCalled();
     });
 
+    it('should create PinController and wire it to the renderer pin buttons', () => {
+      const options = createMockOptions();
+      const tab = createTab(options);
+      const mockComponent = {} as any;
+
+      initializeTabUI(tab, options.plugin);
+      initializeTabControllers(tab, options.plugin, mockComponent, options.mcpManager);
+
+      expect(tab.ui.pinnedStrip).toBeDefined();
+      expect(tab.controllers.pinController).toBeDefined();
+      expect(mockMessageRenderer.setPinHandler).toHaveBeenCalledWith(expect.objectContaining({
+        isPinned: expect.any(Function),
+        togglePin: expect.any(Function),
+      }));
+    });
+
     it('should update SubagentManager with StreamController callback', () => {
       const options = createMockOptions();
       const tab = createTab(options);
@@ -2134,6 +2165,7 @@ describe('Tab - handleForkRequest', () => {
     expect(forkRequestCallback).toHaveBeenCalledWith(expect.objectContaining({
       sourceSessionId: 'session-abc',
       resumeAt: 'asst-1', // prev assistant UUID before u2
+      sourceConversationId: 'conv-1',
       sourceTitle: 'My Conversation',
       currentNote: 'notes/test.md',
       forkAtUserMessage: 2, // u2 is the 2nd user message
@@ -22,6 +22,7 @@ function createTabBarItem(overrides: Partial<TabBarItem> = {}): TabBarItem {
     isStreaming: false,
     needsAttention: false,
     canClose: true,
+    isHibernated: false,
     ...overrides,
   };
 }
@@ -174,6 +175,47 @@ describe('TabBar', () => {
       expect(containerEl._children[0]._classList.has('claudian-tab-badge-active')).toBe(true);
       expect(containerEl._children[0]._classList.has('claudian-tab-badge-streaming')).toBe(false);
     });
+
+    it('should apply hibernated class and tooltip for hibernated tab', () => {
+      const containerEl = createMockEl();
+      const callbacks = createMockCallbacks();
+      const tabBar = new TabBar(containerEl, callbacks);
+
+      tabBar.update([createTabBarItem({ title: 'Old chat', isHibernated: true })]);
+
+      expect(containerEl._children[0]._classList.has('claudian-tab-badge-hibernated')).toBe(true);
+      expect(containerEl._children[0].getAttribute('title')).toBe('Old chat · Hibernated');
+    });
+  });
+
+  describe('memory usage', () => {
+    it('should show tab memory in the tooltip and the total after the badges', () => {
+      const containerEl = createMockEl();
+      const callbacks = createMockCallbacks();
+      const tabBar = new TabBar(containerEl, callbacks);
+
+      tabBar.update([
+        createTabBarItem({ id: 'tab-1', title: 'First', memoryBytes: 100 * 1024 * 1024 }),
+        createTabBarItem({ id: 'tab-2', index: 2, memoryBytes: 50 * 1024 * 1024 }),
+        createTabBarItem({ id: 'tab-3', index: 3, isHibernated: true }),
+      ]);
+
+      expect(containerEl._children[0].getAttribute('title')).toBe('First · 100 MB');
+      const memoryEl = containerEl._children[3];
+      expect(memoryEl._classList.has('claudian-tab-memory')).toBe(true);
+      expect(memoryEl.textContent).toBe('150 MB');
+      expect(memoryEl.getAttribute('title')).toBe('Memory used by 2 running tab(s), 1 hibernated');
+    });
+
+    it('should not show a total when no memory is known', () => {
+      const containerEl = createMockEl();
+      const callbacks = createMockCallbacks();
+      const tabBar = new TabBar(containerEl, callbacks);
+
+      tabBar.update([createTabBarItem()]);
+
+      expect(containerEl._children.length).toBe(1);
+    });
   });
 
   describe('badge interactions', () => {
@@ -1,5 +1,7 @@
 import { createMockEl } from '@test/helpers/mockElement';
 
+import { DryRunStaging } from '@/core/dryrun';
+import { ConversationController } from '@/features/chat/controllers/ConversationController';
 import { TabManager } from '@/features/chat/tabs/TabManager';
 import {
   DEFAULT_MAX_TABS,
@@ -32,11 +34,21 @@ jest.mock('@/features/chat/tabs/Tab', () => ({
   setupApprovalCallback: (...args: any[]) => mockSetupApprovalCallback(...args),
 }));
 
+const mockGetProcessMemory = jest.fn().mockResolvedValue(new Map());
+jest.mock('@/utils/processMemory', () => ({
+  getProcessMemory: (...args: any[]) => mockGetProcessMemory(...args),
+}));
+
 const mockChooseForkTarget = jest.fn();
 jest.mock('@/shared/modals/ForkTargetModal', () => ({
   chooseForkTarget: (...args: any[]) => mockChooseForkTarget(...args),
 }));
 
+const mockChooseStagedChangesAction = jest.fn();
+jest.mock('@/shared/modals/StagedChangesModal', () => ({
+  chooseStagedChangesAction: (...args: any[]) => mockChooseStagedChangesAction(...args),
+}));
+
 function createMockPlugin(overrides: Record<string, any> = {}): any {
   return {
     app: {
@@ -50,6 +62,7 @@ function createMockPlugin(overrides: Record<string, any> = {}): any {
     },
     getConversationById: jest.fn().mockResolvedValue(null),
     getConversationList: jest.fn().mockReturnValue([]),
+    getConversationSync: jest.fn().mockReturnValue(null),
     findConversationAcrossViews: jest.fn().mockReturnValue(null),
     ...overrides,
   };
@@ -77,6 +90,7 @@ function createMockTabData(overrides: Record<string, any> = {}): any {
   const defaultControllers = {
     conversationController: {
       save: jest.fn().mockResolvedValue(undefined),
+      settleStagedChanges: jest.fn().mockResolvedValue(true),
       switchTo: jest.fn().mockResolvedValue(undefined),
       initializeWelcome: jest.fn(),
     },
@@ -93,6 +107,8 @@ function createMockTabData(overrides: Record<string, any> = {}): any {
     conversationId: null,
     service: null,
     serviceInitialized: false,
+    lastActiveAt: 0,
+    hibernated: false,
     state: {
       ...defaultState,
       ...(stateOverrides || {}),
@@ -101,6 +117,9 @@ function createMockTabData(overrides: Record<string, any> = {}): any {
       ...defaultControllers,
       ...(controllersOverrides || {}),
     },
+    services: {
+      subagentManager: { hasActiveAsyncSubagents: jest.fn().mockReturnValue(false) },
+    },
     dom: {
       contentEl: createMockEl(),
     },
@@ -359,6 +378,40 @@ describe('TabManager - Tab Lifecycle', () => {
       expect(mockSave).toHaveBeenCalled();
     });
 
+    it('should keep the tab and its staged changes when the user stays', async () => {
+      const staging = new DryRunStaging({
+        getCwd: () => '/vault',
+        readFile: async () => 'old',
+        writeFile: async () => {},
+        removeFile: async () => {},
+        createShadowDir: async () => '/tmp/shadow',
+      });
+      await staging.stage('Write', { file_path: '/vault/note.md', content: 'new' });
+      const plugin = createMockPlugin();
+      const tabWithChanges = createMockTabData({ id: 'tab-with-changes' });
+      tabWithChanges.controllers.conversationController = Object.assign(
+        new ConversationController({
+          plugin,
+          getAgentService: () => ({ getDryRunStaging: () => staging }),
+          clearDryRunReview: jest.fn(),
+        } as any),
+        { save: jest.fn().mockResolvedValue(undefined), initializeWelcome: jest.fn() }
+      );
+      mockCreateTab.mockReturnValueOnce(tabWithChanges);
+      mockChooseStagedChangesAction.mockResolvedValue(null);
+
+      const manager = createManager({ plugin, callbacks });
+      await manager.createTab();
+      await manager.createTab();
+
+      await expect(manager.closeTab('tab-with-changes')).resolves.toBe(false);
+
+      expect(mockChooseStagedChangesAction).toHaveBeenCalledWith(plugin.app, 1);
+      expect(manager.getTab('tab-with-changes')).toBe(tabWithChanges);
+      expect(mockDestroyTab).not.toHaveBeenCalled();
+      expect(staging.getChanges()).toHaveLength(1);
+    });
+
     it('should switch to next tab when closing first tab', async () => {
       const manager = createManager({ callbacks });
 
@@ -741,6 +794,175 @@ describe('TabManager - Broadcast', () => {
   });
 });
 
+describe('TabManager - Hibernation', () => {
+  const MINUTE = 60 * 1000;
+  let manager: TabManager;
+  let callbacks: TabManagerCallbacks;
+
+  function createMockService(pid: number): any {
+    let running = true;
+    return {
+      isReady: jest.fn(() => running),
+      closePersistentQuery: jest.fn(() => { running = false; }),
+      ensureReady: jest.fn(async () => { running = true; return true; }),
+      getSessionId: jest.fn().mockReturnValue(`session-${pid}`),
+      getProcessId: jest.fn(() => (running ? pid : null)),
+    };
+  }
+
+  beforeEach(async () => {
+    callbacks = { onTabResourcesChanged: jest.fn() };
+    manager = createManager({
+      plugin: createMockPlugin({ settings: { maxTabs: DEFAULT_MAX_TABS, tabHibernationMinutes: 15 } }),
+      callbacks,
+      tabFactory: (n) => createMockTabData({
+        id: `tab-${n}`,
+        service: createMockService(100 + n),
+        serviceInitialized: true,
+      }),
+    });
+    await manager.createTab();
+    await manager.createTab();
+  });
+
+  afterEach(async () => {
+    await manager.destroy();
+  });
+
+  describe('hibernateIdleTabs', () => {
+    it('should close the query of background tabs idle past the setting', () => {
+      const background = manager.getTab('tab-1')!;
+      const now = background.lastActiveAt + 15 * MINUTE;
+
+      expect(manager.hibernateIdleTabs(now)).toEqual(['tab-1']);
+      expect(background.service!.closePersistentQuery).toHaveBeenCalledWith('hibernated');
+      expect(background.hibernated).toBe(true);
+      expect(manager.getTab('tab-2')!.service!.closePersistentQuery).not.toHaveBeenCalled();
+      expect(callbacks.onTabResourcesChanged).toHaveBeenCalled();
+    });
+
+    it('should keep tabs idle for less than the setting', () => {
+      const background = manager.getTab('tab-1')!;
+
+      expect(manager.hibernateIdleTabs(background.lastActiveAt + 14 * MINUTE)).toEqual([]);
+      expect(background.hibernated).toBe(false);
+    });
+
+    it('should keep streaming tabs and tabs waiting for approval', () => {
+      const background = manager.getTab('tab-1')!;
+      const now = background.lastActiveAt + 60 * MINUTE;
+
+      background.state.isStreaming = true;
+      expect(manager.hibernateIdleTabs(now)).toEqual([]);
+
+      background.state.isStreaming = false;
+      background.state.needsAttention = true;
+      expect(manager.hibernateIdleTabs(now)).toEqual([]);
+    });
+
+    it('should keep tabs with background subagents still running', () => {
+      const background = manager.getTab('tab-1')!;
+      (background.services.subagentManager.hasActiveAsyncSubagents as jest.Mock).mockReturnValue(true);
+
+      expect(manager.hibernateIdleTabs(background.lastActiveAt + 60 * MINUTE)).toEqual([]);
+      expect(background.service!.closePersistentQuery).not.toHaveBeenCalled();
+      expect(background.hibernated).toBe(false);
+    });
+
+    it('should do nothing when hibernation is turned off', async () => {
+      await manager.destroy();
+      manager = createManager({
+        plugin: createMockPlugin({ settings: { maxTabs: DEFAULT_MAX_TABS, tabHibernationMinutes: 0 } }),
+        tabFactory: (n) => createMockTabData({ id: `tab-${n}`, service: createMockService(n) }),
+      });
+      await manager.createTab();
+      await manager.createTab();
+
+      expect(manager.hibernateIdleTabs(Date.now() + 24 * 60 * MINUTE)).toEqual([]);
+    });
+
+    it('should show hibernated tabs in the tab bar items', () => {
+      const background = manager.getTab('tab-1')!;
+      manager.hibernateIdleTabs(background.lastActiveAt + 15 * MINUTE);
+
+      const items = manager.getTabBarItems();
+
+      expect(items.map(item => item.isHibernated)).toEqual([true, false]);
+    });
+  });
+
+  describe('waking', () => {
+    it('should resume the stored session when a hibernated tab is focused', async () => {
+      const background = manager.getTab('tab-1')!;
+      manager.hibernateIdleTabs(background.lastActiveAt + 15 * MINUTE);
+
+      await manager.switchToTab('tab-1');
+
+      expect(background.hibernated).toBe(false);
+      expect(background.service!.ensureReady).toHaveBeenCalledWith({ sessionId: 'session-101' });
+    });
+
+    it('should not restart running tabs on focus', async () => {
+      await manager.switchToTab('tab-1');
+
+      expect(manager.getTab('tab-1')!.service!.ensureReady).not.toHaveBeenCalled();
+    });
+
+    it('should skip hibernated tabs when broadcasting', async () => {
+      const background = manager.getTab('tab-1')!;
+      manager.hibernateIdleTabs(background.lastActiveAt + 15 * MINUTE);
+      const broadcastFn = jest.fn().mockResolvedValue(undefined);
+
+      await manager.broadcastToAllTabs(broadcastFn);
+
+      expect(broadcastFn).toHaveBeenCalledTimes(1);
+      expect(broadcastFn).toHaveBeenCalledWith(manager.getTab('tab-2')!.service);
+    });
+  });
+
+  describe('refreshMemoryUsage', () => {
+    it('should report the memory of running tab processes', async () => {
+      mockGetProcessMemory.mockResolvedValueOnce(new Map([[101, 1000], [102, 2000]]));
+
+      await manager.refreshMemoryUsage();
+
+      expect(mockGetProcessMemory).toHaveBeenCalledWith([101, 102]);
+      expect(manager.getTabBarItems().map(item => item.memoryBytes)).toEqual([1000, 2000]);
+      expect(callbacks.onTabResourcesChanged).toHaveBeenCalled();
+    });
+
+    it('should leave out hibernated tabs', async () => {
+      const background = manager.getTab('tab-1')!;
+      manager.hibernateIdleTabs(background.lastActiveAt + 15 * MINUTE);
+      mockGetProcessMemory.mockResolvedValueOnce(new Map([[102, 2000]]));
+
+      await manager.refreshMemoryUsage();
+
+      expect(mockGetProcessMemory).toHaveBeenCalledWith([102]);
+      expect(manager.getTabBarItems().map(item => item.memoryBytes)).toEqual([undefined, 2000]);
+    });
+  });
+
+  describe('startResourceMonitor', () => {
+    it('should check for idle tabs periodically until destroyed', async () => {
+      jest.useFakeTimers();
+      try {
+        const spy = jest.spyOn(manager, 'hibernateIdleTabs');
+
+        manager.startResourceMonitor();
+        jest.advanceTimersByTime(2 * MINUTE);
+        expect(spy).toHaveBeenCalledTimes(2);
+
+        manager.stopResourceMonitor();
+        jest.advanceTimersByTime(2 * MINUTE);
+        expect(spy).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
+
 describe('TabManager - Cleanup', () => {
   let manager: TabManager;
 
@@ -1128,6 +1350,7 @@ describe('TabManager - forkInCurrentTab', () => {
         controllers: {
           conversationController: {
             save: jest.fn().mockResolvedValue(undefined),
+            settleStagedChanges: jest.fn().mockResolvedValue(true),
             switchTo: mockSwitchTo,
             initializeWelcome: jest.fn(),
           },
@@ -1199,6 +1422,7 @@ describe('TabManager - forkInCurrentTab', () => {
         controllers: {
           conversationController: {
             save: jest.fn().mockResolvedValue(undefined),
+            settleStagedChanges: jest.fn().mockResolvedValue(true),
             switchTo: mockSwitchTo,
             initializeWelcome: jest.fn(),
           },
@@ -1428,6 +1652,7 @@ describe('TabManager - handleForkRequest (modal dispatch)', () => {
         controllers: {
           conversationController: {
             save: jest.fn().mockResolvedValue(undefined),
+            settleStagedChanges: jest.fn().mockResolvedValue(true),
             switchTo: mockSwitchTo,
             initializeWelcome: jest.fn(),
           },
@@ -1572,6 +1797,65 @@ describe('TabManager - createForkConversation', () => {
     }));
   });
 
+  it('should record the source conversation as forkedFrom', async () => {
+    const mockCreateConversation = jest.fn().mockResolvedValue({ id: 'fork-conv-1' });
+    const mockUpdateConversation = jest.fn().mockResolvedValue(undefined);
+
+    const plugin = createMockPlugin({
+      createConversation: mockCreateConversation,
+      updateConversation: mockUpdateConversation,
+    });
+
+    const manager = createManager({ plugin });
+    await manager.createTab();
+
+    await manager.forkToNewTab({
+      messages: [],
+      sourceSessionId: 'session-abc',
+      resumeAt: 'asst-uuid-xyz',
+      sourceConversationId: 'conv-source',
+      forkAtUserMessage: 2,
+    });
+
+    expect(mockUpdateConversation).toHaveBeenCalledWith('fork-conv-1', expect.objectContaining({
+      forkedFrom: {
+        conversationId: 'conv-source',
+        sessionId: 'session-abc',
+        resumeAt: 'asst-uuid-xyz',
+        atUserMessage: 2,
+      },
+    }));
+  });
+
+  it('should carry over pins of the copied messages', async () => {
+    const mockCreateConversation = jest.fn().mockResolvedValue({ id: 'fork-conv-1' });
+    const mockUpdateConversation = jest.fn().mockResolvedValue(undefined);
+    const sourcePins = [
+      { messageKey: 'user-uuid-1', name: 'Plan', createdAt: 1 },
+      { messageKey: 'user-uuid-2', createdAt: 2 },
+    ];
+
+    const plugin = createMockPlugin({
+      createConversation: mockCreateConversation,
+      updateConversation: mockUpdateConversation,
+      getConversationSync: jest.fn((id: string) => (id === 'conv-source' ? { id, pins: sourcePins } : null)),
+    });
+
+    const manager = createManager({ plugin });
+    await manager.createTab();
+
+    await manager.forkToNewTab({
+      messages: [{ id: 'msg-1', role: 'user', content: 'hello', timestamp: 1, sdkUserUuid: 'user-uuid-1' }] as any,
+      sourceSessionId: 'session-abc',
+      resumeAt: 'asst-uuid-xyz',
+      sourceConversationId: 'conv-source',
+    });
+
+    expect(mockUpdateConversation).toHaveBeenCalledWith('fork-conv-1', expect.objectContaining({
+      pins: [{ messageKey: 'user-uuid-1', name: 'Plan', createdAt: 1 }],
+    }));
+  });
+
   it('should not set title when sourceTitle is undefined', async () => {
     const mockCreateConversation = jest.fn().mockResolvedValue({ id: 'fork-conv-1' });
     const mockUpdateConversation = jest.fn().mockResolvedValue(undefined);
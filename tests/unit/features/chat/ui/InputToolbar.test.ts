@@ -1,7 +1,8 @@
 import { createMockEl } from '@test/helpers/mockElement';
 
-import type { UsageInfo } from '@/core/types';
+import type { McpServerHealth, UsageInfo } from '@/core/types';
 import {
+  BudgetIndicator,
   ContextUsageMeter,
   createInputToolbar,
   McpServerSelector,
@@ -276,6 +277,24 @@ describe('PermissionToggle', () => {
     expect(toggle?.style.display).toBe('none');
   });
 
+  it('should show DRY RUN label and leave dry run on label click', async () => {
+    callbacks.getSettings.mockReturnValue({
+      model: 'sonnet',
+      thinkingBudget: 'low',
+      permissionMode: 'dry-run',
+    });
+    const parentEl2 = createMockEl();
+    new PermissionToggle(parentEl2, callbacks);
+
+    const label = parentEl2.querySelector('.claudian-permission-label');
+    expect(label?.textContent).toBe('DRY RUN');
+    expect(label?.hasClass('dry-run-active')).toBe(true);
+    expect(parentEl2.querySelector('.claudian-toggle-switch')?.style.display).toBe('none');
+
+    await label?.dispatchEvent('click');
+    expect(callbacks.onPermissionModeChange).toHaveBeenCalledWith('normal');
+  });
+
   it('should add active class when in yolo mode', () => {
     callbacks.getSettings.mockReturnValue({
       model: 'sonnet',
@@ -328,6 +347,7 @@ describe('McpServerSelector', () => {
           contextSaving: s.contextSaving ?? false,
         }))
       ),
+      getServerHealth: jest.fn(),
     } as any;
   }
 
@@ -561,13 +581,126 @@ describe('ContextUsageMeter', () => {
     const container = parentEl.querySelector('.claudian-context-meter');
     expect(container?.getAttribute('data-tooltip')).toBe('160k / 200k');
   });
+
+  it('should append conversation cost to tooltip', () => {
+    meter.update(makeUsage({ contextTokens: 50000, contextWindow: 200000, percentage: 25 }));
+    meter.setCost({
+      totals: {
+        inputTokens: 1200,
+        outputTokens: 300,
+        cacheCreationInputTokens: 1000,
+        cacheReadInputTokens: 4000,
+        costUsd: 0.125,
+      },
+      byModel: {},
+      byDay: {},
+    });
+    const container = parentEl.querySelector('.claudian-context-meter');
+    expect(container?.getAttribute('data-tooltip')).toBe('50k / 200k\nSession: $0.13 · 1.2k in · 300 out · 5.0k cache');
+
+    meter.setCost(null);
+    expect(container?.getAttribute('data-tooltip')).toBe('50k / 200k');
+  });
+});
+
+describe('McpServerSelector - tool selection', () => {
+  let parentEl: any;
+  let selector: McpServerSelector;
+  const tools = [
+    {
+      name: 'search',
+      description: 'Search the docs',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+    },
+    { name: 'delete' },
+    { name: 'admin' },
+  ];
+  const mousedown = (el: any) => el._eventListeners.get('mousedown')[0]({ preventDefault: jest.fn(), stopPropagation: jest.fn() });
+
+  function createMockMcpManager(listTools = jest.fn().mockResolvedValue({ success: true, tools })) {
+    let cached: typeof tools | null = null;
+    return {
+      getServers: jest.fn().mockReturnValue([
+        { name: 'docs', enabled: true, contextSaving: false, disabledTools: ['admin'] },
+      ]),
+      getServerHealth: jest.fn(),
+      getCachedTools: jest.fn(() => cached),
+      listTools: jest.fn(async (name: string) => {
+        const result = await listTools(name);
+        if (result.success) cached = result.tools;
+        return result;
+      }),
+    } as any;
+  }
+
+  async function expandTools(manager: any) {
+    selector.setMcpManager(manager);
+    mousedown(parentEl.querySelector('.claudian-mcp-selector-tools-toggle'));
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+
+  beforeEach(() => {
+    parentEl = createMockEl();
+    selector = new McpServerSelector(parentEl);
+  });
+
+  it('lists tools with descriptions and parameters, skipping tools disabled in settings', async () => {
+    await expandTools(createMockMcpManager());
+
+    const names = parentEl.querySelectorAll('.claudian-mcp-selector-tool-name').map((el: any) => el.textContent);
+    expect(names).toEqual(['search', 'delete']);
+    expect(parentEl.querySelector('.claudian-mcp-selector-tool-desc')?.textContent).toBe('Search the docs');
+    expect(parentEl.querySelector('.claudian-mcp-selector-tool-param-name')?.textContent).toBe('query*');
+    expect(parentEl.querySelector('.claudian-mcp-selector-tool-param-type')?.textContent).toBe('string');
+  });
+
+  it('narrows the selection per tool and drops it once every tool is enabled', async () => {
+    await expandTools(createMockMcpManager());
+
+    mousedown(parentEl.querySelectorAll('.claudian-mcp-selector-tool')[1]);
+    expect(selector.getToolSelection()).toEqual({ docs: ['search'] });
+    expect(parentEl.querySelector('.claudian-mcp-selector-tools-toggle')?.hasClass('narrowed')).toBe(true);
+
+    mousedown(parentEl.querySelectorAll('.claudian-mcp-selector-tool')[1]);
+    expect(selector.getToolSelection()).toEqual({});
+  });
+
+  it('selects none or all tools at once', async () => {
+    await expandTools(createMockMcpManager());
+
+    const [all, none] = parentEl.querySelectorAll('.claudian-mcp-selector-tools-action');
+    mousedown(none);
+    expect(selector.getToolSelection()).toEqual({ docs: [] });
+    mousedown(parentEl.querySelectorAll('.claudian-mcp-selector-tools-action')[0]);
+    expect(selector.getToolSelection()).toEqual({});
+    expect(all.textContent).toBe('All');
+  });
+
+  it('shows listing errors', async () => {
+    await expandTools(createMockMcpManager(jest.fn().mockResolvedValue({ success: false, tools: [], error: 'spawn ENOENT' })));
+
+    expect(parentEl.querySelector('.claudian-mcp-selector-tools-note')?.textContent).toBe('spawn ENOENT');
+  });
+
+  it('restores and clears the selection', () => {
+    selector.setMcpManager(createMockMcpManager());
+    selector.setToolSelection({ docs: ['search'] });
+    expect(selector.getToolSelection()).toEqual({ docs: ['search'] });
+
+    selector.clearEnabled();
+    expect(selector.getToolSelection()).toEqual({});
+  });
 });
 
 describe('McpServerSelector - toggle and badges', () => {
   let parentEl: any;
   let selector: McpServerSelector;
 
-  function createMockMcpManager(servers: { name: string; enabled: boolean; contextSaving?: boolean }[] = []) {
+  function createMockMcpManager(
+    servers: { name: string; enabled: boolean; contextSaving?: boolean }[] = [],
+    health: Record<string, McpServerHealth> = {}
+  ) {
     return {
       getServers: jest.fn().mockReturnValue(
         servers.map(s => ({
@@ -576,6 +709,7 @@ describe('McpServerSelector - toggle and badges', () => {
           contextSaving: s.contextSaving ?? false,
         }))
       ),
+      getServerHealth: jest.fn((name: string) => health[name]),
     } as any;
   }
 
@@ -645,6 +779,86 @@ describe('McpServerSelector - toggle and badges', () => {
     // Should not throw
     expect(() => mouseenterHandlers![0]()).not.toThrow();
   });
+
+  it('should render a status dot with latency or last error', () => {
+    selector.setMcpManager(createMockMcpManager(
+      [{ name: 'up', enabled: true }, { name: 'down', enabled: true }],
+      {
+        up: { status: 'healthy', latencyMs: 42 },
+        down: { status: 'unhealthy', lastError: 'ECONNREFUSED' },
+      }
+    ));
+
+    const healthy = parentEl.querySelector('.status-healthy');
+    const unhealthy = parentEl.querySelector('.status-unhealthy');
+    expect(healthy?.getAttribute('title')).toBe('Healthy (42 ms)');
+    expect(unhealthy?.getAttribute('title')).toBe('Unreachable: ECONNREFUSED');
+    expect(parentEl.querySelector('.claudian-mcp-selector-icon')?.hasClass('unhealthy')).toBe(true);
+  });
+
+  it('should not render restart buttons without a restart callback', () => {
+    selector.setMcpManager(createMockMcpManager([{ name: 'server1', enabled: true }]));
+    expect(parentEl.querySelector('.claudian-mcp-selector-restart')).toBeNull();
+  });
+
+  it('should restart a server without toggling it', async () => {
+    const onRestart = jest.fn().mockResolvedValue(undefined);
+    selector.setOnRestart(onRestart);
+    selector.setMcpManager(createMockMcpManager([{ name: 'server1', enabled: true }]));
+
+    const restartEl = parentEl.querySelector('.claudian-mcp-selector-restart');
+    const event = { preventDefault: jest.fn(), stopPropagation: jest.fn() };
+    restartEl._eventListeners.get('mousedown')[0](event);
+    await Promise.resolve();
+
+    expect(onRestart).toHaveBeenCalledWith('server1');
+    expect(event.stopPropagation).toHaveBeenCalled();
+    expect(selector.getEnabledServers().has('server1')).toBe(false);
+  });
+
+  it('should open the resource browser from the dropdown', () => {
+    const onBrowse = jest.fn();
+    selector.setMcpManager(createMockMcpManager([{ name: 'server1', enabled: true }]));
+    expect(parentEl.querySelector('.claudian-mcp-selector-browse')).toBeNull();
+
+    selector.setOnBrowseResources(onBrowse);
+    const browseEl = parentEl.querySelector('.claudian-mcp-selector-browse');
+    browseEl._eventListeners.get('mousedown')[0]({ preventDefault: jest.fn(), stopPropagation: jest.fn() });
+
+    expect(onBrowse).toHaveBeenCalled();
+  });
+});
+
+describe('BudgetIndicator', () => {
+  let parentEl: any;
+  let indicator: BudgetIndicator;
+
+  beforeEach(() => {
+    parentEl = createMockEl();
+    indicator = new BudgetIndicator(parentEl);
+  });
+
+  it('should be hidden when no cap is set', () => {
+    indicator.update({ exceeded: [], tightest: null, remaining: null, limit: null });
+    const container = parentEl.querySelector('.claudian-budget-indicator');
+    expect(container?.style.display).toBe('none');
+  });
+
+  it('should show remaining budget of the tightest cap', () => {
+    indicator.update({ exceeded: [], tightest: 'day', remaining: 3.5, limit: 5 });
+    const container = parentEl.querySelector('.claudian-budget-indicator');
+    expect(container?.style.display).toBe('flex');
+    expect(container?.textContent).toBe('$3.50 left');
+    expect(container?.getAttribute('data-tooltip')).toBe('$3.50 of $5.00 daily budget left');
+    expect(container?.hasClass('warning')).toBe(false);
+  });
+
+  it('should flag low and exhausted budgets', () => {
+    indicator.update({ exceeded: ['vault'], tightest: 'vault', remaining: 0, limit: 10 });
+    const container = parentEl.querySelector('.claudian-budget-indicator');
+    expect(container?.hasClass('warning')).toBe(true);
+    expect(container?.hasClass('exceeded')).toBe(true);
+  });
 });
 
 describe('createInputToolbar', () => {
@@ -656,6 +870,7 @@ describe('createInputToolbar', () => {
     expect(toolbar.modelSelector).toBeInstanceOf(ModelSelector);
     expect(toolbar.thinkingBudgetSelector).toBeInstanceOf(ThinkingBudgetSelector);
     expect(toolbar.contextUsageMeter).toBeInstanceOf(ContextUsageMeter);
+    expect(toolbar.budgetIndicator).toBeInstanceOf(BudgetIndicator);
     expect(toolbar.mcpServerSelector).toBeInstanceOf(McpServerSelector);
     expect(toolbar.permissionToggle).toBeInstanceOf(PermissionToggle);
   });
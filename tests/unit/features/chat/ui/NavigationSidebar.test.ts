@@ -218,7 +218,7 @@ describe('NavigationSidebar', () => {
       expect(container).not.toBeNull();
     });
 
-    it('should create four navigation buttons', () => {
+    it('should create six navigation buttons', () => {
       sidebar = new NavigationSidebar(
         parentEl as unknown as HTMLElement,
         messagesEl as unknown as HTMLElement
@@ -226,7 +226,7 @@ describe('NavigationSidebar', () => {
 
       const container = parentEl.querySelector('.claudian-nav-sidebar');
       expect(container).not.toBeNull();
-      expect(container!.children.length).toBe(4);
+      expect(container!.children.length).toBe(6);
     });
 
     it('should set correct aria-labels on buttons', () => {
@@ -242,6 +242,8 @@ describe('NavigationSidebar', () => {
       expect(buttons[1].getAttribute('aria-label')).toBe('Previous message');
       expect(buttons[2].getAttribute('aria-label')).toBe('Next message');
       expect(buttons[3].getAttribute('aria-label')).toBe('Scroll to bottom');
+      expect(buttons[4].getAttribute('aria-label')).toBe('Previous pinned message');
+      expect(buttons[5].getAttribute('aria-label')).toBe('Next pinned message');
     });
 
     it('should set correct icons on buttons', () => {
@@ -257,6 +259,8 @@ describe('NavigationSidebar', () => {
       expect(buttons[1].getAttribute('data-icon')).toBe('chevron-up');
       expect(buttons[2].getAttribute('data-icon')).toBe('chevron-down');
       expect(buttons[3].getAttribute('data-icon')).toBe('chevrons-down');
+      expect(buttons[4].getAttribute('data-icon')).toBe('circle-arrow-up');
+      expect(buttons[5].getAttribute('data-icon')).toBe('circle-arrow-down');
     });
   });
 
@@ -500,6 +504,67 @@ describe('NavigationSidebar', () => {
     });
   });
 
+  describe('pinned message navigation', () => {
+    function addMessage(el: MockElement, offset: number, pinned: boolean): void {
+      const msg = el.createDiv({ cls: `claudian-message claudian-message-user${pinned ? ' claudian-message-pinned' : ''}` });
+      msg.offsetTop = offset;
+    }
+
+    function getPinButtons(parent: MockElement) {
+      const container = parent.querySelector('.claudian-nav-sidebar')!;
+      return { container, prev: container.children[4], next: container.children[5] };
+    }
+
+    beforeEach(() => {
+      messagesEl.scrollHeight = 2000;
+      messagesEl.clientHeight = 500;
+      addMessage(messagesEl, 0, false);
+      addMessage(messagesEl, 400, true);
+      addMessage(messagesEl, 800, false);
+      addMessage(messagesEl, 1200, true);
+    });
+
+    it('should toggle the pin buttons with setHasPins', () => {
+      sidebar = new NavigationSidebar(
+        parentEl as unknown as HTMLElement,
+        messagesEl as unknown as HTMLElement
+      );
+      const { container } = getPinButtons(parentEl);
+
+      expect(container.classList.contains('has-pins')).toBe(false);
+      sidebar.setHasPins(true);
+      expect(container.classList.contains('has-pins')).toBe(true);
+    });
+
+    it('should skip unpinned messages when moving to the next pin', () => {
+      messagesEl.scrollTop = 390;
+      sidebar = new NavigationSidebar(
+        parentEl as unknown as HTMLElement,
+        messagesEl as unknown as HTMLElement
+      );
+
+      getPinButtons(parentEl).next.click();
+
+      expect(messagesEl.scrollToCalls[messagesEl.scrollToCalls.length - 1].top).toBe(1190);
+    });
+
+    it('should wrap around at either end', () => {
+      messagesEl.scrollTop = 1190;
+      sidebar = new NavigationSidebar(
+        parentEl as unknown as HTMLElement,
+        messagesEl as unknown as HTMLElement
+      );
+      const { prev, next } = getPinButtons(parentEl);
+
+      next.click();
+      expect(messagesEl.scrollToCalls[messagesEl.scrollToCalls.length - 1].top).toBe(390);
+
+      messagesEl.scrollTop = 0;
+      prev.click();
+      expect(messagesEl.scrollToCalls[messagesEl.scrollToCalls.length - 1].top).toBe(1190);
+    });
+  });
+
   describe('destroy', () => {
     it('should remove container from DOM', () => {
       sidebar = new NavigationSidebar(
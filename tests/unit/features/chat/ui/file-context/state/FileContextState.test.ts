@@ -192,4 +192,36 @@ describe('FileContextState', () => {
       expect(changed).toBe(true);
     });
   });
+
+  describe('MCP resources', () => {
+    const readme = { server: 'docs', uri: 'docs://readme', name: 'readme' };
+
+    it('should attach a resource once per server and uri', () => {
+      expect(state.attachMcpResource(readme)).toBe(true);
+      expect(state.attachMcpResource({ ...readme })).toBe(false);
+      expect(state.attachMcpResource({ ...readme, server: 'other' })).toBe(true);
+      expect(state.getMcpResources()).toHaveLength(2);
+    });
+
+    it('should detach and clear resources', () => {
+      state.attachMcpResource(readme);
+      state.attachMcpResource({ server: 'docs', uri: 'docs://changelog', name: 'changelog' });
+
+      state.detachMcpResource('docs', 'docs://readme');
+      expect(state.getMcpResources().map((r) => r.name)).toEqual(['changelog']);
+
+      state.clearMcpResources();
+      expect(state.getMcpResources()).toEqual([]);
+    });
+
+    it('should clear resources when the conversation changes', () => {
+      state.attachMcpResource(readme);
+      state.resetForNewConversation();
+      expect(state.getMcpResources()).toEqual([]);
+
+      state.attachMcpResource(readme);
+      state.resetForLoadedConversation(false);
+      expect(state.getMcpResources()).toEqual([]);
+    });
+  });
 });
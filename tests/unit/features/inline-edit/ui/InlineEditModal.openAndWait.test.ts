@@ -95,6 +95,7 @@ describe('InlineEditModal - openAndWait', () => {
           hiddenSlashCommands: [],
         },
         getSdkCommands: jest.fn().mockReturnValue([]),
+        getHiddenSlashCommands: jest.fn().mockReturnValue(new Set()),
       } as any;
       const editor = {} as any;
       const view = { editor } as any;
@@ -360,6 +360,59 @@ describe('SlashCommandDropdown', () => {
     });
   });
 
+  describe('MCP prompt commands', () => {
+    const MCP_PROMPTS: SlashCommand[] = [
+      { id: 'mcp:docs:summarize', name: 'mcp__docs__summarize', description: 'Summarize (MCP: docs)', argumentHint: '<topic>', content: '', source: 'mcp' },
+      { id: 'mcp:docs:commit', name: 'commit', description: 'Shadowed by SDK', content: '', source: 'mcp' },
+    ];
+
+    it('should merge MCP prompts after SDK commands once they load', async () => {
+      const getMcpPromptCommands = jest.fn().mockResolvedValue(MCP_PROMPTS);
+      const getSdkCommands = jest.fn().mockResolvedValue(SDK_COMMANDS);
+      const dropdownWithMcp = new SlashCommandDropdown(
+        containerEl,
+        inputEl,
+        { ...callbacks, getSdkCommands, getMcpPromptCommands }
+      );
+
+      inputEl.value = '/';
+      inputEl.selectionStart = 1;
+      dropdownWithMcp.handleInputChange();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const items = getRenderedItems(containerEl);
+      expect(items.map(i => i.name)).toContain('mcp__docs__summarize');
+      expect(items.filter(i => i.name === 'commit')).toEqual([{ name: 'commit', description: 'Create a git commit' }]);
+
+      dropdownWithMcp.handleInputChange();
+      expect(getMcpPromptCommands).toHaveBeenCalledTimes(1);
+
+      dropdownWithMcp.destroy();
+    });
+
+    it('should respect hidden commands and refetch after a cache reset', async () => {
+      const getMcpPromptCommands = jest.fn().mockResolvedValue(MCP_PROMPTS);
+      const dropdownWithMcp = new SlashCommandDropdown(
+        containerEl,
+        inputEl,
+        { ...callbacks, getMcpPromptCommands },
+        { hiddenCommands: new Set(['mcp__docs__summarize']) }
+      );
+
+      inputEl.value = '/mcp';
+      inputEl.selectionStart = 4;
+      dropdownWithMcp.handleInputChange();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(getRenderedCommandNames(containerEl)).not.toContain('mcp__docs__summarize');
+
+      dropdownWithMcp.resetSdkSkillsCache();
+      dropdownWithMcp.handleInputChange();
+      expect(getMcpPromptCommands).toHaveBeenCalledTimes(2);
+
+      dropdownWithMcp.destroy();
+    });
+  });
+
   describe('race condition handling', () => {
     it('should discard stale results when newer request is made', async () => {
       let resolveFirst: (value: SlashCommand[]) => void;
@@ -269,6 +269,80 @@ describe('MentionDropdownController', () => {
     });
   });
 
+  describe('resource mentions', () => {
+    const resources = [
+      { uri: 'docs://readme', name: 'readme', description: 'Project readme' },
+      { uri: 'docs://changelog', name: 'changelog' },
+    ];
+
+    function createResourceProvider(cached: typeof resources | null): McpMentionProvider {
+      return {
+        getContextSavingServers: jest.fn().mockReturnValue([]),
+        getServers: jest.fn().mockReturnValue([{ name: 'docs', enabled: true }]),
+        getCachedResources: jest.fn().mockReturnValue(cached),
+        listResources: jest.fn().mockResolvedValue({ success: true, resources, templates: [] }),
+      } as unknown as McpMentionProvider;
+    }
+
+    function typeMention(value: string) {
+      inputEl.value = value;
+      inputEl.selectionStart = value.length;
+      controller.handleInputChange();
+      jest.advanceTimersByTime(200);
+    }
+
+    beforeEach(() => {
+      callbacks = createMockCallbacks({ onAttachMcpResource: jest.fn() });
+      controller.destroy();
+      controller = new MentionDropdownController(containerEl, inputEl, callbacks);
+    });
+
+    it('filters cached resources after @server:', () => {
+      controller.setMcpManager(createResourceProvider(resources));
+
+      typeMention('@docs:read');
+
+      const options = getLatestDropdownRenderOptions();
+      expect(options.items).toEqual([
+        expect.objectContaining({ type: 'mcp-resource', server: 'docs', uri: 'docs://readme' }),
+      ]);
+    });
+
+    it('lists resources in the background when nothing is cached', () => {
+      const provider = createResourceProvider(null);
+      controller.setMcpManager(provider);
+
+      typeMention('@docs:');
+
+      expect(provider.listResources).toHaveBeenCalledWith('docs');
+      expect(getLatestDropdownRenderOptions().emptyText).toBe('Loading resources...');
+    });
+
+    it('inserts the mention and attaches the resource on select', () => {
+      controller.setMcpManager(createResourceProvider(resources));
+      typeMention('Summarize @docs:change');
+
+      const handled = controller.handleKeydown({ key: 'Enter', preventDefault: jest.fn() } as any);
+
+      expect(handled).toBe(true);
+      expect(inputEl.value).toBe('Summarize @docs:changelog ');
+      expect(callbacks.onAttachMcpResource).toHaveBeenCalledWith({
+        server: 'docs',
+        uri: 'docs://changelog',
+        name: 'changelog',
+      });
+    });
+
+    it('falls back to normal mentions for unknown servers', () => {
+      const provider = createResourceProvider(resources);
+      controller.setMcpManager(provider);
+
+      typeMention('@other:x');
+
+      expect(provider.getCachedResources).not.toHaveBeenCalled();
+    });
+  });
+
   describe('mixed providers', () => {
     it('queries both MCP servers and agents', () => {
       const mcpManager = createMockMcpService([{ name: 'filesystem' }]);
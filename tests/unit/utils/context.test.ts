@@ -1,6 +1,7 @@
 import {
   appendContextFiles,
   appendCurrentNote,
+  appendMcpResources,
   extractContentBeforeXmlContext,
   extractUserQuery,
   formatCurrentNote,
@@ -216,6 +217,11 @@ describe('extractUserQuery', () => {
       expect(extractUserQuery(prompt)).toBe('Query end');
     });
 
+    it('strips mcp_resources tags', () => {
+      const prompt = 'Query <mcp_resources><resource server="docs" uri="docs://a">A</resource></mcp_resources> end';
+      expect(extractUserQuery(prompt)).toBe('Query end');
+    });
+
     it('strips multiple tag types', () => {
       const prompt = '<current_note>a.md</current_note>Query<context_files>b.md</context_files>';
       expect(extractUserQuery(prompt)).toBe('Query');
@@ -254,3 +260,29 @@ describe('appendContextFiles', () => {
     expect(result).toBe('Query\n\n<context_files>\n\n</context_files>');
   });
 });
+
+describe('appendMcpResources', () => {
+  it('appends text contents with server and uri attributes', () => {
+    const result = appendMcpResources('Query', [
+      { server: 'docs', uri: 'docs://readme', contents: [{ uri: 'docs://readme', mimeType: 'text/markdown', text: '# Readme' }] },
+    ]);
+    expect(result).toBe(
+      'Query\n\n<mcp_resources>\n' +
+      '<resource server="docs" uri="docs://readme" mime_type="text/markdown">\n# Readme\n</resource>\n' +
+      '</mcp_resources>'
+    );
+  });
+
+  it('summarizes binary contents instead of inlining them', () => {
+    const result = appendMcpResources('Query', [
+      { server: 'img', uri: 'img://logo', contents: [{ uri: 'img://logo', mimeType: 'image/png', blob: 'aGVsbG8=' }] },
+    ]);
+    expect(result).toContain('[binary content, 5 bytes]');
+    expect(result).not.toContain('aGVsbG8=');
+  });
+
+  it('returns the prompt unchanged when there are no contents', () => {
+    expect(appendMcpResources('Query', [])).toBe('Query');
+    expect(appendMcpResources('Query', [{ server: 'docs', uri: 'docs://x', contents: [] }])).toBe('Query');
+  });
+});
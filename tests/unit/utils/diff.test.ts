@@ -1,5 +1,5 @@
 import type { ToolCallInfo } from '../../../src/core/types/tools';
-import { diffFromToolInput,extractDiffData } from '../../../src/utils/diff';
+import { computeLineDiff, diffFromToolInput,extractDiffData } from '../../../src/utils/diff';
 
 /** Helper to create a ToolCallInfo for testing. */
 function makeToolCall(name: string, input: Record<string, unknown>): ToolCallInfo {
@@ -168,3 +168,32 @@ describe('diffFromToolInput', () => {
     expect(result).toBeUndefined();
   });
 });
+
+describe('computeLineDiff', () => {
+  it('marks changed lines between unchanged ones', () => {
+    expect(computeLineDiff('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', text: 'a', oldLineNum: 1, newLineNum: 1 },
+      { type: 'delete', text: 'b', oldLineNum: 2 },
+      { type: 'insert', text: 'B', newLineNum: 2 },
+      { type: 'equal', text: 'c', oldLineNum: 3, newLineNum: 3 },
+      { type: 'insert', text: 'd', newLineNum: 4 },
+    ]);
+  });
+
+  it('keeps lines common to both texts when lines move', () => {
+    const diff = computeLineDiff('x\na\nb\ny', 'x\nb\na\ny');
+    expect(diff.filter(l => l.type === 'equal')).toHaveLength(3);
+    expect(diff.filter(l => l.type !== 'equal')).toHaveLength(2);
+  });
+
+  it('treats a null old text as a new file', () => {
+    expect(computeLineDiff(null, 'one\ntwo')).toEqual([
+      { type: 'insert', text: 'one', newLineNum: 1 },
+      { type: 'insert', text: 'two', newLineNum: 2 },
+    ]);
+  });
+
+  it('returns only equal lines for identical texts', () => {
+    expect(computeLineDiff('same\ntext', 'same\ntext').every(l => l.type === 'equal')).toBe(true);
+  });
+});
@@ -1,4 +1,12 @@
-import { extractMcpMentions, parseCommand, splitCommandString, transformMcpMentions } from '@/utils/mcp';
+import {
+  expandUriTemplate,
+  extractMcpMentions,
+  getUriTemplateVariables,
+  isMcpToolEnabled,
+  parseCommand,
+  splitCommandString,
+  transformMcpMentions,
+} from '@/utils/mcp';
 
 describe('extractMcpMentions', () => {
   it('extracts valid MCP mentions', () => {
@@ -21,6 +29,12 @@ describe('extractMcpMentions', () => {
     const result = extractMcpMentions(text, validNames);
     expect(result).toEqual(new Set());
   });
+
+  it('ignores resource mentions (@server:resource)', () => {
+    const validNames = new Set(['docs']);
+    expect(extractMcpMentions('Read @docs:readme first', validNames)).toEqual(new Set());
+    expect(extractMcpMentions('Ask @docs: what changed?', validNames)).toEqual(new Set(['docs']));
+  });
 });
 
 describe('transformMcpMentions', () => {
@@ -254,3 +268,57 @@ describe('parseCommand', () => {
     });
   });
 });
+
+describe('getUriTemplateVariables', () => {
+  it('lists variable names once, without modifiers', () => {
+    expect(getUriTemplateVariables('repo://{owner}/{repo}/issues{?state,page}{&owner}')).toEqual([
+      'owner', 'repo', 'state', 'page',
+    ]);
+    expect(getUriTemplateVariables('file:///{+path}{/segments*}{id:3}')).toEqual(['path', 'segments', 'id']);
+  });
+
+  it('returns an empty list for plain URIs', () => {
+    expect(getUriTemplateVariables('docs://readme')).toEqual([]);
+  });
+});
+
+describe('expandUriTemplate', () => {
+  it('percent-encodes simple expressions', () => {
+    expect(expandUriTemplate('notes://{title}', { title: 'a b/c' })).toBe('notes://a%20b%2Fc');
+  });
+
+  it('keeps reserved characters for + and # expressions', () => {
+    expect(expandUriTemplate('file:///{+path}', { path: 'docs/a b.md' })).toBe('file:///docs/a%20b.md');
+    expect(expandUriTemplate('page{#section}', { section: 'intro/1' })).toBe('page#intro/1');
+  });
+
+  it('expands query, path, label and parameter expressions', () => {
+    const values = { q: 'x y', page: '2', dir: 'src', ext: 'ts', v: '1' };
+    expect(expandUriTemplate('search{?q,page}', values)).toBe('search?q=x%20y&page=2');
+    expect(expandUriTemplate('search?a=1{&page}', values)).toBe('search?a=1&page=2');
+    expect(expandUriTemplate('root{/dir}', values)).toBe('root/src');
+    expect(expandUriTemplate('file{.ext}', values)).toBe('file.ts');
+    expect(expandUriTemplate('map{;v}', values)).toBe('map;v=1');
+  });
+
+  it('drops expressions whose variables are undefined', () => {
+    expect(expandUriTemplate('search{?q,page}', {})).toBe('search');
+    expect(expandUriTemplate('repo://{owner}/x', {})).toBe('repo:///x');
+  });
+});
+
+describe('isMcpToolEnabled', () => {
+  it('only limits servers that have a selection', () => {
+    const selection = { docs: ['search'] };
+    expect(isMcpToolEnabled('mcp__docs__search', selection)).toBe(true);
+    expect(isMcpToolEnabled('mcp__docs__delete', selection)).toBe(false);
+    expect(isMcpToolEnabled('mcp__git__log', selection)).toBe(true);
+    expect(isMcpToolEnabled('Bash', selection)).toBe(true);
+  });
+
+  it('matches the longest server name when names share a prefix', () => {
+    const selection = { code: ['tools__review'], code__tools: [] };
+    expect(isMcpToolEnabled('mcp__code__tools__review', selection)).toBe(false);
+    expect(isMcpToolEnabled('mcp__code__lint', selection)).toBe(false);
+  });
+});
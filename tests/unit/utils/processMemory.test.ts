@@ -0,0 +1,73 @@
+import { execFile } from 'child_process';
+
+import { formatMemory, getProcessMemory, parsePsMemoryOutput } from '@/utils/processMemory';
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+const execFileMock = execFile as jest.MockedFunction<typeof execFile>;
+
+describe('processMemory', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('parsePsMemoryOutput', () => {
+    it('converts RSS kilobytes to bytes per PID', () => {
+      const memory = parsePsMemoryOutput('  123  2048\n 4567 1024\n');
+
+      expect(memory.get(123)).toBe(2048 * 1024);
+      expect(memory.get(4567)).toBe(1024 * 1024);
+    });
+
+    it('skips blank and malformed lines', () => {
+      const memory = parsePsMemoryOutput('\nPID RSS\n  12  abc\n 42 10\n');
+
+      expect([...memory.keys()]).toEqual([42]);
+    });
+  });
+
+  describe('getProcessMemory', () => {
+    it('resolves with an empty map without running ps when there are no PIDs', async () => {
+      await expect(getProcessMemory([])).resolves.toEqual(new Map());
+      expect(execFileMock).not.toHaveBeenCalled();
+    });
+
+    it('queries ps for all PIDs at once', async () => {
+      execFileMock.mockImplementation(((_file: any, _args: any, _opts: any, cb: any) => {
+        cb(null, ' 10 100\n 20 200\n', '');
+        return undefined as any;
+      }) as any);
+
+      const memory = await getProcessMemory([10, 20]);
+
+      expect(execFileMock).toHaveBeenCalledWith(
+        'ps',
+        ['-o', 'pid=,rss=', '-p', '10,20'],
+        expect.objectContaining({ timeout: 5000 }),
+        expect.any(Function)
+      );
+      expect(memory.get(10)).toBe(100 * 1024);
+      expect(memory.get(20)).toBe(200 * 1024);
+    });
+
+    it('keeps the listed processes when ps reports some as gone', async () => {
+      execFileMock.mockImplementation(((_file: any, _args: any, _opts: any, cb: any) => {
+        cb(new Error('exit 1'), ' 10 100\n', '');
+        return undefined as any;
+      }) as any);
+
+      const memory = await getProcessMemory([10, 99]);
+
+      expect([...memory.keys()]).toEqual([10]);
+    });
+  });
+
+  describe('formatMemory', () => {
+    it('rounds to whole megabytes', () => {
+      expect(formatMemory(182.4 * 1024 * 1024)).toBe('182 MB');
+      expect(formatMemory(0)).toBe('0 MB');
+    });
+  });
+});
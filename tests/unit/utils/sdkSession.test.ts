@@ -7,6 +7,7 @@ import {
   deleteSDKSession,
   encodeVaultPathForSDK,
   filterActiveBranch,
+  findInactiveBranches,
   getSDKProjectsPath,
   getSDKSessionPath,
   isValidSessionId,
@@ -1663,6 +1664,68 @@ describe('sdkSession', () => {
       // queue-operation between a2 (not active) and u3 (active) — should be dropped
       expect(result.some(e => e.type === 'queue-operation')).toBe(false);
     });
+
+    it('selects the branch ending at leafUuid', () => {
+      const entries: SDKNativeMessage[] = [
+        { type: 'user', uuid: 'u1', parentUuid: null },
+        { type: 'assistant', uuid: 'a1', parentUuid: 'u1' },
+        { type: 'user', uuid: 'u2', parentUuid: 'a1' },
+        { type: 'assistant', uuid: 'a2', parentUuid: 'u2' },
+        { type: 'user', uuid: 'u3', parentUuid: 'a1' },
+        { type: 'assistant', uuid: 'a3', parentUuid: 'u3' },
+      ];
+
+      const result = filterActiveBranch(entries, undefined, 'a2');
+
+      expect(result.map(e => e.uuid)).toEqual(['u1', 'a1', 'u2', 'a2']);
+    });
+  });
+
+  describe('findInactiveBranches', () => {
+    const prompt = (text: string) => ({ role: 'user', content: text });
+
+    it('lists branches left behind by a rewind and follow-up', () => {
+      const entries: SDKNativeMessage[] = [
+        { type: 'user', uuid: 'u1', parentUuid: null, message: prompt('First') },
+        { type: 'assistant', uuid: 'a1', parentUuid: 'u1' },
+        { type: 'user', uuid: 'u2', parentUuid: 'a1', message: prompt('Old question'), timestamp: '2026-01-01T00:00:00Z' },
+        { type: 'assistant', uuid: 'a2', parentUuid: 'u2', timestamp: '2026-01-01T00:01:00Z' },
+        { type: 'user', uuid: 'u3', parentUuid: 'a1', message: prompt('New question') },
+        { type: 'assistant', uuid: 'a3', parentUuid: 'u3' },
+      ];
+
+      expect(findInactiveBranches(entries)).toEqual([{
+        leafUuid: 'a2',
+        sharedPromptCount: 1,
+        preview: 'Old question',
+        timestamp: new Date('2026-01-01T00:01:00Z').getTime(),
+      }]);
+    });
+
+    it('lists the tail cut off by a pending rewind', () => {
+      const entries: SDKNativeMessage[] = [
+        { type: 'user', uuid: 'u1', parentUuid: null, message: prompt('First') },
+        { type: 'assistant', uuid: 'a1', parentUuid: 'u1' },
+        { type: 'user', uuid: 'u2', parentUuid: 'a1', message: prompt('Second') },
+        { type: 'assistant', uuid: 'a2', parentUuid: 'u2' },
+      ];
+
+      const branches = findInactiveBranches(entries, 'a1');
+
+      expect(branches.map(b => [b.leafUuid, b.sharedPromptCount, b.preview])).toEqual([['a2', 1, 'Second']]);
+    });
+
+    it('ignores linear sessions and branches without a prompt', () => {
+      const entries: SDKNativeMessage[] = [
+        { type: 'user', uuid: 'u1', parentUuid: null, message: prompt('First') },
+        { type: 'assistant', uuid: 'a1', parentUuid: 'u1' },
+        { type: 'assistant', uuid: 'a1b', parentUuid: 'u1' },
+        { type: 'user', uuid: 'u2', parentUuid: 'a1b', message: prompt('Next') },
+      ];
+
+      expect(findInactiveBranches(entries.slice(0, 2))).toEqual([]);
+      expect(findInactiveBranches(entries)).toEqual([]);
+    });
   });
 
   describe('loadSDKSessionMessages with resumeSessionAt', () => {